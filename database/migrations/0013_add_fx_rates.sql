@@ -0,0 +1,25 @@
+-- Migration 0013: Add fx_rates table + presentment currency on sales_ledger
+-- Description: Locally stored FX rates used to price checkouts in the buyer's
+--   currency (EUR/USD alongside GBP). Rates are "units of currency per £1"
+--   and are maintained by admins via /api/admin/fx-rates — nothing fetches
+--   them automatically, so a checkout never depends on a third-party API.
+--   sales_ledger keeps its money columns in GBP (the settlement currency
+--   artist royalties are paid in); the new columns record what the buyer
+--   actually saw and paid.
+-- Applied to: freshwax-db
+-- Idempotent: Partially (the ALTER TABLE statements fail harmlessly if the
+--   columns already exist — apply once)
+
+CREATE TABLE IF NOT EXISTS fx_rates (
+  currency TEXT PRIMARY KEY,
+  rate REAL NOT NULL,
+  source TEXT DEFAULT 'manual',
+  updated_by TEXT,
+  updated_at TEXT DEFAULT (datetime('now'))
+);
+
+ALTER TABLE sales_ledger ADD COLUMN presentment_currency TEXT DEFAULT 'GBP';
+ALTER TABLE sales_ledger ADD COLUMN presentment_total REAL;
+ALTER TABLE sales_ledger ADD COLUMN fx_rate REAL DEFAULT 1;
+
+CREATE INDEX IF NOT EXISTS idx_ledger_presentment_currency ON sales_ledger(presentment_currency);
@@ -0,0 +1,84 @@
+-- Migration 0014: Add rule-based shipping tables
+-- Description: Shipping zones, the countries in each zone, and rate tables
+--   keyed by (seller, zone, band) replace the regions and flat rates that
+--   were hard-coded in src/lib/order/shipping-rules.ts. Every checkout
+--   endpoint and /api/shipping-quote evaluate these same rules.
+--   - shipping_zones: a zone maps onto one of the three legacy regions
+--     (UK/EU/INTL) so per-release vinylShippingUK/EU/Intl still apply.
+--   - shipping_countries: the shippable-destinations allowlist. shippable=0
+--     rows still resolve a zone (e.g. EU members we don't ship to yet).
+--   - shipping_rates: first-item + per-additional-item charge per band
+--     ('7in', '12in', '2xlp', 'tee', 'merch'). seller_id '' is the platform
+--     default; a seller's own row overrides it.
+--   Seed rows reproduce the previous hard-coded behaviour exactly.
+-- Applied to: freshwax-db
+-- Idempotent: Yes (CREATE IF NOT EXISTS, INSERT OR IGNORE)
+
+CREATE TABLE IF NOT EXISTS shipping_zones (
+  id TEXT PRIMARY KEY,
+  name TEXT NOT NULL,
+  region TEXT NOT NULL CHECK (region IN ('UK', 'EU', 'INTL')),
+  updated_at TEXT DEFAULT (datetime('now'))
+);
+
+CREATE TABLE IF NOT EXISTS shipping_countries (
+  iso TEXT PRIMARY KEY,
+  name TEXT NOT NULL,
+  zone_id TEXT NOT NULL,
+  shippable INTEGER DEFAULT 1,
+  aliases TEXT DEFAULT '[]',
+  updated_at TEXT DEFAULT (datetime('now'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_shipping_countries_zone ON shipping_countries(zone_id);
+
+CREATE TABLE IF NOT EXISTS shipping_rates (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  seller_id TEXT NOT NULL DEFAULT '',
+  zone_id TEXT NOT NULL,
+  band TEXT NOT NULL,
+  first_item REAL NOT NULL,
+  additional_item REAL NOT NULL DEFAULT 0,
+  updated_at TEXT DEFAULT (datetime('now')),
+  UNIQUE (seller_id, zone_id, band)
+);
+
+CREATE INDEX IF NOT EXISTS idx_shipping_rates_seller ON shipping_rates(seller_id);
+
+-- Zones
+INSERT OR IGNORE INTO shipping_zones (id, name, region) VALUES
+  ('uk', 'United Kingdom', 'UK'),
+  ('eu', 'Europe', 'EU'),
+  ('intl', 'Rest of world', 'INTL');
+
+-- Countries we ship to (the checkout form's list)
+INSERT OR IGNORE INTO shipping_countries (iso, name, zone_id, shippable, aliases) VALUES
+  ('GB', 'United Kingdom', 'uk', 1, '["UK"]'),
+  ('IE', 'Ireland', 'eu', 1, '[]'),
+  ('DE', 'Germany', 'eu', 1, '[]'),
+  ('FR', 'France', 'eu', 1, '[]'),
+  ('NL', 'Netherlands', 'eu', 1, '[]'),
+  ('BE', 'Belgium', 'eu', 1, '[]'),
+  ('US', 'United States', 'intl', 1, '["USA"]'),
+  ('CA', 'Canada', 'intl', 1, '[]'),
+  ('AU', 'Australia', 'intl', 1, '[]');
+
+-- EU members we don't ship to yet: resolve to the EU zone, not offered at checkout
+INSERT OR IGNORE INTO shipping_countries (iso, name, zone_id, shippable) VALUES
+  ('ES', 'Spain', 'eu', 0), ('IT', 'Italy', 'eu', 0), ('AT', 'Austria', 'eu', 0),
+  ('PL', 'Poland', 'eu', 0), ('PT', 'Portugal', 'eu', 0), ('DK', 'Denmark', 'eu', 0),
+  ('SE', 'Sweden', 'eu', 0), ('FI', 'Finland', 'eu', 0), ('CZ', 'Czech Republic', 'eu', 0),
+  ('GR', 'Greece', 'eu', 0), ('HU', 'Hungary', 'eu', 0), ('RO', 'Romania', 'eu', 0),
+  ('BG', 'Bulgaria', 'eu', 0), ('HR', 'Croatia', 'eu', 0), ('SK', 'Slovakia', 'eu', 0),
+  ('SI', 'Slovenia', 'eu', 0), ('LT', 'Lithuania', 'eu', 0), ('LV', 'Latvia', 'eu', 0),
+  ('EE', 'Estonia', 'eu', 0), ('CY', 'Cyprus', 'eu', 0), ('MT', 'Malta', 'eu', 0),
+  ('LU', 'Luxembourg', 'eu', 0);
+
+-- Platform default rates (seller_id '')
+INSERT OR IGNORE INTO shipping_rates (seller_id, zone_id, band, first_item, additional_item) VALUES
+  ('', 'uk', '7in', 4.99, 0.5), ('', 'uk', '12in', 4.99, 0.5), ('', 'uk', '2xlp', 4.99, 0.5),
+  ('', 'eu', '7in', 9.99, 0.5), ('', 'eu', '12in', 9.99, 0.5), ('', 'eu', '2xlp', 9.99, 0.5),
+  ('', 'intl', '7in', 14.99, 0.5), ('', 'intl', '12in', 14.99, 0.5), ('', 'intl', '2xlp', 14.99, 0.5),
+  ('', 'uk', 'tee', 4.99, 0), ('', 'uk', 'merch', 4.99, 0),
+  ('', 'eu', 'tee', 4.99, 0), ('', 'eu', 'merch', 4.99, 0),
+  ('', 'intl', 'tee', 4.99, 0), ('', 'intl', 'merch', 4.99, 0);
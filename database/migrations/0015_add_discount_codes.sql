@@ -0,0 +1,46 @@
+-- Migration 0015: Add discount codes and redemptions
+-- Description: Coupon codes for promotional campaigns, evaluated at checkout
+--   by lib/order/price-validation.ts (validateDiscountCode).
+--   - discount_codes: one row per code. type 'percentage' (amount = percent
+--     off) or 'fixed' (amount = GBP off). scope narrows which basket lines
+--     the code applies to: 'order' (everything), 'release', 'label' or
+--     'supplier', with the matching ids in scope_ids (JSON array).
+--     max_uses / max_uses_per_customer NULL = unlimited; starts_at / ends_at
+--     NULL = open-ended; min_basket is compared to the pre-discount subtotal.
+--   - discount_redemptions: one row per (code, order), written when the
+--     order is created. used_count on the code is the running total.
+-- Applied to: freshwax-db
+-- Idempotent: Yes (CREATE IF NOT EXISTS)
+
+CREATE TABLE IF NOT EXISTS discount_codes (
+  code TEXT PRIMARY KEY,
+  campaign TEXT,
+  type TEXT NOT NULL CHECK (type IN ('percentage', 'fixed')),
+  amount REAL NOT NULL,
+  scope TEXT NOT NULL DEFAULT 'order' CHECK (scope IN ('order', 'release', 'label', 'supplier')),
+  scope_ids TEXT DEFAULT '[]',
+  min_basket REAL DEFAULT 0,
+  max_uses INTEGER,
+  max_uses_per_customer INTEGER,
+  used_count INTEGER DEFAULT 0,
+  starts_at TEXT,
+  ends_at TEXT,
+  active INTEGER DEFAULT 1,
+  created_at TEXT DEFAULT (datetime('now')),
+  updated_at TEXT DEFAULT (datetime('now'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_discount_codes_campaign ON discount_codes(campaign);
+
+CREATE TABLE IF NOT EXISTS discount_redemptions (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  code TEXT NOT NULL,
+  order_id TEXT NOT NULL,
+  customer_email TEXT,
+  customer_id TEXT,
+  amount REAL NOT NULL,
+  created_at TEXT DEFAULT (datetime('now')),
+  UNIQUE (code, order_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_discount_redemptions_code_email ON discount_redemptions(code, customer_email);
@@ -0,0 +1,35 @@
+-- Migration 0016: Add invoices table + VAT on sales_ledger
+-- Description: VAT invoices for orders (lib/order/invoices.ts).
+--   - invoices: one row per order. invoice_number comes from the
+--     AUTOINCREMENT rowid so numbers are sequential and never reused; the
+--     printed number is FW-INV-000123. Issued when the order is created, or
+--     on first download for orders that predate this table. The totals are a
+--     snapshot for the VAT return and audit — the invoice itself is rendered
+--     from the order's `vat` breakdown.
+--   - sales_ledger.vat / vat_country: the VAT inside each seller's gross
+--     (prices are VAT-inclusive), and the buyer country it was charged for.
+-- Applied to: freshwax-db
+-- Idempotent: Partially (the ALTER TABLE statements fail harmlessly if the
+--   columns already exist — apply once)
+
+CREATE TABLE IF NOT EXISTS invoices (
+  invoice_number INTEGER PRIMARY KEY AUTOINCREMENT,
+  order_id TEXT NOT NULL UNIQUE,
+  order_number TEXT,
+  customer_id TEXT,
+  customer_email TEXT,
+  buyer_country TEXT,
+  buyer_vat_number TEXT,
+  net REAL NOT NULL DEFAULT 0,
+  vat REAL NOT NULL DEFAULT 0,
+  gross REAL NOT NULL DEFAULT 0,
+  currency TEXT DEFAULT 'GBP',
+  tax_point TEXT,
+  issued_at TEXT DEFAULT (datetime('now'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_invoices_customer ON invoices(customer_id);
+CREATE INDEX IF NOT EXISTS idx_invoices_tax_point ON invoices(tax_point);
+
+ALTER TABLE sales_ledger ADD COLUMN vat REAL DEFAULT 0;
+ALTER TABLE sales_ledger ADD COLUMN vat_country TEXT;
@@ -0,0 +1,42 @@
+-- Migration 0017: Add double-entry journal
+-- Description: Append-only accounting journal behind the sales ledger
+--   (lib/journal.ts). Every money movement — customer payment, processor fee,
+--   platform fee, seller liability, payout, refund, dispute — is posted as one
+--   journal_entries row with two or more journal_lines whose debits equal
+--   their credits. Seller balances are derived from the lines, never edited.
+--   - journal_entries.id is deterministic (e.g. sale:<ledgerId>,
+--     payout:<transferId>) so a retried webhook posts nothing twice.
+--   - journal_lines amounts are integer pence; one of debit_pence /
+--     credit_pence is zero on every line. party_id is the seller uid on
+--     *_payable accounts and the processor (stripe, paypal…) on clearing.
+--   Rows are never updated or deleted — corrections are new entries.
+-- Applied to: freshwax-db
+-- Idempotent: Yes
+
+CREATE TABLE IF NOT EXISTS journal_entries (
+  id TEXT PRIMARY KEY,
+  entry_type TEXT NOT NULL,
+  order_id TEXT,
+  reference TEXT,
+  memo TEXT,
+  posted_at TEXT DEFAULT (datetime('now'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_journal_entries_type ON journal_entries(entry_type);
+CREATE INDEX IF NOT EXISTS idx_journal_entries_order ON journal_entries(order_id);
+CREATE INDEX IF NOT EXISTS idx_journal_entries_posted ON journal_entries(posted_at);
+
+CREATE TABLE IF NOT EXISTS journal_lines (
+  entry_id TEXT NOT NULL,
+  line_no INTEGER NOT NULL,
+  account TEXT NOT NULL,
+  party_id TEXT,
+  debit_pence INTEGER NOT NULL DEFAULT 0,
+  credit_pence INTEGER NOT NULL DEFAULT 0,
+  memo TEXT,
+  posted_at TEXT DEFAULT (datetime('now')),
+  PRIMARY KEY (entry_id, line_no)
+);
+
+CREATE INDEX IF NOT EXISTS idx_journal_lines_account ON journal_lines(account, party_id);
+CREATE INDEX IF NOT EXISTS idx_journal_lines_party ON journal_lines(party_id);
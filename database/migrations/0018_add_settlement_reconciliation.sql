@@ -0,0 +1,65 @@
+-- Migration 0018: Add processor settlement reconciliation
+-- Description: Stripe balance transactions and PayPal activity reports,
+--   imported from uploaded CSVs or fetched from the processor APIs, matched
+--   against sales_ledger rows by payment id (lib/settlement-reconciliation.ts).
+--   - settlement_imports: one row per upload / API fetch.
+--   - settlement_lines: one row per payment the processor settled, keyed by
+--     the processor's transaction id so re-importing a report adds nothing.
+--     payment_id is what the ledger's paymentId (or paypalCaptureId) holds.
+--     Amounts are in `currency` as the report gave them; fee is positive.
+--   - settlement_adjustments: the audit trail of every correction or
+--     acknowledgement an admin made. issue_key is unique per processor, so an
+--     issue is resolved exactly once; journal_entry_id names the adjustment
+--     entry posted to the journal, if any.
+-- Applied to: freshwax-db
+-- Idempotent: Yes
+
+CREATE TABLE IF NOT EXISTS settlement_imports (
+  id TEXT PRIMARY KEY,
+  processor TEXT NOT NULL,
+  source TEXT NOT NULL,
+  filename TEXT,
+  period_start TEXT,
+  period_end TEXT,
+  line_count INTEGER NOT NULL DEFAULT 0,
+  new_count INTEGER NOT NULL DEFAULT 0,
+  skipped_count INTEGER NOT NULL DEFAULT 0,
+  imported_by TEXT,
+  imported_at TEXT DEFAULT (datetime('now'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_settlement_imports_processor ON settlement_imports(processor, imported_at);
+
+CREATE TABLE IF NOT EXISTS settlement_lines (
+  processor TEXT NOT NULL,
+  transaction_id TEXT NOT NULL,
+  payment_id TEXT,
+  type TEXT,
+  gross REAL NOT NULL DEFAULT 0,
+  fee REAL NOT NULL DEFAULT 0,
+  net REAL NOT NULL DEFAULT 0,
+  currency TEXT NOT NULL DEFAULT 'GBP',
+  occurred_at TEXT NOT NULL,
+  import_id TEXT,
+  PRIMARY KEY (processor, transaction_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_settlement_lines_payment ON settlement_lines(processor, payment_id);
+CREATE INDEX IF NOT EXISTS idx_settlement_lines_occurred ON settlement_lines(processor, occurred_at);
+
+CREATE TABLE IF NOT EXISTS settlement_adjustments (
+  id TEXT PRIMARY KEY,
+  processor TEXT NOT NULL,
+  issue_key TEXT NOT NULL,
+  kind TEXT NOT NULL,
+  payment_id TEXT,
+  amount REAL NOT NULL DEFAULT 0,
+  ledger_ids TEXT,
+  journal_entry_id TEXT,
+  note TEXT,
+  admin_id TEXT,
+  created_at TEXT DEFAULT (datetime('now')),
+  UNIQUE (processor, issue_key)
+);
+
+CREATE INDEX IF NOT EXISTS idx_settlement_adjustments_payment ON settlement_adjustments(processor, payment_id);
@@ -0,0 +1,25 @@
+-- Migration 0019: Add split sheet change history
+-- Description: Royalty split sheets live on the release doc in Firestore
+--   (payoutSplits for the whole release, trackSplits keyed by track id; see
+--   lib/split-sheets.ts). Every change made through /api/releases/split-sheet
+--   is recorded here. Owners can edit a sheet until the release's first sale;
+--   after that only an admin can amend it, with a reason, so `locked` marks
+--   the changes made after money was already owed under the old sheet.
+--   - track_id is NULL for the release-wide sheet.
+--   - previous_shares / shares are the JSON share lists ('null' = no sheet).
+-- Applied to: freshwax-db
+-- Idempotent: Yes
+
+CREATE TABLE IF NOT EXISTS split_sheet_changes (
+  id TEXT PRIMARY KEY,
+  release_id TEXT NOT NULL,
+  track_id TEXT,
+  previous_shares TEXT,
+  shares TEXT,
+  locked INTEGER NOT NULL DEFAULT 0,
+  reason TEXT,
+  changed_by TEXT,
+  created_at TEXT DEFAULT (datetime('now'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_split_sheet_changes_release ON split_sheet_changes(release_id, created_at);
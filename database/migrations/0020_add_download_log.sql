@@ -0,0 +1,24 @@
+-- Migration 0020: Add download log
+-- Description: One row per purchased file handed to a customer, written by
+--   /api/presign-download and the /api/download proxy. Dispute evidence
+--   (lib/disputes.ts) reads it back as the access activity log for an order.
+--   - source: 'presign' (signed R2 URL issued) or 'proxy' (streamed by us).
+--   - ip / user_agent: as the request arrived; ip is null when unknown.
+-- Applied to: freshwax-db
+-- Idempotent: Yes
+
+CREATE TABLE IF NOT EXISTS download_log (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  user_id TEXT NOT NULL,
+  order_id TEXT,
+  release_id TEXT,
+  track_index INTEGER,
+  file_type TEXT,
+  source TEXT NOT NULL,
+  ip TEXT,
+  user_agent TEXT,
+  created_at TEXT NOT NULL DEFAULT (datetime('now'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_download_log_order ON download_log(order_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_download_log_user ON download_log(user_id, created_at);
@@ -0,0 +1,46 @@
+-- Migration 0021: Add artist advances and recoupment
+-- Description: Money the label pays out ahead of sales (lib/advances.ts).
+--   - artist_advances: one row per advance or cost (pressing, mastering…),
+--     for an artist across everything they sell (release_id NULL) or one
+--     release. Recoupable rows are paid back from the artist's sale earnings
+--     before any payout; `recouped` is how much has been so far. status is
+--     unrecouped | recouped | not_recoupable.
+--   - advance_recoupments: each slice of a sale (or a refund reversing one,
+--     negative amount) applied to an advance. The id is derived from the
+--     advance and the order / refund, so replaying a sale recoups once.
+-- Applied to: freshwax-db
+-- Idempotent: Yes
+
+CREATE TABLE IF NOT EXISTS artist_advances (
+  id TEXT PRIMARY KEY,
+  artist_id TEXT NOT NULL,
+  artist_name TEXT,
+  release_id TEXT,
+  kind TEXT NOT NULL DEFAULT 'advance',
+  description TEXT,
+  amount REAL NOT NULL,
+  recoupable INTEGER NOT NULL DEFAULT 1,
+  recouped REAL NOT NULL DEFAULT 0,
+  status TEXT NOT NULL DEFAULT 'unrecouped',
+  paid_at TEXT,
+  recouped_at TEXT,
+  created_by TEXT,
+  created_at TEXT DEFAULT (datetime('now'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_artist_advances_artist ON artist_advances(artist_id, status);
+CREATE INDEX IF NOT EXISTS idx_artist_advances_release ON artist_advances(release_id);
+
+CREATE TABLE IF NOT EXISTS advance_recoupments (
+  id TEXT PRIMARY KEY,
+  advance_id TEXT NOT NULL,
+  artist_id TEXT NOT NULL,
+  release_id TEXT,
+  order_id TEXT NOT NULL,
+  reference TEXT,
+  amount REAL NOT NULL,
+  created_at TEXT DEFAULT (datetime('now'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_advance_recoupments_advance ON advance_recoupments(advance_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_advance_recoupments_order ON advance_recoupments(order_id);
@@ -0,0 +1,45 @@
+-- Migration 0022: Add order risk scoring
+-- Description: Rule-based fraud checks on paid orders (lib/fraud.ts).
+--   - order_risk_checks: one row per order scored at creation — who placed
+--     it (email, account, IP, card fingerprint), the score and level, and
+--     the rules that fired (reasons, JSON). Past rows are also the velocity
+--     history later orders are counted against. status is clear | held |
+--     approved | rejected; held orders wait in the admin review queue.
+--   - risk_events: failed attempts that aren't orders but raise the score
+--     of the next one — gift card and referral code redemptions that fail.
+-- Applied to: freshwax-db
+-- Idempotent: Yes
+
+CREATE TABLE IF NOT EXISTS order_risk_checks (
+  order_id TEXT PRIMARY KEY,
+  order_number TEXT,
+  email TEXT,
+  user_id TEXT,
+  ip TEXT,
+  card_fingerprint TEXT,
+  total REAL NOT NULL DEFAULT 0,
+  score INTEGER NOT NULL DEFAULT 0,
+  level TEXT NOT NULL DEFAULT 'low',
+  reasons TEXT,
+  status TEXT NOT NULL DEFAULT 'clear',
+  reviewed_by TEXT,
+  reviewed_at TEXT,
+  created_at TEXT DEFAULT (datetime('now'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_order_risk_checks_ip ON order_risk_checks(ip, created_at);
+CREATE INDEX IF NOT EXISTS idx_order_risk_checks_email ON order_risk_checks(email, created_at);
+CREATE INDEX IF NOT EXISTS idx_order_risk_checks_card ON order_risk_checks(card_fingerprint, created_at);
+CREATE INDEX IF NOT EXISTS idx_order_risk_checks_status ON order_risk_checks(status, created_at);
+
+CREATE TABLE IF NOT EXISTS risk_events (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  kind TEXT NOT NULL,
+  user_id TEXT,
+  ip TEXT,
+  detail TEXT,
+  created_at TEXT DEFAULT (datetime('now'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_risk_events_user ON risk_events(user_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_risk_events_ip ON risk_events(ip, created_at);
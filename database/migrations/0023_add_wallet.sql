@@ -0,0 +1,53 @@
+-- Migration 0023: Add store credit wallet
+-- Description: One store credit balance per user (lib/wallet.ts), replacing
+--   the balance + transactions array on the Firestore userCredits doc
+--   (which is kept in sync as a read-only mirror of the balance).
+--   - wallets: the balance. Every change is a single conditional UPDATE, so
+--     a spend can't take it below zero.
+--   - wallet_transactions: append-only history — top_up, gift_card, refund,
+--     referral_bonus, promotional, adjustment, opening_balance (credits) and
+--     spend, expiry (debits). Ids are deterministic per order / gift card /
+--     refund so a retried request never posts twice.
+--   - wallet_credits: what is left of each credit, with the expiry its
+--     source carries. Spends use up the soonest-expiring credit first; the
+--     daily expire-wallet-credits cron removes whatever lapses unspent.
+-- Applied to: freshwax-db
+-- Idempotent: Yes
+
+CREATE TABLE IF NOT EXISTS wallets (
+  user_id TEXT PRIMARY KEY,
+  balance REAL NOT NULL DEFAULT 0,
+  created_at TEXT DEFAULT (datetime('now')),
+  updated_at TEXT DEFAULT (datetime('now'))
+);
+
+CREATE TABLE IF NOT EXISTS wallet_transactions (
+  id TEXT PRIMARY KEY,
+  user_id TEXT NOT NULL,
+  type TEXT NOT NULL,
+  amount REAL NOT NULL,
+  balance_after REAL,
+  description TEXT,
+  reference TEXT,
+  order_id TEXT,
+  credit_id TEXT,
+  expires_at TEXT,
+  created_by TEXT,
+  created_at TEXT DEFAULT (datetime('now'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_wallet_transactions_user ON wallet_transactions(user_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_wallet_transactions_order ON wallet_transactions(order_id);
+
+CREATE TABLE IF NOT EXISTS wallet_credits (
+  id TEXT PRIMARY KEY,
+  user_id TEXT NOT NULL,
+  source TEXT NOT NULL,
+  amount REAL NOT NULL,
+  remaining REAL NOT NULL,
+  expires_at TEXT,
+  created_at TEXT DEFAULT (datetime('now'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_wallet_credits_user ON wallet_credits(user_id, remaining);
+CREATE INDEX IF NOT EXISTS idx_wallet_credits_expiry ON wallet_credits(expires_at, remaining);
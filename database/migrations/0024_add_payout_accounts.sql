@@ -0,0 +1,47 @@
+-- Migration 0024: Add seller payout verification state
+-- Description: Where each seller (artist, merch supplier, crate seller) is in
+--   setting up to be paid (lib/payout-verification.ts). The state itself is
+--   derived from the seller's Firestore doc — Stripe Connect status, whether
+--   their PayPal email is confirmed, any restriction — and mirrored here on
+--   every change so admins can list who can't currently be paid.
+--   - payout_accounts: one row per seller — unverified, pending, verified or
+--     restricted, the method it applies to, why, and when the seller was
+--     last warned that money is waiting.
+--   - payout_account_events: append-only log of state transitions and what
+--     caused them (Stripe webhook, PayPal confirmation, a failed payout, an
+--     admin).
+-- Applied to: freshwax-db
+-- Idempotent: Yes
+
+CREATE TABLE IF NOT EXISTS payout_accounts (
+  entity_type TEXT NOT NULL,
+  entity_id TEXT NOT NULL,
+  name TEXT,
+  email TEXT,
+  method TEXT,
+  state TEXT NOT NULL DEFAULT 'unverified',
+  reason TEXT,
+  on_hold INTEGER NOT NULL DEFAULT 0,
+  pending_balance REAL NOT NULL DEFAULT 0,
+  warned_at TEXT,
+  verified_at TEXT,
+  created_at TEXT DEFAULT (datetime('now')),
+  updated_at TEXT DEFAULT (datetime('now')),
+  PRIMARY KEY (entity_type, entity_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_payout_accounts_state ON payout_accounts(state, pending_balance);
+
+CREATE TABLE IF NOT EXISTS payout_account_events (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  entity_type TEXT NOT NULL,
+  entity_id TEXT NOT NULL,
+  from_state TEXT,
+  to_state TEXT NOT NULL,
+  method TEXT,
+  reason TEXT,
+  source TEXT NOT NULL,
+  created_at TEXT DEFAULT (datetime('now'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_payout_account_events_entity ON payout_account_events(entity_type, entity_id, created_at);
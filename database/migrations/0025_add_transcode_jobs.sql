@@ -0,0 +1,44 @@
+-- Migration 0025: Add audio transcoding job queue
+-- Description: One job per track of a release submission. The release-processor
+--   Worker stages each uploaded master (WAV/AIFF/FLAC) under
+--   releases/{id}/masters/, reads its duration and sample rate from the file
+--   header and queues a job here. A transcode runner with native ffmpeg
+--   (workers/release-processor/runner/) leases jobs through the Worker and
+--   uploads the 320k MP3, FLAC and preview clip it makes.
+--   - status: queued -> running -> done, or failed once max_attempts runs out
+--   - run_after: backoff before a failed attempt is retried
+--   - lease_id / lease_expires_at: which runner holds a running job; an expired
+--     lease makes the job available again
+--   - outputs: R2 keys written for the job (JSON)
+--   Shown, and failed jobs retried, on /admin/approvals.
+-- Applied to: freshwax-db
+-- Idempotent: Yes
+
+CREATE TABLE IF NOT EXISTS transcode_jobs (
+  id TEXT PRIMARY KEY,
+  release_id TEXT NOT NULL,
+  track_number INTEGER NOT NULL,
+  title TEXT,
+  source_key TEXT NOT NULL,
+  source_format TEXT,
+  output_prefix TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'queued',
+  attempts INTEGER NOT NULL DEFAULT 0,
+  max_attempts INTEGER NOT NULL DEFAULT 4,
+  run_after TEXT DEFAULT (datetime('now')),
+  lease_id TEXT,
+  lease_expires_at TEXT,
+  runner_id TEXT,
+  last_error TEXT,
+  duration_seconds REAL,
+  sample_rate INTEGER,
+  bit_depth INTEGER,
+  channels INTEGER,
+  outputs TEXT,
+  created_at TEXT DEFAULT (datetime('now')),
+  updated_at TEXT DEFAULT (datetime('now')),
+  completed_at TEXT
+);
+
+CREATE INDEX IF NOT EXISTS idx_transcode_jobs_due ON transcode_jobs(status, run_after);
+CREATE INDEX IF NOT EXISTS idx_transcode_jobs_release ON transcode_jobs(release_id, track_number);
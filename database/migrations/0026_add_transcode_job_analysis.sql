@@ -0,0 +1,14 @@
+-- Migration 0026: Waveform and loudness analysis on transcode jobs
+-- Description: The transcode runner now measures every file it handles —
+--   waveform peaks plus integrated loudness (LUFS), true peak (dBTP) and
+--   loudness range — and the queue also carries DJ mixes, which need the
+--   analysis but no transcodes.
+--   - kind: 'track' (a release track, as before) or 'mix' (a DJ mix; release_id
+--     holds the mix id and track_number is 0)
+--   - analysis: loudness figures and the R2 key of the waveform file (JSON)
+-- Applied to: freshwax-db
+-- Idempotent: Partially (the ALTER TABLE statements fail harmlessly if the
+--   columns already exist)
+
+ALTER TABLE transcode_jobs ADD COLUMN kind TEXT NOT NULL DEFAULT 'track';
+ALTER TABLE transcode_jobs ADD COLUMN analysis TEXT;
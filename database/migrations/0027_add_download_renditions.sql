@@ -0,0 +1,18 @@
+-- Migration 0027: Tagged download renditions on the transcode queue
+-- Description: Buyers can download a release as MP3, WAV, FLAC or AIFF, with
+--   artist, title, label, catalogue number, ISRC, BPM, key and cover art
+--   embedded. The site queues a 'download' job the first time a format is
+--   asked for; a transcode runner makes it from the lossless master and it is
+--   kept in R2 under releases/{id}/downloads/{format}/ from then on.
+--   - format: 'mp3', 'flac' or 'aiff' (WAV is served as the stored master)
+--   - tags: what gets embedded, artwork R2 key included (JSON)
+--   - tags_hash: fingerprint of tags and source; it is part of the output key,
+--     so editing a release's metadata makes a fresh file rather than serving
+--     stale tags
+-- Applied to: freshwax-db
+-- Idempotent: Partially (the ALTER TABLE statements fail harmlessly if the
+--   columns already exist)
+
+ALTER TABLE transcode_jobs ADD COLUMN format TEXT;
+ALTER TABLE transcode_jobs ADD COLUMN tags TEXT;
+ALTER TABLE transcode_jobs ADD COLUMN tags_hash TEXT;
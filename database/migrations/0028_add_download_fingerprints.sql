@@ -0,0 +1,30 @@
+-- Migration 0028: Per-buyer download fingerprints
+-- Description: Releases with watermarkDownloads set have every audio file
+--   served by /api/download and /api/download-file stamped with a code unique
+--   to the order, track and format (lib/release/download-fingerprint.ts).
+--   /admin/leak-trace looks a code found in a leaked file up here.
+--   - code: 'FW-' and ten Crockford base32 characters, as embedded
+--   - track_key: the track's name, '' for a whole-release file; part of the
+--     unique key, so a buyer re-downloading gets the same code
+--   - file_type: mp3, wav, flac or aiff
+--   - serve_count / last_served_at: how often that file went out
+-- Applied to: freshwax-db
+-- Idempotent: Yes
+
+CREATE TABLE IF NOT EXISTS download_fingerprints (
+  code TEXT PRIMARY KEY,
+  order_id TEXT NOT NULL,
+  order_number TEXT,
+  user_id TEXT NOT NULL,
+  customer_email TEXT,
+  release_id TEXT NOT NULL,
+  track_key TEXT NOT NULL DEFAULT '',
+  file_type TEXT NOT NULL,
+  serve_count INTEGER NOT NULL DEFAULT 1,
+  created_at TEXT NOT NULL DEFAULT (datetime('now')),
+  last_served_at TEXT NOT NULL DEFAULT (datetime('now'))
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_download_fingerprints_file
+  ON download_fingerprints(order_id, release_id, track_key, file_type);
+CREATE INDEX IF NOT EXISTS idx_download_fingerprints_release ON download_fingerprints(release_id, created_at);
@@ -0,0 +1,14 @@
+-- Migration 0029: Flag discount redemptions that went over the code's caps
+-- Description: d1RedeemDiscountCode (lib/d1/discounts.ts) now claims a use
+--   in one conditional INSERT, counting discount_redemptions against
+--   max_uses / max_uses_per_customer, so two checkouts that both passed
+--   validation can't both take the last use. The one that loses has already
+--   been paid for at the discounted price: its order stands, flagged with
+--   discount.overCap, and its redemption is kept here with over_cap = 1.
+--   Over-cap rows don't count towards used_count or max_uses; they do count
+--   towards the customer's own limit.
+-- Applied to: freshwax-db
+-- Idempotent: No (the ALTER TABLE fails harmlessly if the column already
+--   exists — apply once)
+
+ALTER TABLE discount_redemptions ADD COLUMN over_cap INTEGER NOT NULL DEFAULT 0;
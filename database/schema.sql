@@ -226,7 +226,14 @@ CREATE TABLE IF NOT EXISTS sales_ledger (
   -- Payment info
   payment_method TEXT NOT NULL,  -- stripe, paypal, free, giftcard, manual
   payment_id TEXT,
-  currency TEXT DEFAULT 'GBP',
+  currency TEXT DEFAULT 'GBP',                  -- settlement currency (money columns above)
+  -- Buyer's currency (migration 0013)
+  presentment_currency TEXT DEFAULT 'GBP',
+  presentment_total REAL,
+  fx_rate REAL DEFAULT 1,
+  -- VAT inside the gross and the buyer country it was charged for (migration 0016)
+  vat REAL DEFAULT 0,
+  vat_country TEXT,
   -- Order summary
   item_count INTEGER DEFAULT 0,
   has_physical INTEGER DEFAULT 0,
@@ -0,0 +1,52 @@
+// One-click cart restore (cart page)
+// Abandoned cart emails link to /cart/?restore=<token>; the server puts the
+// saved lines back into the KV basket and we mirror them locally.
+// Waitlist hold emails link to /cart/?hold=<entryId>; the held copy is added
+// the same way and the buyer goes straight on to checkout.
+async function restoreCartFromLink() {
+  var params = new URLSearchParams(window.location.search);
+  var token = params.get('restore');
+  var hold = params.get('hold');
+  if ((!token && !hold) || !window.FreshWaxCart) return;
+
+  if (!window.FreshWaxCart.isLoggedIn()) {
+    window.location.href = '/login/?redirect=' + encodeURIComponent(window.location.pathname + window.location.search);
+    return;
+  }
+
+  // Drop the token from the address bar so a refresh doesn't restore again
+  params.delete('restore');
+  params.delete('hold');
+  var query = params.toString();
+  history.replaceState(null, '', window.location.pathname + (query ? '?' + query : ''));
+
+  if (window.authReady) await window.authReady;
+
+  var controller = new AbortController();
+  var timeoutId = setTimeout(function() { controller.abort(); }, 15000);
+  try {
+    var headers = await getAuthHeaders();
+    var response = await fetch('/api/cart/', {
+      method: 'POST',
+      headers: headers,
+      body: JSON.stringify(token ? { restoreToken: token } : { waitlistHold: hold }),
+      signal: controller.signal
+    });
+    clearTimeout(timeoutId);
+    var data = await response.json().catch(function() { return null; });
+    if (response.ok && data && data.success && data.cart) {
+      window.FreshWaxCart.save({ items: data.cart.items || [] });
+      window.FreshWaxCart.updateBadge();
+      if (data.held) window.location.href = '/checkout/';
+    }
+  } catch (e) {
+    clearTimeout(timeoutId);
+    console.error('[Cart] Restore failed:', e);
+  }
+}
+
+if (document.readyState === 'loading') {
+  document.addEventListener('DOMContentLoaded', restoreCartFromLink);
+} else {
+  restoreCartFromLink();
+}
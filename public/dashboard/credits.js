@@ -14,29 +14,42 @@ export function init(context) {
   ctx = context;
 }
 
+function formatDate(iso) {
+  return new Date(iso).toLocaleDateString('en-GB', {
+    day: 'numeric',
+    month: 'short',
+    year: 'numeric'
+  });
+}
+
+async function fetchWallet(before) {
+  // Get auth token; fall through to __session cookie when null (cookie-shim user).
+  var currentUser = ctx.getCurrentUser();
+  var idToken = currentUser && currentUser.getIdToken
+    ? await currentUser.getIdToken().catch(function() { return null; })
+    : null;
+  if (!currentUser) {
+    console.error('[Dashboard] No user for credit balance');
+    return null;
+  }
+
+  var balanceController = new AbortController();
+  var balanceTimeout = setTimeout(function() { balanceController.abort(); }, 15000);
+  var response = await fetch('/api/giftcards/balance/' + (before ? '?before=' + encodeURIComponent(before) : ''), {
+    headers: idToken ? { 'Authorization': 'Bearer ' + idToken } : {},
+    signal: balanceController.signal
+  });
+  clearTimeout(balanceTimeout);
+  if (!response.ok) { console.error('[Dashboard] Credit balance request failed:', response.status); return null; }
+  var result = await response.json();
+  return result.success ? result : null;
+}
+
 export async function loadCreditBalance(userId) {
   try {
-    // Get auth token; fall through to __session cookie when null (cookie-shim user).
-    var currentUser = ctx.getCurrentUser();
-    var idToken = currentUser && currentUser.getIdToken
-      ? await currentUser.getIdToken().catch(function() { return null; })
-      : null;
-    if (!currentUser) {
-      console.error('[Dashboard] No user for credit balance');
-      return;
-    }
+    var result = await fetchWallet();
 
-    var balanceController = new AbortController();
-    var balanceTimeout = setTimeout(function() { balanceController.abort(); }, 15000);
-    var response = await fetch('/api/giftcards/balance/?userId=' + userId, {
-      headers: idToken ? { 'Authorization': 'Bearer ' + idToken } : {},
-      signal: balanceController.signal
-    });
-    clearTimeout(balanceTimeout);
-    if (!response.ok) { console.error('[Dashboard] Credit balance request failed:', response.status); return; }
-    var result = await response.json();
-
-    if (result.success) {
+    if (result) {
       userCreditBalance = result.balance || 0;
       creditTransactions = result.transactions || [];
 
@@ -57,14 +70,54 @@ export async function loadCreditBalance(userId) {
         }
       }
 
-      // Render transactions
+      renderExpiring(result.expiring || []);
       renderTransactions(creditTransactions);
+      toggleMoreButton(result.hasMore);
     }
   } catch (error) {
     console.error('Error loading credit balance:', error);
   }
 }
 
+async function loadOlderTransactions() {
+  var last = creditTransactions[creditTransactions.length - 1];
+  if (!last) return;
+  try {
+    var result = await fetchWallet(last.createdAt);
+    if (result) {
+      creditTransactions = creditTransactions.concat(result.transactions || []);
+      renderTransactions(creditTransactions);
+      toggleMoreButton(result.hasMore);
+    }
+  } catch (error) {
+    console.error('Error loading older transactions:', error);
+  }
+}
+
+function toggleMoreButton(hasMore) {
+  var btn = document.getElementById('transactionsMoreBtn');
+  if (btn) btn.style.display = hasMore ? 'inline-block' : 'none';
+}
+
+// Credit that lapses if not spent (referral bonuses, promotional credit)
+function renderExpiring(expiring) {
+  var notice = document.getElementById('creditExpiryNotice');
+  if (!notice) return;
+
+  if (!expiring || expiring.length === 0) {
+    notice.style.display = 'none';
+    notice.innerHTML = '';
+    return;
+  }
+
+  notice.innerHTML = '<strong>Some of your credit expires if unused:</strong>' +
+    '<ul>' + expiring.map(function(credit) {
+      return '<li>£' + Number(credit.remaining).toFixed(2) + ' ' + escapeHtml(credit.label) +
+        ' — expires ' + escapeHtml(formatDate(credit.expiresAt)) + '</li>';
+    }).join('') + '</ul>';
+  notice.style.display = 'block';
+}
+
 function renderTransactions(transactions) {
   var container = document.getElementById('transactionsList');
   if (!container) return;
@@ -79,16 +132,18 @@ function renderTransactions(transactions) {
 
   container.innerHTML = transactions.map(function(txn) {
     var isCredit = txn.amount > 0;
-    var date = new Date(txn.createdAt).toLocaleDateString('en-GB', {
-      day: 'numeric',
-      month: 'short',
-      year: 'numeric'
-    });
+    var meta = [];
+    if (typeof txn.balanceAfter === 'number') meta.push('Balance £' + txn.balanceAfter.toFixed(2));
+    if (isCredit && txn.expiresAt) meta.push('Expires ' + formatDate(txn.expiresAt));
 
     return '<div class="transaction-item ' + (isCredit ? 'credit' : 'debit') + '">' +
       '<div class="transaction-info">' +
-        '<span class="transaction-desc">' + escapeHtml(txn.description) + '</span>' +
-        '<span class="transaction-date">' + escapeHtml(date) + '</span>' +
+        '<span class="transaction-desc">' +
+          (txn.label ? '<span class="transaction-type">' + escapeHtml(txn.label) + '</span>' : '') +
+          escapeHtml(txn.description) +
+        '</span>' +
+        '<span class="transaction-date">' + escapeHtml(formatDate(txn.createdAt)) + '</span>' +
+        (meta.length ? '<span class="transaction-meta">' + escapeHtml(meta.join(' · ')) + '</span>' : '') +
       '</div>' +
       '<span class="transaction-amount ' + (isCredit ? 'positive' : 'negative') + '">' +
         (isCredit ? '+' : '') + '£' + Math.abs(txn.amount).toFixed(2) +
@@ -101,6 +156,15 @@ export function initCreditTab() {
   var form = document.getElementById('dashboardRedeemForm');
   var codeInput = document.getElementById('dashboardGiftCode');
 
+  var moreBtn = document.getElementById('transactionsMoreBtn');
+  if (moreBtn) {
+    moreBtn.addEventListener('click', async function() {
+      moreBtn.disabled = true;
+      await loadOlderTransactions();
+      moreBtn.disabled = false;
+    });
+  }
+
   // Format code as user types
   if (codeInput) {
     codeInput.addEventListener('input', function(e) {
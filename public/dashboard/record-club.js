@@ -0,0 +1,117 @@
+// Dashboard — record club module
+// Lists the user's record club memberships with skip / pause / resume
+
+function escapeHtml(str) {
+  if (!str) return '';
+  return String(str).replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;').replace(/'/g, '&#39;');
+}
+
+var ctx = null;
+
+export function init(context) {
+  ctx = context;
+}
+
+async function authHeaders(json) {
+  var currentUser = ctx.getCurrentUser();
+  var idToken = currentUser && currentUser.getIdToken
+    ? await currentUser.getIdToken().catch(function() { return null; })
+    : null;
+  var headers = json ? { 'Content-Type': 'application/json' } : {};
+  if (idToken) headers['Authorization'] = 'Bearer ' + idToken;
+  return headers;
+}
+
+export async function loadMemberships() {
+  var section = document.getElementById('recordClubSection');
+  if (!section || !ctx.getCurrentUser()) return;
+
+  try {
+    var controller = new AbortController();
+    var timeout = setTimeout(function() { controller.abort(); }, 15000);
+    var response = await fetch('/api/record-club/membership/', {
+      headers: await authHeaders(false),
+      signal: controller.signal
+    });
+    clearTimeout(timeout);
+    if (!response.ok) { console.error('[Dashboard] Record club request failed:', response.status); return; }
+    var result = await response.json();
+
+    var memberships = (result.success && result.memberships) || [];
+    section.style.display = memberships.length > 0 ? 'block' : 'none';
+    renderMemberships(memberships);
+  } catch (error) {
+    console.error('Error loading record club memberships:', error);
+  }
+}
+
+function statusLabel(status) {
+  if (status === 'active') return 'Active';
+  if (status === 'paused') return 'Paused';
+  return 'Cancelled';
+}
+
+function renderMemberships(memberships) {
+  var container = document.getElementById('recordClubList');
+  if (!container) return;
+
+  container.innerHTML = memberships.map(function(m) {
+    var actions = '';
+    if (m.status === 'active') {
+      actions =
+        '<button class="view-all-btn" data-club-action="skip" data-membership="' + escapeHtml(m.id) + '">Skip next</button>' +
+        '<button class="view-all-btn" data-club-action="pause" data-membership="' + escapeHtml(m.id) + '">Pause</button>';
+    } else if (m.status === 'paused') {
+      actions = '<button class="view-all-btn" data-club-action="resume" data-membership="' + escapeHtml(m.id) + '">Resume</button>';
+    }
+    var skipped = m.skippedPeriods && m.skippedPeriods.length > 0
+      ? '<span class="transaction-date">Skipping ' + escapeHtml(m.skippedPeriods.join(', ')) + '</span>'
+      : '';
+
+    return '<div class="transaction-item">' +
+      '<div class="transaction-info">' +
+        '<span class="transaction-desc">' + escapeHtml(m.clubName) + ' · ' + statusLabel(m.status) + '</span>' +
+        '<span class="transaction-date">' + (m.fulfilledPeriods || []).length + ' shipment(s) so far</span>' +
+        skipped +
+      '</div>' +
+      '<div class="record-club-actions">' + actions + '</div>' +
+    '</div>';
+  }).join('');
+
+  container.querySelectorAll('[data-club-action]').forEach(function(btn) {
+    btn.addEventListener('click', function() {
+      updateMembership(btn.getAttribute('data-membership'), btn.getAttribute('data-club-action'), btn);
+    });
+  });
+}
+
+async function updateMembership(membershipId, action, btn) {
+  if (action === 'skip' && !confirm('Skip your next shipment? You won\'t be charged for it.')) return;
+  var errorEl = document.getElementById('recordClubError');
+  if (errorEl) errorEl.style.display = 'none';
+  btn.disabled = true;
+
+  try {
+    var controller = new AbortController();
+    var timeout = setTimeout(function() { controller.abort(); }, 15000);
+    var response = await fetch('/api/record-club/membership/', {
+      method: 'POST',
+      headers: await authHeaders(true),
+      body: JSON.stringify({ membershipId: membershipId, action: action }),
+      signal: controller.signal
+    });
+    clearTimeout(timeout);
+    var result = await response.json().catch(function() { return {}; });
+    if (!response.ok || !result.success) {
+      throw new Error(result.error || 'Update failed: ' + response.status);
+    }
+    await loadMemberships();
+  } catch (error) {
+    console.error('Record club update error:', error);
+    if (errorEl) {
+      errorEl.textContent = error.message || 'Something went wrong. Please try again.';
+      errorEl.style.display = 'block';
+    }
+    btn.disabled = false;
+  }
+}
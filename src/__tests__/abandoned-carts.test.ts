@@ -0,0 +1,173 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { coll, read, resetFirestore, write } from './firestore-fake';
+
+// Expired checkouts start a 1h/24h/72h reminder sequence that any order from
+// the customer closes. Email sending is mocked; these check the sequence
+// bookkeeping, the gift card incentive, restore links and the report.
+vi.mock('../lib/firebase-rest', async () => (await import('./firestore-fake')).firebaseRestFake());
+
+const sendAbandonedCartEmail = vi.fn(async (..._a: unknown[]) => ({ success: true, messageId: 'msg_1' }));
+vi.mock('../lib/abandoned-cart-email', () => ({
+  sendAbandonedCartEmail: (...a: unknown[]) => sendAbandonedCartEmail(...a),
+}));
+
+const {
+  ABANDONED_CARTS_COLLECTION, abandonedSessionItems, startAbandonedCartSequence, processAbandonedCarts,
+  closeAbandonedCarts, restoreAbandonedCart, abandonedCartReport,
+} = await import('../lib/abandoned-cart');
+type AbandonedCart = import('../lib/abandoned-cart').AbandonedCart;
+
+const HOUR = 3600 * 1000;
+const cart = (id: string) => read(ABANDONED_CARTS_COLLECTION, id) as unknown as AbandonedCart;
+const items = [{ id: 'rel_1', name: 'Stamp 001', price: 24, quantity: 1, type: 'vinyl' }];
+
+function start(sessionId = 'cs_1', extra: Partial<Parameters<typeof startAbandonedCartSequence>[0]> = {}) {
+  return startAbandonedCartSequence({
+    email: 'Buyer@Test.com', name: 'Sam Lee', userId: 'user_1', sessionId, items, total: 24, ...extra,
+  });
+}
+
+beforeEach(() => {
+  resetFirestore();
+  sendAbandonedCartEmail.mockClear();
+});
+
+describe('abandonedSessionItems', () => {
+  it('reads items_json and falls back to the pending checkout', async () => {
+    const inline = await abandonedSessionItems({ items_json: JSON.stringify([{ id: 'rel_1', name: 'A', price: 1, artistName: 'x' }]) });
+    expect(inline).toEqual([{ id: 'rel_1', name: 'A', price: 1 }]);
+
+    write('pendingCheckouts', 'pc_1', { items: [{ releaseId: 'rel_2', type: 'vinyl', quantity: 2 }] });
+    const pending = await abandonedSessionItems({ pending_checkout_id: 'pc_1' });
+    expect(pending).toEqual([{ id: 'rel_2', releaseId: 'rel_2', type: 'vinyl', quantity: 2 }]);
+  });
+});
+
+describe('startAbandonedCartSequence', () => {
+  it('schedules the first reminder an hour out and ignores webhook redelivery', async () => {
+    const id = await start();
+    const doc = cart(id as string);
+    expect(doc.email).toBe('buyer@test.com');
+    expect(doc.status).toBe('active');
+    expect(Date.parse(doc.nextStepAt as string) - Date.parse(doc.startedAt)).toBe(HOUR);
+    expect(doc.restoreToken).toMatch(/^[a-f0-9]{32}$/);
+
+    expect(await start()).toBeNull();
+  });
+
+  it('replaces an older open sequence for the same customer', async () => {
+    const first = await start('cs_1');
+    const second = await start('cs_2');
+    expect(cart(first as string).status).toBe('superseded');
+    expect(cart(second as string).status).toBe('active');
+  });
+
+  it('skips customers who opted out or already ordered', async () => {
+    write('customers', 'user_1', { emailOptOut: true });
+    expect(await start('cs_1')).toBeNull();
+
+    resetFirestore();
+    write('orders', 'order_1', { customerId: 'user_1', createdAt: new Date().toISOString() });
+    expect(await start('cs_2', { sessionCreatedAt: new Date(Date.now() - HOUR).toISOString() })).toBeNull();
+  });
+});
+
+describe('processAbandonedCarts', () => {
+  it('sends each step when due and only offers a gift card on later steps', async () => {
+    write('system', 'admin-settings', { abandonedCart: { incentiveEnabled: true, incentiveValue: 5, incentiveMinCart: 20 } });
+    const id = await start() as string;
+    const started = Date.parse(cart(id).startedAt);
+
+    expect(await processAbandonedCarts({}, new Date(started + 30 * 60 * 1000))).toEqual({ sent: 0, closed: 0, failed: 0 });
+
+    await processAbandonedCarts({}, new Date(started + HOUR));
+    expect(sendAbandonedCartEmail.mock.calls[0]?.[5]).toMatchObject({ step: 0, giftCard: null });
+    expect((sendAbandonedCartEmail.mock.calls[0]?.[5] as { restoreUrl: string }).restoreUrl).toContain(`?restore=${cart(id).restoreToken}`);
+    expect(Date.parse(cart(id).nextStepAt as string) - started).toBe(24 * HOUR);
+
+    await processAbandonedCarts({}, new Date(started + 24 * HOUR));
+    const giftCard = cart(id).giftCard;
+    expect(giftCard).toMatchObject({ value: 5 });
+    const cards = [...coll('giftCards').values()];
+    expect(cards).toHaveLength(1);
+    expect(cards[0]).toMatchObject({ code: giftCard?.code, source: 'abandoned-cart', abandonedCartId: id, isActive: true });
+
+    // The last call repeats the same card rather than issuing another
+    await processAbandonedCarts({}, new Date(started + 72 * HOUR));
+    expect(sendAbandonedCartEmail.mock.calls[2]?.[5]).toMatchObject({ step: 2, giftCard });
+    expect(coll('giftCards').size).toBe(1);
+    expect(cart(id)).toMatchObject({ status: 'sent', nextStep: 3, nextStepAt: null });
+    expect(cart(id).stepsSent.map(s => s.step)).toEqual([0, 1, 2]);
+    expect(coll('abandonedCartEmails').size).toBe(3);
+  });
+
+  it('leaves out the gift card when incentives are off', async () => {
+    const id = await start() as string;
+    const started = Date.parse(cart(id).startedAt);
+    await processAbandonedCarts({}, new Date(started + HOUR));
+    await processAbandonedCarts({}, new Date(started + 24 * HOUR));
+    expect(sendAbandonedCartEmail.mock.calls[1]?.[5]).toMatchObject({ step: 1, giftCard: null });
+    expect(coll('giftCards').size).toBe(0);
+  });
+
+  it('closes a sequence instead of emailing when the customer has since ordered', async () => {
+    const id = await start() as string;
+    const started = Date.parse(cart(id).startedAt);
+    write('orders', 'order_1', { customerId: 'user_1', createdAt: new Date(started + 10 * 60 * 1000).toISOString() });
+
+    expect(await processAbandonedCarts({}, new Date(started + HOUR))).toEqual({ sent: 0, closed: 1, failed: 0 });
+    expect(sendAbandonedCartEmail).not.toHaveBeenCalled();
+    expect(cart(id).status).toBe('completed');
+  });
+});
+
+describe('closeAbandonedCarts', () => {
+  it('counts an order after a reminder as recovered revenue', async () => {
+    const id = await start() as string;
+    await processAbandonedCarts({}, new Date(Date.parse(cart(id).startedAt) + HOUR));
+
+    expect(await closeAbandonedCarts('buyer@test.com', { orderId: 'order_9', total: 30.5 })).toBe(1);
+    expect(cart(id)).toMatchObject({ status: 'recovered', orderId: 'order_9', recoveredRevenue: 30.5, recoveredAfterStep: 0, nextStepAt: null });
+  });
+
+  it('marks an order before any reminder as completed', async () => {
+    const id = await start() as string;
+    await closeAbandonedCarts('BUYER@test.com', { orderId: 'order_9', total: 24 });
+    expect(cart(id).status).toBe('completed');
+    expect(cart(id).recoveredRevenue).toBeUndefined();
+  });
+});
+
+describe('restoreAbandonedCart', () => {
+  it('returns the basket for a valid token and records the click', async () => {
+    const id = await start() as string;
+    expect(await restoreAbandonedCart(cart(id).restoreToken)).toEqual(items);
+    expect(cart(id).restoredAt).toBeTruthy();
+    expect(await restoreAbandonedCart('0'.repeat(32))).toBeNull();
+  });
+});
+
+describe('abandonedCartReport', () => {
+  it('reports recovery rate and revenue by step', async () => {
+    const a = await start('cs_1') as string;
+    const b = await start('cs_2', { email: 'two@test.com', userId: 'user_2', total: 40 }) as string;
+    await start('cs_3', { email: 'three@test.com', userId: 'user_3' });
+    const started = Date.parse(cart(a).startedAt);
+    await processAbandonedCarts({}, new Date(started + 2 * HOUR));
+    await restoreAbandonedCart(cart(b).restoreToken);
+    await closeAbandonedCarts('two@test.com', { orderId: 'order_2', total: 40 });
+
+    const report = await abandonedCartReport(new Date(started - HOUR).toISOString());
+    expect(report).toMatchObject({
+      abandoned: 3,
+      abandonedValue: 88,
+      emailed: 3,
+      restored: 1,
+      recovered: 1,
+      recoveryRate: 33.3,
+      revenueRecovered: 40,
+      giftCardsIssued: 0,
+    });
+    expect(report.byStep[0]).toEqual({ step: 1, sent: 3, recovered: 1, revenue: 40 });
+  });
+});
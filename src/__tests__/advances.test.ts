@@ -0,0 +1,176 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+// Artist advances recouped from sale earnings before payouts: release
+// advances from their own release first, then artist-wide ones, journaled
+// off the artist's payable, and handed back to the advance on refund.
+type Advance = import('../lib/d1/advances').ArtistAdvance;
+type Recoupment = import('../lib/d1/advances').AdvanceRecoupment;
+
+const advances = new Map<string, Advance>();
+const recoupments = new Map<string, Recoupment>();
+const journal: Array<{ id: string; lines: Array<{ account: string; partyId: string | null; debitPence: number; creditPence: number }> }> = [];
+
+vi.mock('../lib/d1/advances', () => ({
+  d1InsertAdvance: vi.fn(async (_db: unknown, advance: Advance) => {
+    advances.set(advance.id, { ...advance });
+    return true;
+  }),
+  d1GetAdvances: vi.fn(async (_db: unknown, options: { artistId?: string } = {}) =>
+    [...advances.values()].filter(a => !options.artistId || a.artistId === options.artistId)),
+  d1GetUnrecoupedAdvances: vi.fn(async (_db: unknown, artistId: string) =>
+    [...advances.values()]
+      .filter(a => a.artistId === artistId && a.status === 'unrecouped')
+      .sort((a, b) => String(a.createdAt).localeCompare(String(b.createdAt)))),
+  d1GetOrderRecoupments: vi.fn(async (_db: unknown, orderId: string) =>
+    [...recoupments.values()].filter(r => r.orderId === orderId)),
+  d1ApplyRecoupment: vi.fn(async (_db: unknown, recoupment: Recoupment) => {
+    if (recoupments.has(recoupment.id)) return false;
+    const advance = advances.get(recoupment.advanceId)!;
+    const recouped = Math.round((advance.recouped + recoupment.amount) * 100) / 100;
+    if (recouped > advance.amount + 0.005 || recouped < -0.005) return false;
+    recoupments.set(recoupment.id, recoupment);
+    advance.recouped = recouped;
+    advance.status = recouped >= advance.amount - 0.005 ? 'recouped' : 'unrecouped';
+    return true;
+  }),
+}));
+
+vi.mock('../lib/d1/journal', () => ({
+  MAX_JOURNAL_LINES: 14,
+  d1InsertJournalEntry: vi.fn(async (_db: unknown, entry: (typeof journal)[number]) => {
+    if (!journal.some(e => e.id === entry.id)) journal.push(entry);
+    return true;
+  }),
+  d1GetJournalLines: vi.fn(async () => []),
+  d1GetJournalBalances: vi.fn(async () => []),
+}));
+
+const { recordAdvance, recoupAdvances, reverseAdvanceRecoupments, summariseAdvances } = await import('../lib/advances');
+const { buildPayoutStatement } = await import('../lib/payout-schedule');
+
+const db = {} as never;
+
+function advance(id: string, amount: number, releaseId: string | null, createdAt: string, extra: Partial<Advance> = {}): Advance {
+  return {
+    id, artistId: 'artist_1', artistName: 'Code One', releaseId, kind: 'advance', description: null, amount,
+    recoupable: true, recouped: 0, status: 'unrecouped', paidAt: null, recoupedAt: null, createdBy: 'admin', createdAt,
+    ...extra,
+  };
+}
+
+beforeEach(() => {
+  advances.clear();
+  recoupments.clear();
+  journal.length = 0;
+});
+
+describe('recordAdvance', () => {
+  it('books recoupable advances as an asset paid from the bank', async () => {
+    const result = await recordAdvance(db, { artistId: 'artist_1', releaseId: 'rel_1', kind: 'pressing', amount: 400, recoupable: true, createdBy: 'admin_1' });
+
+    expect(result.success).toBe(true);
+    expect(result.advance).toMatchObject({ status: 'unrecouped', recouped: 0, releaseId: 'rel_1', kind: 'pressing' });
+    expect(journal[0]!.lines).toEqual([
+      expect.objectContaining({ account: 'artist_advances', partyId: 'artist_1', debitPence: 40000 }),
+      expect.objectContaining({ account: 'processor_clearing', partyId: 'bank', creditPence: 40000 }),
+    ]);
+  });
+
+  it('keeps non-recoupable costs out of the journal and recoupment', async () => {
+    const result = await recordAdvance(db, { artistId: 'artist_1', kind: 'mastering', amount: 150, recoupable: false, createdBy: 'admin_1' });
+
+    expect(result.advance?.status).toBe('not_recoupable');
+    expect(journal).toHaveLength(0);
+    expect((await recoupAdvances(db, { artistId: 'artist_1', orderId: 'order_1', earnings: { rel_1: 10 } })).recouped).toBe(0);
+  });
+
+  it('refuses a zero amount', async () => {
+    expect((await recordAdvance(db, { artistId: 'artist_1', kind: 'advance', amount: 0, recoupable: true, createdBy: 'admin_1' })).success).toBe(false);
+  });
+});
+
+describe('recoupAdvances', () => {
+  it('recoups release advances from their release, then artist-wide ones, oldest first', async () => {
+    advances.set('adv_wide', advance('adv_wide', 100, null, '2026-01-01'));
+    advances.set('adv_rel', advance('adv_rel', 5, 'rel_1', '2026-02-01'));
+    advances.set('adv_other', advance('adv_other', 50, 'rel_9', '2026-01-15'));
+
+    const result = await recoupAdvances(db, { artistId: 'artist_1', orderId: 'order_1', earnings: { rel_1: 8, rel_2: 4 } });
+
+    expect(result.recouped).toBe(12);
+    expect(result.applied.map(r => [r.advanceId, r.amount])).toEqual([['adv_rel', 5], ['adv_wide', 7]]);
+    expect(advances.get('adv_rel')!.status).toBe('recouped');
+    expect(advances.get('adv_wide')!.recouped).toBe(7);
+    // An advance on a release this sale didn't include waits for its own sales
+    expect(advances.get('adv_other')!.recouped).toBe(0);
+    expect(journal[0]).toMatchObject({ id: 'advance-recoupment:order_1:artist_1' });
+    expect(journal[0]!.lines).toEqual([
+      expect.objectContaining({ account: 'artist_payable', partyId: 'artist_1', debitPence: 1200 }),
+      expect.objectContaining({ account: 'artist_advances', partyId: 'artist_1', creditPence: 1200 }),
+    ]);
+  });
+
+  it('takes no more than is left after clawbacks and no more than is owed', async () => {
+    advances.set('adv_wide', advance('adv_wide', 3, null, '2026-01-01'));
+    expect((await recoupAdvances(db, { artistId: 'artist_1', orderId: 'order_1', earnings: { rel_1: 10 }, limit: 6 })).recouped).toBe(3);
+
+    advances.set('adv_more', advance('adv_more', 100, null, '2026-03-01'));
+    expect((await recoupAdvances(db, { artistId: 'artist_1', orderId: 'order_2', earnings: { rel_1: 10 }, limit: 6 })).recouped).toBe(6);
+  });
+
+  it('recoups a replayed sale once but still withholds it from the payout', async () => {
+    advances.set('adv_wide', advance('adv_wide', 100, null, '2026-01-01'));
+    await recoupAdvances(db, { artistId: 'artist_1', orderId: 'order_1', earnings: { rel_1: 10 } });
+    const replay = await recoupAdvances(db, { artistId: 'artist_1', orderId: 'order_1', earnings: { rel_1: 10 } });
+
+    expect(replay.recouped).toBe(10);
+    expect(advances.get('adv_wide')!.recouped).toBe(10);
+    expect(journal).toHaveLength(1);
+  });
+});
+
+describe('reverseAdvanceRecoupments', () => {
+  it('puts the refunded share back on the advance, once per refund', async () => {
+    advances.set('adv_rel', advance('adv_rel', 10, 'rel_1', '2026-01-01'));
+    await recoupAdvances(db, { artistId: 'artist_1', orderId: 'order_1', earnings: { rel_1: 10 } });
+    expect(advances.get('adv_rel')!.status).toBe('recouped');
+
+    const shares = new Map([['artist_1', 0.5]]);
+    expect(await reverseAdvanceRecoupments(db, { orderId: 'order_1', refundId: 're_1', shares })).toBe(5);
+    expect(await reverseAdvanceRecoupments(db, { orderId: 'order_1', refundId: 're_1', shares })).toBe(0);
+    expect(advances.get('adv_rel')).toMatchObject({ recouped: 5, status: 'unrecouped' });
+
+    // A later full refund only returns what is still recouped
+    expect(await reverseAdvanceRecoupments(db, { orderId: 'order_1', refundId: 're_2', shares: 1 })).toBe(5);
+    expect(advances.get('adv_rel')!.recouped).toBe(0);
+    expect(journal.find(e => e.id === 'advance-recoupment-reversal:order_1:re_1:artist_1')!.lines).toEqual([
+      expect.objectContaining({ account: 'artist_advances', debitPence: 500 }),
+      expect.objectContaining({ account: 'artist_payable', creditPence: 500 }),
+    ]);
+  });
+});
+
+describe('summariseAdvances', () => {
+  it('reports progress per advance and totals', () => {
+    const { advances: progress, totals } = summariseAdvances([
+      advance('a', 200, null, '2026-01-01', { recouped: 50 }),
+      advance('b', 30, 'rel_1', '2026-01-02', { recouped: 30, status: 'recouped' }),
+      advance('c', 80, null, '2026-01-03', { recoupable: false, status: 'not_recoupable' }),
+    ]);
+
+    expect(progress.map(a => [a.id, a.outstanding, a.percentRecouped])).toEqual([['a', 150, 25], ['b', 0, 100], ['c', 0, 0]]);
+    expect(totals).toEqual({ advanced: 230, recouped: 80, outstanding: 150, notRecoupable: 80, count: 3 });
+  });
+});
+
+describe('payout statement', () => {
+  it('shows earnings kept back for an advance as a recoupment, not a refund', () => {
+    const statement = buildPayoutStatement(
+      [{ orderId: 'order_1', orderNumber: 'FW-1', itemAmount: 10, shippingAmount: 0, advanceRecouped: 4, amount: 6, createdAt: '2026-10-01T00:00:00Z' }],
+      new Map(), 'artist_1', 0, new Date('2026-10-19T00:00:00Z')
+    );
+
+    expect(statement.lines.map(l => [l.kind, l.amount])).toEqual([['sale', 10], ['recoupment', -4]]);
+    expect(statement.totals).toMatchObject({ refunds: 0, recoupments: 4, net: 6 });
+  });
+});
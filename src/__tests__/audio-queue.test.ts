@@ -67,6 +67,24 @@ describe('buildAudioQueue', () => {
     expect(q[0].status).toBe('live');
   });
 
+  it('leaves tracks to the release-processor while their transcode job is pending', () => {
+    const r = release();
+    r.tracks = [
+      { trackNumber: 1, title: 'A', mp3Url: '', previewUrl: '', wavUrl: `${CDN}/${FOLDER}/masters/01-a.wav`, transcodeStatus: 'queued' },
+      { trackNumber: 2, title: 'B', mp3Url: '', previewUrl: '', wavUrl: `${CDN}/${FOLDER}/masters/02-b.wav`, transcodeStatus: 'running' },
+    ] as never;
+    expect(buildAudioQueue([r], CDN)).toEqual([]);
+  });
+
+  it('picks up a failed transcode from its staged master', () => {
+    const r = release();
+    r.tracks = [
+      { trackNumber: 1, title: 'A', mp3Url: '', previewUrl: '', wavUrl: '', masterUrl: `${CDN}/${FOLDER}/masters/01-a.aiff`, transcodeStatus: 'failed' },
+    ] as never;
+    const q = buildAudioQueue([r], CDN);
+    expect(q[0]?.tracks[0]?.sourceKey).toBe(`${FOLDER}/masters/01-a.aiff`);
+  });
+
   it('falls back to a conventional folder when r2FolderPath is missing', () => {
     const r = release();
     delete (r as Partial<typeof r>).r2FolderPath;
@@ -0,0 +1,170 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+// A bundle is one cart line at checkout and one line per release once paid.
+// These lock the weighting modes, prove the split always adds back up to the
+// bundle price, and check downloads, the ledger and the checkout price all
+// come from the bundle doc rather than the client.
+const docs: Record<string, Record<string, unknown>> = {};
+const getDocument = vi.fn(async (collection: string, id: string) => docs[`${collection}/${id}`] ?? null);
+const addDocument = vi.fn(async (..._a: unknown[]) => ({ id: 'ledger_1' }));
+vi.mock('../lib/firebase-rest', () => ({
+  getDocument: (collection: string, id: string) => getDocument(collection, id),
+  addDocument: (...a: unknown[]) => addDocument(...a),
+}));
+vi.mock('../lib/d1/ledger', () => ({ d1InsertLedgerEntry: vi.fn(async () => undefined) }));
+
+const { bundleFromDoc, expandBundleItems, resolveBundleReleases, splitBundlePrice } =
+  await import('../lib/order/bundles');
+const { validateAndGetPrices, processItemsWithDownloads } = await import('../lib/order/stock-validation');
+const { recordMultiSellerSale } = await import('../lib/sales-ledger');
+
+function release(id: string, over: Record<string, unknown> = {}) {
+  return {
+    id,
+    releaseName: `Part ${id.slice(-1)}`,
+    artistName: 'Drum Unit',
+    submitterId: 'artist_a',
+    labelName: 'Drum Unit Recordings',
+    pricePerSale: 6,
+    tracks: [{ trackName: 'A1', mp3Url: `https://cdn/${id}/a1.mp3`, wavUrl: null }],
+    ...over,
+  };
+}
+
+function seed() {
+  for (const key of Object.keys(docs)) delete docs[key];
+  docs['releases/rel_1'] = release('rel_1');
+  docs['releases/rel_2'] = release('rel_2', { pricePerSale: 12, artistName: 'Bakkus', submitterId: 'artist_b' });
+  docs['releases/rel_3'] = release('rel_3', { pricePerSale: 6, artistName: 'Code One', submitterId: 'artist_c' });
+  docs['bundles/series'] = {
+    name: 'Stamp Series 1-3', releaseIds: ['rel_1', 'rel_2', 'rel_3'], price: 20, weighting: 'equal', active: true,
+  };
+}
+
+const albumPrice = (r: Record<string, unknown>) => Number(r.pricePerSale) || 0;
+
+beforeEach(() => {
+  seed();
+  getDocument.mockClear();
+  addDocument.mockClear();
+});
+
+describe('resolveBundleReleases', () => {
+  const releases = () => ['rel_1', 'rel_2', 'rel_3'].map(id => docs[`releases/${id}`]!);
+  const weights = (doc: Record<string, unknown>) =>
+    resolveBundleReleases(bundleFromDoc('series', doc)!, releases(), albumPrice).map(r => r.weight);
+
+  it('shares equally by default', () => {
+    expect(weights(docs['bundles/series']!)).toEqual([1 / 3, 1 / 3, 1 / 3]);
+  });
+
+  it('weights by each release price', () => {
+    expect(weights({ ...docs['bundles/series'], weighting: 'price' })).toEqual([0.25, 0.5, 0.25]);
+  });
+
+  it('uses custom weights, falling back to equal when they are all zero', () => {
+    expect(weights({ ...docs['bundles/series'], weighting: 'custom', weights: { rel_1: 2, rel_2: 1, rel_3: 1 } }))
+      .toEqual([0.5, 0.25, 0.25]);
+    expect(weights({ ...docs['bundles/series'], weighting: 'custom', weights: {} })).toEqual([1 / 3, 1 / 3, 1 / 3]);
+  });
+
+  it('carries each release seller for the ledger', () => {
+    const parts = resolveBundleReleases(bundleFromDoc('series', docs['bundles/series']!)!, releases(), albumPrice);
+    expect(parts.map(p => p.submitterId)).toEqual(['artist_a', 'artist_b', 'artist_c']);
+  });
+});
+
+describe('splitBundlePrice', () => {
+  it('adds back up to the price in whole pence', () => {
+    const prices = splitBundlePrice(20, [1 / 3, 1 / 3, 1 / 3]);
+    expect(prices).toEqual([6.67, 6.67, 6.66]);
+    expect(Math.round(prices.reduce((a, b) => a + b, 0) * 100)).toBe(2000);
+  });
+});
+
+describe('validateAndGetPrices with a bundle', () => {
+  it('prices the line from the bundle doc and stamps the release split', async () => {
+    const { validatedItems, hasPriceMismatch, validationError } = await validateAndGetPrices([
+      { id: 'series', type: 'bundle', name: 'Stamp Series 1-3', price: 1, quantity: 1 },
+    ]);
+    expect(validationError).toBeUndefined();
+    expect(hasPriceMismatch).toBe(true);
+    expect(validatedItems[0]?.price).toBe(20);
+    expect(validatedItems[0]?.bundleId).toBe('series');
+    expect(validatedItems[0]?.bundleReleases?.map(r => r.releaseId)).toEqual(['rel_1', 'rel_2', 'rel_3']);
+    // Every release shares one label, so label discount codes can match the pack
+    expect(validatedItems[0]?.labelName).toBe('Drum Unit Recordings');
+  });
+
+  it('rejects an inactive or unknown bundle instead of trusting the client price', async () => {
+    docs['bundles/series'] = { ...docs['bundles/series'], active: false };
+    const inactive = await validateAndGetPrices([{ id: 'series', type: 'bundle', name: 'Series', price: 20 }]);
+    expect(inactive.validationError).toMatch(/no longer available/);
+    const unknown = await validateAndGetPrices([{ id: 'nope', type: 'bundle', name: 'Nope', price: 20 }]);
+    expect(unknown.validationError).toMatch(/no longer available/);
+  });
+});
+
+async function pricedBundle(weighting = 'equal') {
+  docs['bundles/series'] = { ...docs['bundles/series'], weighting };
+  const { validatedItems } = await validateAndGetPrices([
+    { id: 'series', type: 'bundle', name: 'Stamp Series 1-3', price: 20, quantity: 1 },
+  ]);
+  return validatedItems;
+}
+
+describe('processItemsWithDownloads', () => {
+  it('expands a bundle into one line per release, each with its downloads', async () => {
+    const items = await processItemsWithDownloads(await pricedBundle());
+    expect(items.map(i => i.releaseId)).toEqual(['rel_1', 'rel_2', 'rel_3']);
+    expect(items.every(i => i.type === 'digital' && i.bundleId === 'series')).toBe(true);
+    expect(items[1]?.downloads).toMatchObject({ releaseName: 'Part 2', tracks: [{ mp3Url: 'https://cdn/rel_2/a1.mp3' }] });
+    expect(items.map(i => i.price)).toEqual([6.67, 6.67, 6.66]);
+  });
+});
+
+describe('expandBundleItems', () => {
+  it('splits the list price too when a discount code lowered the bundle', () => {
+    const [line] = [{
+      type: 'bundle', id: 'series', name: 'Series', price: 18, preDiscountPrice: 20, discountPerUnit: 2, quantity: 2,
+      bundleReleases: [
+        { releaseId: 'rel_1', title: 'Part 1', artist: 'A', submitterId: 'artist_a', weight: 0.5 },
+        { releaseId: 'rel_2', title: 'Part 2', artist: 'B', submitterId: 'artist_b', weight: 0.5 },
+      ],
+    }];
+    const expanded = expandBundleItems([line!]);
+    expect(expanded).toHaveLength(2);
+    expect(expanded[0]).toMatchObject({ price: 9, preDiscountPrice: 10, quantity: 2, submitterId: 'artist_a' });
+    expect(expanded[0]).not.toHaveProperty('bundleReleases');
+    expect(expanded[0]).not.toHaveProperty('discountPerUnit');
+  });
+
+  it('leaves ordinary lines alone', () => {
+    const item = { type: 'digital', id: 'rel_1', price: 6 };
+    expect(expandBundleItems([item])).toEqual([item]);
+  });
+});
+
+describe('recordMultiSellerSale with a bundle', () => {
+  it('shares the bundle across the included artists by its weighting', async () => {
+    const [bundleLine] = await pricedBundle('price');
+    await recordMultiSellerSale({
+      orderId: 'order_1',
+      orderNumber: 'FW-1',
+      customerEmail: 'buyer@test.com',
+      grossTotal: 20,
+      stripeFee: 0.48,
+      freshWaxFee: 0.2,
+      paymentMethod: 'stripe',
+      items: [{ ...bundleLine!, submitterId: null } as never],
+    });
+    const entries = addDocument.mock.calls.map(c => c[1] as Record<string, number | string>);
+    const bySeller = Object.fromEntries(entries.map(e => [e.submitterId, e]));
+    expect(Object.keys(bySeller).sort()).toEqual(['artist_a', 'artist_b', 'artist_c']);
+    expect(bySeller.artist_a?.grossTotal).toBe(5);
+    expect(bySeller.artist_b?.grossTotal).toBe(10);
+    expect(bySeller.artist_c?.grossTotal).toBe(5);
+    // Fees follow the same split
+    expect(bySeller.artist_b?.stripeFee).toBe(0.24);
+  });
+});
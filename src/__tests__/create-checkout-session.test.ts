@@ -22,6 +22,9 @@ vi.mock('../lib/order-utils', () => ({
   validateAndGetPrices: (...args: unknown[]) => mockValidateAndGetPrices(...args),
   reserveStock: (...args: unknown[]) => mockReserveStock(...args),
   releaseReservation: (...args: unknown[]) => mockReleaseReservation(...args),
+  validateDiscountCode: vi.fn(async () => ({ discountCode: null })),
+  applyDiscount: vi.fn(() => null),
+  findWaitlistHolds: vi.fn(async () => []),
 }));
 
 // Mock rate-limit
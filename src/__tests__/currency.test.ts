@@ -0,0 +1,148 @@
+import { describe, it, expect, vi } from 'vitest';
+
+// EUR/USD checkouts charge a converted amount but everything downstream
+// (orders, ledger, payouts, royalties) stays in GBP. These lock the
+// conversion on both sides so a rounding drift can't flag a valid capture or
+// under/over-state the GBP settlement value.
+vi.mock('../lib/d1-catalog', () => ({
+  d1GetFxRate: vi.fn(async () => null),
+  d1GetShippingRules: vi.fn(async () => null),
+  d1GetShippingRulesVersion: vi.fn(async () => null),
+}));
+
+const {
+  convertBasket,
+  convertFromSettlement,
+  convertToSettlement,
+  currencyForRegion,
+  formatMoney,
+  fromMinorUnits,
+  normaliseCurrency,
+  toMinorUnits,
+} = await import('../lib/currency');
+const { paypalCaptureAmounts, refundChargeAmount, resolveCheckoutCurrency, stripeSessionAmounts } = await import('../lib/order/currency');
+const { presentmentFields } = await import('../lib/sales-ledger');
+
+describe('currency helpers', () => {
+  it('normalises unknown currencies to GBP', () => {
+    expect(normaliseCurrency('eur')).toBe('EUR');
+    expect(normaliseCurrency('JPY')).toBe('GBP');
+    expect(normaliseCurrency(undefined)).toBe('GBP');
+  });
+
+  it('offers EUR to EU buyers and USD only to US buyers', () => {
+    expect(currencyForRegion('EU', 'DE')).toBe('EUR');
+    expect(currencyForRegion('INTL', 'US')).toBe('USD');
+    expect(currencyForRegion('INTL', 'CA')).toBe('GBP');
+    expect(currencyForRegion('UK', 'GB')).toBe('GBP');
+  });
+
+  it('honours zero-decimal currencies in minor units', () => {
+    expect(toMinorUnits(12.99, 'EUR')).toBe(1299);
+    expect(fromMinorUnits(1299, 'usd')).toBe(12.99);
+    expect(fromMinorUnits(500, 'jpy')).toBe(500);
+  });
+
+  it('round-trips a GBP amount through the rate to the penny', () => {
+    expect(convertFromSettlement(10, 1.17)).toBe(11.7);
+    expect(convertToSettlement(11.7, 1.17)).toBe(10);
+    expect(convertFromSettlement(10, 0)).toBe(10);
+  });
+
+  it('converts a basket per unit so the total equals Σ unit × qty', () => {
+    const basket = convertBasket([{ price: 9.99, quantity: 3 }, { price: 1.5 }], 4.99, 1.1713);
+    expect(basket.unitPrices).toEqual([11.7, 1.76]);
+    expect(basket.subtotal).toBe(36.86);
+    expect(basket.shipping).toBe(5.84);
+    expect(basket.total).toBe(42.7);
+  });
+
+  it('formats with the currency symbol', () => {
+    expect(formatMoney(14.5, 'EUR')).toBe('€14.50');
+    expect(formatMoney(3, 'CHF')).toBe('3.00 CHF');
+  });
+});
+
+describe('resolveCheckoutCurrency', () => {
+  it('falls back to GBP when no rate is stored', async () => {
+    const result = await resolveCheckoutCurrency({} as never, 'EUR', 'Germany');
+    expect(result).toEqual({ currency: 'GBP', fxRate: 1, fxRateUpdatedAt: null });
+  });
+
+  it('charges GBP without a database', async () => {
+    expect((await resolveCheckoutCurrency(undefined, null, 'USA')).currency).toBe('GBP');
+  });
+});
+
+describe('stripeSessionAmounts', () => {
+  it('uses the validated GBP total from metadata for non-GBP sessions', () => {
+    const amounts = stripeSessionAmounts({
+      amount_total: 2342,
+      currency: 'eur',
+      metadata: { currency: 'EUR', fx_rate: '1.17', total: '20.01' },
+    });
+    expect(amounts).toEqual({ amountPaid: 23.42, currency: 'EUR', fxRate: 1.17, settlementTotal: 20.01 });
+  });
+
+  it('is a no-op for GBP sessions', () => {
+    const amounts = stripeSessionAmounts({ amount_total: 1699, currency: 'gbp', metadata: {} });
+    expect(amounts).toEqual({ amountPaid: 16.99, currency: 'GBP', fxRate: 1, settlementTotal: 16.99 });
+  });
+});
+
+describe('paypalCaptureAmounts', () => {
+  const pending = { totals: { total: 20 }, currency: 'USD', fxRate: 1.25, presentmentTotal: 25 };
+
+  it('settles a matching capture at the exact GBP total', () => {
+    const fx = paypalCaptureAmounts(pending, 25, 1.03);
+    expect(fx.expectedCapture).toBe(25);
+    expect(fx.settlementTotal).toBe(20);
+    expect(fx.settlementFee).toBe(0.82);
+  });
+
+  it('converts a mismatched capture back at the stored rate', () => {
+    expect(paypalCaptureAmounts(pending, 30, null).settlementTotal).toBe(24);
+  });
+
+  it('passes GBP captures straight through', () => {
+    const fx = paypalCaptureAmounts({ totals: { total: 16.99 } }, 16.99, 0.79);
+    expect(fx).toEqual({ currency: 'GBP', fxRate: 1, expectedCapture: 16.99, settlementTotal: 16.99, settlementFee: 0.79 });
+  });
+});
+
+describe('refundChargeAmount', () => {
+  // £20.01 charged as €23.42 at 1.17
+  const eurOrder = { totals: { total: 20.01 }, currency: 'EUR', fxRate: 1.17, presentmentTotal: 23.42 };
+
+  it('refunds a EUR order in euro cents at the order rate', () => {
+    const charge = refundChargeAmount(eurOrder, 10);
+    expect(charge).toEqual({ currency: 'EUR', amount: 11.7, minorUnits: 1170, refunded: 11.7 });
+  });
+
+  it('returns the rest of the charge when the GBP balance is refunded', () => {
+    const after = { ...eurOrder, refundedAmount: 10, refundedPresentmentAmount: 11.7 };
+    expect(refundChargeAmount(after, 10.01)).toEqual({ currency: 'EUR', amount: 11.72, minorUnits: 1172, refunded: 23.42 });
+    expect(refundChargeAmount(eurOrder, 20.01).minorUnits).toBe(2342);
+  });
+
+  it('never takes back more than is left of the charge', () => {
+    const after = { ...eurOrder, refundedAmount: 15, refundedPresentmentAmount: 17.6 };
+    expect(refundChargeAmount(after, 5).amount).toBe(5.82);
+  });
+
+  it('works out earlier refunds at the order rate when they were not kept', () => {
+    expect(refundChargeAmount({ ...eurOrder, refundedAmount: 10 }, 5).refunded).toBe(17.55);
+  });
+
+  it('is a no-op for GBP orders', () => {
+    const charge = refundChargeAmount({ totals: { total: 16.99 }, currency: 'GBP', fxRate: 1, refundedAmount: 5 }, 4.5);
+    expect(charge).toEqual({ currency: 'GBP', amount: 4.5, minorUnits: 450, refunded: 9.5 });
+  });
+});
+
+describe('presentmentFields', () => {
+  it('records what the buyer paid alongside the GBP gross', () => {
+    expect(presentmentFields(20, 'eur', 1.17)).toEqual({ presentmentCurrency: 'EUR', presentmentTotal: 23.4, fxRate: 1.17 });
+    expect(presentmentFields(20, undefined, undefined)).toEqual({ presentmentCurrency: 'GBP', presentmentTotal: 20, fxRate: 1 });
+  });
+});
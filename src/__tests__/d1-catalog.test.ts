@@ -12,6 +12,7 @@ import {
   d1RowToSlot,
   d1RowToLedger,
   d1RowToVinylSeller,
+  d1SearchPublishedReleases,
 } from '../lib/d1-catalog';
 
 // =============================================
@@ -188,6 +189,50 @@ describe('d1RowToRelease', () => {
   });
 });
 
+// =============================================
+// d1SearchPublishedReleases
+// =============================================
+describe('d1SearchPublishedReleases', () => {
+  // Records the statement instead of running it
+  function fakeDb(rows: Record<string, unknown>[] = []) {
+    const calls: { sql: string; params: unknown[] }[] = [];
+    const db = {
+      prepare(sql: string) {
+        return {
+          bind(...params: unknown[]) {
+            calls.push({ sql, params });
+            return { all: async () => ({ results: rows }), first: async () => null, run: async () => ({}) };
+          },
+        };
+      },
+    } as any;
+    return { db, calls };
+  }
+
+  it('searches title, artist and genre', async () => {
+    const { db, calls } = fakeDb([{ id: 'rel_1', data: JSON.stringify({ title: 'Amen' }) }]);
+    const results = await d1SearchPublishedReleases(db, 'amen', 10);
+    expect(results.map(r => r.id)).toEqual(['rel_1']);
+    expect(calls[0]?.sql).not.toContain('json_each');
+    expect(calls[0]?.params).toEqual(['%amen%', '%amen%', '%amen%', 10]);
+  });
+
+  it('filters on tempo and Camelot key within a single track', async () => {
+    const { db, calls } = fakeDb();
+    await d1SearchPublishedReleases(db, '', 20, { bpmMin: 170, bpmMax: 176, camelotKey: '8A' });
+    const sql = calls[0]?.sql ?? '';
+    expect(sql).not.toContain('LIKE');
+    expect(sql).toContain("json_each(releases_v2.data, '$.tracks')");
+    expect(sql).toMatch(/>= \? AND .* <= \? AND json_extract\(t\.value, '\$\.camelotKey'\) = \?/);
+    expect(calls[0]?.params).toEqual([170, 176, '8A', 20]);
+  });
+
+  it('returns an empty list when the query fails', async () => {
+    const db = { prepare: () => { throw new Error('no such function: json_each'); } } as any;
+    expect(await d1SearchPublishedReleases(db, 'x', 5, { bpmMin: 170 })).toEqual([]);
+  });
+});
+
 // =============================================
 // merchToD1Row
 // =============================================
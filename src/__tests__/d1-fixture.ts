@@ -0,0 +1,32 @@
+import { readFileSync } from 'node:fs';
+import { Miniflare } from 'miniflare';
+import type { D1Database } from '../lib/d1/types';
+
+// A real D1 database (SQLite in workerd, through miniflare) for tests of the
+// SQL in lib/d1, so a query is checked by the engine rather than by a fake.
+//   const d1 = await createTestD1(['0023_add_wallet.sql']);
+//   afterAll(() => d1.dispose());
+// Each call is a fresh, empty database with just those migrations applied.
+const MIGRATIONS_DIR = new URL('../../database/migrations/', import.meta.url);
+
+// Split a migration into statements: `;` at the end of a line ends one
+function statements(sql: string): string[] {
+  return sql
+    .split(/;\s*$/m)
+    .map(s => s.replace(/^\s*--.*$/gm, '').trim())
+    .filter(Boolean);
+}
+
+export async function createTestD1(migrations: string[]): Promise<{ db: D1Database; dispose: () => Promise<void> }> {
+  const mf = new Miniflare({
+    modules: true,
+    script: 'export default { fetch() { return new Response(null); } }',
+    d1Databases: ['DB'],
+  });
+  const db = await mf.getD1Database('DB');
+  for (const file of migrations) {
+    const sql = readFileSync(new URL(file, MIGRATIONS_DIR), 'utf8');
+    await db.batch(statements(sql).map(s => db.prepare(s)));
+  }
+  return { db: db as unknown as D1Database, dispose: () => mf.dispose() };
+}
@@ -0,0 +1,80 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from 'vitest';
+import { createTestD1 } from './d1-fixture';
+import { d1RedeemDiscountCode } from '../lib/d1/discounts';
+import type { D1Database } from '../lib/d1/types';
+
+// The redemption SQL run against a real D1: the caps are counted from the
+// redemptions inside the INSERT itself, so of two checkouts racing for the
+// last use only one takes it and the other is kept as over cap.
+
+let d1: Awaited<ReturnType<typeof createTestD1>>;
+let db: D1Database;
+
+beforeAll(async () => {
+  d1 = await createTestD1(['0015_add_discount_codes.sql', '0029_add_discount_redemption_over_cap.sql']);
+  db = d1.db;
+});
+afterAll(() => d1.dispose());
+
+beforeEach(async () => {
+  for (const table of ['discount_codes', 'discount_redemptions']) {
+    await db.prepare(`DELETE FROM ${table}`).run();
+  }
+});
+
+const addCode = (caps: { maxUses: number | null; maxUsesPerCustomer: number | null }) => db.prepare(
+  "INSERT INTO discount_codes (code, type, amount, max_uses, max_uses_per_customer) VALUES ('LAST1', 'fixed', 5, ?, ?)"
+).bind(caps.maxUses, caps.maxUsesPerCustomer).run();
+
+const usedCount = async () => Number((await db.prepare("SELECT used_count FROM discount_codes WHERE code = 'LAST1'").first())?.used_count);
+const overCapFlags = async () => (await db.prepare('SELECT over_cap FROM discount_redemptions ORDER BY over_cap').all()).results?.map(r => r.over_cap);
+
+const redemption = (orderId: string, email = `${orderId}@example.com`) =>
+  ({ code: 'last1', orderId, customerEmail: email, customerId: null, amount: 5 });
+
+describe('d1RedeemDiscountCode', () => {
+  it('gives the last use to one of two racing checkouts and flags the other', async () => {
+    await addCode({ maxUses: 1, maxUsesPerCustomer: null });
+
+    const results = await Promise.all([
+      d1RedeemDiscountCode(db, redemption('order_a')),
+      d1RedeemDiscountCode(db, redemption('order_b')),
+    ]);
+
+    expect([...results].sort()).toEqual(['over_cap', 'redeemed']);
+    expect(await usedCount()).toBe(1);
+    expect(await overCapFlags()).toEqual([0, 1]);
+  });
+
+  it('holds the per-customer limit when the same buyer checks out twice at once', async () => {
+    await addCode({ maxUses: null, maxUsesPerCustomer: 1 });
+
+    const results = await Promise.all([
+      d1RedeemDiscountCode(db, redemption('order_a', 'dj@example.com')),
+      d1RedeemDiscountCode(db, redemption('order_b', 'DJ@example.com')),
+    ]);
+
+    expect([...results].sort()).toEqual(['over_cap', 'redeemed']);
+    expect(await usedCount()).toBe(1);
+  });
+
+  it('answers a retried order the same way without counting it again', async () => {
+    await addCode({ maxUses: 1, maxUsesPerCustomer: null });
+    await d1RedeemDiscountCode(db, redemption('order_a'));
+    await d1RedeemDiscountCode(db, redemption('order_b'));
+
+    expect(await d1RedeemDiscountCode(db, redemption('order_a'))).toBe('redeemed');
+    expect(await d1RedeemDiscountCode(db, redemption('order_b'))).toBe('over_cap');
+    expect(await usedCount()).toBe(1);
+    expect(await overCapFlags()).toEqual([0, 1]);
+  });
+
+  it('keeps redeeming while the code is under its caps', async () => {
+    await addCode({ maxUses: 3, maxUsesPerCustomer: null });
+
+    for (const orderId of ['order_a', 'order_b', 'order_c']) {
+      expect(await d1RedeemDiscountCode(db, redemption(orderId))).toBe('redeemed');
+    }
+    expect(await usedCount()).toBe(3);
+  });
+});
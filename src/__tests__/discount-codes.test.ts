@@ -0,0 +1,240 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { DiscountCode } from '../lib/d1-catalog';
+
+// Discount codes take money off by lowering eligible unit prices in whole
+// pence. These lock the validation rules (dates, caps, minimum basket, scope),
+// prove the allocation always sums to the amount charged, and check the
+// ledger keeps the list price alongside the discount.
+const d1GetDiscountCode = vi.fn(async (..._a: unknown[]): Promise<DiscountCode | null> => null);
+const d1CountCustomerRedemptions = vi.fn(async (..._a: unknown[]) => 0);
+const addDocument = vi.fn(async (..._a: unknown[]) => ({ id: 'ledger_1' }));
+vi.mock('../lib/d1-catalog', () => ({
+  d1GetDiscountCode: (...a: unknown[]) => d1GetDiscountCode(...a),
+  d1CountCustomerRedemptions: (...a: unknown[]) => d1CountCustomerRedemptions(...a),
+}));
+vi.mock('../lib/firebase-rest', () => ({
+  addDocument: (...a: unknown[]) => addDocument(...a),
+  getDocument: vi.fn(async () => null),
+}));
+vi.mock('../lib/d1/ledger', () => ({ d1InsertLedgerEntry: vi.fn(async () => undefined) }));
+
+const { applyDiscount, checkDiscountCode, discountFromMetadata, isDiscountEligible } =
+  await import('../lib/order/discounts');
+const { validateDiscountCode } = await import('../lib/order/price-validation');
+const { recordMultiSellerSale } = await import('../lib/sales-ledger');
+
+function discountCode(over: Partial<DiscountCode> = {}): DiscountCode {
+  return {
+    code: 'SUMMER10',
+    campaign: 'summer-sale',
+    type: 'percentage',
+    amount: 10,
+    scope: 'order',
+    scopeIds: [],
+    minBasket: 0,
+    maxUses: null,
+    maxUsesPerCustomer: null,
+    usedCount: 0,
+    startsAt: null,
+    endsAt: null,
+    active: true,
+    ...over,
+  };
+}
+
+const vinyl = (over: Record<string, unknown> = {}) => ({
+  id: 'rel_1', releaseId: 'rel_1', type: 'vinyl', price: 12, quantity: 1,
+  labelAccountId: 'label_acc', labelName: 'Drum Unit Recordings', ...over,
+});
+const merch = (over: Record<string, unknown> = {}) => ({
+  id: 'tee_1', productId: 'tee_1', type: 'merch', price: 20, quantity: 1, supplierId: 'sup_1', ...over,
+});
+const crate = (over: Record<string, unknown> = {}) => ({
+  id: 'crate_1', type: 'vinyl', price: 8, quantity: 1, sellerId: 'seller_1', ...over,
+});
+
+const basketPence = (items: { price: number; quantity: number }[]) =>
+  items.reduce((sum, i) => sum + Math.round(i.price * 100) * i.quantity, 0);
+
+describe('checkDiscountCode', () => {
+  const now = new Date('2026-07-01T12:00:00Z');
+
+  it('accepts a live code', () => {
+    expect(checkDiscountCode(discountCode(), [vinyl()], { now })).toBeNull();
+  });
+
+  it('rejects inactive, not-yet-started and expired codes', () => {
+    expect(checkDiscountCode(discountCode({ active: false }), [vinyl()], { now })).toMatch(/no longer active/);
+    expect(checkDiscountCode(discountCode({ startsAt: '2026-08-01T00:00:00Z' }), [vinyl()], { now }))
+      .toMatch(/not active yet/);
+    expect(checkDiscountCode(discountCode({ endsAt: '2026-06-30T00:00:00Z' }), [vinyl()], { now }))
+      .toMatch(/expired/);
+  });
+
+  it('enforces the total and per-customer caps', () => {
+    expect(checkDiscountCode(discountCode({ maxUses: 100, usedCount: 100 }), [vinyl()], { now }))
+      .toMatch(/fully redeemed/);
+    expect(checkDiscountCode(discountCode({ maxUsesPerCustomer: 1 }), [vinyl()], { now, customerRedemptions: 1 }))
+      .toMatch(/already used/);
+    expect(checkDiscountCode(discountCode({ maxUsesPerCustomer: 2 }), [vinyl()], { now, customerRedemptions: 1 }))
+      .toBeNull();
+  });
+
+  it('compares the minimum basket to the list-price subtotal', () => {
+    const code = discountCode({ minBasket: 25 });
+    expect(checkDiscountCode(code, [vinyl({ quantity: 2 })], { now })).toMatch(/Spend £25\.00/);
+    expect(checkDiscountCode(code, [vinyl({ quantity: 2 }), vinyl({ id: 'rel_2', releaseId: 'rel_2' })], { now }))
+      .toBeNull();
+  });
+
+  it('rejects a scoped code with nothing eligible in the basket', () => {
+    const code = discountCode({ scope: 'release', scopeIds: ['rel_other'] });
+    expect(checkDiscountCode(code, [vinyl()], { now })).toMatch(/does not apply/);
+  });
+});
+
+describe('isDiscountEligible', () => {
+  it('matches releases by id, never merch or crates', () => {
+    const code = { scope: 'release' as const, scopeIds: ['rel_1', 'tee_1', 'crate_1'] };
+    expect(isDiscountEligible(vinyl(), code)).toBe(true);
+    expect(isDiscountEligible(merch(), code)).toBe(false);
+    expect(isDiscountEligible(crate(), code)).toBe(false);
+  });
+
+  it('matches labels by account id or label-name slug', () => {
+    expect(isDiscountEligible(vinyl(), { scope: 'label', scopeIds: ['label_acc'] })).toBe(true);
+    expect(isDiscountEligible(vinyl({ labelAccountId: null }), { scope: 'label', scopeIds: ['drum-unit-recordings'] }))
+      .toBe(true);
+    expect(isDiscountEligible(vinyl(), { scope: 'label', scopeIds: ['someone-else'] })).toBe(false);
+  });
+
+  it('matches suppliers on merch and crate sellers on crates', () => {
+    const code = { scope: 'supplier' as const, scopeIds: ['sup_1', 'seller_1'] };
+    expect(isDiscountEligible(merch(), code)).toBe(true);
+    expect(isDiscountEligible(crate(), code)).toBe(true);
+    expect(isDiscountEligible(vinyl({ sellerId: 'seller_1' }), code)).toBe(false);
+  });
+});
+
+describe('applyDiscount', () => {
+  it('takes a percentage off every line for an order-wide code', () => {
+    const items = [vinyl(), merch()];
+    const applied = applyDiscount(items, discountCode());
+    expect(applied?.amount).toBe(3.2);
+    expect(items[0]).toMatchObject({ price: 10.8, preDiscountPrice: 12, discountPerUnit: 1.2 });
+    expect(items[1]).toMatchObject({ price: 18, preDiscountPrice: 20 });
+  });
+
+  it('only lowers lines inside the scope', () => {
+    const items = [vinyl(), merch()];
+    const applied = applyDiscount(items, discountCode({ scope: 'supplier', scopeIds: ['sup_1'], type: 'fixed', amount: 5 }));
+    expect(applied?.amount).toBe(5);
+    expect(items[0]?.price).toBe(12);
+    expect(items[0]).not.toHaveProperty('preDiscountPrice');
+    expect(items[1]?.price).toBe(15);
+  });
+
+  it('caps a fixed discount at the eligible total', () => {
+    const items = [vinyl({ price: 3 })];
+    const applied = applyDiscount(items, discountCode({ type: 'fixed', amount: 10 }));
+    expect(applied?.amount).toBe(3);
+    expect(items[0]?.price).toBe(0);
+  });
+
+  it('reduces the basket by exactly the returned amount in awkward splits', () => {
+    const items = [
+      vinyl({ price: 7.99, quantity: 3 }),
+      merch({ price: 13.33, quantity: 2 }),
+      crate({ price: 4.49 }),
+    ];
+    const before = basketPence(items);
+    const applied = applyDiscount(items, discountCode({ type: 'fixed', amount: 10 }));
+    expect(before - basketPence(items)).toBe(Math.round((applied?.amount || 0) * 100));
+    // Within one pence per unit of the nominal amount
+    expect(applied!.amount).toBeGreaterThan(9.93);
+    expect(applied!.amount).toBeLessThanOrEqual(10);
+  });
+
+  it('returns null when nothing is eligible', () => {
+    const items = [merch()];
+    expect(applyDiscount(items, discountCode({ scope: 'release', scopeIds: ['rel_1'] }))).toBeNull();
+    expect(items[0]?.price).toBe(20);
+  });
+});
+
+describe('discountFromMetadata', () => {
+  it('rebuilds the applied discount from Stripe metadata', () => {
+    expect(discountFromMetadata({
+      discount: '3.20', discount_code: 'SUMMER10', discount_campaign: 'summer-sale',
+      discount_type: 'percentage', discount_scope: 'order',
+    })).toEqual({ code: 'SUMMER10', campaign: 'summer-sale', type: 'percentage', scope: 'order', amount: 3.2 });
+  });
+
+  it('is null when the session had no discount', () => {
+    expect(discountFromMetadata({ discount: '0' })).toBeNull();
+    expect(discountFromMetadata({})).toBeNull();
+  });
+});
+
+describe('validateDiscountCode', () => {
+  const db = {} as never;
+
+  beforeEach(() => {
+    d1GetDiscountCode.mockReset().mockResolvedValue(null);
+    d1CountCustomerRedemptions.mockReset().mockResolvedValue(0);
+  });
+
+  it('is a no-op without a code', async () => {
+    expect(await validateDiscountCode(db, '  ', [vinyl()])).toEqual({ discountCode: null });
+    expect(d1GetDiscountCode).not.toHaveBeenCalled();
+  });
+
+  it('rejects codes when D1 is unavailable or the code is unknown', async () => {
+    expect((await validateDiscountCode(undefined, 'SUMMER10', [vinyl()])).validationError).toMatch(/unavailable/);
+    expect((await validateDiscountCode(db, 'NOPE', [vinyl()])).validationError).toMatch(/not recognised/);
+  });
+
+  it('looks the code up case-insensitively', async () => {
+    d1GetDiscountCode.mockResolvedValue(discountCode());
+    const result = await validateDiscountCode(db, ' summer10 ', [vinyl()]);
+    expect(d1GetDiscountCode).toHaveBeenCalledWith(db, 'SUMMER10');
+    expect(result.discountCode?.code).toBe('SUMMER10');
+  });
+
+  it('counts earlier redemptions only for per-customer capped codes', async () => {
+    d1GetDiscountCode.mockResolvedValue(discountCode());
+    await validateDiscountCode(db, 'SUMMER10', [vinyl()], { email: 'a@b.com' });
+    expect(d1CountCustomerRedemptions).not.toHaveBeenCalled();
+
+    d1GetDiscountCode.mockResolvedValue(discountCode({ maxUsesPerCustomer: 1 }));
+    d1CountCustomerRedemptions.mockResolvedValue(1);
+    const result = await validateDiscountCode(db, 'SUMMER10', [vinyl()], { email: 'a@b.com' });
+    expect(d1CountCustomerRedemptions).toHaveBeenCalledWith(db, 'SUMMER10', { email: 'a@b.com' });
+    expect(result).toEqual({ discountCode: null, validationError: 'You have already used this discount code' });
+  });
+});
+
+describe('sales ledger with a discounted line', () => {
+  beforeEach(() => addDocument.mockClear());
+
+  it('keeps the list-price subtotal and records the discount per seller', async () => {
+    await recordMultiSellerSale({
+      orderId: 'order_1',
+      orderNumber: 'FW-1',
+      customerEmail: 'buyer@test.com',
+      grossTotal: 10.8,
+      shipping: 0,
+      stripeFee: 0.35,
+      freshWaxFee: 0.11,
+      paymentMethod: 'stripe',
+      items: [{
+        releaseId: 'rel_1', title: 'Stamp Series Vol 1', type: 'vinyl',
+        price: 10.8, preDiscountPrice: 12, quantity: 1, submitterId: 'artist_1', artist: 'Drum Unit',
+      }],
+    } as never);
+    const entry = addDocument.mock.calls[0]?.[1] as Record<string, number>;
+    expect(entry.subtotal).toBeCloseTo(12, 2);
+    expect(entry.discount).toBeCloseTo(1.2, 2);
+    expect(entry.grossTotal).toBeCloseTo(10.8, 2);
+  });
+});
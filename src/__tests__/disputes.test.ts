@@ -0,0 +1,214 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+// Chargeback evidence packets built from the order, tracking, download log,
+// checkout IP and customer emails, staged or submitted on the Stripe
+// dispute, and the dashboard's per-seller view of dispute holds and losses.
+const docs = new Map<string, Record<string, unknown>>();
+const updates: Array<{ collection: string; id: string; data: Record<string, unknown> }> = [];
+const disputeUpdates: Array<{ id: string; params: Record<string, unknown> }> = [];
+let downloads: Array<Record<string, unknown>> = [];
+let emails: Array<Record<string, unknown>> = [];
+
+vi.mock('../lib/firebase-rest', () => ({
+  getDocument: vi.fn(async (collection: string, id: string) => docs.get(`${collection}/${id}`) || null),
+  queryCollection: vi.fn(async () => []),
+  updateDocument: vi.fn(async (collection: string, id: string, data: Record<string, unknown>) => {
+    updates.push({ collection, id, data });
+  }),
+}));
+
+vi.mock('../lib/d1/downloads', () => ({
+  d1GetOrderDownloads: vi.fn(async () => downloads),
+}));
+
+vi.mock('../lib/email', () => ({
+  getEmailLogs: vi.fn(async () => emails),
+}));
+
+vi.mock('../lib/d1/journal', () => ({
+  MAX_JOURNAL_LINES: 14,
+  d1InsertJournalEntry: vi.fn(async () => true),
+  d1GetJournalLines: vi.fn(async () => []),
+  d1GetJournalBalances: vi.fn(async () => []),
+}));
+
+vi.mock('../lib/stripe-client', () => ({
+  createStripeClient: vi.fn(() => ({
+    charges: {
+      retrieve: vi.fn(async () => ({
+        billing_details: { name: 'Sam Buyer', address: { line1: '1 High St', city: 'Leeds', postal_code: 'LS1 1AA', country: 'GB' } },
+        payment_method_details: { card: { checks: { cvc_check: 'pass', address_line1_check: 'pass' } } },
+      })),
+    },
+    disputes: {
+      update: vi.fn(async (id: string, params: Record<string, unknown>) => {
+        disputeUpdates.push({ id, params });
+        return { id };
+      }),
+    },
+  })),
+}));
+
+const { buildEvidencePacket, sendDisputeEvidence, summariseDisputes } = await import('../lib/disputes');
+
+const digitalOrder = {
+  id: 'order_1',
+  orderNumber: 'FW-1001',
+  createdAt: '2026-09-01T10:00:00.000Z',
+  customer: { firstName: 'Sam', lastName: 'Buyer', email: 'sam@example.com', userId: 'user_1' },
+  items: [{ name: 'Night Moves EP', artist: 'Code One', type: 'digital', price: 6, quantity: 1 }],
+  totals: { total: 6 },
+  presentmentTotal: 6,
+  currency: 'GBP',
+  hasPhysicalItems: false,
+  checkout: { ip: '81.2.69.160', userAgent: 'Mozilla/5.0', sessionId: 'cs_test_1' },
+};
+
+const download = (at: string, ip: string, trackIndex: number | null = 0) => ({
+  userId: 'user_1', orderId: 'order_1', releaseId: 'rel_1', trackIndex, fileType: 'wav', source: 'presign', ip, userAgent: 'Mozilla/5.0', createdAt: at,
+});
+
+beforeEach(() => {
+  docs.clear();
+  updates.length = 0;
+  disputeUpdates.length = 0;
+  downloads = [];
+  emails = [];
+});
+
+describe('buildEvidencePacket', () => {
+  it('builds digital-order evidence from the checkout IP, download log and emails', () => {
+    const packet = buildEvidencePacket({
+      dispute: { id: 'dp_1', reason: 'fraudulent', amount: 6, currency: 'gbp' },
+      order: digitalOrder,
+      downloads: [download('2026-09-01 10:05:00', '81.2.69.160'), download('2026-09-02 08:00:00', '81.2.69.161', 1)] as never,
+      emails: [{ messageId: 'm1', toEmail: 'sam@example.com', subject: 'Order confirmed FW-1001', template: 'order-confirmation', status: 'sent', createdAt: '2026-09-01 10:00:05' }],
+      charge: null,
+    });
+
+    expect(packet.evidence).toMatchObject({
+      customer_name: 'Sam Buyer',
+      customer_email_address: 'sam@example.com',
+      customer_purchase_ip: '81.2.69.160',
+      product_description: '1 x Night Moves EP by Code One (digital release) £6.00',
+      service_date: '2026-09-01',
+    });
+    expect(packet.evidence.access_activity_log).toBe([
+      '2026-09-01 10:05:00 UTC  track 1 (wav) downloaded by account user_1 from 81.2.69.160 — Mozilla/5.0',
+      '2026-09-02 08:00:00 UTC  track 2 (wav) downloaded by account user_1 from 81.2.69.161 — Mozilla/5.0',
+    ].join('\n'));
+    const text = packet.evidence.uncategorized_text!;
+    expect(text.startsWith('The purchase was made from the customer\'s own signed-in account')).toBe(true);
+    expect(text).toContain('Checkout came from IP 81.2.69.160 using Mozilla/5.0. Stripe Checkout session cs_test_1.');
+    expect(text).toContain('downloaded purchased files 2 times');
+    expect(text).toContain('This includes the IP the purchase was made from.');
+    expect(text).toContain('2026-09-01 10:00:05 UTC  Order confirmed FW-1001 (sent)');
+    expect(packet.gaps).toEqual([]);
+    expect(packet.summary).toMatchObject({ orderNumber: 'FW-1001', downloads: 2, emails: 1, purchaseIp: '81.2.69.160' });
+  });
+
+  it('uses delivery tracking for physical orders and lists what is missing', () => {
+    const packet = buildEvidencePacket({
+      dispute: { id: 'dp_2', reason: 'product_not_received', amount: 25, currency: 'gbp' },
+      order: {
+        ...digitalOrder,
+        checkout: null,
+        hasPhysicalItems: true,
+        items: [{ name: 'Night Moves 12"', type: 'vinyl', price: 25, quantity: 1 }],
+        shipping: { address1: '1 High St', city: 'Leeds', postcode: 'LS1 1AA', country: 'GB' },
+        shippedAt: '2026-09-03T09:00:00.000Z',
+        deliveredAt: '2026-09-05T12:30:00.000Z',
+        tracking: { courier: 'Royal Mail', trackingNumber: 'RM123456789GB' },
+      },
+      downloads: [],
+      emails: [],
+    });
+
+    expect(packet.evidence).toMatchObject({
+      shipping_address: '1 High St, Leeds, LS1 1AA, GB',
+      shipping_carrier: 'Royal Mail',
+      shipping_tracking_number: 'RM123456789GB',
+      shipping_date: '2026-09-03',
+    });
+    expect(packet.evidence.access_activity_log).toBeUndefined();
+    expect(packet.evidence.uncategorized_text).toContain('Physical items: shipped 2026-09-03, tracking Royal Mail RM123456789GB, delivered 2026-09-05 12:30:00 UTC.');
+    // A vinyl-only order has no downloads to miss
+    expect(packet.gaps).toEqual(['purchase IP', 'customer emails']);
+  });
+
+  it('only opens with a reason note the evidence supports', () => {
+    const packet = buildEvidencePacket({
+      dispute: { id: 'dp_3', reason: 'fraudulent', amount: 6, currency: 'gbp' },
+      order: digitalOrder,
+      downloads: [],
+      emails: [],
+    });
+    expect(packet.evidence.uncategorized_text!.startsWith('Order FW-1001 was placed on 2026-09-01 10:00:00 UTC')).toBe(true);
+    expect(packet.gaps).toContain('download activity');
+  });
+
+  it('says so when no order matches the charge', () => {
+    const packet = buildEvidencePacket({ dispute: { id: 'dp_4', reason: null, amount: 6, currency: 'gbp' }, order: null, downloads: [], emails: [] });
+    expect(packet.gaps).toEqual(['order']);
+    expect(packet.evidence.uncategorized_text).toContain('dp_4');
+  });
+});
+
+describe('sendDisputeEvidence', () => {
+  const record = { id: 'doc_1', stripeDisputeId: 'dp_1', stripeChargeId: 'ch_1', orderId: 'order_1', reason: 'fraudulent', amount: 6, currency: 'gbp' };
+  const env = { STRIPE_SECRET_KEY: 'sk_test', DB: {} };
+
+  it('stages the packet on the Stripe dispute with card checks from the charge', async () => {
+    docs.set('orders/order_1', digitalOrder);
+    downloads = [download('2026-09-01 10:05:00', '81.2.69.160')];
+
+    const result = await sendDisputeEvidence(env, record, { submit: false });
+
+    expect(result.success).toBe(true);
+    expect(disputeUpdates).toHaveLength(1);
+    expect(disputeUpdates[0]!.id).toBe('dp_1');
+    expect(disputeUpdates[0]!.params).toMatchObject({ submit: false, metadata: { orderId: 'order_1' } });
+    const evidence = disputeUpdates[0]!.params.evidence as Record<string, string>;
+    expect(evidence.billing_address).toBe('1 High St, Leeds, LS1 1AA, GB');
+    expect(evidence.uncategorized_text).toContain('Card checks: CVC pass, address pass.');
+    expect(updates[0]).toMatchObject({ collection: 'disputes', id: 'doc_1', data: { evidenceStatus: 'staged', evidenceGaps: ['customer emails'] } });
+    expect(updates[0]!.data.evidenceSubmittedAt).toBeUndefined();
+  });
+
+  it('records who submitted it to the bank', async () => {
+    docs.set('orders/order_1', digitalOrder);
+
+    await sendDisputeEvidence(env, record, { submit: true, adminId: 'admin_1' });
+
+    expect(disputeUpdates[0]!.params.submit).toBe(true);
+    expect(updates[0]!.data).toMatchObject({ evidenceStatus: 'submitted', evidenceSubmittedBy: 'admin_1' });
+  });
+});
+
+describe('summariseDisputes', () => {
+  it('totals outcomes and what each seller had held, returned or lost', () => {
+    const reversed = (sellerId: string, amount: number, sellerKind = 'artist') => ({ sellerId, sellerKind, amount });
+    const { summary, sellers } = summariseDisputes([
+      { status: 'open', amount: 10, settlementAmount: 8.5, amountRecovered: 6, evidenceDueBy: '2026-10-01T00:00:00Z', transfersReversed: [reversed('artist_1', 6)] },
+      { status: 'open', amount: 4, amountRecovered: 0, evidenceStatus: 'staged', evidenceDueBy: '2026-11-01T00:00:00Z' },
+      { status: 'won', amount: 12, amountRecovered: 9, evidenceStatus: 'submitted', transfersReversed: [reversed('artist_1', 9)] },
+      { status: 'lost', amount: 20, amountRecovered: 15, netImpact: 5, evidenceStatus: 'submitted', transfersReversed: [reversed('artist_2', 10), reversed('sup_1', 5, 'supplier')] },
+      // Older records only carry artistId on reversed transfers
+      { status: 'lost', amount: 3, amountRecovered: 3, netImpact: 0, transfersReversed: [{ artistId: 'artist_1', amount: 3 }] },
+    ], new Date('2026-10-19T00:00:00Z'));
+
+    expect(summary).toEqual({
+      open: { count: 2, amount: 12.5 },
+      won: { count: 1, amount: 12 },
+      lost: { count: 2, amount: 23 },
+      recovered: 33,
+      platformLoss: 5,
+      evidence: { staged: 1, submitted: 2, none: 2, overdue: 1 },
+    });
+    expect(sellers).toEqual([
+      { sellerId: 'artist_2', sellerKind: 'artist', disputes: 1, held: 0, returned: 0, lost: 10 },
+      { sellerId: 'artist_1', sellerKind: 'artist', disputes: 3, held: 6, returned: 9, lost: 3 },
+      { sellerId: 'sup_1', sellerKind: 'supplier', disputes: 1, held: 0, returned: 0, lost: 5 },
+    ]);
+  });
+});
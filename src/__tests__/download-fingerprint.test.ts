@@ -0,0 +1,269 @@
+import { describe, it, expect } from 'vitest';
+import {
+  findFingerprintCode, fingerprintBody, fingerprintEdit, fingerprintFormat, fingerprintHeadLength, generateFingerprintCode,
+  isFingerprintCode,
+} from '../lib/release/download-fingerprint';
+
+const CODE = 'FW-7KQ2M9X4TB';
+const ascii = (s: string) => Uint8Array.from(s, c => c.charCodeAt(0));
+const text = (b: Uint8Array) => String.fromCharCode(...b);
+
+function concat(...parts: Uint8Array[]): Uint8Array {
+  const out = new Uint8Array(parts.reduce((n, p) => n + p.length, 0));
+  let at = 0;
+  for (const p of parts) { out.set(p, at); at += p.length; }
+  return out;
+}
+
+const syncsafe = (n: number) => Uint8Array.of((n >> 21) & 0x7f, (n >> 14) & 0x7f, (n >> 7) & 0x7f, n & 0x7f);
+const be32 = (n: number) => { const b = new Uint8Array(4); new DataView(b.buffer).setUint32(0, n); return b; };
+const le32 = (n: number) => { const b = new Uint8Array(4); new DataView(b.buffer).setUint32(0, n, true); return b; };
+const audio = (n: number, fill = 0xaa) => new Uint8Array(n).fill(fill);
+
+// --- Synthesised files ------------------------------------------------------
+
+function id3(version: 3 | 4, frames: Array<[string, string]>, padding = 0): Uint8Array {
+  const body = concat(...frames.map(([id, value]) => {
+    const payload = concat(Uint8Array.of(0), ascii(value));
+    return concat(ascii(id), version === 4 ? syncsafe(payload.length) : be32(payload.length), Uint8Array.of(0, 0), payload);
+  }), new Uint8Array(padding));
+  return concat(ascii('ID3'), Uint8Array.of(version, 0, 0), syncsafe(body.length), body);
+}
+
+// ID3v2 frame ids in order, reading the tag the way a player would
+function id3Frames(file: Uint8Array): string[] {
+  const version = file[3]!;
+  const end = 10 + (((file[6]! & 0x7f) << 21) | ((file[7]! & 0x7f) << 14) | ((file[8]! & 0x7f) << 7) | (file[9]! & 0x7f));
+  const ids: string[] = [];
+  let at = 10;
+  while (at + 10 <= end && file[at] !== 0) {
+    const b = file.subarray(at + 4, at + 8);
+    const size = version === 4
+      ? ((b[0]! & 0x7f) << 21) | ((b[1]! & 0x7f) << 14) | ((b[2]! & 0x7f) << 7) | (b[3]! & 0x7f)
+      : new DataView(b.buffer, b.byteOffset).getUint32(0);
+    ids.push(text(file.subarray(at, at + 4)));
+    at += 10 + size;
+  }
+  return ids;
+}
+
+function flacBlock(type: number, body: Uint8Array, last: boolean): Uint8Array {
+  const n = body.length;
+  return concat(Uint8Array.of(type | (last ? 0x80 : 0), (n >> 16) & 0xff, (n >> 8) & 0xff, n & 0xff), body);
+}
+
+function vorbisComment(comments: string[]): Uint8Array {
+  const vendor = ascii('reference libFLAC 1.4.3');
+  return concat(le32(vendor.length), vendor, le32(comments.length), ...comments.map(c => concat(le32(c.length), ascii(c))));
+}
+
+// FLAC metadata block types in order, with the comments of a VORBIS_COMMENT
+function flacBlocks(file: Uint8Array): Array<{ type: number; comments?: string[] }> {
+  const blocks: Array<{ type: number; comments?: string[] }> = [];
+  let at = 4;
+  for (;;) {
+    const type = file[at]! & 0x7f;
+    const length = (file[at + 1]! << 16) | (file[at + 2]! << 8) | file[at + 3]!;
+    const body = file.subarray(at + 4, at + 4 + length);
+    if (type === 4) {
+      const view = new DataView(body.buffer, body.byteOffset, body.length);
+      let p = 4 + view.getUint32(0, true);
+      const count = view.getUint32(p, true);
+      p += 4;
+      const comments: string[] = [];
+      for (let i = 0; i < count; i++) {
+        const len = view.getUint32(p, true);
+        comments.push(text(body.subarray(p + 4, p + 4 + len)));
+        p += 4 + len;
+      }
+      expect(p).toBe(length);
+      blocks.push({ type, comments });
+    } else {
+      blocks.push({ type });
+    }
+    at += 4 + length;
+    if (file[at - 4 - length]! & 0x80) return blocks;
+  }
+}
+
+function wav(dataBytes: number): Uint8Array {
+  const fmt = concat(ascii('fmt '), le32(16), new Uint8Array(16));
+  const data = concat(ascii('data'), le32(dataBytes), audio(dataBytes), dataBytes % 2 ? Uint8Array.of(0) : new Uint8Array(0));
+  return concat(ascii('RIFF'), le32(4 + fmt.length + data.length), ascii('WAVE'), fmt, data);
+}
+
+function aiff(dataBytes: number): Uint8Array {
+  const comm = concat(ascii('COMM'), be32(18), new Uint8Array(18));
+  const ssnd = concat(ascii('SSND'), be32(8 + dataBytes), new Uint8Array(8), audio(dataBytes));
+  return concat(ascii('FORM'), be32(4 + comm.length + ssnd.length), ascii('AIFF'), comm, ssnd);
+}
+
+// Chunk ids of a RIFF (little-endian) or AIFF (big-endian) file, checking
+// every size adds up to the end of the file
+function chunks(file: Uint8Array, riff: boolean): string[] {
+  const view = new DataView(file.buffer, file.byteOffset, file.length);
+  expect(view.getUint32(4, riff) + 8).toBe(file.length);
+  const ids: string[] = [];
+  let at = 12;
+  while (at < file.length) {
+    const size = view.getUint32(at + 4, riff);
+    ids.push(text(file.subarray(at, at + 4)));
+    at += 8 + size + (size % 2);
+  }
+  expect(at).toBe(file.length);
+  return ids;
+}
+
+function apply(format: Parameters<typeof fingerprintEdit>[0], file: Uint8Array): Uint8Array {
+  const edit = fingerprintEdit(format, file, CODE, file.length);
+  expect(edit).not.toBeNull();
+  return concat(edit!.head, file.subarray(edit!.consumed), edit!.trailer);
+}
+
+async function read(stream: ReadableStream<Uint8Array>): Promise<Uint8Array> {
+  const parts: Uint8Array[] = [];
+  const reader = stream.getReader();
+  for (;;) {
+    const next = await reader.read();
+    if (next.done) return concat(...parts);
+    parts.push(next.value);
+  }
+}
+
+function chunked(file: Uint8Array, size: number): ReadableStream<Uint8Array> {
+  let at = 0;
+  return new ReadableStream<Uint8Array>({
+    pull(controller) {
+      if (at >= file.length) return controller.close();
+      controller.enqueue(file.slice(at, at + size));
+      at += size;
+    },
+  });
+}
+
+// --- Tests ------------------------------------------------------------------
+
+describe('fingerprint codes', () => {
+  it('are FW- and ten unambiguous characters', () => {
+    const code = generateFingerprintCode();
+    expect(isFingerprintCode(code)).toBe(true);
+    expect(code).not.toMatch(/[ILOU]/);
+    expect(isFingerprintCode('FW-7KQ2M9X4TI')).toBe(false);
+    expect(isFingerprintCode('fw-7kq2m9x4tb')).toBe(false);
+  });
+
+  it('are found anywhere in a file', () => {
+    expect(findFingerprintCode(concat(audio(5000, 0x46), ascii(`x${CODE}y`), audio(10)))).toBe(CODE);
+    expect(findFingerprintCode(concat(ascii('FW-'), audio(100)))).toBeNull();
+  });
+
+  it('are stamped into audio by extension only', () => {
+    expect(fingerprintFormat('releases/x/Track.AIF')).toBe('aiff');
+    expect(fingerprintFormat('https://cdn.freshwax.co.uk/a/b.flac?x=1')).toBe('flac');
+    expect(fingerprintFormat('cover.jpg')).toBeNull();
+  });
+});
+
+describe('stamping MP3', () => {
+  const frames = audio(4000, 0xff);
+
+  it('adds a TXXX frame to the existing tag, before its padding', () => {
+    for (const version of [3, 4] as const) {
+      const file = concat(id3(version, [['TIT2', 'Dark Matter'], ['TPE1', 'Kasra']], 64), frames);
+      const stamped = apply('mp3', file);
+      expect(id3Frames(stamped)).toEqual(['TIT2', 'TPE1', 'TXXX']);
+      expect(findFingerprintCode(stamped)).toBe(CODE);
+      expect(stamped.subarray(stamped.length - frames.length)).toEqual(frames);
+    }
+  });
+
+  it('gives an untagged MP3 a tag', () => {
+    const stamped = apply('mp3', frames);
+    expect(id3Frames(stamped)).toEqual(['TXXX']);
+    expect(text(stamped.subarray(0, 3))).toBe('ID3');
+    expect(findFingerprintCode(stamped)).toBe(CODE);
+  });
+
+  it('needs the whole tag first', () => {
+    const file = concat(id3(3, [['TIT2', 'Dark Matter']]), frames);
+    expect(fingerprintHeadLength('mp3', file.subarray(0, 4))).toBe(10);
+    expect(fingerprintHeadLength('mp3', file)).toBe(10 + 10 + 12);
+    expect(fingerprintEdit('mp3', file.subarray(0, 20), CODE, null)).toBeNull();
+  });
+});
+
+describe('stamping FLAC', () => {
+  const streamInfo = flacBlock(0, new Uint8Array(34), false);
+  const frames = audio(2000);
+
+  it('adds a comment to the existing VORBIS_COMMENT block', () => {
+    const file = concat(ascii('fLaC'), streamInfo, flacBlock(4, vorbisComment(['TITLE=Dark Matter']), false), flacBlock(6, audio(300, 1), true), frames);
+    const stamped = apply('flac', file);
+    expect(flacBlocks(stamped)).toEqual([
+      { type: 0 },
+      { type: 4, comments: ['TITLE=Dark Matter', `FRESHWAX=${CODE}`] },
+      { type: 6 },
+    ]);
+    expect(stamped.subarray(stamped.length - frames.length)).toEqual(frames);
+  });
+
+  it('adds a VORBIS_COMMENT block when there is none', () => {
+    const file = concat(ascii('fLaC'), flacBlock(0, new Uint8Array(34), true), frames);
+    expect(fingerprintHeadLength('flac', file)).toBe(4 + 4 + 34);
+    const stamped = apply('flac', file);
+    expect(flacBlocks(stamped)).toEqual([{ type: 0 }, { type: 4, comments: [`FRESHWAX=${CODE}`] }]);
+  });
+
+  it('leaves a file that is not FLAC alone', () => {
+    expect(fingerprintEdit('flac', frames, CODE, frames.length)).toBeNull();
+  });
+});
+
+describe('stamping WAV and AIFF', () => {
+  it('appends a LIST/INFO chunk to a WAV and grows the RIFF size', () => {
+    const stamped = apply('wav', wav(1000));
+    expect(chunks(stamped, true)).toEqual(['fmt ', 'data', 'LIST']);
+    expect(findFingerprintCode(stamped.subarray(stamped.length - 64))).toBe(CODE);
+  });
+
+  it('pads an odd-length file before the new chunk', () => {
+    const file = wav(1001).subarray(0, -1); // a writer that skipped the pad byte
+    const edit = fingerprintEdit('wav', file, CODE, file.length)!;
+    expect(edit.trailer[0]).toBe(0);
+    expect((file.length + edit.trailer.length) % 2).toBe(0);
+  });
+
+  it('appends an ANNO chunk to an AIFF', () => {
+    const stamped = apply('aiff', aiff(999));
+    expect(chunks(stamped, false)).toEqual(['COMM', 'SSND', 'ANNO']);
+    expect(findFingerprintCode(stamped)).toBe(CODE);
+  });
+});
+
+describe('fingerprintBody', () => {
+  it('streams the stamped file and reports its new size', async () => {
+    const file = concat(id3(3, [['TIT2', 'Dark Matter']], 32), audio(50_000, 0xff));
+    // Chunks smaller than the tag, as a network read delivers them
+    const stamped = await fingerprintBody(chunked(file, 7), file.length, 'mp3', CODE);
+    const bytes = await read(stamped.body);
+    expect(stamped.stamped).toBe(true);
+    expect(bytes).toEqual(apply('mp3', file));
+    expect(stamped.size).toBe(bytes.length);
+  });
+
+  it('adds the trailer after the last byte', async () => {
+    const file = wav(20_000);
+    const stamped = await fingerprintBody(chunked(file, 4096), file.length, 'wav', CODE);
+    const bytes = await read(stamped.body);
+    expect(chunks(bytes, true)).toEqual(['fmt ', 'data', 'LIST']);
+    expect(stamped.size).toBe(bytes.length);
+  });
+
+  it('passes a file it cannot stamp through unchanged', async () => {
+    const file = ascii('not really a flac file');
+    const stamped = await fingerprintBody(chunked(file, 5), null, 'flac', CODE);
+    expect(stamped.stamped).toBe(false);
+    expect(stamped.size).toBeNull();
+    expect(await read(stamped.body)).toEqual(file);
+  });
+});
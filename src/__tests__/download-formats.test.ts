@@ -0,0 +1,155 @@
+import { describe, it, expect } from 'vitest';
+import {
+  buildDownloadTags, buildTracklist, downloadFilename, findReleaseTrackIndex, r2KeyFromUrl, renditionHash, renditionSource,
+} from '../lib/release/download-formats';
+
+const CDN = 'https://cdn.freshwax.co.uk';
+
+function release(overrides: Record<string, unknown> = {}): Record<string, unknown> {
+  return {
+    id: 'rel_FW-1',
+    artistName: 'Kasra',
+    releaseName: 'Dark Matter EP',
+    labelName: 'Critical Music',
+    catalogNumber: 'CRIT123',
+    releaseDate: '2026-03-14T00:00:00.000Z',
+    genre: 'Drum and Bass',
+    coverArtUrl: `${CDN}/releases/rel_FW-1/artwork/cover.webp`,
+    originalArtworkUrl: `${CDN}/releases/rel_FW-1/artwork/original.jpg`,
+    tracks: [
+      {
+        trackNumber: 1,
+        trackName: 'Dark Matter',
+        mp3Url: `${CDN}/releases/rel_FW-1/tracks/01-dark-matter.mp3`,
+        wavUrl: `${CDN}/releases/rel_FW-1/masters/01-dark-matter.wav`,
+        bpm: '174',
+        key: 'Am',
+        trackISRC: 'GBKQU2600001',
+        duration: '5:12',
+      },
+      {
+        trackNumber: 2,
+        trackName: 'Halo',
+        featured: 'Riya',
+        remixer: 'Break',
+        mp3Url: `${CDN}/releases/rel_FW-1/tracks/02-halo.mp3`,
+        wavUrl: 'https://firebasestorage.googleapis.com/v0/b/freshwax/o/02-halo.wav',
+        key: 'not sure',
+        detectedKey: 'F#m',
+        detectedBpm: 173.6,
+        durationSeconds: 301,
+      },
+    ],
+    ...overrides,
+  };
+}
+
+describe('r2KeyFromUrl', () => {
+  it('reads keys off the public domain and r2.dev', () => {
+    expect(r2KeyFromUrl(`${CDN}/releases/rel_FW-1/masters/01%20a.wav`, CDN)).toBe('releases/rel_FW-1/masters/01 a.wav');
+    expect(r2KeyFromUrl('https://pub-abc.r2.dev/releases/x.wav', CDN)).toBe('releases/x.wav');
+  });
+
+  it('ignores files stored elsewhere, and paths that climb out', () => {
+    expect(r2KeyFromUrl('https://firebasestorage.googleapis.com/v0/b/freshwax/o/x.wav', CDN)).toBeNull();
+    expect(r2KeyFromUrl(`${CDN}/releases/..%2F..%2Fsecret`, CDN)).toBeNull();
+    expect(r2KeyFromUrl(undefined, CDN)).toBeNull();
+  });
+});
+
+describe('findReleaseTrackIndex', () => {
+  const tracks = release().tracks as Record<string, unknown>[];
+
+  it('matches the exact file an order stored, then the name', () => {
+    expect(findReleaseTrackIndex(tracks, { url: tracks[1]!.mp3Url, name: 'Dark Matter' })).toBe(1);
+    expect(findReleaseTrackIndex(tracks, { url: 'https://elsewhere/x.mp3', name: ' dark matter ' })).toBe(0);
+    expect(findReleaseTrackIndex(tracks, { name: 'Missing' })).toBe(-1);
+  });
+});
+
+describe('renditionSource', () => {
+  const [first, second] = release().tracks as Record<string, unknown>[];
+
+  it('tags the stored MP3 rather than re-encoding it', () => {
+    expect(renditionSource(first!, 'mp3', CDN)).toEqual({ key: 'releases/rel_FW-1/tracks/01-dark-matter.mp3', format: 'mp3' });
+  });
+
+  it('makes FLAC and AIFF from the lossless master only', () => {
+    expect(renditionSource(first!, 'flac', CDN)).toEqual({ key: 'releases/rel_FW-1/masters/01-dark-matter.wav', format: 'wav' });
+    // The master is on Firebase Storage, and the MP3 must not stand in for it
+    expect(renditionSource(second!, 'aiff', CDN)).toBeNull();
+    expect(renditionSource({ wavUrl: `${CDN}/releases/x/tracks/01.mp3` }, 'flac', CDN)).toBeNull();
+  });
+});
+
+describe('buildDownloadTags', () => {
+  it('fills in the release and track metadata', () => {
+    expect(buildDownloadTags(release(), 0, CDN)).toEqual({
+      artist: 'Kasra',
+      title: 'Dark Matter',
+      album: 'Dark Matter EP',
+      albumArtist: 'Kasra',
+      label: 'Critical Music',
+      catalogNumber: 'CRIT123',
+      isrc: 'GBKQU2600001',
+      bpm: 174,
+      key: 'Am',
+      remixer: null,
+      trackNumber: 1,
+      trackTotal: 2,
+      year: '2026',
+      genre: 'Drum and Bass',
+      artworkKey: 'releases/rel_FW-1/artwork/original.jpg',
+    });
+  });
+
+  it('credits the featured artist and falls back to the detected tempo and key', () => {
+    const tags = buildDownloadTags(release(), 1, CDN);
+    expect(tags.artist).toBe('Kasra feat. Riya');
+    expect(tags.remixer).toBe('Break');
+    expect(tags.bpm).toBe(174);
+    expect(tags.key).toBe('F#m');
+    expect(tags.isrc).toBeNull();
+  });
+});
+
+describe('renditionHash', () => {
+  it('changes when a tag or the source changes', async () => {
+    const tags = buildDownloadTags(release(), 0, CDN);
+    const hash = await renditionHash(tags, 'a.wav');
+    expect(hash).toMatch(/^[0-9a-f]{12}$/);
+    expect(await renditionHash({ ...tags }, 'a.wav')).toBe(hash);
+    expect(await renditionHash({ ...tags, isrc: 'GBKQU2600002' }, 'a.wav')).not.toBe(hash);
+    expect(await renditionHash(tags, 'b.wav')).not.toBe(hash);
+  });
+});
+
+describe('downloadFilename', () => {
+  it('keeps names safe to save', () => {
+    expect(downloadFilename('AC/DC', 'What? Now', 'flac')).toBe('AC_DC - What_ Now.flac');
+  });
+});
+
+describe('buildTracklist', () => {
+  it('lists the release details and each track', () => {
+    expect(buildTracklist(release())).toBe([
+      'Kasra - Dark Matter EP',
+      'Label: Critical Music',
+      'Catalogue number: CRIT123',
+      'Released: 2026-03-14',
+      'Genre: Drum and Bass',
+      '',
+      '01. Dark Matter - 5:12 | 174 BPM | Am (8A) | ISRC GBKQU2600001',
+      '02. Halo (feat. Riya) [Break remix] - 5:01 | 174 BPM | F#m (11A)',
+      '',
+      'Bought on Fresh Wax - https://freshwax.co.uk',
+      '',
+    ].join('\n'));
+  });
+
+  it('only lists the tracks bought', () => {
+    const tracklist = buildTracklist(release(), [1]);
+    expect(tracklist).toContain('02. Halo');
+    expect(tracklist).not.toContain('Dark Matter -');
+  });
+});
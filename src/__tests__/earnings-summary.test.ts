@@ -0,0 +1,126 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+// Year-end earnings summaries: a seller's ledger by month over the UK tax
+// year or calendar year, payouts received in it, and a forecast of what is
+// still owed. Firestore and D1 are replaced by in-memory stubs.
+const collections = new Map<string, Array<Record<string, unknown>>>();
+const docs = new Map<string, Record<string, unknown>>();
+const monthQueries: Array<{ sellerId: string; from: string; to: string }> = [];
+let ledgerMonths: Array<Record<string, unknown>> = [];
+let recentMonths: Array<Record<string, unknown>> = [];
+
+vi.mock('../lib/firebase-rest', () => ({
+  getDocument: vi.fn(async (collection: string, id: string) => docs.get(`${collection}/${id}`) || null),
+  queryCollection: vi.fn(async (collection: string, options: { filters?: Array<{ field: string; op: string; value: unknown }> }) => {
+    return (collections.get(collection) || []).filter(doc => (options.filters || []).every(f =>
+      f.op === 'IN' ? (f.value as unknown[]).includes(doc[f.field]) : doc[f.field] === f.value));
+  }),
+}));
+
+vi.mock('../lib/d1-catalog', () => ({
+  d1GetSellerLedgerMonths: vi.fn(async (_db: unknown, sellerId: string, from: string, to: string) => {
+    monthQueries.push({ sellerId, from, to });
+    return monthQueries.length === 1 ? ledgerMonths : recentMonths;
+  }),
+}));
+
+vi.mock('../lib/d1/journal', () => ({
+  MAX_JOURNAL_LINES: 14,
+  d1InsertJournalEntry: vi.fn(async () => true),
+  d1GetJournalLines: vi.fn(async () => []),
+  d1GetJournalBalances: vi.fn(async () => [{ account: '2100', partyId: 'artist_1', debitPence: 0, creditPence: 1250 }]),
+}));
+
+const {
+  earningsPeriod, currentEarningsYear, getEarningsSummary, renderEarningsCsv, renderEarningsPdf,
+} = await import('../lib/earnings-summary');
+
+const db = {} as never;
+const month = (m: string, net: number, extra: Record<string, number> = {}) => ({
+  month: m, orders: 2, gross: net + 1, fees: 1, refunds: 0, refundedFees: 0, vat: 0, net, ...extra,
+});
+
+beforeEach(() => {
+  collections.clear();
+  docs.clear();
+  monthQueries.length = 0;
+  ledgerMonths = [];
+  recentMonths = [];
+});
+
+describe('earnings periods', () => {
+  it('runs the tax year from midnight UK time on 6 April to 5 April', () => {
+    expect(earningsPeriod('tax', 2025)).toEqual({
+      basis: 'tax', year: 2025, label: '2025/26',
+      from: '2025-04-05T23:00:00.000Z', to: '2026-04-05T23:00:00.000Z',
+    });
+    expect(earningsPeriod('calendar', 2025)).toMatchObject({ label: '2025', from: '2025-01-01T00:00:00.000Z', to: '2026-01-01T00:00:00.000Z' });
+  });
+
+  it('puts early April in the previous tax year', () => {
+    expect(currentEarningsYear('tax', new Date('2026-04-05T12:00:00Z'))).toBe(2025);
+    expect(currentEarningsYear('tax', new Date('2026-04-06T12:00:00Z'))).toBe(2026);
+    expect(currentEarningsYear('calendar', new Date('2026-04-05T12:00:00Z'))).toBe(2026);
+  });
+});
+
+describe('getEarningsSummary', () => {
+  it('totals the ledger months and lists payouts received in the period', async () => {
+    ledgerMonths = [month('2025-04', 10), month('2025-05', 20, { refunds: 5, refundedFees: 0.25, net: 15 })];
+    collections.set('payouts', [
+      { id: 'p1', artistId: 'artist_1', status: 'completed', amount: 9.5, completedAt: '2025-05-01T10:00:00Z', stripeTransferId: 'tr_1', payoutMethod: 'stripe' },
+      { id: 'p2', artistId: 'artist_1', status: 'completed', amount: 3, completedAt: '2025-04-01T10:00:00Z', payoutMethod: 'stripe' },
+    ]);
+    collections.set('crateSellerPayouts', [
+      { id: 'c1', sellerId: 'artist_1', status: 'completed', amount: 12, createdAt: '2026-01-10T10:00:00Z', paypalBatchId: 'pp_1' },
+    ]);
+
+    const summary = await getEarningsSummary(db, 'artist_1', earningsPeriod('tax', 2025), new Date('2026-10-19T00:00:00Z'));
+
+    expect(monthQueries[0]).toEqual({ sellerId: 'artist_1', from: '2025-04-05T23:00:00.000Z', to: '2026-04-05T23:00:00.000Z' });
+    expect(summary.totals).toMatchObject({ orders: 4, gross: 32, fees: 2, refunds: 5, refundedFees: 0.25, net: 25 });
+    // The April payout predates the tax year
+    expect(summary.payouts).toMatchObject({ count: 2, total: 21.5 });
+    expect(summary.payouts.items.map(p => [p.reference, p.method])).toEqual([['tr_1', 'stripe'], ['pp_1', 'paypal']]);
+    // A past period has no projection
+    expect(summary.forecast.projectedNet).toBeNull();
+  });
+
+  it('forecasts unpaid balances and projects the current period from the last 90 days', async () => {
+    ledgerMonths = [month('2026-04', 30)];
+    recentMonths = [month('2026-08', 45), month('2026-09', 45)];
+    collections.set('pendingPayouts', [
+      { artistId: 'artist_1', status: 'scheduled', amount: 6.5 },
+      { artistId: 'artist_1', status: 'pending', amount: 4 },
+      { artistId: 'artist_1', status: 'completed', amount: 100 },
+    ]);
+    docs.set('artists/artist_1', { payoutSchedule: { cadence: 'monthly', minimum: 20 }, clawbackBalance: 2 });
+
+    const now = new Date('2026-10-19T00:00:00Z');
+    const summary = await getEarningsSummary(db, 'artist_1', earningsPeriod('tax', 2026), now);
+
+    expect(summary.forecast).toMatchObject({
+      unpaid: 10.5,
+      unpaidByStatus: { scheduled: 6.5, pending: 4 },
+      ledgerBalance: 12.5,
+      outstandingClawbacks: 2,
+      nextScheduledPayout: { cadence: 'monthly', minimum: 20, date: '2026-11-01T00:00:00.000Z' },
+    });
+    // £90 over 90 days = £1/day for the ~168 days left of the tax year
+    const daysLeft = (Date.parse('2027-04-05T23:00:00Z') - now.getTime()) / 86400000;
+    expect(summary.forecast.projectedNet).toBeCloseTo(30 + daysLeft, 2);
+  });
+
+  it('renders CSV and PDF downloads', async () => {
+    ledgerMonths = [month('2025-04', 10)];
+    const summary = await getEarningsSummary(db, 'artist_1', earningsPeriod('calendar', 2025), new Date('2026-10-19T00:00:00Z'));
+
+    const csv = renderEarningsCsv(summary, 'Code One, Ltd');
+    expect(csv.split('\n')[0]).toBe('Fresh Wax earnings summary,"Code One, Ltd"');
+    expect(csv).toContain('Month,Orders,Gross,Fees,Refunds,Fees refunded,VAT,Net earnings\n2025-04,2,11.00,1.00,0.00,0.00,0.00,10.00\nTotal,2,11.00');
+
+    const pdf = new TextDecoder('latin1').decode(renderEarningsPdf(summary, 'Code One'));
+    expect(pdf.startsWith('%PDF-1.4')).toBe(true);
+    expect(pdf).toContain('Calendar year 2025');
+  });
+});
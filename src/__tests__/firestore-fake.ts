@@ -0,0 +1,81 @@
+import { vi } from 'vitest';
+
+// A small in-memory Firestore for tests that run real modules on top of
+// lib/firebase-rest: reads return copies with the doc id, writes merge.
+// Every write stamps `_updateTime`, and updateDocumentConditional throws a
+// CONFLICT when the doc has been written since the caller read it.
+// Wire it up with
+//   vi.mock('../lib/firebase-rest', async () => (await import('./firestore-fake')).firebaseRestFake());
+// and call resetFirestore() in beforeEach.
+export type Doc = Record<string, unknown>;
+
+const store = new Map<string, Map<string, Doc>>();
+let nextId = 0;
+let clock = 0;
+
+export function coll(name: string): Map<string, Doc> {
+  if (!store.has(name)) store.set(name, new Map());
+  return store.get(name) as Map<string, Doc>;
+}
+export function read(name: string, id: string): Doc | null {
+  const doc = coll(name).get(id);
+  return doc ? structuredClone({ ...doc, id }) : null;
+}
+export function write(name: string, id: string, data: Doc) {
+  coll(name).set(id, { ...(coll(name).get(id) || {}), ...structuredClone(data), _updateTime: `t${++clock}` });
+  return { success: true, id };
+}
+export function resetFirestore() {
+  store.clear();
+  nextId = 0;
+  clock = 0;
+}
+
+type Filter = { field: string; op?: string; value: unknown };
+
+function matches(doc: Doc, filter: Filter): boolean {
+  if (filter.op === 'IN') return (filter.value as unknown[]).includes(doc[filter.field]);
+  if (filter.op === 'LESS_THAN') return String(doc[filter.field]) < String(filter.value);
+  if (filter.op === 'GREATER_THAN_OR_EQUAL') return String(doc[filter.field]) >= String(filter.value);
+  return doc[filter.field] === filter.value;
+}
+
+export function firebaseRestFake() {
+  return {
+    getDocument: vi.fn(async (c: string, id: string) => read(c, id)),
+    getDocumentsBatch: vi.fn(async (c: string, ids: string[]) => {
+      const map = new Map<string, Doc>();
+      for (const id of ids) {
+        const doc = read(c, id);
+        if (doc) map.set(id, doc);
+      }
+      return map;
+    }),
+    setDocument: vi.fn(async (c: string, id: string, data: Doc) => write(c, id, data)),
+    createDocumentIfNotExists: vi.fn(async (c: string, id: string, data: Doc) => {
+      if (coll(c).has(id)) return { success: false, exists: true };
+      write(c, id, data);
+      return { success: true, exists: false };
+    }),
+    deleteDocument: vi.fn(async (c: string, id: string) => {
+      coll(c).delete(id);
+      return { success: true };
+    }),
+    updateDocument: vi.fn(async (c: string, id: string, data: Doc) => write(c, id, data)),
+    updateDocumentConditional: vi.fn(async (c: string, id: string, data: Doc, expectedUpdateTime: string) => {
+      if (coll(c).get(id)?._updateTime !== expectedUpdateTime) throw new Error(`CONFLICT: ${c}/${id} was modified`);
+      return write(c, id, data);
+    }),
+    addDocument: vi.fn(async (c: string, data: Doc) => write(c, `doc_${++nextId}`, data)),
+    atomicIncrement: vi.fn(async (c: string, id: string, deltas: Record<string, number>) => {
+      const doc = coll(c).get(id) || {};
+      for (const [field, delta] of Object.entries(deltas)) doc[field] = Math.round(((Number(doc[field]) || 0) + delta) * 100) / 100;
+      coll(c).set(id, { ...doc, _updateTime: `t${++clock}` });
+      return { success: true, newValues: {} };
+    }),
+    queryCollection: vi.fn(async (c: string, options: { filters?: Filter[] }) =>
+      [...coll(c).keys()].map(id => read(c, id) as Doc).filter(doc => (options.filters || []).every(f => matches(doc, f)))
+    ),
+    clearCache: vi.fn(),
+  };
+}
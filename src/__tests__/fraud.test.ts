@@ -0,0 +1,218 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+// Order fraud scoring: rules that add up to a risk level, the signals
+// gathered for an order, and the review queue that releases or rejects
+// held orders (seller emails and payouts wait until approval).
+const docs = new Map<string, Record<string, unknown>>();
+const updates: Array<{ collection: string; id: string; data: Record<string, unknown> }> = [];
+const velocity = { ipOrders: 0, emailOrders: 0, cardOrders: 0, cardEmails: 0 };
+let failedRedemptions = 0;
+let checkStatus: Record<string, string> = {};
+
+vi.mock('../lib/firebase-rest', () => ({
+  getDocument: vi.fn(async (collection: string, id: string) => docs.get(`${collection}/${id}`) || null),
+  updateDocument: vi.fn(async (collection: string, id: string, data: Record<string, unknown>) => {
+    updates.push({ collection, id, data });
+    docs.set(`${collection}/${id}`, { ...docs.get(`${collection}/${id}`), ...data });
+  }),
+  getDocumentsBatch: vi.fn(async () => new Map()),
+}));
+
+vi.mock('../lib/d1/fraud', () => ({
+  d1GetRiskVelocity: vi.fn(async () => ({ ...velocity })),
+  d1CountRiskEvents: vi.fn(async () => failedRedemptions),
+  d1InsertRiskCheck: vi.fn(async () => true),
+  d1InsertRiskEvent: vi.fn(async () => true),
+  d1GetRiskChecks: vi.fn(async () => []),
+  d1ResolveRiskCheck: vi.fn(async (_db: unknown, orderId: string, status: string) => {
+    if (checkStatus[orderId] !== 'held') return false;
+    checkStatus[orderId] = status;
+    return true;
+  }),
+  d1ReopenRiskCheck: vi.fn(async () => {}),
+}));
+
+const notifyOrderSellers = vi.fn(async (..._args: unknown[]) => {});
+vi.mock('../lib/order/creation', () => ({ notifyOrderSellers }));
+
+const stripeArtistPayments = vi.fn(async (..._args: unknown[]) => {});
+const directArtistPayments = vi.fn(async (..._args: unknown[]) => {});
+vi.mock('../lib/stripe-webhook/payments', () => ({
+  processArtistPayments: stripeArtistPayments,
+  processSupplierPayments: vi.fn(async () => {}),
+}));
+vi.mock('../lib/stripe-webhook/vinyl-crate-payments', () => ({ processVinylCrateSellerPayments: vi.fn(async () => {}) }));
+vi.mock('../lib/order/seller-payments', () => ({
+  processArtistPayments: directArtistPayments,
+  processMerchSupplierPayments: vi.fn(async () => {}),
+  processVinylCrateSellerPayments: vi.fn(async () => {}),
+}));
+vi.mock('../lib/order/paypal-capture-helpers', () => ({ processMerchRoyalties: vi.fn(async () => {}) }));
+
+const refundOrderStock = vi.fn(async (..._args: unknown[]) => ({ failedRefunds: [] }));
+vi.mock('../lib/order/refund', () => ({ refundOrderStock }));
+
+const { scoreOrderRisk, assessOrderRisk, releaseHeldOrder, rejectHeldOrder, RISK_THRESHOLDS } = await import('../lib/fraud');
+type RiskSignals = import('../lib/fraud').RiskSignals;
+
+const db = {} as never;
+const env = { DB: db } as Record<string, unknown>;
+
+function signals(extra: Partial<RiskSignals> = {}): RiskSignals {
+  return {
+    total: 20, vinylValue: 0, hasPhysicalItems: false, shippingCountry: 'GB', billingCountry: 'GB', cardCountry: 'GB',
+    accountAgeDays: 400, velocity: { ipOrders: 0, emailOrders: 0, cardOrders: 0, cardEmails: 0 }, failedRedemptions: 0,
+    ...extra,
+  };
+}
+
+function heldOrder(id: string, extra: Record<string, unknown> = {}) {
+  docs.set(`orders/${id}`, {
+    orderNumber: 'FW-1',
+    items: [{ id: 'rel_1', type: 'vinyl', price: 120, quantity: 1 }],
+    status: 'on_hold',
+    risk: { score: 70, level: 'high', reasons: [], status: 'held', previousStatus: 'processing' },
+    heldPayouts: {
+      flow: 'stripe', totalItemCount: 1, orderSubtotal: 120, actualProcessingFee: 1.9, paymentMethod: 'stripe',
+      logPrefix: '[Stripe Webhook]', artistShippingBreakdown: null,
+    },
+    ...extra,
+  });
+  checkStatus[id] = 'held';
+}
+
+beforeEach(() => {
+  docs.clear();
+  updates.length = 0;
+  Object.assign(velocity, { ipOrders: 0, emailOrders: 0, cardOrders: 0, cardEmails: 0 });
+  failedRedemptions = 0;
+  checkStatus = {};
+  vi.clearAllMocks();
+});
+
+describe('scoreOrderRisk', () => {
+  it('leaves an ordinary order at low risk', () => {
+    expect(scoreOrderRisk(signals())).toEqual({ score: 0, level: 'low', reasons: [], hold: false });
+  });
+
+  it('holds card testing: many orders from one IP on a card shared between customers', () => {
+    const result = scoreOrderRisk(signals({ velocity: { ipOrders: 6, emailOrders: 0, cardOrders: 1, cardEmails: 3 } }));
+
+    expect(result.reasons.map(r => r.rule)).toEqual(['ip_velocity', 'shared_card']);
+    expect(result.score).toBe(75);
+    expect(result).toMatchObject({ level: 'high', hold: true });
+  });
+
+  it('holds a new account buying expensive vinyl to another country after failed gift cards', () => {
+    const result = scoreOrderRisk(signals({
+      vinylValue: 150, hasPhysicalItems: true, shippingCountry: 'GB', billingCountry: 'US', cardCountry: 'US',
+      accountAgeDays: 1, failedRedemptions: 4,
+    }));
+
+    expect(result.reasons.map(r => [r.rule, r.points])).toEqual([
+      ['country_mismatch', 20], ['new_account_vinyl', 30], ['failed_redemptions', 30],
+    ]);
+    expect(result.reasons[0]!.detail).toBe('Shipping to GB, billing US, card US');
+    expect(result.level).toBe('high');
+  });
+
+  it('flags without holding below the high threshold', () => {
+    const result = scoreOrderRisk(signals({ vinylValue: 120, accountAgeDays: null, total: 320 }));
+    expect(result.score).toBe(30);
+    expect(result.score).toBeLessThan(RISK_THRESHOLDS.high);
+    expect(result).toMatchObject({ level: 'medium', hold: false });
+  });
+
+  it('ignores country mismatch on digital-only orders and scores without history', () => {
+    const result = scoreOrderRisk(signals({ hasPhysicalItems: false, billingCountry: 'US', velocity: null }));
+    expect(result.score).toBe(0);
+  });
+});
+
+describe('assessOrderRisk', () => {
+  it('gathers velocity, failed redemptions and account age for the order', async () => {
+    docs.set('users/user_1', { createdAt: new Date(Date.now() - 2 * 86_400_000).toISOString() });
+    Object.assign(velocity, { ipOrders: 2 });
+    failedRedemptions = 3;
+
+    const result = await assessOrderRisk(db, {
+      email: 'Buyer@Example.com', userId: 'user_1', ip: '203.0.113.9', cardFingerprint: 'fp_1',
+      cardCountry: 'FR', shippingCountry: 'United Kingdom',
+      items: [{ type: 'vinyl', price: 60, quantity: 2 }, { type: 'track', price: 1 }],
+      total: 121, hasPhysicalItems: true,
+    });
+
+    expect(result.reasons.map(r => r.rule)).toEqual(['ip_velocity', 'country_mismatch', 'new_account_vinyl', 'failed_redemptions']);
+    expect(result.score).toBe(100);
+    const { d1GetRiskVelocity } = await import('../lib/d1/fraud');
+    expect(d1GetRiskVelocity).toHaveBeenCalledWith(db, expect.objectContaining({ ip: '203.0.113.9', email: 'buyer@example.com', cardFingerprint: 'fp_1' }));
+  });
+
+  it('does not count a hashed client id as an IP, and scores without D1', async () => {
+    const result = await assessOrderRisk(undefined, {
+      email: 'a@b.com', userId: null, ip: 'anon-abc123', items: [], total: 10, hasPhysicalItems: false,
+    });
+    expect(result).toMatchObject({ score: 0, level: 'low' });
+  });
+});
+
+describe('releaseHeldOrder', () => {
+  it('restores the status, tells sellers and runs the held payouts once', async () => {
+    heldOrder('order_1');
+
+    expect(await releaseHeldOrder(env, 'order_1', 'admin_1')).toEqual({ success: true });
+    expect(docs.get('orders/order_1')).toMatchObject({
+      status: 'processing', orderStatus: 'processing', heldPayouts: null,
+      risk: { status: 'approved', reviewedBy: 'admin_1' },
+    });
+    expect(notifyOrderSellers).toHaveBeenCalledTimes(1);
+    expect(stripeArtistPayments).toHaveBeenCalledWith(expect.objectContaining({
+      orderId: 'order_1', orderSubtotal: 120, actualStripeFee: 1.9,
+    }));
+    expect(directArtistPayments).not.toHaveBeenCalled();
+
+    expect((await releaseHeldOrder(env, 'order_1', 'admin_2')).success).toBe(false);
+    expect(stripeArtistPayments).toHaveBeenCalledTimes(1);
+  });
+
+  it('pays PayPal and free orders through the direct payout functions', async () => {
+    heldOrder('order_2', {
+      heldPayouts: {
+        flow: 'direct', totalItemCount: 1, orderSubtotal: 120, actualProcessingFee: 3.78, paymentMethod: 'paypal',
+        logPrefix: '[PayPal]', artistShippingBreakdown: null,
+      },
+    });
+
+    await releaseHeldOrder(env, 'order_2', 'admin_1');
+    expect(directArtistPayments).toHaveBeenCalledWith(expect.objectContaining({ paymentMethod: 'paypal', actualProcessingFee: 3.78 }));
+  });
+
+  it('refuses an order another reviewer already decided', async () => {
+    heldOrder('order_3');
+    checkStatus.order_3 = 'rejected';
+
+    expect(await releaseHeldOrder(env, 'order_3', 'admin_1')).toEqual({ success: false, error: 'Order has already been reviewed' });
+    expect(updates).toHaveLength(0);
+  });
+});
+
+describe('rejectHeldOrder', () => {
+  it('cancels and restocks without paying anyone', async () => {
+    heldOrder('order_4');
+
+    expect(await rejectHeldOrder(env, 'order_4', 'admin_1', 'stolen card')).toEqual({ success: true });
+    expect(docs.get('orders/order_4')).toMatchObject({
+      status: 'cancelled', heldPayouts: null, cancelReason: 'fraud_review',
+      risk: { status: 'rejected', note: 'stolen card' },
+    });
+    expect(refundOrderStock).toHaveBeenCalledTimes(1);
+    expect(notifyOrderSellers).not.toHaveBeenCalled();
+    expect(stripeArtistPayments).not.toHaveBeenCalled();
+  });
+
+  it('leaves stock alone when a full refund already restocked it', async () => {
+    heldOrder('order_5', { refundStatus: 'full' });
+    await rejectHeldOrder(env, 'order_5', 'admin_1');
+    expect(refundOrderStock).not.toHaveBeenCalled();
+  });
+});
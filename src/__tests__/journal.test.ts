@@ -0,0 +1,160 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+// The journal posts every sale, refund, payout and dispute as balanced
+// entries, and seller balances are summed from those postings. D1 is
+// replaced by an in-memory journal with the same insert-or-ignore semantics.
+type Line = { account: string; partyId: string | null; debitPence: number; creditPence: number; memo?: string | null };
+const entries = new Map<string, { entryType: string; lines: Line[] }>();
+
+vi.mock('../lib/d1/journal', () => ({
+  MAX_JOURNAL_LINES: 14,
+  d1InsertJournalEntry: vi.fn(async (_db: unknown, entry: { id: string; entryType: string; lines: Line[] }) => {
+    if (!entries.has(entry.id)) entries.set(entry.id, { entryType: entry.entryType, lines: entry.lines });
+    return true;
+  }),
+  d1GetJournalLines: vi.fn(async (_db: unknown, id: string) => entries.get(id)?.lines || []),
+  d1GetJournalBalances: vi.fn(async (_db: unknown, options: { partyId?: string; accounts?: string[] } = {}) => {
+    const totals = new Map<string, { account: string; partyId: string | null; debitPence: number; creditPence: number }>();
+    for (const { lines } of entries.values()) {
+      for (const l of lines) {
+        if (options.partyId && l.partyId !== options.partyId) continue;
+        if (options.accounts && !options.accounts.includes(l.account)) continue;
+        const key = `${l.account}|${l.partyId}`;
+        const row = totals.get(key) || { account: l.account, partyId: l.partyId, debitPence: 0, creditPence: 0 };
+        row.debitPence += l.debitPence;
+        row.creditPence += l.creditPence;
+        totals.set(key, row);
+      }
+    }
+    return [...totals.values()];
+  }),
+}));
+
+let docId = 0;
+vi.mock('../lib/firebase-rest', () => ({
+  addDocument: vi.fn(async () => ({ success: true, id: `ledger_${++docId}` })),
+  queryCollection: vi.fn(async () => []),
+}));
+vi.mock('../lib/d1-catalog', () => ({
+  d1InsertLedgerEntry: vi.fn(async () => undefined),
+  d1GetLedgerEntries: vi.fn(async () => []),
+  d1GetLedgerEntriesByOrder: vi.fn(async () => []),
+}));
+
+const {
+  postJournalEntry, postLedgerEntryToJournal, postPayoutToJournal, postDisputeOpened, postDisputeRecovery,
+  postDisputeClosed, getSellerBalance, getTrialBalance, JOURNAL_ACCOUNTS,
+} = await import('../lib/journal');
+const { recordMultiSellerSale } = await import('../lib/sales-ledger');
+
+const db = {} as never;
+const balance = async (sellerId: string) => (await getSellerBalance(db, sellerId)).balance;
+const accountTotal = async (account: string) => {
+  const rows = (await getTrialBalance(db)).accounts.filter(a => a.account === account);
+  return Math.round(rows.reduce((sum, a) => sum + a.balance, 0) * 100) / 100;
+};
+
+const sale = {
+  orderId: 'order_1', orderNumber: 'FW-1', grossTotal: 20, stripeFee: 0.48, freshWaxFee: 0.2,
+  paymentMethod: 'stripe', submitterId: 'label_1',
+};
+
+beforeEach(() => {
+  entries.clear();
+  docId = 0;
+});
+
+describe('postJournalEntry', () => {
+  it('refuses entries whose debits and credits differ', async () => {
+    const result = await postJournalEntry(db, {
+      id: 'bad', entryType: 'sale',
+      postings: [{ account: 'processor_clearing', amount: 10 }, { account: 'platform_revenue', amount: -9.99 }],
+    });
+    expect(result).toEqual({ success: false, error: 'Journal entry does not balance' });
+    expect(entries.size).toBe(0);
+  });
+
+  it('posts each id once', async () => {
+    await postLedgerEntryToJournal(db, 'ledger_1', sale, 'artist');
+    await postLedgerEntryToJournal(db, 'ledger_1', sale, 'artist');
+    expect([...entries.keys()]).toEqual(['sale:ledger_1']);
+    expect(await balance('label_1')).toBe(19.32);
+  });
+});
+
+describe('seller balances', () => {
+  it('nets sales, refunds and payouts to what is still owed', async () => {
+    await postLedgerEntryToJournal(db, 'ledger_1', { ...sale, submitterId: 'supplier_1' }, 'supplier');
+    // Half refunded: the refund row is the sale row negated and scaled
+    await postLedgerEntryToJournal(db, 'ledger_2', {
+      ...sale, submitterId: 'supplier_1', grossTotal: -10, stripeFee: -0.24, freshWaxFee: -0.1,
+      refundId: 're_1', refundOf: 'ledger_1',
+    });
+    expect(entries.get('refund:ledger_2')?.lines.some(l => l.account === 'supplier_payable')).toBe(true);
+    expect(await balance('supplier_1')).toBe(9.66);
+
+    await postPayoutToJournal(db, { payoutId: 'tr_1', sellerId: 'supplier_1', sellerKind: 'supplier', amount: 9.66, method: 'stripe' });
+    expect(await balance('supplier_1')).toBe(0);
+    expect(await accountTotal(JOURNAL_ACCOUNTS.platformRevenue)).toBe(-0.1);
+    expect((await getTrialBalance(db)).balanced).toBe(true);
+  });
+
+  it('books each seller of a multi-seller sale on the right payable account', async () => {
+    await recordMultiSellerSale({
+      orderId: 'order_2', orderNumber: 'FW-2', customerEmail: 'a@b.com', grossTotal: 45,
+      stripeFee: 0.9, freshWaxFee: 0.45, paymentMethod: 'stripe', db: db as never,
+      items: [
+        { releaseId: 'rel_1', type: 'digital', price: 10, submitterId: 'label_1' },
+        { productId: 'merch_1', type: 'merch', price: 20, submitterId: 'supplier_1' },
+        { id: 'listing_1', sellerId: 'crate_1', type: 'vinyl', price: 10, submitterId: 'crate_1' },
+        { id: 'tee_2', type: 'merch', price: 5 },
+      ],
+    });
+
+    const payable = (id: string) => entries.get(id)?.lines.find(l => l.memo === 'sale')?.account;
+    expect(payable('sale:ledger_1')).toBe('artist_payable');
+    expect(payable('sale:ledger_2')).toBe('supplier_payable');
+    expect(payable('sale:ledger_3')).toBe('crate_seller_payable');
+    // Items with no seller go straight to platform revenue
+    expect(entries.get('sale:order_2:platform')?.lines).toEqual([
+      expect.objectContaining({ account: 'processor_clearing', partyId: 'stripe', debitPence: 500 }),
+      expect.objectContaining({ account: 'platform_revenue', creditPence: 500 }),
+    ]);
+    expect((await getTrialBalance(db)).balanced).toBe(true);
+  });
+});
+
+describe('disputes', () => {
+  beforeEach(async () => {
+    await postLedgerEntryToJournal(db, 'ledger_1', sale, 'artist');
+    await postPayoutToJournal(db, { payoutId: 'tr_1', sellerId: 'label_1', sellerKind: 'artist', amount: 19.32, method: 'stripe' });
+    await postDisputeOpened(db, { disputeId: 'dp_1', orderId: 'order_1', amount: 20 });
+    await postDisputeRecovery(db, {
+      disputeId: 'dp_1', reversalId: 'trr_1', sellerId: 'label_1', sellerKind: 'artist', amount: 19.32, orderId: 'order_1',
+    });
+  });
+
+  it('holds the recovered transfer against the seller while open', async () => {
+    expect(await balance('label_1')).toBe(19.32);
+    expect(await accountTotal(JOURNAL_ACCOUNTS.disputesOutstanding)).toBe(20);
+  });
+
+  it('charges the seller and absorbs the rest when lost', async () => {
+    await postDisputeClosed(db, {
+      disputeId: 'dp_1', amount: 20, outcome: 'lost',
+      recovered: [{ sellerId: 'label_1', sellerKind: 'artist', amount: 19.32 }],
+    });
+    expect(await balance('label_1')).toBe(0);
+    expect(await accountTotal(JOURNAL_ACCOUNTS.disputesOutstanding)).toBe(0);
+    expect(await accountTotal(JOURNAL_ACCOUNTS.disputeLosses)).toBe(0.68);
+    expect((await getTrialBalance(db)).balanced).toBe(true);
+  });
+
+  it('returns the funds when won, and the re-transfer settles the seller', async () => {
+    await postDisputeClosed(db, { disputeId: 'dp_1', amount: 20, outcome: 'won', recovered: [] });
+    await postPayoutToJournal(db, { payoutId: 'tr_2', sellerId: 'label_1', sellerKind: 'artist', amount: 19.32, method: 'stripe' });
+    expect(await balance('label_1')).toBe(0);
+    expect(await accountTotal(JOURNAL_ACCOUNTS.disputesOutstanding)).toBe(0);
+    expect((await getTrialBalance(db)).balanced).toBe(true);
+  });
+});
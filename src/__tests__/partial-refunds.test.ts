@@ -0,0 +1,251 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { coll, resetFirestore, write } from './firestore-fake';
+import type { Doc } from './firestore-fake';
+
+// Line-item refunds unwind a sale piece by piece: these check the refund
+// plan tracks quantities across refunds, the ledger gets a scaled negative
+// row per seller, royalties reverse per unit, and artist payouts are reduced
+// while unpaid or clawed back from the next payout once sent.
+vi.mock('../lib/firebase-rest', async () => (await import('./firestore-fake')).firebaseRestFake());
+
+const d1GetLedgerEntriesByOrder = vi.fn(async (..._a: unknown[]): Promise<Doc[]> => []);
+const d1GetRoyaltiesByOrder = vi.fn(async (..._a: unknown[]): Promise<Doc[]> => []);
+const d1RecordRoyalty = vi.fn(async (..._a: unknown[]) => true);
+vi.mock('../lib/d1-catalog', () => ({
+  d1InsertLedgerEntry: vi.fn(async () => true),
+  d1GetLedgerEntries: vi.fn(async () => []),
+  d1GetLedgerEntriesByOrder: (...a: unknown[]) => d1GetLedgerEntriesByOrder(...a),
+  d1GetRoyaltiesByOrder: (...a: unknown[]) => d1GetRoyaltiesByOrder(...a),
+  d1RecordRoyalty: (...a: unknown[]) => d1RecordRoyalty(...a),
+}));
+
+const refundOrderStock = vi.fn(async (..._a: unknown[]) => ({ failedRefunds: [] }));
+vi.mock('../lib/order/refund', () => ({ refundOrderStock: (...a: unknown[]) => refundOrderStock(...a) }));
+
+const reverseAdvanceRecoupments = vi.fn(async (..._a: unknown[]) => 0);
+vi.mock('../lib/advances', () => ({ reverseAdvanceRecoupments: (...a: unknown[]) => reverseAdvanceRecoupments(...a) }));
+
+const mockRefundsCreate = vi.fn(async (params: { amount: number; metadata?: Record<string, string> }) => ({ id: `re_${params.amount}`, charge: 'ch_1' }));
+vi.mock('stripe', () => ({
+  default: function MockStripe() {
+    return { refunds: { create: mockRefundsCreate } };
+  },
+}));
+vi.mock('../lib/admin', () => ({ requireAdminAuth: vi.fn(async () => null) }));
+vi.mock('../lib/rate-limit', () => ({
+  checkRateLimit: vi.fn(() => ({ allowed: true })),
+  getClientId: vi.fn(() => 'test'),
+  rateLimitResponse: vi.fn(),
+  RateLimiters: { adminDelete: {} },
+}));
+
+const { planLineRefund, planRemainingRefund, settleLineRefund } = await import('../lib/order/partial-refund');
+const { handleRefund } = await import('../lib/stripe-webhook/refund');
+const { recordRefundEntries } = await import('../lib/sales-ledger');
+const { applyPayoutClawbacks, CLAWBACK_COLLECTION } = await import('../lib/order/seller-payments/clawbacks');
+const { POST: processRefund } = await import('../pages/api/admin/process-refund');
+
+const vinyl = { id: 'rel_1', releaseId: 'rel_1', type: 'vinyl', name: 'Stamp Series 12"', price: 12, quantity: 2 };
+const digital = { id: 'rel_2', releaseId: 'rel_2', type: 'digital', name: 'Night Bus EP', price: 6, quantity: 1 };
+const tee = { id: 'tee_1', productId: 'tee_1', type: 'merch', name: 'Logo Tee', price: 20, quantity: 1, size: 'M' };
+const order = {
+  orderNumber: 'FW-1',
+  items: [vinyl, digital, tee],
+  totals: { subtotal: 50, shipping: 4.99, total: 54.99 },
+};
+
+const db = {} as never;
+const env = { DB: db };
+const all = (collection: string) => [...coll(collection).values()];
+
+beforeEach(() => {
+  resetFirestore();
+  refundOrderStock.mockClear();
+  d1RecordRoyalty.mockClear();
+  d1GetLedgerEntriesByOrder.mockReset().mockResolvedValue([]);
+  d1GetRoyaltiesByOrder.mockReset().mockResolvedValue([]);
+  write('releases', 'rel_1', { artistId: 'artist_a' });
+  write('releases', 'rel_2', { artistId: 'artist_b' });
+});
+
+describe('planLineRefund', () => {
+  it('prices the lines, defaults restock for physical goods and adds shipping once', () => {
+    const { plan } = planLineRefund(order, [{ id: 'rel_1', quantity: 1 }, { id: 'rel_2' }], { refundShipping: true });
+    expect(plan?.lines.map(l => [l.index, l.quantity, l.restock, l.amount])).toEqual([[0, 1, true, 12], [1, 1, false, 6]]);
+    expect(plan?.amount).toBe(22.99);
+    expect(plan?.refundedQuantities).toEqual({ 0: 1, 1: 1 });
+
+    const again = planLineRefund({ ...order, refundedQuantities: plan?.refundedQuantities, shippingRefunded: true },
+      [{ id: 'rel_1', restock: false }], { refundShipping: true });
+    expect(again.plan).toMatchObject({ amount: 12, shipping: 0, refundedQuantities: { 0: 2, 1: 1 } });
+    expect(again.plan?.lines[0]?.restock).toBe(false);
+  });
+
+  it('refuses quantities that were already refunded', () => {
+    const refunded = { ...order, refundedQuantities: { 0: 2 } };
+    expect(planLineRefund(refunded, [{ id: 'rel_1' }]).error).toMatch(/No refundable line/);
+    expect(planLineRefund(order, [{ id: 'rel_1', quantity: 3 }]).error).toMatch(/2 left to refund/);
+  });
+
+  it('plans a full refund as every remaining line plus shipping', () => {
+    const { plan } = planRemainingRefund({ ...order, refundedQuantities: { 0: 1 } });
+    expect(plan?.lines.map(l => [l.item.id, l.quantity])).toEqual([['rel_1', 1], ['rel_2', 1], ['tee_1', 1]]);
+    expect(plan?.amount).toBe(42.99);
+  });
+});
+
+describe('recordRefundEntries', () => {
+  it('writes a negative row per seller, scaled to the refunded share', async () => {
+    d1GetLedgerEntriesByOrder.mockResolvedValue([{
+      id: 'sale_a', orderId: 'order_1', orderNumber: 'FW-1', submitterId: 'artist_a', artistId: 'artist_a',
+      subtotal: 24, shipping: 4.99, discount: 0, grossTotal: 28.99, stripeFee: 0.6, paypalFee: 0, freshWaxFee: 0.24,
+      totalFees: 0.84, netRevenue: 28.15, artistPayout: 28.15, vat: 4.83, paymentMethod: 'stripe', currency: 'GBP',
+      items: [{ type: 'vinyl', id: 'rel_1', title: 'Stamp Series 12"', quantity: 2, unitPrice: 12, lineTotal: 24 }],
+    }]);
+
+    await recordRefundEntries({ orderId: 'order_1', refundId: 're_1', items: [{ ...vinyl, quantity: 1 }], refundShipping: false, db });
+
+    const [row] = all('salesLedger');
+    expect(row).toMatchObject({
+      refundId: 're_1', refundOf: 'sale_a', submitterId: 'artist_a',
+      subtotal: -12, shipping: 0, grossTotal: -12, artistPayout: -11.65, netRevenue: -11.65, artistPayoutStatus: 'pending',
+      items: [{ id: 'rel_1', quantity: -1, lineTotal: -12 }],
+    });
+  });
+});
+
+describe('artist payout clawbacks', () => {
+  it('reduces a payout that has not been sent yet', async () => {
+    write('pendingPayouts', 'pp_a', { orderId: 'order_1', artistId: 'artist_a', status: 'pending', amount: 28.15, itemAmount: 23.16, shippingAmount: 4.99 });
+    write('artists', 'artist_a', { pendingBalance: 28.15 });
+
+    const { plan } = planLineRefund(order, [{ id: 'rel_1', quantity: 1 }]);
+    const result = await settleLineRefund({ orderId: 'order_1', order, plan: plan as never, refundId: 're_1', env });
+
+    expect(result.clawbacks).toEqual([{ artistId: 'artist_a', amount: 11.58, fromPending: 11.58, outstanding: 0 }]);
+    expect(coll('pendingPayouts').get('pp_a')).toMatchObject({ amount: 16.57, clawedBack: 11.58, status: 'pending' });
+    expect(coll('artists').get('artist_a')?.pendingBalance).toBe(16.57);
+    expect(all(CLAWBACK_COLLECTION)).toEqual([]);
+  });
+
+  it('claws back a payout already sent from the artist\'s next payout', async () => {
+    write('payouts', 'po_b', { orderId: 'order_1', artistId: 'artist_b', entityType: 'artist', status: 'completed', amount: 5.72, itemAmount: 5.72, shippingAmount: 0 });
+
+    const { plan } = planLineRefund(order, [{ id: 'rel_2' }]);
+    await settleLineRefund({ orderId: 'order_1', order, plan: plan as never, refundId: 're_1', env });
+
+    expect(all(CLAWBACK_COLLECTION)).toEqual([expect.objectContaining({ artistId: 'artist_b', outstanding: 5.72, status: 'outstanding' })]);
+    expect(coll('artists').get('artist_b')?.clawbackBalance).toBe(5.72);
+
+    // The next sale pays £4 — all of it goes to the clawback, then the rest
+    expect(await applyPayoutClawbacks('artist_b', 4)).toEqual({ amount: 0, clawedBack: 4 });
+    expect(await applyPayoutClawbacks('artist_b', 10)).toEqual({ amount: 8.28, clawedBack: 1.72 });
+    expect(all(CLAWBACK_COLLECTION)[0]).toMatchObject({ outstanding: 0, status: 'settled' });
+    expect(coll('artists').get('artist_b')?.clawbackBalance).toBe(0);
+  });
+});
+
+describe('settleLineRefund', () => {
+  it('restocks only the lines marked for it and reverses brand royalties per unit', async () => {
+    d1GetRoyaltiesByOrder.mockResolvedValue([{
+      id: 'roy_1', item_id: 'tee_1', brand_account_id: 'brand_1', brand_name: 'Dub Co', item_name: 'Logo Tee',
+      quantity: 1, sale_total: 20, royalty_pct: 10, royalty_amount: 2, freshwax_amount: 18,
+    }]);
+    const { plan } = planLineRefund(order, [{ id: 'rel_1', quantity: 1, restock: false }, { id: 'tee_1' }]);
+
+    await settleLineRefund({ orderId: 'order_1', order, plan: plan as never, refundId: 're_9', env });
+
+    expect(refundOrderStock).toHaveBeenCalledTimes(1);
+    expect(refundOrderStock.mock.calls[0]?.[1]).toEqual([expect.objectContaining({ id: 'tee_1', quantity: 1 })]);
+    expect(d1RecordRoyalty).toHaveBeenCalledWith(db, expect.objectContaining({
+      id: 'roy_order_1_tee_1_re_9', quantity: -1, saleTotal: -20, royaltyAmount: -2, freshwaxAmount: -18,
+    }));
+    expect(coll('merch-suppliers').get('brand_1')?.pendingBalance).toBe(-2);
+  });
+});
+
+describe('refunds on a EUR order', () => {
+  // Charged at 1.17: €14.04 ×2 + €7.02 + €23.40 + €5.84 shipping
+  const eurOrder = { ...order, paymentIntentId: 'pi_eur', currency: 'EUR', fxRate: 1.17, presentmentTotal: 64.34 };
+
+  const refund = async (body: Record<string, unknown>) => {
+    const request = new Request('http://localhost/api/admin/process-refund/', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ orderId: 'order_eur', ...body }),
+    });
+    const response = await processRefund({ request, locals: { runtime: { env: { STRIPE_SECRET_KEY: 'sk_test', DB: db } } } } as never);
+    return { status: response.status, refunded: mockRefundsCreate.mock.calls.at(-1)?.[0]?.amount };
+  };
+
+  beforeEach(() => {
+    mockRefundsCreate.mockClear();
+    write('orders', 'order_eur', eurOrder);
+  });
+
+  it('refunds a line in euro cents', async () => {
+    expect(await refund({ refundItems: [{ id: 'rel_1', quantity: 1 }] })).toEqual({ status: 200, refunded: 1404 });
+    expect(coll('orders').get('order_eur')).toMatchObject({ refundedAmount: 12, refundedPresentmentAmount: 14.04, refundStatus: 'partial' });
+    expect(all('refunds')[0]).toMatchObject({ amount: 12, presentmentCurrency: 'EUR', presentmentAmount: 14.04 });
+  });
+
+  it('converts the shipping with the lines', async () => {
+    expect(await refund({ refundItems: [{ id: 'tee_1' }], refundShipping: true })).toEqual({ status: 200, refunded: 2924 });
+  });
+
+  it('returns exactly what is left of the charge on a remaining-balance refund', async () => {
+    await refund({ refundItems: [{ id: 'rel_1', quantity: 1 }] });
+    expect(await refund({ amount: 'full' })).toEqual({ status: 200, refunded: 5030 });
+    expect(coll('orders').get('order_eur')).toMatchObject({ refundedAmount: 54.99, refundedPresentmentAmount: 64.34, refundStatus: 'full' });
+  });
+});
+
+describe('an admin line refund and its charge.refunded webhook', () => {
+  const refundLine = async () => {
+    const request = new Request('http://localhost/api/admin/process-refund/', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ orderId: 'order_1', refundItems: [{ id: 'rel_1', quantity: 1 }] }),
+    });
+    return processRefund({ request, locals: { runtime: { env: { STRIPE_SECRET_KEY: 'sk_test', DB: db } } } } as never);
+  };
+
+  // The event Stripe sends for the refund process-refund just created
+  const webhookCharge = () => ({
+    id: 'ch_1',
+    amount: 5499,
+    amount_refunded: 1200,
+    payment_intent: 'pi_1',
+    refunds: { data: [{ id: 're_1200', amount: 1200, status: 'succeeded', metadata: mockRefundsCreate.mock.calls.at(-1)?.[0]?.metadata }] },
+  });
+
+  beforeEach(() => {
+    mockRefundsCreate.mockClear();
+    reverseAdvanceRecoupments.mockClear();
+    write('orders', 'order_1', { ...order, paymentIntentId: 'pi_1' });
+    write('pendingPayouts', 'pp_a', { orderId: 'order_1', artistId: 'artist_a', status: 'scheduled', amount: 28.15, itemAmount: 23.16, shippingAmount: 4.99 });
+    write('artists', 'artist_a', { pendingBalance: 28.15 });
+  });
+
+  it('claws the artist back once', async () => {
+    expect((await refundLine()).status).toBe(200);
+    await handleRefund(webhookCharge(), 'sk_test', env as never);
+
+    expect(coll('pendingPayouts').get('pp_a')).toMatchObject({ amount: 16.57, clawedBack: 11.58, status: 'scheduled' });
+    expect(coll('artists').get('artist_a')?.pendingBalance).toBe(16.57);
+    expect(all('refunds')).toEqual([expect.objectContaining({ stripeRefundId: 're_1200', stripeChargeId: 'ch_1', payoutsSettled: true })]);
+    expect(reverseAdvanceRecoupments).toHaveBeenCalledTimes(1);
+    expect(reverseAdvanceRecoupments).toHaveBeenCalledWith(db, expect.objectContaining({ orderId: 'order_1', refundId: 're_1200' }));
+  });
+
+  it('still settles a refund made in the Stripe dashboard, once per refund', async () => {
+    const charge = { ...webhookCharge(), refunds: { data: [{ id: 're_dash', amount: 1200, status: 'succeeded', metadata: {} }] } };
+    await handleRefund(charge, 'sk_test', env as never);
+    await handleRefund(charge, 'sk_test', env as never);
+
+    expect(coll('pendingPayouts').get('pp_a')).toMatchObject({ amount: 22.01, reducedByRefund: true, status: 'scheduled' });
+    expect(all('refunds')).toEqual([expect.objectContaining({ stripeChargeId: 'ch_1', stripeRefundIds: ['re_dash'] })]);
+    expect(reverseAdvanceRecoupments).toHaveBeenCalledTimes(1);
+    expect(reverseAdvanceRecoupments).toHaveBeenCalledWith(db, { orderId: 'order_1', refundId: 're_dash', shares: 1200 / 5499 });
+  });
+});
@@ -77,13 +77,13 @@ const ARTISTS: Record<string, Record<string, unknown>> = {
   ulair: { artistName: 'Underground Lair', email: 'ul@fw.uk' },
 };
 const USERS: Record<string, Record<string, unknown>> = {
-  krotos: { displayName: 'Krotos', email: 'krotos@fw.uk', stripeConnectId: 'acct_krotos', payoutMethod: 'stripe' },
+  krotos: { displayName: 'Krotos', email: 'krotos@fw.uk', stripeConnectId: 'acct_krotos', stripeConnectStatus: 'active', payoutMethod: 'stripe' },
 };
 const MERCH: Record<string, Record<string, unknown>> = {
   prod_tee: { supplierId: 'sup_x', name: 'Tee' },
 };
 const SUPPLIERS: Record<string, Record<string, unknown>> = {
-  sup_x: { name: 'Supplier X', email: 'sup@fw.uk', stripeConnectId: 'acct_supx', payoutMethod: 'stripe' },
+  sup_x: { name: 'Supplier X', email: 'sup@fw.uk', stripeConnectId: 'acct_supx', stripeConnectStatus: 'active', payoutMethod: 'stripe' },
 };
 
 function wireFirestore() {
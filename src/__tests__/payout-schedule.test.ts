@@ -0,0 +1,363 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+// Sellers on a weekly / monthly schedule accrue their sales as `scheduled`
+// pending-payout rows; the scheduled-payouts cron pays each seller's rows in
+// one transfer once their cycle is due and the balance reaches their minimum.
+// Firestore, D1, the processors and email are replaced by in-memory stubs.
+const docs = new Map<string, Record<string, unknown>>();
+const updates: Array<{ collection: string; id: string; data: Record<string, unknown> }> = [];
+const added: Array<{ collection: string; data: Record<string, unknown> }> = [];
+const increments: Array<{ collection: string; id: string; data: Record<string, number> }> = [];
+let failNextSetIn: string | null = null;
+
+vi.mock('../lib/firebase-rest', () => ({
+  getDocument: vi.fn(async (collection: string, id: string) => docs.get(`${collection}/${id}`) || null),
+  updateDocument: vi.fn(async (collection: string, id: string, data: Record<string, unknown>) => {
+    updates.push({ collection, id, data });
+    docs.set(`${collection}/${id}`, { ...(docs.get(`${collection}/${id}`) || {}), ...data });
+  }),
+  setDocument: vi.fn(async (collection: string, id: string, data: Record<string, unknown>) => {
+    if (failNextSetIn === collection) {
+      failNextSetIn = null;
+      throw new Error('Firestore unavailable');
+    }
+    added.push({ collection, data });
+    docs.set(`${collection}/${id}`, { id, ...data });
+  }),
+  addDocument: vi.fn(async (collection: string, data: Record<string, unknown>) => {
+    added.push({ collection, data });
+    const id = `${collection}_${added.length}`;
+    docs.set(`${collection}/${id}`, { id, ...data });
+    return { id };
+  }),
+  atomicIncrement: vi.fn(async (collection: string, id: string, data: Record<string, number>) => {
+    increments.push({ collection, id, data });
+  }),
+  queryCollection: vi.fn(async (collection: string, options: { filters?: Array<{ field: string; value: unknown }> }) => {
+    const status = options.filters?.find(f => f.field === 'status')?.value;
+    return [...docs.entries()]
+      .filter(([key, doc]) => key.startsWith(`${collection}/`) && (status === undefined || doc.status === status))
+      .map(([, doc]) => doc);
+  }),
+}));
+
+const journal = new Map<string, Array<{ account: string; partyId: string | null; debitPence: number }>>();
+vi.mock('../lib/d1/journal', () => ({
+  MAX_JOURNAL_LINES: 14,
+  d1InsertJournalEntry: vi.fn(async (_db: unknown, entry: { id: string; lines: [] }) => {
+    journal.set(entry.id, entry.lines);
+    return true;
+  }),
+  d1GetJournalLines: vi.fn(async () => []),
+  d1GetJournalBalances: vi.fn(async () => []),
+}));
+
+const ledgerByOrder = new Map<string, Array<Record<string, unknown>>>();
+vi.mock('../lib/d1-catalog', () => ({
+  d1GetLedgerEntriesByOrder: vi.fn(async (_db: unknown, orderId: string) => ledgerByOrder.get(orderId) || []),
+}));
+
+const mockTransfersCreate = vi.fn(async () => ({ id: 'tr_batch' }));
+vi.mock('stripe', () => ({
+  default: function MockStripe() {
+    return { transfers: { create: mockTransfersCreate } };
+  },
+}));
+const mockCreatePayout = vi.fn(async (_config: unknown, recipient: { amount: number }) => ({
+  success: true, batchId: 'pp_batch', payoutItemId: 'item_1', gross: recipient.amount, fee: 0.2, net: Math.round((recipient.amount - 0.2) * 100) / 100,
+}));
+vi.mock('../lib/paypal-payouts', () => ({
+  createPayout: mockCreatePayout,
+  getPayPalConfig: vi.fn(() => ({ clientId: 'id', clientSecret: 'secret', sandbox: true })),
+}));
+const mockStatementEmail = vi.fn(async (..._args: unknown[]) => ({ success: true }));
+vi.mock('../lib/payout-emails', () => ({
+  sendPayoutCompletedEmail: vi.fn(async () => ({ success: true })),
+  sendPayoutStatementEmail: mockStatementEmail,
+}));
+vi.mock('../lib/error-logger', () => ({ logError: vi.fn(async () => undefined) }));
+
+const {
+  getPayoutSchedule, payoutCycleStart, isPayoutCycleDue, buildPayoutStatement, runScheduledPayouts,
+} = await import('../lib/payout-schedule');
+const { processArtistPayments } = await import('../lib/order/seller-payments/artist-payments');
+const { processMerchSupplierPayments } = await import('../lib/order/seller-payments/merch-payments');
+const { processVinylCrateSellerPayments } = await import('../lib/order/seller-payments/vinyl-payments');
+
+const env = { DB: {}, STRIPE_SECRET_KEY: 'sk_test', RESEND_API_KEY: 're_test' } as Record<string, unknown>;
+
+// Wednesday 21 Oct 2026; the weekly cycle started Monday 19th
+const now = new Date('2026-10-21T06:00:00Z');
+
+function scheduledRow(id: string, orderId: string, amount: number, extra: Record<string, unknown> = {}) {
+  docs.set(`pendingPayouts/${id}`, {
+    id, artistId: 'artist_1', artistName: 'Code One', orderId, orderNumber: orderId.toUpperCase(),
+    amount, itemAmount: amount, shippingAmount: 0, clawbackDeducted: 0,
+    status: 'scheduled', createdAt: '2026-10-14T12:00:00Z', ...extra,
+  });
+}
+
+beforeEach(() => {
+  docs.clear();
+  updates.length = 0;
+  added.length = 0;
+  increments.length = 0;
+  failNextSetIn = null;
+  journal.clear();
+  ledgerByOrder.clear();
+  mockTransfersCreate.mockClear();
+  mockCreatePayout.mockClear();
+  mockStatementEmail.mockClear();
+  docs.set('artists/artist_1', {
+    artistName: 'Code One', email: 'code@example.com',
+    stripeConnectId: 'acct_1', stripeConnectStatus: 'active',
+    payoutSchedule: { cadence: 'weekly', minimum: 10 },
+    payoutCycleRunAt: '2026-10-12T06:00:00Z',
+  });
+});
+
+describe('payout cycles', () => {
+  it('defaults to per-order payouts and clamps the minimum', () => {
+    expect(getPayoutSchedule({})).toEqual({ cadence: 'per_order', minimum: 10 });
+    expect(getPayoutSchedule({ payoutSchedule: { cadence: 'monthly', minimum: 9999 } })).toEqual({ cadence: 'monthly', minimum: 500 });
+  });
+
+  it('starts weeks on Monday and months on the 1st, and is due once per cycle', () => {
+    expect(payoutCycleStart('weekly', now).toISOString()).toBe('2026-10-19T00:00:00.000Z');
+    expect(payoutCycleStart('monthly', now).toISOString()).toBe('2026-10-01T00:00:00.000Z');
+    expect(isPayoutCycleDue('weekly', '2026-10-12T06:00:00Z', now)).toBe(true);
+    expect(isPayoutCycleDue('weekly', '2026-10-19T06:00:00Z', now)).toBe(false);
+    expect(isPayoutCycleDue('monthly', '2026-10-01T06:00:00Z', now)).toBe(false);
+  });
+});
+
+describe('buildPayoutStatement', () => {
+  it('lists every sale, fee, refund and payout fee and adds up to what is paid', () => {
+    ledgerByOrder.set('ord_1', [
+      { orderId: 'ord_1', submitterId: 'artist_1', grossTotal: 5 },
+      { orderId: 'ord_1', submitterId: 'someone_else', grossTotal: 20 },
+      { orderId: 'ord_1', submitterId: 'artist_1', grossTotal: -5, refundId: 're_1' },
+    ]);
+    const rows = [
+      { orderId: 'ord_1', orderNumber: 'FW-1', itemAmount: 4.73, shippingAmount: 0, clawbackDeducted: 0, amount: 4.73, createdAt: '2026-10-13T10:00:00Z' },
+      // Partially refunded after the sale, and netted an earlier clawback
+      { orderId: 'ord_2', orderNumber: 'FW-2', itemAmount: 9, shippingAmount: 1, clawbackDeducted: 1.5, amount: 6.5, createdAt: '2026-10-14T10:00:00Z' },
+    ];
+    const statement = buildPayoutStatement(rows, ledgerByOrder, 'artist_1', 0.2, now);
+
+    expect(statement.lines.map(l => [l.kind, l.amount])).toEqual([
+      ['sale', 5], ['fee', -0.27],
+      ['sale', 10], ['refund', -2], ['clawback', -1.5],
+      ['payout_fee', -0.2],
+    ]);
+    expect(statement.totals).toEqual({ sales: 15, fees: 0.27, refunds: 2, clawbacks: 1.5, recoupments: 0, payoutFee: 0.2, net: 11.03 });
+    expect(statement.orderCount).toBe(2);
+    expect(statement.periodStart).toBe('2026-10-13T10:00:00Z');
+  });
+});
+
+describe('runScheduledPayouts', () => {
+  it('pays a due artist once for all their accrued sales', async () => {
+    scheduledRow('pp_1', 'ord_1', 4.5);
+    scheduledRow('pp_2', 'ord_2', 7.25);
+
+    const results = await runScheduledPayouts(env, now);
+
+    expect(results).toEqual([expect.objectContaining({ kind: 'artist', sellerId: 'artist_1', outcome: 'paid', amount: 11.75, rows: 2 })]);
+    expect(mockTransfersCreate).toHaveBeenCalledTimes(1);
+    expect(mockTransfersCreate).toHaveBeenCalledWith(
+      expect.objectContaining({ amount: 1175, destination: 'acct_1' }),
+      { idempotencyKey: 'sched-artist_1-2026-10-19-1175' }
+    );
+    expect(docs.get('pendingPayouts/pp_1')?.status).toBe('completed');
+    expect(docs.get('pendingPayouts/pp_2')?.payoutId).toBe('tr_batch');
+
+    const payout = added.find(a => a.collection === 'payouts')?.data;
+    expect(payout).toMatchObject({ artistId: 'artist_1', amount: 11.75, scheduled: true, stripeTransferId: 'tr_batch' });
+    expect(added.filter(a => a.collection === 'payoutStatements')).toHaveLength(1);
+    expect(journal.has('payout:tr_batch')).toBe(true);
+    expect(increments).toContainEqual({ collection: 'artists', id: 'artist_1', data: { totalEarnings: 11.75, pendingBalance: -11.75 } });
+    expect(docs.get('artists/artist_1')?.payoutCycleRunAt).toBe(now.toISOString());
+    expect(mockStatementEmail).toHaveBeenCalledWith('code@example.com', 'Code One', expect.objectContaining({ orderCount: 2 }), env, '/artist/payouts');
+
+    // Already paid this cycle: the next day's run does nothing
+    scheduledRow('pp_3', 'ord_3', 20);
+    const next = await runScheduledPayouts(env, new Date('2026-10-22T06:00:00Z'));
+    expect(next[0]?.outcome).toBe('not_due');
+    expect(mockTransfersCreate).toHaveBeenCalledTimes(1);
+  });
+
+  it('carries a balance under the minimum over to the next cycle', async () => {
+    scheduledRow('pp_1', 'ord_1', 4.5);
+
+    const results = await runScheduledPayouts(env, now);
+
+    expect(results[0]?.outcome).toBe('below_minimum');
+    expect(mockTransfersCreate).not.toHaveBeenCalled();
+    expect(docs.get('pendingPayouts/pp_1')?.status).toBe('scheduled');
+    expect(docs.get('artists/artist_1')?.payoutCycleRunAt).toBe(now.toISOString());
+  });
+
+  it('pays PayPal artists with a single payout fee and leaves rows scheduled when the payout fails', async () => {
+    docs.set('artists/artist_1', { ...docs.get('artists/artist_1'), payoutMethod: 'paypal', paypalEmail: 'code@paypal.test' });
+    scheduledRow('pp_1', 'ord_1', 6);
+    scheduledRow('pp_2', 'ord_2', 6);
+
+    mockCreatePayout.mockResolvedValueOnce({ success: false, error: 'INTERNAL_SERVICE_ERROR' } as never);
+    expect((await runScheduledPayouts(env, now))[0]?.outcome).toBe('failed');
+    expect(docs.get('pendingPayouts/pp_1')?.status).toBe('scheduled');
+    expect(added.filter(a => a.collection === 'payouts')).toHaveLength(0);
+
+    const [result] = await runScheduledPayouts(env, now);
+    expect(result).toMatchObject({ outcome: 'paid', amount: 11.8, payoutId: 'pp_batch' });
+    expect(mockCreatePayout).toHaveBeenLastCalledWith(expect.anything(), expect.objectContaining({ email: 'code@paypal.test', amount: 12 }));
+    expect(mockStatementEmail.mock.calls[0]?.[2]).toMatchObject({ totals: expect.objectContaining({ payoutFee: 0.2, net: 11.8 }) });
+  });
+
+  it('stops paying a PayPal email that PayPal rejects and falls back to Stripe', async () => {
+    docs.set('artists/artist_1', { ...docs.get('artists/artist_1'), payoutMethod: 'paypal', paypalEmail: 'code@paypal.test' });
+    scheduledRow('pp_1', 'ord_1', 6);
+    scheduledRow('pp_2', 'ord_2', 6);
+
+    mockCreatePayout.mockResolvedValueOnce({ success: false, error: 'RECEIVER_UNREGISTERED' } as never);
+    expect((await runScheduledPayouts(env, now))[0]?.outcome).toBe('failed');
+    expect(docs.get('artists/artist_1')?.paypalVerification).toBe('rejected');
+
+    const [result] = await runScheduledPayouts(env, now);
+    expect(result).toMatchObject({ outcome: 'paid', payoutId: 'tr_batch' });
+    expect(mockCreatePayout).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('runScheduledPayouts after a run dies mid-cycle', () => {
+  it('keeps the transfer on the rows and books it once on the next run', async () => {
+    scheduledRow('pp_1', 'ord_1', 4.5);
+    scheduledRow('pp_2', 'ord_2', 7.25);
+    failNextSetIn = 'payoutStatements';
+
+    const [first] = await runScheduledPayouts(env, now);
+    expect(first).toMatchObject({ outcome: 'unrecorded', payoutId: 'tr_batch', amount: 11.75 });
+    expect(docs.get('pendingPayouts/pp_1')).toMatchObject({ status: 'processing', payoutId: 'tr_batch', batchKey: 'sched-artist_1-2026-10-19-1175' });
+    expect(added.filter(a => a.collection === 'payouts')).toHaveLength(0);
+    expect(increments).toHaveLength(0);
+
+    const results = await runScheduledPayouts(env, new Date('2026-10-21T08:00:00Z'));
+    expect(results).toEqual([expect.objectContaining({ outcome: 'paid', payoutId: 'tr_batch', amount: 11.75, rows: 2 })]);
+    expect(mockTransfersCreate).toHaveBeenCalledTimes(1);
+    expect(docs.get('pendingPayouts/pp_2')).toMatchObject({ status: 'completed', statementId: 'sched-artist_1-2026-10-19-1175' });
+    expect(added.filter(a => a.collection === 'payouts')).toEqual([
+      expect.objectContaining({ data: expect.objectContaining({ amount: 11.75, stripeTransferId: 'tr_batch' }) }),
+    ]);
+    expect(increments).toEqual([{ collection: 'artists', id: 'artist_1', data: { totalEarnings: 11.75, pendingBalance: -11.75 } }]);
+    expect(journal.has('payout:tr_batch')).toBe(true);
+  });
+
+  it('sends an unnoted transfer again under the same key and leaves per-order retries alone', async () => {
+    const processing = { status: 'processing', batchKey: 'sched-artist_1-2026-10-19-1175', payoutMethod: 'stripe', updatedAt: '2026-10-20T06:00:00Z' };
+    scheduledRow('pp_1', 'ord_1', 4.5, processing);
+    scheduledRow('pp_2', 'ord_2', 7.25, processing);
+    scheduledRow('pp_3', 'ord_3', 9, { status: 'processing', updatedAt: '2026-10-20T06:00:00Z' });
+
+    const results = await runScheduledPayouts(env, now);
+
+    expect(results).toEqual([expect.objectContaining({ outcome: 'paid', payoutId: 'tr_batch', rows: 2 })]);
+    expect(mockTransfersCreate).toHaveBeenCalledWith(
+      expect.objectContaining({ amount: 1175 }),
+      { idempotencyKey: 'sched-artist_1-2026-10-19-1175' }
+    );
+    expect(docs.get('pendingPayouts/pp_1')?.status).toBe('completed');
+    expect(docs.get('pendingPayouts/pp_3')?.status).toBe('processing');
+  });
+});
+
+describe('processArtistPayments for a scheduled artist', () => {
+  it('accrues the sale instead of transferring it', async () => {
+    docs.set('releases/rel_1', { artistId: 'artist_1', artistName: 'Code One' });
+
+    await processArtistPayments({
+      orderId: 'ord_9',
+      orderNumber: 'FW-9',
+      items: [{ id: 'rel_1', releaseId: 'rel_1', type: 'digital', price: 5, quantity: 1 }],
+      totalItemCount: 1,
+      orderSubtotal: 5,
+      paymentMethod: 'stripe',
+      stripeSecretKey: 'sk_test',
+      env,
+    } as never);
+
+    expect(mockTransfersCreate).not.toHaveBeenCalled();
+    const pending = added.find(a => a.collection === 'pendingPayouts')?.data;
+    expect(pending).toMatchObject({ artistId: 'artist_1', status: 'scheduled' });
+  });
+});
+
+describe('scheduled merch supplier and crate seller payouts', () => {
+  beforeEach(() => {
+    docs.set('merch-suppliers/sup_1', {
+      name: 'Print Co', email: 'print@example.com',
+      stripeConnectId: 'acct_sup', stripeConnectStatus: 'active',
+      payoutSchedule: { cadence: 'monthly', minimum: 10 },
+      payoutCycleRunAt: '2026-09-01T06:00:00Z',
+    });
+    docs.set('users/seller_1', {
+      displayName: 'Crate Digger', email: 'crate@example.com',
+      stripeConnectId: 'acct_crate', stripeConnectStatus: 'active',
+      payoutSchedule: { cadence: 'weekly', minimum: 5 },
+      payoutCycleRunAt: '2026-10-12T06:00:00Z',
+    });
+  });
+
+  it('accrues supplier and crate sales instead of transferring them per order', async () => {
+    docs.set('merch/tee_1', { supplierId: 'sup_1' });
+    const base = { orderId: 'ord_7', orderNumber: 'FW-7', totalItemCount: 2, orderSubtotal: 40, paymentMethod: 'stripe', actualProcessingFee: 0, stripeSecretKey: 'sk_test', env };
+
+    await processMerchSupplierPayments({ ...base, items: [{ id: 'tee_1', type: 'merch', price: 20, quantity: 1 }] } as never);
+    await processVinylCrateSellerPayments({ ...base, items: [{ id: 'lp_1', type: 'crate', sellerId: 'seller_1', price: 20, quantity: 1, cratesShippingCost: 4 }] } as never);
+
+    expect(mockTransfersCreate).not.toHaveBeenCalled();
+    expect(added.find(a => a.collection === 'pendingSupplierPayouts')?.data).toMatchObject({ supplierId: 'sup_1', amount: 19.8, status: 'scheduled' });
+    expect(added.find(a => a.collection === 'pendingCrateSellerPayouts')?.data).toMatchObject({ sellerId: 'seller_1', amount: 23.8, shippingAmount: 4, status: 'scheduled' });
+    expect(increments).toContainEqual({ collection: 'users', id: 'seller_1', data: { pendingCrateBalance: 23.8 } });
+    expect(added.some(a => a.collection === 'supplierPayouts' || a.collection === 'crateSellerPayouts')).toBe(false);
+  });
+
+  it('pays each supplier and crate seller once per cycle with a statement', async () => {
+    for (const [id, amount] of [['ps_1', 6], ['ps_2', 8]] as const) {
+      docs.set(`pendingSupplierPayouts/${id}`, {
+        id, supplierId: 'sup_1', supplierName: 'Print Co', orderId: `ord_${id}`, orderNumber: id.toUpperCase(),
+        amount, itemAmount: amount, shippingAmount: 0, status: 'scheduled', createdAt: '2026-10-02T12:00:00Z',
+      });
+    }
+    docs.set('pendingCrateSellerPayouts/pc_1', {
+      id: 'pc_1', sellerId: 'seller_1', sellerName: 'Crate Digger', orderId: 'ord_c1', orderNumber: 'FW-C1',
+      amount: 23.8, itemAmount: 19.8, shippingAmount: 4, status: 'scheduled', createdAt: '2026-10-15T12:00:00Z',
+    });
+
+    const results = await runScheduledPayouts(env, now);
+
+    expect(results).toEqual(expect.arrayContaining([
+      expect.objectContaining({ kind: 'supplier', sellerId: 'sup_1', outcome: 'paid', amount: 14, rows: 2 }),
+      expect.objectContaining({ kind: 'crate_seller', sellerId: 'seller_1', outcome: 'paid', amount: 23.8, rows: 1 }),
+    ]));
+    expect(mockTransfersCreate).toHaveBeenCalledTimes(2);
+    expect(mockTransfersCreate).toHaveBeenCalledWith(
+      expect.objectContaining({ amount: 1400, destination: 'acct_sup' }),
+      { idempotencyKey: 'sched-sup_1-2026-10-01-1400' }
+    );
+    expect(docs.get('pendingSupplierPayouts/ps_1')?.status).toBe('completed');
+    expect(docs.get('pendingCrateSellerPayouts/pc_1')?.status).toBe('completed');
+
+    expect(added.find(a => a.collection === 'supplierPayouts')?.data).toMatchObject({ supplierId: 'sup_1', amount: 14, scheduled: true });
+    expect(added.find(a => a.collection === 'crateSellerPayouts')?.data).toMatchObject({ sellerId: 'seller_1', amount: 23.8, scheduled: true });
+    expect(added.filter(a => a.collection === 'payoutStatements').map(a => a.data.sellerKind)).toEqual(['supplier', 'crate_seller']);
+    expect(increments).toContainEqual({ collection: 'merch-suppliers', id: 'sup_1', data: { totalEarnings: 14, pendingBalance: -14 } });
+    expect(increments).toContainEqual({ collection: 'users', id: 'seller_1', data: { crateEarnings: 23.8, pendingCrateBalance: -23.8 } });
+    expect(docs.get('users/seller_1')?.lastCratePayoutAt).toBe(now.toISOString());
+    expect(mockStatementEmail).toHaveBeenCalledWith('print@example.com', 'Print Co', expect.objectContaining({ orderCount: 2 }), env, '/supplier/portal/');
+    expect(mockStatementEmail).toHaveBeenCalledWith('crate@example.com', 'Crate Digger', expect.objectContaining({ orderCount: 1 }), env, '/account/selling/');
+
+    // Nothing more is paid until the next cycle
+    expect((await runScheduledPayouts(env, new Date('2026-10-22T06:00:00Z'))).every(r => r.outcome !== 'paid')).toBe(true);
+    expect(mockTransfersCreate).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,309 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+// Seller payout verification: unverified → pending → verified → restricted,
+// derived from the seller doc, mirrored into D1 with a transition log, and
+// a throttled email when money is waiting for someone who can't be paid.
+type Account = import('../lib/d1/payout-accounts').PayoutAccount;
+type AccountEvent = import('../lib/d1/payout-accounts').PayoutAccountEvent;
+
+const accounts = new Map<string, Account>();
+const events: AccountEvent[] = [];
+const docs = new Map<string, Record<string, unknown>>();
+
+vi.mock('../lib/d1/payout-accounts', () => ({
+  d1GetPayoutAccount: vi.fn(async (_db: unknown, type: string, id: string) => accounts.get(`${type}:${id}`) || null),
+  d1UpsertPayoutAccount: vi.fn(async (_db: unknown, account: Account) => {
+    const key = `${account.entityType}:${account.entityId}`;
+    accounts.set(key, { ...account, warnedAt: accounts.get(key)?.warnedAt ?? null });
+    return true;
+  }),
+  d1InsertPayoutAccountEvent: vi.fn(async (_db: unknown, event: AccountEvent) => { events.push(event); }),
+  d1GetPayoutAccountEvents: vi.fn(async () => [...events].reverse()),
+  d1GetUnpayableAccounts: vi.fn(async () => [...accounts.values()].filter(a => a.state !== 'verified')),
+  d1CountPayoutAccountsByState: vi.fn(async () => ({ unverified: 0, pending: 0, verified: 0, restricted: 0 })),
+  d1ClaimPayoutWarning: vi.fn(async (_db: unknown, type: string, id: string) => {
+    const account = accounts.get(`${type}:${id}`);
+    if (!account || account.warnedAt) return false;
+    account.warnedAt = new Date().toISOString();
+    return true;
+  }),
+}));
+
+const mockUpdateDocument = vi.fn(async (collection: string, id: string, data: Record<string, unknown>) => {
+  docs.set(`${collection}/${id}`, { ...docs.get(`${collection}/${id}`), ...data });
+  return {};
+});
+const mockQueryCollection = vi.fn(async (..._args: unknown[]): Promise<Record<string, unknown>[]> => []);
+vi.mock('../lib/firebase-rest', () => ({
+  getDocument: vi.fn(async (collection: string, id: string) => docs.get(`${collection}/${id}`) || null),
+  addDocument: vi.fn(async () => ({ id: 'doc_1' })),
+  updateDocument: (collection: string, id: string, data: Record<string, unknown>) => mockUpdateDocument(collection, id, data),
+  queryCollection: (...args: unknown[]) => mockQueryCollection(...args),
+}));
+
+const mockSendSetupEmail = vi.fn(async (..._args: unknown[]) => ({ success: true }));
+vi.mock('../lib/payout-emails', () => ({
+  sendPayoutSetupEmail: (...args: unknown[]) => mockSendSetupEmail(...args),
+}));
+
+// Admin-triggered payouts (api/admin/trigger-payout) go through the same gate
+const mockCreatePayout = vi.fn(async (..._args: unknown[]) => ({ success: true, batchId: 'pp_1', payoutItemId: 'item_1' } as Record<string, unknown>));
+vi.mock('../lib/paypal-payouts', () => ({
+  createPayout: (...args: unknown[]) => mockCreatePayout(...args),
+  getPayPalConfig: vi.fn(() => ({ clientId: 'id', clientSecret: 'secret', sandbox: true })),
+}));
+const mockTransfersCreate = vi.fn(async (..._args: unknown[]) => ({ id: 'tr_1' }));
+vi.mock('stripe', () => ({
+  default: function MockStripe() {
+    return { transfers: { create: mockTransfersCreate } };
+  },
+}));
+vi.mock('../lib/journal', () => ({ postPayoutToJournal: vi.fn(async () => undefined) }));
+vi.mock('../lib/admin', () => ({ requireAdminAuth: vi.fn(async () => null) }));
+vi.mock('../lib/rate-limit', () => ({
+  checkRateLimit: vi.fn(() => ({ allowed: true })),
+  getClientId: vi.fn(() => 'test'),
+  rateLimitResponse: vi.fn(),
+  RateLimiters: { write: {} },
+}));
+
+const {
+  payoutStatusOf, canPayVia, syncPayoutState, recordPayoutAccountFailure,
+  createPayPalVerification, isPayPalVerificationToken, setPayoutHold, syncSellersWithUnpaidEarnings,
+} = await import('../lib/payout-verification');
+const { POST: triggerPayout } = await import('../pages/api/admin/trigger-payout');
+
+const env = { DB: {} } as Record<string, unknown>;
+
+beforeEach(() => {
+  accounts.clear();
+  events.length = 0;
+  docs.clear();
+  mockUpdateDocument.mockClear();
+  mockQueryCollection.mockReset().mockResolvedValue([]);
+  mockSendSetupEmail.mockClear();
+  mockCreatePayout.mockClear();
+  mockTransfersCreate.mockClear();
+});
+
+describe('payoutStatusOf', () => {
+  it('is unverified with no payout method', () => {
+    expect(payoutStatusOf({ artistName: 'A' })).toMatchObject({ state: 'unverified', method: null });
+  });
+
+  it('is pending while Stripe onboarding is unfinished', () => {
+    expect(payoutStatusOf({ stripeConnectId: 'acct_1', stripeConnectStatus: 'onboarding' }))
+      .toMatchObject({ state: 'pending', method: 'stripe', reason: 'Stripe onboarding not finished' });
+  });
+
+  it('is pending until a PayPal email is confirmed', () => {
+    expect(payoutStatusOf({ paypalEmail: 'a@example.com', paypalVerification: 'pending' }))
+      .toMatchObject({ state: 'pending', method: 'paypal' });
+  });
+
+  it('treats PayPal emails linked before confirmation existed as verified', () => {
+    expect(payoutStatusOf({ paypalEmail: 'a@example.com' })).toMatchObject({ state: 'verified', method: 'paypal' });
+  });
+
+  it('is verified when any method can be paid', () => {
+    const status = payoutStatusOf({
+      payoutMethod: 'paypal',
+      paypalEmail: 'a@example.com',
+      paypalVerification: 'rejected',
+      stripeConnectId: 'acct_1',
+      stripeConnectStatus: 'active',
+    });
+    expect(status).toMatchObject({ state: 'verified', method: 'stripe' });
+  });
+
+  it('reports the preferred method when nothing can be paid', () => {
+    const status = payoutStatusOf({
+      payoutMethod: 'paypal',
+      paypalEmail: 'a@example.com',
+      paypalVerification: 'pending',
+      stripeConnectId: 'acct_1',
+      stripeConnectStatus: 'restricted',
+      stripeDisabledReason: 'requirements.past_due',
+    });
+    expect(status).toMatchObject({ state: 'pending', method: 'paypal' });
+  });
+
+  it('is restricted while an admin hold is on, whatever the methods', () => {
+    const seller = { stripeConnectId: 'acct_1', stripeConnectStatus: 'active', payoutHold: true, payoutHoldReason: 'Chargeback review' };
+    expect(payoutStatusOf(seller)).toMatchObject({ state: 'restricted', reason: 'Chargeback review', onHold: true });
+    expect(canPayVia(seller, 'stripe')).toBe(false);
+  });
+});
+
+describe('syncPayoutState', () => {
+  it('records transitions and warns a newly unpayable seller with money waiting', async () => {
+    docs.set('artists/artist_1', { artistName: 'DJ One', email: 'one@example.com', stripeConnectId: 'acct_1', stripeConnectStatus: 'active', pendingBalance: 40 });
+    await syncPayoutState(env, 'artist', 'artist_1', { source: 'stripe_webhook' });
+    expect(mockSendSetupEmail).not.toHaveBeenCalled();
+
+    await mockUpdateDocument('artists', 'artist_1', { stripeConnectStatus: 'restricted' });
+    const status = await syncPayoutState(env, 'artist', 'artist_1', { source: 'stripe_webhook' });
+
+    expect(status?.state).toBe('restricted');
+    expect(events.map(e => [e.fromState, e.toState])).toEqual([[null, 'verified'], ['verified', 'restricted']]);
+    expect(accounts.get('artist:artist_1')).toMatchObject({ state: 'restricted', pendingBalance: 40 });
+    expect(mockSendSetupEmail).toHaveBeenCalledWith('one@example.com', 'DJ One',
+      expect.objectContaining({ amountWaiting: 40, state: 'restricted', setupPath: '/artist/account/' }), env);
+  });
+
+  it('does not log or warn again when nothing changed', async () => {
+    docs.set('users/user_1', { displayName: 'Crate', email: 'crate@example.com', pendingBalance: 12 });
+    await syncPayoutState(env, 'user', 'user_1', { source: 'earnings' });
+    await syncPayoutState(env, 'user', 'user_1', { source: 'earnings' });
+
+    expect(events).toHaveLength(1);
+    expect(mockSendSetupEmail).toHaveBeenCalledTimes(1);
+  });
+
+  it('throttles warnings for further earnings', async () => {
+    docs.set('users/user_1', { displayName: 'Crate', email: 'crate@example.com', pendingBalance: 12 });
+    await syncPayoutState(env, 'user', 'user_1', { source: 'earnings', warn: true });
+    await syncPayoutState(env, 'user', 'user_1', { source: 'earnings', warn: true, pendingBalance: 30 });
+
+    expect(mockSendSetupEmail).toHaveBeenCalledTimes(1);
+    expect(accounts.get('user:user_1')?.pendingBalance).toBe(30);
+  });
+
+  it('does not warn a seller with nothing waiting', async () => {
+    docs.set('merch-suppliers/sup_1', { name: 'Tees', email: 'tees@example.com' });
+    const status = await syncPayoutState(env, 'supplier', 'sup_1', { source: 'earnings', warn: true });
+
+    expect(status?.state).toBe('unverified');
+    expect(mockSendSetupEmail).not.toHaveBeenCalled();
+  });
+
+  it('returns null for an unknown seller', async () => {
+    expect(await syncPayoutState(env, 'artist', 'missing', { source: 'earnings' })).toBeNull();
+  });
+});
+
+describe('recordPayoutAccountFailure', () => {
+  it('restricts PayPal when the receiver is unusable', async () => {
+    docs.set('artists/artist_1', { artistName: 'DJ One', paypalEmail: 'one@example.com', pendingBalance: 0 });
+
+    expect(await recordPayoutAccountFailure(env, 'artist', 'artist_1', 'paypal', 'RECEIVER_UNREGISTERED')).toBe(true);
+
+    expect(docs.get('artists/artist_1')).toMatchObject({ paypalVerification: 'rejected' });
+    expect(accounts.get('artist:artist_1')).toMatchObject({ state: 'restricted', method: 'paypal' });
+    expect(events.at(-1)?.source).toBe('payout_failed');
+  });
+
+  it('restricts a Stripe account that cannot take transfers', async () => {
+    docs.set('merch-suppliers/sup_1', { name: 'Tees', stripeConnectId: 'acct_1', stripeConnectStatus: 'active' });
+
+    expect(await recordPayoutAccountFailure(env, 'supplier', 'sup_1', 'stripe', 'No such destination: acct_1')).toBe(true);
+
+    expect(docs.get('merch-suppliers/sup_1')).toMatchObject({ stripeConnectStatus: 'restricted' });
+  });
+
+  it('leaves the account alone for transient errors', async () => {
+    expect(await recordPayoutAccountFailure(env, 'artist', 'artist_1', 'stripe', 'Request timed out')).toBe(false);
+    expect(mockUpdateDocument).not.toHaveBeenCalled();
+  });
+});
+
+describe('PayPal email confirmation', () => {
+  it('stores only a hash of the token and accepts the token it was made from', async () => {
+    const { token, fields } = await createPayPalVerification();
+
+    expect(fields).toMatchObject({ paypalVerification: 'pending' });
+    expect(fields.paypalVerificationTokenHash).not.toBe(token);
+    expect(await isPayPalVerificationToken(fields, token)).toBe(true);
+    expect(await isPayPalVerificationToken(fields, token.slice(1) + '0')).toBe(false);
+    expect(await isPayPalVerificationToken({ paypalEmail: 'a@example.com' }, token)).toBe(false);
+  });
+});
+
+describe('setPayoutHold', () => {
+  it('holds and releases a seller, logging both', async () => {
+    docs.set('artists/artist_1', { artistName: 'DJ One', stripeConnectId: 'acct_1', stripeConnectStatus: 'active' });
+
+    const held = await setPayoutHold(env, 'artist', 'artist_1', { on: true, reason: 'Fraud review', adminId: 'admin_1' });
+    expect(held.status).toMatchObject({ state: 'restricted', onHold: true, reason: 'Fraud review' });
+    expect(docs.get('artists/artist_1')).toMatchObject({ payoutHold: true, payoutHoldBy: 'admin_1' });
+
+    const released = await setPayoutHold(env, 'artist', 'artist_1', { on: false, adminId: 'admin_1' });
+    expect(released.status).toMatchObject({ state: 'verified', onHold: false });
+    expect(events.map(e => e.source)).toEqual(['admin:admin_1', 'admin:admin_1']);
+  });
+
+  it('refuses to release a seller who is not on hold', async () => {
+    docs.set('artists/artist_1', { artistName: 'DJ One' });
+    expect(await setPayoutHold(env, 'artist', 'artist_1', { on: false, adminId: 'admin_1' }))
+      .toEqual({ success: false, error: 'Payouts are not on hold' });
+  });
+});
+
+describe('syncSellersWithUnpaidEarnings', () => {
+  it('sums waiting payouts per seller across collections', async () => {
+    docs.set('artists/artist_1', { artistName: 'DJ One', stripeConnectId: 'acct_1', stripeConnectStatus: 'active' });
+    docs.set('merch-suppliers/sup_1', { name: 'Tees' });
+    mockQueryCollection.mockImplementation(async (collection: unknown) => {
+      if (collection === 'pendingPayouts') return [{ artistId: 'artist_1', amount: 5 }, { artistId: 'artist_1', amount: 7.5 }];
+      if (collection === 'pendingSupplierPayouts') return [{ supplierId: 'sup_1', amount: 20 }];
+      return [];
+    });
+
+    expect(await syncSellersWithUnpaidEarnings(env)).toEqual({ sellers: 2, unpayable: 1 });
+    expect(accounts.get('artist:artist_1')).toMatchObject({ state: 'verified', pendingBalance: 12.5 });
+    expect(accounts.get('supplier:sup_1')).toMatchObject({ state: 'unverified', pendingBalance: 20 });
+  });
+});
+
+describe('admin-triggered payouts', () => {
+  const trigger = (body: Record<string, unknown>) => triggerPayout({
+    request: new Request('https://freshwax.test/api/admin/trigger-payout', { method: 'POST', body: JSON.stringify(body) }),
+    locals: { runtime: { env: { ...env, STRIPE_SECRET_KEY: 'sk_test' } } },
+  } as never) as Promise<Response>;
+
+  beforeEach(() => {
+    docs.set('orders/ord_1', {
+      orderNumber: 'FW-1',
+      items: [{ id: 'rel_1', releaseId: 'rel_1', type: 'digital', name: 'EP', price: 10, quantity: 1 }],
+    });
+    docs.set('releases/rel_1', { artistId: 'artist_1', artistName: 'DJ One' });
+  });
+
+  it('refuses to pay a payee who is on hold', async () => {
+    docs.set('merch-suppliers/sup_1', { name: 'Tees', paypalEmail: 'tees@example.com', payoutHold: true, payoutHoldReason: 'Under review' });
+
+    const response = await trigger({ orderId: 'ord_1', payeeType: 'supplier', payeeId: 'sup_1', payeeEmail: 'tees@example.com', amount: 20 });
+
+    expect(response.status).toBe(409);
+    expect(mockCreatePayout).not.toHaveBeenCalled();
+  });
+
+  it('restricts a payee whose PayPal email is rejected', async () => {
+    docs.set('users/seller_1', { displayName: 'Crate', paypalEmail: 'crate@example.com' });
+    mockCreatePayout.mockResolvedValueOnce({ success: false, error: 'RECEIVER_UNREGISTERED' });
+
+    const response = await trigger({ orderId: 'ord_1', payeeType: 'seller', payeeId: 'seller_1', payeeEmail: 'crate@example.com', amount: 20 });
+
+    expect(response.status).toBe(500);
+    expect(docs.get('users/seller_1')).toMatchObject({ paypalVerification: 'rejected' });
+  });
+
+  it('skips an artist whose Connect account is active but payouts are held', async () => {
+    docs.set('artists/artist_1', { artistName: 'DJ One', stripeConnectId: 'acct_1', stripeConnectStatus: 'active', payoutHold: true, payoutHoldReason: 'Dispute' });
+
+    const body = await (await trigger({ orderId: 'ord_1' })).json();
+
+    expect(body.payouts).toEqual([expect.objectContaining({ artistId: 'artist_1', status: 'skipped', reason: 'Dispute' })]);
+    expect(mockTransfersCreate).not.toHaveBeenCalled();
+  });
+
+  it('restricts an artist whose Connect account rejects the transfer', async () => {
+    docs.set('artists/artist_1', { artistName: 'DJ One', stripeConnectId: 'acct_1', stripeConnectStatus: 'active' });
+    mockTransfersCreate.mockRejectedValueOnce(new Error('No such destination: acct_1'));
+
+    const body = await (await trigger({ orderId: 'ord_1' })).json();
+
+    expect(body.payouts).toEqual([expect.objectContaining({ status: 'error', method: 'stripe' })]);
+    expect(docs.get('artists/artist_1')).toMatchObject({ stripeConnectStatus: 'restricted' });
+  });
+});
@@ -33,6 +33,12 @@ vi.mock('../lib/firebase-rest', () => ({
   arrayUnion: (...args: unknown[]) => mockArrayUnion(...args),
 }));
 
+// Mock the store credit wallet
+const mockSpendWallet = vi.fn();
+vi.mock('../lib/wallet', () => ({
+  spendWallet: (...args: unknown[]) => mockSpendWallet(...args),
+}));
+
 // Mock order-utils
 const mockCreateOrder = vi.fn();
 const mockValidateStock = vi.fn();
@@ -232,6 +238,9 @@ describe('PayPal Capture Order', () => {
     // Default: addDocument succeeds
     mockAddDocument.mockResolvedValue({ id: 'doc_123' });
 
+    // Default: the wallet covers any applied credit
+    mockSpendWallet.mockResolvedValue({ success: true, balance: 5.00 });
+
     // Default: reservation conversion succeeds
     mockConvertReservation.mockResolvedValue(undefined);
   });
@@ -767,11 +776,10 @@ describe('PayPal Capture Order', () => {
 
     expect(response.status).toBe(200);
 
-    // atomicIncrement should have been called for credit deduction
-    expect(mockAtomicIncrement).toHaveBeenCalledWith(
-      'userCredits',
-      'user_123',
-      { balance: -5.00 }
+    // The credit is spent from the wallet, keyed by the order
+    expect(mockSpendWallet).toHaveBeenCalledWith(
+      null,
+      expect.objectContaining({ userId: 'user_123', amount: 5.00, id: 'spend:order_test_123' })
     );
   });
 
@@ -834,16 +842,16 @@ describe('PayPal Capture Order', () => {
   });
 
   // -----------------------------------------------------------------------
-  // 25. Applied credit with no userCredits document -> graceful degradation
+  // 25. Applied credit the wallet can't cover -> graceful degradation
   // -----------------------------------------------------------------------
-  it('handles applied credit deduction when userCredits document is missing', async () => {
+  it('still completes the order when the wallet refuses the credit spend', async () => {
     const pendingWithCredit = makePendingOrder({ appliedCredit: 3.00 });
 
     mockGetDocument.mockImplementation(async (collection: string) => {
       if (collection === 'pendingPayPalOrders') return pendingWithCredit;
-      if (collection === 'userCredits') return null; // No credit doc exists
       return null;
     });
+    mockSpendWallet.mockResolvedValue({ success: false, error: 'Insufficient credit balance' });
 
     const request = makeRequest({ paypalOrderId: 'PAYPAL-ORDER-NO-CREDIT-DOC' });
 
@@ -857,12 +865,7 @@ describe('PayPal Capture Order', () => {
     const body = await response.json();
     expect(body.orderId).toBe('order_test_123');
 
-    // atomicIncrement for credit should NOT have been called (no credit doc)
-    expect(mockAtomicIncrement).not.toHaveBeenCalledWith(
-      'userCredits',
-      expect.anything(),
-      expect.objectContaining({ balance: expect.any(Number) })
-    );
+    expect(mockSpendWallet).toHaveBeenCalledTimes(1);
   });
 
   // -----------------------------------------------------------------------
@@ -35,6 +35,10 @@ describe('grantedRoleKey', () => {
     expect(grantedRoleKey('vinylSeller')).toBe('vinylSeller');
   });
 
+  it('maps tradeBuyer to itself', () => {
+    expect(grantedRoleKey('tradeBuyer')).toBe('tradeBuyer');
+  });
+
   it('returns null for unknown, empty and missing roleTypes', () => {
     expect(grantedRoleKey('wizard')).toBeNull();
     expect(grantedRoleKey('')).toBeNull();
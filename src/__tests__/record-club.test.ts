@@ -0,0 +1,217 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { coll, read, resetFirestore, write } from './firestore-fake';
+import type { Doc } from './firestore-fake';
+
+// Record clubs hold a copy of each nominated release per member, turn each
+// paid invoice into that period's order, and skip/pause by voiding Stripe
+// invoices. Reservations, order creation and payouts are mocked; these check
+// the club's own bookkeeping around them.
+vi.mock('../lib/firebase-rest', async () => (await import('./firestore-fake')).firebaseRestFake());
+
+const reserveStock = vi.fn(async (..._a: unknown[]) => ({ success: true, reservationId: 'res_1' }));
+const releaseReservation = vi.fn(async (..._a: unknown[]) => {});
+const convertReservation = vi.fn(async (..._a: unknown[]) => {});
+vi.mock('../lib/order/stock-reservation', () => ({
+  reserveStock: (...a: unknown[]) => reserveStock(...a),
+  releaseReservation: (...a: unknown[]) => releaseReservation(...a),
+  convertReservation: (...a: unknown[]) => convertReservation(...a),
+}));
+
+const createOrder = vi.fn(async (..._a: unknown[]) => ({ success: true, orderId: 'order_1', orderNumber: 'FW-1' }));
+vi.mock('../lib/order/creation', () => ({ createOrder: (...a: unknown[]) => createOrder(...a) }));
+
+const recordMultiSellerSale = vi.fn(async (..._a: unknown[]) => ({ success: true }));
+vi.mock('../lib/sales-ledger', () => ({ recordMultiSellerSale: (...a: unknown[]) => recordMultiSellerSale(...a) }));
+vi.mock('../lib/stripe-webhook/seller-enrichment', () => ({ enrichItemsWithSellerInfo: vi.fn(async (items: unknown[]) => items) }));
+const processArtistPayments = vi.fn(async (..._a: unknown[]) => {});
+vi.mock('../lib/order/seller-payments', () => ({ processArtistPayments: (...a: unknown[]) => processArtistPayments(...a) }));
+
+const {
+  clubPeriod, clubHoldId, nominateClubReleases, fulfilClubCycle, skipNextClubPeriod, MEMBERS_COLLECTION, CLUBS_COLLECTION, CLUB_INVOICES_COLLECTION,
+} = await import('../lib/record-club');
+const { handleRecordClubInvoice, isRecordClubInvoice } = await import('../lib/stripe-webhook/record-club');
+type RecordClub = import('../lib/record-club').RecordClub;
+type ClubMembership = import('../lib/record-club').ClubMembership;
+
+const env = { STRIPE_SECRET_KEY: 'sk_test' };
+const member = (id: string) => read(MEMBERS_COLLECTION, id) as unknown as ClubMembership;
+const club = () => read(CLUBS_COLLECTION, 'club_1') as unknown as RecordClub;
+
+function addMember(id: string, data: Doc = {}) {
+  write(MEMBERS_COLLECTION, id, {
+    clubId: 'club_1', clubName: 'Stamp Club', userId: `user_${id}`, email: `${id}@test.com`, firstName: 'Sam', lastName: 'Lee',
+    shipping: { address1: '1 High St', city: 'Bristol', postcode: 'BS1 1AA', country: 'GB' },
+    status: 'active', stripeSubscriptionId: `sub_${id}`, skippedPeriods: [], fulfilledPeriods: [], awaitingNomination: [],
+    ...data,
+  });
+}
+
+beforeEach(() => {
+  resetFirestore();
+  for (const fn of [reserveStock, releaseReservation, convertReservation, createOrder, recordMultiSellerSale, processArtistPayments]) fn.mockClear();
+  write(CLUBS_COLLECTION, 'club_1', {
+    ownerId: 'label_1', name: 'Stamp Club', price: 45, interval: 'quarter', recordsPerCycle: 2, status: 'active', nominations: {},
+  });
+  write('releases', 'rel_1', { releaseName: 'Stamp 001', artistName: 'Code One', artistId: 'label_1' });
+  write('releases', 'rel_2', { releaseName: 'Stamp 002', artistName: 'Bakkus', artistId: 'label_1' });
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('clubPeriod', () => {
+  it('keys months and quarters', () => {
+    expect(clubPeriod('month', new Date('2026-03-31T23:00:00Z'))).toBe('2026-03');
+    expect(clubPeriod('quarter', new Date('2026-11-02T00:00:00Z'))).toBe('2026-Q4');
+  });
+});
+
+describe('nominateClubReleases', () => {
+  it('holds a copy of each record for active members who have not skipped', async () => {
+    addMember('m1');
+    addMember('m2', { skippedPeriods: ['2026-Q4'] });
+    addMember('m3', { status: 'paused' });
+
+    const result = await nominateClubReleases(club(), '2026-Q4', [{ releaseId: 'rel_1' }, { releaseId: 'rel_2' }], env);
+
+    expect(result).toEqual({ held: 1, failed: [], fulfilled: 0 });
+    expect(reserveStock).toHaveBeenCalledTimes(1);
+    expect(reserveStock.mock.calls[0]?.slice(0, 3)).toEqual([
+      [{ type: 'vinyl', releaseId: 'rel_1', quantity: 1 }, { type: 'vinyl', releaseId: 'rel_2', quantity: 1 }],
+      clubHoldId('m1', '2026-Q4'),
+      'user_m1',
+    ]);
+    expect(reserveStock.mock.calls[0]?.[3]).toEqual({ ttlMs: 100 * 24 * 60 * 60 * 1000 });
+    // Re-nominating replaces any earlier hold first
+    expect(releaseReservation).toHaveBeenCalledWith(clubHoldId('m1', '2026-Q4'));
+  });
+
+  it('ships members who paid before the period was nominated', async () => {
+    addMember('m1', { awaitingNomination: [{ period: '2026-Q4', invoiceId: 'in_1', paymentIntentId: 'pi_1', amount: 45 }] });
+
+    const result = await nominateClubReleases(club(), '2026-Q4', [{ releaseId: 'rel_1' }, { releaseId: 'rel_2' }], env);
+
+    expect(result.fulfilled).toBe(1);
+    expect(member('m1')).toMatchObject({ fulfilledPeriods: ['2026-Q4'], awaitingNomination: [], lastOrderId: 'order_1' });
+  });
+});
+
+describe('fulfilClubCycle', () => {
+  const paid = { period: '2026-Q4', invoiceId: 'in_1', paymentIntentId: 'pi_1', amount: 45.01 };
+
+  it('turns a paid period into one order and converts the hold', async () => {
+    addMember('m1');
+    write(CLUBS_COLLECTION, 'club_1', { nominations: { '2026-Q4': [{ releaseId: 'rel_1' }, { releaseId: 'rel_2' }] } });
+
+    expect(await fulfilClubCycle({ club: club(), member: member('m1'), paid, env })).toEqual({ orderId: 'order_1', orderNumber: 'FW-1' });
+
+    const { orderData } = createOrder.mock.calls[0]?.[0] as { orderData: Doc };
+    expect(orderData).toMatchObject({
+      customer: { email: 'm1@test.com', userId: 'user_m1' },
+      totals: { subtotal: 45.01, shipping: 0, total: 45.01 },
+      hasPhysicalItems: true,
+      paymentIntentId: 'pi_1',
+    });
+    expect((orderData.items as Doc[]).map(i => [i.releaseId, i.name, i.price])).toEqual([
+      ['rel_1', 'Stamp 001', 22.51], ['rel_2', 'Stamp 002', 22.5],
+    ]);
+    expect(convertReservation).toHaveBeenCalledWith(clubHoldId('m1', '2026-Q4'));
+    expect(coll('orders').get('order_1')?.recordClub).toMatchObject({ clubId: 'club_1', memberId: 'm1', period: '2026-Q4', invoiceId: 'in_1' });
+    expect(processArtistPayments).toHaveBeenCalledWith(expect.objectContaining({ orderId: 'order_1', orderSubtotal: 45.01 }));
+
+    // A redelivered invoice doesn't ship twice
+    await fulfilClubCycle({ club: club(), member: member('m1'), paid, env });
+    expect(createOrder).toHaveBeenCalledTimes(1);
+  });
+
+  it('creates one order when the same invoice is delivered twice at once', async () => {
+    addMember('m1');
+    write(CLUBS_COLLECTION, 'club_1', { nominations: { '2026-Q4': [{ releaseId: 'rel_1' }, { releaseId: 'rel_2' }] } });
+    // Both deliveries read the membership before either records the period
+    const stale = member('m1');
+
+    const [first, second] = await Promise.all([
+      fulfilClubCycle({ club: club(), member: stale, paid, env }),
+      fulfilClubCycle({ club: club(), member: stale, paid, env }),
+    ]);
+
+    expect(createOrder).toHaveBeenCalledTimes(1);
+    expect(first).toEqual({ orderId: 'order_1', orderNumber: 'FW-1' });
+    expect(second).toEqual({ error: 'Invoice is already being fulfilled' });
+
+    // Replayed later with the same stale membership: the first order is returned
+    expect(await fulfilClubCycle({ club: club(), member: stale, paid, env })).toEqual({ orderId: 'order_1', orderNumber: 'FW-1' });
+    expect(createOrder).toHaveBeenCalledTimes(1);
+  });
+
+  it('frees the invoice for a retry when the order fails', async () => {
+    addMember('m1');
+    write(CLUBS_COLLECTION, 'club_1', { nominations: { '2026-Q4': [{ releaseId: 'rel_1' }] } });
+    createOrder.mockResolvedValueOnce({ success: false, error: 'Stock service down' } as never);
+
+    expect(await fulfilClubCycle({ club: club(), member: member('m1'), paid, env })).toEqual({ error: 'Stock service down' });
+    expect(await fulfilClubCycle({ club: club(), member: member('m1'), paid, env })).toEqual({ orderId: 'order_1', orderNumber: 'FW-1' });
+    expect(createOrder).toHaveBeenCalledTimes(2);
+  });
+
+  it('frees the invoice for a retry when creating the order throws', async () => {
+    addMember('m1');
+    write(CLUBS_COLLECTION, 'club_1', { nominations: { '2026-Q4': [{ releaseId: 'rel_1' }] } });
+    createOrder.mockRejectedValueOnce(new Error('Firestore unavailable'));
+
+    await expect(fulfilClubCycle({ club: club(), member: member('m1'), paid, env })).rejects.toThrow('Firestore unavailable');
+    expect(coll(CLUB_INVOICES_COLLECTION).has('in_1')).toBe(false);
+    expect(await fulfilClubCycle({ club: club(), member: member('m1'), paid, env })).toEqual({ orderId: 'order_1', orderNumber: 'FW-1' });
+    expect(createOrder).toHaveBeenCalledTimes(2);
+  });
+
+  it('queues the payment when nothing is nominated yet', async () => {
+    addMember('m1');
+    expect(await fulfilClubCycle({ club: club(), member: member('m1'), paid, env })).toEqual({ awaitingNomination: true });
+    expect(createOrder).not.toHaveBeenCalled();
+    expect(member('m1').awaitingNomination).toEqual([paid]);
+  });
+});
+
+describe('handleRecordClubInvoice', () => {
+  it('routes club invoices by subscription metadata and ships the billed period', async () => {
+    addMember('m1');
+    write(CLUBS_COLLECTION, 'club_1', { nominations: { '2027-Q1': [{ releaseId: 'rel_1' }, { releaseId: 'rel_2' }] } });
+    const invoice = {
+      id: 'in_2',
+      amount_paid: 4500,
+      created: Date.parse('2026-12-31T12:00:00Z') / 1000,
+      parent: { subscription_details: { subscription: 'sub_m1', metadata: { type: 'record_club', memberId: 'm1', clubId: 'club_1' } } },
+      lines: { data: [{ period: { start: Date.parse('2027-01-01T00:00:00Z') / 1000 } }] },
+    } as never;
+
+    expect(isRecordClubInvoice(invoice)).toBe(true);
+    expect(isRecordClubInvoice({ parent: { subscription_details: { metadata: { userId: 'u' } } } } as never)).toBe(false);
+
+    const result = await handleRecordClubInvoice(invoice, { env } as never);
+    expect(result).toMatchObject({ received: true, orderId: 'order_1' });
+    expect(member('m1').fulfilledPeriods).toEqual(['2027-Q1']);
+  });
+});
+
+describe('skipNextClubPeriod', () => {
+  it('voids the next invoice, resumes after it and frees the hold', async () => {
+    addMember('m1');
+    const periodEnd = Date.parse('2027-01-01T00:00:00Z') / 1000;
+    const fetchMock = vi.fn(async (_url: string, init?: RequestInit) => new Response(JSON.stringify(
+      init?.method === 'POST' ? { id: 'sub_m1' } : { id: 'sub_m1', current_period_end: periodEnd }
+    )));
+    vi.stubGlobal('fetch', fetchMock);
+
+    expect(await skipNextClubPeriod(member('m1'), club(), 'sk_test')).toEqual({ period: '2027-Q1' });
+
+    const update = fetchMock.mock.calls[1];
+    expect(update?.[0]).toBe('https://api.stripe.com/v1/subscriptions/sub_m1');
+    const body = new URLSearchParams(String(update?.[1]?.body));
+    expect(body.get('pause_collection[behavior]')).toBe('void');
+    expect(body.get('pause_collection[resumes_at]')).toBe(String(periodEnd + 86400));
+    expect(releaseReservation).toHaveBeenCalledWith(clubHoldId('m1', '2027-Q1'));
+    expect(member('m1').skippedPeriods).toEqual(['2027-Q1']);
+  });
+});
@@ -60,6 +60,28 @@ describe('assessReleaseReadiness', () => {
     expect(r.blocking.join()).toMatch(/No audio file/i);
   });
 
+  it('blocks while a track is still being transcoded', () => {
+    const rel = complete();
+    rel.tracks[0] = { title: 'A', mp3Url: '', previewUrl: '', wavUrl: `${CDN}/masters/01-a.wav`, transcodeStatus: 'queued' } as never;
+    const r = assessReleaseReadiness(rel);
+    expect(r.ready).toBe(false);
+    expect(r.blocking).toEqual(['Audio still transcoding for: A']);
+  });
+
+  it('blocks a track whose transcode failed, pointing at the retry', () => {
+    const rel = complete();
+    rel.tracks[1] = { title: 'B', mp3Url: '', previewUrl: '', transcodeStatus: 'failed' } as never;
+    const r = assessReleaseReadiness(rel);
+    expect(r.ready).toBe(false);
+    expect(r.blocking.join()).toMatch(/transcoding failed for: B.*approvals/i);
+  });
+
+  it('passes a transcoded track', () => {
+    const rel = complete();
+    rel.tracks[0] = { ...rel.tracks[0], transcodeStatus: 'done' } as never;
+    expect(assessReleaseReadiness(rel).ready).toBe(true);
+  });
+
   it('blocks a release with no tracks', () => {
     const r = assessReleaseReadiness({ ...complete(), tracks: [] });
     expect(r.ready).toBe(false);
@@ -125,6 +147,66 @@ describe('assessReleaseReadiness', () => {
     expect(r.blocking.length).toBeGreaterThanOrEqual(3);
   });
 
+  it('warns but does not block a master that clips', () => {
+    const rel = complete();
+    const r = assessReleaseReadiness({
+      ...rel,
+      tracks: [{ ...rel.tracks[0], loudness: { integratedLufs: -7.5, truePeakDbtp: 0.6 } }, rel.tracks[1]],
+    });
+    expect(r.ready).toBe(true);
+    expect(r.warnings).toEqual(['Master clips (true peak at or above 0 dBTP) for: A (+0.6 dBTP)']);
+  });
+
+  it('warns about masters far from the streaming loudness target', () => {
+    const rel = complete();
+    const r = assessReleaseReadiness({
+      ...rel,
+      tracks: [
+        { ...rel.tracks[0], loudness: { integratedLufs: -4.8, truePeakDbtp: -0.3 } },
+        { ...rel.tracks[1], loudness: { integratedLufs: -24, truePeakDbtp: -6 } },
+      ],
+    });
+    expect(r.ready).toBe(true);
+    expect(r.warnings.join()).toMatch(/-14 LUFS streaming target for: A \(-4\.8 LUFS\), B \(-24\.0 LUFS\)/);
+  });
+
+  it('leaves a typical club master and unmeasured tracks alone', () => {
+    const rel = complete();
+    const r = assessReleaseReadiness({
+      ...rel,
+      tracks: [{ ...rel.tracks[0], loudness: { integratedLufs: -8, truePeakDbtp: -1 } }, rel.tracks[1]],
+    });
+    expect(r.warnings).toEqual([]);
+  });
+
+  it('warns when the entered BPM or key disagrees with the detected one', () => {
+    const rel = complete();
+    const r = assessReleaseReadiness({
+      ...rel,
+      tracks: [
+        { ...rel.tracks[0], bpm: '170', key: 'Gm', detectedBpm: 174, detectedKey: 'Am', camelotKey: '8A' },
+        { ...rel.tracks[1], bpm: 'fast', key: '8A', detectedBpm: 172, detectedKey: 'Am', camelotKey: '8A' },
+      ],
+    });
+    expect(r.ready).toBe(true);
+    expect(r.warnings).toEqual([
+      "Entered BPM doesn't match the detected tempo for: A (entered 170, detected 174), B (entered fast, detected 172)",
+      "Entered key doesn't match the detected key for: A (entered Gm, detected Am / 8A)",
+    ]);
+  });
+
+  it('accepts half-time BPMs and other spellings of the same key', () => {
+    const rel = complete();
+    const r = assessReleaseReadiness({
+      ...rel,
+      tracks: [
+        { ...rel.tracks[0], bpm: '87', key: 'A minor', detectedBpm: 174, detectedKey: 'Am', camelotKey: '8A' },
+        { ...rel.tracks[1], bpm: '', key: '', detectedBpm: 172 },
+      ],
+    });
+    expect(r.warnings).toEqual([]);
+  });
+
   it('tolerates a query string on the audio URL', () => {
     const rel = complete();
     rel.tracks[0].mp3Url = `${CDN}/a.mp3?v=2`;
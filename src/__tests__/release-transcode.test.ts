@@ -0,0 +1,247 @@
+import { describe, it, expect } from 'vitest';
+import { probeAudio, formatDuration } from '../../workers/release-processor/src/audio-info';
+import {
+  applyTranscodeResult, downloadKey, finishedOutputs, jobOutputKeys, outputKeys, previewWindow, requiredOutputs, retryDelaySeconds, waveformKey,
+} from '../../workers/release-processor/src/transcode-jobs';
+
+// --- Synthesised headers ---------------------------------------------------
+
+function wavHeader(sampleRate: number, channels: number, bitDepth: number, dataBytes: number, extraChunk = 0): Uint8Array {
+  const buf = new Uint8Array(44 + (extraChunk ? 8 + extraChunk : 0));
+  const view = new DataView(buf.buffer);
+  const ascii = (s: string, at: number) => [...s].forEach((c, i) => { buf[at + i] = c.charCodeAt(0); });
+  ascii('RIFF', 0);
+  view.setUint32(4, buf.length - 8 + dataBytes, true);
+  ascii('WAVE', 8);
+  ascii('fmt ', 12);
+  view.setUint32(16, 16, true);
+  view.setUint16(20, 1, true);
+  view.setUint16(22, channels, true);
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * channels * (bitDepth / 8), true);
+  view.setUint16(32, channels * (bitDepth / 8), true);
+  view.setUint16(34, bitDepth, true);
+  let at = 36;
+  if (extraChunk) {
+    // A BWF 'bext' chunk before the audio, as DAWs write
+    ascii('bext', at);
+    view.setUint32(at + 4, extraChunk, true);
+    at += 8 + extraChunk;
+  }
+  ascii('data', at);
+  view.setUint32(at + 4, dataBytes, true);
+  return buf;
+}
+
+function aiffHeader(sampleRate: number, channels: number, bitDepth: number, frames: number): Uint8Array {
+  const buf = new Uint8Array(12 + 26);
+  const view = new DataView(buf.buffer);
+  const ascii = (s: string, at: number) => [...s].forEach((c, i) => { buf[at + i] = c.charCodeAt(0); });
+  ascii('FORM', 0);
+  ascii('AIFF', 8);
+  ascii('COMM', 12);
+  view.setUint32(16, 18);
+  view.setInt16(20, channels);
+  view.setUint32(22, frames);
+  view.setInt16(26, bitDepth);
+  // 80-bit extended sample rate
+  const exponent = Math.floor(Math.log2(sampleRate));
+  view.setUint16(28, exponent + 16383);
+  view.setUint32(30, Math.floor((sampleRate / 2 ** exponent) * 2 ** 31));
+  view.setUint32(34, 0);
+  return buf;
+}
+
+function flacHeader(sampleRate: number, channels: number, bitDepth: number, totalSamples: number): Uint8Array {
+  const buf = new Uint8Array(4 + 4 + 34);
+  const view = new DataView(buf.buffer);
+  buf.set([0x66, 0x4c, 0x61, 0x43], 0);         // fLaC
+  buf[4] = 0x80;                                 // last block, STREAMINFO
+  buf[7] = 34;
+  const info = 8;
+  view.setUint32(info + 10, (sampleRate << 12) | ((channels - 1) << 9) | ((bitDepth - 1) << 4) | Math.floor(totalSamples / 2 ** 32));
+  view.setUint32(info + 14, totalSamples >>> 0);
+  return buf;
+}
+
+describe('probeAudio', () => {
+  it('reads a 16-bit 44.1kHz WAV', () => {
+    const bytes = 44100 * 2 * 2 * 300;           // 5 minutes
+    const info = probeAudio(wavHeader(44100, 2, 16, bytes), 44 + bytes);
+    expect(info).toEqual({ format: 'wav', sampleRate: 44100, channels: 2, bitDepth: 16, durationSeconds: 300 });
+  });
+
+  it('skips chunks before the audio data', () => {
+    const bytes = 48000 * 2 * 3 * 90;
+    const header = wavHeader(48000, 2, 24, bytes, 602);
+    const info = probeAudio(header, header.length + bytes);
+    expect(info).toMatchObject({ sampleRate: 48000, bitDepth: 24, durationSeconds: 90 });
+  });
+
+  it('uses the file size when a streamed WAV never filled in its data size', () => {
+    const bytes = 44100 * 4 * 60;
+    const header = wavHeader(44100, 2, 16, 0xffffffff);
+    expect(probeAudio(header, header.length + bytes)?.durationSeconds).toBe(60);
+  });
+
+  it('reads a 24-bit 48kHz AIFF', () => {
+    const info = probeAudio(aiffHeader(48000, 2, 24, 48000 * 245), 999_999_999);
+    expect(info).toEqual({ format: 'aiff', sampleRate: 48000, channels: 2, bitDepth: 24, durationSeconds: 245 });
+  });
+
+  it('reads FLAC STREAMINFO', () => {
+    const info = probeAudio(flacHeader(96000, 2, 24, 96000 * 400), 999_999_999);
+    expect(info).toEqual({ format: 'flac', sampleRate: 96000, channels: 2, bitDepth: 24, durationSeconds: 400 });
+  });
+
+  it('returns null for something that is not audio', () => {
+    expect(probeAudio(new TextEncoder().encode('<html><body>not audio</body></html>'), 100)).toBeNull();
+  });
+
+  it('returns null for a WAV truncated before its format chunk', () => {
+    expect(probeAudio(wavHeader(44100, 2, 16, 1000).slice(0, 20), 1044)).toBeNull();
+  });
+});
+
+describe('formatDuration', () => {
+  it('formats as M:SS, rounding to the nearest second', () => {
+    expect(formatDuration(300)).toBe('5:00');
+    expect(formatDuration(65.6)).toBe('1:06');
+    expect(formatDuration(9)).toBe('0:09');
+  });
+});
+
+describe('transcode job helpers', () => {
+  const job = {
+    outputPrefix: 'releases/rel_FW-1',
+    trackNumber: 3,
+    title: 'Dark Matter (VIP)',
+    sourceKey: 'releases/rel_FW-1/masters/03-dark-matter-vip.wav',
+    sourceFormat: 'wav' as const,
+  };
+
+  it('backs off 1, 5, 25 minutes and caps at six hours', () => {
+    expect([1, 2, 3].map(retryDelaySeconds)).toEqual([60, 300, 1500]);
+    expect(retryDelaySeconds(10)).toBe(6 * 60 * 60);
+  });
+
+  it('takes the preview from a minute in, or the middle of a short track', () => {
+    expect(previewWindow(360)).toEqual({ start: 60, length: 90 });
+    expect(previewWindow(120)).toEqual({ start: 15, length: 90 });
+    expect(previewWindow(45)).toEqual({ start: 0, length: 45 });
+    expect(previewWindow(null)).toEqual({ start: 60, length: 90 });
+  });
+
+  it('names outputs next to the release', () => {
+    expect(outputKeys(job)).toEqual({
+      mp3: 'releases/rel_FW-1/tracks/03-dark-matter-vip.mp3',
+      flac: 'releases/rel_FW-1/tracks/03-dark-matter-vip.flac',
+      preview: 'releases/rel_FW-1/previews/03-preview.mp3',
+    });
+  });
+
+  it('keeps the waveform next to the previews, or inside a mix folder', () => {
+    expect(waveformKey({ ...job, kind: 'track' })).toBe('releases/rel_FW-1/waveforms/03-peaks.json');
+    expect(waveformKey({ kind: 'mix', outputPrefix: 'dj-mixes/mix_1', trackNumber: 0 })).toBe('dj-mixes/mix_1/waveform.json');
+  });
+
+  it('has nothing to transcode for a mix', () => {
+    const mixJob = { ...job, kind: 'mix' as const, sourceKey: 'dj-mixes/mix_1/audio.mp3', sourceFormat: 'mp3' as const };
+    expect(requiredOutputs(mixJob)).toEqual([]);
+    expect(finishedOutputs(mixJob)).toEqual([]);
+  });
+
+  it('does not re-encode a FLAC master to FLAC, or an MP3 upload to MP3', () => {
+    const flacJob = { ...job, sourceFormat: 'flac' as const, sourceKey: 'releases/rel_FW-1/masters/03-x.flac' };
+    expect(requiredOutputs(flacJob)).toEqual(['mp3', 'preview']);
+    expect(outputKeys(flacJob).flac).toBe(flacJob.sourceKey);
+
+    const mp3Job = { ...job, sourceFormat: 'mp3' as const, sourceKey: 'releases/rel_FW-1/masters/03-x.mp3' };
+    expect(requiredOutputs(mp3Job)).toEqual(['preview']);
+    expect(finishedOutputs(mp3Job)).toEqual(['mp3', 'preview']);
+    expect(outputKeys(mp3Job).mp3).toBe(mp3Job.sourceKey);
+  });
+
+  it('keeps a download rendition under its format, keyed by its tags', () => {
+    const downloadJob = { ...job, kind: 'download' as const, format: 'aiff' as const, tagsHash: 'a1b2c3d4e5f6' };
+    const key = 'releases/rel_FW-1/downloads/aiff/03-dark-matter-vip-a1b2c3d4e5f6.aiff';
+    expect(downloadKey(downloadJob)).toBe(key);
+    expect(jobOutputKeys(downloadJob)).toEqual({ aiff: key });
+    expect(requiredOutputs(downloadJob)).toEqual(['aiff']);
+    expect(finishedOutputs(downloadJob)).toEqual(['aiff']);
+  });
+
+  it('writes a track job\'s usual outputs', () => {
+    expect(jobOutputKeys({ ...job, kind: 'track', format: null, tagsHash: null })).toEqual(outputKeys(job));
+  });
+});
+
+describe('applyTranscodeResult', () => {
+  const CDN = 'https://cdn.freshwax.co.uk/releases/rel_FW-1';
+  const tracks = [
+    { trackNumber: 1, title: 'A', bpm: 174, key: 'Am', trackISRC: 'GBX', mp3Url: '', previewUrl: '', wavUrl: `${CDN}/masters/01-a.wav`, transcodeStatus: 'queued' },
+    { trackNumber: 2, title: 'B', mp3Url: '', previewUrl: '', transcodeStatus: 'queued' },
+  ];
+
+  it('fills in URLs and real audio details, leaving the rest of the track alone', () => {
+    const { tracks: out, matched } = applyTranscodeResult(tracks, 1, {
+      status: 'done',
+      urls: { mp3: `${CDN}/tracks/01-a.mp3`, flac: `${CDN}/tracks/01-a.flac`, preview: `${CDN}/previews/01-preview.mp3` },
+      info: { durationSeconds: 372.4, sampleRate: 44100, bitDepth: 24, channels: 2 },
+    });
+    expect(matched).toBe(true);
+    expect(out[0]).toEqual({
+      ...tracks[0],
+      mp3Url: `${CDN}/tracks/01-a.mp3`,
+      url: `${CDN}/tracks/01-a.mp3`,
+      previewUrl: `${CDN}/previews/01-preview.mp3`,
+      preview_url: `${CDN}/previews/01-preview.mp3`,
+      flacUrl: `${CDN}/tracks/01-a.flac`,
+      duration: '6:12',
+      durationSeconds: 372.4,
+      sampleRate: 44100,
+      bitDepth: 24,
+      channels: 2,
+      transcodeStatus: 'done',
+    });
+    expect(out[1]).toBe(tracks[1]);
+  });
+
+  it('stores the waveform and loudness alongside the audio', () => {
+    const { tracks: out } = applyTranscodeResult(tracks, 2, {
+      status: 'done',
+      waveform: { url: `${CDN}/waveforms/02-peaks.json`, peaks: [1, 2, 3], previewPeaks: [2] },
+      loudness: { integratedLufs: -9.1, truePeakDbtp: -0.8, loudnessRange: 4.2 },
+    });
+    expect(out[1]).toMatchObject({
+      waveform: [1, 2, 3],
+      previewWaveform: [2],
+      waveformUrl: `${CDN}/waveforms/02-peaks.json`,
+      loudness: { integratedLufs: -9.1, truePeakDbtp: -0.8, loudnessRange: 4.2 },
+    });
+  });
+
+  it('fills in a blank BPM and key but never overwrites what the artist typed', () => {
+    const musical = { bpm: 174, key: 'Am', camelot: '8A' };
+    const { tracks: out } = applyTranscodeResult(tracks, 1, { status: 'done', musical });
+    expect(out[0]).toMatchObject({ bpm: 174, key: 'Am', detectedBpm: 174, detectedKey: 'Am', camelotKey: '8A' });
+
+    const { tracks: filled } = applyTranscodeResult(tracks, 2, { status: 'done', musical });
+    expect(filled[1]).toMatchObject({ bpm: '174', key: 'Am', detectedBpm: 174, camelotKey: '8A' });
+  });
+
+  it('keeps the artist BPM when only the key was detected', () => {
+    const { tracks: out } = applyTranscodeResult(tracks, 2, { status: 'done', musical: { bpm: null, key: 'Gm', camelot: '6A' } });
+    expect(out[1]).not.toHaveProperty('bpm');
+    expect(out[1]).toMatchObject({ key: 'Gm', camelotKey: '6A' });
+  });
+
+  it('only flips the status of a failed track', () => {
+    const { tracks: out } = applyTranscodeResult(tracks, 2, { status: 'failed' });
+    expect(out[1]).toEqual({ ...tracks[1], transcodeStatus: 'failed' });
+  });
+
+  it('reports when the release has no such track', () => {
+    expect(applyTranscodeResult(tracks, 9, { status: 'done' }).matched).toBe(false);
+  });
+});
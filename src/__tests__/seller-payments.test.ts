@@ -356,6 +356,7 @@ describe('processMerchSupplierPayments', () => {
           name: 'Test Supplier',
           email: 'supplier@test.com',
           stripeConnectId: 'acct_test_123',
+          stripeConnectStatus: 'active',
           payoutMethod: 'stripe',
         };
       }
@@ -399,6 +400,7 @@ describe('processMerchSupplierPayments', () => {
           name: 'Test Supplier',
           email: 'supplier@test.com',
           stripeConnectId: 'acct_test_123',
+          stripeConnectStatus: 'active',
           payoutMethod: 'stripe',
         };
       }
@@ -432,7 +434,7 @@ describe('processMerchSupplierPayments', () => {
     mockGetDocument.mockImplementation(async (collection: string) => {
       if (collection === 'merch') return { supplierId: 'supplier_1', costPrice: 10 };
       if (collection === 'merch-suppliers') {
-        return { name: 'Supplier', email: 's@test.com', stripeConnectId: 'acct_1', payoutMethod: 'stripe' };
+        return { name: 'Supplier', email: 's@test.com', stripeConnectId: 'acct_1', stripeConnectStatus: 'active', payoutMethod: 'stripe' };
       }
       return null;
     });
@@ -455,7 +457,7 @@ describe('processMerchSupplierPayments', () => {
 
     mockGetDocument.mockImplementation(async (collection: string) => {
       if (collection === 'merch') return { supplierId: 'supplier_1' };
-      if (collection === 'merch-suppliers') return { name: 'Supplier', email: 's@test.com', stripeConnectId: 'acct_1', payoutMethod: 'stripe' };
+      if (collection === 'merch-suppliers') return { name: 'Supplier', email: 's@test.com', stripeConnectId: 'acct_1', stripeConnectStatus: 'active', payoutMethod: 'stripe' };
       return null;
     });
 
@@ -501,6 +503,38 @@ describe('processMerchSupplierPayments', () => {
     }));
   });
 
+  it('parks the payout while the supplier has not finished Stripe onboarding', async () => {
+    const items = [
+      { id: 'merch_1', name: 'Vinyl Bag', type: 'merch', price: 15, quantity: 1, productId: 'prod_1' },
+    ];
+
+    mockGetDocument.mockImplementation(async (collection: string) => {
+      if (collection === 'merch') return { supplierId: 'supplier_1' };
+      if (collection === 'merch-suppliers') {
+        return {
+          name: 'New Supplier',
+          email: 'new@test.com',
+          stripeConnectId: 'acct_onboarding',
+          stripeConnectStatus: 'onboarding',
+          payoutMethod: 'stripe',
+        };
+      }
+      return null;
+    });
+
+    await processMerchSupplierPayments(makeBaseParams({
+      items,
+      totalItemCount: 1,
+      orderSubtotal: 15,
+    }));
+
+    expect(mockTransfersCreate).not.toHaveBeenCalled();
+    expect(mockAddDocument).toHaveBeenCalledWith('pendingSupplierPayouts', expect.objectContaining({
+      status: 'awaiting_connect',
+      supplierId: 'supplier_1',
+    }));
+  });
+
   it('creates pending retry payout when Stripe transfer fails', async () => {
     const items = [
       { id: 'merch_1', name: 'Hoodie', type: 'merch', price: 40, quantity: 1, productId: 'prod_1' },
@@ -513,6 +547,7 @@ describe('processMerchSupplierPayments', () => {
           name: 'Test Supplier',
           email: 'supplier@test.com',
           stripeConnectId: 'acct_test_123',
+          stripeConnectStatus: 'active',
           payoutMethod: 'stripe',
         };
       }
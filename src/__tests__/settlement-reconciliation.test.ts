@@ -0,0 +1,197 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+// Settlement reports are matched to sales ledger rows by payment id; fee
+// corrections and duplicate reversals post adjustment entries to the journal
+// and leave an audit row. D1 is replaced by in-memory tables.
+type Line = { account: string; partyId: string | null; debitPence: number; creditPence: number; memo?: string | null };
+const journal = new Map<string, Line[]>();
+let reportLines: Array<Record<string, unknown>> = [];
+let ledgerRows: Array<Record<string, unknown>> = [];
+const adjustments = new Map<string, Record<string, unknown>>();
+
+vi.mock('../lib/d1/journal', () => ({
+  MAX_JOURNAL_LINES: 14,
+  d1InsertJournalEntry: vi.fn(async (_db: unknown, entry: { id: string; lines: Line[] }) => {
+    if (!journal.has(entry.id)) journal.set(entry.id, entry.lines);
+    return true;
+  }),
+  d1GetJournalLines: vi.fn(async (_db: unknown, id: string) => journal.get(id) || []),
+  d1GetJournalBalances: vi.fn(async () => []),
+}));
+
+vi.mock('../lib/d1/ledger', () => ({
+  d1GetLedgerEntriesByPaymentMethod: vi.fn(async () => ledgerRows),
+}));
+
+vi.mock('../lib/d1/settlements', () => ({
+  d1InsertSettlementLines: vi.fn(async (_db: unknown, _id: string, lines: unknown[]) => lines.length),
+  d1InsertSettlementImport: vi.fn(async () => true),
+  d1GetSettlementLines: vi.fn(async () => reportLines),
+  d1GetSettlementAdjustments: vi.fn(async (_db: unknown, _p: string, keys: string[]) =>
+    keys.map(k => adjustments.get(k)).filter(Boolean)),
+  d1InsertSettlementAdjustment: vi.fn(async (_db: unknown, adj: { issueKey: string }) => {
+    if (adjustments.has(adj.issueKey)) return false;
+    adjustments.set(adj.issueKey, adj);
+    return true;
+  }),
+}));
+
+const { parseSettlementCsv, reconcile, resolveIssue, getReconciliationReport } = await import('../lib/settlement-reconciliation');
+const { postLedgerEntryToJournal } = await import('../lib/journal');
+
+const db = {} as never;
+const FROM = '2026-09-01T00:00:00.000Z';
+const TO = '2026-10-01T00:00:00.000Z';
+
+const line = (overrides: Record<string, unknown>) => ({
+  processor: 'stripe', transactionId: 'txn_1', paymentId: 'pi_1', type: 'charge',
+  gross: 30, fee: 0.65, net: 29.35, currency: 'GBP', occurredAt: '2026-09-10T12:00:00.000Z', ...overrides,
+});
+const row = (overrides: Record<string, unknown>) => ({
+  id: 'ledger_1', orderId: 'order_1', orderNumber: 'FW-1', timestamp: '2026-09-10T12:00:05.000Z',
+  paymentMethod: 'stripe', paymentId: 'pi_1', grossTotal: 30, stripeFee: 0.65, paypalFee: 0, freshWaxFee: 0.3,
+  submitterId: 'label_1', items: [{ type: 'release' }], ...overrides,
+});
+const balanced = (lines: Line[]) => lines.reduce((sum, l) => sum + l.debitPence - l.creditPence, 0) === 0;
+
+beforeEach(() => {
+  journal.clear();
+  adjustments.clear();
+  reportLines = [];
+  ledgerRows = [];
+});
+
+describe('parseSettlementCsv', () => {
+  it('reads a Stripe balance export, keeping only payments', () => {
+    const csv = [
+      'id,Type,Source,payment_intent_id,Amount,Fee,Net,Currency,Created (UTC)',
+      'txn_1,charge,ch_1,pi_1,30.00,0.65,29.35,gbp,2026-09-10 12:00:00',
+      'txn_2,refund,re_1,pi_1,-10.00,0.00,-10.00,gbp,2026-09-11 09:00:00',
+      'txn_3,payout,po_1,,-500.00,0.00,-500.00,gbp,2026-09-12 09:00:00',
+    ].join('\n');
+    const { lines, skipped } = parseSettlementCsv('stripe', csv);
+    expect(skipped).toBe(2);
+    expect(lines).toEqual([{
+      processor: 'stripe', transactionId: 'txn_1', paymentId: 'pi_1', type: 'charge',
+      gross: 30, fee: 0.65, net: 29.35, currency: 'GBP', occurredAt: '2026-09-10T12:00:00.000Z',
+    }]);
+  });
+
+  it('reads a PayPal activity download with UK dates and negative fees', () => {
+    const csv = [
+      '\uFEFF"Date","Time","TimeZone","Name","Type","Status","Currency","Gross","Fee","Net","Transaction ID"',
+      '"10/09/2026","14:05:00","Europe/London","A Buyer","Express Checkout Payment","Completed","GBP","1,234.00","-35.09","1,198.91","8AB12345CD6789012"',
+      '"11/09/2026","09:00:00","Europe/London","","General Withdrawal","Completed","GBP","-500.00","0.00","-500.00","9ZZ"',
+    ].join('\r\n');
+    const { lines, skipped } = parseSettlementCsv('paypal', csv);
+    expect(skipped).toBe(1);
+    expect(lines[0]).toMatchObject({
+      transactionId: '8AB12345CD6789012', paymentId: '8AB12345CD6789012',
+      gross: 1234, fee: 35.09, net: 1198.91, occurredAt: '2026-09-10T14:05:00.000Z',
+    });
+  });
+
+  it('rejects a file that is not a settlement report', () => {
+    expect(() => parseSettlementCsv('paypal', 'name,email\na,b')).toThrow(/Not a paypal settlement report/);
+  });
+});
+
+describe('reconcile', () => {
+  it('flags missing, duplicate and fee-mismatched payments', () => {
+    const issues = reconcile('stripe', [
+      line({}),
+      line({ transactionId: 'txn_2', paymentId: 'pi_2', fee: 0.9 }),
+      line({ transactionId: 'txn_3', paymentId: 'pi_3' }),
+      line({ transactionId: 'txn_4', paymentId: 'pi_3' }),
+      line({ transactionId: 'txn_5', paymentId: 'pi_5' }),
+    ] as never, [
+      row({}),
+      row({ id: 'ledger_2', paymentId: 'pi_2', stripeFee: 0.5 }),
+      row({ id: 'ledger_3', paymentId: 'pi_3' }),
+      row({ id: 'ledger_3b', paymentId: 'pi_3', timestamp: '2026-09-10T12:01:00.000Z' }),
+      row({ id: 'ledger_4', paymentId: 'pi_4' }),
+      // Refunds and rows outside the period are not expected in this report
+      row({ id: 'ledger_5', paymentId: 'pi_6', timestamp: '2026-10-02T00:00:00.000Z' }),
+      row({ id: 'ledger_6', paymentId: 'pi_1', grossTotal: -10, refundId: 're_1' }),
+    ], FROM, TO);
+
+    expect(issues.map(i => i.key).sort()).toEqual([
+      'duplicate:ledger_3b', 'duplicate:txn_4', 'fee_mismatch:pi_2', 'missing_in_ledger:pi_5', 'missing_in_report:pi_4',
+    ]);
+    expect(issues.find(i => i.kind === 'fee_mismatch')).toMatchObject({ reportFee: 0.9, ledgerFee: 0.5, difference: 0.4, correctable: true });
+    expect(issues.find(i => i.key === 'duplicate:txn_4')?.correctable).toBe(false);
+  });
+
+  it('sums the sellers of a multi-seller payment and ignores penny rounding', () => {
+    const issues = reconcile('stripe', [line({ fee: 0.66 })] as never, [
+      row({ grossTotal: 20, stripeFee: 0.43 }),
+      row({ id: 'ledger_2', submitterId: 'supplier_1', grossTotal: 10, stripeFee: 0.22 }),
+    ], FROM, TO);
+    expect(issues).toEqual([]);
+  });
+
+  it('matches PayPal lines on the capture id and converts fees to GBP', () => {
+    const issues = reconcile('paypal', [
+      line({ processor: 'paypal', transactionId: 'CAP1', paymentId: 'CAP1', gross: 23.4, fee: 1.2, currency: 'EUR' }),
+    ] as never, [
+      row({ paymentMethod: 'paypal', paymentId: 'ORDER1', paypalCaptureId: 'CAP1', grossTotal: 20, stripeFee: 0, paypalFee: 0.9, presentmentCurrency: 'EUR', fxRate: 1.17 }),
+    ], FROM, TO);
+    expect(issues).toHaveLength(1);
+    expect(issues[0]).toMatchObject({ kind: 'fee_mismatch', reportFee: 1.03, ledgerFee: 0.9, difference: 0.13 });
+  });
+});
+
+describe('resolveIssue', () => {
+  it('books a fee difference against each seller by gross, once', async () => {
+    reportLines = [line({ fee: 1.3 })];
+    ledgerRows = [
+      row({ grossTotal: 20, stripeFee: 0.43 }),
+      row({ id: 'ledger_2', submitterId: 'supplier_1', grossTotal: 10, stripeFee: 0.22, items: [{ type: 'merch' }] }),
+    ];
+
+    const result = await resolveIssue(db, { processor: 'stripe', from: FROM, to: TO, issueKey: 'fee_mismatch:pi_1', action: 'correct', adminId: 'admin_1' });
+    expect(result.success).toBe(true);
+    expect(result.adjustment).toMatchObject({ journalEntryId: 'adjustment:fee:stripe:pi_1', amount: 0.65, adminId: 'admin_1', ledgerIds: ['ledger_1', 'ledger_2'] });
+
+    const lines = journal.get('adjustment:fee:stripe:pi_1')!;
+    expect(balanced(lines)).toBe(true);
+    expect(lines).toEqual([
+      expect.objectContaining({ account: 'artist_payable', partyId: 'label_1', debitPence: 43 }),
+      expect.objectContaining({ account: 'supplier_payable', partyId: 'supplier_1', debitPence: 22 }),
+      expect.objectContaining({ account: 'processor_clearing', partyId: 'stripe', creditPence: 65 }),
+    ]);
+
+    const again = await resolveIssue(db, { processor: 'stripe', from: FROM, to: TO, issueKey: 'fee_mismatch:pi_1', action: 'correct', adminId: 'admin_1' });
+    expect(again).toEqual({ success: false, error: 'Issue already resolved' });
+    const report = await getReconciliationReport(db, 'stripe', FROM, TO);
+    expect(report.summary).toMatchObject({ open: 0, resolved: 1 });
+  });
+
+  it('reverses the journal entry of a duplicate ledger row', async () => {
+    reportLines = [line({})];
+    ledgerRows = [row({}), row({ id: 'ledger_1b', timestamp: '2026-09-10T12:03:00.000Z' })];
+    await postLedgerEntryToJournal(db, 'ledger_1', ledgerRows[0] as never, 'artist');
+    await postLedgerEntryToJournal(db, 'ledger_1b', ledgerRows[1] as never, 'artist');
+
+    const result = await resolveIssue(db, { processor: 'stripe', from: FROM, to: TO, issueKey: 'duplicate:ledger_1b', action: 'correct', adminId: 'admin_1' });
+    expect(result.success).toBe(true);
+
+    const payable = (id: string) => journal.get(id)!
+      .filter(l => l.partyId === 'label_1')
+      .reduce((sum, l) => sum + l.creditPence - l.debitPence, 0);
+    expect(payable('adjustment:duplicate:ledger_1b')).toBe(-payable('sale:ledger_1b'));
+    expect(balanced(journal.get('adjustment:duplicate:ledger_1b')!)).toBe(true);
+  });
+
+  it('only acknowledges issues with no automatic correction', async () => {
+    reportLines = [line({ paymentId: 'pi_9' })];
+    const correct = await resolveIssue(db, { processor: 'stripe', from: FROM, to: TO, issueKey: 'missing_in_ledger:pi_9', action: 'correct', adminId: 'admin_1' });
+    expect(correct).toEqual({ success: false, error: 'This issue can only be acknowledged' });
+
+    const ack = await resolveIssue(db, {
+      processor: 'stripe', from: FROM, to: TO, issueKey: 'missing_in_ledger:pi_9', action: 'acknowledge', adminId: 'admin_1', note: 'Manual order',
+    });
+    expect(ack.adjustment).toMatchObject({ kind: 'missing_in_ledger_acknowledged', journalEntryId: null, note: 'Manual order' });
+    expect(journal.size).toBe(0);
+  });
+});
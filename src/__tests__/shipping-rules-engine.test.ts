@@ -0,0 +1,182 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { ShippingRuleSet } from '../lib/d1-catalog';
+import type { CartItem } from '../lib/order/types';
+
+// Zones, countries and rate tables now come from D1. The quote and every
+// checkout endpoint evaluate the same rule set, so these lock the lookup order
+// (release → seller table → artist account → platform table) and prove a
+// country or rate added in D1 takes effect without touching code.
+const getDocument = vi.fn(async (..._a: unknown[]): Promise<Record<string, unknown> | null> => null);
+const d1GetShippingRules = vi.fn(async (): Promise<ShippingRuleSet | null> => null);
+const d1GetShippingRulesVersion = vi.fn(async (): Promise<string | null> => null);
+vi.mock('../lib/firebase-rest', () => ({ getDocument: (...a: unknown[]) => getDocument(...a) }));
+vi.mock('../lib/d1-catalog', () => ({
+  d1GetShippingRules: () => d1GetShippingRules(),
+  d1GetShippingRulesVersion: () => d1GetShippingRulesVersion(),
+  d1GetVinylSeller: vi.fn(async () => null),
+}));
+
+const {
+  DEFAULT_SHIPPING_RULES,
+  applyCrateCombinedShipping,
+  clearShippingRulesCache,
+  computeMerchShipping,
+  computeReleaseVinylShipping,
+  countryToISO,
+  loadShippingRules,
+  regionForCountry,
+  resolveShippingBand,
+  resolveShippingDestination,
+  shippableCountries,
+} = await import('../lib/order/shipping-rules');
+
+/** Defaults plus a Japan zone, Japan as a shippable country, and a seller's own 7" rates. */
+function customRules(): ShippingRuleSet {
+  return {
+    zones: [...DEFAULT_SHIPPING_RULES.zones, { id: 'asia', name: 'Asia', region: 'INTL' }],
+    countries: [
+      ...DEFAULT_SHIPPING_RULES.countries,
+      { iso: 'JP', name: 'Japan', zoneId: 'asia', shippable: true, aliases: [] },
+    ],
+    rates: [
+      ...DEFAULT_SHIPPING_RULES.rates,
+      { sellerId: null, zoneId: 'asia', band: '12in', firstItem: 19.99, additionalItem: 2 },
+      { sellerId: null, zoneId: 'asia', band: 'tee', firstItem: 8, additionalItem: 1.5 },
+      { sellerId: 'artist_1', zoneId: 'uk', band: '7in', firstItem: 2.5, additionalItem: 0.25 },
+    ],
+  };
+}
+
+function vinyl(overrides: Partial<CartItem> = {}): CartItem {
+  return { type: 'vinyl', releaseId: 'rel_1', artistId: 'artist_1', quantity: 1, price: 15, ...overrides } as CartItem;
+}
+
+beforeEach(() => {
+  getDocument.mockReset();
+  getDocument.mockResolvedValue(null);
+  d1GetShippingRules.mockReset();
+  d1GetShippingRules.mockResolvedValue(null);
+  d1GetShippingRulesVersion.mockReset();
+  d1GetShippingRulesVersion.mockResolvedValue('v1');
+  clearShippingRulesCache();
+});
+
+describe('destinations', () => {
+  it('a country added in D1 becomes shippable in its own zone', () => {
+    const rules = customRules();
+    expect(countryToISO('Japan')).toBeNull();
+    expect(countryToISO('Japan', rules)).toBe('JP');
+    expect(resolveShippingDestination('jp', rules)).toEqual({ iso: 'JP', zoneId: 'asia', region: 'INTL' });
+  });
+
+  it('non-shippable EU members still price as EU', () => {
+    expect(regionForCountry('Spain')).toBe('EU');
+    expect(countryToISO('Spain')).toBeNull();
+  });
+
+  it('unknown countries fall into the INTL zone', () => {
+    expect(resolveShippingDestination('Brazil')).toEqual({ iso: null, zoneId: 'intl', region: 'INTL' });
+  });
+
+  it('lists only shippable countries for the checkout form', () => {
+    const names = shippableCountries().map(c => c.name);
+    expect(names).toContain('United Kingdom');
+    expect(names).not.toContain('Spain');
+  });
+});
+
+describe('resolveShippingBand', () => {
+  it('classifies vinyl by size and disc count', () => {
+    expect(resolveShippingBand('vinyl', { vinylSize: '7' })).toBe('7in');
+    expect(resolveShippingBand('vinyl', { format: '7"' })).toBe('7in');
+    expect(resolveShippingBand('vinyl', { vinylRecordCount: '2' })).toBe('2xlp');
+    expect(resolveShippingBand('vinyl', { vinylRecordCount: '99999' })).toBe('12in');
+    expect(resolveShippingBand('vinyl', { format: 'Box Set' })).toBe('2xlp');
+    expect(resolveShippingBand('vinyl', {})).toBe('12in');
+  });
+
+  it('classifies tees apart from other merch', () => {
+    expect(resolveShippingBand('merch', { type: 'T-Shirt' })).toBe('tee');
+    expect(resolveShippingBand('merch', { category: 'mug' })).toBe('merch');
+  });
+
+  it('ignores an unknown band carried on an item', () => {
+    expect(resolveShippingBand('vinyl', { shippingBand: 'free' })).toBe('12in');
+  });
+});
+
+describe('computeReleaseVinylShipping with rate tables', () => {
+  it('uses the seller table for the band ahead of the artist-account rate', () => {
+    const items = [vinyl({ shippingBand: '7in', artistVinylShippingUK: 3.5, quantity: 2 })];
+    const { total } = computeReleaseVinylShipping(items, 'UK', { rules: customRules(), zoneId: 'uk' });
+    expect(total).toBe(2.75);
+  });
+
+  it('a release-level rate still wins over every table', () => {
+    const items = [vinyl({ shippingBand: '7in', vinylShippingUK: 4 })];
+    expect(computeReleaseVinylShipping(items, 'UK', { rules: customRules(), zoneId: 'uk' }).total).toBe(4);
+  });
+
+  it('prices a new zone from its platform rate', () => {
+    const items = [vinyl({ quantity: 3 })];
+    expect(computeReleaseVinylShipping(items, 'INTL', { rules: customRules(), zoneId: 'asia' }).total).toBe(23.99);
+  });
+});
+
+describe('computeMerchShipping with rate tables', () => {
+  it('keeps the £4.99 single charge under the default rules', async () => {
+    expect(await computeMerchShipping([{ type: 'merch', productId: 'm1', quantity: 3 } as CartItem])).toBe(4.99);
+  });
+
+  it('charges the zone tee rate plus its additional rate per extra unit', async () => {
+    getDocument.mockImplementation(async (collection: unknown) => (collection === 'merch' ? { type: 'T-Shirt' } : null));
+    const items = [{ type: 'merch', productId: 'tee_1', quantity: 2 } as CartItem];
+    expect(await computeMerchShipping(items, { rules: customRules(), zoneId: 'asia' })).toBe(9.5);
+  });
+});
+
+describe('loadShippingRules', () => {
+  it('falls back to the built-in defaults when D1 has none', async () => {
+    expect(await loadShippingRules({} as never)).toBe(DEFAULT_SHIPPING_RULES);
+  });
+
+  it('reloads when another isolate saves a rule (the stored version changes)', async () => {
+    d1GetShippingRules.mockResolvedValue(customRules());
+    await loadShippingRules({} as never);
+    await loadShippingRules({} as never);
+    expect(d1GetShippingRules).toHaveBeenCalledTimes(1);
+    d1GetShippingRulesVersion.mockResolvedValue('v2');
+    await loadShippingRules({} as never);
+    expect(d1GetShippingRules).toHaveBeenCalledTimes(2);
+  });
+
+  it('does not cache when the version cannot be read', async () => {
+    d1GetShippingRulesVersion.mockResolvedValue(null);
+    d1GetShippingRules.mockResolvedValue(customRules());
+    await loadShippingRules({} as never);
+    await loadShippingRules({} as never);
+    expect(d1GetShippingRules).toHaveBeenCalledTimes(2);
+  });
+
+  it('caches the D1 rule set until cleared', async () => {
+    d1GetShippingRules.mockResolvedValue(customRules());
+    await loadShippingRules({} as never);
+    await loadShippingRules({} as never);
+    expect(d1GetShippingRules).toHaveBeenCalledTimes(1);
+    clearShippingRulesCache();
+    await loadShippingRules({} as never);
+    expect(d1GetShippingRules).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe('applyCrateCombinedShipping with rate tables', () => {
+  it('charges extra records at the zone additional rate', async () => {
+    d1GetShippingRules.mockResolvedValue(customRules());
+    const items = [
+      { type: 'vinyl', sellerId: 'seller_9', cratesShippingCost: 15, quantity: 1 },
+      { type: 'vinyl', sellerId: 'seller_9', cratesShippingCost: 15, quantity: 1 },
+    ] as CartItem[];
+    await applyCrateCombinedShipping(items, {} as never, 'Japan');
+    expect(items.map(i => i.cratesShippingCost)).toEqual([15, 2]);
+  });
+});
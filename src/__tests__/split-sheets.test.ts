@@ -0,0 +1,244 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+// Split sheets share the artist side of a release (or one track) between
+// several payees. The ledger books one entry per payee, payouts go to each
+// payee's own method, and a sheet locks at the release's first sale.
+// Firestore, D1 and the processors are replaced by in-memory stubs.
+const docs = new Map<string, Record<string, unknown>>();
+const updates: Array<{ collection: string; id: string; data: Record<string, unknown> }> = [];
+const added: Array<{ collection: string; data: Record<string, unknown> }> = [];
+const changes: Array<Record<string, unknown>> = [];
+let releaseSold: boolean | null = false;
+
+vi.mock('../lib/firebase-rest', () => ({
+  getDocument: vi.fn(async (collection: string, id: string) => docs.get(`${collection}/${id}`) || null),
+  updateDocument: vi.fn(async (collection: string, id: string, data: Record<string, unknown>) => {
+    updates.push({ collection, id, data });
+    docs.set(`${collection}/${id}`, { ...(docs.get(`${collection}/${id}`) || {}), ...data });
+  }),
+  addDocument: vi.fn(async (collection: string, data: Record<string, unknown>) => {
+    added.push({ collection, data });
+    return { id: `${collection}_${added.length}` };
+  }),
+  atomicIncrement: vi.fn(async () => undefined),
+  queryCollection: vi.fn(async () => []),
+  getDocumentsBatch: vi.fn(async (collection: string, ids: string[]) =>
+    new Map(ids.filter(id => docs.has(`${collection}/${id}`)).map(id => [id, docs.get(`${collection}/${id}`)!]))),
+}));
+
+vi.mock('../lib/d1/split-sheets', () => ({
+  d1ReleaseHasSales: vi.fn(async () => releaseSold),
+  d1GetSplitSheetChanges: vi.fn(async () => [...changes].reverse()),
+  d1InsertSplitSheetChange: vi.fn(async (_db: unknown, change: Record<string, unknown>) => {
+    changes.push(change);
+    return true;
+  }),
+}));
+
+const journal = new Map<string, Array<{ account: string; partyId: string | null }>>();
+vi.mock('../lib/d1/journal', () => ({
+  MAX_JOURNAL_LINES: 14,
+  d1InsertJournalEntry: vi.fn(async (_db: unknown, entry: { id: string; lines: [] }) => {
+    journal.set(entry.id, entry.lines);
+    return true;
+  }),
+  d1GetJournalLines: vi.fn(async () => []),
+  d1GetJournalBalances: vi.fn(async () => []),
+}));
+
+vi.mock('../lib/d1-catalog', () => ({
+  d1InsertLedgerEntry: vi.fn(async () => true),
+  d1GetLedgerEntries: vi.fn(async () => []),
+  d1GetLedgerEntriesByOrder: vi.fn(async () => []),
+}));
+
+const mockTransfersCreate = vi.fn(async () => ({ id: 'tr_1' }));
+vi.mock('stripe', () => ({
+  default: function MockStripe() {
+    return { transfers: { create: mockTransfersCreate } };
+  },
+}));
+const mockCreatePayout = vi.fn(async () => ({ success: true, batchId: 'batch_1', payoutItemId: 'item_1' }));
+vi.mock('../lib/paypal-payouts', () => ({
+  createPayout: mockCreatePayout,
+  getPayPalConfig: vi.fn(() => ({ clientId: 'id', clientSecret: 'secret', sandbox: true })),
+}));
+vi.mock('../lib/payout-emails', () => ({ sendPayoutCompletedEmail: vi.fn(async () => ({ success: true })) }));
+vi.mock('../lib/error-logger', () => ({ logError: vi.fn(async () => undefined) }));
+
+const { resolveSplitSheet, validateSplitSheet, expandSplitItems, saveSplitSheet } = await import('../lib/split-sheets');
+const { recordMultiSellerSale } = await import('../lib/sales-ledger');
+const { processArtistPayments } = await import('../lib/order/seller-payments/artist-payments');
+const { artistRefundShares } = await import('../lib/order/seller-payments/clawbacks');
+
+const db = {} as never;
+
+const release = () => ({
+  artistId: 'label_owner',
+  artistName: 'Code One',
+  submitterId: 'label_owner',
+  email: 'label@example.com',
+  tracks: [
+    { id: 'trk_1', title: 'Jungle Disorder' },
+    { id: 'trk_2', title: 'Jungle Disorder (Bakkus Remix)', remixer: 'Bakkus' },
+  ],
+  payoutSplits: [
+    { artistId: 'codeone', percentage: 40, role: 'artist' },
+    { artistId: 'mc_guest', percentage: 40, role: 'featured' },
+    { artistId: 'label_owner', percentage: 20, role: 'label' },
+  ],
+  trackSplits: {
+    trk_2: [
+      { artistId: 'bakkus', percentage: 50, role: 'remixer' },
+      { artistId: 'label_owner', percentage: 50, role: 'label' },
+    ],
+  },
+});
+
+beforeEach(() => {
+  docs.clear();
+  updates.length = 0;
+  added.length = 0;
+  changes.length = 0;
+  journal.clear();
+  releaseSold = false;
+  mockTransfersCreate.mockClear();
+  mockCreatePayout.mockClear();
+  docs.set('releases/rel_1', release());
+  for (const id of ['codeone', 'mc_guest', 'label_owner', 'bakkus']) {
+    docs.set(`artists/${id}`, { artistName: id, email: `${id}@example.com` });
+  }
+});
+
+describe('resolveSplitSheet', () => {
+  it('uses the track sheet for that track and the release sheet otherwise', () => {
+    expect(resolveSplitSheet(release(), 'trk_2')?.map(s => s.artistId)).toEqual(['bakkus', 'label_owner']);
+    expect(resolveSplitSheet(release(), 'trk_1')?.map(s => s.artistId)).toEqual(['codeone', 'mc_guest', 'label_owner']);
+    expect(resolveSplitSheet(release())?.length).toBe(3);
+  });
+
+  it('ignores a sheet that does not add up to 100', () => {
+    expect(resolveSplitSheet({ payoutSplits: [{ artistId: 'a', percentage: 60 }, { artistId: 'b', percentage: 30 }] })).toBeNull();
+  });
+});
+
+describe('validateSplitSheet', () => {
+  it('rejects duplicates, bad totals and remixers the track does not credit', () => {
+    const r = release();
+    expect(validateSplitSheet([{ artistId: 'a', percentage: 50 }, { artistId: 'a', percentage: 50 }], r)).toMatch(/listed twice/);
+    expect(validateSplitSheet([{ artistId: 'a', percentage: 33.33 }, { artistId: 'b', percentage: 66.66 }], r)).toMatch(/add up to 100/);
+    expect(validateSplitSheet([{ artistId: 'a', percentage: 50 }, { artistId: 'b', percentage: 50, role: 'remixer' }], r, 'trk_1')).toMatch(/no remixer credited/);
+    expect(validateSplitSheet([{ artistId: 'a', percentage: 50 }, { artistId: 'b', percentage: 50, role: 'remixer' }], r, 'trk_2')).toBeNull();
+    expect(validateSplitSheet([{ artistId: 'a', percentage: 100 }], r, 'trk_9')).toMatch(/Track not found/);
+  });
+});
+
+describe('expandSplitItems', () => {
+  it('splits a line across payees to the penny', () => {
+    const lines = expandSplitItems([
+      { id: 'rel_1', releaseId: 'rel_1', type: 'digital', price: 10, quantity: 1, submitterId: 'label_owner',
+        payoutSplits: [{ artistId: 'a', percentage: 33.33 }, { artistId: 'b', percentage: 33.33 }, { artistId: 'c', percentage: 33.34 }] },
+      { id: 'merch_1', type: 'merch', price: 20, submitterId: 'supplier_1' },
+    ]);
+    expect(lines.map(l => [l.submitterId, l.price])).toEqual([['a', 3.33], ['b', 3.33], ['c', 3.34], ['supplier_1', 20]]);
+    expect(lines[0]).not.toHaveProperty('payoutSplits');
+  });
+});
+
+describe('recordMultiSellerSale with a split sheet', () => {
+  it('books one ledger entry and one payable per payee', async () => {
+    const result = await recordMultiSellerSale({
+      orderId: 'order_1', orderNumber: 'FW-1', customerEmail: 'buyer@example.com',
+      grossTotal: 10, stripeFee: 0.34, freshWaxFee: 0.1, paymentMethod: 'stripe', paymentId: 'pi_1', db,
+      items: [{
+        id: 'rel_1', releaseId: 'rel_1', type: 'track', trackId: 'trk_2', title: 'Remix', price: 10, quantity: 1,
+        submitterId: 'label_owner', payoutSplits: resolveSplitSheet(release(), 'trk_2'),
+      } as never],
+    });
+    expect(result.success).toBe(true);
+
+    const entries = added.filter(a => a.collection === 'salesLedger').map(a => a.data);
+    expect(entries.map(e => [e.submitterId, e.grossTotal])).toEqual([['bakkus', 5], ['label_owner', 5]]);
+    expect((entries[0]!.items as Array<Record<string, unknown>>)[0]).toMatchObject({ splitRole: 'remixer', splitPercentage: 50 });
+    expect(entries.reduce((sum, e) => sum + (e.stripeFee as number), 0)).toBeCloseTo(0.34, 10);
+
+    const payables = [...journal.values()].flat().filter(l => l.account === 'artist_payable');
+    expect([...new Set(payables.map(l => l.partyId))].sort()).toEqual(['bakkus', 'label_owner']);
+  });
+});
+
+describe('processArtistPayments with a split sheet', () => {
+  it("pays each payee through their own Connect account or PayPal", async () => {
+    docs.set('artists/bakkus', { artistName: 'Bakkus', email: 'b@example.com', payoutMethod: 'paypal', paypalEmail: 'bakkus@paypal.test' });
+    docs.set('artists/label_owner', { artistName: 'Label', email: 'l@example.com', stripeConnectId: 'acct_label', stripeConnectStatus: 'active' });
+
+    await processArtistPayments({
+      orderId: 'order_1', orderNumber: 'FW-1', totalItemCount: 1, orderSubtotal: 10,
+      items: [{ id: 'rel_1', releaseId: 'rel_1', type: 'track', trackId: 'trk_2', price: 10, quantity: 1 }],
+      actualProcessingFee: 0.34, stripeSecretKey: 'sk_test', env: {},
+    });
+
+    expect(mockCreatePayout).toHaveBeenCalledWith(expect.anything(), expect.objectContaining({ email: 'bakkus@paypal.test', reference: 'order_1-artist-bakkus' }));
+    expect(mockTransfersCreate).toHaveBeenCalledWith(expect.objectContaining({ destination: 'acct_label', amount: 478 }));
+    const payouts = added.filter(a => a.collection === 'payouts').map(a => a.data);
+    expect(payouts.map(p => [p.artistId, p.payoutMethod])).toEqual([['bakkus', 'paypal'], ['label_owner', 'stripe']]);
+    expect(added.some(a => a.collection === 'pendingPayouts')).toBe(false);
+  });
+});
+
+describe('artistRefundShares with a track split sheet', () => {
+  it('claws a refunded track back from its own payees, not the release sheet', async () => {
+    const original = { id: 'rel_1', releaseId: 'rel_1', type: 'track', trackId: 'trk_1', price: 2, quantity: 1 };
+    const remix = { id: 'rel_1', releaseId: 'rel_1', type: 'track', trackId: 'trk_2', price: 2, quantity: 1 };
+
+    const shares = await artistRefundShares([original, remix], [remix]);
+
+    // The remix is all of Bakkus's share, and £1 of the label's £1.40
+    expect(shares.get('bakkus')).toBe(1);
+    expect(shares.get('label_owner')).toBeCloseTo(1 / 1.4, 6);
+    expect(shares.has('codeone')).toBe(false);
+    expect(shares.has('mc_guest')).toBe(false);
+  });
+});
+
+describe('saveSplitSheet', () => {
+  const sheet = [{ artistId: 'codeone', percentage: 60 }, { artistId: 'mc_guest', percentage: 40 }];
+
+  it('lets the owner edit until the first sale, recording each change', async () => {
+    const result = await saveSplitSheet(db, { releaseId: 'rel_1', trackId: null, shares: sheet, changedBy: 'label_owner', isAdmin: false });
+    expect(result.success).toBe(true);
+    expect(docs.get('releases/rel_1')!.payoutSplits).toEqual([
+      { artistId: 'codeone', percentage: 60, role: 'artist', name: 'codeone' },
+      { artistId: 'mc_guest', percentage: 40, role: 'artist', name: 'mc_guest' },
+    ]);
+    expect(changes).toHaveLength(1);
+    expect(changes[0]).toMatchObject({ releaseId: 'rel_1', trackId: null, locked: false, changedBy: 'label_owner' });
+  });
+
+  it('locks after the first sale: owners are refused, admins must give a reason', async () => {
+    releaseSold = true;
+    const owner = await saveSplitSheet(db, { releaseId: 'rel_1', trackId: null, shares: sheet, changedBy: 'label_owner', isAdmin: false });
+    expect(owner).toMatchObject({ success: false, status: 409 });
+    expect(docs.get('releases/rel_1')!.splitSheetLockedAt).toEqual(expect.any(String));
+
+    const noReason = await saveSplitSheet(db, { releaseId: 'rel_1', trackId: null, shares: sheet, changedBy: 'admin_1', isAdmin: true });
+    expect(noReason).toMatchObject({ success: false, status: 400 });
+    expect(changes).toHaveLength(0);
+
+    const admin = await saveSplitSheet(db, {
+      releaseId: 'rel_1', trackId: 'trk_2', shares: null, changedBy: 'admin_1', isAdmin: true, reason: 'Remixer waived royalties',
+    });
+    expect(admin.success).toBe(true);
+    expect(changes[0]).toMatchObject({ trackId: 'trk_2', locked: true, reason: 'Remixer waived royalties', shares: null });
+    expect((changes[0]!.previousShares as unknown[]).length).toBe(2);
+    expect(docs.get('releases/rel_1')!.trackSplits).toEqual({});
+  });
+
+  it('refuses payees without an artist account', async () => {
+    const result = await saveSplitSheet(db, {
+      releaseId: 'rel_1', trackId: null, shares: [{ artistId: 'codeone', percentage: 50 }, { artistId: 'nobody', percentage: 50 }],
+      changedBy: 'label_owner', isAdmin: false,
+    });
+    expect(result).toMatchObject({ success: false, status: 400, error: 'No artist account for payee: nobody' });
+  });
+});
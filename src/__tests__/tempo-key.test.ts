@@ -0,0 +1,130 @@
+import { describe, it, expect } from 'vitest';
+import {
+  analyseMusic, estimateBpm, estimateKey, parseMusicalFeatures,
+} from '../../workers/release-processor/src/tempo-key';
+import { bpmAgrees, parseBpm, parseKey } from '../lib/release/musical-key';
+
+const RATE = 11025 / 128;
+
+// An onset envelope for `seconds` of a beat at `bpm`. The break puts its
+// hardest hits on the kick-snare bar, the way drum & bass does, so the
+// strongest period is two beats — the half-time trap.
+function envelope(bpm: number, seconds = 60, breakbeat = true): number[] {
+  const n = Math.round(RATE * seconds);
+  const onsets = new Array<number>(n).fill(0);
+  const beat = (60 * RATE) / bpm;
+  for (let b = 0; b * beat < n; b++) {
+    const strong = breakbeat ? b % 2 === 1 : true;
+    onsets[Math.round(b * beat)] = strong ? 1000 : 400;
+    const offbeat = Math.round((b + 0.5) * beat);
+    if (offbeat < n) onsets[offbeat] = 150;
+  }
+  return onsets;
+}
+
+// Deterministic noise, so a failure reproduces
+function noise(n: number): number[] {
+  let seed = 42;
+  return Array.from({ length: n }, () => {
+    seed = (seed * 1103515245 + 12345) % 2 ** 31;
+    return Math.round((seed / 2 ** 31) * 1000);
+  });
+}
+
+describe('estimateBpm', () => {
+  it('finds drum & bass tempos rather than their half time', () => {
+    expect(estimateBpm(envelope(174), RATE)?.bpm).toBe(174);
+    expect(estimateBpm(envelope(170), RATE)?.bpm).toBe(170);
+    expect(estimateBpm(envelope(165), RATE)?.bpm).toBe(165);
+  });
+
+  it('leaves tempos outside the half-time band alone', () => {
+    expect(estimateBpm(envelope(128, 60, false), RATE)?.bpm).toBe(128);
+    expect(estimateBpm(envelope(140), RATE)?.bpm).toBe(140);
+  });
+
+  it('gives no tempo for something without a beat', () => {
+    expect(estimateBpm(noise(Math.round(RATE * 60)), RATE)).toBeNull();
+  });
+
+  it('needs at least ten seconds', () => {
+    expect(estimateBpm(envelope(174, 5), RATE)).toBeNull();
+  });
+});
+
+describe('estimateKey', () => {
+  // Energy on the tonic triad, strongest on the tonic
+  const triad = (root: number, third: number) => {
+    const chroma = new Array<number>(12).fill(50);
+    chroma[root % 12] = 1000;
+    chroma[(root + third) % 12] = 600;
+    chroma[(root + 7) % 12] = 800;
+    return chroma;
+  };
+
+  it('names minor and major keys in both notations', () => {
+    expect(estimateKey(triad(9, 3))).toMatchObject({ key: 'Am', camelot: '8A' });
+    expect(estimateKey(triad(0, 4))).toMatchObject({ key: 'C', camelot: '8B' });
+    expect(estimateKey(triad(6, 3))).toMatchObject({ key: 'F#m', camelot: '11A' });
+    expect(estimateKey(triad(10, 4))).toMatchObject({ key: 'Bb', camelot: '6B' });
+  });
+
+  it('gives no key for flat chroma', () => {
+    expect(estimateKey(new Array(12).fill(500))).toBeNull();
+  });
+});
+
+describe('parseMusicalFeatures / analyseMusic', () => {
+  it('keeps whichever half is usable', () => {
+    const f = parseMusicalFeatures({ onsetRate: RATE, onsets: [1, 2, 3], chroma: [1, 2] });
+    expect(f).toEqual({ onsetRate: RATE, onsets: [1, 2, 3], chroma: [] });
+    expect(parseMusicalFeatures({ onsetRate: RATE, onsets: [-1], chroma: 'x' })).toBeNull();
+    expect(parseMusicalFeatures(undefined)).toBeNull();
+  });
+
+  it('estimates both from a runner analysis', () => {
+    const chroma = [1000, 50, 50, 50, 600, 50, 50, 800, 50, 50, 50, 50];
+    expect(analyseMusic({ peaks: [], onsetRate: RATE, onsets: envelope(172), chroma }))
+      .toEqual({ bpm: 172, key: 'C', camelot: '8B' });
+    expect(analyseMusic({ peaks: [] })).toBeNull();
+  });
+});
+
+describe('musical-key', () => {
+  it('reads a typed BPM', () => {
+    expect(parseBpm('174')).toBe(174);
+    expect(parseBpm('174 BPM')).toBe(174);
+    expect(parseBpm('86,5')).toBe(86.5);
+    expect(parseBpm('fast')).toBeNull();
+    expect(parseBpm('')).toBeNull();
+  });
+
+  it('counts half and double time as agreeing', () => {
+    expect(bpmAgrees(174, 174)).toBe(true);
+    expect(bpmAgrees(175, 174)).toBe(true);
+    expect(bpmAgrees(87, 174)).toBe(true);
+    expect(bpmAgrees(170, 174)).toBe(false);
+  });
+
+  it('reads Camelot and musical notation', () => {
+    expect(parseKey('8A')).toBe('8A');
+    expect(parseKey('08a')).toBe('8A');
+    expect(parseKey('Am')).toBe('8A');
+    expect(parseKey('A minor')).toBe('8A');
+    expect(parseKey('a min')).toBe('8A');
+    expect(parseKey('C')).toBe('8B');
+    expect(parseKey('C major')).toBe('8B');
+    expect(parseKey('F#m')).toBe('11A');
+    expect(parseKey('Gbm')).toBe('11A');
+    expect(parseKey('E♭m')).toBe('2A');
+    expect(parseKey('Bb')).toBe('6B');
+    expect(parseKey('Db maj')).toBe('3B');
+  });
+
+  it('rejects what is not a key', () => {
+    expect(parseKey('')).toBeNull();
+    expect(parseKey('13A')).toBeNull();
+    expect(parseKey('dark')).toBeNull();
+    expect(parseKey('H minor')).toBeNull();
+  });
+});
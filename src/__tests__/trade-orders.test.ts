@@ -0,0 +1,186 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { read, resetFirestore, write } from './firestore-fake';
+import type { Doc } from './firestore-fake';
+
+// Trade orders price each line from the release's trade tiers, hold stock,
+// and create an unpaid order against the shop's credit limit; paying the
+// invoice later books the ledger and payouts. Reservations, order creation
+// and payouts are mocked; these check the trade bookkeeping around them.
+vi.mock('../lib/firebase-rest', async () => (await import('./firestore-fake')).firebaseRestFake());
+
+const reserveStock = vi.fn(async (..._a: unknown[]) => ({ success: true, reservationId: 'res_1' }));
+const releaseReservation = vi.fn(async (..._a: unknown[]) => {});
+const convertReservation = vi.fn(async (..._a: unknown[]) => {});
+vi.mock('../lib/order/stock-reservation', () => ({
+  reserveStock: (...a: unknown[]) => reserveStock(...a),
+  releaseReservation: (...a: unknown[]) => releaseReservation(...a),
+  convertReservation: (...a: unknown[]) => convertReservation(...a),
+}));
+
+const createOrder = vi.fn(async (params: { orderData: Doc }) => {
+  write('orders', 'order_1', {
+    orderNumber: 'FW-1', ...params.orderData, paymentStatus: params.orderData.paymentStatus || 'completed',
+  });
+  return { success: true, orderId: 'order_1', orderNumber: 'FW-1' };
+});
+vi.mock('../lib/order/creation', () => ({ createOrder: (params: { orderData: Doc }) => createOrder(params) }));
+
+const recordMultiSellerSale = vi.fn(async (..._a: unknown[]) => ({ success: true }));
+vi.mock('../lib/sales-ledger', () => ({ recordMultiSellerSale: (...a: unknown[]) => recordMultiSellerSale(...a) }));
+vi.mock('../lib/stripe-webhook/seller-enrichment', () => ({ enrichItemsWithSellerInfo: vi.fn(async (items: unknown[]) => items) }));
+const processArtistPayments = vi.fn(async (..._a: unknown[]) => {});
+vi.mock('../lib/order/seller-payments', () => ({ processArtistPayments: (...a: unknown[]) => processArtistPayments(...a) }));
+
+const {
+  tradeUnitPrice, normaliseTradePricing, placeTradeOrder, markTradeOrderPaid, retryTradeLedger, isTradeOrderOverdue, getTradeAccount,
+  TRADE_ACCOUNTS_COLLECTION,
+} = await import('../lib/trade');
+type TradeAccount = import('../lib/trade').TradeAccount;
+
+const pricing = { price: 12, minQty: 5, breaks: [{ minQty: 25, price: 10 }, { minQty: 10, price: 11 }] };
+const account = () => read(TRADE_ACCOUNTS_COLLECTION, 'shop_1') as unknown as TradeAccount;
+
+beforeEach(() => {
+  resetFirestore();
+  for (const fn of [reserveStock, releaseReservation, convertReservation, createOrder, recordMultiSellerSale, processArtistPayments]) fn.mockClear();
+  write(TRADE_ACCOUNTS_COLLECTION, 'shop_1', {
+    userId: 'shop_1', shopName: 'Disc Jockey Records', email: 'shop@test.com', vatNumber: null, status: 'active',
+    creditLimit: 500, termsDays: 30, shippingRate: 8, outstanding: 0,
+    shippingAddress: { address1: '1 High St', city: 'Bristol', postcode: 'BS1 1AA', country: 'GB' },
+  });
+  write('releases', 'rel_1', { releaseName: 'Stamp 001', artistName: 'Code One', artistId: 'label_1', tradeEnabled: true, tradePricing: pricing });
+  write('releases', 'rel_2', { releaseName: 'Stamp 002', artistName: 'Bakkus', artistId: 'label_1' });
+});
+
+describe('tradeUnitPrice', () => {
+  it('applies the best break reached and refuses orders under the minimum', () => {
+    expect(tradeUnitPrice(pricing, 4)).toBeNull();
+    expect(tradeUnitPrice(pricing, 5)).toBe(12);
+    expect(tradeUnitPrice(pricing, 10)).toBe(11);
+    expect(tradeUnitPrice(pricing, 50)).toBe(10);
+    expect(tradeUnitPrice(null, 50)).toBeNull();
+  });
+
+  it('normalises breaks into ascending quantity with falling prices', () => {
+    expect(normaliseTradePricing({ price: 12, minQty: 5, breaks: [{ minQty: 25, price: 10 }, { minQty: 10, price: 13 }] }))
+      .toEqual({ price: 12, minQty: 5, breaks: [{ minQty: 25, price: 10 }] });
+  });
+});
+
+describe('placeTradeOrder', () => {
+  it('holds stock and creates an unpaid order due in 30 days', async () => {
+    const result = await placeTradeOrder({
+      account: (await getTradeAccount('shop_1')) as TradeAccount,
+      lines: [{ releaseId: 'rel_1', quantity: 10 }],
+      poNumber: 'PO-77',
+      env: {},
+    });
+
+    expect(result).toMatchObject({ orderId: 'order_1', total: 118 });
+    expect(reserveStock.mock.calls[0]?.[0]).toEqual([expect.objectContaining({ type: 'vinyl', releaseId: 'rel_1', quantity: 10, price: 11 })]);
+    const orderData = createOrder.mock.calls[0]?.[0].orderData as Doc;
+    expect(orderData).toMatchObject({ paymentMethod: 'invoice', paymentStatus: 'awaiting_payment', totals: { subtotal: 110, shipping: 8, total: 118 } });
+    expect(convertReservation).toHaveBeenCalledWith(reserveStock.mock.calls[0]?.[1]);
+
+    const order = read('orders', 'order_1') as Doc;
+    expect(order.tradeAccountId).toBe('shop_1');
+    expect(order.trade).toMatchObject({ poNumber: 'PO-77', termsDays: 30, paidAt: null });
+    const dueIn = Date.parse((order.trade as { dueAt: string }).dueAt) - Date.now();
+    expect(Math.round(dueIn / 86400000)).toBe(30);
+    expect(account().outstanding).toBe(118);
+  });
+
+  it('refuses orders over the remaining credit', async () => {
+    write(TRADE_ACCOUNTS_COLLECTION, 'shop_1', { outstanding: 450 });
+    const result = await placeTradeOrder({ account: account(), lines: [{ releaseId: 'rel_1', quantity: 10 }], env: {} });
+    expect(result).toMatchObject({ status: 402 });
+    expect(reserveStock).not.toHaveBeenCalled();
+  });
+
+  it('refuses releases without trade pricing and lines under the minimum', async () => {
+    expect(await placeTradeOrder({ account: account(), lines: [{ releaseId: 'rel_2', quantity: 10 }], env: {} }))
+      .toMatchObject({ status: 400, error: "Stamp 002 isn't available to trade" });
+    expect(await placeTradeOrder({ account: account(), lines: [{ releaseId: 'rel_1', quantity: 2 }], env: {} }))
+      .toMatchObject({ status: 400, error: 'Stamp 001 has a trade minimum of 5 copies' });
+  });
+
+  it('releases the hold when the order cannot be created', async () => {
+    createOrder.mockImplementationOnce(async () => ({ success: false, error: 'boom' }) as never);
+    const result = await placeTradeOrder({ account: account(), lines: [{ releaseId: 'rel_1', quantity: 5 }], env: {} });
+    expect(result.status).toBe(500);
+    expect(releaseReservation).toHaveBeenCalledWith(reserveStock.mock.calls[0]?.[1]);
+    expect(account().outstanding).toBe(0);
+  });
+
+  it('lets only one of two orders placed together into the same credit', async () => {
+    const results = await Promise.all([
+      placeTradeOrder({ account: account(), lines: [{ releaseId: 'rel_1', quantity: 25 }], env: {} }),
+      placeTradeOrder({ account: account(), lines: [{ releaseId: 'rel_1', quantity: 25 }], env: {} }),
+    ]);
+    expect(results.map(r => r.status)).toEqual([undefined, 402]);
+    expect(reserveStock).toHaveBeenCalledTimes(1);
+    expect(account().outstanding).toBe(258);
+  });
+
+  it('gives the credit back when the stock cannot be held', async () => {
+    reserveStock.mockImplementationOnce(async () => ({ success: false, error: 'Not enough stock' }) as never);
+    const result = await placeTradeOrder({ account: account(), lines: [{ releaseId: 'rel_1', quantity: 5 }], env: {} });
+    expect(result.status).toBe(409);
+    expect(account().outstanding).toBe(0);
+  });
+});
+
+describe('markTradeOrderPaid', () => {
+  it('settles the invoice once, releasing credit and booking the sale', async () => {
+    await placeTradeOrder({ account: account(), lines: [{ releaseId: 'rel_1', quantity: 25 }], env: {} });
+    const order = read('orders', 'order_1') as Doc;
+    expect(isTradeOrderOverdue(order, new Date(Date.now() + 31 * 86400000))).toBe(true);
+
+    expect(await markTradeOrderPaid('order_1', { adminId: 'admin_1', reference: 'BACS 123' }, {})).toEqual({ success: true });
+    const paid = read('orders', 'order_1') as Doc;
+    expect(paid.paymentStatus).toBe('completed');
+    expect(paid.trade).toMatchObject({ paymentReference: 'BACS 123', markedPaidBy: 'admin_1' });
+    expect(isTradeOrderOverdue(paid, new Date(Date.now() + 31 * 86400000))).toBe(false);
+    expect(account().outstanding).toBe(0);
+    expect(recordMultiSellerSale.mock.calls[0]?.[0]).toMatchObject({ paymentMethod: 'invoice', grossTotal: 258, stripeFee: 0 });
+    expect(processArtistPayments.mock.calls[0]?.[0]).toMatchObject({ paymentMethod: 'invoice', actualProcessingFee: 0 });
+
+    expect(await markTradeOrderPaid('order_1', { adminId: 'admin_1' }, {})).toEqual({ success: false, error: 'Invoice is already settled' });
+  });
+
+  it('books the sale once when the invoice is marked paid twice together', async () => {
+    await placeTradeOrder({ account: account(), lines: [{ releaseId: 'rel_1', quantity: 25 }], env: {} });
+    const results = await Promise.all([
+      markTradeOrderPaid('order_1', { adminId: 'admin_1' }, {}),
+      markTradeOrderPaid('order_1', { adminId: 'admin_2' }, {}),
+    ]);
+    expect(results).toEqual([{ success: true }, { success: false, error: 'Invoice is already settled' }]);
+    expect(recordMultiSellerSale).toHaveBeenCalledTimes(1);
+    expect(processArtistPayments).toHaveBeenCalledTimes(1);
+    expect(account().outstanding).toBe(0);
+  });
+
+  it('flags the order when the ledger write fails, and the retry books it', async () => {
+    await placeTradeOrder({ account: account(), lines: [{ releaseId: 'rel_1', quantity: 5 }], env: {} });
+    recordMultiSellerSale.mockImplementationOnce(async () => ({ success: false, error: 'Firestore unavailable' }) as never);
+    expect(await markTradeOrderPaid('order_1', { adminId: 'admin_1' }, {})).toEqual({ success: true });
+    expect(read('orders', 'order_1')).toMatchObject({ paymentStatus: 'completed', ledgerPending: true, ledgerError: 'Firestore unavailable' });
+    expect(processArtistPayments).toHaveBeenCalledTimes(1);
+
+    expect(await retryTradeLedger('order_1', {})).toBe(true);
+    expect(recordMultiSellerSale).toHaveBeenCalledTimes(2);
+    expect(recordMultiSellerSale.mock.calls[1]?.[0]).toMatchObject({ orderId: 'order_1', paymentMethod: 'invoice', grossTotal: 68 });
+    expect(read('orders', 'order_1')).toMatchObject({ ledgerPending: false, ledgerError: null });
+  });
+
+  it('clears the flag without booking again when the ledger already has the sale', async () => {
+    await placeTradeOrder({ account: account(), lines: [{ releaseId: 'rel_1', quantity: 5 }], env: {} });
+    recordMultiSellerSale.mockImplementationOnce(async () => ({ success: false, error: 'timeout' }) as never);
+    await markTradeOrderPaid('order_1', { adminId: 'admin_1' }, {});
+    write('salesLedger', 'ledger_1', { orderId: 'order_1' });
+
+    expect(await retryTradeLedger('order_1', {})).toBe(true);
+    expect(recordMultiSellerSale).toHaveBeenCalledTimes(1);
+    expect(read('orders', 'order_1')).toMatchObject({ ledgerPending: false });
+  });
+});
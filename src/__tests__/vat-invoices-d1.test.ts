@@ -0,0 +1,57 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from 'vitest';
+import { createTestD1 } from './d1-fixture';
+import { d1IssueInvoice, d1ListInvoices } from '../lib/d1/invoices';
+import type { NewInvoice } from '../lib/d1/invoices';
+import type { D1Database } from '../lib/d1/types';
+
+// The invoice numbering SQL run against a real D1: each number is the next
+// after the highest issued, taken in the INSERT that claims the order, so an
+// order keeps one number and the series has no gaps.
+
+let d1: Awaited<ReturnType<typeof createTestD1>>;
+let db: D1Database;
+
+beforeAll(async () => {
+  d1 = await createTestD1(['0000_initial_schema.sql', '0016_add_invoices_and_ledger_vat.sql']);
+  db = d1.db;
+});
+afterAll(() => d1.dispose());
+
+beforeEach(async () => {
+  await db.prepare('DELETE FROM invoices').run();
+});
+
+const invoice = (orderId: string): NewInvoice => ({
+  orderId, orderNumber: null, customerId: null, customerEmail: null, buyerCountry: 'GB', buyerVatNumber: null,
+  net: 5, vat: 1, gross: 6, currency: 'GBP', taxPoint: '2026-10-01T10:00:00Z',
+});
+
+const issuedNumbers = async () =>
+  (await d1ListInvoices(db, { from: '2026-01-01', to: '2027-01-01' })).map(i => [i.orderId, i.invoiceNumber]);
+
+describe('d1IssueInvoice', () => {
+  it('gives an order one number when checkout and the first download race', async () => {
+    const [first, second] = await Promise.all([d1IssueInvoice(db, invoice('order_1')), d1IssueInvoice(db, invoice('order_1'))]);
+    expect(first?.invoiceNumber).toBe(1);
+    expect(second?.invoiceNumber).toBe(1);
+    expect(await issuedNumbers()).toEqual([['order_1', 1]]);
+  });
+
+  it('leaves no gap in the series after a duplicate issue', async () => {
+    await d1IssueInvoice(db, invoice('order_1'));
+    await d1IssueInvoice(db, invoice('order_1'));
+    expect((await d1IssueInvoice(db, invoice('order_2')))?.invoiceNumber).toBe(2);
+    expect(await issuedNumbers()).toEqual([['order_1', 1], ['order_2', 2]]);
+  });
+
+  it('numbers different orders issued together one after another', async () => {
+    const issued = await Promise.all(['order_1', 'order_2', 'order_3'].map(id => d1IssueInvoice(db, invoice(id))));
+    expect(issued.map(i => i?.invoiceNumber).sort()).toEqual([1, 2, 3]);
+  });
+
+  it('keeps the snapshot the order was first issued with', async () => {
+    await d1IssueInvoice(db, invoice('order_1'));
+    const again = await d1IssueInvoice(db, { ...invoice('order_1'), net: 50, vat: 10, gross: 60 });
+    expect(again).toMatchObject({ invoiceNumber: 1, net: 5, vat: 1, gross: 6, buyerCountry: 'GB' });
+  });
+});
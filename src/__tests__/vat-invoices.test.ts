@@ -0,0 +1,205 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { InvoiceRecord } from '../lib/d1-catalog';
+
+// Prices are VAT-inclusive, so VAT never changes what the buyer pays — only
+// how the price is split. These lock the place-of-supply rules per line type,
+// check the ledger carries each seller's VAT, and that invoices keep their
+// first number and render as a readable PDF.
+const addDocument = vi.fn(async (..._a: unknown[]) => ({ id: 'ledger_1' }));
+const d1GetInvoiceByOrder = vi.fn(async (..._a: unknown[]): Promise<InvoiceRecord | null> => null);
+const d1IssueInvoice = vi.fn(async (..._a: unknown[]): Promise<InvoiceRecord | null> => null);
+vi.mock('../lib/firebase-rest', () => ({
+  addDocument: (...a: unknown[]) => addDocument(...a),
+  getDocument: vi.fn(async () => null),
+}));
+vi.mock('../lib/d1-catalog', () => ({
+  d1InsertLedgerEntry: vi.fn(async () => true),
+  d1GetLedgerEntries: vi.fn(async () => []),
+  d1GetInvoiceByOrder: (...a: unknown[]) => d1GetInvoiceByOrder(...a),
+  d1IssueInvoice: (...a: unknown[]) => d1IssueInvoice(...a),
+}));
+
+const { buildVatContext, calculateOrderVat, stripeVatContext, vatCountryCode, vatTreatment } =
+  await import('../lib/order/vat');
+const { buildInvoiceDocument, formatInvoiceNumber, issueOrderInvoice, renderInvoiceHtml, renderInvoicePdf } =
+  await import('../lib/order/invoices');
+const { recordMultiSellerSale } = await import('../lib/sales-ledger');
+
+const uk = buildVatContext({ billingCountry: 'GB' });
+const germanConsumer = buildVatContext({ billingCountry: 'DE' });
+const germanBusiness = buildVatContext({ billingCountry: 'DE', vatNumber: 'de 123 456 789' });
+const american = buildVatContext({ billingCountry: 'US', shippingCountry: 'United States' });
+
+const release = { id: 'rel_1', type: 'digital', name: 'Stamp Series Vol 1', price: 6, quantity: 1 };
+const vinyl = { id: 'rel_2', type: 'vinyl', name: 'Stamp Series 12"', price: 12, quantity: 2 };
+
+describe('vatTreatment', () => {
+  it('taxes digital lines where the buyer is', () => {
+    expect(vatTreatment('digital', uk)).toEqual({ treatment: 'uk', country: 'GB', rate: 20 });
+    expect(vatTreatment('digital', germanConsumer)).toEqual({ treatment: 'oss', country: 'DE', rate: 19 });
+    expect(vatTreatment('digital', germanBusiness)).toEqual({ treatment: 'reverse_charge', country: 'DE', rate: 0 });
+    expect(vatTreatment('digital', american)).toEqual({ treatment: 'outside_scope', country: 'US', rate: 0 });
+  });
+
+  it('taxes physical goods and postage by delivery country', () => {
+    expect(vatTreatment('physical', uk).rate).toBe(20);
+    expect(vatTreatment('shipping', germanConsumer)).toEqual({ treatment: 'export', country: 'DE', rate: 0 });
+    // A UK delivery is UK VAT even when the card is billed abroad
+    const billedAbroad = buildVatContext({ billingCountry: 'FR', shippingCountry: 'United Kingdom' });
+    expect(vatTreatment('physical', billedAbroad).treatment).toBe('uk');
+  });
+
+  it('leaves gift cards outside scope', () => {
+    expect(vatTreatment('gift_card', uk)).toEqual({ treatment: 'outside_scope', country: 'GB', rate: 0 });
+  });
+});
+
+describe('buildVatContext', () => {
+  it('resolves display names, falls back to the delivery country, then the UK', () => {
+    expect(vatCountryCode('Germany')).toBe('DE');
+    expect(vatCountryCode('Austria')).toBe('AT');
+    expect(vatCountryCode('uk')).toBe('GB');
+    expect(buildVatContext({ shippingCountry: 'Ireland' }).country).toBe('IE');
+    expect(buildVatContext({}).country).toBe('GB');
+    expect(germanBusiness.vatNumber).toBe('DE123456789');
+  });
+
+  it('reads the billing country and tax id from a Stripe session', () => {
+    const context = stripeVatContext({
+      customer_details: { address: { country: 'NL' }, tax_ids: [{ type: 'eu_vat', value: 'NL123456789B01' }] },
+    }, 'United Kingdom');
+    expect(context).toEqual({ country: 'NL', shippingCountry: 'GB', vatNumber: 'NL123456789B01' });
+  });
+});
+
+describe('calculateOrderVat', () => {
+  it('extracts VAT from inclusive prices per line and totals it per rate', () => {
+    const vat = calculateOrderVat({ items: [release as never, vinyl as never], shipping: 4.99 }, uk);
+    expect(vat.lines.map(l => [l.kind, l.gross, l.vat])).toEqual([
+      ['digital', 6, 1],
+      ['physical', 24, 4],
+      ['shipping', 4.99, 0.83],
+    ]);
+    expect(vat.byRate).toEqual([{ treatment: 'uk', country: 'GB', rate: 20, net: 29.16, vat: 5.83, gross: 34.99 }]);
+    expect(vat.gross).toBe(34.99);
+    expect(Math.round((vat.net + vat.vat) * 100)).toBe(3499);
+  });
+
+  it('splits an EU order between OSS digital and a zero-rated export', () => {
+    const vat = calculateOrderVat({ items: [release as never, vinyl as never], shipping: 9.99 }, germanConsumer);
+    expect(vat.byRate.map(g => [g.treatment, g.rate, g.vat])).toEqual([['oss', 19, 0.96], ['export', 0, 0]]);
+  });
+});
+
+describe('recordMultiSellerSale', () => {
+  beforeEach(() => addDocument.mockClear());
+
+  it('records the VAT inside each seller\'s gross', async () => {
+    await recordMultiSellerSale({
+      orderId: 'order_1',
+      orderNumber: 'FW-1',
+      customerEmail: 'buyer@test.com',
+      grossTotal: 30,
+      stripeFee: 0.62,
+      freshWaxFee: 0.3,
+      paymentMethod: 'stripe',
+      vat: germanConsumer,
+      items: [
+        { ...release, submitterId: 'artist_a' },
+        { ...vinyl, submitterId: 'artist_b' },
+      ],
+    });
+    const entries = addDocument.mock.calls.map(c => c[1] as Record<string, unknown>);
+    const bySeller = Object.fromEntries(entries.map(e => [e.submitterId, e]));
+    expect(bySeller.artist_a).toMatchObject({ vat: 0.96, vatCountry: 'DE' });
+    expect(bySeller.artist_b).toMatchObject({ vat: 0, vatCountry: 'DE' });
+  });
+});
+
+const order = {
+  orderNumber: 'FW-261019-ABC123',
+  customer: { firstName: 'Ana', lastName: 'Schmidt', email: 'ana@example.com', userId: 'user_1' },
+  shipping: null,
+  items: [release],
+  totals: { subtotal: 6, shipping: 0, total: 6 },
+  vat: calculateOrderVat({ items: [release as never] }, germanBusiness),
+  currency: 'GBP',
+  createdAt: '2026-10-19T10:00:00.000Z',
+};
+
+const record = (over: Partial<InvoiceRecord> = {}): InvoiceRecord => ({
+  invoiceNumber: 42,
+  orderId: 'order_1',
+  orderNumber: order.orderNumber,
+  customerId: 'user_1',
+  customerEmail: 'ana@example.com',
+  buyerCountry: 'DE',
+  buyerVatNumber: 'DE123456789',
+  net: 6,
+  vat: 0,
+  gross: 6,
+  currency: 'GBP',
+  taxPoint: order.createdAt,
+  issuedAt: '2026-10-19 10:00:05',
+  ...over,
+});
+
+describe('issueOrderInvoice', () => {
+  const db = {} as never;
+
+  beforeEach(() => {
+    d1GetInvoiceByOrder.mockReset().mockResolvedValue(null);
+    d1IssueInvoice.mockReset().mockResolvedValue(record());
+  });
+
+  it('keeps the number an order was first given', async () => {
+    d1GetInvoiceByOrder.mockResolvedValue(record({ invoiceNumber: 7 }));
+    expect((await issueOrderInvoice(db, 'order_1', order))?.invoiceNumber).toBe(7);
+    expect(d1IssueInvoice).not.toHaveBeenCalled();
+  });
+
+  it('issues the next number with a snapshot of the VAT', async () => {
+    await issueOrderInvoice(db, 'order_1', order);
+    expect(d1IssueInvoice).toHaveBeenCalledWith(db, expect.objectContaining({
+      orderId: 'order_1', buyerCountry: 'DE', buyerVatNumber: 'DE123456789', vat: 0, gross: 6, taxPoint: order.createdAt,
+    }));
+  });
+});
+
+describe('invoice rendering', () => {
+  const seller = { name: 'Fresh Wax', address: ['1 High Street', 'Bristol'], vatNumber: 'GB123456789', email: 'contact@freshwax.co.uk' };
+  const invoice = buildInvoiceDocument(order, record(), seller);
+
+  it('numbers invoices sequentially with a fixed width', () => {
+    expect(formatInvoiceNumber(42)).toBe('FW-INV-000042');
+    expect(invoice.number).toBe('FW-INV-000042');
+    expect(invoice.title).toBe('VAT Invoice');
+  });
+
+  it('prints the buyer VAT number and the reverse-charge wording', () => {
+    const html = renderInvoiceHtml(invoice);
+    expect(html).toContain('DE123456789');
+    expect(html).toContain('Reverse charge');
+    expect(html).toContain('VAT reg. no. GB123456789');
+  });
+
+  it('works out VAT for orders placed before it was recorded', () => {
+    const legacy = buildInvoiceDocument({ ...order, vat: undefined, shipping: { country: 'United Kingdom' } }, record(), seller);
+    expect(legacy.vat).toBe(1);
+    expect(legacy.byRate[0]?.treatment).toBe('uk');
+  });
+
+  it('renders a PDF whose cross-reference table points at its objects', () => {
+    const pdf = new TextDecoder().decode(renderInvoicePdf(invoice));
+    expect(pdf.startsWith('%PDF-1.4')).toBe(true);
+    expect(pdf.trimEnd().endsWith('%%EOF')).toBe(true);
+    expect(pdf).toContain('FW-INV-000042');
+
+    const startxref = Number(pdf.match(/startxref\n(\d+)/)?.[1]);
+    expect(pdf.slice(startxref, startxref + 4)).toBe('xref');
+    const offsets = [...pdf.slice(startxref).matchAll(/^(\d{10}) 00000 n $/gm)].map(m => Number(m[1]));
+    offsets.forEach((offset, i) => {
+      expect(pdf.slice(offset, offset + `${i + 1} 0 obj`.length)).toBe(`${i + 1} 0 obj`);
+    });
+  });
+});
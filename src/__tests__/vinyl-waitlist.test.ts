@@ -0,0 +1,180 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { coll, resetFirestore, write } from './firestore-fake';
+
+// The waitlist rides on the real reservation code, so these run it against a
+// small in-memory Firestore: holds move vinylReserved, convert/expiry settle
+// the entry, and an expired hold rolls to the next person in line.
+vi.mock('../lib/firebase-rest', async () => (await import('./firestore-fake')).firebaseRestFake());
+
+const sendResendEmail = vi.fn(async (..._a: unknown[]) => ({ success: true }));
+vi.mock('../lib/email', () => ({ sendResendEmail: (...a: unknown[]) => sendResendEmail(...a) }));
+
+const { joinWaitlist, offerWaitlistHolds, findWaitlistHolds, waitlistHoldCartLine, availableVinyl, WAITLIST_COLLECTION } =
+  await import('../lib/order/waitlist');
+const { reserveStock, releaseReservation, convertReservation, cleanupExpiredReservations } = await import('../lib/order/stock-reservation');
+const { validateStock } = await import('../lib/order/stock-validation');
+
+const env = { RESEND_API_KEY: 're_test' };
+const entry = (id: string) => coll(WAITLIST_COLLECTION).get(id) || {};
+const release = () => coll('releases').get('rel_1') || {};
+
+beforeEach(() => {
+  resetFirestore();
+  sendResendEmail.mockClear();
+  write('releases', 'rel_1', { releaseName: 'Stamp Series 12"', vinylStock: 0, vinylReserved: 0 });
+});
+
+async function queue(...emails: string[]): Promise<string[]> {
+  const ids: string[] = [];
+  for (const email of emails) {
+    ids.push((await joinWaitlist({ releaseId: 'rel_1', email })).id);
+    // Entries are served in createdAt order
+    await new Promise(resolve => setTimeout(resolve, 2));
+  }
+  return ids;
+}
+
+describe('joinWaitlist', () => {
+  it('queues each email once, in order', async () => {
+    await queue('a@test.com', 'b@test.com');
+    const again = await joinWaitlist({ releaseId: 'rel_1', email: 'B@test.com' });
+    expect(again).toMatchObject({ position: 2, alreadyQueued: true });
+    expect(coll(WAITLIST_COLLECTION).size).toBe(2);
+  });
+});
+
+describe('offerWaitlistHolds', () => {
+  it('holds returned copies for the front of the queue only', async () => {
+    const [first, second, third] = await queue('a@test.com', 'b@test.com', 'c@test.com');
+    write('releases', 'rel_1', { vinylStock: 2 });
+
+    expect(await offerWaitlistHolds('rel_1', env)).toBe(2);
+
+    expect(entry(first as string)).toMatchObject({ status: 'offered' });
+    expect(entry(second as string)).toMatchObject({ status: 'offered' });
+    expect(entry(third as string)).toMatchObject({ status: 'waiting' });
+    expect(release().vinylReserved).toBe(2);
+    expect(availableVinyl(release(), null)).toBe(0);
+
+    const hold = coll('stock-reservations').get(String(entry(first as string).reservationId)) || {};
+    expect(hold).toMatchObject({ status: 'active', waitlistEntryIds: [first] });
+    const ttl = Date.parse(String(hold.expiresAt)) - Date.parse(String(hold.createdAt));
+    expect(ttl).toBe(24 * 60 * 60 * 1000);
+
+    expect(sendResendEmail).toHaveBeenCalledTimes(2);
+    expect(sendResendEmail.mock.calls[0]?.[0]).toMatchObject({ to: 'a@test.com', subject: 'Your copy is on hold: Stamp Series 12"' });
+    // The button goes to that buyer's own checkout, not the product page
+    expect(String((sendResendEmail.mock.calls[0]?.[0] as { html: string }).html)).toContain(`/cart/?hold=${first}`);
+  });
+
+  it('does nothing while every copy is spoken for', async () => {
+    await queue('a@test.com');
+    write('releases', 'rel_1', { vinylStock: 3, vinylReserved: 3 });
+    expect(await offerWaitlistHolds('rel_1', env)).toBe(0);
+    expect(sendResendEmail).not.toHaveBeenCalled();
+  });
+});
+
+describe('hold lifecycle', () => {
+  const cart = [{ type: 'vinyl', releaseId: 'rel_1', name: 'Stamp Series 12"', quantity: 1 }];
+
+  async function offerOne(): Promise<string> {
+    const [first] = await queue('a@test.com');
+    write('releases', 'rel_1', { vinylStock: 1 });
+    await offerWaitlistHolds('rel_1', env);
+    return first as string;
+  }
+
+  it('lets the holder spend it at checkout and marks them purchased', async () => {
+    const first = await offerOne();
+    const holdId = String(entry(first).reservationId);
+
+    expect(await findWaitlistHolds(cart, { email: 'someone@else.com' })).toEqual([]);
+    expect((await validateStock(cart)).available).toBe(false);
+
+    const holds = await findWaitlistHolds(cart, { email: 'A@test.com' });
+    expect(holds).toEqual([{ entryId: first, reservationId: holdId, releaseId: 'rel_1', vinylPartId: null }]);
+    expect((await validateStock(cart, holds)).available).toBe(true);
+
+    // The checkout's reservation takes the held copy over rather than a new one
+    const reservation = await reserveStock(cart, 'stripe_1', undefined, { waitlistHolds: holds });
+    expect(reservation.success).toBe(true);
+    expect(release().vinylReserved).toBe(1);
+    expect(coll('stock-reservations').get(holdId)?.status).toBe('transferred');
+
+    await convertReservation(String(reservation.reservationId));
+    expect(entry(first).status).toBe('purchased');
+  });
+
+  it('gives the hold back to the buyer when their checkout fails', async () => {
+    const first = await offerOne();
+    const holdId = String(entry(first).reservationId);
+    const holds = await findWaitlistHolds(cart, { email: 'a@test.com' });
+
+    const reservation = await reserveStock(cart, 'stripe_1', undefined, { waitlistHolds: holds });
+    await releaseReservation(String(reservation.reservationId));
+
+    expect(coll('stock-reservations').get(holdId)?.status).toBe('active');
+    expect(entry(first).status).toBe('offered');
+    expect(release().vinylReserved).toBe(1);
+    expect((await validateStock(cart)).available).toBe(false);
+
+    // A reservation that fails outright hands the hold straight back too
+    const tooMany = await reserveStock([{ ...cart[0], quantity: 2 }], 'stripe_2', undefined, { waitlistHolds: holds });
+    expect(tooMany.success).toBe(false);
+    expect(coll('stock-reservations').get(holdId)?.status).toBe('active');
+    expect(release().vinylReserved).toBe(1);
+
+    expect(await findWaitlistHolds(cart, { email: 'a@test.com' })).toEqual(holds);
+  });
+
+  it('gives the hold back when the checkout reservation expires', async () => {
+    const first = await offerOne();
+    const holdId = String(entry(first).reservationId);
+    const holds = await findWaitlistHolds(cart, { email: 'a@test.com' });
+    const reservation = await reserveStock(cart, 'stripe_1', undefined, { waitlistHolds: holds });
+    write('stock-reservations', String(reservation.reservationId), { expiresAt: '2020-01-01T00:00:00.000Z' });
+    sendResendEmail.mockClear();
+
+    expect(await cleanupExpiredReservations(env)).toBe(1);
+
+    expect(coll('stock-reservations').get(holdId)?.status).toBe('active');
+    expect(entry(first).status).toBe('offered');
+    expect(release().vinylReserved).toBe(1);
+    expect(sendResendEmail).not.toHaveBeenCalled();
+  });
+
+  it('puts the held copy in the cart for its buyer only', async () => {
+    write('releases', 'rel_1', { artistName: 'Stamp', vinylPrice: 12.99 });
+    const first = await offerOne();
+
+    expect(await waitlistHoldCartLine(first, { email: 'someone@else.com' })).toBeNull();
+    expect(await waitlistHoldCartLine(first, { email: 'A@test.com' })).toMatchObject({
+      id: 'rel_1', releaseId: 'rel_1', type: 'vinyl', name: 'Stamp - Stamp Series 12"', price: 12.99, quantity: 1,
+    });
+  });
+
+  it('rolls an expired hold to the next person in line', async () => {
+    const [first, second] = await queue('a@test.com', 'b@test.com');
+    write('releases', 'rel_1', { vinylStock: 1 });
+    await offerWaitlistHolds('rel_1', env);
+
+    const holdId = String(entry(first as string).reservationId);
+    write('stock-reservations', holdId, { expiresAt: '2020-01-01T00:00:00.000Z' });
+
+    expect(await cleanupExpiredReservations(env)).toBe(1);
+
+    expect(entry(first as string).status).toBe('lapsed');
+    expect(entry(second as string).status).toBe('offered');
+    expect(release().vinylReserved).toBe(1);
+    expect(sendResendEmail.mock.calls.at(-1)?.[0]).toMatchObject({ to: 'b@test.com' });
+  });
+});
+
+describe('availableVinyl', () => {
+  it('counts a multi-part release per part and skips unpressed parts', () => {
+    const doc = { vinylParts: [{ stock: 5, reserved: 2 }, { stock: 5, pressed: false }] };
+    expect(availableVinyl(doc, 'part-1')).toBe(3);
+    expect(availableVinyl(doc, 'part-2')).toBe(0);
+  });
+});
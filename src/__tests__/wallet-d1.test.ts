@@ -0,0 +1,97 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from 'vitest';
+import { createTestD1 } from './d1-fixture';
+import { d1GetWallet, d1GetWalletTransaction, d1OpenWallet, d1PostWalletTransaction } from '../lib/d1/wallet';
+import type { WalletTransaction as Tx } from '../lib/d1/wallet';
+import type { D1Database } from '../lib/d1/types';
+
+// The wallet SQL run against a real D1: a transaction row and the balance it
+// moves are written together, so a failure part-way leaves neither and a
+// retry with the same id still posts.
+
+let d1: Awaited<ReturnType<typeof createTestD1>>;
+let db: D1Database;
+
+beforeAll(async () => {
+  d1 = await createTestD1(['0023_add_wallet.sql']);
+  db = d1.db;
+});
+afterAll(() => d1.dispose());
+
+beforeEach(async () => {
+  for (const table of ['wallets', 'wallet_transactions', 'wallet_credits']) {
+    await db.prepare(`DELETE FROM ${table}`).run();
+  }
+  await db.prepare('DROP TRIGGER IF EXISTS fail_balance').run();
+});
+
+function tx(overrides: Partial<Tx> = {}): Tx {
+  return {
+    id: 'spend:order_1', userId: 'user_1', type: 'spend', amount: -5, balanceAfter: null, description: 'Order FW-1',
+    reference: null, orderId: 'order_1', creditId: null, expiresAt: null, createdBy: null, ...overrides,
+  };
+}
+
+// Make every balance update fail, as a D1 error part-way through a post would
+const failBalanceUpdates = () => db.prepare(
+  "CREATE TRIGGER fail_balance BEFORE UPDATE ON wallets BEGIN SELECT RAISE(ABORT, 'balance update failed'); END"
+).run();
+
+const count = async (table: string) => Number((await db.prepare(`SELECT COUNT(*) AS n FROM ${table}`).first())?.n);
+
+describe('d1PostWalletTransaction', () => {
+  beforeEach(async () => {
+    await d1OpenWallet(db, 'user_1', tx({ id: 'opening:user_1', type: 'opening_balance', amount: 20, orderId: null }));
+  });
+
+  it('moves the balance, records it on the row and opens a credit', async () => {
+    expect(await d1GetWallet(db, 'user_1')).toMatchObject({ balance: 20 });
+    expect(await d1GetWalletTransaction(db, 'opening:user_1')).toMatchObject({ amount: 20, balanceAfter: 20 });
+    expect(await count('wallet_credits')).toBe(1);
+
+    expect(await d1PostWalletTransaction(db, tx())).toEqual({ posted: true, balance: 15 });
+    expect(await d1GetWalletTransaction(db, 'spend:order_1')).toMatchObject({ amount: -5, balanceAfter: 15 });
+    expect(await count('wallet_credits')).toBe(1);
+  });
+
+  it('posts a transaction id once', async () => {
+    await d1PostWalletTransaction(db, tx());
+    expect(await d1PostWalletTransaction(db, tx())).toEqual({ posted: false, reason: 'duplicate' });
+    expect(await d1GetWallet(db, 'user_1')).toMatchObject({ balance: 15 });
+  });
+
+  it('refuses a debit the balance does not cover, leaving no row', async () => {
+    expect(await d1PostWalletTransaction(db, tx({ amount: -25 }))).toEqual({ posted: false, reason: 'insufficient' });
+    expect(await d1GetWalletTransaction(db, 'spend:order_1')).toBeNull();
+    expect(await d1GetWallet(db, 'user_1')).toMatchObject({ balance: 20 });
+  });
+
+  it('writes nothing when the balance update fails, so the retry still posts', async () => {
+    await failBalanceUpdates();
+    expect(await d1PostWalletTransaction(db, tx())).toEqual({ posted: false, reason: 'error' });
+    expect(await d1GetWalletTransaction(db, 'spend:order_1')).toBeNull();
+
+    await db.prepare('DROP TRIGGER fail_balance').run();
+    expect(await d1PostWalletTransaction(db, tx())).toEqual({ posted: true, balance: 15 });
+  });
+});
+
+describe('d1OpenWallet', () => {
+  const opening = tx({ id: 'opening:user_2', userId: 'user_2', type: 'opening_balance', amount: 12.5, orderId: null });
+
+  it('opens no wallet when its opening balance cannot be posted', async () => {
+    await failBalanceUpdates();
+    expect(await d1OpenWallet(db, 'user_2', opening)).toBe(false);
+    expect(await d1GetWallet(db, 'user_2')).toBeNull();
+
+    await db.prepare('DROP TRIGGER fail_balance').run();
+    expect(await d1OpenWallet(db, 'user_2', opening)).toBe(true);
+    expect(await d1GetWallet(db, 'user_2')).toMatchObject({ balance: 12.5 });
+  });
+
+  it('carries the opening balance over once when opened twice', async () => {
+    await d1OpenWallet(db, 'user_2', opening);
+    await d1OpenWallet(db, 'user_2', opening);
+    expect(await d1GetWallet(db, 'user_2')).toMatchObject({ balance: 12.5 });
+    expect(await count('wallet_transactions')).toBe(1);
+  });
+});
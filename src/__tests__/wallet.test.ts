@@ -0,0 +1,226 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+// Store credit wallet: one balance with an append-only transaction log,
+// legacy userCredits balances carried over on first use, spends drawn from
+// the soonest-expiring credit, and lapsed credit expired into revenue.
+type Tx = import('../lib/d1/wallet').WalletTransaction;
+type Credit = import('../lib/d1/wallet').WalletCredit;
+
+const wallets = new Map<string, number>();
+const transactions = new Map<string, Tx>();
+const credits = new Map<string, Credit>();
+const journal: Array<{ id: string; lines: Array<{ account: string; partyId: string | null; debitPence: number; creditPence: number }> }> = [];
+const legacyCredits = new Map<string, Record<string, unknown>>();
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+function postTransaction(tx: Tx, source?: string) {
+  if (transactions.has(tx.id)) return { posted: false, reason: 'duplicate' };
+  const balance = wallets.get(tx.userId);
+  if (balance === undefined || balance + tx.amount < -0.005) return { posted: false, reason: 'insufficient' };
+  const after = round2(balance + tx.amount);
+  wallets.set(tx.userId, after);
+  transactions.set(tx.id, { ...tx, balanceAfter: after, createdAt: new Date().toISOString() });
+  if (source && tx.amount > 0) {
+    credits.set(tx.id, { id: tx.id, userId: tx.userId, source: source as Credit['source'], amount: tx.amount, remaining: tx.amount, expiresAt: tx.expiresAt });
+  }
+  return { posted: true, balance: after };
+}
+
+const d1OpenWallet = vi.fn(async (_db: unknown, userId: string, opening: Tx | null) => {
+  if (!wallets.has(userId)) wallets.set(userId, 0);
+  if (opening) postTransaction(opening, 'opening_balance');
+  return true;
+});
+
+vi.mock('../lib/d1/wallet', () => ({
+  d1GetWallet: vi.fn(async (_db: unknown, userId: string) =>
+    wallets.has(userId) ? { balance: wallets.get(userId)!, updatedAt: null } : null),
+  d1OpenWallet: (...a: Parameters<typeof d1OpenWallet>) => d1OpenWallet(...a),
+  d1PostWalletTransaction: vi.fn(async (_db: unknown, tx: Tx, source?: string) => postTransaction(tx, source)),
+  d1GetWalletTransaction: vi.fn(async (_db: unknown, id: string) => transactions.get(id) || null),
+  d1GetWalletTransactions: vi.fn(async (_db: unknown, userId: string) =>
+    [...transactions.values()].filter(t => t.userId === userId).reverse()),
+  d1GetOpenCredits: vi.fn(async (_db: unknown, userId: string) =>
+    [...credits.values()]
+      .filter(c => c.userId === userId && c.remaining > 0)
+      .sort((a, b) => (a.expiresAt === null ? 1 : 0) - (b.expiresAt === null ? 1 : 0) || String(a.expiresAt).localeCompare(String(b.expiresAt)))
+      .map(c => ({ ...c }))),
+  d1DrawCredit: vi.fn(async (_db: unknown, id: string, amount: number) => {
+    const credit = credits.get(id)!;
+    if (credit.remaining < amount - 0.005) return false;
+    credit.remaining = round2(credit.remaining - amount);
+    return true;
+  }),
+  d1GetLapsedCredits: vi.fn(async (_db: unknown, now: string) =>
+    [...credits.values()].filter(c => c.expiresAt && c.expiresAt <= now && c.remaining > 0).map(c => ({ ...c }))),
+  d1ClaimLapsedCredit: vi.fn(async (_db: unknown, id: string, remaining: number) => {
+    const credit = credits.get(id)!;
+    if (credit.remaining !== remaining) return false;
+    credit.remaining = 0;
+    return true;
+  }),
+  d1RestoreCredit: vi.fn(async (_db: unknown, id: string, remaining: number) => {
+    credits.get(id)!.remaining = remaining;
+  }),
+}));
+
+vi.mock('../lib/d1/journal', () => ({
+  MAX_JOURNAL_LINES: 14,
+  d1InsertJournalEntry: vi.fn(async (_db: unknown, entry: (typeof journal)[number]) => {
+    if (!journal.some(e => e.id === entry.id)) journal.push(entry);
+    return true;
+  }),
+  d1GetJournalLines: vi.fn(async () => []),
+  d1GetJournalBalances: vi.fn(async () => []),
+}));
+
+const mockUpdateDocument = vi.fn(async (..._args: unknown[]) => ({}));
+vi.mock('../lib/firebase-rest', () => ({
+  getDocument: vi.fn(async (collection: string, id: string) => (collection === 'userCredits' ? legacyCredits.get(id) || null : null)),
+  updateDocument: (...args: unknown[]) => mockUpdateDocument(...args),
+}));
+
+const { creditWallet, spendWallet, adjustWallet, refundToWallet, getWallet, expireWalletCredits, walletExpiryFor } = await import('../lib/wallet');
+
+const db = {} as never;
+
+beforeEach(() => {
+  wallets.clear();
+  transactions.clear();
+  credits.clear();
+  journal.length = 0;
+  legacyCredits.clear();
+  mockUpdateDocument.mockClear();
+});
+
+describe('opening a wallet', () => {
+  it('carries a legacy userCredits balance over as an opening balance', async () => {
+    legacyCredits.set('user_1', { balance: 12.5, transactions: [] });
+
+    const result = await creditWallet(db, { userId: 'user_1', source: 'gift_card', amount: 10, id: 'giftcard:gc_1', description: 'Gift card' });
+
+    expect(result).toMatchObject({ success: true, balance: 22.5 });
+    expect(transactions.get('opening:user_1')).toMatchObject({ type: 'opening_balance', amount: 12.5 });
+    expect(mockUpdateDocument).toHaveBeenCalledWith('userCredits', 'user_1', expect.objectContaining({ balance: 22.5 }));
+    expect(mockUpdateDocument).toHaveBeenCalledWith('users', 'user_1', expect.objectContaining({ creditBalance: 22.5 }));
+  });
+
+  it('opens nothing when the opening balance cannot be written, so a retry still carries it over', async () => {
+    legacyCredits.set('user_1', { balance: 12.5, transactions: [] });
+    d1OpenWallet.mockResolvedValueOnce(false);
+
+    const first = await creditWallet(db, { userId: 'user_1', source: 'gift_card', amount: 10, id: 'giftcard:gc_1', description: 'Gift card' });
+    expect(first).toMatchObject({ success: false, error: 'Wallet not available' });
+    expect(transactions.has('giftcard:gc_1')).toBe(false);
+
+    const retry = await creditWallet(db, { userId: 'user_1', source: 'gift_card', amount: 10, id: 'giftcard:gc_1', description: 'Gift card' });
+    expect(retry).toMatchObject({ success: true, balance: 22.5 });
+  });
+
+  it('fails without a database', async () => {
+    expect((await creditWallet(undefined, { userId: 'user_1', source: 'top_up', amount: 5, description: 'Top-up' })).success).toBe(false);
+  });
+});
+
+describe('spendWallet', () => {
+  it('refuses a spend the balance does not cover', async () => {
+    await creditWallet(db, { userId: 'user_1', source: 'top_up', amount: 5, description: 'Top-up' });
+
+    const result = await spendWallet(db, { userId: 'user_1', amount: 8, id: 'spend:order_1', description: 'Order' });
+
+    expect(result).toMatchObject({ success: false, error: 'Insufficient credit balance' });
+    expect(wallets.get('user_1')).toBe(5);
+  });
+
+  it('spends once per order id', async () => {
+    await creditWallet(db, { userId: 'user_1', source: 'top_up', amount: 20, description: 'Top-up' });
+
+    await spendWallet(db, { userId: 'user_1', amount: 8, id: 'spend:order_1', description: 'Order' });
+    const replay = await spendWallet(db, { userId: 'user_1', amount: 8, id: 'spend:order_1', description: 'Order' });
+
+    expect(replay).toMatchObject({ success: true, duplicate: true, balance: 12 });
+    expect(wallets.get('user_1')).toBe(12);
+  });
+
+  it('uses up the soonest-expiring credit first', async () => {
+    await creditWallet(db, { userId: 'user_1', source: 'gift_card', amount: 10, id: 'gc', description: 'Gift card' });
+    await creditWallet(db, { userId: 'user_1', source: 'promotional', amount: 5, id: 'promo', description: 'Welcome' });
+    await creditWallet(db, { userId: 'user_1', source: 'referral_bonus', amount: 3, id: 'ref', description: 'Referral' });
+
+    await spendWallet(db, { userId: 'user_1', amount: 6, description: 'Order' });
+
+    expect(credits.get('ref')!.remaining).toBe(0);
+    expect(credits.get('promo')!.remaining).toBe(2);
+    expect(credits.get('gc')!.remaining).toBe(10);
+  });
+});
+
+describe('adjustWallet', () => {
+  it('takes the balance to zero rather than below it', async () => {
+    await creditWallet(db, { userId: 'user_1', source: 'top_up', amount: 4, description: 'Top-up' });
+
+    const result = await adjustWallet(db, { userId: 'user_1', amount: -10, description: 'Correction', createdBy: 'admin_1' });
+
+    expect(result).toMatchObject({ success: true, balance: 0 });
+    expect([...transactions.values()].at(-1)).toMatchObject({ type: 'adjustment', amount: -4, createdBy: 'admin_1' });
+  });
+});
+
+describe('refundToWallet', () => {
+  it('moves a reversed card refund from the processor onto the credit liability', async () => {
+    const result = await refundToWallet(db, {
+      userId: 'user_1', amount: 15, refundId: 'wallet_r1', orderId: 'order_1', orderNumber: 'FW-1', paymentMethod: 'stripe', reversed: true,
+    });
+
+    expect(result).toMatchObject({ success: true, balance: 15 });
+    expect(transactions.get('refund:wallet_r1')).toMatchObject({ type: 'refund', orderId: 'order_1' });
+    expect(journal[0]!.id).toBe('wallet-refund:wallet_r1');
+    expect(journal[0]!.lines).toEqual([
+      expect.objectContaining({ account: 'processor_clearing', partyId: 'stripe', debitPence: 1500 }),
+      expect.objectContaining({ account: 'gift_card_liability', creditPence: 1500 }),
+    ]);
+  });
+
+  it('leaves the journal alone for orders paid with credit', async () => {
+    await refundToWallet(db, { userId: 'user_1', amount: 5, refundId: 'wallet_r2', orderId: 'order_2', paymentMethod: 'credit', reversed: true });
+    expect(journal).toHaveLength(0);
+  });
+});
+
+describe('expiry', () => {
+  it('gives referral and promotional credit an expiry, and gift cards none', () => {
+    const from = new Date('2026-01-01T00:00:00Z');
+    expect(walletExpiryFor('referral_bonus', from)).toBe('2026-04-01T00:00:00.000Z');
+    expect(walletExpiryFor('promotional', from)).toBe('2027-01-01T00:00:00.000Z');
+    expect(walletExpiryFor('gift_card', from)).toBeNull();
+  });
+
+  it('expires what is left of lapsed credit into revenue, once', async () => {
+    await creditWallet(db, { userId: 'user_1', source: 'gift_card', amount: 10, id: 'gc', description: 'Gift card' });
+    await creditWallet(db, { userId: 'user_1', source: 'referral_bonus', amount: 5, id: 'ref', description: 'Referral' });
+    await spendWallet(db, { userId: 'user_1', amount: 2, description: 'Order' });
+
+    const later = new Date(Date.now() + 91 * 86_400_000);
+    const outcome = await expireWalletCredits(db, later);
+    const again = await expireWalletCredits(db, later);
+
+    expect(outcome).toEqual({ expired: 1, amount: 3, failed: 0 });
+    expect(again.expired).toBe(0);
+    expect(wallets.get('user_1')).toBe(10);
+    expect(transactions.get('expiry:ref')).toMatchObject({ type: 'expiry', amount: -3, creditId: 'ref' });
+    expect(journal[0]!.lines).toEqual([
+      expect.objectContaining({ account: 'gift_card_liability', debitPence: 300 }),
+      expect.objectContaining({ account: 'platform_revenue', creditPence: 300 }),
+    ]);
+  });
+
+  it('warns about credit expiring within 30 days', async () => {
+    await creditWallet(db, { userId: 'user_1', source: 'referral_bonus', amount: 5, id: 'ref', description: 'Referral' });
+    credits.get('ref')!.expiresAt = new Date(Date.now() + 10 * 86_400_000).toISOString();
+
+    const wallet = await getWallet(db, 'user_1');
+
+    expect(wallet).toMatchObject({ balance: 5, expiringSoon: 5 });
+    expect(wallet?.nextExpiry).toBe(credits.get('ref')!.expiresAt);
+  });
+});
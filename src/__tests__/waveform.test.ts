@@ -0,0 +1,84 @@
+import { describe, it, expect } from 'vitest';
+import {
+  buildWaveformDocument, downsamplePeaks, parseAnalysis, slicePeaks,
+} from '../../workers/release-processor/src/waveform';
+import { downsamplePeaks as pagePeaks, parseWaveform, peaksForAudio, windowPeaks } from '../lib/waveform';
+
+const ramp = (n: number) => Array.from({ length: n }, (_, i) => i % 256);
+
+describe('parseAnalysis', () => {
+  it('keeps valid peaks and rounds loudness to a tenth', () => {
+    const a = parseAnalysis({ peaks: ramp(2048), integratedLufs: -8.237, truePeakDbtp: -0.94, loudnessRange: 5.55 });
+    expect(a?.peaks).toHaveLength(2048);
+    expect(a?.loudness).toEqual({ integratedLufs: -8.2, truePeakDbtp: -0.9, loudnessRange: 5.6 });
+  });
+
+  it('keeps good peaks when the loudness reading is broken', () => {
+    const a = parseAnalysis({ peaks: ramp(64), integratedLufs: 'loud', truePeakDbtp: -1 });
+    expect(a?.peaks).toHaveLength(64);
+    expect(a?.loudness).toBeNull();
+  });
+
+  it('keeps the loudness when the peaks are out of range', () => {
+    const a = parseAnalysis({ peaks: [...ramp(63), 999], integratedLufs: -14, truePeakDbtp: -1, loudnessRange: null });
+    expect(a?.peaks).toEqual([]);
+    expect(a?.loudness).toEqual({ integratedLufs: -14, truePeakDbtp: -1, loudnessRange: null });
+  });
+
+  it('returns null when nothing is usable', () => {
+    expect(parseAnalysis(null)).toBeNull();
+    expect(parseAnalysis({ peaks: [1, 2, 3], integratedLufs: 40, truePeakDbtp: 0 })).toBeNull();
+  });
+});
+
+describe('worker peak helpers', () => {
+  it('max-pools into fewer bars', () => {
+    expect(downsamplePeaks([1, 9, 3, 4, 8, 2, 0, 5], 4)).toEqual([9, 4, 8, 5]);
+    expect(downsamplePeaks([1, 2], 4)).toEqual([1, 2]);
+  });
+
+  it('slices the peaks under a preview window', () => {
+    const peaks = ramp(100);
+    // 200s track: 60s in for 90s is peaks 30..75
+    expect(slicePeaks(peaks, 200, 60, 90)).toEqual(peaks.slice(30, 75));
+    expect(slicePeaks(peaks, 0, 60, 90)).toEqual([]);
+  });
+
+  it('builds every resolution the file has enough peaks for', () => {
+    const doc = buildWaveformDocument({ peaks: ramp(1024), loudness: null }, 300);
+    expect(Object.keys(doc.levels).sort((a, b) => Number(a) - Number(b))).toEqual(['128', '512', '1024']);
+    expect(doc.levels['128']).toHaveLength(128);
+    expect(doc).toMatchObject({ version: 1, durationSeconds: 300, loudness: null });
+  });
+});
+
+describe('player waveform helpers', () => {
+  it('parses peaks from a document field or a data attribute', () => {
+    expect(parseWaveform([0, 128, 300])).toEqual([0, 128, 255]);
+    expect(parseWaveform('[10,20]')).toEqual([10, 20]);
+    expect(parseWaveform('')).toBeNull();
+    expect(parseWaveform('not json')).toBeNull();
+    expect(parseWaveform([1, 'x'])).toBeNull();
+    expect(parseWaveform(undefined)).toBeNull();
+  });
+
+  it('uses the preview peaks only when the loaded audio is a clip', () => {
+    const source = { waveform: [1, 2, 3], previewWaveform: [7, 8], durationSeconds: 360 };
+    expect(peaksForAudio(source, 90)).toEqual([7, 8]);
+    expect(peaksForAudio(source, 359.5)).toEqual([1, 2, 3]);
+    expect(peaksForAudio({ waveform: [1, 2, 3] }, 90)).toEqual([1, 2, 3]);
+  });
+
+  it('windows peaks by time, drawing silence past the end of the audio', () => {
+    // 10 peaks over 100s; bars over [50, 150) are peaks 5..9 then nothing
+    const peaks = [1, 2, 3, 4, 5, 6, 7, 8, 9, 10];
+    expect(windowPeaks(peaks, 100, 50, 150, 10)).toEqual([6, 7, 8, 9, 10, 0, 0, 0, 0, 0]);
+    expect(windowPeaks(peaks, 100, 0, 100, 5)).toEqual([2, 4, 6, 8, 10]);
+    expect(windowPeaks(peaks, 0, 0, 100, 5)).toEqual([]);
+  });
+
+  it('downsamples for embedding without upsampling short waveforms', () => {
+    expect(pagePeaks(ramp(512), 256)).toHaveLength(256);
+    expect(pagePeaks([3, 4], 256)).toEqual([3, 4]);
+  });
+});
@@ -56,6 +56,8 @@ interface ImportMetaEnv {
   readonly STRIPE_PLUS_ANNUAL_PROMO_PRICE_ID: string;
   readonly STRIPE_WEBHOOK_SECRET: string;
   readonly STRIPE_CONNECT_WEBHOOK_SECRET: string;
+  // Point the API clients at a local mock (stripe-mock, a PayPal stub) in dev
+  readonly STRIPE_API_BASE?: string;
 
   // ---- PayPal ----
   readonly PAYPAL_CLIENT_ID: string;
@@ -64,6 +66,7 @@ interface ImportMetaEnv {
   readonly PAYPAL_MODE: string;
   readonly PAYPAL_SANDBOX: string;
   readonly PUBLIC_PAYPAL_CLIENT_ID: string;
+  readonly PAYPAL_API_BASE?: string;
 
   // ---- Pusher ----
   readonly PUSHER_APP_ID: string;
@@ -78,6 +81,11 @@ interface ImportMetaEnv {
   readonly ADMIN_EMAIL: string;
   readonly VINYL_STOCKIST_EMAIL: string;
 
+  // ---- Invoices / VAT (lib/order/invoices.ts) ----
+  readonly INVOICE_BUSINESS_NAME: string;
+  readonly INVOICE_ADDRESS: string;          // lines separated by "|"
+  readonly VAT_REGISTRATION_NUMBER: string;
+
   // ---- GIF / Media APIs ----
   readonly GIPHY_API_KEY: string;
   readonly YOUTUBE_API_KEY: string;
@@ -181,6 +189,7 @@ interface CloudflareEnv {
   STRIPE_CONNECT_WEBHOOK_SECRET: string;
   STRIPE_PLUS_ANNUAL_PRICE_ID: string;
   STRIPE_PLUS_ANNUAL_PROMO_PRICE_ID: string;
+  STRIPE_API_BASE?: string;
 
   // ---- PayPal ----
   PAYPAL_CLIENT_ID: string;
@@ -189,6 +198,7 @@ interface CloudflareEnv {
   PAYPAL_MODE: string;
   PAYPAL_SANDBOX: string;
   PUBLIC_PAYPAL_CLIENT_ID: string;
+  PAYPAL_API_BASE?: string;
 
   // ---- Pusher ----
   PUSHER_APP_ID: string;
@@ -203,6 +213,11 @@ interface CloudflareEnv {
   ADMIN_EMAIL: string;
   VINYL_STOCKIST_EMAIL: string;
 
+  // ---- Invoices / VAT (lib/order/invoices.ts) ----
+  INVOICE_BUSINESS_NAME: string;
+  INVOICE_ADDRESS: string;
+  VAT_REGISTRATION_NUMBER: string;
+
   // ---- GIF / Media APIs ----
   GIPHY_API_KEY: string;
   YOUTUBE_API_KEY: string;
@@ -1,5 +1,6 @@
 // src/lib/abandoned-cart-email.ts
-// Sends abandoned cart recovery emails when Stripe checkout sessions expire
+// Abandoned cart recovery emails — one per step of the sequence in
+// abandoned-cart.ts (1h reminder, 24h nudge, 72h last call)
 
 import { SITE_URL } from './constants';
 import { emailWrapper, ctaButton, esc } from './email-wrapper';
@@ -18,12 +19,38 @@ interface CartItem {
   artwork?: string;
 }
 
+export interface AbandonedCartEmailOptions {
+  step?: number;                // 0-based position in the sequence
+  restoreUrl?: string;          // one-click basket restore
+  giftCard?: { code: string; value: number; expiresAt: string } | null;
+}
+
+// Heading, intro line and subject per sequence step
+const STEP_COPY = [
+  {
+    heading: 'You left something behind!',
+    intro: 'Looks like you didn\'t finish checking out. Your items are still waiting for you.',
+    subject: (count: number) => `You left ${count === 1 ? 'an item' : 'items'} in your cart - Fresh Wax`,
+  },
+  {
+    heading: 'Still thinking it over?',
+    intro: 'Your bag is saved and ready when you are — one click puts it all back.',
+    subject: () => 'Still thinking it over? Your bag is saved - Fresh Wax',
+  },
+  {
+    heading: 'Last call for your bag',
+    intro: 'This is the last reminder we\'ll send. Vinyl and merch sell out, so grab them while they\'re here.',
+    subject: () => 'Last call for your bag - Fresh Wax',
+  },
+];
+
 export async function sendAbandonedCartEmail(
   email: string,
   name: string | null,
   items: CartItem[],
   total: number,
-  env: { RESEND_API_KEY?: string; DB?: import('@cloudflare/workers-types').D1Database } | undefined
+  env: { RESEND_API_KEY?: string; DB?: import('@cloudflare/workers-types').D1Database } | undefined,
+  options: AbandonedCartEmailOptions = {}
 ): Promise<{ success: boolean; messageId?: string; error?: string }> {
   try {
     if (!email) {
@@ -38,7 +65,9 @@ export async function sendAbandonedCartEmail(
 
     const formattedTotal = `\u00a3${total.toFixed(2)}`;
     const greeting = name ? esc(name.split(' ')[0]) : 'there';
-    const cartUrl = `${SITE_URL}/cart/`;
+    const cartUrl = options.restoreUrl || `${SITE_URL}/cart/`;
+    const copy = STEP_COPY[Math.min(options.step || 0, STEP_COPY.length - 1)] ?? STEP_COPY[0]!;
+    const giftCard = options.giftCard;
     const unsubUrl = `${SITE_URL}/account/settings/`;
 
     // Build items table rows
@@ -75,9 +104,20 @@ export async function sendAbandonedCartEmail(
               </p>
 
               <p style="color: #a3a3a3; font-size: 16px; margin: 0 0 25px; line-height: 1.6;" class="text-secondary">
-                Looks like you didn't finish checking out. Your items are still waiting for you.
+                ${copy.intro}
               </p>
-
+${giftCard ? `
+              <!-- Gift card incentive -->
+              <table role="presentation" width="100%" cellpadding="0" cellspacing="0" style="background-color: #1f1f1f; border: 1px dashed #dc2626; border-radius: 8px; margin-bottom: 25px;" class="detail-box">
+                <tr>
+                  <td style="padding: 16px 20px; text-align: center;">
+                    <p style="color: #a3a3a3; font-size: 14px; margin: 0 0 8px;" class="text-secondary">Here's \u00a3${giftCard.value.toFixed(2)} towards it — redeem this code in your account, then check out:</p>
+                    <p style="color: #ffffff; font-size: 20px; font-weight: 700; letter-spacing: 2px; margin: 0 0 8px;" class="text-primary">${esc(giftCard.code)}</p>
+                    <p style="color: #737373; font-size: 12px; margin: 0;" class="text-muted">Single use. Expires ${esc(new Date(giftCard.expiresAt).toLocaleDateString('en-GB', { day: 'numeric', month: 'long' }))}.</p>
+                  </td>
+                </tr>
+              </table>
+` : ''}
               <!-- Items Table -->
               <table role="presentation" width="100%" cellpadding="0" cellspacing="0" style="background-color: #1f1f1f; border-radius: 8px; margin-bottom: 25px;" class="detail-box">
                 <tr>
@@ -106,12 +146,12 @@ export async function sendAbandonedCartEmail(
               </p>`;
 
     const emailHtml = emailWrapper(content, {
-      title: 'You left something behind!',
-      headerText: 'You left something behind!',
+      title: copy.heading,
+      headerText: copy.heading,
       footerExtra: `<a href="${unsubUrl}" style="font-size: 11px; color: #525252; text-decoration: underline;" class="text-muted">Manage email preferences</a>`,
     });
 
-    const subject = `You left ${items.length === 1 ? 'an item' : 'items'} in your cart - Fresh Wax`;
+    const subject = copy.subject(items.length);
     const result = await sendResendEmail({
       apiKey: RESEND_API_KEY,
       from: 'Fresh Wax <noreply@freshwax.co.uk>',
@@ -0,0 +1,423 @@
+// src/lib/abandoned-cart.ts
+// Abandoned cart recovery sequence.
+// An expired Stripe checkout starts a sequence in `abandonedCarts`: reminder
+// emails 1h, 24h and 72h after expiry (sent by the hourly abandoned-carts
+// cron), each with a one-click link that restores the basket through
+// /api/cart. The later steps can carry a single-use gift card when enabled in
+// admin settings (abandonedCart section). Any order from the customer closes
+// the sequence — as a recovery when at least one reminder went out first.
+
+import { getDocument, queryCollection, addDocument, updateDocument } from './firebase-rest';
+import { createLogger } from './api-utils';
+import { SITE_URL } from './constants';
+import { createPromotionalGiftCard } from './giftcard';
+import { sendAbandonedCartEmail } from './abandoned-cart-email';
+
+const log = createLogger('abandoned-cart');
+
+export const ABANDONED_CARTS_COLLECTION = 'abandonedCarts';
+
+export interface SequenceStep {
+  delayHours: number;      // after the checkout expired
+  incentive: boolean;      // may carry the gift card
+}
+
+export const ABANDONED_CART_SEQUENCE: SequenceStep[] = [
+  { delayHours: 1, incentive: false },
+  { delayHours: 24, incentive: true },
+  { delayHours: 72, incentive: true },
+];
+
+// Orders this long after the last reminder still count as recovered
+const RECOVERY_WINDOW_DAYS = 14;
+const GIFT_CARD_VALID_DAYS = 7;
+const MAX_SENDS_PER_RUN = 25;
+
+export type AbandonedCartStatus =
+  | 'active'       // reminders still due
+  | 'sent'         // every reminder sent, waiting on an order
+  | 'recovered'    // ordered after a reminder
+  | 'completed'    // ordered before any reminder went out
+  | 'superseded';  // a newer abandoned checkout replaced it
+
+export interface AbandonedCartItem {
+  id: string;
+  name?: string;
+  price?: number;
+  quantity?: number;
+  type?: string;
+  image?: string;
+  artwork?: string;
+  artist?: string;
+  releaseId?: string;
+  productId?: string;
+  trackId?: string;
+  size?: string;
+  color?: string | { name: string; hex: string };
+  format?: string;
+}
+
+export interface AbandonedCartGiftCard {
+  code: string;
+  value: number;
+  expiresAt: string;
+}
+
+export interface AbandonedCart {
+  id: string;
+  email: string;
+  name: string | null;
+  userId: string | null;
+  sessionId: string;
+  items: AbandonedCartItem[];
+  total: number;
+  status: AbandonedCartStatus;
+  startedAt: string;
+  nextStep: number;
+  nextStepAt: string | null;
+  stepsSent: Array<{ step: number; sentAt: string; success: boolean; messageId: string | null }>;
+  giftCard: AbandonedCartGiftCard | null;
+  restoreToken: string;
+  restoredAt: string | null;
+  orderId?: string;             // the order that closed it
+  recoveredRevenue?: number;
+  recoveredAfterStep?: number;
+  closedAt?: string;
+}
+
+export interface AbandonedCartSettings {
+  incentiveEnabled: boolean;
+  incentiveValue: number;     // GBP
+  incentiveMinCart: number;   // only for carts at least this big
+}
+
+export const DEFAULT_ABANDONED_CART_SETTINGS: AbandonedCartSettings = {
+  incentiveEnabled: false,
+  incentiveValue: 5,
+  incentiveMinCart: 20,
+};
+
+const CART_ITEM_FIELDS: (keyof AbandonedCartItem)[] = [
+  'id', 'name', 'price', 'quantity', 'type', 'image', 'artwork', 'artist',
+  'releaseId', 'productId', 'trackId', 'size', 'color', 'format',
+];
+
+// Keep what /api/cart stores for a basket line; checkout re-prices anyway
+function toCartItem(item: Record<string, unknown>): AbandonedCartItem | null {
+  const id = item.id || item.releaseId || item.productId;
+  if (!id) return null;
+  const line: Record<string, unknown> = { id: String(id) };
+  for (const field of CART_ITEM_FIELDS) {
+    const value = item[field];
+    if (field !== 'id' && value !== null && value !== undefined && value !== '') line[field] = value;
+  }
+  return line as unknown as AbandonedCartItem;
+}
+
+/**
+ * Basket lines of an expired checkout session. Small digital baskets ride in
+ * metadata (items_json, or items on older sessions); everything else is in
+ * the pendingCheckouts doc.
+ */
+export async function abandonedSessionItems(metadata: Record<string, string>): Promise<AbandonedCartItem[]> {
+  let raw: Record<string, unknown>[] = [];
+  const json = metadata.items_json || metadata.items;
+  if (json) {
+    try { raw = JSON.parse(json); } catch (e: unknown) { /* intentional: malformed metadata — fall through to pending checkout */ }
+  }
+  if (raw.length === 0 && metadata.pending_checkout_id) {
+    const pending = await getDocument('pendingCheckouts', metadata.pending_checkout_id);
+    raw = (pending?.items || []) as Record<string, unknown>[];
+  }
+  return raw.map(toCartItem).filter((item): item is AbandonedCartItem => item !== null);
+}
+
+async function hasOrderedSince(userId: string | null, since: string): Promise<boolean> {
+  if (!userId) return false;
+  // Single equality (no composite index); the date filter runs here
+  const orders = await queryCollection('orders', {
+    filters: [{ field: 'customerId', op: 'EQUAL', value: userId }],
+    skipCache: true,
+  });
+  return orders.some(o => String(o.createdAt) > since);
+}
+
+/**
+ * Start the reminder sequence for an expired checkout. A newer abandoned
+ * checkout from the same customer replaces their older sequence, so nobody
+ * gets two runs of emails at once. Returns the sequence id, or null when
+ * nothing was started.
+ */
+export async function startAbandonedCartSequence(params: {
+  email: string;
+  name: string | null;
+  userId: string | null;
+  sessionId: string;
+  items: AbandonedCartItem[];
+  total: number;
+  sessionCreatedAt?: string;
+}): Promise<string | null> {
+  const email = params.email.trim().toLowerCase();
+  if (!email || params.items.length === 0) return null;
+
+  // Webhook redelivery
+  const existing = await queryCollection(ABANDONED_CARTS_COLLECTION, {
+    filters: [{ field: 'sessionId', op: 'EQUAL', value: params.sessionId }],
+    limit: 1,
+    skipCache: true,
+  });
+  if (existing.length > 0) return null;
+
+  if (params.userId) {
+    const customer = await getDocument('customers', params.userId).catch(() => null);
+    if (customer?.emailOptOut) {
+      log.debug('Customer opted out of emails');
+      return null;
+    }
+  }
+
+  const now = new Date();
+  if (await hasOrderedSince(params.userId, params.sessionCreatedAt || now.toISOString())) {
+    log.debug('Customer ordered since this checkout — no sequence');
+    return null;
+  }
+
+  for (const cart of await openCartsFor(email)) {
+    await updateDocument(ABANDONED_CARTS_COLLECTION, cart.id, {
+      status: 'superseded',
+      nextStepAt: null,
+      closedAt: now.toISOString(),
+    });
+  }
+
+  const firstStep = ABANDONED_CART_SEQUENCE[0] as SequenceStep;
+  const { id } = await addDocument(ABANDONED_CARTS_COLLECTION, {
+    email,
+    name: params.name,
+    userId: params.userId,
+    sessionId: params.sessionId,
+    items: params.items,
+    total: Math.round(params.total * 100) / 100,
+    status: 'active',
+    startedAt: now.toISOString(),
+    nextStep: 0,
+    nextStepAt: new Date(now.getTime() + firstStep.delayHours * 3600 * 1000).toISOString(),
+    stepsSent: [],
+    giftCard: null,
+    restoreToken: crypto.randomUUID().replace(/-/g, ''),
+    restoredAt: null,
+  });
+  log.info(`Recovery sequence ${id} started for ${params.sessionId}`);
+  return id;
+}
+
+async function openCartsFor(email: string): Promise<AbandonedCart[]> {
+  const carts = await queryCollection(ABANDONED_CARTS_COLLECTION, {
+    filters: [{ field: 'email', op: 'EQUAL', value: email }],
+    skipCache: true,
+  });
+  return (carts as unknown as AbandonedCart[]).filter(c => c.status === 'active' || c.status === 'sent');
+}
+
+export async function getAbandonedCartSettings(): Promise<AbandonedCartSettings> {
+  try {
+    const settings = await getDocument('system', 'admin-settings');
+    return { ...DEFAULT_ABANDONED_CART_SETTINGS, ...((settings?.abandonedCart || {}) as Partial<AbandonedCartSettings>) };
+  } catch (e: unknown) {
+    return DEFAULT_ABANDONED_CART_SETTINGS;
+  }
+}
+
+// One card per sequence — issued at the first incentive step, repeated after
+async function issueGiftCard(cart: AbandonedCart, settings: AbandonedCartSettings): Promise<AbandonedCartGiftCard | null> {
+  if (cart.giftCard) return cart.giftCard;
+  if (!settings.incentiveEnabled || settings.incentiveValue <= 0 || cart.total < settings.incentiveMinCart) return null;
+
+  const card = createPromotionalGiftCard(
+    settings.incentiveValue,
+    `£${settings.incentiveValue} to finish your order`,
+    cart.email
+  );
+  card.expiresAt = new Date(Date.now() + GIFT_CARD_VALID_DAYS * 24 * 3600 * 1000).toISOString();
+  await addDocument('giftCards', { ...card, source: 'abandoned-cart', abandonedCartId: cart.id });
+
+  return { code: card.code, value: card.originalValue, expiresAt: card.expiresAt };
+}
+
+/**
+ * Send every reminder that has come due. Called hourly by the cron, so a
+ * step goes out within the hour after its delay.
+ */
+export async function processAbandonedCarts(
+  env: { RESEND_API_KEY?: string; DB?: import('@cloudflare/workers-types').D1Database } | undefined,
+  now: Date = new Date()
+): Promise<{ sent: number; closed: number; failed: number }> {
+  const active = await queryCollection(ABANDONED_CARTS_COLLECTION, {
+    filters: [{ field: 'status', op: 'EQUAL', value: 'active' }],
+    skipCache: true,
+  });
+  const due = (active as unknown as AbandonedCart[])
+    .filter(c => c.nextStepAt && c.nextStepAt <= now.toISOString())
+    .sort((a, b) => String(a.nextStepAt).localeCompare(String(b.nextStepAt)))
+    .slice(0, MAX_SENDS_PER_RUN);
+
+  const settings = await getAbandonedCartSettings();
+  const result = { sent: 0, closed: 0, failed: 0 };
+
+  for (const cart of due) {
+    try {
+      // Belt and braces: an order that didn't close the sequence still ends it
+      if (await hasOrderedSince(cart.userId, cart.startedAt)) {
+        await updateDocument(ABANDONED_CARTS_COLLECTION, cart.id, {
+          status: cart.stepsSent.length > 0 ? 'recovered' : 'completed',
+          nextStepAt: null,
+          closedAt: now.toISOString(),
+        });
+        result.closed++;
+        continue;
+      }
+
+      const step = ABANDONED_CART_SEQUENCE[cart.nextStep];
+      if (!step) {
+        await updateDocument(ABANDONED_CARTS_COLLECTION, cart.id, { status: 'sent', nextStepAt: null });
+        continue;
+      }
+
+      const giftCard = step.incentive ? await issueGiftCard(cart, settings) : null;
+      const email = await sendAbandonedCartEmail(cart.email, cart.name, cart.items, cart.total, env, {
+        step: cart.nextStep,
+        restoreUrl: `${SITE_URL}/cart/?restore=${cart.restoreToken}`,
+        giftCard,
+      });
+
+      const sentAt = now.toISOString();
+      const following = ABANDONED_CART_SEQUENCE[cart.nextStep + 1];
+      const started = Date.parse(cart.startedAt);
+      await updateDocument(ABANDONED_CARTS_COLLECTION, cart.id, {
+        stepsSent: [...cart.stepsSent, { step: cart.nextStep, sentAt, success: email.success, messageId: email.messageId || null }],
+        nextStep: cart.nextStep + 1,
+        nextStepAt: following ? new Date(started + following.delayHours * 3600 * 1000).toISOString() : null,
+        status: following ? 'active' : 'sent',
+        giftCard: giftCard || cart.giftCard || null,
+      });
+
+      // Per-email log kept for the existing analytics
+      await addDocument('abandonedCartEmails', {
+        email: cart.email,
+        sessionId: cart.sessionId,
+        abandonedCartId: cart.id,
+        step: cart.nextStep,
+        itemCount: cart.items.length,
+        total: cart.total,
+        giftCardCode: giftCard?.code || null,
+        sent: email.success,
+        messageId: email.messageId || null,
+        error: email.error || null,
+        sentAt,
+      });
+
+      if (email.success) result.sent++;
+      else result.failed++;
+    } catch (error: unknown) {
+      log.error(`Reminder for ${cart.id} failed:`, error);
+      result.failed++;
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Close the customer's open sequences when they order. Never throws — order
+ * creation must not fail over analytics.
+ */
+export async function closeAbandonedCarts(
+  email: string | null | undefined,
+  order: { orderId: string; total: number }
+): Promise<number> {
+  if (!email) return 0;
+  try {
+    const now = new Date();
+    const windowStart = new Date(now.getTime() - (RECOVERY_WINDOW_DAYS + 3) * 24 * 3600 * 1000).toISOString();
+    let closed = 0;
+    for (const cart of await openCartsFor(email.trim().toLowerCase())) {
+      if (cart.startedAt < windowStart) continue;
+      const lastStep = cart.stepsSent.at(-1);
+      await updateDocument(ABANDONED_CARTS_COLLECTION, cart.id, {
+        status: lastStep ? 'recovered' : 'completed',
+        nextStepAt: null,
+        closedAt: now.toISOString(),
+        orderId: order.orderId,
+        ...(lastStep ? { recoveredRevenue: Math.round(order.total * 100) / 100, recoveredAfterStep: lastStep.step } : {}),
+      });
+      closed++;
+    }
+    return closed;
+  } catch (error: unknown) {
+    log.error('Closing abandoned carts failed:', error);
+    return 0;
+  }
+}
+
+/** Basket for a restore link; marks the link used (it stays valid). */
+export async function restoreAbandonedCart(token: string): Promise<AbandonedCartItem[] | null> {
+  const carts = await queryCollection(ABANDONED_CARTS_COLLECTION, {
+    filters: [{ field: 'restoreToken', op: 'EQUAL', value: token }],
+    limit: 1,
+    skipCache: true,
+  });
+  const cart = carts[0] as unknown as AbandonedCart | undefined;
+  if (!cart || cart.status === 'superseded') return null;
+  if (!cart.restoredAt) {
+    await updateDocument(ABANDONED_CARTS_COLLECTION, cart.id, { restoredAt: new Date().toISOString() });
+  }
+  return cart.items;
+}
+
+export interface AbandonedCartReport {
+  since: string;
+  abandoned: number;
+  abandonedValue: number;
+  emailed: number;
+  restored: number;
+  recovered: number;
+  recoveryRate: number;        // % of emailed carts recovered
+  revenueRecovered: number;
+  giftCardsIssued: number;
+  byStep: Array<{ step: number; sent: number; recovered: number; revenue: number }>;
+}
+
+/** Recovery figures for sequences started since `since`. */
+export async function abandonedCartReport(since: string): Promise<AbandonedCartReport> {
+  const carts = (await queryCollection(ABANDONED_CARTS_COLLECTION, {
+    filters: [{ field: 'startedAt', op: 'GREATER_THAN_OR_EQUAL', value: since }],
+    skipCache: true,
+  }) as unknown as AbandonedCart[]).filter(c => c.status !== 'superseded');
+
+  const round2 = (n: number) => Math.round(n * 100) / 100;
+  const emailed = carts.filter(c => (c.stepsSent || []).some(s => s.success));
+  const recovered = carts.filter(c => c.status === 'recovered');
+
+  const byStep = ABANDONED_CART_SEQUENCE.map((_, step) => {
+    const won = recovered.filter(c => c.recoveredAfterStep === step);
+    return {
+      step: step + 1,
+      sent: carts.filter(c => (c.stepsSent || []).some(s => s.step === step && s.success)).length,
+      recovered: won.length,
+      revenue: round2(won.reduce((sum, c) => sum + (c.recoveredRevenue || 0), 0)),
+    };
+  });
+
+  return {
+    since,
+    abandoned: carts.length,
+    abandonedValue: round2(carts.reduce((sum, c) => sum + (c.total || 0), 0)),
+    emailed: emailed.length,
+    restored: carts.filter(c => c.restoredAt).length,
+    recovered: recovered.length,
+    recoveryRate: emailed.length > 0 ? Math.round((recovered.length / emailed.length) * 1000) / 10 : 0,
+    revenueRecovered: round2(recovered.reduce((sum, c) => sum + (c.recoveredRevenue || 0), 0)),
+    giftCardsIssued: carts.filter(c => c.giftCard).length,
+    byStep,
+  };
+}
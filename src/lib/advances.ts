@@ -0,0 +1,314 @@
+// src/lib/advances.ts
+// Artist advances and their recoupment.
+//
+// The label sometimes pays an artist ahead of sales — an advance, or costs
+// like vinyl pressing and mastering taken on for them. Recoupable ones are
+// paid back from the artist's sale earnings before anything is paid out:
+// an advance tied to a release is recouped from that release's sales, one
+// with no release from everything the artist sells. Costs can also be
+// recorded as not recoupable, for the books only.
+//
+// Advances live in D1 `artist_advances`; each slice of a sale applied to
+// one is an `advance_recoupments` row keyed by advance and order, so a
+// replayed sale recoups once. In the journal the advance is an asset
+// (artist_advances) and a recoupment moves that much of the sale from the
+// artist's payable onto it, so their balance only shows what they're owed.
+// Refunds hand the refunded share of a recoupment back to the advance.
+
+import { createLogger } from './api-utils';
+import { JOURNAL_ACCOUNTS, postJournalEntry } from './journal';
+import {
+  d1ApplyRecoupment, d1GetAdvances, d1GetOrderRecoupments, d1GetUnrecoupedAdvances, d1InsertAdvance,
+} from './d1/advances';
+import type { AdvanceKind, AdvanceRecoupment, AdvanceStatus, ArtistAdvance } from './d1/advances';
+import type { D1Database } from './d1/types';
+
+export type { AdvanceKind, AdvanceStatus, ArtistAdvance } from './d1/advances';
+
+const log = createLogger('[advances]');
+
+export const ADVANCE_KINDS: AdvanceKind[] = ['advance', 'pressing', 'mastering', 'other'];
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+/**
+ * Record money paid to (or spent for) an artist. Recoupable advances are
+ * booked as an asset paid from the bank, to be recouped from sales.
+ */
+export async function recordAdvance(db: D1Database | undefined, input: {
+  artistId: string;
+  artistName?: string | null;
+  releaseId?: string | null;
+  kind: AdvanceKind;
+  description?: string | null;
+  amount: number;
+  recoupable: boolean;
+  paidAt?: string | null;
+  createdBy: string;
+}): Promise<{ success: boolean; advance?: ArtistAdvance; error?: string }> {
+  if (!db) return { success: false, error: 'D1 not available' };
+  const amount = round2(input.amount);
+  if (!(amount > 0)) return { success: false, error: 'Amount must be positive' };
+
+  const advance: ArtistAdvance = {
+    id: `adv_${Date.now().toString(36)}_${Math.random().toString(36).slice(2, 8)}`,
+    artistId: input.artistId,
+    artistName: input.artistName || null,
+    releaseId: input.releaseId || null,
+    kind: input.kind,
+    description: input.description || null,
+    amount,
+    recoupable: input.recoupable,
+    recouped: 0,
+    status: input.recoupable ? 'unrecouped' : 'not_recoupable',
+    paidAt: input.paidAt || null,
+    recoupedAt: null,
+    createdBy: input.createdBy,
+  };
+  if (!await d1InsertAdvance(db, advance)) return { success: false, error: 'Could not record advance' };
+
+  if (advance.recoupable) {
+    const posted = await postJournalEntry(db, {
+      id: `advance:${advance.id}`,
+      entryType: 'advance',
+      reference: advance.id,
+      memo: `${advance.kind} for ${advance.artistName || advance.artistId}${advance.releaseId ? ` (release ${advance.releaseId})` : ''}`,
+      postings: [
+        { account: JOURNAL_ACCOUNTS.artistAdvances, partyId: advance.artistId, amount, memo: advance.kind },
+        { account: JOURNAL_ACCOUNTS.processorClearing, partyId: 'bank', amount: -amount, memo: advance.kind },
+      ],
+    });
+    if (!posted.success) log.error(`Advance ${advance.id} recorded but not journaled: ${posted.error}`);
+  }
+
+  log.info(`Recorded ${advance.recoupable ? 'recoupable' : 'non-recoupable'} ${advance.kind} £${amount.toFixed(2)} for ${advance.artistId}`);
+  return { success: true, advance };
+}
+
+/**
+ * Apply an artist's earnings from one sale to their unrecouped advances.
+ * `earnings` is their share per release; `limit` caps the total taken (what
+ * is left of the share after clawbacks). Release advances are recouped from
+ * their own release first, then artist-wide ones from what remains, oldest
+ * first. Returns how much was recouped, to come off the payout. Never
+ * throws — if the advances can't be read the artist is paid in full.
+ */
+export async function recoupAdvances(db: D1Database | undefined, params: {
+  artistId: string;
+  orderId: string;
+  earnings: Record<string, number>;
+  limit?: number;
+}): Promise<{ recouped: number; applied: AdvanceRecoupment[] }> {
+  const { artistId, orderId } = params;
+  if (!db) return { recouped: 0, applied: [] };
+
+  try {
+    // A replayed sale pays out what it recouped the first time
+    const previous = (await d1GetOrderRecoupments(db, orderId))
+      .filter(r => r.artistId === artistId && r.amount > 0 && !r.reference);
+    if (previous.length > 0) {
+      return { recouped: round2(previous.reduce((sum, r) => sum + r.amount, 0)), applied: [] };
+    }
+
+    const advances = await d1GetUnrecoupedAdvances(db, artistId);
+    if (advances.length === 0) return { recouped: 0, applied: [] };
+
+    const remaining = new Map<string, number>();
+    for (const [releaseId, amount] of Object.entries(params.earnings)) {
+      if (amount > 0) remaining.set(releaseId, round2(amount));
+    }
+    let budget = round2(Math.min(
+      [...remaining.values()].reduce((sum, n) => sum + n, 0),
+      params.limit ?? Infinity
+    ));
+
+    const ordered = [
+      ...advances.filter(a => a.releaseId && remaining.has(a.releaseId)),
+      ...advances.filter(a => !a.releaseId),
+    ];
+
+    const applied: AdvanceRecoupment[] = [];
+    for (const advance of ordered) {
+      if (budget <= 0) break;
+      const available = advance.releaseId
+        ? remaining.get(advance.releaseId) || 0
+        : [...remaining.values()].reduce((sum, n) => sum + n, 0);
+      const take = round2(Math.min(available, advance.amount - advance.recouped, budget));
+      if (take <= 0) continue;
+
+      const recoupment: AdvanceRecoupment = {
+        id: `${advance.id}:${orderId}`,
+        advanceId: advance.id,
+        artistId,
+        releaseId: advance.releaseId,
+        orderId,
+        reference: null,
+        amount: take,
+      };
+      if (!await d1ApplyRecoupment(db, recoupment)) continue;
+
+      // Take it out of the release's earnings, or across releases in turn
+      let left = take;
+      for (const [releaseId, amount] of remaining) {
+        if (left <= 0) break;
+        if (advance.releaseId && releaseId !== advance.releaseId) continue;
+        const used = Math.min(amount, left);
+        remaining.set(releaseId, round2(amount - used));
+        left = round2(left - used);
+      }
+      budget = round2(budget - take);
+      applied.push(recoupment);
+    }
+
+    const recouped = round2(applied.reduce((sum, r) => sum + r.amount, 0));
+    if (recouped > 0) {
+      const posted = await postJournalEntry(db, {
+        id: `advance-recoupment:${orderId}:${artistId}`,
+        entryType: 'advance',
+        orderId,
+        reference: artistId,
+        memo: `Sale earnings recouping advances for ${artistId}`,
+        postings: [
+          { account: JOURNAL_ACCOUNTS.artistPayable, partyId: artistId, amount: recouped, memo: 'recoupment' },
+          { account: JOURNAL_ACCOUNTS.artistAdvances, partyId: artistId, amount: -recouped, memo: 'recoupment' },
+        ],
+      });
+      if (!posted.success) log.error(`Recoupment for ${artistId} on ${orderId} not journaled: ${posted.error}`);
+      log.info(`Recouped £${recouped.toFixed(2)} of advances from ${artistId}'s earnings on ${orderId}`);
+    }
+    return { recouped, applied };
+  } catch (error: unknown) {
+    log.error(`Advance recoupment failed for ${artistId} on ${orderId}, paying in full:`, error);
+    return { recouped: 0, applied: [] };
+  }
+}
+
+/**
+ * A refund hands back the refunded share of what the order recouped: the
+ * artist never received that money, so the advance is owed again. `shares`
+ * is the refunded fraction per artist (artistRefundShares), or one fraction
+ * for everyone. `refundId` keeps each refund's reversal to a single pass.
+ */
+export async function reverseAdvanceRecoupments(db: D1Database | undefined, params: {
+  orderId: string;
+  refundId: string;
+  shares: Map<string, number> | number;
+}): Promise<number> {
+  const { orderId, refundId, shares } = params;
+  if (!db) return 0;
+
+  try {
+    const rows = await d1GetOrderRecoupments(db, orderId);
+    const byAdvance = new Map<string, { row: AdvanceRecoupment; original: number; net: number }>();
+    for (const row of rows) {
+      const entry = byAdvance.get(row.advanceId) || { row, original: 0, net: 0 };
+      if (!row.reference) entry.original = round2(entry.original + row.amount);
+      entry.net = round2(entry.net + row.amount);
+      byAdvance.set(row.advanceId, entry);
+    }
+
+    const reversedByArtist = new Map<string, number>();
+    for (const [advanceId, { row, original, net }] of byAdvance) {
+      const share = typeof shares === 'number' ? shares : shares.get(row.artistId) || 0;
+      const amount = round2(Math.min(original * Math.min(1, share), net));
+      if (amount <= 0) continue;
+      const ok = await d1ApplyRecoupment(db, {
+        id: `${advanceId}:${orderId}:${refundId}`,
+        advanceId,
+        artistId: row.artistId,
+        releaseId: row.releaseId,
+        orderId,
+        reference: refundId,
+        amount: -amount,
+      });
+      if (ok) reversedByArtist.set(row.artistId, round2((reversedByArtist.get(row.artistId) || 0) + amount));
+    }
+
+    let total = 0;
+    for (const [artistId, amount] of reversedByArtist) {
+      await postJournalEntry(db, {
+        id: `advance-recoupment-reversal:${orderId}:${refundId}:${artistId}`,
+        entryType: 'advance',
+        orderId,
+        reference: refundId,
+        memo: `Refund ${refundId} returns recouped earnings to ${artistId}'s advances`,
+        postings: [
+          { account: JOURNAL_ACCOUNTS.artistAdvances, partyId: artistId, amount, memo: 'recoupment reversed' },
+          { account: JOURNAL_ACCOUNTS.artistPayable, partyId: artistId, amount: -amount, memo: 'recoupment reversed' },
+        ],
+      });
+      total = round2(total + amount);
+    }
+    if (total > 0) log.info(`Refund ${refundId} put £${total.toFixed(2)} back on advances for ${orderId}`);
+    return total;
+  } catch (error: unknown) {
+    log.error(`Could not reverse advance recoupments for ${orderId}:`, error);
+    return 0;
+  }
+}
+
+export interface AdvanceProgress extends ArtistAdvance {
+  outstanding: number;
+  percentRecouped: number;    // 0–100
+}
+
+export interface RecoupmentTotals {
+  advanced: number;            // recoupable advances paid
+  recouped: number;
+  outstanding: number;
+  notRecoupable: number;       // costs recorded for the books only
+  count: number;
+}
+
+/** Recoupment progress per advance plus totals, for the dashboards. */
+export function summariseAdvances(advances: ArtistAdvance[]): {
+  advances: AdvanceProgress[];
+  totals: RecoupmentTotals;
+} {
+  const totals: RecoupmentTotals = { advanced: 0, recouped: 0, outstanding: 0, notRecoupable: 0, count: advances.length };
+  const progress = advances.map(advance => {
+    const outstanding = advance.recoupable ? round2(Math.max(0, advance.amount - advance.recouped)) : 0;
+    if (advance.recoupable) {
+      totals.advanced = round2(totals.advanced + advance.amount);
+      totals.recouped = round2(totals.recouped + advance.recouped);
+      totals.outstanding = round2(totals.outstanding + outstanding);
+    } else {
+      totals.notRecoupable = round2(totals.notRecoupable + advance.amount);
+    }
+    const percentRecouped = advance.recoupable && advance.amount > 0
+      ? Math.min(100, Math.round((advance.recouped / advance.amount) * 1000) / 10)
+      : 0;
+    return { ...advance, outstanding, percentRecouped };
+  });
+  return { advances: progress, totals };
+}
+
+/**
+ * Advances with progress for the admin view (every artist, with per-artist
+ * totals) or one artist's pro dashboard.
+ */
+export async function getAdvancesOverview(db: D1Database, options: {
+  artistId?: string;
+  status?: AdvanceStatus;
+  limit?: number;
+} = {}): Promise<{
+  advances: AdvanceProgress[];
+  totals: RecoupmentTotals;
+  artists: Array<{ artistId: string; artistName: string | null } & RecoupmentTotals>;
+}> {
+  const { advances, totals } = summariseAdvances(await d1GetAdvances(db, options));
+
+  const byArtist = new Map<string, ArtistAdvance[]>();
+  for (const advance of advances) {
+    byArtist.set(advance.artistId, [...(byArtist.get(advance.artistId) || []), advance]);
+  }
+  const artists = [...byArtist.entries()]
+    .map(([artistId, list]) => ({
+      artistId,
+      artistName: list.find(a => a.artistName)?.artistName || null,
+      ...summariseAdvances(list).totals,
+    }))
+    .sort((a, b) => b.outstanding - a.outstanding);
+
+  return { advances, totals, artists };
+}
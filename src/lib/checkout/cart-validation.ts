@@ -46,9 +46,13 @@ export function calculateTotals(state: CheckoutState) {
 
   // Free orders: no shipping, no fees
   if (subtotal === 0) {
-    return { subtotal: 0, shipping: 0, hasPhysicalItems, freshWaxFee: 0, stripeFee: 0, serviceFees: 0, total: 0 };
+    return { subtotal: 0, discount: 0, shipping: 0, hasPhysicalItems, freshWaxFee: 0, stripeFee: 0, serviceFees: 0, total: 0 };
   }
 
+  // Discount code as last validated by the server (subtotal stays the list
+  // total for display; the server re-validates and applies it at checkout)
+  const discount = Math.min(getQuotedDiscount(state)?.amount || 0, subtotal);
+
   // Prefer the authoritative server quote (set by fetchShippingQuote) so the
   // displayed total matches what Stripe/PayPal actually charge. Before the quote
   // returns, fall back to a flat £4.99 estimate (the server has no global
@@ -61,14 +65,68 @@ export function calculateTotals(state: CheckoutState) {
   // Bandcamp-style pricing: fees come OUT of the sale, not added on top
   // Customer pays exactly what's displayed (subtotal + shipping)
   // Fees are deducted from artist payout, not charged to customer
-  const total = subtotal + shipping;
+  const total = Math.round((subtotal - discount + shipping) * 100) / 100;
 
   // Calculate fees for backend/payout purposes (deducted from artist share)
-  const freshWaxFee = subtotal * 0.01; // 1% Fresh Wax platform fee
+  const freshWaxFee = (subtotal - discount) * 0.01; // 1% Fresh Wax platform fee
   const stripeFee = (total * 0.014) + 0.20; // Stripe processing fee
   const serviceFees = freshWaxFee + stripeFee;
 
-  return { subtotal, shipping, hasPhysicalItems, freshWaxFee, stripeFee, serviceFees, total };
+  return { subtotal, discount, shipping, hasPhysicalItems, freshWaxFee, stripeFee, serviceFees, total };
+}
+
+export interface QuotedDiscount {
+  code: string;
+  campaign: string | null;
+  amount: number;
+}
+
+// Discount code the buyer applied, as last priced by the server
+export function getQuotedDiscount(state: CheckoutState): QuotedDiscount | null {
+  return (state as { quotedDiscount?: QuotedDiscount | null }).quotedDiscount || null;
+}
+
+export function clearDiscountCode(state: CheckoutState): void {
+  (state as { quotedDiscount?: QuotedDiscount | null }).quotedDiscount = null;
+}
+
+// Check a discount code against the current cart. Stores the server's
+// amount on success; returns the server's reason on failure.
+export async function applyDiscountCode(state: CheckoutState, code: string): Promise<{ success: boolean; error?: string }> {
+  const trimmed = code.trim();
+  if (!trimmed) return { success: false, error: 'Enter a discount code' };
+  try {
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), TIMEOUTS.API);
+    const response = await fetch('/api/discount/validate/', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        code: trimmed,
+        items: state.cart,
+        customer: {
+          email: state.currentUser?.email || state.customerData?.email || null,
+          userId: state.currentUser?.uid || null,
+        },
+      }),
+      signal: controller.signal,
+    });
+    clearTimeout(timeoutId);
+    const data = await response.json();
+    if (!response.ok || !data.success) {
+      clearDiscountCode(state);
+      return { success: false, error: data.error || 'Discount code not recognised' };
+    }
+    (state as { quotedDiscount?: QuotedDiscount | null }).quotedDiscount = {
+      code: data.code,
+      campaign: data.campaign || null,
+      amount: Number(data.discount) || 0,
+    };
+    return { success: true };
+  } catch (e: unknown) {
+    state.logger.error('Discount code check failed:', e);
+    return { success: false, error: 'Could not check the code. Please try again.' };
+  }
 }
 
 // Fetch the authoritative shipping total from the server so the displayed total
@@ -96,12 +154,52 @@ export async function fetchShippingQuote(state: CheckoutState, country?: string)
       if (data.success && typeof data.shipping === 'number') {
         s.quotedShipping = data.shipping;
       }
+      if (data.success && Array.isArray(data.countries) && data.countries.length > 0) {
+        (state as { quotedCountries?: ShippingCountryOption[] }).quotedCountries = data.countries;
+      }
+      if (data.success && typeof data.currency === 'string') {
+        const c = state as { quotedCurrency?: string; quotedFxRate?: number };
+        c.quotedCurrency = data.currency;
+        c.quotedFxRate = Number(data.fxRate) || 1;
+      }
     }
   } catch (e: unknown) {
     state.logger.error('Shipping quote failed:', e);
   }
 }
 
+export interface ShippingCountryOption {
+  iso: string;
+  name: string;
+  aliases: string[];
+}
+
+// Offered until the first quote returns the server's list (the D1 shipping
+// rules). Must match the seed rows in database/migrations/0014.
+const DEFAULT_COUNTRY_OPTIONS: ShippingCountryOption[] = [
+  { iso: 'GB', name: 'United Kingdom', aliases: ['UK'] },
+  { iso: 'IE', name: 'Ireland', aliases: [] },
+  { iso: 'DE', name: 'Germany', aliases: [] },
+  { iso: 'FR', name: 'France', aliases: [] },
+  { iso: 'NL', name: 'Netherlands', aliases: [] },
+  { iso: 'BE', name: 'Belgium', aliases: [] },
+  { iso: 'US', name: 'United States', aliases: ['USA'] },
+  { iso: 'CA', name: 'Canada', aliases: [] },
+  { iso: 'AU', name: 'Australia', aliases: [] },
+];
+
+// Countries the checkout form offers, as last quoted by the server
+export function getShippingCountryOptions(state: CheckoutState): ShippingCountryOption[] {
+  return (state as { quotedCountries?: ShippingCountryOption[] }).quotedCountries || DEFAULT_COUNTRY_OPTIONS;
+}
+
+// Currency the checkout will charge in, as last quoted by the server (GBP
+// until a quote comes back). Prices are always held in GBP on the client.
+export function getQuotedCurrency(state: CheckoutState): { currency: string; fxRate: number } {
+  const c = state as { quotedCurrency?: string; quotedFxRate?: number };
+  return { currency: c.quotedCurrency || 'GBP', fxRate: c.quotedFxRate || 1 };
+}
+
 export function getBadgeStyle(type: string): string {
   if (type === 'vinyl') return 'background: #000; color: #fff; border-color: #fff;';
   if (type === 'merch') return 'background: #1e1b4b; color: #a5b4fc; border-color: #a5b4fc;';
@@ -172,6 +270,9 @@ export function removeDuplicatesFromCart(state: CheckoutState, duplicates: Dupli
     return !duplicateKeys.has(key);
   });
 
+  // The quoted discount was priced on the old cart; the buyer re-applies it
+  clearDiscountCode(state);
+
   // Save updated cart
   try {
     const cartKey = 'freshwax_cart_' + customerId;
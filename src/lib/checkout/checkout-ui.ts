@@ -4,7 +4,8 @@
 import { escapeHtml } from '../escape-html';
 import { TIMEOUTS } from '../timeouts';
 import type { CheckoutState, DuplicateResult } from './types';
-import { calculateTotals, fetchShippingQuote, getBadgeStyle, getCustomerIdFromCookie, removeDuplicatesFromCart } from './cart-validation';
+import { applyDiscountCode, calculateTotals, clearDiscountCode, fetchShippingQuote, getBadgeStyle, getCustomerIdFromCookie, getQuotedCurrency, getQuotedDiscount, getShippingCountryOptions, removeDuplicatesFromCart } from './cart-validation';
+import { convertFromSettlement, formatMoney } from '../currency';
 
 // Helper function to show user-friendly error messages
 export function showError(message: string) {
@@ -92,11 +93,31 @@ export function updateCreditDisplay(state: CheckoutState) {
   if (totalDisplay) {
     totalDisplay.textContent = `\u00a3${finalTotal.toFixed(2)}`;
   }
+  const presentmentDisplay = document.getElementById('orderTotalPresentment');
+  if (presentmentDisplay) {
+    presentmentDisplay.textContent = presentmentTotalText(state, finalTotal);
+  }
 
   // Update payment button text
   updatePaymentButtonText(state, finalTotal);
 }
 
+// Country <select> options from the shipping rules. A saved country matches
+// by name, ISO code or alias (older profiles store "USA").
+function countryOptionsHtml(state: CheckoutState, country: string): string {
+  return getShippingCountryOptions(state).map(c => {
+    const selected = c.name === country || c.iso === country || c.aliases.includes(country);
+    return `<option value="${escapeHtml(c.name)}" ${selected ? 'selected' : ''}>${escapeHtml(c.name)}</option>`;
+  }).join('');
+}
+
+// "Charged as ≈ €14.50" hint for EU/US buyers; empty when paying in GBP
+function presentmentTotalText(state: CheckoutState, totalGbp: number): string {
+  const { currency, fxRate } = getQuotedCurrency(state);
+  if (currency === 'GBP' || totalGbp <= 0) return '';
+  return `Charged in ${currency} \u2248 ${formatMoney(convertFromSettlement(totalGbp, fxRate), currency)}`;
+}
+
 // Update payment button text with new total
 /**
  * Record the marketing opt-in, if ticked, at the moment the order is placed.
@@ -285,7 +306,8 @@ export function renderCheckout(
     return;
   }
 
-  const { subtotal, shipping, hasPhysicalItems, freshWaxFee, stripeFee, serviceFees, total } = calculateTotals(state);
+  const { subtotal, discount, shipping, hasPhysicalItems, freshWaxFee, stripeFee, serviceFees, total } = calculateTotals(state);
+  const quotedDiscount = getQuotedDiscount(state);
   const itemCount = cart.reduce((sum: number, item: CartItem) => sum + item.quantity, 0);
 
   // Pre-fill from customer data
@@ -364,6 +386,12 @@ export function renderCheckout(
               <span style="font-size: 1.125rem; color: #6b7280;">Shipping</span>
               <span style="font-size: 1.25rem; font-weight: 600; color: #16a34a;">${hasPhysicalItems ? (shipping === 0 ? 'FREE' : '\u00a3' + shipping.toFixed(2)) : 'Digital'}</span>
             </div>
+            ${quotedDiscount && discount > 0 ? `
+            <div style="display: flex; justify-content: space-between; align-items: center;">
+              <span style="font-size: 1.125rem; color: #16a34a;">Discount (${escapeHtml(quotedDiscount.code)}) <button type="button" id="removeDiscountBtn" style="background: none; border: none; color: #6b7280; font-size: 0.875rem; text-decoration: underline; cursor: pointer;">remove</button></span>
+              <span style="font-size: 1.25rem; font-weight: 600; color: #16a34a;">-\u00a3${discount.toFixed(2)}</span>
+            </div>
+            ` : ''}
             <div id="appliedCreditRow" style="display: none; justify-content: space-between; align-items: center;">
               <span style="font-size: 1.125rem; color: #22c55e;">Credit Applied</span>
               <span id="appliedCreditAmount" style="font-size: 1.25rem; font-weight: 600; color: #22c55e;">-\u00a30.00</span>
@@ -372,8 +400,21 @@ export function renderCheckout(
               <span style="font-family: 'Inter', sans-serif; font-weight: 700; font-size: 1.5rem; letter-spacing: 0.04em; color: #111827;">TOTAL</span>
               <span id="orderTotal" style="font-size: 1.875rem; font-weight: 700; color: #dc2626;">\u00a3${total.toFixed(2)}</span>
             </div>
+            <div id="orderTotalPresentment" style="text-align: right; font-size: 0.9375rem; color: #6b7280;">${presentmentTotalText(state, total)}</div>
           </div>
 
+          <!-- Discount Code -->
+          ${quotedDiscount ? '' : `
+          <div style="margin-top: 1rem;">
+            <label for="discountCodeInput" style="font-size: 0.8125rem; font-weight: 600; color: #374151; text-transform: uppercase; letter-spacing: 0.04em; display: block; margin-bottom: 0.375rem;">Discount Code</label>
+            <div style="display: flex; gap: 0.75rem;">
+              <input type="text" id="discountCodeInput" autocomplete="off" maxlength="40" placeholder="Enter code" style="flex: 1; padding: 0.75rem 1rem; background: #f9fafb; border: 1px solid #d1d5db; border-radius: 8px; color: #111827; font-size: 1rem; font-family: inherit; text-transform: uppercase;">
+              <button type="button" id="applyDiscountBtn" style="padding: 0.75rem 1.25rem; background: #111827; color: #fff; border: none; border-radius: 8px; font-size: 0.875rem; font-weight: 600; cursor: pointer; white-space: nowrap;">APPLY</button>
+            </div>
+            <span id="discountCodeError" role="alert" style="display: none; color: #dc2626; font-size: 0.8125rem; margin-top: 0.375rem;"></span>
+          </div>
+          `}
+
           <!-- Credit Balance Section -->
           ${creditBalance > 0 && creditBalance >= total && total > 0 ? `
           <div id="creditSection" style="margin-top: 1rem; padding: 1rem 1.25rem; background: linear-gradient(to bottom, rgba(34, 197, 94, 0.1) 0%, rgba(34, 197, 94, 0.05) 100%); border: 2px solid rgba(34, 197, 94, 0.3); border-radius: 10px;">
@@ -485,15 +526,7 @@ export function renderCheckout(
               <div style="display: flex; flex-direction: column; gap: 0.375rem;">
                 <label for="country" style="font-size: 0.8125rem; font-weight: 600; color: #374151; text-transform: uppercase; letter-spacing: 0.04em;">Country *</label>
                 <select id="country" name="country" required aria-required="true" autocomplete="country-name" style="width: 100%; padding: 0.875rem 1rem; background: #f9fafb; border: 1px solid #d1d5db; border-radius: 8px; color: #111827; font-size: 1rem; font-family: inherit; cursor: pointer;">
-                  <option value="United Kingdom" ${country === 'United Kingdom' ? 'selected' : ''}>United Kingdom</option>
-                  <option value="Ireland" ${country === 'Ireland' ? 'selected' : ''}>Ireland</option>
-                  <option value="Germany" ${country === 'Germany' ? 'selected' : ''}>Germany</option>
-                  <option value="France" ${country === 'France' ? 'selected' : ''}>France</option>
-                  <option value="Netherlands" ${country === 'Netherlands' ? 'selected' : ''}>Netherlands</option>
-                  <option value="Belgium" ${country === 'Belgium' ? 'selected' : ''}>Belgium</option>
-                  <option value="USA" ${country === 'USA' ? 'selected' : ''}>United States</option>
-                  <option value="Canada" ${country === 'Canada' ? 'selected' : ''}>Canada</option>
-                  <option value="Australia" ${country === 'Australia' ? 'selected' : ''}>Australia</option>
+                  ${countryOptionsHtml(state, country)}
                 </select>
               </div>
             </div>
@@ -668,6 +701,25 @@ export function renderCheckout(
   document.getElementById('stripeOption')?.addEventListener('click', () => callbacks.selectPaymentMethod('stripe'));
   document.getElementById('paypalOption')?.addEventListener('click', () => callbacks.selectPaymentMethod('paypal'));
 
+  // Discount code: the server prices it against the cart, then re-render
+  document.getElementById('applyDiscountBtn')?.addEventListener('click', async () => {
+    const input = document.getElementById('discountCodeInput') as HTMLInputElement | null;
+    const errorEl = document.getElementById('discountCodeError');
+    const result = await applyDiscountCode(state, input?.value || '');
+    if (result.success) {
+      state.appliedCredit = 0;
+      callbacks.renderCheckout();
+    } else if (errorEl) {
+      errorEl.textContent = result.error || 'Discount code not recognised';
+      errorEl.style.display = 'block';
+    }
+  });
+  document.getElementById('removeDiscountBtn')?.addEventListener('click', () => {
+    clearDiscountCode(state);
+    state.appliedCredit = 0;
+    callbacks.renderCheckout();
+  });
+
   // Attach event listener for credit toggle
   document.getElementById('applyCreditCheckbox')?.addEventListener('change', function(this: HTMLInputElement) {
     callbacks.toggleApplyCredit(this.checked);
@@ -3,7 +3,7 @@
 
 import { TIMEOUTS } from '../timeouts';
 import type { CheckoutState } from './types';
-import { calculateTotals, getCustomerIdFromCookie } from './cart-validation';
+import { calculateTotals, getCustomerIdFromCookie, getQuotedCurrency, getQuotedDiscount } from './cart-validation';
 import { submitMarketingConsent } from './checkout-ui';
 
 /** Type-safe form field accessor — returns value of a named form element */
@@ -170,6 +170,8 @@ export async function handleCustomPayPalClick(state: CheckoutState) {
         sellerName: item.sellerName || null
       })),
       totals: { subtotal, shipping, freshWaxFee, stripeFee, serviceFees, total },
+      currency: getQuotedCurrency(state).currency,
+      discountCode: getQuotedDiscount(state)?.code,
       hasPhysicalItems,
       appliedCredit: state.appliedCredit || 0,
       returnUrl: window.location.origin + '/api/paypal/capture-redirect/'
@@ -304,6 +306,8 @@ export function renderPayPalButtons(state: CheckoutState) {
           sellerName: item.sellerName || null
         })),
         totals: { subtotal, shipping, freshWaxFee, stripeFee, serviceFees, total },
+        currency: getQuotedCurrency(state).currency,
+        discountCode: getQuotedDiscount(state)?.code,
         hasPhysicalItems
       };
 
@@ -3,7 +3,7 @@
 
 import { TIMEOUTS } from '../timeouts';
 import type { CheckoutState, UnavailableItem } from './types';
-import { calculateTotals, getCustomerIdFromCookie } from './cart-validation';
+import { calculateTotals, getCustomerIdFromCookie, getQuotedCurrency, getQuotedDiscount } from './cart-validation';
 import { submitMarketingConsent } from './checkout-ui';
 
 /**
@@ -123,6 +123,8 @@ export async function handleSubmit(
       vinylPartName: item.vinylPartName || null
     })),
     totals: { subtotal, shipping, freshWaxFee, stripeFee, serviceFees, total },
+    currency: getQuotedCurrency(state).currency,
+    discountCode: getQuotedDiscount(state)?.code,
     hasPhysicalItems,
     appliedCredit: state.appliedCredit || 0
   };
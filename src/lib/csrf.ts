@@ -31,6 +31,7 @@ const CSRF_SKIP = new Set([
   '/api/livestream/red5-webhook/',
   '/api/icecast-auth/',
   '/api/cron/cleanup-reservations/',
+  '/api/cron/abandoned-carts/',
   '/api/cron/retry-payouts/',
   '/api/cron/send-restock-notifications/',
   '/api/cron/image-scan/',
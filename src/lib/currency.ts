@@ -0,0 +1,99 @@
+// src/lib/currency.ts
+// Currency model shared by checkout, orders, the sales ledger and payouts.
+//
+// Catalogue prices, shipping rates, ledger money columns and every payout are
+// GBP — that is the settlement currency artist royalties are paid in. EU and
+// US buyers can see and pay in EUR/USD: the GBP amounts are converted with a
+// locally stored rate (D1 fx_rates, "units of currency per £1") at checkout,
+// the processor charges the converted amount, and the order + ledger record
+// both sides (presentment currency, fxRate) so everything downstream keeps
+// working in GBP.
+//
+// Pure + import-free so the checkout client can use the formatting helpers.
+
+export const SUPPORTED_CURRENCIES = ['GBP', 'EUR', 'USD'] as const;
+
+export type CurrencyCode = typeof SUPPORTED_CURRENCIES[number];
+
+/** Currency every stored money amount, royalty and payout is denominated in */
+export const SETTLEMENT_CURRENCY: CurrencyCode = 'GBP';
+
+const CURRENCY_SYMBOLS: Record<CurrencyCode, string> = {
+  GBP: '£',
+  EUR: '€',
+  USD: '$',
+};
+
+// Stripe reports some currencies without a minor unit (amount 500 = ¥500).
+// We never charge in these, but disputes/refunds can arrive in whatever the
+// card was charged in, so conversions from processor amounts must honour it.
+const ZERO_DECIMAL_CURRENCIES = new Set([
+  'BIF', 'CLP', 'DJF', 'GNF', 'JPY', 'KMF', 'KRW', 'MGA', 'PYG', 'RWF', 'UGX', 'VND', 'VUV', 'XAF', 'XOF', 'XPF',
+]);
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+export function isSupportedCurrency(value: unknown): value is CurrencyCode {
+  return typeof value === 'string' && (SUPPORTED_CURRENCIES as readonly string[]).includes(value.toUpperCase());
+}
+
+/** Normalise any input to a supported currency, falling back to GBP */
+export function normaliseCurrency(value: unknown): CurrencyCode {
+  return isSupportedCurrency(value) ? (value.toUpperCase() as CurrencyCode) : SETTLEMENT_CURRENCY;
+}
+
+/**
+ * The currency a buyer is offered by default, from their shipping region and
+ * ISO country: euro-zone/EU buyers pay in EUR, US buyers in USD, everyone
+ * else (UK and the rest of the world) in GBP.
+ */
+export function currencyForRegion(region: 'UK' | 'EU' | 'INTL', iso?: string | null): CurrencyCode {
+  if (region === 'EU') return 'EUR';
+  if (region === 'INTL' && (iso || '').toUpperCase() === 'US') return 'USD';
+  return 'GBP';
+}
+
+/** Amount → processor minor units (pence/cents), e.g. 12.99 → 1299 */
+export function toMinorUnits(amount: number, currency: string): number {
+  return ZERO_DECIMAL_CURRENCIES.has(currency.toUpperCase())
+    ? Math.round(amount)
+    : Math.round(amount * 100);
+}
+
+/** Processor minor units → amount, e.g. 1299 → 12.99 */
+export function fromMinorUnits(minor: number, currency: string): number {
+  return ZERO_DECIMAL_CURRENCIES.has(currency.toUpperCase()) ? minor : minor / 100;
+}
+
+/** Convert a GBP amount into the buyer's currency (rate = units per £1) */
+export function convertFromSettlement(amountGbp: number, fxRate: number): number {
+  return round2(amountGbp * (fxRate > 0 ? fxRate : 1));
+}
+
+/** Convert an amount in the buyer's currency back into GBP */
+export function convertToSettlement(amount: number, fxRate: number): number {
+  return round2(amount / (fxRate > 0 ? fxRate : 1));
+}
+
+/**
+ * Convert every line of a GBP basket, rounding per unit so that
+ * Σ(unit × qty) in the buyer's currency is exactly what the processor
+ * charges — the processor only ever sees per-unit amounts.
+ */
+export function convertBasket(
+  lines: Array<{ price: number; quantity?: number }>,
+  shippingGbp: number,
+  fxRate: number
+): { unitPrices: number[]; subtotal: number; shipping: number; total: number } {
+  const unitPrices = lines.map(l => convertFromSettlement(l.price, fxRate));
+  const subtotal = round2(unitPrices.reduce((sum, p, i) => sum + p * (lines[i]?.quantity || 1), 0));
+  const shipping = convertFromSettlement(shippingGbp, fxRate);
+  return { unitPrices, subtotal, shipping, total: round2(subtotal + shipping) };
+}
+
+/** Format an amount with its currency symbol (e.g. "€14.50") */
+export function formatMoney(amount: number, currency: string = SETTLEMENT_CURRENCY): string {
+  const code = currency.toUpperCase();
+  const symbol = CURRENCY_SYMBOLS[code as CurrencyCode];
+  return symbol ? `${symbol}${amount.toFixed(2)}` : `${amount.toFixed(2)} ${code}`;
+}
@@ -2,7 +2,7 @@
 // Barrel re-export — all imports from '../lib/d1-catalog' continue to work unchanged
 
 export type { FirestoreDoc, D1Database, D1PreparedStatement, D1Row } from './d1/types';
-export type { D1Release } from './d1/releases';
+export type { D1Release, ReleaseSearchFilters } from './d1/releases';
 export { releaseToD1Row, d1RowToRelease, d1GetAllPublishedReleases, d1SearchPublishedReleases, d1GetReleaseById, d1GetReleasesByArtist, d1UpsertRelease } from './d1/releases';
 export type { D1DjMix } from './d1/mixes';
 export { mixToD1Row, d1RowToMix, d1SearchPublishedMixes, d1GetAllPublishedMixes, d1GetAllMixes, d1GetMixById, d1GetMixesByUser, d1UpsertMix, d1DeleteMix } from './d1/mixes';
@@ -14,9 +14,23 @@ export type { D1Rating } from './d1/ratings';
 export { d1GetRatings, d1GetUserRating, d1UpsertRating } from './d1/ratings';
 export type { D1LivestreamSlot } from './d1/slots';
 export { slotToD1Row, d1RowToSlot, d1GetLiveSlots, d1GetScheduledSlots, d1GetSlotById, d1GetSlotsByDj, d1UpsertSlot, d1UpdateSlotStatus, d1DeleteSlot } from './d1/slots';
-export type { D1LedgerEntry } from './d1/ledger';
-export { ledgerToD1Row, d1RowToLedger, d1InsertLedgerEntry, d1UpdateLedgerEntry, d1GetLedgerEntries, d1GetLedgerEntryById, d1GetLedgerEntriesByOrder, d1GetLedgerEntriesByArtist, d1GetLedgerTotals, d1DeleteLedgerEntry } from './d1/ledger';
+export type { D1LedgerEntry, SellerLedgerMonth } from './d1/ledger';
+export { ledgerToD1Row, d1RowToLedger, d1InsertLedgerEntry, d1UpdateLedgerEntry, d1GetLedgerEntries, d1GetLedgerEntryById, d1GetLedgerEntriesByOrder, d1GetLedgerEntriesByPaymentMethod, d1GetLedgerEntriesByArtist, d1GetLedgerTotals, d1GetSellerLedgerMonths, d1DeleteLedgerEntry } from './d1/ledger';
 export type { D1VinylSeller } from './d1/vinyl-sellers';
 export { vinylSellerToD1Row, d1RowToVinylSeller, d1GetVinylSeller, d1UpsertVinylSeller, d1GetAllVinylSellers, d1GetNextCollectionNumber, d1GetVinylSellerByCollection, d1GetAllCollections } from './d1/vinyl-sellers';
 export type { RoyaltyEntry } from './d1/royalties';
-export { d1RecordRoyalty, d1GetRoyaltyLedger, d1MarkRoyaltiesPaid } from './d1/royalties';
+export { d1RecordRoyalty, d1GetRoyaltyLedger, d1MarkRoyaltiesPaid, d1GetRoyaltiesByOrder } from './d1/royalties';
+export type { FxRate } from './d1/fx-rates';
+export { d1GetFxRates, d1GetFxRate, d1UpsertFxRate } from './d1/fx-rates';
+export type { ShippingRegion, ShippingZone, ShippingCountry, ShippingRate, ShippingRuleSet } from './d1/shipping';
+export { d1GetShippingRules, d1GetShippingRulesVersion, d1UpsertShippingZone, d1UpsertShippingCountry, d1UpsertShippingRate, d1DeleteShippingRate } from './d1/shipping';
+export type { DiscountType, DiscountScope, DiscountCode, DiscountRedemption, DiscountRedeemResult } from './d1/discounts';
+export { d1GetDiscountCode, d1ListDiscountCodes, d1UpsertDiscountCode, d1CountCustomerRedemptions, d1RedeemDiscountCode } from './d1/discounts';
+export type { InvoiceRecord, NewInvoice } from './d1/invoices';
+export { d1GetInvoiceByOrder, d1IssueInvoice, d1ListInvoices } from './d1/invoices';
+export type { JournalLine, JournalEntry, JournalBalance } from './d1/journal';
+export { MAX_JOURNAL_LINES, d1InsertJournalEntry, d1GetJournalLines, d1GetJournalBalances, d1GetJournalActivity } from './d1/journal';
+export type { SettlementProcessor, SettlementLine, SettlementImport, SettlementAdjustment } from './d1/settlements';
+export { d1InsertSettlementLines, d1InsertSettlementImport, d1GetSettlementImports, d1GetSettlementLines, d1InsertSettlementAdjustment, d1GetSettlementAdjustments } from './d1/settlements';
+export type { SplitSheetChange } from './d1/split-sheets';
+export { d1InsertSplitSheetChange, d1GetSplitSheetChanges, d1ReleaseHasSales } from './d1/split-sheets';
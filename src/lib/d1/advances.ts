@@ -0,0 +1,218 @@
+// src/lib/d1/advances.ts
+// D1 operations for artist advances and their recoupment
+
+import type { D1Database } from './types';
+import { log } from './types';
+
+export type AdvanceKind = 'advance' | 'pressing' | 'mastering' | 'other';
+export type AdvanceStatus = 'unrecouped' | 'recouped' | 'not_recoupable';
+
+export interface ArtistAdvance {
+  id: string;
+  artistId: string;
+  artistName: string | null;
+  releaseId: string | null;      // null: recouped from all of the artist's sales
+  kind: AdvanceKind;
+  description: string | null;
+  amount: number;
+  recoupable: boolean;
+  recouped: number;
+  status: AdvanceStatus;
+  paidAt: string | null;
+  recoupedAt: string | null;
+  createdBy: string | null;
+  createdAt?: string;
+}
+
+export interface AdvanceRecoupment {
+  id: string;
+  advanceId: string;
+  artistId: string;
+  releaseId: string | null;
+  orderId: string;
+  reference: string | null;      // the refund id on reversals
+  amount: number;                // negative when a refund reversed it
+  createdAt?: string;
+}
+
+// Pennies of rounding slack when checking an advance isn't over-recouped
+const EPSILON = 0.005;
+
+const changed = (result: unknown) => ((result as { meta?: { changes?: number } })?.meta?.changes ?? 0) > 0;
+
+function rowToAdvance(row: Record<string, unknown>): ArtistAdvance {
+  return {
+    id: row.id as string,
+    artistId: row.artist_id as string,
+    artistName: (row.artist_name as string) || null,
+    releaseId: (row.release_id as string) || null,
+    kind: (row.kind as AdvanceKind) || 'advance',
+    description: (row.description as string) || null,
+    amount: Number(row.amount) || 0,
+    recoupable: Number(row.recoupable) === 1,
+    recouped: Number(row.recouped) || 0,
+    status: row.status as AdvanceStatus,
+    paidAt: (row.paid_at as string) || null,
+    recoupedAt: (row.recouped_at as string) || null,
+    createdBy: (row.created_by as string) || null,
+    createdAt: row.created_at as string,
+  };
+}
+
+function rowToRecoupment(row: Record<string, unknown>): AdvanceRecoupment {
+  return {
+    id: row.id as string,
+    advanceId: row.advance_id as string,
+    artistId: row.artist_id as string,
+    releaseId: (row.release_id as string) || null,
+    orderId: row.order_id as string,
+    reference: (row.reference as string) || null,
+    amount: Number(row.amount) || 0,
+    createdAt: row.created_at as string,
+  };
+}
+
+const ADVANCE_COLUMNS = `id, artist_id, artist_name, release_id, kind, description, amount, recoupable, recouped, status,
+  paid_at, recouped_at, created_by, created_at`;
+
+export async function d1InsertAdvance(db: D1Database, advance: ArtistAdvance): Promise<boolean> {
+  try {
+    await db.prepare(
+      `INSERT INTO artist_advances (id, artist_id, artist_name, release_id, kind, description, amount, recoupable,
+         recouped, status, paid_at, created_by)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, 0, ?, ?, ?)`
+    ).bind(
+      advance.id,
+      advance.artistId,
+      advance.artistName,
+      advance.releaseId,
+      advance.kind,
+      advance.description,
+      advance.amount,
+      advance.recoupable ? 1 : 0,
+      advance.status,
+      advance.paidAt,
+      advance.createdBy
+    ).run();
+    return true;
+  } catch (error: unknown) {
+    log.error('[D1] Error recording advance:', error);
+    return false;
+  }
+}
+
+// Advances, newest first, optionally for one artist / release / status
+export async function d1GetAdvances(db: D1Database, options: {
+  artistId?: string;
+  releaseId?: string;
+  status?: AdvanceStatus;
+  limit?: number;
+} = {}): Promise<ArtistAdvance[]> {
+  try {
+    const conditions: string[] = [];
+    const params: unknown[] = [];
+    if (options.artistId) {
+      conditions.push('artist_id = ?');
+      params.push(options.artistId);
+    }
+    if (options.releaseId) {
+      conditions.push('release_id = ?');
+      params.push(options.releaseId);
+    }
+    if (options.status) {
+      conditions.push('status = ?');
+      params.push(options.status);
+    }
+    const where = conditions.length > 0 ? 'WHERE ' + conditions.join(' AND ') : '';
+    const { results } = await db.prepare(
+      `SELECT ${ADVANCE_COLUMNS} FROM artist_advances ${where} ORDER BY created_at DESC LIMIT ?`
+    ).bind(...params, options.limit ?? 200).all();
+    return (results || []).map(row => rowToAdvance(row as Record<string, unknown>));
+  } catch (error: unknown) {
+    log.error('[D1] Error getting advances:', error);
+    return [];
+  }
+}
+
+// An artist's recoupable advances still owed, oldest first. Throws, so a
+// failed lookup can be told apart from "nothing to recoup".
+export async function d1GetUnrecoupedAdvances(db: D1Database, artistId: string): Promise<ArtistAdvance[]> {
+  const { results } = await db.prepare(
+    `SELECT ${ADVANCE_COLUMNS} FROM artist_advances
+     WHERE artist_id = ? AND status = 'unrecouped' ORDER BY created_at ASC, id ASC`
+  ).bind(artistId).all();
+  return (results || []).map(row => rowToAdvance(row as Record<string, unknown>));
+}
+
+/**
+ * Apply one recoupment (or, with a negative amount, reverse one). The row
+ * id makes it idempotent, and the advance is only moved if it stays between
+ * nothing and fully recouped. Returns false when nothing was applied.
+ */
+export async function d1ApplyRecoupment(db: D1Database, recoupment: AdvanceRecoupment): Promise<boolean> {
+  try {
+    const inserted = await db.prepare(
+      `INSERT OR IGNORE INTO advance_recoupments (id, advance_id, artist_id, release_id, order_id, reference, amount)
+       VALUES (?, ?, ?, ?, ?, ?, ?)`
+    ).bind(
+      recoupment.id,
+      recoupment.advanceId,
+      recoupment.artistId,
+      recoupment.releaseId,
+      recoupment.orderId,
+      recoupment.reference,
+      recoupment.amount
+    ).run();
+    if (!changed(inserted)) return false;
+
+    const updated = await db.prepare(
+      `UPDATE artist_advances
+       SET recouped = ROUND(recouped + ?, 2),
+           status = CASE WHEN recouped + ? >= amount - ? THEN 'recouped' ELSE 'unrecouped' END,
+           recouped_at = CASE WHEN recouped + ? >= amount - ? THEN datetime('now') ELSE NULL END
+       WHERE id = ? AND recoupable = 1 AND recouped + ? <= amount + ? AND recouped + ? >= -?`
+    ).bind(
+      recoupment.amount,
+      recoupment.amount, EPSILON,
+      recoupment.amount, EPSILON,
+      recoupment.advanceId,
+      recoupment.amount, EPSILON,
+      recoupment.amount, EPSILON
+    ).run();
+    if (changed(updated)) return true;
+
+    // Lost a race with another sale: drop the row so the totals still agree
+    await db.prepare('DELETE FROM advance_recoupments WHERE id = ?').bind(recoupment.id).run();
+    return false;
+  } catch (error: unknown) {
+    log.error('[D1] Error applying recoupment:', error);
+    return false;
+  }
+}
+
+export async function d1GetOrderRecoupments(db: D1Database, orderId: string): Promise<AdvanceRecoupment[]> {
+  try {
+    const { results } = await db.prepare(
+      `SELECT id, advance_id, artist_id, release_id, order_id, reference, amount, created_at
+       FROM advance_recoupments WHERE order_id = ? ORDER BY created_at ASC`
+    ).bind(orderId).all();
+    return (results || []).map(row => rowToRecoupment(row as Record<string, unknown>));
+  } catch (error: unknown) {
+    log.error('[D1] Error getting order recoupments:', error);
+    return [];
+  }
+}
+
+// Recent recoupments against one advance, newest first
+export async function d1GetAdvanceRecoupments(db: D1Database, advanceId: string, limit = 50): Promise<AdvanceRecoupment[]> {
+  try {
+    const { results } = await db.prepare(
+      `SELECT id, advance_id, artist_id, release_id, order_id, reference, amount, created_at
+       FROM advance_recoupments WHERE advance_id = ? ORDER BY created_at DESC LIMIT ?`
+    ).bind(advanceId, limit).all();
+    return (results || []).map(row => rowToRecoupment(row as Record<string, unknown>));
+  } catch (error: unknown) {
+    log.error('[D1] Error getting advance recoupments:', error);
+    return [];
+  }
+}
@@ -0,0 +1,215 @@
+// src/lib/d1/discounts.ts
+// D1 operations for discount codes and their redemptions
+
+import type { D1Database } from './types';
+import { log } from './types';
+
+export type DiscountType = 'percentage' | 'fixed';
+export type DiscountScope = 'order' | 'release' | 'label' | 'supplier';
+
+export interface DiscountCode {
+  code: string;                   // stored uppercase
+  campaign: string | null;
+  type: DiscountType;
+  amount: number;                 // percent off, or GBP off for 'fixed'
+  scope: DiscountScope;
+  scopeIds: string[];             // release ids / label slugs or account ids / supplier ids
+  minBasket: number;              // pre-discount subtotal required (GBP)
+  maxUses: number | null;         // null = unlimited
+  maxUsesPerCustomer: number | null;
+  usedCount: number;
+  startsAt: string | null;
+  endsAt: string | null;
+  active: boolean;
+}
+
+export interface DiscountRedemption {
+  code: string;
+  orderId: string;
+  customerEmail: string | null;
+  customerId: string | null;
+  amount: number;
+}
+
+function parseScopeIds(value: unknown): string[] {
+  if (typeof value !== 'string' || !value) return [];
+  try {
+    const parsed = JSON.parse(value);
+    return Array.isArray(parsed) ? parsed.filter((id): id is string => typeof id === 'string') : [];
+  } catch (_e: unknown) {
+    /* intentional: malformed scope ids treated as none */
+    return [];
+  }
+}
+
+function rowToDiscountCode(row: Record<string, unknown>): DiscountCode {
+  return {
+    code: row.code as string,
+    campaign: (row.campaign as string) || null,
+    type: row.type === 'fixed' ? 'fixed' : 'percentage',
+    amount: Number(row.amount) || 0,
+    scope: (row.scope as DiscountScope) || 'order',
+    scopeIds: parseScopeIds(row.scope_ids),
+    minBasket: Number(row.min_basket) || 0,
+    maxUses: row.max_uses == null ? null : Number(row.max_uses),
+    maxUsesPerCustomer: row.max_uses_per_customer == null ? null : Number(row.max_uses_per_customer),
+    usedCount: Number(row.used_count) || 0,
+    startsAt: (row.starts_at as string) || null,
+    endsAt: (row.ends_at as string) || null,
+    active: row.active === 1 || row.active === true,
+  };
+}
+
+// Get one code (case-insensitive; null when unknown)
+export async function d1GetDiscountCode(db: D1Database, code: string): Promise<DiscountCode | null> {
+  try {
+    const row = await db.prepare('SELECT * FROM discount_codes WHERE code = ?')
+      .bind(code.trim().toUpperCase()).first();
+    return row ? rowToDiscountCode(row as Record<string, unknown>) : null;
+  } catch (error: unknown) {
+    log.error('[D1] Error getting discount code:', error);
+    return null;
+  }
+}
+
+// List codes, optionally for one campaign
+export async function d1ListDiscountCodes(db: D1Database, campaign?: string): Promise<DiscountCode[]> {
+  try {
+    const stmt = campaign
+      ? db.prepare('SELECT * FROM discount_codes WHERE campaign = ? ORDER BY created_at DESC').bind(campaign)
+      : db.prepare('SELECT * FROM discount_codes ORDER BY created_at DESC');
+    const { results } = await stmt.all();
+    return (results || []).map(row => rowToDiscountCode(row as Record<string, unknown>));
+  } catch (error: unknown) {
+    log.error('[D1] Error listing discount codes:', error);
+    return [];
+  }
+}
+
+// Insert or update a code (used_count is never overwritten)
+export async function d1UpsertDiscountCode(
+  db: D1Database,
+  code: Omit<DiscountCode, 'usedCount'>
+): Promise<boolean> {
+  try {
+    await db.prepare(
+      `INSERT INTO discount_codes (code, campaign, type, amount, scope, scope_ids, min_basket,
+         max_uses, max_uses_per_customer, starts_at, ends_at, active, updated_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, datetime('now'))
+       ON CONFLICT(code) DO UPDATE SET
+         campaign = excluded.campaign,
+         type = excluded.type,
+         amount = excluded.amount,
+         scope = excluded.scope,
+         scope_ids = excluded.scope_ids,
+         min_basket = excluded.min_basket,
+         max_uses = excluded.max_uses,
+         max_uses_per_customer = excluded.max_uses_per_customer,
+         starts_at = excluded.starts_at,
+         ends_at = excluded.ends_at,
+         active = excluded.active,
+         updated_at = excluded.updated_at`
+    ).bind(
+      code.code.trim().toUpperCase(),
+      code.campaign || null,
+      code.type,
+      code.amount,
+      code.scope,
+      JSON.stringify(code.scopeIds || []),
+      code.minBasket || 0,
+      code.maxUses ?? null,
+      code.maxUsesPerCustomer ?? null,
+      code.startsAt || null,
+      code.endsAt || null,
+      code.active ? 1 : 0
+    ).run();
+    return true;
+  } catch (error: unknown) {
+    log.error('[D1] Error upserting discount code:', error);
+    return false;
+  }
+}
+
+// How many orders this customer has already placed with the code
+export async function d1CountCustomerRedemptions(
+  db: D1Database,
+  code: string,
+  customer: { email?: string | null; userId?: string | null }
+): Promise<number> {
+  if (!customer.email && !customer.userId) return 0;
+  try {
+    const row = await db.prepare(
+      `SELECT COUNT(*) AS count FROM discount_redemptions
+       WHERE code = ? AND (customer_email = ? OR (? IS NOT NULL AND customer_id = ?))`
+    ).bind(
+      code.trim().toUpperCase(),
+      (customer.email || '').toLowerCase(),
+      customer.userId || null,
+      customer.userId || null
+    ).first();
+    return Number((row as Record<string, unknown> | null)?.count) || 0;
+  } catch (error: unknown) {
+    log.error('[D1] Error counting discount redemptions:', error);
+    return 0;
+  }
+}
+
+export type DiscountRedeemResult = 'redeemed' | 'over_cap' | 'failed';
+
+// Record a redemption against an order. The INSERT only goes in while the
+// code is under max_uses and the customer under max_uses_per_customer,
+// counted from the redemptions themselves in the same statement, so of two
+// checkouts racing for the last use only one gets it. The other has already
+// been paid at the discounted price, so the order isn't undone: its
+// redemption is kept with over_cap = 1 and the caller flags the order.
+// used_count is re-counted from the rows. Idempotent per (code, order) so a
+// webhook retry doesn't count twice.
+export async function d1RedeemDiscountCode(db: D1Database, redemption: DiscountRedemption): Promise<DiscountRedeemResult> {
+  try {
+    const code = redemption.code.trim().toUpperCase();
+    const email = (redemption.customerEmail || '').toLowerCase() || null;
+    const customerId = redemption.customerId || null;
+
+    const existing = await db.prepare(
+      'SELECT over_cap FROM discount_redemptions WHERE code = ? AND order_id = ?'
+    ).bind(code, redemption.orderId).first();
+    if (existing) return existing.over_cap ? 'over_cap' : 'redeemed';
+
+    const claimed = await db.prepare(
+      `INSERT INTO discount_redemptions (code, order_id, customer_email, customer_id, amount)
+       SELECT c.code, ?, ?, ?, ?
+       FROM discount_codes c
+       WHERE c.code = ?
+         AND (c.max_uses IS NULL
+           OR (SELECT COUNT(*) FROM discount_redemptions r WHERE r.code = c.code AND r.over_cap = 0) < c.max_uses)
+         AND (c.max_uses_per_customer IS NULL
+           OR (SELECT COUNT(*) FROM discount_redemptions r
+               WHERE r.code = c.code AND (r.customer_email = ? OR (? IS NOT NULL AND r.customer_id = ?))) < c.max_uses_per_customer)
+       ON CONFLICT (code, order_id) DO NOTHING`
+    ).bind(
+      redemption.orderId, email, customerId, redemption.amount,
+      code,
+      email || '', customerId, customerId
+    ).run();
+
+    if ((claimed as { meta?: { changes?: number } })?.meta?.changes) {
+      await db.prepare(
+        `UPDATE discount_codes SET
+           used_count = (SELECT COUNT(*) FROM discount_redemptions WHERE code = ? AND over_cap = 0),
+           updated_at = datetime('now')
+         WHERE code = ?`
+      ).bind(code, code).run();
+      return 'redeemed';
+    }
+
+    await db.prepare(
+      `INSERT OR IGNORE INTO discount_redemptions (code, order_id, customer_email, customer_id, amount, over_cap)
+       VALUES (?, ?, ?, ?, ?, 1)`
+    ).bind(code, redemption.orderId, email, customerId, redemption.amount).run();
+    log.warn('[D1] Discount code', code, 'was over its limit when order', redemption.orderId, 'redeemed it');
+    return 'over_cap';
+  } catch (error: unknown) {
+    log.error('[D1] Error redeeming discount code:', error);
+    return 'failed';
+  }
+}
@@ -0,0 +1,106 @@
+// src/lib/d1/download-fingerprints.ts
+// D1 operations for per-buyer download fingerprints (see
+// lib/release/download-fingerprint.ts): which order, customer and file each
+// embedded code was handed to
+
+import type { D1Database } from './types';
+import { log } from './types';
+
+export interface DownloadFingerprint {
+  code: string;
+  orderId: string;
+  orderNumber: string | null;
+  userId: string;
+  customerEmail: string | null;
+  releaseId: string;
+  trackName: string | null;
+  fileType: string;
+  serveCount: number;
+  createdAt: string;
+  lastServedAt: string;
+}
+
+export interface NewDownloadFingerprint {
+  code: string;
+  orderId: string;
+  orderNumber: string | null;
+  userId: string;
+  customerEmail: string | null;
+  releaseId: string;
+  trackName: string | null;
+  fileType: string;
+}
+
+function rowToFingerprint(row: Record<string, unknown>): DownloadFingerprint {
+  return {
+    code: row.code as string,
+    orderId: row.order_id as string,
+    orderNumber: (row.order_number as string) || null,
+    userId: row.user_id as string,
+    customerEmail: (row.customer_email as string) || null,
+    releaseId: row.release_id as string,
+    trackName: (row.track_key as string) || null,
+    fileType: row.file_type as string,
+    serveCount: Number(row.serve_count) || 0,
+    createdAt: row.created_at as string,
+    lastServedAt: row.last_served_at as string,
+  };
+}
+
+/**
+ * The code for one file of an order, recording that it was served again.
+ * `entry.code` is only used the first time that file is asked for; after
+ * that the stored code comes back, so every copy a buyer downloads carries
+ * the same one. Null if D1 couldn't be written.
+ */
+export async function d1ClaimFingerprint(db: D1Database, entry: NewDownloadFingerprint): Promise<string | null> {
+  try {
+    const row = await db.prepare(
+      `INSERT INTO download_fingerprints
+         (code, order_id, order_number, user_id, customer_email, release_id, track_key, file_type)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+       ON CONFLICT(order_id, release_id, track_key, file_type) DO UPDATE SET
+         serve_count = serve_count + 1,
+         last_served_at = datetime('now')
+       RETURNING code`
+    ).bind(
+      entry.code,
+      entry.orderId,
+      entry.orderNumber,
+      entry.userId,
+      entry.customerEmail,
+      entry.releaseId,
+      entry.trackName || '',
+      entry.fileType,
+    ).first();
+    return (row?.code as string) || null;
+  } catch (error: unknown) {
+    log.error('[D1] Error claiming download fingerprint:', error);
+    return null;
+  }
+}
+
+export async function d1GetFingerprint(db: D1Database, code: string): Promise<DownloadFingerprint | null> {
+  try {
+    const row = await db.prepare(
+      `SELECT * FROM download_fingerprints WHERE code = ?`
+    ).bind(code).first();
+    return row ? rowToFingerprint(row as Record<string, unknown>) : null;
+  } catch (error: unknown) {
+    log.error('[D1] Error getting download fingerprint:', error);
+    return null;
+  }
+}
+
+// Every fingerprinted file of an order, for the leak tracer
+export async function d1GetOrderFingerprints(db: D1Database, orderId: string): Promise<DownloadFingerprint[]> {
+  try {
+    const { results } = await db.prepare(
+      `SELECT * FROM download_fingerprints WHERE order_id = ? ORDER BY created_at ASC`
+    ).bind(orderId).all();
+    return (results || []).map(row => rowToFingerprint(row as Record<string, unknown>));
+  } catch (error: unknown) {
+    log.error('[D1] Error getting order fingerprints:', error);
+    return [];
+  }
+}
@@ -0,0 +1,67 @@
+// src/lib/d1/downloads.ts
+// D1 operations for the purchased-download log
+
+import type { D1Database } from './types';
+import { log } from './types';
+
+export interface DownloadLogEntry {
+  userId: string;
+  orderId: string | null;
+  releaseId: string | null;
+  trackIndex: number | null;
+  fileType: string | null;
+  source: 'presign' | 'proxy';
+  ip: string | null;
+  userAgent: string | null;
+  createdAt?: string;
+}
+
+function rowToDownload(row: Record<string, unknown>): DownloadLogEntry {
+  return {
+    userId: row.user_id as string,
+    orderId: (row.order_id as string) || null,
+    releaseId: (row.release_id as string) || null,
+    trackIndex: row.track_index === null || row.track_index === undefined ? null : Number(row.track_index),
+    fileType: (row.file_type as string) || null,
+    source: row.source as DownloadLogEntry['source'],
+    ip: (row.ip as string) || null,
+    userAgent: (row.user_agent as string) || null,
+    createdAt: row.created_at as string,
+  };
+}
+
+// Record a download. Best-effort: a failed insert never blocks the download.
+export async function d1LogDownload(db: D1Database | undefined, entry: DownloadLogEntry): Promise<void> {
+  if (!db) return;
+  try {
+    await db.prepare(
+      `INSERT INTO download_log (user_id, order_id, release_id, track_index, file_type, source, ip, user_agent)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?)`
+    ).bind(
+      entry.userId,
+      entry.orderId,
+      entry.releaseId,
+      entry.trackIndex,
+      entry.fileType,
+      entry.source,
+      entry.ip,
+      entry.userAgent?.slice(0, 300) || null,
+    ).run();
+  } catch (error: unknown) {
+    log.error('[D1] Error logging download:', error);
+  }
+}
+
+// Downloads of one order, oldest first
+export async function d1GetOrderDownloads(db: D1Database, orderId: string, limit = 200): Promise<DownloadLogEntry[]> {
+  try {
+    const { results } = await db.prepare(
+      `SELECT user_id, order_id, release_id, track_index, file_type, source, ip, user_agent, created_at
+       FROM download_log WHERE order_id = ? ORDER BY created_at ASC LIMIT ?`
+    ).bind(orderId, limit).all();
+    return (results || []).map(row => rowToDownload(row as Record<string, unknown>));
+  } catch (error: unknown) {
+    log.error('[D1] Error getting order downloads:', error);
+    return [];
+  }
+}
@@ -0,0 +1,236 @@
+// src/lib/d1/fraud.ts
+// D1 operations for order risk checks and the events that feed them
+
+import type { D1Database } from './types';
+import { log } from './types';
+
+export type RiskLevel = 'low' | 'medium' | 'high';
+export type RiskCheckStatus = 'clear' | 'held' | 'approved' | 'rejected';
+export type RiskEventKind = 'giftcard_redeem_failed' | 'referral_failed';
+
+export interface RiskReason {
+  rule: string;
+  points: number;
+  detail: string;
+}
+
+export interface OrderRiskCheck {
+  orderId: string;
+  orderNumber: string | null;
+  email: string | null;
+  userId: string | null;
+  ip: string | null;
+  cardFingerprint: string | null;
+  total: number;
+  score: number;
+  level: RiskLevel;
+  reasons: RiskReason[];
+  status: RiskCheckStatus;
+  reviewedBy: string | null;
+  reviewedAt: string | null;
+  createdAt?: string;
+}
+
+// Earlier orders placed from one IP / email / card within a window
+export interface RiskVelocity {
+  ipOrders: number;
+  emailOrders: number;
+  cardOrders: number;
+  cardEmails: number;            // other customers' emails the card has paid for
+}
+
+const changed = (result: unknown) => ((result as { meta?: { changes?: number } })?.meta?.changes ?? 0) > 0;
+
+function parseReasons(value: unknown): RiskReason[] {
+  try {
+    const parsed = JSON.parse(String(value || '[]'));
+    return Array.isArray(parsed) ? parsed as RiskReason[] : [];
+  } catch {
+    return [];
+  }
+}
+
+function rowToRiskCheck(row: Record<string, unknown>): OrderRiskCheck {
+  return {
+    orderId: row.order_id as string,
+    orderNumber: (row.order_number as string) || null,
+    email: (row.email as string) || null,
+    userId: (row.user_id as string) || null,
+    ip: (row.ip as string) || null,
+    cardFingerprint: (row.card_fingerprint as string) || null,
+    total: Number(row.total) || 0,
+    score: Number(row.score) || 0,
+    level: (row.level as RiskLevel) || 'low',
+    reasons: parseReasons(row.reasons),
+    status: (row.status as RiskCheckStatus) || 'clear',
+    reviewedBy: (row.reviewed_by as string) || null,
+    reviewedAt: (row.reviewed_at as string) || null,
+    createdAt: row.created_at as string,
+  };
+}
+
+export async function d1InsertRiskCheck(db: D1Database, check: OrderRiskCheck): Promise<boolean> {
+  try {
+    await db.prepare(
+      `INSERT OR IGNORE INTO order_risk_checks (order_id, order_number, email, user_id, ip, card_fingerprint, total,
+         score, level, reasons, status)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+    ).bind(
+      check.orderId,
+      check.orderNumber,
+      check.email,
+      check.userId,
+      check.ip,
+      check.cardFingerprint,
+      check.total,
+      check.score,
+      check.level,
+      JSON.stringify(check.reasons),
+      check.status
+    ).run();
+    return true;
+  } catch (error: unknown) {
+    log.error('[D1] Error recording risk check:', error);
+    return false;
+  }
+}
+
+export async function d1GetRiskCheck(db: D1Database, orderId: string): Promise<OrderRiskCheck | null> {
+  try {
+    const row = await db.prepare('SELECT * FROM order_risk_checks WHERE order_id = ?').bind(orderId).first();
+    return row ? rowToRiskCheck(row as Record<string, unknown>) : null;
+  } catch (error: unknown) {
+    log.error('[D1] Error getting risk check:', error);
+    return null;
+  }
+}
+
+// Risk checks, newest first, optionally in one review status
+export async function d1GetRiskChecks(db: D1Database, options: {
+  status?: RiskCheckStatus;
+  minScore?: number;
+  limit?: number;
+} = {}): Promise<OrderRiskCheck[]> {
+  try {
+    const conditions: string[] = [];
+    const params: unknown[] = [];
+    if (options.status) {
+      conditions.push('status = ?');
+      params.push(options.status);
+    }
+    if (options.minScore) {
+      conditions.push('score >= ?');
+      params.push(options.minScore);
+    }
+    const where = conditions.length > 0 ? 'WHERE ' + conditions.join(' AND ') : '';
+    const { results } = await db.prepare(
+      `SELECT * FROM order_risk_checks ${where} ORDER BY created_at DESC LIMIT ?`
+    ).bind(...params, options.limit ?? 100).all();
+    return (results || []).map(row => rowToRiskCheck(row as Record<string, unknown>));
+  } catch (error: unknown) {
+    log.error('[D1] Error getting risk checks:', error);
+    return [];
+  }
+}
+
+/**
+ * Move a held order to approved / rejected. Only succeeds from 'held', so
+ * two reviewers acting at once can't both release the order's payouts.
+ */
+export async function d1ResolveRiskCheck(
+  db: D1Database,
+  orderId: string,
+  status: 'approved' | 'rejected',
+  reviewedBy: string
+): Promise<boolean> {
+  try {
+    const result = await db.prepare(
+      `UPDATE order_risk_checks SET status = ?, reviewed_by = ?, reviewed_at = datetime('now')
+       WHERE order_id = ? AND status = 'held'`
+    ).bind(status, reviewedBy, orderId).run();
+    return changed(result);
+  } catch (error: unknown) {
+    log.error('[D1] Error resolving risk check:', error);
+    return false;
+  }
+}
+
+// Put a claimed check back in the queue when releasing it failed part-way
+export async function d1ReopenRiskCheck(db: D1Database, orderId: string): Promise<void> {
+  try {
+    await db.prepare(
+      `UPDATE order_risk_checks SET status = 'held', reviewed_by = NULL, reviewed_at = NULL WHERE order_id = ?`
+    ).bind(orderId).run();
+  } catch (error: unknown) {
+    log.error('[D1] Error reopening risk check:', error);
+  }
+}
+
+/**
+ * Orders already placed from the same IP (in the last `ipHours`), email and
+ * card (in the last `hours`), and how many other emails the card has paid
+ * for in `cardEmailDays`. Throws, so a failed lookup isn't read as "no history".
+ */
+export async function d1GetRiskVelocity(db: D1Database, input: {
+  ip: string | null;
+  email: string | null;
+  cardFingerprint: string | null;
+  ipHours: number;
+  hours: number;
+  cardEmailDays: number;
+}): Promise<RiskVelocity> {
+  const count = async (sql: string, ...params: unknown[]) =>
+    Number((await db.prepare(sql).bind(...params).first())?.n) || 0;
+
+  const [ipOrders, emailOrders, cardOrders, cardEmails] = await Promise.all([
+    input.ip
+      ? count(`SELECT COUNT(*) AS n FROM order_risk_checks WHERE ip = ? AND created_at >= datetime('now', ?)`,
+        input.ip, `-${input.ipHours} hours`)
+      : 0,
+    input.email
+      ? count(`SELECT COUNT(*) AS n FROM order_risk_checks WHERE email = ? AND created_at >= datetime('now', ?)`,
+        input.email, `-${input.hours} hours`)
+      : 0,
+    input.cardFingerprint
+      ? count(`SELECT COUNT(*) AS n FROM order_risk_checks WHERE card_fingerprint = ? AND created_at >= datetime('now', ?)`,
+        input.cardFingerprint, `-${input.hours} hours`)
+      : 0,
+    input.cardFingerprint
+      ? count(`SELECT COUNT(DISTINCT email) AS n FROM order_risk_checks
+               WHERE card_fingerprint = ? AND email != ? AND created_at >= datetime('now', ?)`,
+        input.cardFingerprint, input.email || '', `-${input.cardEmailDays} days`)
+      : 0,
+  ]);
+  return { ipOrders, emailOrders, cardOrders, cardEmails };
+}
+
+export async function d1InsertRiskEvent(db: D1Database, event: {
+  kind: RiskEventKind;
+  userId: string | null;
+  ip: string | null;
+  detail: string | null;
+}): Promise<boolean> {
+  try {
+    await db.prepare(
+      'INSERT INTO risk_events (kind, user_id, ip, detail) VALUES (?, ?, ?, ?)'
+    ).bind(event.kind, event.userId, event.ip, event.detail).run();
+    return true;
+  } catch (error: unknown) {
+    log.error('[D1] Error recording risk event:', error);
+    return false;
+  }
+}
+
+// Failed gift card / referral attempts by an account or IP in the last `hours`
+export async function d1CountRiskEvents(db: D1Database, input: {
+  userId: string | null;
+  ip: string | null;
+  hours: number;
+}): Promise<number> {
+  if (!input.userId && !input.ip) return 0;
+  const row = await db.prepare(
+    `SELECT COUNT(*) AS n FROM risk_events
+     WHERE (user_id = ? OR ip = ?) AND created_at >= datetime('now', ?)`
+  ).bind(input.userId, input.ip, `-${input.hours} hours`).first();
+  return Number(row?.n) || 0;
+}
@@ -0,0 +1,78 @@
+// src/lib/d1/fx-rates.ts
+// D1 operations for the locally stored FX-rate table
+
+import type { D1Database } from './types';
+import { log } from './types';
+
+export interface FxRate {
+  currency: string;
+  rate: number;           // units of `currency` per £1
+  source: string;
+  updatedBy: string | null;
+  updatedAt: string;
+}
+
+function rowToFxRate(row: Record<string, unknown>): FxRate {
+  return {
+    currency: row.currency as string,
+    rate: Number(row.rate) || 0,
+    source: (row.source as string) || 'manual',
+    updatedBy: (row.updated_by as string) || null,
+    updatedAt: (row.updated_at as string) || '',
+  };
+}
+
+// Get every stored rate
+export async function d1GetFxRates(db: D1Database): Promise<FxRate[]> {
+  try {
+    const { results } = await db.prepare(
+      'SELECT currency, rate, source, updated_by, updated_at FROM fx_rates ORDER BY currency'
+    ).all();
+    return (results || []).map(row => rowToFxRate(row as Record<string, unknown>));
+  } catch (error: unknown) {
+    log.error('[D1] Error getting FX rates:', error);
+    return [];
+  }
+}
+
+// Get the stored rate for one currency (null when none is stored)
+export async function d1GetFxRate(db: D1Database, currency: string): Promise<FxRate | null> {
+  try {
+    const row = await db.prepare(
+      'SELECT currency, rate, source, updated_by, updated_at FROM fx_rates WHERE currency = ?'
+    ).bind(currency.toUpperCase()).first();
+    return row ? rowToFxRate(row as Record<string, unknown>) : null;
+  } catch (error: unknown) {
+    log.error('[D1] Error getting FX rate:', error);
+    return null;
+  }
+}
+
+// Insert or replace the rate for one currency
+export async function d1UpsertFxRate(db: D1Database, entry: {
+  currency: string;
+  rate: number;
+  source?: string;
+  updatedBy?: string | null;
+}): Promise<boolean> {
+  try {
+    await db.prepare(
+      `INSERT INTO fx_rates (currency, rate, source, updated_by, updated_at)
+       VALUES (?, ?, ?, ?, datetime('now'))
+       ON CONFLICT(currency) DO UPDATE SET
+         rate = excluded.rate,
+         source = excluded.source,
+         updated_by = excluded.updated_by,
+         updated_at = excluded.updated_at`
+    ).bind(
+      entry.currency.toUpperCase(),
+      entry.rate,
+      entry.source || 'manual',
+      entry.updatedBy || null
+    ).run();
+    return true;
+  } catch (error: unknown) {
+    log.error('[D1] Error upserting FX rate:', error);
+    return false;
+  }
+}
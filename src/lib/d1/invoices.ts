@@ -0,0 +1,99 @@
+// src/lib/d1/invoices.ts
+// D1 operations for sequentially numbered order invoices
+
+import type { D1Database } from './types';
+import { log } from './types';
+
+export interface InvoiceRecord {
+  invoiceNumber: number;
+  orderId: string;
+  orderNumber: string | null;
+  customerId: string | null;
+  customerEmail: string | null;
+  buyerCountry: string | null;
+  buyerVatNumber: string | null;
+  net: number;
+  vat: number;
+  gross: number;
+  currency: string;
+  taxPoint: string | null;
+  issuedAt: string;
+}
+
+export type NewInvoice = Omit<InvoiceRecord, 'invoiceNumber' | 'issuedAt'>;
+
+function rowToInvoice(row: Record<string, unknown>): InvoiceRecord {
+  return {
+    invoiceNumber: Number(row.invoice_number),
+    orderId: row.order_id as string,
+    orderNumber: (row.order_number as string) || null,
+    customerId: (row.customer_id as string) || null,
+    customerEmail: (row.customer_email as string) || null,
+    buyerCountry: (row.buyer_country as string) || null,
+    buyerVatNumber: (row.buyer_vat_number as string) || null,
+    net: Number(row.net) || 0,
+    vat: Number(row.vat) || 0,
+    gross: Number(row.gross) || 0,
+    currency: (row.currency as string) || 'GBP',
+    taxPoint: (row.tax_point as string) || null,
+    issuedAt: row.issued_at as string,
+  };
+}
+
+// Get the invoice already issued for an order (null when none)
+export async function d1GetInvoiceByOrder(db: D1Database, orderId: string): Promise<InvoiceRecord | null> {
+  try {
+    const row = await db.prepare('SELECT * FROM invoices WHERE order_id = ?').bind(orderId).first();
+    return row ? rowToInvoice(row as Record<string, unknown>) : null;
+  } catch (error: unknown) {
+    log.error('[D1] Error getting invoice:', error);
+    return null;
+  }
+}
+
+// Issue the next invoice number for an order. Idempotent per order: a retry
+// (webhook + verify-session, or a later download) returns the first number.
+// The number is taken as MAX + 1 in the same statement that checks the order
+// has none, so a retry that loses the race inserts nothing. INSERT OR IGNORE
+// can't be used: an ignored insert still advances the AUTOINCREMENT sequence
+// and would leave a gap in the invoice series.
+export async function d1IssueInvoice(db: D1Database, invoice: NewInvoice): Promise<InvoiceRecord | null> {
+  try {
+    await db.prepare(
+      `INSERT INTO invoices (invoice_number, order_id, order_number, customer_id, customer_email,
+         buyer_country, buyer_vat_number, net, vat, gross, currency, tax_point)
+       SELECT COALESCE((SELECT MAX(invoice_number) FROM invoices), 0) + 1, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?
+       WHERE NOT EXISTS (SELECT 1 FROM invoices WHERE order_id = ?)`
+    ).bind(
+      invoice.orderId,
+      invoice.orderNumber || null,
+      invoice.customerId || null,
+      (invoice.customerEmail || '').toLowerCase() || null,
+      invoice.buyerCountry || null,
+      invoice.buyerVatNumber || null,
+      invoice.net,
+      invoice.vat,
+      invoice.gross,
+      invoice.currency || 'GBP',
+      invoice.taxPoint || null,
+      invoice.orderId
+    ).run();
+    return await d1GetInvoiceByOrder(db, invoice.orderId);
+  } catch (error: unknown) {
+    log.error('[D1] Error issuing invoice:', error);
+    return null;
+  }
+}
+
+// Invoices whose tax point falls in [from, to) — for the VAT return
+export async function d1ListInvoices(db: D1Database, range: { from: string; to: string }): Promise<InvoiceRecord[]> {
+  try {
+    const { results } = await db.prepare(
+      'SELECT * FROM invoices WHERE tax_point >= ? AND tax_point < ? ORDER BY invoice_number'
+    ).bind(range.from, range.to).all();
+    return (results || []).map(row => rowToInvoice(row as Record<string, unknown>));
+  } catch (error: unknown) {
+    log.error('[D1] Error listing invoices:', error);
+    return [];
+  }
+}
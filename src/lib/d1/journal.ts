@@ -0,0 +1,150 @@
+// src/lib/d1/journal.ts
+// D1 operations for the double-entry journal (append-only)
+
+import type { D1Database } from './types';
+import { log } from './types';
+
+export interface JournalLine {
+  account: string;
+  partyId: string | null;
+  debitPence: number;
+  creditPence: number;
+  memo?: string | null;
+}
+
+export interface JournalEntry {
+  id: string;
+  entryType: string;
+  orderId: string | null;
+  reference: string | null;
+  memo: string | null;
+  lines: JournalLine[];
+}
+
+export const MAX_JOURNAL_LINES = 14;
+
+export interface JournalBalance {
+  account: string;
+  partyId: string | null;
+  debitPence: number;
+  creditPence: number;
+}
+
+// Write an entry and its lines. Lines go in as ONE multi-row statement so an
+// entry is never half-posted; both inserts are OR IGNORE on the entry id, so
+// posting the same id again is a no-op. Caller checks the entry balances.
+// D1 allows 100 bound parameters per statement, so at most 14 lines.
+export async function d1InsertJournalEntry(db: D1Database, entry: JournalEntry): Promise<boolean> {
+  try {
+    const values: unknown[] = [];
+    for (const [i, line] of entry.lines.entries()) {
+      values.push(entry.id, i + 1, line.account, line.partyId, line.debitPence, line.creditPence, line.memo || null);
+    }
+    await db.prepare(
+      `INSERT OR IGNORE INTO journal_lines (entry_id, line_no, account, party_id, debit_pence, credit_pence, memo)
+       VALUES ${entry.lines.map(() => '(?, ?, ?, ?, ?, ?, ?)').join(', ')}`
+    ).bind(...values).run();
+    await db.prepare(
+      `INSERT OR IGNORE INTO journal_entries (id, entry_type, order_id, reference, memo)
+       VALUES (?, ?, ?, ?, ?)`
+    ).bind(entry.id, entry.entryType, entry.orderId, entry.reference, entry.memo).run();
+    return true;
+  } catch (error: unknown) {
+    log.error('[D1] Error posting journal entry:', error);
+    return false;
+  }
+}
+
+// Lines of one posted entry (empty when the entry doesn't exist)
+export async function d1GetJournalLines(db: D1Database, entryId: string): Promise<JournalLine[]> {
+  try {
+    const { results } = await db.prepare(
+      'SELECT account, party_id, debit_pence, credit_pence, memo FROM journal_lines WHERE entry_id = ? ORDER BY line_no'
+    ).bind(entryId).all();
+    return (results || []).map(row => ({
+      account: row.account as string,
+      partyId: (row.party_id as string) || null,
+      debitPence: Number(row.debit_pence) || 0,
+      creditPence: Number(row.credit_pence) || 0,
+      memo: (row.memo as string) || null,
+    }));
+  } catch (error: unknown) {
+    log.error('[D1] Error getting journal lines:', error);
+    return [];
+  }
+}
+
+// Debit/credit totals per account and party, optionally for one party or up
+// to a cut-off date
+export async function d1GetJournalBalances(db: D1Database, options: {
+  partyId?: string;
+  accounts?: string[];
+  before?: string;
+} = {}): Promise<JournalBalance[]> {
+  try {
+    let query = `SELECT account, party_id, SUM(debit_pence) AS debit_pence, SUM(credit_pence) AS credit_pence
+      FROM journal_lines WHERE 1=1`;
+    const params: unknown[] = [];
+
+    if (options.partyId) {
+      query += ' AND party_id = ?';
+      params.push(options.partyId);
+    }
+    if (options.accounts?.length) {
+      query += ` AND account IN (${options.accounts.map(() => '?').join(', ')})`;
+      params.push(...options.accounts);
+    }
+    if (options.before) {
+      query += ' AND posted_at < datetime(?)';
+      params.push(options.before);
+    }
+    query += ' GROUP BY account, party_id ORDER BY account, party_id';
+
+    const stmt = db.prepare(query);
+    const { results } = params.length > 0 ? await stmt.bind(...params).all() : await stmt.all();
+    return (results || []).map(row => ({
+      account: row.account as string,
+      partyId: (row.party_id as string) || null,
+      debitPence: Number(row.debit_pence) || 0,
+      creditPence: Number(row.credit_pence) || 0,
+    }));
+  } catch (error: unknown) {
+    log.error('[D1] Error getting journal balances:', error);
+    return [];
+  }
+}
+
+// Entries touching a party, newest first, with their lines for that party
+export async function d1GetJournalActivity(db: D1Database, partyId: string, limit = 100): Promise<Array<{
+  entryId: string;
+  entryType: string;
+  orderId: string | null;
+  reference: string | null;
+  account: string;
+  debitPence: number;
+  creditPence: number;
+  memo: string | null;
+  postedAt: string;
+}>> {
+  try {
+    const { results } = await db.prepare(
+      `SELECT l.entry_id, e.entry_type, e.order_id, e.reference, l.account, l.debit_pence, l.credit_pence, l.memo, l.posted_at
+       FROM journal_lines l LEFT JOIN journal_entries e ON e.id = l.entry_id
+       WHERE l.party_id = ? ORDER BY l.posted_at DESC, l.entry_id, l.line_no LIMIT ?`
+    ).bind(partyId, limit).all();
+    return (results || []).map(row => ({
+      entryId: row.entry_id as string,
+      entryType: (row.entry_type as string) || 'unknown',
+      orderId: (row.order_id as string) || null,
+      reference: (row.reference as string) || null,
+      account: row.account as string,
+      debitPence: Number(row.debit_pence) || 0,
+      creditPence: Number(row.credit_pence) || 0,
+      memo: (row.memo as string) || null,
+      postedAt: row.posted_at as string,
+    }));
+  } catch (error: unknown) {
+    log.error('[D1] Error getting journal activity:', error);
+    return [];
+  }
+}
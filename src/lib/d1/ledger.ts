@@ -32,6 +32,11 @@ export interface D1LedgerEntry {
   payment_method: string;
   payment_id: string | null;
   currency: string;
+  presentment_currency: string;
+  presentment_total: number | null;
+  fx_rate: number;
+  vat: number;
+  vat_country: string | null;
   item_count: number;
   has_physical: number;
   has_digital: number;
@@ -70,6 +75,11 @@ export function ledgerToD1Row(entry: FirestoreDoc): Partial<D1LedgerEntry> {
     payment_method: entry.paymentMethod || 'stripe',
     payment_id: entry.paymentId || null,
     currency: entry.currency || 'GBP',
+    presentment_currency: entry.presentmentCurrency || entry.currency || 'GBP',
+    presentment_total: entry.presentmentTotal ?? entry.grossTotal ?? null,
+    fx_rate: entry.fxRate || 1,
+    vat: entry.vat || 0,
+    vat_country: entry.vatCountry || null,
     item_count: entry.itemCount || entry.items?.length || 0,
     has_physical: entry.hasPhysical ? 1 : 0,
     has_digital: entry.hasDigital ? 1 : 0,
@@ -107,8 +117,9 @@ export async function d1InsertLedgerEntry(db: D1Database, id: string, entry: Fir
         stripe_fee, paypal_fee, freshwax_fee, total_fees, net_revenue,
         artist_payout, artist_payout_status,
         payment_method, payment_id, currency,
+        presentment_currency, presentment_total, fx_rate, vat, vat_country,
         item_count, has_physical, has_digital, data
-      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
     `).bind(
       row.id, row.order_id, row.order_number, row.timestamp, row.year, row.month, row.day,
       row.customer_id, row.customer_email, row.artist_id, row.artist_name, row.submitter_id, row.submitter_email,
@@ -116,6 +127,7 @@ export async function d1InsertLedgerEntry(db: D1Database, id: string, entry: Fir
       row.stripe_fee, row.paypal_fee, row.freshwax_fee, row.total_fees, row.net_revenue,
       row.artist_payout, row.artist_payout_status,
       row.payment_method, row.payment_id, row.currency,
+      row.presentment_currency, row.presentment_total, row.fx_rate, row.vat, row.vat_country,
       row.item_count, row.has_physical, row.has_digital, row.data
     ).run();
 
@@ -265,6 +277,21 @@ export async function d1GetLedgerEntriesByOrder(db: D1Database, orderId: string)
   }
 }
 
+// Get ledger entries paid through one processor in [from, to) — what a
+// settlement report for that period should account for
+export async function d1GetLedgerEntriesByPaymentMethod(db: D1Database, paymentMethod: string, from: string, to: string): Promise<FirestoreDoc[]> {
+  try {
+    const { results } = await db.prepare(
+      'SELECT id, data, artist_payout_status, artist_payout FROM sales_ledger WHERE payment_method = ? AND timestamp >= ? AND timestamp < ? ORDER BY timestamp'
+    ).bind(paymentMethod, from, to).all();
+
+    return (results || []).map((row) => d1RowToLedger(row as unknown as D1LedgerEntry)).filter(Boolean) as FirestoreDoc[];
+  } catch (error: unknown) {
+    log.error('[D1] Error getting ledger entries by payment method:', error);
+    return [];
+  }
+}
+
 // Get ledger entries for an artist
 export async function d1GetLedgerEntriesByArtist(db: D1Database, artistId: string): Promise<FirestoreDoc[]> {
   try {
@@ -338,6 +365,57 @@ export async function d1GetLedgerTotals(db: D1Database, options: {
   }
 }
 
+export interface SellerLedgerMonth {
+  month: string;          // YYYY-MM
+  orders: number;
+  gross: number;          // sales only
+  fees: number;           // fees on those sales
+  refunds: number;        // refunded to buyers, positive
+  refundedFees: number;   // fees returned with the refunds, positive
+  vat: number;            // net of refunds
+  net: number;            // the seller's earnings (artist_payout) net of refunds
+}
+
+// One seller's ledger rolled up by month over [from, to). A row belongs to
+// its submitter (the payee, under a split sheet), falling back to artist_id
+// on old rows without one. Refund rows are the negative-gross copies written
+// by recordRefundEntries.
+export async function d1GetSellerLedgerMonths(db: D1Database, sellerId: string, from: string, to: string): Promise<SellerLedgerMonth[]> {
+  try {
+    const { results } = await db.prepare(`
+      SELECT
+        substr(timestamp, 1, 7) as month,
+        COUNT(DISTINCT CASE WHEN gross_total > 0 THEN order_id END) as orders,
+        COALESCE(SUM(CASE WHEN gross_total > 0 THEN gross_total ELSE 0 END), 0) as gross,
+        COALESCE(SUM(CASE WHEN gross_total > 0 THEN total_fees ELSE 0 END), 0) as fees,
+        COALESCE(SUM(CASE WHEN gross_total < 0 THEN -gross_total ELSE 0 END), 0) as refunds,
+        COALESCE(SUM(CASE WHEN gross_total < 0 THEN -total_fees ELSE 0 END), 0) as refunded_fees,
+        COALESCE(SUM(vat), 0) as vat,
+        COALESCE(SUM(artist_payout), 0) as net
+      FROM sales_ledger
+      WHERE (submitter_id = ? OR (submitter_id IS NULL AND artist_id = ?))
+        AND timestamp >= ? AND timestamp < ?
+      GROUP BY month
+      ORDER BY month
+    `).bind(sellerId, sellerId, from, to).all();
+
+    const round2 = (n: unknown) => Math.round((Number(n) || 0) * 100) / 100;
+    return (results || []).map(row => ({
+      month: row.month as string,
+      orders: Number(row.orders) || 0,
+      gross: round2(row.gross),
+      fees: round2(row.fees),
+      refunds: round2(row.refunds),
+      refundedFees: round2(row.refunded_fees),
+      vat: round2(row.vat),
+      net: round2(row.net),
+    }));
+  } catch (error: unknown) {
+    log.error('[D1] Error getting seller ledger months:', error);
+    return [];
+  }
+}
+
 // Delete ledger entry (admin only)
 export async function d1DeleteLedgerEntry(db: D1Database, id: string): Promise<boolean> {
   try {
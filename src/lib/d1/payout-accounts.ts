@@ -0,0 +1,207 @@
+// src/lib/d1/payout-accounts.ts
+// D1 operations for seller payout verification state
+
+import type { D1Database } from './types';
+import { log } from './types';
+
+export type PayoutState = 'unverified' | 'pending' | 'verified' | 'restricted';
+export type PayoutEntityType = 'artist' | 'supplier' | 'user';
+
+export interface PayoutAccount {
+  entityType: PayoutEntityType;
+  entityId: string;
+  name: string | null;
+  email: string | null;
+  method: 'stripe' | 'paypal' | null;
+  state: PayoutState;
+  reason: string | null;
+  onHold: boolean;               // an admin has stopped payouts
+  pendingBalance: number;        // earnings waiting to be paid out
+  warnedAt: string | null;       // last "you can't be paid" email
+  verifiedAt: string | null;
+  updatedAt?: string;
+}
+
+export interface PayoutAccountEvent {
+  id?: number;
+  entityType: PayoutEntityType;
+  entityId: string;
+  fromState: PayoutState | null;
+  toState: PayoutState;
+  method: string | null;
+  reason: string | null;
+  source: string;                // stripe_webhook, paypal_verified, payout_failed, admin:<id>, ...
+  createdAt?: string;
+}
+
+const changed = (result: unknown) => ((result as { meta?: { changes?: number } })?.meta?.changes ?? 0) > 0;
+
+function rowToAccount(row: Record<string, unknown>): PayoutAccount {
+  return {
+    entityType: row.entity_type as PayoutEntityType,
+    entityId: row.entity_id as string,
+    name: (row.name as string) || null,
+    email: (row.email as string) || null,
+    method: (row.method as PayoutAccount['method']) || null,
+    state: (row.state as PayoutState) || 'unverified',
+    reason: (row.reason as string) || null,
+    onHold: !!row.on_hold,
+    pendingBalance: Number(row.pending_balance) || 0,
+    warnedAt: (row.warned_at as string) || null,
+    verifiedAt: (row.verified_at as string) || null,
+    updatedAt: row.updated_at as string,
+  };
+}
+
+function rowToEvent(row: Record<string, unknown>): PayoutAccountEvent {
+  return {
+    id: Number(row.id),
+    entityType: row.entity_type as PayoutEntityType,
+    entityId: row.entity_id as string,
+    fromState: (row.from_state as PayoutState) || null,
+    toState: row.to_state as PayoutState,
+    method: (row.method as string) || null,
+    reason: (row.reason as string) || null,
+    source: row.source as string,
+    createdAt: row.created_at as string,
+  };
+}
+
+export async function d1GetPayoutAccount(
+  db: D1Database,
+  entityType: PayoutEntityType,
+  entityId: string
+): Promise<PayoutAccount | null> {
+  try {
+    const row = await db.prepare('SELECT * FROM payout_accounts WHERE entity_type = ? AND entity_id = ?')
+      .bind(entityType, entityId).first();
+    return row ? rowToAccount(row as Record<string, unknown>) : null;
+  } catch (error: unknown) {
+    log.error('[D1] Error getting payout account:', error);
+    return null;
+  }
+}
+
+// Insert or refresh a seller's row; warned_at is left as it was
+export async function d1UpsertPayoutAccount(db: D1Database, account: PayoutAccount): Promise<boolean> {
+  try {
+    await db.prepare(
+      `INSERT INTO payout_accounts (entity_type, entity_id, name, email, method, state, reason, on_hold,
+         pending_balance, verified_at, updated_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, datetime('now'))
+       ON CONFLICT(entity_type, entity_id) DO UPDATE SET
+         name = excluded.name, email = excluded.email, method = excluded.method, state = excluded.state,
+         reason = excluded.reason, on_hold = excluded.on_hold, pending_balance = excluded.pending_balance,
+         verified_at = COALESCE(excluded.verified_at, payout_accounts.verified_at), updated_at = datetime('now')`
+    ).bind(
+      account.entityType,
+      account.entityId,
+      account.name,
+      account.email,
+      account.method,
+      account.state,
+      account.reason,
+      account.onHold ? 1 : 0,
+      account.pendingBalance,
+      account.verifiedAt
+    ).run();
+    return true;
+  } catch (error: unknown) {
+    log.error('[D1] Error saving payout account:', error);
+    return false;
+  }
+}
+
+export async function d1InsertPayoutAccountEvent(db: D1Database, event: PayoutAccountEvent): Promise<void> {
+  try {
+    await db.prepare(
+      `INSERT INTO payout_account_events (entity_type, entity_id, from_state, to_state, method, reason, source)
+       VALUES (?, ?, ?, ?, ?, ?, ?)`
+    ).bind(
+      event.entityType,
+      event.entityId,
+      event.fromState,
+      event.toState,
+      event.method,
+      event.reason,
+      event.source
+    ).run();
+  } catch (error: unknown) {
+    log.error('[D1] Error recording payout account event:', error);
+  }
+}
+
+export async function d1GetPayoutAccountEvents(
+  db: D1Database,
+  entityType: PayoutEntityType,
+  entityId: string,
+  limit = 20
+): Promise<PayoutAccountEvent[]> {
+  try {
+    const { results } = await db.prepare(
+      `SELECT * FROM payout_account_events WHERE entity_type = ? AND entity_id = ?
+       ORDER BY created_at DESC, id DESC LIMIT ?`
+    ).bind(entityType, entityId, limit).all();
+    return (results || []).map(row => rowToEvent(row as Record<string, unknown>));
+  } catch (error: unknown) {
+    log.error('[D1] Error getting payout account events:', error);
+    return [];
+  }
+}
+
+// Sellers who can't currently be paid, the most money waiting first
+export async function d1GetUnpayableAccounts(db: D1Database, options: {
+  state?: Exclude<PayoutState, 'verified'>;
+  withBalanceOnly?: boolean;
+  limit?: number;
+} = {}): Promise<PayoutAccount[]> {
+  try {
+    const conditions = [options.state ? 'state = ?' : `state != 'verified'`];
+    const params: unknown[] = options.state ? [options.state] : [];
+    if (options.withBalanceOnly) conditions.push('pending_balance > 0');
+    const { results } = await db.prepare(
+      `SELECT * FROM payout_accounts WHERE ${conditions.join(' AND ')}
+       ORDER BY pending_balance DESC, updated_at DESC LIMIT ?`
+    ).bind(...params, options.limit ?? 200).all();
+    return (results || []).map(row => rowToAccount(row as Record<string, unknown>));
+  } catch (error: unknown) {
+    log.error('[D1] Error getting unpayable payout accounts:', error);
+    return [];
+  }
+}
+
+export async function d1CountPayoutAccountsByState(db: D1Database): Promise<Record<PayoutState, number>> {
+  const counts: Record<PayoutState, number> = { unverified: 0, pending: 0, verified: 0, restricted: 0 };
+  try {
+    const { results } = await db.prepare('SELECT state, COUNT(*) AS n FROM payout_accounts GROUP BY state').all();
+    for (const row of (results || []) as Record<string, unknown>[]) {
+      if ((row.state as string) in counts) counts[row.state as PayoutState] = Number(row.n) || 0;
+    }
+  } catch (error: unknown) {
+    log.error('[D1] Error counting payout accounts:', error);
+  }
+  return counts;
+}
+
+/**
+ * Claim the right to warn a seller: stamps warned_at unless they were
+ * already warned in the last `days`. Only one caller gets true, so a burst
+ * of sales sends one email.
+ */
+export async function d1ClaimPayoutWarning(
+  db: D1Database,
+  entityType: PayoutEntityType,
+  entityId: string,
+  days: number
+): Promise<boolean> {
+  try {
+    const result = await db.prepare(
+      `UPDATE payout_accounts SET warned_at = datetime('now')
+       WHERE entity_type = ? AND entity_id = ? AND (warned_at IS NULL OR warned_at < datetime('now', ?))`
+    ).bind(entityType, entityId, `-${days} days`).run();
+    return changed(result);
+  } catch (error: unknown) {
+    log.error('[D1] Error claiming payout warning:', error);
+    return false;
+  }
+}
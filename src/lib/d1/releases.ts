@@ -87,16 +87,62 @@ export async function d1GetAllPublishedReleases(db: D1Database, limit: number =
   }
 }
 
-export async function d1SearchPublishedReleases(db: D1Database, query: string, limit: number = 50): Promise<FirestoreDoc[]> {
+export interface ReleaseSearchFilters {
+  bpmMin?: number;
+  bpmMax?: number;
+  camelotKey?: string;   // '8A' — see ../release/musical-key.ts to read other notations
+}
+
+// A track's tempo for filtering: the detected one, else whatever the artist
+// typed (bpm is free text, so CAST reads '174 BPM' as 174 and '' as 0)
+const TRACK_BPM = `COALESCE(json_extract(t.value, '$.detectedBpm'), CAST(json_extract(t.value, '$.bpm') AS REAL))`;
+
+/**
+ * Published releases matching a text query and/or tempo and key filters. A
+ * release matches the filters when one of its tracks satisfies all of them.
+ */
+export async function d1SearchPublishedReleases(
+  db: D1Database,
+  query: string,
+  limit: number = 50,
+  filters: ReleaseSearchFilters = {}
+): Promise<FirestoreDoc[]> {
   try {
-    const pattern = `%${query}%`;
+    const conditions = ['published = 1'];
+    const params: unknown[] = [];
+
+    if (query) {
+      conditions.push(`(
+        title LIKE ? COLLATE NOCASE OR
+        artist_name LIKE ? COLLATE NOCASE OR
+        genre LIKE ? COLLATE NOCASE
+      )`);
+      const pattern = `%${query}%`;
+      params.push(pattern, pattern, pattern);
+    }
+
+    const trackConditions: string[] = [];
+    if (filters.bpmMin !== undefined) {
+      trackConditions.push(`${TRACK_BPM} >= ?`);
+      params.push(filters.bpmMin);
+    }
+    if (filters.bpmMax !== undefined) {
+      trackConditions.push(`${TRACK_BPM} <= ?`);
+      params.push(filters.bpmMax);
+    }
+    if (filters.camelotKey) {
+      trackConditions.push(`json_extract(t.value, '$.camelotKey') = ?`);
+      params.push(filters.camelotKey);
+    }
+    if (trackConditions.length) {
+      conditions.push(`EXISTS (
+        SELECT 1 FROM json_each(releases_v2.data, '$.tracks') t WHERE ${trackConditions.join(' AND ')}
+      )`);
+    }
+
     const { results } = await db.prepare(
-      `SELECT id, data FROM releases_v2 WHERE published = 1 AND (
-        title LIKE ?1 COLLATE NOCASE OR
-        artist_name LIKE ?1 COLLATE NOCASE OR
-        genre LIKE ?1 COLLATE NOCASE
-      ) ORDER BY release_date DESC LIMIT ?2`
-    ).bind(pattern, limit).all();
+      `SELECT id, data FROM releases_v2 WHERE ${conditions.join(' AND ')} ORDER BY release_date DESC LIMIT ?`
+    ).bind(...params, limit).all();
 
     return (results || []).map((row) => d1RowToRelease(row as D1Release)).filter(Boolean) as FirestoreDoc[];
   } catch (error: unknown) {
@@ -111,3 +111,16 @@ export async function d1MarkRoyaltiesPaid(db: D1Database, ids: string[]): Promis
     return 0;
   }
 }
+
+export async function d1GetRoyaltiesByOrder(db: D1Database, orderId: string): Promise<Record<string, unknown>[]> {
+  try {
+    const { results } = await db.prepare(
+      `SELECT id, order_id, brand_account_id, brand_name, item_id, item_name, quantity, sale_total, royalty_pct, royalty_amount, freshwax_amount, status, paid_at, created_at
+       FROM royalty_ledger WHERE order_id = ? ORDER BY created_at ASC`
+    ).bind(orderId).all();
+    return (results || []) as Record<string, unknown>[];
+  } catch (error: unknown) {
+    log.error('[D1] Error getting royalties by order:', error);
+    return [];
+  }
+}
@@ -0,0 +1,226 @@
+// src/lib/d1/settlements.ts
+// D1 operations for processor settlement reports and their reconciliation
+
+import type { D1Database } from './types';
+import { log } from './types';
+
+export type SettlementProcessor = 'stripe' | 'paypal';
+
+export interface SettlementLine {
+  processor: SettlementProcessor;
+  transactionId: string;
+  paymentId: string | null;
+  type: string | null;
+  gross: number;
+  fee: number;
+  net: number;
+  currency: string;
+  occurredAt: string;
+}
+
+export interface SettlementImport {
+  id: string;
+  processor: SettlementProcessor;
+  source: 'csv' | 'api';
+  filename: string | null;
+  periodStart: string | null;
+  periodEnd: string | null;
+  lineCount: number;
+  newCount: number;
+  skippedCount: number;
+  importedBy: string | null;
+  importedAt?: string;
+}
+
+export interface SettlementAdjustment {
+  id: string;
+  processor: SettlementProcessor;
+  issueKey: string;
+  kind: string;
+  paymentId: string | null;
+  amount: number;
+  ledgerIds: string[];
+  journalEntryId: string | null;
+  note: string | null;
+  adminId: string | null;
+  createdAt?: string;
+}
+
+// 10 columns per line, D1 allows 100 bound parameters per statement
+const LINES_PER_INSERT = 9;
+const IDS_PER_SELECT = 90;
+
+function rowToLine(row: Record<string, unknown>): SettlementLine {
+  return {
+    processor: row.processor as SettlementProcessor,
+    transactionId: row.transaction_id as string,
+    paymentId: (row.payment_id as string) || null,
+    type: (row.type as string) || null,
+    gross: Number(row.gross) || 0,
+    fee: Number(row.fee) || 0,
+    net: Number(row.net) || 0,
+    currency: (row.currency as string) || 'GBP',
+    occurredAt: row.occurred_at as string,
+  };
+}
+
+function rowToAdjustment(row: Record<string, unknown>): SettlementAdjustment {
+  let ledgerIds: string[] = [];
+  try {
+    ledgerIds = row.ledger_ids ? JSON.parse(row.ledger_ids as string) : [];
+  } catch {
+    ledgerIds = [];
+  }
+  return {
+    id: row.id as string,
+    processor: row.processor as SettlementProcessor,
+    issueKey: row.issue_key as string,
+    kind: row.kind as string,
+    paymentId: (row.payment_id as string) || null,
+    amount: Number(row.amount) || 0,
+    ledgerIds,
+    journalEntryId: (row.journal_entry_id as string) || null,
+    note: (row.note as string) || null,
+    adminId: (row.admin_id as string) || null,
+    createdAt: row.created_at as string,
+  };
+}
+
+// Transaction ids of a processor that are already stored
+async function existingTransactionIds(db: D1Database, processor: SettlementProcessor, ids: string[]): Promise<Set<string>> {
+  const existing = new Set<string>();
+  for (let i = 0; i < ids.length; i += IDS_PER_SELECT) {
+    const chunk = ids.slice(i, i + IDS_PER_SELECT);
+    const { results } = await db.prepare(
+      `SELECT transaction_id FROM settlement_lines WHERE processor = ? AND transaction_id IN (${chunk.map(() => '?').join(', ')})`
+    ).bind(processor, ...chunk).all();
+    for (const row of results || []) existing.add(row.transaction_id as string);
+  }
+  return existing;
+}
+
+// Store report lines. Lines already imported (same processor transaction id)
+// are left as they were; returns how many were new, or null on failure.
+export async function d1InsertSettlementLines(db: D1Database, importId: string, lines: SettlementLine[]): Promise<number | null> {
+  try {
+    const processor = lines[0]?.processor;
+    if (!processor) return 0;
+    const existing = await existingTransactionIds(db, processor, [...new Set(lines.map(l => l.transactionId))]);
+    const seen = new Set<string>();
+    const fresh = lines.filter(l => {
+      if (existing.has(l.transactionId) || seen.has(l.transactionId)) return false;
+      seen.add(l.transactionId);
+      return true;
+    });
+
+    for (let i = 0; i < fresh.length; i += LINES_PER_INSERT) {
+      const chunk = fresh.slice(i, i + LINES_PER_INSERT);
+      const values: unknown[] = [];
+      for (const l of chunk) {
+        values.push(l.processor, l.transactionId, l.paymentId, l.type, l.gross, l.fee, l.net, l.currency, l.occurredAt, importId);
+      }
+      await db.prepare(
+        `INSERT OR IGNORE INTO settlement_lines (processor, transaction_id, payment_id, type, gross, fee, net, currency, occurred_at, import_id)
+         VALUES ${chunk.map(() => '(?, ?, ?, ?, ?, ?, ?, ?, ?, ?)').join(', ')}`
+      ).bind(...values).run();
+    }
+    return fresh.length;
+  } catch (error: unknown) {
+    log.error('[D1] Error inserting settlement lines:', error);
+    return null;
+  }
+}
+
+export async function d1InsertSettlementImport(db: D1Database, record: SettlementImport): Promise<boolean> {
+  try {
+    await db.prepare(
+      `INSERT INTO settlement_imports (id, processor, source, filename, period_start, period_end,
+         line_count, new_count, skipped_count, imported_by)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+    ).bind(
+      record.id, record.processor, record.source, record.filename, record.periodStart, record.periodEnd,
+      record.lineCount, record.newCount, record.skippedCount, record.importedBy
+    ).run();
+    return true;
+  } catch (error: unknown) {
+    log.error('[D1] Error recording settlement import:', error);
+    return false;
+  }
+}
+
+// Most recent imports, newest first
+export async function d1GetSettlementImports(db: D1Database, limit = 20): Promise<SettlementImport[]> {
+  try {
+    const { results } = await db.prepare(
+      'SELECT * FROM settlement_imports ORDER BY imported_at DESC LIMIT ?'
+    ).bind(limit).all();
+    return (results || []).map(row => ({
+      id: row.id as string,
+      processor: row.processor as SettlementProcessor,
+      source: row.source as 'csv' | 'api',
+      filename: (row.filename as string) || null,
+      periodStart: (row.period_start as string) || null,
+      periodEnd: (row.period_end as string) || null,
+      lineCount: Number(row.line_count) || 0,
+      newCount: Number(row.new_count) || 0,
+      skippedCount: Number(row.skipped_count) || 0,
+      importedBy: (row.imported_by as string) || null,
+      importedAt: row.imported_at as string,
+    }));
+  } catch (error: unknown) {
+    log.error('[D1] Error getting settlement imports:', error);
+    return [];
+  }
+}
+
+// Report lines of a processor settled in [from, to)
+export async function d1GetSettlementLines(db: D1Database, processor: SettlementProcessor, from: string, to: string): Promise<SettlementLine[]> {
+  try {
+    const { results } = await db.prepare(
+      `SELECT * FROM settlement_lines WHERE processor = ? AND occurred_at >= ? AND occurred_at < ?
+       ORDER BY occurred_at`
+    ).bind(processor, from, to).all();
+    return (results || []).map(row => rowToLine(row as Record<string, unknown>));
+  } catch (error: unknown) {
+    log.error('[D1] Error getting settlement lines:', error);
+    return [];
+  }
+}
+
+// Record a resolution. Returns false if the issue was already resolved
+// (issue_key is unique per processor) or the write failed.
+export async function d1InsertSettlementAdjustment(db: D1Database, adjustment: SettlementAdjustment): Promise<boolean> {
+  try {
+    await db.prepare(
+      `INSERT INTO settlement_adjustments (id, processor, issue_key, kind, payment_id, amount,
+         ledger_ids, journal_entry_id, note, admin_id)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+    ).bind(
+      adjustment.id, adjustment.processor, adjustment.issueKey, adjustment.kind, adjustment.paymentId,
+      adjustment.amount, JSON.stringify(adjustment.ledgerIds), adjustment.journalEntryId,
+      adjustment.note, adjustment.adminId
+    ).run();
+    return true;
+  } catch (error: unknown) {
+    log.error('[D1] Error recording settlement adjustment:', error);
+    return false;
+  }
+}
+
+// Resolutions recorded for any of the given issue keys
+export async function d1GetSettlementAdjustments(db: D1Database, processor: SettlementProcessor, issueKeys: string[]): Promise<SettlementAdjustment[]> {
+  try {
+    const adjustments: SettlementAdjustment[] = [];
+    for (let i = 0; i < issueKeys.length; i += IDS_PER_SELECT) {
+      const chunk = issueKeys.slice(i, i + IDS_PER_SELECT);
+      const { results } = await db.prepare(
+        `SELECT * FROM settlement_adjustments WHERE processor = ? AND issue_key IN (${chunk.map(() => '?').join(', ')})`
+      ).bind(processor, ...chunk).all();
+      adjustments.push(...(results || []).map(row => rowToAdjustment(row as Record<string, unknown>)));
+    }
+    return adjustments;
+  } catch (error: unknown) {
+    log.error('[D1] Error getting settlement adjustments:', error);
+    return [];
+  }
+}
@@ -0,0 +1,185 @@
+// src/lib/d1/shipping.ts
+// D1 operations for the shipping rule tables (zones, countries, rate tables)
+
+import type { D1Database } from './types';
+import { log } from './types';
+
+export type ShippingRegion = 'UK' | 'EU' | 'INTL';
+
+export interface ShippingZone {
+  id: string;
+  name: string;
+  region: ShippingRegion;     // which per-release vinylShippingUK/EU/Intl applies
+}
+
+export interface ShippingCountry {
+  iso: string;
+  name: string;               // display name the checkout form submits
+  zoneId: string;
+  shippable: boolean;         // false = resolves a zone but isn't offered at checkout
+  aliases: string[];          // other names accepted for this country (e.g. "USA")
+}
+
+export interface ShippingRate {
+  sellerId: string | null;    // null = platform default
+  zoneId: string;
+  band: string;               // '7in' | '12in' | '2xlp' | 'tee' | 'merch'
+  firstItem: number;
+  additionalItem: number;
+}
+
+export interface ShippingRuleSet {
+  zones: ShippingZone[];
+  countries: ShippingCountry[];
+  rates: ShippingRate[];
+}
+
+function parseAliases(value: unknown): string[] {
+  if (typeof value !== 'string' || !value) return [];
+  try {
+    const parsed = JSON.parse(value);
+    return Array.isArray(parsed) ? parsed.filter((a): a is string => typeof a === 'string') : [];
+  } catch (_e: unknown) {
+    /* intentional: malformed aliases treated as none */
+    return [];
+  }
+}
+
+// Get the full rule set (null when the tables are missing or empty, so the
+// caller can fall back to the built-in defaults)
+export async function d1GetShippingRules(db: D1Database): Promise<ShippingRuleSet | null> {
+  try {
+    const [zones, countries, rates] = await Promise.all([
+      db.prepare('SELECT id, name, region FROM shipping_zones ORDER BY id').all(),
+      db.prepare('SELECT iso, name, zone_id, shippable, aliases FROM shipping_countries ORDER BY name').all(),
+      db.prepare('SELECT seller_id, zone_id, band, first_item, additional_item FROM shipping_rates').all(),
+    ]);
+    if (!zones.results?.length) return null;
+
+    return {
+      zones: zones.results.map(row => {
+        const r = row as Record<string, unknown>;
+        return { id: r.id as string, name: r.name as string, region: r.region as ShippingRegion };
+      }),
+      countries: (countries.results || []).map(row => {
+        const r = row as Record<string, unknown>;
+        return {
+          iso: r.iso as string,
+          name: r.name as string,
+          zoneId: r.zone_id as string,
+          shippable: r.shippable === 1 || r.shippable === true,
+          aliases: parseAliases(r.aliases),
+        };
+      }),
+      rates: (rates.results || []).map(row => {
+        const r = row as Record<string, unknown>;
+        return {
+          sellerId: (r.seller_id as string) || null,
+          zoneId: r.zone_id as string,
+          band: r.band as string,
+          firstItem: Number(r.first_item) || 0,
+          additionalItem: Number(r.additional_item) || 0,
+        };
+      }),
+    };
+  } catch (error: unknown) {
+    log.error('[D1] Error getting shipping rules:', error);
+    return null;
+  }
+}
+
+// A stamp that changes whenever any rule row is written or deleted: the newest
+// updated_at plus the row count of each table. null when the read fails.
+export async function d1GetShippingRulesVersion(db: D1Database): Promise<string | null> {
+  try {
+    const row = await db.prepare(
+      `SELECT
+         (SELECT COUNT(*) || '@' || IFNULL(MAX(updated_at), '') FROM shipping_zones) AS zones,
+         (SELECT COUNT(*) || '@' || IFNULL(MAX(updated_at), '') FROM shipping_countries) AS countries,
+         (SELECT COUNT(*) || '@' || IFNULL(MAX(updated_at), '') FROM shipping_rates) AS rates`
+    ).first() as Record<string, unknown> | null;
+    if (!row) return null;
+    return `${row.zones}|${row.countries}|${row.rates}`;
+  } catch (error: unknown) {
+    log.error('[D1] Error getting shipping rules version:', error);
+    return null;
+  }
+}
+
+// Insert or replace a zone
+export async function d1UpsertShippingZone(db: D1Database, zone: ShippingZone): Promise<boolean> {
+  try {
+    await db.prepare(
+      `INSERT INTO shipping_zones (id, name, region, updated_at)
+       VALUES (?, ?, ?, datetime('now'))
+       ON CONFLICT(id) DO UPDATE SET
+         name = excluded.name,
+         region = excluded.region,
+         updated_at = excluded.updated_at`
+    ).bind(zone.id, zone.name, zone.region).run();
+    return true;
+  } catch (error: unknown) {
+    log.error('[D1] Error upserting shipping zone:', error);
+    return false;
+  }
+}
+
+// Insert or replace a country (adding a shippable country needs no deploy)
+export async function d1UpsertShippingCountry(db: D1Database, country: ShippingCountry): Promise<boolean> {
+  try {
+    await db.prepare(
+      `INSERT INTO shipping_countries (iso, name, zone_id, shippable, aliases, updated_at)
+       VALUES (?, ?, ?, ?, ?, datetime('now'))
+       ON CONFLICT(iso) DO UPDATE SET
+         name = excluded.name,
+         zone_id = excluded.zone_id,
+         shippable = excluded.shippable,
+         aliases = excluded.aliases,
+         updated_at = excluded.updated_at`
+    ).bind(
+      country.iso.toUpperCase(),
+      country.name,
+      country.zoneId,
+      country.shippable ? 1 : 0,
+      JSON.stringify(country.aliases || [])
+    ).run();
+    return true;
+  } catch (error: unknown) {
+    log.error('[D1] Error upserting shipping country:', error);
+    return false;
+  }
+}
+
+// Insert or replace one rate row (platform default when sellerId is null)
+export async function d1UpsertShippingRate(db: D1Database, rate: ShippingRate): Promise<boolean> {
+  try {
+    await db.prepare(
+      `INSERT INTO shipping_rates (seller_id, zone_id, band, first_item, additional_item, updated_at)
+       VALUES (?, ?, ?, ?, ?, datetime('now'))
+       ON CONFLICT(seller_id, zone_id, band) DO UPDATE SET
+         first_item = excluded.first_item,
+         additional_item = excluded.additional_item,
+         updated_at = excluded.updated_at`
+    ).bind(rate.sellerId || '', rate.zoneId, rate.band, rate.firstItem, rate.additionalItem).run();
+    return true;
+  } catch (error: unknown) {
+    log.error('[D1] Error upserting shipping rate:', error);
+    return false;
+  }
+}
+
+// Remove one rate row (a seller row removed falls back to the platform default)
+export async function d1DeleteShippingRate(
+  db: D1Database,
+  key: { sellerId: string | null; zoneId: string; band: string }
+): Promise<boolean> {
+  try {
+    await db.prepare(
+      'DELETE FROM shipping_rates WHERE seller_id = ? AND zone_id = ? AND band = ?'
+    ).bind(key.sellerId || '', key.zoneId, key.band).run();
+    return true;
+  } catch (error: unknown) {
+    log.error('[D1] Error deleting shipping rate:', error);
+    return false;
+  }
+}
@@ -0,0 +1,81 @@
+// src/lib/d1/split-sheets.ts
+// D1 operations for release split sheet history and first-sale detection
+
+import type { D1Database } from './types';
+import { log } from './types';
+
+export interface SplitSheetChange {
+  id: string;
+  releaseId: string;
+  trackId: string | null;
+  previousShares: unknown;
+  shares: unknown;
+  locked: boolean;
+  reason: string | null;
+  changedBy: string | null;
+  createdAt?: string;
+}
+
+function parseShares(value: unknown): unknown {
+  if (typeof value !== 'string') return null;
+  try {
+    return JSON.parse(value);
+  } catch {
+    return null;
+  }
+}
+
+export async function d1InsertSplitSheetChange(db: D1Database, change: SplitSheetChange): Promise<boolean> {
+  try {
+    await db.prepare(
+      `INSERT INTO split_sheet_changes (id, release_id, track_id, previous_shares, shares, locked, reason, changed_by)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?)`
+    ).bind(
+      change.id, change.releaseId, change.trackId, JSON.stringify(change.previousShares ?? null),
+      JSON.stringify(change.shares ?? null), change.locked ? 1 : 0, change.reason, change.changedBy
+    ).run();
+    return true;
+  } catch (error: unknown) {
+    log.error('[D1] Error recording split sheet change:', error);
+    return false;
+  }
+}
+
+// A release's split sheet history, newest first
+export async function d1GetSplitSheetChanges(db: D1Database, releaseId: string): Promise<SplitSheetChange[]> {
+  try {
+    const { results } = await db.prepare(
+      'SELECT * FROM split_sheet_changes WHERE release_id = ? ORDER BY created_at DESC'
+    ).bind(releaseId).all();
+    return (results || []).map(row => ({
+      id: row.id as string,
+      releaseId: row.release_id as string,
+      trackId: (row.track_id as string) || null,
+      previousShares: parseShares(row.previous_shares),
+      shares: parseShares(row.shares),
+      locked: Number(row.locked) === 1,
+      reason: (row.reason as string) || null,
+      changedBy: (row.changed_by as string) || null,
+      createdAt: row.created_at as string,
+    }));
+  } catch (error: unknown) {
+    log.error('[D1] Error getting split sheet changes:', error);
+    return [];
+  }
+}
+
+// Whether any paid sale of the release is in the sales ledger. Ledger rows
+// keep their line items in the JSON `data` column, each with the release id
+// as `id`. Returns null when the ledger can't be read.
+export async function d1ReleaseHasSales(db: D1Database, releaseId: string): Promise<boolean | null> {
+  try {
+    const needle = JSON.stringify(releaseId).replace(/[\\%_]/g, '\\$&');
+    const row = await db.prepare(
+      `SELECT 1 AS sold FROM sales_ledger WHERE gross_total > 0 AND data LIKE ? ESCAPE '\\' LIMIT 1`
+    ).bind(`%"id":${needle}%`).first();
+    return !!row;
+  } catch (error: unknown) {
+    log.error('[D1] Error checking release sales:', error);
+    return null;
+  }
+}
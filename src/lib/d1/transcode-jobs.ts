@@ -0,0 +1,233 @@
+// src/lib/d1/transcode-jobs.ts
+// D1 reads of the release-processor Worker's audio transcoding queue
+// (workers/release-processor/src/transcode-jobs.ts owns the state machine;
+// the site lists jobs and puts failed ones back in the queue). The queue
+// also carries DJ mixes waiting for their waveform/loudness analysis, and
+// the tagged download files buyers ask for, which the site queues itself
+// (see src/lib/release/download-renditions.ts).
+
+import type { D1Database } from './types';
+import { log } from './types';
+
+export type TranscodeJobStatus = 'queued' | 'running' | 'done' | 'failed';
+
+export interface TranscodeJobLoudness {
+  integratedLufs: number;
+  truePeakDbtp: number;
+  loudnessRange: number | null;
+}
+
+export interface TranscodeJobSummary {
+  id: string;
+  kind: 'track' | 'mix' | 'download';
+  releaseId: string;             // the mix id, for a mix
+  trackNumber: number;
+  title: string;
+  sourceKey: string;
+  sourceFormat: string | null;
+  status: TranscodeJobStatus;
+  attempts: number;
+  maxAttempts: number;
+  runAfter: string | null;
+  leaseExpiresAt: string | null;
+  runnerId: string | null;
+  lastError: string | null;
+  durationSeconds: number | null;
+  sampleRate: number | null;
+  bitDepth: number | null;
+  loudness: TranscodeJobLoudness | null;
+  format: string | null;         // download jobs: mp3, flac or aiff
+  updatedAt?: string;
+  completedAt?: string | null;
+}
+
+// A buyer's download in one format, as far as the queue has got with it
+export interface DownloadRendition {
+  id: string;
+  status: TranscodeJobStatus;
+  tagsHash: string | null;
+  key: string | null;            // R2 key, once done
+  lastError: string | null;
+}
+
+export interface NewDownloadRendition {
+  releaseId: string;
+  trackNumber: number;
+  title: string;
+  format: string;
+  sourceKey: string;
+  sourceFormat: string | null;
+  outputPrefix: string;
+  tags: Record<string, unknown>;
+  tagsHash: string;
+}
+
+const DOWNLOAD_MAX_ATTEMPTS = 3;
+
+const changed = (result: unknown) => ((result as { meta?: { changes?: number } })?.meta?.changes ?? 0) > 0;
+
+function parseLoudness(value: unknown): TranscodeJobLoudness | null {
+  if (typeof value !== 'string' || !value) return null;
+  try {
+    return (JSON.parse(value) as { loudness?: TranscodeJobLoudness | null }).loudness ?? null;
+  } catch {
+    return null;
+  }
+}
+
+function rowToJob(row: Record<string, unknown>): TranscodeJobSummary {
+  const num = (v: unknown) => (v === null || v === undefined ? null : Number(v));
+  return {
+    id: row.id as string,
+    kind: row.kind === 'mix' || row.kind === 'download' ? row.kind : 'track',
+    releaseId: row.release_id as string,
+    trackNumber: Number(row.track_number),
+    title: (row.title as string) || '',
+    sourceKey: row.source_key as string,
+    sourceFormat: (row.source_format as string) || null,
+    status: row.status as TranscodeJobStatus,
+    attempts: Number(row.attempts) || 0,
+    maxAttempts: Number(row.max_attempts) || 0,
+    runAfter: (row.run_after as string) || null,
+    leaseExpiresAt: (row.lease_expires_at as string) || null,
+    runnerId: (row.runner_id as string) || null,
+    lastError: (row.last_error as string) || null,
+    durationSeconds: num(row.duration_seconds),
+    sampleRate: num(row.sample_rate),
+    bitDepth: num(row.bit_depth),
+    loudness: parseLoudness(row.analysis),
+    format: (row.format as string) || null,
+    updatedAt: row.updated_at as string,
+    completedAt: (row.completed_at as string) || null,
+  };
+}
+
+// Jobs still in flight or failed, plus anything finished in the last day
+export async function d1GetActiveTranscodeJobs(db: D1Database, limit = 200): Promise<TranscodeJobSummary[]> {
+  try {
+    const { results } = await db.prepare(
+      `SELECT * FROM transcode_jobs
+       WHERE status != 'done' OR completed_at > datetime('now', '-1 day')
+       ORDER BY CASE status WHEN 'failed' THEN 0 WHEN 'running' THEN 1 WHEN 'queued' THEN 2 ELSE 3 END,
+         updated_at DESC
+       LIMIT ?`
+    ).bind(limit).all();
+    return (results || []).map(row => rowToJob(row as Record<string, unknown>));
+  } catch (error: unknown) {
+    log.error('[D1] Error getting transcode jobs:', error);
+    return [];
+  }
+}
+
+export async function d1GetReleaseTranscodeJobs(db: D1Database, releaseId: string): Promise<TranscodeJobSummary[]> {
+  try {
+    const { results } = await db.prepare('SELECT * FROM transcode_jobs WHERE release_id = ? ORDER BY track_number')
+      .bind(releaseId).all();
+    return (results || []).map(row => rowToJob(row as Record<string, unknown>));
+  } catch (error: unknown) {
+    log.error('[D1] Error getting release transcode jobs:', error);
+    return [];
+  }
+}
+
+export async function d1CountTranscodeJobsByStatus(db: D1Database): Promise<Record<TranscodeJobStatus, number>> {
+  const counts: Record<TranscodeJobStatus, number> = { queued: 0, running: 0, done: 0, failed: 0 };
+  try {
+    const { results } = await db.prepare('SELECT status, COUNT(*) AS n FROM transcode_jobs GROUP BY status').all();
+    for (const row of (results || []) as Record<string, unknown>[]) {
+      if ((row.status as string) in counts) counts[row.status as TranscodeJobStatus] = Number(row.n) || 0;
+    }
+  } catch (error: unknown) {
+    log.error('[D1] Error counting transcode jobs:', error);
+  }
+  return counts;
+}
+
+/**
+ * Put a failed job back in the queue with a fresh set of attempts. Returns
+ * the job, or null if it wasn't failed (already retried, or never failed).
+ */
+export async function d1RequeueTranscodeJob(db: D1Database, id: string): Promise<TranscodeJobSummary | null> {
+  try {
+    const result = await db.prepare(
+      `UPDATE transcode_jobs SET status = 'queued', attempts = 0, run_after = datetime('now'),
+         lease_id = NULL, lease_expires_at = NULL, updated_at = datetime('now')
+       WHERE id = ? AND status = 'failed'`
+    ).bind(id).run();
+    if (!changed(result)) return null;
+    const row = await db.prepare('SELECT * FROM transcode_jobs WHERE id = ?').bind(id).first();
+    return row ? rowToJob(row as Record<string, unknown>) : null;
+  } catch (error: unknown) {
+    log.error('[D1] Error requeueing transcode job:', error);
+    return null;
+  }
+}
+
+export function downloadRenditionId(releaseId: string, trackNumber: number, format: string): string {
+  return `download:${releaseId}:${trackNumber}:${format}`;
+}
+
+export async function d1GetDownloadRendition(db: D1Database, id: string): Promise<DownloadRendition | null> {
+  try {
+    const row = await db.prepare(
+      `SELECT id, status, tags_hash, format, outputs, last_error FROM transcode_jobs WHERE id = ? AND kind = 'download'`
+    ).bind(id).first() as Record<string, unknown> | null;
+    if (!row) return null;
+
+    let key: string | null = null;
+    if (row.status === 'done' && typeof row.outputs === 'string') {
+      try {
+        key = (JSON.parse(row.outputs) as Record<string, string>)[row.format as string] || null;
+      } catch {
+        key = null;
+      }
+    }
+    return {
+      id: row.id as string,
+      status: row.status as TranscodeJobStatus,
+      tagsHash: (row.tags_hash as string) || null,
+      key,
+      lastError: (row.last_error as string) || null,
+    };
+  } catch (error: unknown) {
+    log.error('[D1] Error getting download rendition:', error);
+    return null;
+  }
+}
+
+/**
+ * Queue a download rendition. A job already there for the same tags and
+ * master is left alone, whatever its state; one made from older tags is
+ * reset and made again.
+ */
+export async function d1QueueDownloadRendition(db: D1Database, job: NewDownloadRendition): Promise<boolean> {
+  try {
+    await db.prepare(
+      `INSERT INTO transcode_jobs (id, kind, release_id, track_number, title, source_key, source_format, output_prefix,
+         status, attempts, max_attempts, run_after, format, tags, tags_hash)
+       VALUES (?, 'download', ?, ?, ?, ?, ?, ?, 'queued', 0, ?, datetime('now'), ?, ?, ?)
+       ON CONFLICT(id) DO UPDATE SET
+         title = excluded.title, source_key = excluded.source_key, source_format = excluded.source_format,
+         tags = excluded.tags, tags_hash = excluded.tags_hash, status = 'queued', attempts = 0,
+         run_after = datetime('now'), lease_id = NULL, lease_expires_at = NULL, last_error = NULL, outputs = NULL,
+         completed_at = NULL, updated_at = datetime('now')
+       WHERE transcode_jobs.tags_hash IS NOT excluded.tags_hash`
+    ).bind(
+      downloadRenditionId(job.releaseId, job.trackNumber, job.format),
+      job.releaseId,
+      job.trackNumber,
+      job.title,
+      job.sourceKey,
+      job.sourceFormat,
+      job.outputPrefix,
+      DOWNLOAD_MAX_ATTEMPTS,
+      job.format,
+      JSON.stringify(job.tags),
+      job.tagsHash
+    ).run();
+    return true;
+  } catch (error: unknown) {
+    log.error('[D1] Error queueing download rendition:', error);
+    return false;
+  }
+}
@@ -11,6 +11,8 @@ export type FirestoreDoc = Record<string, unknown>;
 // D1 database handle from Cloudflare Workers runtime
 export interface D1Database {
   prepare(query: string): D1PreparedStatement;
+  // Runs the statements in order as one transaction: all apply or none do
+  batch(statements: D1PreparedStatement[]): Promise<D1Result[]>;
 }
 
 export interface D1PreparedStatement {
@@ -20,6 +22,11 @@ export interface D1PreparedStatement {
   run(): Promise<unknown>;
 }
 
+export interface D1Result {
+  results?: D1Row[] | null;
+  meta?: { changes?: number };
+}
+
 export interface D1Row {
   [key: string]: unknown;
 }
@@ -0,0 +1,299 @@
+// src/lib/d1/wallet.ts
+// D1 operations for the store credit wallet
+
+import type { D1Database, D1PreparedStatement } from './types';
+import { log } from './types';
+
+export type WalletTransactionType =
+  | 'top_up' | 'gift_card' | 'refund' | 'referral_bonus' | 'promotional' | 'adjustment' | 'opening_balance'
+  | 'spend' | 'expiry';
+
+export interface WalletTransaction {
+  id: string;
+  userId: string;
+  type: WalletTransactionType;
+  amount: number;                // positive credits the wallet, negative debits it
+  balanceAfter: number | null;
+  description: string | null;
+  reference: string | null;      // gift card code, refund id, checkout reference
+  orderId: string | null;
+  creditId: string | null;       // expiry: the credit that lapsed
+  expiresAt: string | null;      // credits: when what's left of it lapses
+  createdBy: string | null;
+  createdAt?: string;
+}
+
+export interface WalletCredit {
+  id: string;                    // the crediting transaction's id
+  userId: string;
+  source: WalletTransactionType;
+  amount: number;
+  remaining: number;
+  expiresAt: string | null;
+  createdAt?: string;
+}
+
+// Pennies of rounding slack when checking a balance won't go negative
+const EPSILON = 0.005;
+
+const changed = (result: unknown) => ((result as { meta?: { changes?: number } })?.meta?.changes ?? 0) > 0;
+
+function rowToTransaction(row: Record<string, unknown>): WalletTransaction {
+  return {
+    id: row.id as string,
+    userId: row.user_id as string,
+    type: row.type as WalletTransactionType,
+    amount: Number(row.amount) || 0,
+    balanceAfter: row.balance_after === null || row.balance_after === undefined ? null : Number(row.balance_after),
+    description: (row.description as string) || null,
+    reference: (row.reference as string) || null,
+    orderId: (row.order_id as string) || null,
+    creditId: (row.credit_id as string) || null,
+    expiresAt: (row.expires_at as string) || null,
+    createdBy: (row.created_by as string) || null,
+    createdAt: row.created_at as string,
+  };
+}
+
+function rowToCredit(row: Record<string, unknown>): WalletCredit {
+  return {
+    id: row.id as string,
+    userId: row.user_id as string,
+    source: row.source as WalletTransactionType,
+    amount: Number(row.amount) || 0,
+    remaining: Number(row.remaining) || 0,
+    expiresAt: (row.expires_at as string) || null,
+    createdAt: row.created_at as string,
+  };
+}
+
+const TRANSACTION_COLUMNS = `id, user_id, type, amount, balance_after, description, reference, order_id, credit_id,
+  expires_at, created_by, created_at`;
+const CREDIT_COLUMNS = 'id, user_id, source, amount, remaining, expires_at, created_at';
+// Soonest-expiring first; credit that never expires is spent last
+const SPEND_ORDER = 'expires_at IS NULL, expires_at ASC, created_at ASC, id ASC';
+
+// A user's balance, or null when they have no wallet yet. Throws, so a
+// failed read can be told apart from "no wallet".
+export async function d1GetWallet(db: D1Database, userId: string): Promise<{ balance: number; updatedAt: string | null } | null> {
+  const row = await db.prepare('SELECT balance, updated_at FROM wallets WHERE user_id = ?').bind(userId).first();
+  if (!row) return null;
+  return { balance: Number(row.balance) || 0, updatedAt: (row.updated_at as string) || null };
+}
+
+/**
+ * The statements that post one transaction, to run in a single batch (a D1
+ * batch is one transaction, so the row and the balance move together or not
+ * at all). The row only goes in while the balance covers it and its id is
+ * new; each later statement runs only if the one before changed a row, so a
+ * duplicate or refused transaction touches nothing. A credit also opens a
+ * wallet_credits row with its expiry.
+ */
+function postingStatements(db: D1Database, tx: WalletTransaction, source?: WalletTransactionType): D1PreparedStatement[] {
+  const statements = [
+    db.prepare(
+      `INSERT OR IGNORE INTO wallet_transactions (id, user_id, type, amount, description, reference, order_id, credit_id,
+         expires_at, created_by)
+       SELECT ?, ?, ?, ?, ?, ?, ?, ?, ?, ?
+       WHERE EXISTS (SELECT 1 FROM wallets WHERE user_id = ? AND balance + ? >= -?)`
+    ).bind(
+      tx.id,
+      tx.userId,
+      tx.type,
+      tx.amount,
+      tx.description,
+      tx.reference,
+      tx.orderId,
+      tx.creditId,
+      tx.expiresAt,
+      tx.createdBy,
+      tx.userId,
+      tx.amount,
+      EPSILON
+    ),
+    db.prepare(
+      `UPDATE wallets SET balance = ROUND(balance + ?, 2), updated_at = datetime('now')
+       WHERE user_id = ? AND changes() > 0
+       RETURNING balance`
+    ).bind(tx.amount, tx.userId),
+    db.prepare(
+      `UPDATE wallet_transactions SET balance_after = (SELECT balance FROM wallets WHERE user_id = ?)
+       WHERE id = ? AND changes() > 0`
+    ).bind(tx.userId, tx.id),
+  ];
+  if (source && tx.amount > 0) {
+    statements.push(db.prepare(
+      `INSERT OR IGNORE INTO wallet_credits (id, user_id, source, amount, remaining, expires_at)
+       SELECT ?, ?, ?, ?, ?, ? WHERE changes() > 0`
+    ).bind(tx.id, tx.userId, source, tx.amount, tx.amount, tx.expiresAt));
+  }
+  return statements;
+}
+
+/**
+ * Open a wallet, with its opening balance posted in the same transaction so
+ * a wallet never exists without the balance it should carry over. Safe to
+ * call again: both the wallet and the opening row are keyed by the user.
+ * Returns false when nothing could be written.
+ */
+export async function d1OpenWallet(db: D1Database, userId: string, opening: WalletTransaction | null): Promise<boolean> {
+  try {
+    await db.batch([
+      db.prepare('INSERT OR IGNORE INTO wallets (user_id, balance) VALUES (?, 0)').bind(userId),
+      ...(opening ? postingStatements(db, opening, 'opening_balance') : []),
+    ]);
+    return true;
+  } catch (error: unknown) {
+    log.error('[D1] Error opening wallet:', error);
+    return false;
+  }
+}
+
+/**
+ * Post one transaction and move the balance by its amount, atomically. The
+ * row id makes it idempotent, and the balance is only moved if it stays at
+ * or above zero. Returns the new balance, or why nothing was posted.
+ */
+export async function d1PostWalletTransaction(db: D1Database, tx: WalletTransaction, source?: WalletTransactionType): Promise<{
+  posted: boolean;
+  balance?: number;
+  reason?: 'duplicate' | 'insufficient' | 'error';
+}> {
+  try {
+    const [inserted, updated] = await db.batch(postingStatements(db, tx, source));
+    if (!changed(inserted)) {
+      const existing = await db.prepare('SELECT 1 FROM wallet_transactions WHERE id = ?').bind(tx.id).first();
+      // Not enough balance (or no wallet) leaves no row behind
+      return { posted: false, reason: existing ? 'duplicate' : 'insufficient' };
+    }
+    return { posted: true, balance: Number(updated?.results?.[0]?.balance) || 0 };
+  } catch (error: unknown) {
+    log.error('[D1] Error posting wallet transaction:', error);
+    return { posted: false, reason: 'error' };
+  }
+}
+
+export async function d1GetWalletTransaction(db: D1Database, id: string): Promise<WalletTransaction | null> {
+  try {
+    const row = await db.prepare(`SELECT ${TRANSACTION_COLUMNS} FROM wallet_transactions WHERE id = ?`).bind(id).first();
+    return row ? rowToTransaction(row as Record<string, unknown>) : null;
+  } catch (error: unknown) {
+    log.error('[D1] Error getting wallet transaction:', error);
+    return null;
+  }
+}
+
+// A user's history, newest first; `before` pages back from a created_at
+export async function d1GetWalletTransactions(db: D1Database, userId: string, options: {
+  limit?: number;
+  before?: string;
+} = {}): Promise<WalletTransaction[]> {
+  try {
+    const params: unknown[] = [userId];
+    let where = 'user_id = ?';
+    if (options.before) {
+      where += ' AND created_at < ?';
+      params.push(options.before);
+    }
+    const { results } = await db.prepare(
+      `SELECT ${TRANSACTION_COLUMNS} FROM wallet_transactions WHERE ${where} ORDER BY created_at DESC, id DESC LIMIT ?`
+    ).bind(...params, options.limit ?? 50).all();
+    return (results || []).map(row => rowToTransaction(row as Record<string, unknown>));
+  } catch (error: unknown) {
+    log.error('[D1] Error getting wallet transactions:', error);
+    return [];
+  }
+}
+
+// Credit with something left on it, in the order it gets spent
+export async function d1GetOpenCredits(db: D1Database, userId: string): Promise<WalletCredit[]> {
+  try {
+    const { results } = await db.prepare(
+      `SELECT ${CREDIT_COLUMNS} FROM wallet_credits WHERE user_id = ? AND remaining > 0 ORDER BY ${SPEND_ORDER}`
+    ).bind(userId).all();
+    return (results || []).map(row => rowToCredit(row as Record<string, unknown>));
+  } catch (error: unknown) {
+    log.error('[D1] Error getting wallet credits:', error);
+    return [];
+  }
+}
+
+/**
+ * Take `amount` off one credit if it still has that much left. Concurrent
+ * spends each see the other's update, so a credit is never used twice.
+ */
+export async function d1DrawCredit(db: D1Database, creditId: string, amount: number): Promise<boolean> {
+  try {
+    const result = await db.prepare(
+      'UPDATE wallet_credits SET remaining = ROUND(remaining - ?, 2) WHERE id = ? AND remaining >= ? - ?'
+    ).bind(amount, creditId, amount, EPSILON).run();
+    return changed(result);
+  } catch (error: unknown) {
+    log.error('[D1] Error drawing wallet credit:', error);
+    return false;
+  }
+}
+
+// Credits past their expiry with something left on them, oldest first
+export async function d1GetLapsedCredits(db: D1Database, now: string, limit = 200): Promise<WalletCredit[]> {
+  try {
+    const { results } = await db.prepare(
+      `SELECT ${CREDIT_COLUMNS} FROM wallet_credits
+       WHERE expires_at IS NOT NULL AND expires_at <= ? AND remaining > 0
+       ORDER BY expires_at ASC LIMIT ?`
+    ).bind(now, limit).all();
+    return (results || []).map(row => rowToCredit(row as Record<string, unknown>));
+  } catch (error: unknown) {
+    log.error('[D1] Error getting lapsed wallet credits:', error);
+    return [];
+  }
+}
+
+// Zero a lapsed credit, if nothing was spent from it meanwhile
+export async function d1ClaimLapsedCredit(db: D1Database, creditId: string, remaining: number): Promise<boolean> {
+  try {
+    const result = await db.prepare('UPDATE wallet_credits SET remaining = 0 WHERE id = ? AND remaining = ?')
+      .bind(creditId, remaining).run();
+    return changed(result);
+  } catch (error: unknown) {
+    log.error('[D1] Error claiming lapsed wallet credit:', error);
+    return false;
+  }
+}
+
+// Put back a claimed credit when its expiry couldn't be posted
+export async function d1RestoreCredit(db: D1Database, creditId: string, remaining: number): Promise<void> {
+  try {
+    await db.prepare('UPDATE wallet_credits SET remaining = ? WHERE id = ? AND remaining = 0').bind(remaining, creditId).run();
+  } catch (error: unknown) {
+    log.error('[D1] Error restoring wallet credit:', error);
+  }
+}
+
+// Platform-wide figures for the admin gift card dashboard
+export async function d1GetWalletTotals(db: D1Database): Promise<{
+  wallets: number;
+  balance: number;
+  spent: number;
+  expired: number;
+}> {
+  try {
+    const [wallets, totals] = await Promise.all([
+      db.prepare('SELECT COUNT(*) AS wallets, COALESCE(SUM(balance), 0) AS balance FROM wallets WHERE balance > 0').first(),
+      db.prepare(
+        `SELECT COALESCE(SUM(CASE WHEN type = 'spend' THEN -amount ELSE 0 END), 0) AS spent,
+                COALESCE(SUM(CASE WHEN type = 'expiry' THEN -amount ELSE 0 END), 0) AS expired
+         FROM wallet_transactions`
+      ).first(),
+    ]);
+    return {
+      wallets: Number(wallets?.wallets) || 0,
+      balance: Number(wallets?.balance) || 0,
+      spent: Number(totals?.spent) || 0,
+      expired: Number(totals?.expired) || 0,
+    };
+  } catch (error: unknown) {
+    log.error('[D1] Error getting wallet totals:', error);
+    return { wallets: 0, balance: 0, spent: 0, expired: 0 };
+  }
+}
@@ -0,0 +1,425 @@
+// src/lib/disputes.ts
+// Chargeback evidence and the admin disputes dashboard.
+// When a dispute opens (stripe-webhook/disputes.ts) an evidence packet is
+// built from what we already hold — the order, delivery tracking, the
+// download log, the buyer's checkout IP / browser and the emails they were
+// sent — and staged on the Stripe dispute. An admin reviews it and submits:
+// Stripe accepts a single submission per dispute. STRIPE_API_BASE points the
+// Stripe client at a local mock.
+
+import type Stripe from 'stripe';
+import { getDocument, queryCollection, updateDocument } from './firebase-rest';
+import { createLogger } from './api-utils';
+import { formatMoney } from './currency';
+import { createStripeClient } from './stripe-client';
+import { d1GetOrderDownloads } from './d1/downloads';
+import type { DownloadLogEntry } from './d1/downloads';
+import { getEmailLogs } from './email';
+import type { EmailLogEntry } from './email';
+import { getSellerBalance } from './journal';
+import type { SellerKind } from './journal';
+import type { D1Database } from './d1/types';
+
+const log = createLogger('disputes');
+
+// Stripe caps each free-text evidence field at 20,000 characters
+const MAX_EVIDENCE_TEXT = 20000;
+const MAX_ACTIVITY_LINES = 200;
+const MAX_SELLER_BALANCES = 50;
+
+export type DisputeOutcome = 'open' | 'won' | 'lost';
+export type EvidenceStatus = 'staged' | 'submitted';
+
+export interface EvidenceSources {
+  dispute: { id: string; reason: string | null; amount: number; currency: string };
+  order: Record<string, unknown> | null;
+  downloads: DownloadLogEntry[];
+  emails: EmailLogEntry[];
+  // From the disputed charge, when Stripe could be reached
+  charge?: {
+    billingName: string | null;
+    billingAddress: string | null;
+    cvcCheck: string | null;
+    addressCheck: string | null;
+  } | null;
+}
+
+export interface EvidencePacket {
+  evidence: Stripe.DisputeUpdateParams.Evidence;
+  summary: {
+    orderNumber: string | null;
+    physical: boolean;
+    trackingNumber: string | null;
+    deliveredAt: string | null;
+    downloads: number;
+    emails: number;
+    purchaseIp: string | null;
+  };
+  // Evidence a bank would expect for this kind of order that we don't have
+  gaps: string[];
+}
+
+// What a stored dispute (the `disputes` collection) needs for evidence
+export interface DisputeRecord {
+  id: string;
+  stripeDisputeId: string;
+  stripeChargeId?: string | null;
+  orderId?: string | null;
+  reason?: string | null;
+  amount?: number;
+  currency?: string;
+}
+
+// Opening line for the common dispute reasons, used only when the facts below
+// back it up
+function reasonNote(reason: string | null, facts: { signedIn: boolean; downloaded: boolean; tracked: boolean }): string | null {
+  if (reason === 'fraudulent' && facts.signedIn && facts.downloaded) {
+    return 'The purchase was made from the customer\'s own signed-in account, and that account then downloaded the files it paid for (access log attached).';
+  }
+  if (reason === 'unrecognized' && facts.signedIn) {
+    return 'The charge appears on the customer\'s statement as FRESH WAX. The purchase was made from their own signed-in account and they were emailed a receipt.';
+  }
+  if (reason === 'product_not_received' && (facts.downloaded || facts.tracked)) {
+    return 'The customer received what they paid for: delivery tracking and/or download activity is attached.';
+  }
+  return null;
+}
+
+const clip = (text: string) => (text.length > MAX_EVIDENCE_TEXT ? text.slice(0, MAX_EVIDENCE_TEXT - 1) + '…' : text);
+const day = (iso: unknown) => (typeof iso === 'string' && iso ? iso.slice(0, 10) : null);
+const utc = (iso: string) => iso.replace('T', ' ').slice(0, 19) + ' UTC';
+
+function formatAddress(address: Record<string, unknown> | null | undefined): string | null {
+  if (!address) return null;
+  const parts = [address.address1 ?? address.line1, address.address2 ?? address.line2, address.city, address.county ?? address.state, address.postcode ?? address.postal_code, address.country]
+    .filter(p => typeof p === 'string' && p.trim());
+  return parts.length > 0 ? parts.join(', ') : null;
+}
+
+function describeItem(item: Record<string, unknown>): string {
+  const qty = Number(item.quantity) || 1;
+  const kind = item.type === 'merch' ? 'merchandise'
+    : item.type === 'vinyl' || item.isCratesItem ? 'vinyl record'
+      : item.type === 'track' ? 'digital track' : 'digital release';
+  const artist = item.artist ? ` by ${item.artist}` : '';
+  return `${qty} x ${item.name || item.title || 'item'}${artist} (${kind}) ${formatMoney((Number(item.price) || 0) * qty)}`;
+}
+
+function activityLine(d: DownloadLogEntry): string {
+  const what = d.fileType === 'artwork' ? 'artwork'
+    : d.trackIndex !== null ? `track ${d.trackIndex + 1} (${d.fileType || 'file'})` : (d.fileType || 'file');
+  const from = d.ip ? ` from ${d.ip}` : '';
+  const browser = d.userAgent ? ` — ${d.userAgent}` : '';
+  return `${d.createdAt ? utc(d.createdAt) : 'unknown time'}  ${what} downloaded by account ${d.userId}${from}${browser}`;
+}
+
+/**
+ * Build the evidence for a dispute from what we hold on the order. Pure:
+ * collectEvidenceSources() does the fetching.
+ */
+export function buildEvidencePacket(sources: EvidenceSources): EvidencePacket {
+  const { dispute, order, downloads, emails, charge } = sources;
+  const gaps: string[] = [];
+  const evidence: Stripe.DisputeUpdateParams.Evidence = {};
+
+  if (!order) {
+    evidence.uncategorized_text = clip(`No Fresh Wax order could be matched to disputed charge ${dispute.id}.`);
+    return {
+      evidence,
+      summary: { orderNumber: null, physical: false, trackingNumber: null, deliveredAt: null, downloads: 0, emails: 0, purchaseIp: null },
+      gaps: ['order'],
+    };
+  }
+
+  const customer = (order.customer || {}) as Record<string, unknown>;
+  const items = (order.items || []) as Record<string, unknown>[];
+  const checkout = (order.checkout || {}) as Record<string, unknown>;
+  const tracking = (order.tracking || {}) as Record<string, unknown>;
+  const physical = !!order.hasPhysicalItems;
+  const trackingNumber = ((tracking.trackingNumber || order.trackingNumber) as string) || null;
+  const carrier = ((tracking.courier || order.carrier) as string) || null;
+  const deliveredAt = (order.deliveredAt as string) || null;
+  const purchaseIp = (checkout.ip as string) || null;
+  const orderNumber = (order.orderNumber as string) || null;
+
+  const name = [customer.firstName, customer.lastName].filter(Boolean).join(' ').trim() || charge?.billingName || '';
+  if (name) evidence.customer_name = name;
+  if (customer.email) evidence.customer_email_address = String(customer.email);
+  if (purchaseIp) evidence.customer_purchase_ip = purchaseIp;
+  if (charge?.billingAddress) evidence.billing_address = charge.billingAddress;
+  evidence.product_description = clip(items.map(describeItem).join('\n'));
+
+  if (physical) {
+    const shippingAddress = formatAddress(order.shipping as Record<string, unknown> | null);
+    if (shippingAddress) evidence.shipping_address = shippingAddress;
+    if (carrier) evidence.shipping_carrier = carrier;
+    if (trackingNumber) evidence.shipping_tracking_number = trackingNumber;
+    const shipped = day(order.shippedAt);
+    if (shipped) evidence.shipping_date = shipped;
+    if (!trackingNumber) gaps.push('tracking number');
+  }
+
+  const hasDigital = items.some(i => i.type !== 'merch' && i.type !== 'vinyl' && !i.isCratesItem);
+  if (downloads.length > 0) {
+    const lines = downloads.slice(0, MAX_ACTIVITY_LINES).map(activityLine);
+    if (downloads.length > MAX_ACTIVITY_LINES) lines.push(`… and ${downloads.length - MAX_ACTIVITY_LINES} more downloads`);
+    evidence.access_activity_log = clip(lines.join('\n'));
+    const first = day(downloads[0]?.createdAt);
+    if (first) evidence.service_date = first;
+  } else if (hasDigital) {
+    gaps.push('download activity');
+  }
+  if (!purchaseIp) gaps.push('purchase IP');
+  if (emails.length === 0) gaps.push('customer emails');
+
+  // Narrative: the facts in one place, reason note first
+  const paragraphs: string[] = [];
+  const note = reasonNote(dispute.reason, {
+    signedIn: !!customer.userId,
+    downloaded: downloads.length > 0,
+    tracked: !!trackingNumber,
+  });
+  if (note) paragraphs.push(note);
+
+  const placed = typeof order.createdAt === 'string' ? utc(order.createdAt) : 'unknown date';
+  const account = customer.userId ? ` from signed-in account ${customer.userId}` : '';
+  const total = formatMoney(Number(order.presentmentTotal ?? (order.totals as Record<string, unknown>)?.total) || 0, String(order.currency || 'GBP'));
+  let purchase = `Order ${orderNumber || order.id} was placed on ${placed}${account} (${customer.email || 'no email'}) for ${total}.`;
+  if (purchaseIp) purchase += ` Checkout came from IP ${purchaseIp}${checkout.userAgent ? ` using ${checkout.userAgent}` : ''}.`;
+  if (checkout.sessionId) purchase += ` Stripe Checkout session ${checkout.sessionId}.`;
+  if (charge?.cvcCheck || charge?.addressCheck) {
+    purchase += ` Card checks: CVC ${charge.cvcCheck || 'unchecked'}, address ${charge.addressCheck || 'unchecked'}.`;
+  }
+  paragraphs.push(purchase);
+
+  if (physical) {
+    const shipping = [
+      order.shippedAt ? `shipped ${day(order.shippedAt)}` : null,
+      trackingNumber ? `tracking ${carrier ? carrier + ' ' : ''}${trackingNumber}` : null,
+      deliveredAt ? `delivered ${utc(deliveredAt)}` : null,
+    ].filter(Boolean);
+    if (shipping.length > 0) paragraphs.push(`Physical items: ${shipping.join(', ')}.`);
+  }
+
+  if (downloads.length > 0) {
+    const ips = [...new Set(downloads.map(d => d.ip).filter(Boolean))] as string[];
+    let text = `The customer downloaded purchased files ${downloads.length} time${downloads.length === 1 ? '' : 's'} between ${utc(downloads[0]?.createdAt || '')} and ${utc(downloads[downloads.length - 1]?.createdAt || '')}`;
+    if (ips.length > 0) text += ` from ${ips.length === 1 ? 'IP' : 'IPs'} ${ips.join(', ')}`;
+    text += '.';
+    if (purchaseIp && ips.includes(purchaseIp)) text += ' This includes the IP the purchase was made from.';
+    paragraphs.push(text);
+  }
+
+  if (emails.length > 0) {
+    paragraphs.push('Emails sent to the customer:\n' + emails
+      .map(e => `${utc(e.createdAt)}  ${e.subject} (${e.status})`)
+      .join('\n'));
+  }
+
+  evidence.uncategorized_text = clip(paragraphs.join('\n\n'));
+
+  return {
+    evidence,
+    summary: { orderNumber, physical, trackingNumber, deliveredAt, downloads: downloads.length, emails: emails.length, purchaseIp },
+    gaps,
+  };
+}
+
+// Gather everything buildEvidencePacket() reads for a stored dispute
+export async function collectEvidenceSources(env: Record<string, unknown>, record: DisputeRecord): Promise<EvidenceSources> {
+  const db = env?.DB as import('@cloudflare/workers-types').D1Database | undefined;
+  const order = record.orderId ? await getDocument('orders', record.orderId) : null;
+  const email = ((order?.customer as Record<string, unknown> | undefined)?.email as string) || '';
+
+  const [downloads, emails] = await Promise.all([
+    db && order ? d1GetOrderDownloads(db, order.id as string) : Promise.resolve([]),
+    db && email ? getEmailLogs(db, email, { since: order?.createdAt as string | undefined }) : Promise.resolve([]),
+  ]);
+
+  let charge: EvidenceSources['charge'] = null;
+  const stripe = createStripeClient(env);
+  if (stripe && record.stripeChargeId) {
+    try {
+      const c = await stripe.charges.retrieve(record.stripeChargeId);
+      const checks = c.payment_method_details?.card?.checks;
+      charge = {
+        billingName: c.billing_details?.name || null,
+        billingAddress: formatAddress(c.billing_details?.address as unknown as Record<string, unknown>),
+        cvcCheck: checks?.cvc_check || null,
+        addressCheck: checks?.address_line1_check || null,
+      };
+    } catch (error: unknown) {
+      log.warn('Could not load disputed charge:', record.stripeChargeId, error instanceof Error ? error.message : error);
+    }
+  }
+
+  return {
+    dispute: {
+      id: record.stripeDisputeId,
+      reason: record.reason || null,
+      amount: Number(record.amount) || 0,
+      currency: record.currency || 'gbp',
+    },
+    order: order as Record<string, unknown> | null,
+    downloads,
+    emails,
+    charge,
+  };
+}
+
+/**
+ * Build the evidence packet for a dispute and send it to Stripe: staged
+ * (submit false) for review, or submitted to the bank. Records the packet
+ * on the dispute document either way.
+ */
+export async function sendDisputeEvidence(env: Record<string, unknown>, record: DisputeRecord, options: {
+  submit: boolean;
+  adminId?: string | null;
+}): Promise<{ success: boolean; packet?: EvidencePacket; error?: string }> {
+  const stripe = createStripeClient(env);
+  if (!stripe) return { success: false, error: 'Stripe not configured' };
+
+  const packet = buildEvidencePacket(await collectEvidenceSources(env, record));
+  try {
+    await stripe.disputes.update(record.stripeDisputeId, {
+      evidence: packet.evidence,
+      submit: options.submit,
+      metadata: { orderId: record.orderId || '', platform: 'freshwax' },
+    });
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : String(error);
+    log.error('Evidence update failed for', record.stripeDisputeId, message);
+    await updateDocument('disputes', record.id, { evidenceError: message, updatedAt: new Date().toISOString() });
+    return { success: false, packet, error: message };
+  }
+
+  const now = new Date().toISOString();
+  const status: EvidenceStatus = options.submit ? 'submitted' : 'staged';
+  await updateDocument('disputes', record.id, {
+    evidence: packet.evidence,
+    evidenceSummary: packet.summary,
+    evidenceGaps: packet.gaps,
+    evidenceStatus: status,
+    evidenceError: null,
+    ...(options.submit ? { evidenceSubmittedAt: now, evidenceSubmittedBy: options.adminId || null } : { evidenceStagedAt: now }),
+    updatedAt: now,
+  });
+  log.info(`Evidence ${status} for dispute ${record.stripeDisputeId}` + (packet.gaps.length ? ` (missing: ${packet.gaps.join(', ')})` : ''));
+  return { success: true, packet };
+}
+
+export interface SellerDisputeImpact {
+  sellerId: string;
+  sellerKind: SellerKind;
+  disputes: number;
+  held: number;       // reversed from the seller while disputes are open
+  returned: number;   // re-paid after disputes were won
+  lost: number;       // borne by the seller on lost disputes
+  balance?: number;   // current journal balance (lib/journal.ts)
+}
+
+export interface DisputeSummary {
+  open: { count: number; amount: number };
+  won: { count: number; amount: number };
+  lost: { count: number; amount: number };
+  recovered: number;       // reversed from sellers across all disputes
+  platformLoss: number;    // lost disputes the platform absorbed
+  evidence: { staged: number; submitted: number; none: number; overdue: number };
+}
+
+export function disputeOutcome(dispute: Record<string, unknown>): DisputeOutcome {
+  return dispute.status === 'won' ? 'won' : dispute.status === 'lost' ? 'lost' : 'open';
+}
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+/**
+ * Totals for the dashboard and, per seller, what open / won / lost disputes
+ * took from or gave back to them. Amounts are GBP.
+ */
+export function summariseDisputes(disputes: Record<string, unknown>[], now = new Date()): {
+  summary: DisputeSummary;
+  sellers: SellerDisputeImpact[];
+} {
+  const summary: DisputeSummary = {
+    open: { count: 0, amount: 0 },
+    won: { count: 0, amount: 0 },
+    lost: { count: 0, amount: 0 },
+    recovered: 0,
+    platformLoss: 0,
+    evidence: { staged: 0, submitted: 0, none: 0, overdue: 0 },
+  };
+  const sellers = new Map<string, SellerDisputeImpact>();
+
+  for (const dispute of disputes) {
+    const outcome = disputeOutcome(dispute);
+    const amount = Number(dispute.settlementAmount ?? dispute.amount) || 0;
+    summary[outcome].count++;
+    summary[outcome].amount += amount;
+    summary.recovered += Number(dispute.amountRecovered) || 0;
+    if (outcome === 'lost') summary.platformLoss += Number(dispute.netImpact) || 0;
+
+    const evidenceStatus = dispute.evidenceStatus as EvidenceStatus | undefined;
+    if (evidenceStatus === 'submitted') summary.evidence.submitted++;
+    else if (evidenceStatus === 'staged') summary.evidence.staged++;
+    else summary.evidence.none++;
+    if (outcome === 'open' && evidenceStatus !== 'submitted' && typeof dispute.evidenceDueBy === 'string'
+      && Date.parse(dispute.evidenceDueBy) < now.getTime()) {
+      summary.evidence.overdue++;
+    }
+
+    const seen = new Set<string>();
+    for (const t of (dispute.transfersReversed || []) as Array<Record<string, unknown>>) {
+      const sellerId = (t.sellerId || t.artistId) as string | undefined;
+      if (!sellerId) continue;
+      let impact = sellers.get(sellerId);
+      if (!impact) {
+        impact = { sellerId, sellerKind: (t.sellerKind as SellerKind) || 'artist', disputes: 0, held: 0, returned: 0, lost: 0 };
+        sellers.set(sellerId, impact);
+      }
+      if (!seen.has(sellerId)) {
+        impact.disputes++;
+        seen.add(sellerId);
+      }
+      const reversed = Number(t.amount) || 0;
+      if (outcome === 'open') impact.held += reversed;
+      else if (outcome === 'won') impact.returned += reversed;
+      else impact.lost += reversed;
+    }
+  }
+
+  for (const key of ['open', 'won', 'lost'] as const) summary[key].amount = round2(summary[key].amount);
+  summary.recovered = round2(summary.recovered);
+  summary.platformLoss = round2(summary.platformLoss);
+
+  return {
+    summary,
+    sellers: [...sellers.values()]
+      .map(s => ({ ...s, held: round2(s.held), returned: round2(s.returned), lost: round2(s.lost) }))
+      .sort((a, b) => (b.held + b.lost) - (a.held + a.lost)),
+  };
+}
+
+// Everything the admin disputes dashboard shows
+export async function getDisputeDashboard(db: D1Database | undefined, options: { status?: DisputeOutcome | 'all'; limit?: number } = {}) {
+  const all = await queryCollection('disputes', {
+    orderBy: { field: 'createdAt', direction: 'DESCENDING' },
+    limit: options.limit ?? 500,
+    skipCache: true,
+  });
+  const { summary, sellers } = summariseDisputes(all);
+
+  // Current balances show where each affected seller stands after the holds
+  if (db) {
+    await Promise.all(sellers.slice(0, MAX_SELLER_BALANCES).map(async (s) => {
+      s.balance = (await getSellerBalance(db, s.sellerId)).balance;
+    }));
+  }
+
+  const status = options.status && options.status !== 'all' ? options.status : null;
+  return {
+    summary,
+    sellers,
+    disputes: status ? all.filter(d => disputeOutcome(d) === status) : all,
+  };
+}
@@ -0,0 +1,360 @@
+// src/lib/earnings-summary.ts
+// Year-end earnings summaries for sellers (artists, merch suppliers, crate
+// sellers) over the UK tax year (6 April – 5 April) or the calendar year:
+// gross, fees, refunds and net from the sales ledger by month, plus the
+// payouts actually received in the period. Served as JSON, CSV and PDF by
+// /api/pro/dashboard-data?type=earnings, with a forecast of what is still
+// owed alongside.
+
+import { getDocument, queryCollection } from './firebase-rest';
+import { d1GetSellerLedgerMonths } from './d1-catalog';
+import type { SellerLedgerMonth } from './d1-catalog';
+import { getSellerBalance } from './journal';
+import { getPayoutSchedule, nextPayoutCycleStart } from './payout-schedule';
+import { A4, buildPdf } from './pdf';
+import type { PdfPage, PdfText } from './pdf';
+import type { D1Database } from './d1/types';
+
+export type EarningsBasis = 'tax' | 'calendar';
+
+export interface EarningsPeriod {
+  basis: EarningsBasis;
+  year: number;
+  label: string;
+  from: string;
+  to: string;
+}
+
+export interface PayoutReceived {
+  date: string;
+  amount: number;
+  method: string;
+  reference: string;
+  orderNumber: string | null;
+}
+
+export interface EarningsForecast {
+  /** Sales recorded but not yet paid out, by pending payout status */
+  unpaid: number;
+  unpaidByStatus: Record<string, number>;
+  /** What the journal says is owed (null without D1) */
+  ledgerBalance: number | null;
+  /** Refunds of already-paid sales still to come off future payouts */
+  outstandingClawbacks: number;
+  nextScheduledPayout: { cadence: string; minimum: number; date: string } | null;
+  /** Net so far plus the last 90 days' daily rate for the rest of the period; null for past periods */
+  projectedNet: number | null;
+}
+
+export interface EarningsSummary {
+  period: EarningsPeriod;
+  months: SellerLedgerMonth[];
+  totals: Omit<SellerLedgerMonth, 'month'>;
+  payouts: { count: number; total: number; items: PayoutReceived[] };
+  forecast: EarningsForecast;
+}
+
+// Where each kind of seller's payouts are kept, and the field naming them
+const PAYOUT_SOURCES = [
+  { paid: 'payouts', pending: 'pendingPayouts', idField: 'artistId' },
+  { paid: 'supplierPayouts', pending: 'pendingSupplierPayouts', idField: 'supplierId' },
+  { paid: 'crateSellerPayouts', pending: 'pendingCrateSellerPayouts', idField: 'sellerId' },
+];
+const UNPAID_STATUSES = ['pending', 'scheduled', 'retry_pending', 'awaiting_connect', 'processing'];
+
+const FORECAST_WINDOW_DAYS = 90;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+/**
+ * The tax year starting 6 April `year` (labelled e.g. "2025/26"), or calendar
+ * year `year`. The tax year starts at midnight UK time, which on 6 April is
+ * always BST, i.e. 23:00 UTC the day before.
+ */
+export function earningsPeriod(basis: EarningsBasis, year: number): EarningsPeriod {
+  if (basis === 'tax') {
+    return {
+      basis,
+      year,
+      label: `${year}/${String((year + 1) % 100).padStart(2, '0')}`,
+      from: new Date(Date.UTC(year, 3, 5, 23)).toISOString(),
+      to: new Date(Date.UTC(year + 1, 3, 5, 23)).toISOString(),
+    };
+  }
+  return {
+    basis,
+    year,
+    label: String(year),
+    from: new Date(Date.UTC(year, 0, 1)).toISOString(),
+    to: new Date(Date.UTC(year + 1, 0, 1)).toISOString(),
+  };
+}
+
+/** The year (as `earningsPeriod` takes it) of the period `now` falls in. */
+export function currentEarningsYear(basis: EarningsBasis, now: Date): number {
+  const year = now.getUTCFullYear();
+  if (basis === 'calendar') return year;
+  return now.toISOString() >= earningsPeriod('tax', year).from ? year : year - 1;
+}
+
+function sumMonths(months: SellerLedgerMonth[]): Omit<SellerLedgerMonth, 'month'> {
+  const totals = { orders: 0, gross: 0, fees: 0, refunds: 0, refundedFees: 0, vat: 0, net: 0 };
+  for (const m of months) {
+    totals.orders += m.orders;
+    totals.gross += m.gross;
+    totals.fees += m.fees;
+    totals.refunds += m.refunds;
+    totals.refundedFees += m.refundedFees;
+    totals.vat += m.vat;
+    totals.net += m.net;
+  }
+  return {
+    orders: totals.orders,
+    gross: round2(totals.gross),
+    fees: round2(totals.fees),
+    refunds: round2(totals.refunds),
+    refundedFees: round2(totals.refundedFees),
+    vat: round2(totals.vat),
+    net: round2(totals.net),
+  };
+}
+
+async function getPayoutsReceived(sellerId: string, period: EarningsPeriod): Promise<PayoutReceived[]> {
+  const lists = await Promise.all(PAYOUT_SOURCES.map(source => queryCollection(source.paid, {
+    filters: [
+      { field: source.idField, op: 'EQUAL', value: sellerId },
+      { field: 'status', op: 'EQUAL', value: 'completed' },
+    ],
+    limit: 1000,
+  }).catch(() => [])));
+
+  return lists.flat()
+    .map(p => ({
+      date: String(p.completedAt || p.createdAt || ''),
+      amount: round2(Number(p.amount) || 0),
+      method: String(p.payoutMethod || (p.paypalBatchId ? 'paypal' : p.stripeTransferId ? 'stripe' : 'manual')),
+      reference: String(p.stripeTransferId || p.paypalBatchId || p.id || ''),
+      orderNumber: p.orderNumber ? String(p.orderNumber) : null,
+    }))
+    .filter(p => p.date >= period.from && p.date < period.to)
+    .sort((a, b) => a.date.localeCompare(b.date));
+}
+
+async function getForecast(
+  db: D1Database | undefined,
+  sellerId: string,
+  period: EarningsPeriod,
+  totals: Omit<SellerLedgerMonth, 'month'>,
+  now: Date
+): Promise<EarningsForecast> {
+  const [pendingLists, artist] = await Promise.all([
+    Promise.all(PAYOUT_SOURCES.map(source => queryCollection(source.pending, {
+      filters: [
+        { field: source.idField, op: 'EQUAL', value: sellerId },
+        { field: 'status', op: 'IN', value: UNPAID_STATUSES },
+      ],
+      limit: 1000,
+      skipCache: true,
+    }).catch(() => []))),
+    getDocument('artists', sellerId).catch(() => null),
+  ]);
+
+  const unpaidByStatus: Record<string, number> = {};
+  let unpaid = 0;
+  for (const row of pendingLists.flat()) {
+    const amount = Number(row.amount) || 0;
+    const status = String(row.status);
+    unpaidByStatus[status] = round2((unpaidByStatus[status] || 0) + amount);
+    unpaid += amount;
+  }
+
+  const schedule = artist ? getPayoutSchedule(artist) : null;
+  const nextScheduledPayout = schedule && schedule.cadence !== 'per_order'
+    ? { cadence: schedule.cadence, minimum: schedule.minimum, date: nextPayoutCycleStart(schedule.cadence, now).toISOString() }
+    : null;
+
+  let projectedNet: number | null = null;
+  const nowIso = now.toISOString();
+  if (db && nowIso >= period.from && nowIso < period.to) {
+    const windowStart = new Date(now.getTime() - FORECAST_WINDOW_DAYS * DAY_MS).toISOString();
+    const recent = sumMonths(await d1GetSellerLedgerMonths(db, sellerId, windowStart, nowIso));
+    const daysLeft = (new Date(period.to).getTime() - now.getTime()) / DAY_MS;
+    projectedNet = round2(totals.net + (recent.net / FORECAST_WINDOW_DAYS) * daysLeft);
+  }
+
+  return {
+    unpaid: round2(unpaid),
+    unpaidByStatus,
+    ledgerBalance: db ? (await getSellerBalance(db, sellerId)).balance : null,
+    outstandingClawbacks: round2(Number(artist?.clawbackBalance) || 0),
+    nextScheduledPayout,
+    projectedNet,
+  };
+}
+
+/** A seller's earnings for one tax / calendar year. Ledger figures need D1; without it they're empty. */
+export async function getEarningsSummary(
+  db: D1Database | undefined,
+  sellerId: string,
+  period: EarningsPeriod,
+  now: Date = new Date()
+): Promise<EarningsSummary> {
+  const months = db ? await d1GetSellerLedgerMonths(db, sellerId, period.from, period.to) : [];
+  const totals = sumMonths(months);
+  const [payouts, forecast] = await Promise.all([
+    getPayoutsReceived(sellerId, period),
+    getForecast(db, sellerId, period, totals, now),
+  ]);
+
+  return {
+    period,
+    months,
+    totals,
+    payouts: {
+      count: payouts.length,
+      total: round2(payouts.reduce((sum, p) => sum + p.amount, 0)),
+      items: payouts,
+    },
+    forecast,
+  };
+}
+
+function periodTitle(period: EarningsPeriod): string {
+  return period.basis === 'tax' ? `Tax year ${period.label} (6 April – 5 April)` : `Calendar year ${period.label}`;
+}
+
+function csvCell(value: string | number): string {
+  const text = typeof value === 'number' ? value.toFixed(2) : value;
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function renderEarningsCsv(summary: EarningsSummary, sellerName: string): string {
+  const { totals } = summary;
+  const rows: Array<Array<string | number>> = [
+    ['Fresh Wax earnings summary', sellerName],
+    ['Period', periodTitle(summary.period)],
+    [],
+    ['Month', 'Orders', 'Gross', 'Fees', 'Refunds', 'Fees refunded', 'VAT', 'Net earnings'],
+    ...summary.months.map(m => [m.month, String(m.orders), m.gross, m.fees, m.refunds, m.refundedFees, m.vat, m.net]),
+    ['Total', String(totals.orders), totals.gross, totals.fees, totals.refunds, totals.refundedFees, totals.vat, totals.net],
+    [],
+    ['Payouts received', 'Method', 'Reference', 'Order', 'Amount'],
+    ...summary.payouts.items.map(p => [p.date.slice(0, 10), p.method, p.reference, p.orderNumber || '', p.amount]),
+    ['Total', '', '', '', summary.payouts.total],
+    [],
+    ['Still to be paid', summary.forecast.unpaid],
+  ];
+  return rows.map(row => row.map(csvCell).join(',')).join('\n') + '\n';
+}
+
+export function renderEarningsPdf(summary: EarningsSummary, sellerName: string): Uint8Array {
+  const money = (n: number) => `${n < 0 ? '-' : ''}£${Math.abs(n).toFixed(2)}`;
+  const left = 50;
+  const right = A4.width - 50;
+  const pages: PdfPage[] = [];
+  let page: PdfPage = { texts: [], rules: [] };
+  let y = A4.height - 60;
+
+  const text = (x: number, value: string, opts: Partial<PdfText> = {}) =>
+    page.texts.push({ x, y, text: value, size: 9, ...opts });
+  const rule = (width = 0.5) => page.rules?.push({ x1: left, y1: y, x2: right, y2: y, width });
+  const newPage = () => {
+    pages.push(page);
+    page = { texts: [], rules: [] };
+    y = A4.height - 60;
+  };
+
+  text(left, 'FRESH WAX', { size: 18, bold: true });
+  text(right, 'Earnings summary', { size: 16, bold: true, align: 'right' });
+  y -= 22;
+  text(left, sellerName);
+  text(right, periodTitle(summary.period), { align: 'right' });
+  y -= 13;
+  text(right, `Generated ${new Date().toISOString().slice(0, 10)}`, { align: 'right' });
+  y -= 24;
+
+  const cols = { orders: 200, gross: 265, fees: 325, refunds: 390, vat: 445, net: right };
+  const monthHeader = () => {
+    text(left, 'Month', { bold: true });
+    text(cols.orders, 'Orders', { bold: true, align: 'right' });
+    text(cols.gross, 'Gross', { bold: true, align: 'right' });
+    text(cols.fees, 'Fees', { bold: true, align: 'right' });
+    text(cols.refunds, 'Refunds', { bold: true, align: 'right' });
+    text(cols.vat, 'VAT', { bold: true, align: 'right' });
+    text(cols.net, 'Net', { bold: true, align: 'right' });
+    y -= 6;
+    rule();
+    y -= 13;
+  };
+  const monthRow = (label: string, m: Omit<SellerLedgerMonth, 'month'>, bold = false) => {
+    text(left, label, { bold });
+    text(cols.orders, String(m.orders), { bold, align: 'right' });
+    text(cols.gross, money(m.gross), { bold, align: 'right' });
+    text(cols.fees, money(m.fees - m.refundedFees), { bold, align: 'right' });
+    text(cols.refunds, money(m.refunds), { bold, align: 'right' });
+    text(cols.vat, money(m.vat), { bold, align: 'right' });
+    text(cols.net, money(m.net), { bold, align: 'right' });
+    y -= 14;
+  };
+
+  monthHeader();
+  if (summary.months.length === 0) {
+    text(left, 'No sales in this period.');
+    y -= 14;
+  }
+  for (const m of summary.months) {
+    if (y < 80) { newPage(); monthHeader(); }
+    monthRow(m.month, m);
+  }
+  y += 8;
+  rule();
+  y -= 14;
+  monthRow('Total', summary.totals, true);
+  y -= 4;
+  text(left, 'Fees are net of fees returned with refunds. Net is your share of sales after fees and refunds.', { size: 8 });
+  y -= 28;
+
+  const payoutHeader = () => {
+    text(left, 'Payouts received', { bold: true });
+    text(180, 'Method', { bold: true });
+    text(250, 'Reference', { bold: true });
+    text(right, 'Amount', { bold: true, align: 'right' });
+    y -= 6;
+    rule();
+    y -= 13;
+  };
+  if (y < 120) newPage();
+  payoutHeader();
+  for (const p of summary.payouts.items) {
+    if (y < 80) { newPage(); payoutHeader(); }
+    text(left, p.date.slice(0, 10));
+    text(180, p.method);
+    text(250, p.reference.length > 40 ? p.reference.slice(0, 39) + '…' : p.reference);
+    text(right, money(p.amount), { align: 'right' });
+    y -= 14;
+  }
+  y += 8;
+  rule();
+  y -= 14;
+  text(left, `${summary.payouts.count} payout${summary.payouts.count === 1 ? '' : 's'}`, { bold: true });
+  text(right, money(summary.payouts.total), { bold: true, align: 'right' });
+  y -= 28;
+
+  if (y < 100) newPage();
+  const { forecast } = summary;
+  text(left, 'Still to come', { bold: true });
+  y -= 16;
+  const row = (label: string, value: string) => {
+    text(left, label);
+    text(right, value, { align: 'right' });
+    y -= 13;
+  };
+  row('Sales awaiting payout', money(forecast.unpaid));
+  if (forecast.outstandingClawbacks > 0) row('Refunds to come off future payouts', money(-forecast.outstandingClawbacks));
+  if (forecast.nextScheduledPayout) row(`Next ${forecast.nextScheduledPayout.cadence} payout`, forecast.nextScheduledPayout.date.slice(0, 10));
+  if (forecast.projectedNet !== null) row('Projected net for the period', money(forecast.projectedNet));
+
+  pages.push(page);
+  return buildPdf(pages, { title: `Earnings summary ${summary.period.label}` });
+}
@@ -113,6 +113,48 @@ export async function logEmailToD1(
   }
 }
 
+export interface EmailLogEntry {
+  messageId: string | null;
+  toEmail: string;
+  subject: string;
+  template: string;
+  status: string;
+  createdAt: string;
+}
+
+/**
+ * Emails sent to one recipient since a date, oldest first (e.g. the order
+ * confirmation and download links a disputing customer was sent).
+ */
+export async function getEmailLogs(
+  db: import('@cloudflare/workers-types').D1Database,
+  toEmail: string,
+  options: { since?: string; limit?: number } = {}
+): Promise<EmailLogEntry[]> {
+  try {
+    // email_logs.created_at is datetime('now'), i.e. 'YYYY-MM-DD HH:MM:SS'
+    const since = (options.since || '1970-01-01T00:00:00Z').replace('T', ' ').slice(0, 19);
+    const { results } = await db
+      .prepare(
+        `SELECT message_id, to_email, subject, template, status, created_at FROM email_logs
+         WHERE lower(to_email) = ? AND created_at >= ? ORDER BY created_at ASC LIMIT ?`
+      )
+      .bind(toEmail.toLowerCase(), since, options.limit ?? 50)
+      .all();
+    return (results || []).map((row: Record<string, unknown>) => ({
+      messageId: (row.message_id as string) || null,
+      toEmail: row.to_email as string,
+      subject: row.subject as string,
+      template: row.template as string,
+      status: row.status as string,
+      createdAt: row.created_at as string,
+    }));
+  } catch (err: unknown) {
+    log.error('D1 email log read failed:', err instanceof Error ? err.message : err);
+    return [];
+  }
+}
+
 // ============================================
 // MAIN SEND FUNCTION
 // ============================================
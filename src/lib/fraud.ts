@@ -0,0 +1,456 @@
+// src/lib/fraud.ts
+// Rule-based fraud scoring for paid orders.
+//
+// Every order placed through a checkout is scored when it is created
+// (createOrder, and the legacy create-order endpoint) from what we know
+// about the buyer: how many orders their IP, email and card have placed
+// recently, whether the card or billing country matches where the vinyl is
+// going, a new or guest account buying expensive vinyl, and failed gift card
+// / referral redemptions from the same account or IP. Each rule that fires
+// adds points; the total puts the order at low, medium or high risk.
+//
+// High-risk orders are held: the buyer gets their confirmation, but the
+// vinyl fulfilment and seller emails and all seller payouts wait until an
+// admin approves the order from the review queue (/admin/order-review).
+// What the payouts need is parked on the order as `heldPayouts` and run on
+// approval; a rejected order is cancelled and restocked, and never pays out.
+//
+// Checks live in D1 `order_risk_checks` (which is also the velocity history)
+// and failed redemptions in `risk_events`. Scoring never blocks an order —
+// if D1 or Firestore are unavailable the order is scored on what's left.
+
+import { getDocument, updateDocument, getDocumentsBatch } from './firebase-rest';
+import { createLogger } from './api-utils';
+import { vatCountryCode } from './order/vat';
+import {
+  d1CountRiskEvents, d1GetRiskChecks, d1GetRiskVelocity, d1InsertRiskCheck, d1InsertRiskEvent,
+  d1ReopenRiskCheck, d1ResolveRiskCheck,
+} from './d1/fraud';
+import type { OrderRiskCheck, RiskCheckStatus, RiskEventKind, RiskLevel, RiskReason, RiskVelocity } from './d1/fraud';
+import type { D1Database } from './d1/types';
+
+export type { OrderRiskCheck, RiskCheckStatus, RiskEventKind, RiskLevel, RiskReason } from './d1/fraud';
+
+const log = createLogger('[fraud]');
+
+// Score at which an order is flagged (medium) or held for review (high)
+export const RISK_THRESHOLDS = { medium: 30, high: 60 } as const;
+
+// Velocity windows: IP orders over the last hour, email and card orders
+// over a day, and emails one card has paid for over a week
+const IP_WINDOW_HOURS = 1;
+const ORDER_WINDOW_HOURS = 24;
+const CARD_EMAIL_WINDOW_DAYS = 7;
+const NEW_ACCOUNT_DAYS = 7;
+const HIGH_VALUE_VINYL = 100;
+const HIGH_VALUE_ORDER = 300;
+
+export interface RiskSignals {
+  total: number;
+  vinylValue: number;
+  hasPhysicalItems: boolean;
+  shippingCountry: string | null;  // ISO codes
+  billingCountry: string | null;
+  cardCountry: string | null;
+  accountAgeDays: number | null;   // null: guest checkout
+  velocity: RiskVelocity | null;   // null: history unavailable
+  failedRedemptions: number;
+}
+
+export interface RiskAssessment {
+  score: number;
+  level: RiskLevel;
+  reasons: RiskReason[];
+  hold: boolean;
+}
+
+/** Score an order from its signals. Pure — see RISK_THRESHOLDS for levels. */
+export function scoreOrderRisk(signals: RiskSignals): RiskAssessment {
+  const reasons: RiskReason[] = [];
+  const add = (rule: string, points: number, detail: string) => reasons.push({ rule, points, detail });
+  const v = signals.velocity;
+
+  if (v) {
+    if (v.ipOrders >= 5) add('ip_velocity', 40, `${v.ipOrders} other orders from this IP in the last hour`);
+    else if (v.ipOrders >= 2) add('ip_velocity', 20, `${v.ipOrders} other orders from this IP in the last hour`);
+    if (v.emailOrders >= 3) add('email_velocity', 15, `${v.emailOrders} other orders from this email today`);
+    if (v.cardOrders >= 3) add('card_velocity', 25, `${v.cardOrders} other orders on this card today`);
+    if (v.cardEmails >= 2) add('shared_card', 35, `Card also used by ${v.cardEmails} other customers this week`);
+  }
+
+  // Only matters when something is being posted somewhere
+  if (signals.hasPhysicalItems && signals.shippingCountry) {
+    const mismatched = [
+      signals.billingCountry && signals.billingCountry !== signals.shippingCountry ? `billing ${signals.billingCountry}` : null,
+      signals.cardCountry && signals.cardCountry !== signals.shippingCountry ? `card ${signals.cardCountry}` : null,
+    ].filter(Boolean);
+    if (mismatched.length > 0) {
+      add('country_mismatch', 20, `Shipping to ${signals.shippingCountry}, ${mismatched.join(', ')}`);
+    }
+  }
+
+  if (signals.vinylValue >= HIGH_VALUE_VINYL) {
+    if (signals.accountAgeDays === null) {
+      add('new_account_vinyl', 20, `Guest checkout with £${signals.vinylValue.toFixed(2)} of vinyl`);
+    } else if (signals.accountAgeDays < NEW_ACCOUNT_DAYS) {
+      add('new_account_vinyl', 30, `Account ${Math.floor(signals.accountAgeDays)} days old with £${signals.vinylValue.toFixed(2)} of vinyl`);
+    }
+  }
+
+  if (signals.failedRedemptions >= 6) add('failed_redemptions', 45, `${signals.failedRedemptions} failed gift card / referral codes today`);
+  else if (signals.failedRedemptions >= 3) add('failed_redemptions', 30, `${signals.failedRedemptions} failed gift card / referral codes today`);
+
+  if (signals.total >= HIGH_VALUE_ORDER) add('high_value', 10, `Order total £${signals.total.toFixed(2)}`);
+
+  const score = reasons.reduce((sum, r) => sum + r.points, 0);
+  const level: RiskLevel = score >= RISK_THRESHOLDS.high ? 'high' : score >= RISK_THRESHOLDS.medium ? 'medium' : 'low';
+  return { score, level, reasons, hold: level === 'high' };
+}
+
+export interface OrderRiskInput {
+  email: string | null;
+  userId: string | null;
+  ip: string | null;
+  cardFingerprint?: string | null;
+  cardCountry?: string | null;
+  billingCountry?: string | null;
+  shippingCountry?: string | null;
+  items: Array<Record<string, unknown>>;
+  total: number;
+  hasPhysicalItems: boolean;
+}
+
+// getClientId falls back to a hash of the headers when there is no IP
+const realIp = (ip: string | null | undefined) => (ip && !ip.startsWith('anon-') ? ip : null);
+const normaliseEmail = (email: string | null | undefined) => (email || '').trim().toLowerCase() || null;
+
+async function accountAgeDays(userId: string | null): Promise<number | null> {
+  if (!userId) return null;
+  try {
+    const user = await getDocument('users', userId);
+    const created = Date.parse(String(user?.createdAt || ''));
+    // An account we can't date is given the benefit of the doubt
+    return Number.isFinite(created) ? Math.max(0, (Date.now() - created) / 86_400_000) : Infinity;
+  } catch {
+    return Infinity;
+  }
+}
+
+/** Gather the signals for an order and score it. Never throws. */
+export async function assessOrderRisk(db: D1Database | undefined, input: OrderRiskInput): Promise<RiskAssessment> {
+  const ip = realIp(input.ip);
+  const email = normaliseEmail(input.email);
+
+  const [velocity, failedRedemptions, ageDays] = await Promise.all([
+    db
+      ? d1GetRiskVelocity(db, {
+        ip,
+        email,
+        cardFingerprint: input.cardFingerprint || null,
+        ipHours: IP_WINDOW_HOURS,
+        hours: ORDER_WINDOW_HOURS,
+        cardEmailDays: CARD_EMAIL_WINDOW_DAYS,
+      }).catch((e: unknown) => {
+        log.warn('Risk velocity lookup failed:', e);
+        return null;
+      })
+      : null,
+    db
+      ? d1CountRiskEvents(db, { userId: input.userId, ip, hours: ORDER_WINDOW_HOURS }).catch(() => 0)
+      : 0,
+    accountAgeDays(input.userId),
+  ]);
+
+  const vinylValue = input.items
+    .filter(item => item.type === 'vinyl')
+    .reduce((sum, item) => sum + (Number(item.price) || 0) * (Number(item.quantity) || 1), 0);
+
+  return scoreOrderRisk({
+    total: Number(input.total) || 0,
+    vinylValue,
+    hasPhysicalItems: input.hasPhysicalItems,
+    shippingCountry: vatCountryCode(input.shippingCountry),
+    billingCountry: vatCountryCode(input.billingCountry),
+    cardCountry: vatCountryCode(input.cardCountry),
+    accountAgeDays: ageDays,
+    velocity,
+    failedRedemptions,
+  });
+}
+
+/** Keep the check for review and as velocity history for later orders. */
+export async function recordRiskCheck(db: D1Database | undefined, params: {
+  orderId: string;
+  orderNumber: string;
+  input: OrderRiskInput;
+  assessment: RiskAssessment;
+}): Promise<void> {
+  if (!db) return;
+  const { orderId, orderNumber, input, assessment } = params;
+  await d1InsertRiskCheck(db, {
+    orderId,
+    orderNumber,
+    email: normaliseEmail(input.email),
+    userId: input.userId,
+    ip: realIp(input.ip),
+    cardFingerprint: input.cardFingerprint || null,
+    total: Number(input.total) || 0,
+    score: assessment.score,
+    level: assessment.level,
+    reasons: assessment.reasons,
+    status: assessment.hold ? 'held' : 'clear',
+    reviewedBy: null,
+    reviewedAt: null,
+  });
+}
+
+/** Note a failed redemption against the account / IP. Never throws. */
+export async function recordRiskEvent(db: D1Database | undefined, event: {
+  kind: RiskEventKind;
+  userId: string | null;
+  ip: string | null;
+  detail?: string | null;
+}): Promise<void> {
+  if (!db) return;
+  await d1InsertRiskEvent(db, {
+    kind: event.kind,
+    userId: event.userId,
+    ip: realIp(event.ip),
+    detail: event.detail || null,
+  });
+}
+
+/**
+ * What the seller payout functions need for a held order, minus the order
+ * itself and secrets. `flow` picks which set of payout functions the order's
+ * checkout uses: Stripe Checkout, or the PayPal / free-order ones.
+ */
+export interface HeldPayouts {
+  flow: 'stripe' | 'direct';
+  totalItemCount: number;
+  orderSubtotal: number;
+  actualProcessingFee: number | null;
+  paymentMethod: string;
+  logPrefix: string;
+  artistShippingBreakdown: Record<string, { artistId: string; artistName: string; amount: number }> | null;
+}
+
+/** Park a held order's payouts until it is approved. */
+export async function holdSellerPayouts(orderId: string, held: HeldPayouts): Promise<void> {
+  try {
+    await updateDocument('orders', orderId, { heldPayouts: held, updatedAt: new Date().toISOString() });
+    log.info(`Payouts for ${orderId} held for review`);
+  } catch (error: unknown) {
+    log.error(`Could not store held payouts for ${orderId}:`, error);
+  }
+}
+
+async function runHeldPayouts(
+  order: Record<string, unknown>,
+  orderId: string,
+  held: HeldPayouts,
+  env: Record<string, unknown>
+): Promise<void> {
+  const stripeSecretKey = (env?.STRIPE_SECRET_KEY || import.meta.env.STRIPE_SECRET_KEY || '') as string;
+  const items = (order.items || []) as Record<string, unknown>[];
+  const base = {
+    orderId,
+    orderNumber: String(order.orderNumber || ''),
+    items,
+    totalItemCount: held.totalItemCount,
+    orderSubtotal: held.orderSubtotal,
+    stripeSecretKey,
+    env,
+  };
+  const { processMerchSupplierPayments } = await import('./order/seller-payments');
+  const merchSupplier = () => processMerchSupplierPayments({
+    ...base,
+    actualProcessingFee: held.actualProcessingFee,
+    paymentMethod: held.paymentMethod,
+    logPrefix: held.logPrefix,
+  });
+
+  let runs: Array<[string, () => Promise<unknown>]>;
+  if (held.flow === 'stripe') {
+    const { processArtistPayments, processSupplierPayments } = await import('./stripe-webhook/payments');
+    const { processVinylCrateSellerPayments } = await import('./stripe-webhook/vinyl-crate-payments');
+    const stripeParams = { ...base, env: env as unknown as CloudflareEnv };
+    runs = [
+      ['Artist', () => processArtistPayments({ ...stripeParams, artistShippingBreakdown: held.artistShippingBreakdown, actualStripeFee: held.actualProcessingFee })],
+      ['Supplier', () => processSupplierPayments(stripeParams)],
+      ['Merch supplier', merchSupplier],
+      ['Crate seller', () => processVinylCrateSellerPayments({ ...stripeParams, actualStripeFee: held.actualProcessingFee })],
+    ];
+  } else {
+    const { processArtistPayments, processVinylCrateSellerPayments } = await import('./order/seller-payments');
+    const { processMerchRoyalties } = await import('./order/paypal-capture-helpers');
+    const params = {
+      ...base,
+      actualProcessingFee: held.actualProcessingFee,
+      paymentMethod: held.paymentMethod,
+      logPrefix: held.logPrefix,
+      artistShippingBreakdown: held.artistShippingBreakdown,
+    };
+    runs = [
+      ['Artist', () => processArtistPayments(params)],
+      ['Brand royalty', () => processMerchRoyalties(params)],
+      ['Merch supplier', merchSupplier],
+      ['Crate seller', () => processVinylCrateSellerPayments(params)],
+    ];
+  }
+
+  // One payout type failing shouldn't stop the rest, as at checkout
+  for (const [label, run] of runs) {
+    try {
+      await run();
+    } catch (error: unknown) {
+      log.error(`${label} payout for released order ${orderId} failed:`, error);
+    }
+  }
+}
+
+type ReviewResult = { success: boolean; error?: string };
+
+/**
+ * Approve a held order: it goes back to the status it would have had, and
+ * the seller emails and payouts that were held are sent.
+ */
+export async function releaseHeldOrder(
+  env: Record<string, unknown>,
+  orderId: string,
+  reviewedBy: string
+): Promise<ReviewResult> {
+  const db = env?.DB as D1Database | undefined;
+  const order = await getDocument('orders', orderId);
+  if (!order) return { success: false, error: 'Order not found' };
+  const risk = (order.risk || {}) as Record<string, unknown>;
+  if (risk.status !== 'held') return { success: false, error: 'Order is not held for review' };
+
+  // The D1 row is the lock — only one reviewer gets to release the payouts
+  if (db && !(await d1ResolveRiskCheck(db, orderId, 'approved', reviewedBy))) {
+    return { success: false, error: 'Order has already been reviewed' };
+  }
+
+  const now = new Date().toISOString();
+  const status = String(risk.previousStatus || 'processing');
+  try {
+    await updateDocument('orders', orderId, {
+      status,
+      orderStatus: status,
+      risk: { ...risk, status: 'approved', reviewedBy, reviewedAt: now },
+      heldPayouts: null,
+      updatedAt: now,
+    });
+  } catch (error: unknown) {
+    log.error(`Could not release order ${orderId}:`, error);
+    if (db) await d1ReopenRiskCheck(db, orderId);
+    return { success: false, error: 'Could not update order' };
+  }
+
+  const { notifyOrderSellers } = await import('./order/creation');
+  await notifyOrderSellers({ ...order, status }, orderId, env);
+
+  const held = order.heldPayouts as HeldPayouts | null | undefined;
+  if (held) await runHeldPayouts(order, orderId, held, env);
+
+  log.info(`Order ${order.orderNumber} approved by ${reviewedBy}`);
+  return { success: true };
+}
+
+/**
+ * Reject a held order: it is cancelled and its payouts dropped. Stock goes
+ * back unless a full refund already restocked it (process-refund).
+ */
+export async function rejectHeldOrder(
+  env: Record<string, unknown>,
+  orderId: string,
+  reviewedBy: string,
+  note?: string | null
+): Promise<ReviewResult> {
+  const db = env?.DB as D1Database | undefined;
+  const order = await getDocument('orders', orderId);
+  if (!order) return { success: false, error: 'Order not found' };
+  const risk = (order.risk || {}) as Record<string, unknown>;
+  if (risk.status !== 'held') return { success: false, error: 'Order is not held for review' };
+
+  if (db && !(await d1ResolveRiskCheck(db, orderId, 'rejected', reviewedBy))) {
+    return { success: false, error: 'Order has already been reviewed' };
+  }
+
+  const now = new Date().toISOString();
+  try {
+    await updateDocument('orders', orderId, {
+      status: 'cancelled',
+      orderStatus: 'cancelled',
+      risk: { ...risk, status: 'rejected', reviewedBy, reviewedAt: now, note: note || null },
+      heldPayouts: null,
+      cancelledAt: now,
+      cancelReason: 'fraud_review',
+      updatedAt: now,
+    });
+  } catch (error: unknown) {
+    log.error(`Could not reject order ${orderId}:`, error);
+    if (db) await d1ReopenRiskCheck(db, orderId);
+    return { success: false, error: 'Could not update order' };
+  }
+
+  if (order.refundStatus !== 'full' && Array.isArray(order.items)) {
+    try {
+      const { refundOrderStock } = await import('./order/refund');
+      await refundOrderStock(orderId, order.items, String(order.orderNumber || orderId), undefined, env);
+    } catch (error: unknown) {
+      log.error(`Could not restock rejected order ${orderId}:`, error);
+    }
+  }
+
+  log.info(`Order ${order.orderNumber} rejected by ${reviewedBy}`);
+  return { success: true };
+}
+
+export interface HeldOrder extends OrderRiskCheck {
+  order: {
+    status: string;
+    paymentMethod: string | null;
+    paymentIntentId: string | null;
+    refundStatus: string | null;
+    customerName: string;
+    shippingCountry: string | null;
+    items: Array<{ name: string; type: string; quantity: number; price: number }>;
+    heldPayouts: boolean;
+  } | null;
+}
+
+/** The review queue (or past decisions), with the orders behind them. */
+export async function getHeldOrders(
+  db: D1Database | undefined,
+  options: { status?: RiskCheckStatus; limit?: number } = {}
+): Promise<HeldOrder[]> {
+  if (!db) return [];
+  const checks = await d1GetRiskChecks(db, { status: options.status ?? 'held', limit: options.limit ?? 100 });
+  if (checks.length === 0) return [];
+
+  const orders = await getDocumentsBatch('orders', checks.map(c => c.orderId));
+  return checks.map(check => {
+    const order = orders.get(check.orderId);
+    const customer = (order?.customer || {}) as Record<string, unknown>;
+    const shipping = (order?.shipping || null) as Record<string, unknown> | null;
+    return {
+      ...check,
+      order: order ? {
+        status: String(order.status || ''),
+        paymentMethod: (order.paymentMethod as string) || null,
+        paymentIntentId: (order.paymentIntentId as string) || null,
+        refundStatus: (order.refundStatus as string) || null,
+        customerName: [customer.firstName, customer.lastName].filter(Boolean).join(' '),
+        shippingCountry: (shipping?.country as string) || null,
+        items: ((order.items || []) as Array<Record<string, unknown>>).map(item => ({
+          name: String(item.name || item.title || ''),
+          type: String(item.type || ''),
+          quantity: Number(item.quantity) || 1,
+          price: Number(item.price) || 0,
+        })),
+        heldPayouts: !!order.heldPayouts,
+      } : null,
+    };
+  });
+}
@@ -0,0 +1,380 @@
+// src/lib/journal.ts
+// Double-entry accounting journal behind the sales ledger.
+// Every money movement is posted as a balanced entry (debits = credits) to
+// the append-only journal_entries / journal_lines tables in D1:
+//   sale      — customer payment in, processor fee and platform fee out of
+//               the seller's share, the rest owed to the seller
+//   refund    — the same lines reversed, scaled to what was refunded
+//   payout    — seller liability settled from the processor balance
+//   dispute   — disputed funds withdrawn, transfers clawed back from sellers,
+//               and the outcome once the dispute closes
+//   advance   — money advanced to an artist, and the sale earnings that
+//               recoup it (lib/advances.ts)
+//   wallet    — refunds kept as store credit, and credit that expired
+//               unspent (lib/wallet.ts)
+// A seller's balance is the sum of their lines on the *_payable accounts, so
+// it can't drift from the postings the way patched ledger/payout docs do.
+// Entry ids are deterministic so retries never post twice.
+
+import { createLogger } from './api-utils';
+import { d1GetJournalBalances, d1GetJournalLines, d1InsertJournalEntry, MAX_JOURNAL_LINES } from './d1/journal';
+import type { JournalBalance, JournalLine } from './d1/journal';
+import type { D1Database } from './d1/types';
+
+const log = createLogger('[journal]');
+
+export const JOURNAL_ACCOUNTS = {
+  // Asset: money held at a processor (party: stripe, paypal, bank, manual)
+  processorClearing: 'processor_clearing',
+  // Liability: store credit held in wallets and gift card balances spent
+  // at checkout
+  giftCardLiability: 'gift_card_liability',
+  // Income: FreshWax platform fee, plus sales with no seller
+  platformRevenue: 'platform_revenue',
+  // Liabilities: owed to sellers (party: seller uid)
+  artistPayable: 'artist_payable',
+  supplierPayable: 'supplier_payable',
+  crateSellerPayable: 'crate_seller_payable',
+  // Asset: disputed funds Stripe is holding until the dispute closes
+  disputesOutstanding: 'disputes_outstanding',
+  // Expense: lost disputes the platform absorbed
+  disputeLosses: 'dispute_losses',
+  // Asset: recoupable advances paid to artists, owed back from their sales
+  // (party: artist uid)
+  artistAdvances: 'artist_advances',
+} as const;
+
+export type SellerKind = 'artist' | 'supplier' | 'crate_seller';
+
+export const PAYABLE_ACCOUNTS: Record<SellerKind, string> = {
+  artist: JOURNAL_ACCOUNTS.artistPayable,
+  supplier: JOURNAL_ACCOUNTS.supplierPayable,
+  crate_seller: JOURNAL_ACCOUNTS.crateSellerPayable,
+};
+
+// One side of a posting in pounds: positive debits the account, negative
+// credits it (so a refund is just the sale's postings negated)
+export interface Posting {
+  account: string;
+  partyId?: string | null;
+  amount: number;
+  memo?: string;
+}
+
+const toPence = (amount: number) => Math.round((Number(amount) || 0) * 100);
+
+/**
+ * Post a balanced entry. Zero postings are dropped; an entry that doesn't
+ * balance to the penny is refused rather than written. Posting an id that
+ * already exists is a no-op, which makes webhook retries safe.
+ */
+export async function postJournalEntry(db: D1Database | undefined, entry: {
+  id: string;
+  entryType: string;
+  orderId?: string | null;
+  reference?: string | null;
+  memo?: string | null;
+  postings: Posting[];
+}): Promise<{ success: boolean; error?: string }> {
+  if (!db) {
+    log.info(`D1 not available, journal entry ${entry.id} not posted`);
+    return { success: false, error: 'D1 not available' };
+  }
+
+  const lines: JournalLine[] = entry.postings
+    .map(p => ({ ...p, pence: toPence(p.amount) }))
+    .filter(p => p.pence !== 0)
+    .map(p => ({
+      account: p.account,
+      partyId: p.partyId || null,
+      debitPence: p.pence > 0 ? p.pence : 0,
+      creditPence: p.pence < 0 ? -p.pence : 0,
+      memo: p.memo || null,
+    }));
+
+  if (lines.length === 0) return { success: true };
+
+  const imbalance = lines.reduce((sum, l) => sum + l.debitPence - l.creditPence, 0);
+  if (imbalance !== 0) {
+    log.error(`Journal entry ${entry.id} does not balance (off by ${imbalance}p) — not posted`, lines);
+    return { success: false, error: 'Journal entry does not balance' };
+  }
+  if (lines.length > MAX_JOURNAL_LINES) {
+    log.error(`Journal entry ${entry.id} has ${lines.length} lines (max ${MAX_JOURNAL_LINES}) — not posted`);
+    return { success: false, error: 'Journal entry has too many lines' };
+  }
+
+  const ok = await d1InsertJournalEntry(db, {
+    id: entry.id,
+    entryType: entry.entryType,
+    orderId: entry.orderId || null,
+    reference: entry.reference || null,
+    memo: entry.memo || null,
+    lines,
+  });
+  return ok ? { success: true } : { success: false, error: 'Failed to write journal entry' };
+}
+
+/**
+ * Which payable account a seller's lines belong on, from the order lines in
+ * their ledger entry: merch is paid to suppliers, crate listings (a seller
+ * but no release) to crate sellers, everything else to artists/labels.
+ */
+export function sellerKindForItems(items: Array<{ type?: string; releaseId?: string | null; sellerId?: string | null; crateListingId?: string | null }>): SellerKind {
+  if (items.length > 0 && items.every(item => item.type === 'merch')) return 'supplier';
+  if (items.length > 0 && items.every(item => !item.releaseId && (item.sellerId || item.crateListingId || item.type === 'crate' || item.type === 'vinyl-crate'))) {
+    return 'crate_seller';
+  }
+  return 'artist';
+}
+
+// Where the customer's money sits once a sale completes
+function fundingPosting(paymentMethod: string): Pick<Posting, 'account' | 'partyId'> {
+  switch (paymentMethod) {
+    case 'giftcard':
+      return { account: JOURNAL_ACCOUNTS.giftCardLiability, partyId: null };
+    case 'invoice':
+      // Trade invoices are settled by bank transfer (lib/trade.ts)
+      return { account: JOURNAL_ACCOUNTS.processorClearing, partyId: 'bank' };
+    default:
+      return { account: JOURNAL_ACCOUNTS.processorClearing, partyId: paymentMethod || 'stripe' };
+  }
+}
+
+/**
+ * Postings for one sales ledger row — a seller's share of a sale, or a
+ * (negative) refund row. The seller is credited the gross and debited the
+ * processor fee and platform fee, leaving exactly the row's netRevenue owed.
+ * Rows with no seller are platform revenue.
+ */
+export function saleJournalPostings(entry: {
+  grossTotal: number;
+  stripeFee?: number;
+  paypalFee?: number;
+  freshWaxFee?: number;
+  paymentMethod: string;
+  sellerId?: string | null;
+  sellerKind?: SellerKind;
+}): Posting[] {
+  const funding = fundingPosting(entry.paymentMethod);
+  const processorFee = (entry.stripeFee || 0) + (entry.paypalFee || 0);
+  const platformFee = entry.freshWaxFee || 0;
+  const payable = entry.sellerId
+    ? { account: PAYABLE_ACCOUNTS[entry.sellerKind || 'artist'], partyId: entry.sellerId }
+    : { account: JOURNAL_ACCOUNTS.platformRevenue, partyId: null };
+  const processorParty = funding.partyId || 'stripe';
+
+  return [
+    { ...funding, amount: entry.grossTotal, memo: 'customer payment' },
+    { ...payable, amount: -entry.grossTotal, memo: 'sale' },
+    { ...payable, amount: processorFee, memo: 'processor fee' },
+    { account: JOURNAL_ACCOUNTS.processorClearing, partyId: processorParty, amount: -processorFee, memo: 'processor fee withheld' },
+    { ...payable, amount: platformFee, memo: 'platform fee' },
+    { account: JOURNAL_ACCOUNTS.platformRevenue, partyId: null, amount: -platformFee, memo: 'platform fee' },
+  ];
+}
+
+// Post a sales ledger row (sale or refund) to the journal
+export async function postLedgerEntryToJournal(db: D1Database | undefined, ledgerId: string, entry: {
+  orderId: string;
+  orderNumber: string;
+  grossTotal: number;
+  stripeFee?: number;
+  paypalFee?: number;
+  freshWaxFee?: number;
+  paymentMethod: string;
+  submitterId?: string | null;
+  artistId?: string | null;
+  refundId?: string | null;
+  refundOf?: string | null;
+}, sellerKind?: SellerKind): Promise<{ success: boolean; error?: string }> {
+  const isRefund = !!entry.refundId;
+  // A refund lands on whichever payable account the original sale used
+  const kind = sellerKind || (isRefund && entry.refundOf && db
+    ? await payableKindOfEntry(db, `sale:${entry.refundOf}`)
+    : undefined);
+
+  return postJournalEntry(db, {
+    id: `${isRefund ? 'refund' : 'sale'}:${ledgerId}`,
+    entryType: isRefund ? 'refund' : 'sale',
+    orderId: entry.orderId,
+    reference: isRefund ? entry.refundId : entry.orderNumber,
+    memo: isRefund ? `Refund ${entry.refundId} on ${entry.orderNumber}` : `Sale ${entry.orderNumber}`,
+    postings: saleJournalPostings({
+      grossTotal: entry.grossTotal,
+      stripeFee: entry.stripeFee,
+      paypalFee: entry.paypalFee,
+      freshWaxFee: entry.freshWaxFee,
+      paymentMethod: entry.paymentMethod,
+      sellerId: entry.submitterId || entry.artistId || null,
+      sellerKind: kind,
+    }),
+  });
+}
+
+// Which seller kind an entry's payable lines were posted for (undefined when
+// the entry doesn't exist or has no seller)
+export async function payableKindOfEntry(db: D1Database, entryId: string): Promise<SellerKind | undefined> {
+  const lines = await d1GetJournalLines(db, entryId);
+  const account = lines.find(l => Object.values(PAYABLE_ACCOUNTS).includes(l.account))?.account;
+  return (Object.keys(PAYABLE_ACCOUNTS) as SellerKind[]).find(kind => PAYABLE_ACCOUNTS[kind] === account);
+}
+
+/**
+ * A completed payout: the seller's liability is settled from the processor
+ * (or bank, for payouts recorded by hand). `payoutId` is the transfer /
+ * payout batch / payout doc id, whichever identifies the money movement.
+ */
+export async function postPayoutToJournal(db: D1Database | undefined, payout: {
+  payoutId: string;
+  sellerId: string;
+  sellerKind: SellerKind;
+  amount: number;
+  method: 'stripe' | 'paypal' | 'manual';
+  orderId?: string | null;
+  memo?: string;
+}): Promise<{ success: boolean; error?: string }> {
+  return postJournalEntry(db, {
+    id: `payout:${payout.payoutId}`,
+    entryType: 'payout',
+    orderId: payout.orderId || null,
+    reference: payout.payoutId,
+    memo: payout.memo || `Payout to ${payout.sellerId}`,
+    postings: [
+      { account: PAYABLE_ACCOUNTS[payout.sellerKind], partyId: payout.sellerId, amount: payout.amount, memo: 'payout' },
+      { account: JOURNAL_ACCOUNTS.processorClearing, partyId: payout.method, amount: -payout.amount, memo: 'payout' },
+    ],
+  });
+}
+
+// Stripe withdraws the disputed amount from the platform balance
+export async function postDisputeOpened(db: D1Database | undefined, dispute: {
+  disputeId: string;
+  orderId?: string | null;
+  amount: number;
+}) {
+  return postJournalEntry(db, {
+    id: `dispute:${dispute.disputeId}`,
+    entryType: 'dispute',
+    orderId: dispute.orderId || null,
+    reference: dispute.disputeId,
+    memo: `Dispute ${dispute.disputeId} opened`,
+    postings: [
+      { account: JOURNAL_ACCOUNTS.disputesOutstanding, amount: dispute.amount, memo: 'funds withdrawn' },
+      { account: JOURNAL_ACCOUNTS.processorClearing, partyId: 'stripe', amount: -dispute.amount, memo: 'funds withdrawn' },
+    ],
+  });
+}
+
+// A seller transfer reversed to cover a dispute: the money comes back to the
+// platform and is held against the seller until the outcome is known
+export async function postDisputeRecovery(db: D1Database | undefined, recovery: {
+  disputeId: string;
+  reversalId: string;
+  sellerId: string;
+  sellerKind: SellerKind;
+  amount: number;
+  orderId?: string | null;
+}) {
+  return postJournalEntry(db, {
+    id: `dispute-recovery:${recovery.reversalId}`,
+    entryType: 'dispute_recovery',
+    orderId: recovery.orderId || null,
+    reference: recovery.disputeId,
+    memo: `Transfer reversed for dispute ${recovery.disputeId}`,
+    postings: [
+      { account: JOURNAL_ACCOUNTS.processorClearing, partyId: 'stripe', amount: recovery.amount, memo: 'transfer reversed' },
+      { account: PAYABLE_ACCOUNTS[recovery.sellerKind], partyId: recovery.sellerId, amount: -recovery.amount, memo: 'held for dispute' },
+    ],
+  });
+}
+
+/**
+ * Close out a dispute. Won: Stripe returns the funds (re-transfers to the
+ * sellers post as ordinary payouts). Lost: each seller bears what was
+ * recovered from them and the platform absorbs the rest.
+ */
+export async function postDisputeClosed(db: D1Database | undefined, dispute: {
+  disputeId: string;
+  orderId?: string | null;
+  amount: number;
+  outcome: 'won' | 'lost';
+  recovered: Array<{ sellerId: string; sellerKind: SellerKind; amount: number }>;
+}) {
+  const postings: Posting[] = [];
+  if (dispute.outcome === 'won') {
+    postings.push({ account: JOURNAL_ACCOUNTS.processorClearing, partyId: 'stripe', amount: dispute.amount, memo: 'dispute won' });
+  } else {
+    let recoveredTotal = 0;
+    for (const r of dispute.recovered) {
+      recoveredTotal += r.amount;
+      postings.push({ account: PAYABLE_ACCOUNTS[r.sellerKind], partyId: r.sellerId, amount: r.amount, memo: 'dispute lost' });
+    }
+    postings.push({ account: JOURNAL_ACCOUNTS.disputeLosses, amount: Math.max(0, dispute.amount - recoveredTotal), memo: 'dispute lost' });
+  }
+  postings.push({
+    account: JOURNAL_ACCOUNTS.disputesOutstanding,
+    amount: -postings.reduce((sum, p) => sum + toPence(p.amount), 0) / 100,
+    memo: `dispute ${dispute.outcome}`,
+  });
+
+  return postJournalEntry(db, {
+    id: `dispute-closed:${dispute.disputeId}`,
+    entryType: 'dispute_closed',
+    orderId: dispute.orderId || null,
+    reference: dispute.disputeId,
+    memo: `Dispute ${dispute.disputeId} ${dispute.outcome}`,
+    postings,
+  });
+}
+
+/**
+ * What the platform owes a seller, derived from the journal: credits minus
+ * debits on their payable accounts. Negative means the seller owes the
+ * platform (e.g. a refund after they were paid).
+ */
+export async function getSellerBalance(db: D1Database, sellerId: string): Promise<{
+  balance: number;
+  accounts: Record<string, number>;
+}> {
+  const rows = await d1GetJournalBalances(db, { partyId: sellerId, accounts: Object.values(PAYABLE_ACCOUNTS) });
+  const accounts: Record<string, number> = {};
+  let pence = 0;
+  for (const row of rows) {
+    const net = row.creditPence - row.debitPence;
+    accounts[row.account] = net / 100;
+    pence += net;
+  }
+  return { balance: pence / 100, accounts };
+}
+
+/**
+ * Trial balance: debit and credit totals per account (and party). If the
+ * journal is intact the grand totals are equal.
+ */
+export async function getTrialBalance(db: D1Database, options: { before?: string } = {}): Promise<{
+  accounts: Array<JournalBalance & { debit: number; credit: number; balance: number }>;
+  totalDebit: number;
+  totalCredit: number;
+  balanced: boolean;
+}> {
+  const rows = await d1GetJournalBalances(db, { before: options.before });
+  let debitPence = 0;
+  let creditPence = 0;
+  const accounts = rows.map(row => {
+    debitPence += row.debitPence;
+    creditPence += row.creditPence;
+    return {
+      ...row,
+      debit: row.debitPence / 100,
+      credit: row.creditPence / 100,
+      balance: (row.debitPence - row.creditPence) / 100,
+    };
+  });
+  return {
+    accounts,
+    totalDebit: debitPence / 100,
+    totalCredit: creditPence / 100,
+    balanced: debitPence === creditPence,
+  };
+}
@@ -11,9 +11,22 @@ export { generateOrderNumber, getShortOrderNumber } from './order/utils';
 // Stock reservation system
 export { reserveStock, releaseReservation, convertReservation, cleanupExpiredReservations } from './order/stock-reservation';
 
+// Vinyl waitlist holds
+export type { WaitlistEntry, WaitlistStatus } from './order/waitlist';
+export { joinWaitlist, leaveWaitlist, offerWaitlistHolds, findWaitlistHolds, waitlistHoldCartLine, processVinylWaitlists } from './order/waitlist';
+
 // Stock validation and price verification
 export { validateStock, validateAndGetPrices, processItemsWithDownloads } from './order/stock-validation';
 
+// Discount codes
+export type { AppliedDiscount } from './order/discounts';
+export { applyDiscount } from './order/discounts';
+export { validateDiscountCode } from './order/price-validation';
+
+// Bundles and label packs
+export type { Bundle, BundleRelease, BundleWeighting } from './order/bundles';
+export { expandBundleItems } from './order/bundles';
+
 // Vinyl stock updates and crates processing
 export { updateVinylStock, processVinylCratesOrders } from './order/vinyl-processing';
 
@@ -22,6 +35,8 @@ export { updateMerchStock } from './order/merch-processing';
 
 // Refund logic
 export { refundOrderStock } from './order/refund';
+export type { RefundLineRequest, PlannedRefundLine, LineRefundPlan } from './order/partial-refund';
+export { planLineRefund, planRemainingRefund, settleLineRefund } from './order/partial-refund';
 
 // Email sending
 export { sendOrderConfirmationEmail, sendVinylFulfillmentEmail, sendReleaseVinylSellerEmails, sendDigitalSaleEmails, sendMerchSaleEmails } from './order/emails';
@@ -0,0 +1,187 @@
+// src/lib/order/bundles.ts
+// Digital bundles: several releases sold as one product at a bundle price —
+// a label's back catalogue, or every part of an EP series. Stored in the
+// Firestore `bundles` collection (managed by /api/admin/bundles).
+//
+// A bundle stays ONE cart line through checkout: validateAndGetPrices prices
+// it from the bundle doc and stamps `bundleReleases`. Once paid,
+// expandBundleItems splits the line into one digital line per release,
+// priced by the bundle's weighting, so downloads, the sales ledger and
+// artist payouts handle each part exactly like a normal release purchase.
+
+import { getDocument } from '../firebase-rest';
+import { releaseLabelName } from '../labels';
+import { resolveSplitSheet } from '../split-sheets';
+import type { SplitShare } from '../split-sheets';
+import { log } from './types';
+
+/**
+ * How the bundle price is shared between its releases:
+ * - 'equal'  — the same share each
+ * - 'price'  — in proportion to each release's own digital price
+ * - 'custom' — by the relative weights set on the bundle
+ */
+export type BundleWeighting = 'equal' | 'price' | 'custom';
+
+export interface Bundle {
+  id: string;
+  name: string;
+  description?: string;
+  releaseIds: string[];
+  price: number;                        // GBP for the whole bundle
+  weighting: BundleWeighting;
+  weights?: Record<string, number>;     // 'custom' only, keyed by releaseId
+  labelSlug?: string | null;            // set on label discography packs
+  active: boolean;
+}
+
+/** One release inside a priced bundle line */
+export interface BundleRelease {
+  releaseId: string;
+  title: string;
+  artist: string;
+  submitterId: string | null;           // ledger seller, same lookup as seller-enrichment
+  payoutSplits?: SplitShare[] | null;   // the release's split sheet, booked per payee
+  weight: number;                       // normalised — sums to 1 across the bundle
+}
+
+export function bundleFromDoc(id: string, doc: Record<string, unknown> | null): Bundle | null {
+  if (!doc) return null;
+  const releaseIds = Array.isArray(doc.releaseIds)
+    ? (doc.releaseIds as unknown[]).filter((r): r is string => typeof r === 'string' && !!r)
+    : [];
+  const weighting = doc.weighting === 'price' || doc.weighting === 'custom' ? doc.weighting : 'equal';
+  return {
+    id,
+    name: String(doc.name || 'Bundle'),
+    description: typeof doc.description === 'string' ? doc.description : undefined,
+    releaseIds,
+    price: Number(doc.price) || 0,
+    weighting,
+    weights: (doc.weights && typeof doc.weights === 'object') ? doc.weights as Record<string, number> : undefined,
+    labelSlug: typeof doc.labelSlug === 'string' ? doc.labelSlug : null,
+    active: doc.active !== false,
+  };
+}
+
+/** Fetch a bundle and the release docs it includes (missing releases are dropped) */
+export async function loadBundle(bundleId: string): Promise<{ bundle: Bundle; releases: Record<string, unknown>[] } | null> {
+  const bundle = bundleFromDoc(bundleId, await getDocument('bundles', bundleId));
+  if (!bundle) return null;
+
+  const settled = await Promise.allSettled(bundle.releaseIds.map(id => getDocument('releases', id)));
+  const releases: Record<string, unknown>[] = [];
+  settled.forEach((result, i) => {
+    if (result.status === 'fulfilled' && result.value) {
+      releases.push({ ...result.value, id: bundle.releaseIds[i] });
+    } else {
+      log.warn('[bundles] Release missing from bundle', bundleId, bundle.releaseIds[i]);
+    }
+  });
+  return { bundle, releases };
+}
+
+/**
+ * Each release's share of the bundle under its weighting. `albumPrice` is the
+ * release's own digital price (resolveReleaseDigitalPrices), used by 'price'.
+ * Falls back to equal shares when the weights are all zero.
+ */
+export function resolveBundleReleases(
+  bundle: Bundle,
+  releases: Record<string, unknown>[],
+  albumPrice: (release: Record<string, unknown>) => number
+): BundleRelease[] {
+  const raw = releases.map(release => {
+    const id = String(release.id);
+    if (bundle.weighting === 'price') return Math.max(albumPrice(release), 0);
+    if (bundle.weighting === 'custom') return Math.max(Number(bundle.weights?.[id]) || 0, 0);
+    return 1;
+  });
+  const total = raw.reduce((sum, w) => sum + w, 0);
+
+  return releases.map((release, i) => ({
+    releaseId: String(release.id),
+    title: String(release.releaseName || release.title || 'Release'),
+    artist: String(release.artistName || release.artist || 'Unknown Artist'),
+    submitterId: (release.submitterId || release.uploadedBy || release.userId || release.submittedBy || null) as string | null,
+    payoutSplits: resolveSplitSheet(release),
+    weight: total > 0 ? (raw[i] ?? 0) / total : 1 / releases.length,
+  }));
+}
+
+/** Label fields for discount scoping when every release shares one label */
+export function bundleLabel(releases: Record<string, unknown>[]): { labelAccountId: string | null; labelName: string } | null {
+  if (releases.length === 0) return null;
+  const names = new Set(releases.map(releaseLabelName));
+  if (names.size !== 1) return null;
+  const accounts = new Set(releases.map(r => r.artistId || r.userId || null));
+  return {
+    labelAccountId: accounts.size === 1 ? ([...accounts][0] as string | null) : null,
+    labelName: [...names][0] ?? '',
+  };
+}
+
+/**
+ * Split a unit price across weights in whole pence (largest remainder), so
+ * the parts always add back up to the price exactly.
+ */
+export function splitBundlePrice(price: number, weights: number[]): number[] {
+  const totalPence = Math.round(price * 100);
+  const shares = weights.map((weight, index) => {
+    const exact = totalPence * weight;
+    return { index, pence: Math.floor(exact), remainder: exact - Math.floor(exact) };
+  });
+  let leftover = totalPence - shares.reduce((sum, s) => sum + s.pence, 0);
+  for (const share of [...shares].sort((a, b) => b.remainder - a.remainder)) {
+    if (leftover <= 0) break;
+    share.pence += 1;
+    leftover -= 1;
+  }
+  return shares.map(s => s.pence / 100);
+}
+
+/**
+ * Replace each priced bundle line with one digital line per release. Lines
+ * keep the bundle's quantity; unit prices (and the list price when a discount
+ * code applied) are split by weight. Everything else passes through as-is.
+ */
+export function expandBundleItems<T extends Record<string, unknown>>(items: T[]): T[] {
+  const expanded: T[] = [];
+  for (const item of items) {
+    const parts = item.type === 'bundle' && Array.isArray(item.bundleReleases)
+      ? item.bundleReleases as BundleRelease[]
+      : null;
+    if (!parts || parts.length === 0) {
+      expanded.push(item);
+      continue;
+    }
+
+    const weights = parts.map(part => part.weight);
+    const prices = splitBundlePrice(Number(item.price) || 0, weights);
+    const listPrices = item.preDiscountPrice != null ? splitBundlePrice(Number(item.preDiscountPrice) || 0, weights) : null;
+    // The bundle line has no single artist; payouts resolve each release's own
+    const { bundleReleases: _bundleReleases, preDiscountPrice: _pre, discountPerUnit: _per, artistId: _artistId, ...rest } = item;
+
+    parts.forEach((part, i) => {
+      expanded.push({
+        ...rest,
+        type: 'digital',
+        id: part.releaseId,
+        productId: part.releaseId,
+        releaseId: part.releaseId,
+        name: part.title,
+        title: part.title,
+        artist: part.artist,
+        artistName: part.artist,
+        submitterId: part.submitterId,
+        ...(part.payoutSplits ? { payoutSplits: part.payoutSplits } : {}),
+        price: prices[i],
+        ...(listPrices ? { preDiscountPrice: listPrices[i] } : {}),
+        bundleId: item.bundleId || item.id,
+        bundleName: item.name,
+        bundleShare: part.weight,
+      } as unknown as T);
+    });
+  }
+  return expanded;
+}
@@ -1,15 +1,36 @@
 // src/lib/order/creation.ts
 // Main order creation orchestration
 
-import { addDocument } from '../firebase-rest';
+import { addDocument, updateDocument } from '../firebase-rest';
 import { log } from './types';
 import type { CartItem } from './types';
 import { generateOrderNumber } from './utils';
+import { normaliseCurrency } from '../currency';
 import { processItemsWithDownloads } from './stock-validation';
 import { updateVinylStock, processVinylCratesOrders } from './vinyl-processing';
 import { updateMerchStock } from './merch-processing';
 import { sendOrderConfirmationEmail, sendVinylFulfillmentEmail, sendReleaseVinylSellerEmails, sendDigitalSaleEmails, sendMerchSaleEmails } from './emails';
 import { updateCustomerOrderCount } from './customer';
+import { d1RedeemDiscountCode } from '../d1-catalog';
+import type { AppliedDiscount } from './discounts';
+import { buildVatContext, calculateOrderVat } from './vat';
+import type { VatContext } from './vat';
+import { issueOrderInvoice } from './invoices';
+import { closeAbandonedCarts } from '../abandoned-cart';
+import { assessOrderRisk, recordRiskCheck } from '../fraud';
+import type { OrderRiskInput, RiskAssessment } from '../fraud';
+
+type D1Db = import('@cloudflare/workers-types').D1Database;
+
+export interface CheckoutContext {
+  ip: string | null;
+  userAgent: string | null;
+  sessionId: string | null;
+  // Card / payer identity for fraud velocity checks (lib/fraud.ts)
+  cardFingerprint?: string | null;
+  cardCountry?: string | null;
+  billingCountry?: string | null;
+}
 
 // Main function to create a complete order
 export interface CreateOrderParams {
@@ -40,8 +61,21 @@ export interface CreateOrderParams {
     };
     hasPhysicalItems: boolean;
     paymentMethod: string;
+    // Trade orders on account are placed before they're paid (lib/trade.ts)
+    paymentStatus?: 'completed' | 'awaiting_payment';
     paymentIntentId?: string;
     paypalOrderId?: string;
+    // Buyer's currency when not GBP — totals above are always GBP
+    currency?: string;
+    fxRate?: number;
+    presentmentTotal?: number;
+    // Discount code redeemed at checkout — item prices are already net of it
+    discount?: AppliedDiscount | null;
+    // Buyer's billing country / VAT number; falls back to the delivery country
+    vat?: VatContext | null;
+    // Buyer's IP / browser and the checkout session, kept as dispute evidence.
+    // Orders placed through a checkout are also fraud scored (lib/fraud.ts)
+    checkout?: CheckoutContext | null;
   };
   env: Record<string, unknown>;
   idToken?: string;
@@ -51,6 +85,9 @@ export interface CreateOrderResult {
   success: boolean;
   orderId?: string;
   orderNumber?: string;
+  // High fraud risk: seller emails are held and the caller should park
+  // payouts with holdSellerPayouts instead of paying them
+  held?: boolean;
   error?: string;
 }
 
@@ -72,6 +109,33 @@ export async function createOrder(params: CreateOrderParams): Promise<CreateOrde
       ? new Date(Math.max(...preOrderReleaseDates.map((d: Date) => d.getTime()))).toISOString()
       : null;
 
+    // VAT inside the (VAT-inclusive) prices, per line type and buyer country
+    const vat = calculateOrderVat(
+      { items: itemsWithDownloads, shipping: orderData.totals.shipping },
+      orderData.vat || buildVatContext({ shippingCountry: orderData.shipping?.country })
+    );
+
+    // Score checkout orders for fraud; high-risk ones are held for review
+    let riskInput: OrderRiskInput | null = null;
+    let risk: RiskAssessment | null = null;
+    if (orderData.checkout) {
+      riskInput = {
+        email: orderData.customer.email,
+        userId: orderData.customer.userId || null,
+        ip: orderData.checkout.ip,
+        cardFingerprint: orderData.checkout.cardFingerprint,
+        cardCountry: orderData.checkout.cardCountry,
+        billingCountry: orderData.checkout.billingCountry,
+        shippingCountry: orderData.shipping?.country,
+        items: itemsWithDownloads,
+        total: orderData.totals.total,
+        hasPhysicalItems: orderData.hasPhysicalItems
+      };
+      risk = await assessOrderRisk(env?.DB as D1Db | undefined, riskInput);
+    }
+    const fulfilmentStatus = hasPreOrderItems ? 'awaiting_release' : (orderData.hasPhysicalItems ? 'processing' : 'completed');
+    const status = risk?.hold ? 'on_hold' : fulfilmentStatus;
+
     // Create order document
     const order = {
       orderNumber,
@@ -91,20 +155,35 @@ export async function createOrder(params: CreateOrderParams): Promise<CreateOrde
         freshWaxFee: orderData.totals.freshWaxFee || 0,
         stripeFee: orderData.totals.stripeFee || 0,
         serviceFees: orderData.totals.serviceFees || 0,
+        discount: orderData.discount?.amount || 0,
+        vat: vat.vat,
         total: orderData.totals.total
       },
+      discount: orderData.discount || null,
+      vat,
+      currency: normaliseCurrency(orderData.currency),
+      fxRate: orderData.fxRate || 1,
+      presentmentTotal: orderData.presentmentTotal ?? orderData.totals.total,
       hasPhysicalItems: orderData.hasPhysicalItems,
       hasPreOrderItems,
       preOrderDeliveryDate: latestPreOrderDate,
       paymentMethod: orderData.paymentMethod,
       paymentIntentId: orderData.paymentIntentId || null,
       paypalOrderId: orderData.paypalOrderId || null,
-      paymentStatus: 'completed',
+      paymentStatus: orderData.paymentStatus || 'completed',
+      checkout: orderData.checkout || null,
       // Use both status and orderStatus for compatibility
       // status is used by UI pages and update-order-status API
       // orderStatus is legacy field kept for backward compatibility
-      status: hasPreOrderItems ? 'awaiting_release' : (orderData.hasPhysicalItems ? 'processing' : 'completed'),
-      orderStatus: hasPreOrderItems ? 'awaiting_release' : (orderData.hasPhysicalItems ? 'processing' : 'completed'),
+      status,
+      orderStatus: status,
+      risk: risk ? {
+        score: risk.score,
+        level: risk.level,
+        reasons: risk.reasons,
+        status: risk.hold ? 'held' : 'clear',
+        ...(risk.hold ? { previousStatus: fulfilmentStatus } : {})
+      } : null,
       createdAt: now,
       updatedAt: now
     };
@@ -113,47 +192,47 @@ export async function createOrder(params: CreateOrderParams): Promise<CreateOrde
     const orderRef = await addDocument('orders', order, idToken);
     log.info('[createOrder] Order created:', orderNumber, orderRef.id);
 
+    if (risk && riskInput) {
+      await recordRiskCheck(env?.DB as D1Db | undefined, { orderId: orderRef.id, orderNumber, input: riskInput, assessment: risk });
+      if (risk.hold) log.warn('[createOrder] Order held for fraud review:', orderNumber, risk.score);
+    }
+
+    // Count the code's use only once an order exists for it. A use lost to
+    // a concurrent checkout leaves the paid order standing, flagged for admin
+    if (orderData.discount && env?.DB) {
+      const redeemed = await d1RedeemDiscountCode(env.DB as D1Db, {
+        code: orderData.discount.code,
+        orderId: orderRef.id,
+        customerEmail: orderData.customer.email,
+        customerId: orderData.customer.userId || null,
+        amount: orderData.discount.amount
+      });
+      if (redeemed === 'over_cap') {
+        await updateDocument('orders', orderRef.id, { discount: { ...orderData.discount, overCap: true } }, idToken);
+      }
+    }
+
+    // Number the invoice now so invoice order follows order date; the account
+    // invoice download issues one on demand if D1 was unavailable here
+    if (env?.DB) {
+      await issueOrderInvoice(env.DB as D1Db, orderRef.id, order);
+    }
+
+    // Stop any recovery emails for a basket this order completes
+    await closeAbandonedCarts(order.customer.email, { orderId: orderRef.id, total: order.totals.total });
+
     // Update stock for merch items (includes D1 sync)
     await updateMerchStock(order.items, orderNumber, orderRef.id, idToken, env);
 
     // Update stock for vinyl items
     await updateVinylStock(order.items, orderNumber, orderRef.id, idToken);
 
-    // Process vinyl crates orders (marketplace items from sellers)
-    await processVinylCratesOrders(
-      order.items,
-      orderNumber,
-      orderRef.id,
-      order.customer,
-      order.shipping,
-      env,
-      idToken
-    );
-
     // Send confirmation email
     await sendOrderConfirmationEmail(order, orderRef.id, orderNumber, env);
 
-    // Send vinyl fulfillment email if applicable
-    const vinylItems = order.items.filter((item: CartItem) => item.type === 'vinyl');
-    if (vinylItems.length > 0) {
-      await sendVinylFulfillmentEmail(order, orderRef.id, orderNumber, vinylItems, env);
-      // Labels ship their own release vinyl, so tell the owner too — the
-      // stockist address above is not who posts these.
-      await sendReleaseVinylSellerEmails(order, orderNumber, vinylItems, env);
-    }
-
-    // Send digital sale emails
-    const digitalItems = order.items.filter((item: CartItem) =>
-      item.type === 'track' || item.type === 'digital' || item.type === 'release'
-    );
-    if (digitalItems.length > 0) {
-      await sendDigitalSaleEmails(order, orderNumber, digitalItems, env);
-    }
-
-    // Send merch sale emails
-    const merchItems = order.items.filter((item: CartItem) => item.type === 'merch');
-    if (merchItems.length > 0) {
-      await sendMerchSaleEmails(order, orderNumber, merchItems, env);
+    // Sellers hear about a held order only once it is approved
+    if (!risk?.hold) {
+      await notifyOrderSellers(order, orderRef.id, env, idToken);
     }
 
     // Update customer order count
@@ -164,7 +243,8 @@ export async function createOrder(params: CreateOrderParams): Promise<CreateOrde
     return {
       success: true,
       orderId: orderRef.id,
-      orderNumber
+      orderNumber,
+      held: !!risk?.hold
     };
   } catch (error: unknown) {
     const errorMessage = error instanceof Error ? error.message : 'Unknown error';
@@ -176,3 +256,52 @@ export async function createOrder(params: CreateOrderParams): Promise<CreateOrde
     };
   }
 }
+
+/**
+ * The seller side of a new order: crate listings sold and their sellers told,
+ * the vinyl fulfilment and label emails, and digital / merch sale emails.
+ * Runs when the order is created, or when a held order is approved.
+ */
+export async function notifyOrderSellers(
+  order: Record<string, unknown>,
+  orderId: string,
+  env: Record<string, unknown>,
+  idToken?: string
+): Promise<void> {
+  const items = (order.items || []) as CartItem[];
+  const orderNumber = String(order.orderNumber || '');
+
+  // Process vinyl crates orders (marketplace items from sellers)
+  await processVinylCratesOrders(
+    items,
+    orderNumber,
+    orderId,
+    order.customer as { email: string; firstName: string; lastName: string },
+    (order.shipping || null) as Record<string, unknown> | null,
+    env,
+    idToken
+  );
+
+  // Send vinyl fulfillment email if applicable
+  const vinylItems = items.filter((item: CartItem) => item.type === 'vinyl');
+  if (vinylItems.length > 0) {
+    await sendVinylFulfillmentEmail(order, orderId, orderNumber, vinylItems, env);
+    // Labels ship their own release vinyl, so tell the owner too — the
+    // stockist address above is not who posts these.
+    await sendReleaseVinylSellerEmails(order, orderNumber, vinylItems, env);
+  }
+
+  // Send digital sale emails
+  const digitalItems = items.filter((item: CartItem) =>
+    item.type === 'track' || item.type === 'digital' || item.type === 'release'
+  );
+  if (digitalItems.length > 0) {
+    await sendDigitalSaleEmails(order, orderNumber, digitalItems, env);
+  }
+
+  // Send merch sale emails
+  const merchItems = items.filter((item: CartItem) => item.type === 'merch');
+  if (merchItems.length > 0) {
+    await sendMerchSaleEmails(order, orderNumber, merchItems, env);
+  }
+}
@@ -0,0 +1,163 @@
+// src/lib/order/currency.ts
+// Server-side checkout currency resolution. Picks the buyer's currency
+// (explicit choice → shipping country → GBP) and looks up the locally stored
+// FX rate for it. A currency without a stored rate falls back to GBP rather
+// than guessing — the checkout still works, the buyer just pays in pounds.
+
+import { d1GetFxRate } from '../d1-catalog';
+import { convertFromSettlement, convertToSettlement, currencyForRegion, fromMinorUnits, normaliseCurrency, isSupportedCurrency, SETTLEMENT_CURRENCY, toMinorUnits } from '../currency';
+import type { CurrencyCode } from '../currency';
+import { loadShippingRules, resolveShippingDestination } from './shipping-rules';
+import { log } from './types';
+
+type D1Db = import('@cloudflare/workers-types').D1Database;
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+/** Rates older than this still price checkouts, but are logged for an admin to refresh */
+const FX_RATE_STALE_MS = 7 * 24 * 60 * 60 * 1000;
+
+export interface CheckoutCurrency {
+  currency: CurrencyCode;
+  fxRate: number;              // units of `currency` per £1 (1 for GBP)
+  fxRateUpdatedAt: string | null;
+}
+
+const GBP_CHECKOUT: CheckoutCurrency = { currency: SETTLEMENT_CURRENCY, fxRate: 1, fxRateUpdatedAt: null };
+
+export async function resolveCheckoutCurrency(
+  db: D1Db | undefined,
+  requested: string | null | undefined,
+  country: string | null | undefined
+): Promise<CheckoutCurrency> {
+  let currency: CurrencyCode = SETTLEMENT_CURRENCY;
+  if (isSupportedCurrency(requested)) {
+    currency = normaliseCurrency(requested);
+  } else if (country) {
+    const destination = resolveShippingDestination(country, await loadShippingRules(db));
+    currency = currencyForRegion(destination.region, destination.iso);
+  }
+
+  if (currency === SETTLEMENT_CURRENCY) return GBP_CHECKOUT;
+  if (!db) return GBP_CHECKOUT;
+
+  const stored = await d1GetFxRate(db, currency);
+  if (!stored || !(stored.rate > 0)) {
+    log.warn('[currency] No FX rate stored for', currency, '- charging in GBP');
+    return GBP_CHECKOUT;
+  }
+
+  const updated = Date.parse(stored.updatedAt.replace(' ', 'T') + (stored.updatedAt.endsWith('Z') ? '' : 'Z'));
+  if (Number.isFinite(updated) && Date.now() - updated > FX_RATE_STALE_MS) {
+    log.warn('[currency] FX rate for', currency, 'is stale (updated', stored.updatedAt + ')');
+  }
+
+  return { currency, fxRate: stored.rate, fxRateUpdatedAt: stored.updatedAt || null };
+}
+
+/**
+ * Split a completed Stripe Checkout session into what the buyer paid (in
+ * their currency) and its GBP settlement value. For non-GBP sessions the GBP
+ * total comes from the validated `total` metadata written at session creation
+ * (exact), falling back to converting at the stored rate.
+ */
+export function stripeSessionAmounts(session: {
+  amount_total?: number | null;
+  currency?: string | null;
+  metadata?: Record<string, string> | null;
+}): { amountPaid: number; currency: CurrencyCode; fxRate: number; settlementTotal: number } {
+  const metadata = session.metadata || {};
+  const currency = normaliseCurrency(metadata.currency || session.currency);
+  const amountPaid = fromMinorUnits(session.amount_total || 0, session.currency || currency);
+  if (currency === SETTLEMENT_CURRENCY) {
+    return { amountPaid, currency, fxRate: 1, settlementTotal: amountPaid };
+  }
+  const fxRate = parseFloat(metadata.fx_rate || '') || 1;
+  const metadataTotal = parseFloat(metadata.total || '');
+  const settlementTotal = Number.isFinite(metadataTotal) && metadataTotal > 0
+    ? metadataTotal
+    : convertToSettlement(amountPaid, fxRate);
+  return { amountPaid, currency, fxRate, settlementTotal };
+}
+
+/**
+ * Reconcile a PayPal capture (in the buyer's currency) with the GBP pending
+ * order written at create-order. `expectedCapture` is what PayPal should have
+ * captured; the settlement figures are what the order, ledger and payouts use.
+ */
+export function paypalCaptureAmounts(
+  pendingOrder: { totals?: { total?: number } | null; currency?: string | null; fxRate?: number | null; presentmentTotal?: number | null },
+  capturedAmount: number,
+  capturedFee: number | null
+): { currency: CurrencyCode; fxRate: number; expectedCapture: number; settlementTotal: number; settlementFee: number | null } {
+  const currency = normaliseCurrency(pendingOrder.currency);
+  const expectedGbp = Math.round(Number(pendingOrder.totals?.total ?? 0) * 100) / 100;
+  if (currency === SETTLEMENT_CURRENCY) {
+    return { currency, fxRate: 1, expectedCapture: expectedGbp, settlementTotal: capturedAmount, settlementFee: capturedFee };
+  }
+  const fxRate = pendingOrder.fxRate && pendingOrder.fxRate > 0 ? pendingOrder.fxRate : 1;
+  const expectedCapture = pendingOrder.presentmentTotal ?? convertFromSettlement(expectedGbp, fxRate);
+  // A matching capture settles at exactly the validated GBP total; only a
+  // mismatched one has to be converted back at the stored rate.
+  const settlementTotal = Math.abs(capturedAmount - expectedCapture) <= 0.01
+    ? expectedGbp
+    : convertToSettlement(capturedAmount, fxRate);
+  return {
+    currency,
+    fxRate,
+    expectedCapture,
+    settlementTotal,
+    settlementFee: capturedFee == null ? null : convertToSettlement(capturedFee, fxRate),
+  };
+}
+
+export interface RefundCharge {
+  currency: CurrencyCode;
+  amount: number;       // taken back from the charge, in `currency`
+  minorUnits: number;   // `amount` as the processor wants it
+  refunded: number;     // charge refunded so far including this one, in `currency`
+}
+
+/**
+ * What refunding `amountGbp` of an order takes back from the buyer's charge,
+ * which is in the currency they paid in. The GBP amount converts at the
+ * order's stored rate, capped at what is left of the charge; refunding the
+ * whole GBP balance returns the whole rest of the charge, so rounding never
+ * leaves a cent behind. Orders refunded before refundedPresentmentAmount was
+ * kept work out their earlier refunds at the same rate.
+ *
+ * A line-item refund passes its plan: each unit and the shipping convert on
+ * their own, as convertBasket priced them at checkout, so refunding a line
+ * gives back exactly what was charged for it.
+ */
+export function refundChargeAmount(
+  order: {
+    totals?: { total?: number } | null;
+    currency?: string | null;
+    fxRate?: number | null;
+    presentmentTotal?: number | null;
+    refundedAmount?: number | null;
+    refundedPresentmentAmount?: number | null;
+  },
+  amountGbp: number,
+  plan?: { lines: Array<{ item: { price?: number }; quantity: number }>; shipping: number }
+): RefundCharge {
+  const currency = normaliseCurrency(order.currency);
+  const totalGbp = round2(Number(order.totals?.total ?? 0));
+  const refundedGbp = round2(Number(order.refundedAmount ?? 0));
+  const fxRate = currency === SETTLEMENT_CURRENCY || !order.fxRate || order.fxRate <= 0 ? 1 : order.fxRate;
+
+  const chargeTotal = currency === SETTLEMENT_CURRENCY ? totalGbp : round2(order.presentmentTotal ?? convertFromSettlement(totalGbp, fxRate));
+  const refundedBefore = currency === SETTLEMENT_CURRENCY
+    ? refundedGbp
+    : round2(order.refundedPresentmentAmount ?? convertFromSettlement(refundedGbp, fxRate));
+  const left = Math.max(0, round2(chargeTotal - refundedBefore));
+
+  const converted = plan
+    ? round2(plan.lines.reduce((sum, line) => sum + convertFromSettlement(line.item.price || 0, fxRate) * line.quantity, 0)
+      + convertFromSettlement(plan.shipping, fxRate))
+    : convertFromSettlement(amountGbp, fxRate);
+  const amount = round2(amountGbp) >= round2(totalGbp - refundedGbp) ? left : Math.min(converted, left);
+
+  return { currency, amount, minorUnits: toMinorUnits(amount, currency), refunded: round2(refundedBefore + amount) };
+}
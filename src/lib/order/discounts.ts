@@ -0,0 +1,159 @@
+// src/lib/order/discounts.ts
+// Discount-code evaluation and allocation. Pure — the D1 lookup and the
+// per-customer count live in price-validation.ts (validateDiscountCode).
+//
+// A discount is applied by lowering each eligible line's unit price, so
+// everything downstream that reads item.price (Stripe line items, PayPal
+// amounts, ledger, artist/merch/crate payouts) settles on what the buyer
+// actually paid without knowing discounts exist. The list price is kept on
+// the line as preDiscountPrice for the ledger and order history.
+
+import type { DiscountCode } from '../d1-catalog';
+import { labelSlug } from '../labels';
+
+export interface AppliedDiscount {
+  code: string;
+  campaign: string | null;
+  type: DiscountCode['type'];
+  scope: DiscountCode['scope'];
+  amount: number;                 // GBP taken off the subtotal
+}
+
+interface DiscountableItem {
+  price?: number;
+  quantity?: number;
+  type?: string;
+  id?: string;
+  releaseId?: string;
+  productId?: string;
+  labelAccountId?: string | null;
+  labelName?: string;
+  supplierId?: string | null;
+  sellerId?: string | null;
+  preDiscountPrice?: number;
+  discountPerUnit?: number;
+  [key: string]: unknown;
+}
+
+const toPence = (amount: number) => Math.round(amount * 100);
+
+export function normaliseDiscountCode(code: unknown): string {
+  return typeof code === 'string' ? code.trim().toUpperCase() : '';
+}
+
+/** Whether one basket line falls inside the code's scope */
+export function isDiscountEligible(item: DiscountableItem, code: Pick<DiscountCode, 'scope' | 'scopeIds'>): boolean {
+  if (code.scope === 'order') return true;
+  const ids = new Set(code.scopeIds);
+  const isCrate = item.type === 'vinyl' && !!item.sellerId && !item.releaseId;
+
+  if (code.scope === 'release') {
+    if (item.type === 'merch' || isCrate) return false;
+    const releaseId = item.releaseId || item.productId || item.id;
+    return !!releaseId && ids.has(releaseId);
+  }
+  if (code.scope === 'label') {
+    // A label is the account that owns the release, or its label name slug.
+    // Both are stamped from the release doc during price validation.
+    if (item.type === 'merch' || isCrate) return false;
+    return (!!item.labelAccountId && ids.has(item.labelAccountId)) ||
+      (!!item.labelName && ids.has(labelSlug(item.labelName)));
+  }
+  // supplier: merch suppliers and crate sellers
+  const supplierId = item.type === 'merch' ? item.supplierId : isCrate ? item.sellerId : null;
+  return !!supplierId && ids.has(supplierId);
+}
+
+/**
+ * Check a code against the basket (list prices) and return why it can't be
+ * used, or null when it can. `customerRedemptions` is how many earlier
+ * orders this buyer placed with it.
+ */
+export function checkDiscountCode(
+  code: DiscountCode,
+  items: DiscountableItem[],
+  options: { now?: Date; customerRedemptions?: number } = {}
+): string | null {
+  const now = (options.now || new Date()).getTime();
+
+  if (!code.active) return 'This discount code is no longer active';
+  if (code.startsAt && Date.parse(code.startsAt) > now) return 'This discount code is not active yet';
+  if (code.endsAt && Date.parse(code.endsAt) <= now) return 'This discount code has expired';
+  if (code.maxUses != null && code.usedCount >= code.maxUses) return 'This discount code has been fully redeemed';
+  if (code.maxUsesPerCustomer != null && (options.customerRedemptions || 0) >= code.maxUsesPerCustomer) {
+    return 'You have already used this discount code';
+  }
+
+  const basketPence = items.reduce((sum, item) => sum + toPence(item.price || 0) * (item.quantity || 1), 0);
+  if (code.minBasket > 0 && basketPence < toPence(code.minBasket)) {
+    return `Spend £${code.minBasket.toFixed(2)} or more to use this code`;
+  }
+  if (!items.some(item => (item.price || 0) > 0 && isDiscountEligible(item, code))) {
+    return 'This discount code does not apply to any items in your basket';
+  }
+  return null;
+}
+
+/**
+ * Apply a validated code to the basket in place. The discount is shared
+ * across eligible lines by value, per unit, in whole pence (largest
+ * remainder), so Σ price × quantity drops by exactly the returned amount —
+ * which can sit a few pence under the nominal discount when quantities don't
+ * divide it evenly. Returns null when nothing was taken off.
+ */
+export function applyDiscount(items: DiscountableItem[], code: DiscountCode): AppliedDiscount | null {
+  const eligible = items.filter(item => (item.price || 0) > 0 && isDiscountEligible(item, code));
+  const eligiblePence = eligible.reduce((sum, item) => sum + toPence(item.price || 0) * (item.quantity || 1), 0);
+  if (!eligiblePence) return null;
+
+  const targetPence = code.type === 'percentage'
+    ? Math.round(eligiblePence * Math.min(Math.max(code.amount, 0), 100) / 100)
+    : Math.min(toPence(Math.max(code.amount, 0)), eligiblePence);
+  if (!targetPence) return null;
+
+  // Floor each line's per-unit share, then hand leftover pence out one unit's
+  // worth at a time to the lines with the largest fractional remainder
+  const shares = eligible.map(item => {
+    const unitPence = toPence(item.price || 0);
+    const exact = targetPence * unitPence / eligiblePence;
+    const perUnit = Math.min(Math.floor(exact), unitPence);
+    return { item, unitPence, perUnit, remainder: exact - perUnit, qty: item.quantity || 1 };
+  });
+  let leftover = targetPence - shares.reduce((sum, s) => sum + s.perUnit * s.qty, 0);
+  for (const share of [...shares].sort((a, b) => b.remainder - a.remainder)) {
+    if (leftover >= share.qty && share.perUnit < share.unitPence) {
+      share.perUnit += 1;
+      leftover -= share.qty;
+    }
+  }
+
+  let appliedPence = 0;
+  for (const { item, unitPence, perUnit, qty } of shares) {
+    if (!perUnit) continue;
+    item.preDiscountPrice = unitPence / 100;
+    item.discountPerUnit = perUnit / 100;
+    item.price = (unitPence - perUnit) / 100;
+    appliedPence += perUnit * qty;
+  }
+
+  return {
+    code: code.code,
+    campaign: code.campaign,
+    type: code.type,
+    scope: code.scope,
+    amount: appliedPence / 100,
+  };
+}
+
+/** Rebuild the applied discount from Stripe session metadata (null when none) */
+export function discountFromMetadata(metadata: Record<string, string | undefined>): AppliedDiscount | null {
+  const amount = parseFloat(metadata.discount || '') || 0;
+  if (!metadata.discount_code || amount <= 0) return null;
+  return {
+    code: metadata.discount_code,
+    campaign: metadata.discount_campaign || null,
+    type: metadata.discount_type === 'fixed' ? 'fixed' : 'percentage',
+    scope: (metadata.discount_scope as DiscountCode['scope']) || 'order',
+    amount,
+  };
+}
@@ -3,6 +3,7 @@
 // Extracted from create-order.ts (pure extraction, zero behavior changes)
 
 import { updateDocument, getDocument } from '../firebase-rest';
+import { resolveSplitSheet } from '../split-sheets';
 import { fetchWithTimeout, createLogger, maskEmail } from '../api-utils';
 import { buildOrderConfirmationEmail, buildStockistFulfillmentEmail, buildDigitalSaleEmail, buildMerchSaleEmail } from './create-order-emails';
 import type { OrderItem } from './create-order-emails';
@@ -16,6 +17,8 @@ interface SendOrderEmailsParams {
   orderRefId: string;
   orderNumber: string;
   env: Record<string, unknown>;
+  // Only the buyer's confirmation — the order is held for fraud review
+  customerOnly?: boolean;
 }
 
 /**
@@ -24,7 +27,7 @@ interface SendOrderEmailsParams {
  * Also marks vinyl crates listings as sold.
  * Errors are logged but never fail the order.
  */
-export async function sendOrderEmails({ order, orderRefId, orderNumber, env }: SendOrderEmailsParams): Promise<void> {
+export async function sendOrderEmails({ order, orderRefId, orderNumber, env, customerOnly }: SendOrderEmailsParams): Promise<void> {
   // Send confirmation email directly
   try {
     const RESEND_API_KEY = env?.RESEND_API_KEY || import.meta.env.RESEND_API_KEY;
@@ -70,6 +73,8 @@ export async function sendOrderEmails({ order, orderRefId, orderNumber, env }: S
     // Don't fail the order if email fails
   }
 
+  if (customerOnly) return;
+
   // Send fulfillment email for vinyl orders. Originally there was one shared
   // stockist address; now we group by artistEmail so each artist/label gets
   // their own fulfillment email with the buyer's shipping address (matches the
@@ -154,7 +159,7 @@ export async function sendOrderEmails({ order, orderRefId, orderNumber, env }: S
   // Send notification emails to digital payees (artists / labels).
   // Resolved using the same logic as processArtistPayments so we always
   // notify everyone who'll get money from the order:
-  //   - For releases with a `payoutSplits` array, every recipient.
+  //   - For releases (or tracks) with a split sheet, every payee.
   //   - Otherwise, the release.artistId account.
   // The email lists the specific track/release titles tied to the
   // recipient's payouts (so a 50/50 split release shows up on both
@@ -183,14 +188,10 @@ export async function sendOrderEmails({ order, orderRefId, orderNumber, env }: S
           if (!releaseId) continue;
           const release = releaseMap.get(releaseId) as Record<string, unknown> | undefined;
           if (!release) continue;
-          const splits = (release.payoutSplits as Array<{ artistId?: unknown; percentage?: unknown }> | undefined);
+          const splits = resolveSplitSheet(release, item.type === 'track' ? item.trackId : undefined);
           const recipients: string[] = [];
-          if (Array.isArray(splits) && splits.length > 0) {
-            for (const s of splits) {
-              if (typeof s.artistId === 'string' && typeof s.percentage === 'number' && s.percentage > 0) {
-                recipients.push(s.artistId);
-              }
-            }
+          if (splits) {
+            for (const s of splits) recipients.push(s.artistId);
           } else {
             const aid = (item.artistId || (release as { artistId?: string; userId?: string }).artistId || (release as { artistId?: string; userId?: string }).userId) as string | undefined;
             if (aid) recipients.push(aid);
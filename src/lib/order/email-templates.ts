@@ -3,10 +3,24 @@
 
 import { escapeHtml } from '../api-utils';
 import { formatPrice } from '../format-utils';
+import { formatMoney, SETTLEMENT_CURRENCY } from '../currency';
 import { SITE_URL } from '../constants';
 import type { CartItem } from './types';
 
 export function buildOrderConfirmationEmail(orderId: string, orderNumber: string, order: Record<string, unknown>): string {
+  // Buyers paying in EUR/USD see what their card was actually charged
+  const chargedRow = order.currency && order.currency !== SETTLEMENT_CURRENCY && order.presentmentTotal != null
+    ? '<tr><td style="color: #6b7280; padding: 4px 0; font-size: 13px;">Charged in ' + escapeHtml(String(order.currency)) + '</td>' +
+      '<td style="color: #111; text-align: right; padding: 4px 0; font-size: 13px;">' + formatMoney(Number(order.presentmentTotal), String(order.currency)) + '</td></tr>'
+    : '';
+
+  // Prices include VAT — show how much (order.vat, lib/order/vat.ts)
+  const vatTotal = Number(order.totals?.vat) || 0;
+  const vatRow = vatTotal > 0
+    ? '<tr><td style="color: #6b7280; padding: 4px 0; font-size: 13px;">Includes VAT</td>' +
+      '<td style="color: #6b7280; text-align: right; padding: 4px 0; font-size: 13px;">' + formatPrice(vatTotal) + '</td></tr>'
+    : '';
+
   // Build items HTML - only show image for merch items
   let itemsHtml = '';
   for (const item of order.items) {
@@ -85,6 +99,8 @@ export function buildOrderConfirmationEmail(orderId: string, orderNumber: string
     '<tr><td colspan="2" style="border-top: 2px solid #dc2626; padding-top: 12px;"></td></tr>' +
     '<tr><td style="color: #111; font-weight: 700; font-size: 16px; padding: 4px 0;">Total</td>' +
     '<td style="color: #dc2626; font-weight: 700; font-size: 20px; text-align: right; padding: 4px 0;">' + formatPrice(order.totals.total) + '</td></tr>' +
+    vatRow +
+    chargedRow +
     '</table></td></tr>' +
     '<tr><td style="height: 24px;"></td></tr>' +
     shippingSection +
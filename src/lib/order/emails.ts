@@ -5,6 +5,7 @@ import { formatPrice } from '../format-utils';
 import { SITE_URL } from '../constants';
 import { sendResendEmail } from '../email';
 import { getDocument } from '../firebase-rest';
+import { resolveSplitSheet } from '../split-sheets';
 import { sendVinylOrderSellerEmail } from '../vinyl-order-emails';
 import { log } from './types';
 import type { CartItem } from './types';
@@ -158,8 +159,8 @@ export async function sendReleaseVinylSellerEmails(
 // Resolve which artist/label emails should be notified for each digital item.
 // Cart items never carry artistEmail in practice, so this mirrors the payout
 // path's payee resolution: item.artistId || release.artistId || release.userId,
-// fanned out across release.payoutSplits when present (both owners of a split
-// EP get notified). An item with a cart-provided artistEmail keeps it.
+// fanned out across the release's (or sold track's) split sheet when present
+// (both owners of a split EP get notified). An item with a cart-provided artistEmail keeps it.
 export async function groupDigitalItemsByArtistEmail(
   digitalItems: CartItem[],
   fetchDoc: (collection: string, id: string) => Promise<Record<string, unknown> | null> = getDocument
@@ -186,9 +187,7 @@ export async function groupDigitalItemsByArtistEmail(
     const release = releaseCache[releaseId];
 
     // Same uid resolution as seller-payments; splits fan out to every listed owner.
-    const splits = Array.isArray(release?.payoutSplits)
-      ? (release!.payoutSplits as Array<{ artistId?: unknown }>).map((s) => s?.artistId).filter((a): a is string => typeof a === 'string' && a.length > 0)
-      : [];
+    const splits = (resolveSplitSheet(release, item.type === 'track' ? item.trackId : undefined) || []).map((s) => s.artistId);
     const uids = splits.length > 0
       ? [...new Set(splits)]
       : [item.artistId || release?.artistId || release?.userId].filter((a): a is string => typeof a === 'string' && a.length > 0);
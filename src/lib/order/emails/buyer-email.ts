@@ -109,6 +109,7 @@ export function buildOrderConfirmationEmail(orderId: string, orderNumber: string
     '<tr><td colspan="2" style="border-top: 2px solid #dc2626; padding-top: 12px;"></td></tr>' +
     '<tr><td style="color: #111; font-weight: 700; font-size: 16px; padding: 4px 0;">Total</td>' +
     '<td style="color: #dc2626; font-weight: 700; font-size: 20px; text-align: right; padding: 4px 0;">' + formatPrice(order.totals.total) + '</td></tr>' +
+    (order.totals.vat ? '<tr><td style="color: #6b7280; padding: 4px 0; font-size: 13px;">Includes VAT</td><td style="color: #6b7280; text-align: right; padding: 4px 0; font-size: 13px;">' + formatPrice(order.totals.vat) + '</td></tr>' : '') +
     '</table></td></tr>' +
 
     // Spacing
@@ -0,0 +1,328 @@
+// src/lib/order/invoices.ts
+// Invoices for orders: sequentially numbered in D1 (d1IssueInvoice) and
+// rendered from the order's VAT breakdown as HTML (account pages) or PDF
+// (download). Nothing is stored as a file — an invoice is re-rendered from
+// the order each time, so it always matches what the order recorded.
+
+import { escapeHtml } from '../escape-html';
+import { formatDateLong } from '../format-utils';
+import { formatMoney, SETTLEMENT_CURRENCY } from '../currency';
+import { SITE_URL } from '../constants';
+import { A4, buildPdf } from '../pdf';
+import type { PdfPage, PdfText } from '../pdf';
+import { d1GetInvoiceByOrder, d1IssueInvoice } from '../d1-catalog';
+import type { InvoiceRecord } from '../d1-catalog';
+import { buildVatContext, calculateOrderVat, vatTreatmentLabel } from './vat';
+import type { OrderVat, VatLine, VatRateSummary } from './vat';
+import type { CartItem } from './types';
+
+type D1Db = import('@cloudflare/workers-types').D1Database;
+
+export interface InvoiceSeller {
+  name: string;
+  address: string[];
+  vatNumber: string | null;
+  email: string;
+}
+
+export interface InvoiceDocument {
+  number: string;
+  title: string;                  // 'VAT Invoice' once we print a VAT number
+  issuedAt: string;
+  taxPoint: string;               // date of supply = when the order was paid
+  orderNumber: string;
+  seller: InvoiceSeller;
+  buyer: { name: string; email: string; country: string; vatNumber: string | null; address: string[] };
+  lines: Array<VatLine & { unitPrice: number }>;
+  byRate: VatRateSummary[];
+  discount: number;
+  net: number;
+  vat: number;
+  gross: number;
+  charged: string | null;         // "€23.40" when the buyer paid in EUR/USD
+  notes: string[];
+}
+
+/** Our own details, from the environment so they can change without a deploy */
+export function invoiceSellerFromEnv(env: Record<string, unknown> | undefined): InvoiceSeller {
+  const fallback = (import.meta.env || {}) as unknown as Record<string, string | undefined>;
+  const read = (key: string) => String(env?.[key] || fallback[key] || '').trim();
+  return {
+    name: read('INVOICE_BUSINESS_NAME') || 'Fresh Wax',
+    address: read('INVOICE_ADDRESS').split(/\n|\|/).map(line => line.trim()).filter(Boolean),
+    vatNumber: read('VAT_REGISTRATION_NUMBER') || null,
+    email: 'contact@freshwax.co.uk',
+  };
+}
+
+export function formatInvoiceNumber(invoiceNumber: number): string {
+  return `FW-INV-${String(invoiceNumber).padStart(6, '0')}`;
+}
+
+/**
+ * The order's VAT breakdown. Orders placed before VAT was recorded are
+ * worked out the same way from their items and delivery country.
+ */
+export function orderVat(order: Record<string, unknown>): OrderVat {
+  const stored = order.vat as OrderVat | undefined;
+  if (stored && Array.isArray(stored.lines)) return stored;
+  const shipping = order.shipping as { country?: string } | null | undefined;
+  const totals = order.totals as { shipping?: number } | undefined;
+  return calculateOrderVat(
+    { items: (order.items as CartItem[]) || [], shipping: Number(totals?.shipping) || 0 },
+    buildVatContext({ shippingCountry: shipping?.country })
+  );
+}
+
+/** Get the order's invoice number, issuing the next one if it has none yet */
+export async function issueOrderInvoice(
+  db: D1Db,
+  orderId: string,
+  order: Record<string, unknown>
+): Promise<InvoiceRecord | null> {
+  const existing = await d1GetInvoiceByOrder(db, orderId);
+  if (existing) return existing;
+
+  const vat = orderVat(order);
+  const customer = (order.customer || {}) as { email?: string; userId?: string | null };
+  return d1IssueInvoice(db, {
+    orderId,
+    orderNumber: (order.orderNumber as string) || null,
+    customerId: customer.userId || null,
+    customerEmail: customer.email || null,
+    buyerCountry: vat.context.country,
+    buyerVatNumber: vat.context.vatNumber,
+    net: vat.net,
+    vat: vat.vat,
+    gross: vat.gross,
+    currency: SETTLEMENT_CURRENCY,
+    taxPoint: (order.createdAt as string) || new Date().toISOString(),
+  });
+}
+
+// D1 datetime('now') has no zone marker — it is UTC
+function isoDate(value: string): string {
+  return /^\d{4}-\d{2}-\d{2} \d/.test(value) ? value.replace(' ', 'T') + 'Z' : value;
+}
+
+export function buildInvoiceDocument(
+  order: Record<string, unknown>,
+  record: InvoiceRecord,
+  seller: InvoiceSeller
+): InvoiceDocument {
+  const vat = orderVat(order);
+  const customer = (order.customer || {}) as { firstName?: string; lastName?: string; email?: string };
+  const shipping = order.shipping as { address1?: string; address2?: string; city?: string; postcode?: string; country?: string } | null;
+  const totals = (order.totals || {}) as { discount?: number };
+  const currency = String(order.currency || SETTLEMENT_CURRENCY);
+
+  const notes: string[] = [];
+  for (const group of vat.byRate) {
+    if (group.treatment === 'uk') continue;
+    const note = group.treatment === 'reverse_charge'
+      ? `${vatTreatmentLabel(group.treatment, group.country)} (Article 196, Council Directive 2006/112/EC).`
+      : group.treatment === 'oss'
+        ? `VAT charged at the ${group.country} rate of ${group.rate}% and declared through the One Stop Shop.`
+        : `${vatTreatmentLabel(group.treatment, group.country)}.`;
+    if (!notes.includes(note)) notes.push(note);
+  }
+  if (Number(totals.discount) > 0) {
+    notes.push('Prices shown are after the discount code applied to this order.');
+  }
+
+  return {
+    number: formatInvoiceNumber(record.invoiceNumber),
+    title: seller.vatNumber ? 'VAT Invoice' : 'Invoice',
+    issuedAt: isoDate(record.issuedAt),
+    taxPoint: record.taxPoint || (order.createdAt as string) || record.issuedAt,
+    orderNumber: String(order.orderNumber || record.orderNumber || ''),
+    seller,
+    buyer: {
+      name: `${customer.firstName || ''} ${customer.lastName || ''}`.trim() || 'Customer',
+      email: customer.email || '',
+      country: vat.context.country,
+      vatNumber: vat.context.vatNumber,
+      address: shipping
+        ? [shipping.address1, shipping.address2, [shipping.city, shipping.postcode].filter(Boolean).join(' '), shipping.country]
+            .filter((line): line is string => !!line)
+        : [],
+    },
+    lines: vat.lines.map(line => ({ ...line, unitPrice: Math.round((line.gross / (line.quantity || 1)) * 100) / 100 })),
+    byRate: vat.byRate,
+    discount: Number(totals.discount) || 0,
+    net: vat.net,
+    vat: vat.vat,
+    gross: vat.gross,
+    charged: currency !== SETTLEMENT_CURRENCY && order.presentmentTotal != null
+      ? formatMoney(Number(order.presentmentTotal), currency)
+      : null,
+    notes,
+  };
+}
+
+const money = (amount: number) => formatMoney(amount, SETTLEMENT_CURRENCY);
+const rateLabel = (group: { rate: number; treatment: VatRateSummary['treatment']; country: string }) =>
+  group.rate > 0 ? `${group.rate}%` : (group.treatment === 'reverse_charge' ? 'RC' : '0%');
+
+export function renderInvoiceHtml(invoice: InvoiceDocument): string {
+  const cell = 'padding: 8px 6px; border-bottom: 1px solid #e5e7eb;';
+  const num = cell + ' text-align: right; white-space: nowrap;';
+
+  const rows = invoice.lines.map(line =>
+    '<tr>' +
+    `<td style="${cell}">${escapeHtml(line.description)}</td>` +
+    `<td style="${num}">${line.quantity}</td>` +
+    `<td style="${num}">${money(line.unitPrice)}</td>` +
+    `<td style="${num}">${rateLabel(line)}</td>` +
+    `<td style="${num}">${money(line.net)}</td>` +
+    `<td style="${num}">${money(line.vat)}</td>` +
+    `<td style="${num}">${money(line.gross)}</td>` +
+    '</tr>'
+  ).join('');
+
+  const rateRows = invoice.byRate.map(group =>
+    `<tr><td style="padding: 4px 6px; color: #6b7280;">${escapeHtml(vatTreatmentLabel(group.treatment, group.country))} ${rateLabel(group)}` +
+    ` on ${money(group.net)}</td><td style="padding: 4px 6px; text-align: right;">${money(group.vat)}</td></tr>`
+  ).join('');
+
+  const lines = (values: string[]) => values.map(v => escapeHtml(v)).join('<br>');
+
+  return '<!DOCTYPE html><html><head><meta charset="utf-8"><meta name="viewport" content="width=device-width, initial-scale=1.0">' +
+    `<title>${escapeHtml(invoice.title)} ${escapeHtml(invoice.number)}</title></head>` +
+    '<body style="margin: 0; padding: 32px 16px; background: #f3f4f6; font-family: -apple-system, BlinkMacSystemFont, Segoe UI, Roboto, Helvetica Neue, Arial, sans-serif; color: #111;">' +
+    '<div style="max-width: 760px; margin: 0 auto; background: #fff; padding: 32px; border-radius: 12px;">' +
+
+    '<table width="100%" cellpadding="0" cellspacing="0"><tr>' +
+    '<td style="vertical-align: top;"><div style="font-size: 24px; font-weight: 800;">FRESH <span style="color: #dc2626;">WAX</span></div>' +
+    `<div style="font-size: 13px; color: #374151; margin-top: 8px; line-height: 1.5;">${lines([invoice.seller.name, ...invoice.seller.address, invoice.seller.email])}` +
+    (invoice.seller.vatNumber ? `<br>VAT reg. no. ${escapeHtml(invoice.seller.vatNumber)}` : '') + '</div></td>' +
+    '<td style="vertical-align: top; text-align: right;">' +
+    `<div style="font-size: 22px; font-weight: 700;">${escapeHtml(invoice.title)}</div>` +
+    `<div style="font-size: 13px; color: #374151; margin-top: 8px; line-height: 1.5;">Invoice no. <strong>${escapeHtml(invoice.number)}</strong><br>` +
+    `Invoice date: ${formatDateLong(invoice.issuedAt)}<br>Tax point: ${formatDateLong(invoice.taxPoint)}<br>` +
+    `Order: ${escapeHtml(invoice.orderNumber)}</div></td>` +
+    '</tr></table>' +
+
+    '<div style="margin: 24px 0; font-size: 13px; line-height: 1.5;"><div style="font-weight: 700; text-transform: uppercase; font-size: 12px; color: #6b7280;">Bill to</div>' +
+    lines([invoice.buyer.name, ...invoice.buyer.address, invoice.buyer.email]) +
+    `<br>Country: ${escapeHtml(invoice.buyer.country)}` +
+    (invoice.buyer.vatNumber ? `<br>VAT no. ${escapeHtml(invoice.buyer.vatNumber)}` : '') + '</div>' +
+
+    '<table width="100%" cellpadding="0" cellspacing="0" style="font-size: 13px; border-collapse: collapse;">' +
+    '<tr style="background: #f9fafb; font-weight: 600;">' +
+    `<td style="${cell}">Description</td><td style="${num}">Qty</td><td style="${num}">Unit price</td>` +
+    `<td style="${num}">VAT rate</td><td style="${num}">Net</td><td style="${num}">VAT</td><td style="${num}">Total</td></tr>` +
+    rows + '</table>' +
+
+    '<table width="100%" cellpadding="0" cellspacing="0" style="font-size: 13px; margin-top: 16px;">' +
+    `<tr><td style="padding: 4px 6px;">Total net</td><td style="padding: 4px 6px; text-align: right;">${money(invoice.net)}</td></tr>` +
+    rateRows +
+    `<tr><td style="padding: 4px 6px;">Total VAT</td><td style="padding: 4px 6px; text-align: right;">${money(invoice.vat)}</td></tr>` +
+    `<tr><td style="padding: 8px 6px; font-weight: 700; font-size: 16px; border-top: 2px solid #dc2626;">Total paid</td>` +
+    `<td style="padding: 8px 6px; font-weight: 700; font-size: 16px; text-align: right; border-top: 2px solid #dc2626;">${money(invoice.gross)}</td></tr>` +
+    (invoice.charged ? `<tr><td style="padding: 4px 6px; color: #6b7280;">Charged to your card</td><td style="padding: 4px 6px; text-align: right; color: #6b7280;">${escapeHtml(invoice.charged)}</td></tr>` : '') +
+    '</table>' +
+
+    (invoice.notes.length > 0
+      ? `<div style="margin-top: 24px; font-size: 12px; color: #6b7280; line-height: 1.6;">${lines(invoice.notes)}</div>`
+      : '') +
+    `<div style="margin-top: 24px; font-size: 12px; color: #9ca3af;">${escapeHtml(SITE_URL.replace('https://', ''))}</div>` +
+    '</div></body></html>';
+}
+
+export function renderInvoicePdf(invoice: InvoiceDocument): Uint8Array {
+  const left = 50;
+  const right = A4.width - 50;
+  const pages: PdfPage[] = [];
+  let page: PdfPage = { texts: [], rules: [] };
+  let y = A4.height - 60;
+
+  const text = (x: number, value: string, opts: Partial<PdfText> = {}) =>
+    page.texts.push({ x, y, text: value, size: 9, ...opts });
+  const rule = (width = 0.5) => page.rules?.push({ x1: left, y1: y, x2: right, y2: y, width });
+  const newPage = () => {
+    pages.push(page);
+    page = { texts: [], rules: [] };
+    y = A4.height - 60;
+  };
+  const ensureSpace = (needed: number) => { if (y - needed < 60) newPage(); };
+
+  // Header: us on the left, invoice details on the right
+  text(left, 'FRESH WAX', { size: 18, bold: true });
+  text(right, invoice.title, { size: 16, bold: true, align: 'right' });
+  y -= 22;
+  const sellerLines = [invoice.seller.name, ...invoice.seller.address, invoice.seller.email,
+    ...(invoice.seller.vatNumber ? [`VAT reg. no. ${invoice.seller.vatNumber}`] : [])];
+  const detailLines = [`Invoice no. ${invoice.number}`, `Invoice date: ${formatDateLong(invoice.issuedAt)}`,
+    `Tax point: ${formatDateLong(invoice.taxPoint)}`, `Order: ${invoice.orderNumber}`];
+  for (let i = 0; i < Math.max(sellerLines.length, detailLines.length); i++) {
+    if (sellerLines[i]) text(left, sellerLines[i] ?? '');
+    if (detailLines[i]) text(right, detailLines[i] ?? '', { align: 'right' });
+    y -= 13;
+  }
+
+  y -= 12;
+  text(left, 'BILL TO', { bold: true, size: 8 });
+  y -= 13;
+  for (const line of [invoice.buyer.name, ...invoice.buyer.address, invoice.buyer.email, `Country: ${invoice.buyer.country}`,
+    ...(invoice.buyer.vatNumber ? [`VAT no. ${invoice.buyer.vatNumber}`] : [])]) {
+    text(left, line);
+    y -= 13;
+  }
+
+  // Line items
+  const cols = { qty: 330, unit: 385, rate: 425, net: 475, vat: 515, total: right };
+  const header = () => {
+    y -= 10;
+    text(left, 'Description', { bold: true });
+    text(cols.qty, 'Qty', { bold: true, align: 'right' });
+    text(cols.unit, 'Unit', { bold: true, align: 'right' });
+    text(cols.rate, 'Rate', { bold: true, align: 'right' });
+    text(cols.net, 'Net', { bold: true, align: 'right' });
+    text(cols.vat, 'VAT', { bold: true, align: 'right' });
+    text(cols.total, 'Total', { bold: true, align: 'right' });
+    y -= 6;
+    rule();
+    y -= 13;
+  };
+  header();
+  for (const line of invoice.lines) {
+    if (y < 80) { newPage(); header(); }
+    const description = line.description.length > 48 ? line.description.slice(0, 47) + '…' : line.description;
+    text(left, description);
+    text(cols.qty, String(line.quantity), { align: 'right' });
+    text(cols.unit, money(line.unitPrice), { align: 'right' });
+    text(cols.rate, rateLabel(line), { align: 'right' });
+    text(cols.net, money(line.net), { align: 'right' });
+    text(cols.vat, money(line.vat), { align: 'right' });
+    text(cols.total, money(line.gross), { align: 'right' });
+    y -= 14;
+  }
+
+  // Totals
+  ensureSpace(40 + invoice.byRate.length * 13 + invoice.notes.length * 12);
+  y += 8;
+  rule();
+  y -= 14;
+  const totalRow = (label: string, value: string, bold = false) => {
+    text(cols.vat - 90, label, { bold, align: 'right' });
+    text(right, value, { bold, align: 'right' });
+    y -= 13;
+  };
+  totalRow('Total net', money(invoice.net));
+  for (const group of invoice.byRate) {
+    totalRow(`VAT ${rateLabel(group)} (${group.country})`, money(group.vat));
+  }
+  totalRow('Total VAT', money(invoice.vat));
+  totalRow('Total paid', money(invoice.gross), true);
+  if (invoice.charged) totalRow('Charged to your card', invoice.charged);
+
+  y -= 10;
+  for (const note of invoice.notes) {
+    text(left, note, { size: 8 });
+    y -= 12;
+  }
+
+  pages.push(page);
+  return buildPdf(pages, { title: `${invoice.title} ${invoice.number}` });
+}
@@ -0,0 +1,228 @@
+// src/lib/order/partial-refund.ts
+// Line-item refunds: refund some quantity of some order lines, optionally
+// with shipping, and unwind everything the sale booked for them — stock (per
+// line, when the goods come back), the sales ledger, brand royalties and the
+// artist payout, including any of it that went to recoup an advance.
+
+import { atomicIncrement } from '../firebase-rest';
+import { d1GetRoyaltiesByOrder, d1RecordRoyalty } from '../d1-catalog';
+import { recordRefundEntries } from '../sales-ledger';
+import { artistRefundShares, clawBackArtistPayouts } from './seller-payments/clawbacks';
+import type { ClawbackResult } from './seller-payments/clawbacks';
+import { reverseAdvanceRecoupments } from '../advances';
+import { refundOrderStock } from './refund';
+import { log } from './types';
+import type { CartItem } from './types';
+
+type D1Database = import('@cloudflare/workers-types').D1Database;
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+export interface RefundLineRequest {
+  id: string;           // the line's id, releaseId or productId
+  quantity?: number;    // defaults to everything not yet refunded
+  restock?: boolean;    // defaults to true for vinyl and merch
+}
+
+export interface PlannedRefundLine {
+  index: number;        // position in order.items
+  item: CartItem;
+  quantity: number;
+  restock: boolean;
+  amount: number;
+}
+
+export interface LineRefundPlan {
+  lines: PlannedRefundLine[];
+  shipping: number;
+  amount: number;
+  // Order fields after this refund: refunded quantity per line index
+  refundedQuantities: Record<string, number>;
+  shippingRefunded: boolean;
+}
+
+const isPhysical = (item: CartItem) => item.type === 'vinyl' || item.type === 'merch';
+
+/**
+ * Work out what refunding `requests` (and optionally shipping) on an order
+ * comes to. Quantities already refunded on earlier partial refunds are
+ * tracked on the order, so a line can't be refunded twice.
+ */
+export function planLineRefund(
+  order: Record<string, unknown>,
+  requests: RefundLineRequest[],
+  options: { refundShipping?: boolean } = {}
+): { plan?: LineRefundPlan; error?: string } {
+  const items = (order.items || []) as CartItem[];
+  const refundedQuantities: Record<string, number> = { ...((order.refundedQuantities || {}) as Record<string, number>) };
+  const lines: PlannedRefundLine[] = [];
+
+  for (const request of requests) {
+    const remaining = (index: number) => ((items[index]?.quantity || 1) - (refundedQuantities[index] || 0));
+    const index = items.findIndex((item, i) =>
+      [item.id, item.releaseId, item.productId].includes(request.id) && remaining(i) > 0
+    );
+    const item = items[index];
+    if (!item) {
+      return { error: `No refundable line for item ${request.id}` };
+    }
+
+    const quantity = request.quantity ?? remaining(index);
+    if (!Number.isInteger(quantity) || quantity < 1 || quantity > remaining(index)) {
+      return { error: `Invalid quantity for ${item.name || request.id}: ${remaining(index)} left to refund` };
+    }
+
+    refundedQuantities[index] = (refundedQuantities[index] || 0) + quantity;
+    lines.push({
+      index,
+      item,
+      quantity,
+      restock: isPhysical(item) && request.restock !== false,
+      amount: round2((item.price || 0) * quantity),
+    });
+  }
+
+  const totals = (order.totals || {}) as Record<string, number>;
+  const shipping = options.refundShipping && !order.shippingRefunded ? round2(totals.shipping || 0) : 0;
+  const amount = round2(lines.reduce((sum, line) => sum + line.amount, 0) + shipping);
+  if (amount <= 0) {
+    return { error: 'Nothing to refund' };
+  }
+
+  return {
+    plan: {
+      lines,
+      shipping,
+      amount,
+      refundedQuantities,
+      shippingRefunded: !!order.shippingRefunded || shipping > 0,
+    },
+  };
+}
+
+/** Every line not yet refunded, restocked, plus shipping — a full refund. */
+export function planRemainingRefund(order: Record<string, unknown>): { plan?: LineRefundPlan; error?: string } {
+  const refunded = (order.refundedQuantities || {}) as Record<string, number>;
+  const requests = ((order.items || []) as CartItem[])
+    .map((item, i) => ({ id: item.id || item.releaseId || item.productId || '', quantity: (item.quantity || 1) - (refunded[i] || 0) }))
+    .filter(r => r.id && r.quantity > 0);
+  return planLineRefund(order, requests, { refundShipping: true });
+}
+
+// Negative royalty rows for refunded brand merch, pending so they net off
+// the brand's next royalty run
+async function reverseMerchRoyalties(
+  db: D1Database,
+  orderId: string,
+  refundId: string,
+  lines: PlannedRefundLine[]
+): Promise<number> {
+  const merch = lines.filter(line => line.item.type === 'merch');
+  if (merch.length === 0) return 0;
+
+  const royalties = (await d1GetRoyaltiesByOrder(db, orderId)).filter(r => Number(r.quantity) > 0);
+  let reversed = 0;
+
+  for (const line of merch) {
+    const itemId = line.item.productId || line.item.id || '';
+    const royalty = royalties.find(r => r.item_id === itemId);
+    if (!royalty) continue;
+
+    const perUnit = (field: string) => (Number(royalty[field]) || 0) / (Number(royalty.quantity) || 1);
+    const royaltyAmount = round2(perUnit('royalty_amount') * line.quantity);
+    await d1RecordRoyalty(db, {
+      id: `roy_${orderId}_${itemId}_${refundId}`,
+      orderId,
+      brandAccountId: (royalty.brand_account_id as string) || undefined,
+      brandName: String(royalty.brand_name || ''),
+      itemId,
+      itemName: String(royalty.item_name || line.item.name || 'Item'),
+      quantity: -line.quantity,
+      saleTotal: -round2(perUnit('sale_total') * line.quantity),
+      royaltyPct: Number(royalty.royalty_pct) || 0,
+      royaltyAmount: -royaltyAmount,
+      freshwaxAmount: -round2(perUnit('freshwax_amount') * line.quantity),
+    });
+
+    if (royalty.brand_account_id) {
+      try {
+        await atomicIncrement('merch-suppliers', String(royalty.brand_account_id), { pendingBalance: -royaltyAmount });
+      } catch (e: unknown) {
+        log.error('[partial-refund] Failed to reduce brand pending balance:', e);
+      }
+    }
+    reversed++;
+  }
+  return reversed;
+}
+
+/**
+ * Book a refund the payment provider has already made. Each step runs on its
+ * own: the money has gone back, so one failing must not stop the rest.
+ */
+export async function settleLineRefund(params: {
+  orderId: string;
+  order: Record<string, unknown>;
+  plan: LineRefundPlan;
+  refundId: string;
+  env?: Record<string, unknown>;
+}): Promise<{
+  failedRefunds: Array<{ item: string; type: string; error: string }>;
+  ledgerIds: string[];
+  clawbacks: ClawbackResult[];
+}> {
+  const { orderId, order, plan, refundId, env } = params;
+  const orderNumber = String(order.orderNumber || orderId);
+  const db = env?.DB as D1Database | undefined;
+  const refundedItems = plan.lines.map(line => ({ ...line.item, quantity: line.quantity }));
+  const result = {
+    failedRefunds: [] as Array<{ item: string; type: string; error: string }>,
+    ledgerIds: [] as string[],
+    clawbacks: [] as ClawbackResult[],
+  };
+
+  const restock = plan.lines.filter(line => line.restock).map(line => ({ ...line.item, quantity: line.quantity }));
+  if (restock.length > 0) {
+    try {
+      result.failedRefunds = (await refundOrderStock(orderId, restock, orderNumber, undefined, env)).failedRefunds;
+    } catch (e: unknown) {
+      log.error('[partial-refund] Stock restore error:', e);
+    }
+  }
+
+  const ledger = await recordRefundEntries({
+    orderId,
+    refundId,
+    items: refundedItems.map(item => ({ ...item, price: item.price || 0 })),
+    refundShipping: plan.shipping > 0,
+    db,
+  });
+  result.ledgerIds = ledger.ledgerIds || [];
+
+  if (db) {
+    try {
+      await reverseMerchRoyalties(db, orderId, refundId, plan.lines);
+    } catch (e: unknown) {
+      log.error('[partial-refund] Royalty reversal error:', e);
+    }
+  }
+
+  try {
+    const shares = await artistRefundShares(
+      (order.items || []) as Record<string, unknown>[],
+      refundedItems as Record<string, unknown>[]
+    );
+    result.clawbacks = await clawBackArtistPayouts({
+      orderId,
+      orderNumber,
+      refundId,
+      shares,
+      refundShipping: plan.shipping > 0,
+    });
+    await reverseAdvanceRecoupments(db, { orderId, refundId, shares });
+  } catch (e: unknown) {
+    log.error('[partial-refund] Payout clawback error:', e);
+  }
+
+  return result;
+}
@@ -2,8 +2,12 @@
 // Helper functions extracted from capture-order.ts
 // — merch royalty processing, ledger recording enrichment, credit deduction
 
-import { getDocument, addDocument, updateDocument, atomicIncrement, arrayUnion } from '../firebase-rest';
+import { getDocument, addDocument, atomicIncrement } from '../firebase-rest';
 import { createLogger } from '../api-utils';
+import { spendWallet } from '../wallet';
+import type { D1Database } from '../d1/types';
+import { resolveSplitSheet } from '../split-sheets';
+import type { SplitShare } from '../split-sheets';
 
 const log = createLogger('[paypal-capture]');
 
@@ -194,14 +198,16 @@ export async function enrichItemsForLedger(
     let submitterId = null;
     let submitterEmail = null;
     let artistName = item.artist || item.artistName || null;
+    let payoutSplits: SplitShare[] | null = null;
 
-    // Look up release to get submitter info
+    // Look up release to get submitter info (and the split sheet, booked per payee)
     if (releaseId && (item.type === 'digital' || item.type === 'release' || item.type === 'track' || item.releaseId)) {
       const release = ledgerReleaseMap.get(releaseId as string);
       if (release) {
         submitterId = release.submitterId || release.uploadedBy || release.userId || release.submittedBy || null;
         submitterEmail = release.email || release.submitterEmail || release.metadata?.email || null;
         artistName = release.artistName || release.artist || artistName;
+        payoutSplits = resolveSplitSheet(release, item.type === 'track' ? item.trackId : undefined);
       }
     }
 
@@ -242,7 +248,8 @@ export async function enrichItemsForLedger(
       ...item,
       submitterId,
       submitterEmail,
-      artistName
+      artistName,
+      ...(payoutSplits ? { payoutSplits } : {})
     };
   });
 }
@@ -251,55 +258,25 @@ export async function enrichItemsForLedger(
 // CREDIT DEDUCTION
 // ============================================
 
-// Deduct applied credit from user's balance atomically
+// Deduct applied credit from the user's wallet, once per order
 export async function deductAppliedCredit(params: {
+  db: D1Database | undefined;
   userId: string;
   appliedCredit: number;
   orderId: string;
   orderNumber?: string;
 }) {
-  const { userId, appliedCredit, orderId, orderNumber } = params;
-
-  try {
-    const creditData = await getDocument('userCredits', userId);
-    if (creditData && creditData.balance >= appliedCredit) {
-      const now = new Date().toISOString();
-
-      // Atomically decrement the balance to prevent race conditions
-      await atomicIncrement('userCredits', userId, { balance: -appliedCredit });
-
-      // Create transaction record (append separately)
-      const transactionId = `txn_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
-      const newBalance = creditData.balance - appliedCredit;
-      const transaction = {
-        id: transactionId,
-        type: 'purchase',
-        amount: -appliedCredit,
-        description: `Applied to order ${orderNumber || orderId}`,
-        orderId,
-        orderNumber,
-        createdAt: now,
-        balanceAfter: newBalance
-      };
-
-      // Update userCredits transactions + users document in parallel (different documents)
-      await Promise.all([
-        // Atomic arrayUnion prevents lost transactions under concurrent writes
-        arrayUnion('userCredits', userId, 'transactions', [transaction], {
-          lastUpdated: now
-        }),
-        // Update user document — atomicIncrement + updateDocument must be sequential
-        // (same document) but can run in parallel with the arrayUnion above
-        atomicIncrement('users', userId, { creditBalance: -appliedCredit })
-          .then(() => updateDocument('users', userId, { creditUpdatedAt: now }))
-      ]);
-
-      // Credit deducted atomically
-    } else {
-      log.warn('[PayPal] Insufficient credit balance for deduction');
-    }
-  } catch (creditErr: unknown) {
-    log.error('[PayPal] Failed to deduct credit:', creditErr);
+  const { db, userId, appliedCredit, orderId, orderNumber } = params;
+
+  const result = await spendWallet(db, {
+    userId,
+    amount: appliedCredit,
+    id: `spend:${orderId}`,
+    description: `Applied to order ${orderNumber || orderId}`,
+    orderId,
+  });
+  if (!result.success) {
+    log.error('[PayPal] Failed to deduct credit:', result.error);
     // Don't fail the order, just log the error
   }
 }
@@ -5,6 +5,14 @@
 import { getDocument } from '../firebase-rest';
 import { createLogger } from '../api-utils';
 import { resolveReleaseDigitalPrices } from './stock-validation';
+import { resolveShippingBand } from './shipping-rules';
+import { releaseLabelName } from '../labels';
+import { d1GetDiscountCode, d1CountCustomerRedemptions } from '../d1-catalog';
+import type { DiscountCode } from '../d1-catalog';
+import { checkDiscountCode, normaliseDiscountCode } from './discounts';
+import { loadBundle, resolveBundleReleases, bundleLabel } from './bundles';
+
+type D1Db = import('@cloudflare/workers-types').D1Database;
 
 const log = createLogger('create-order');
 
@@ -96,6 +104,19 @@ export async function validateOrderPrices(items: Record<string, unknown>[]): Pro
           return { validatedItems: [], serverSubtotal: 0, hasMismatch: true, validationError: `Product not found: ${item.name}` };
         }
         serverPrice = product.salePrice || product.retailPrice || product.price || item.price;
+        extraFields.supplierId = product.supplierId || null;
+      } else if (itemType === 'bundle') {
+        const bundleId = (item.bundleId || item.productId || item.id) as string;
+        const loaded = bundleId ? await loadBundle(bundleId) : null;
+        if (!loaded || !loaded.bundle.active || loaded.bundle.price <= 0 || loaded.releases.length === 0) {
+          return { validatedItems: [], serverSubtotal: 0, hasMismatch: true, validationError: `Product not found: ${item.name}` };
+        }
+        serverPrice = loaded.bundle.price;
+        extraFields.bundleId = bundleId;
+        extraFields.bundleReleases = resolveBundleReleases(
+          loaded.bundle, loaded.releases, release => resolveReleaseDigitalPrices(release).albumPrice
+        );
+        Object.assign(extraFields, bundleLabel(loaded.releases));
       } else if (itemType === 'vinyl') {
         if (item.sellerId && !item.releaseId) {
           // Vinyl crates item
@@ -111,6 +132,7 @@ export async function validateOrderPrices(items: Record<string, unknown>[]): Pro
             // crate sum/payout read) as well as the legacy shippingCost.
             extraFields.shippingCost = listing.shippingCost ?? null;
             extraFields.cratesShippingCost = listing.shippingCost ?? 0;
+            extraFields.shippingBand = resolveShippingBand('vinyl', listing);
           }
         } else {
           const releaseId = item.releaseId || item.productId || item.id;
@@ -119,12 +141,16 @@ export async function validateOrderPrices(items: Record<string, unknown>[]): Pro
             if (!release) {
               return { validatedItems: [], serverSubtotal: 0, hasMismatch: true, validationError: `Product not found: ${item.name}` };
             }
+            // Label-scoped discount codes match on these (never the client's)
+            extraFields.labelAccountId = release.artistId || release.userId || null;
+            extraFields.labelName = releaseLabelName(release);
             serverPrice = release.vinylPrice || release.price || item.price;
             // Pull server-side shipping rates from release
             extraFields.serverVinylShippingUK = release.vinylShippingUK ?? null;
             extraFields.serverVinylShippingEU = release.vinylShippingEU ?? null;
             extraFields.serverVinylShippingIntl = release.vinylShippingIntl ?? null;
             extraFields.serverVinylShippingAdditional = release.vinylShippingAdditional ?? null;
+            extraFields.shippingBand = resolveShippingBand('vinyl', release);
             // Fetch artist-level shipping defaults as fallback
             const artistId = item.artistId || release.artistId;
             if (artistId) {
@@ -146,6 +172,8 @@ export async function validateOrderPrices(items: Record<string, unknown>[]): Pro
           if (!release) {
             return { validatedItems: [], serverSubtotal: 0, hasMismatch: true, validationError: `Product not found: ${item.name}` };
           }
+          extraFields.labelAccountId = release.artistId || release.userId || null;
+          extraFields.labelName = releaseLabelName(release);
           const track = (release.tracks || []).find((t: TrackData) =>
             t.id === item.trackId || t.trackId === item.trackId
           );
@@ -159,6 +187,8 @@ export async function validateOrderPrices(items: Record<string, unknown>[]): Pro
           if (!release) {
             return { validatedItems: [], serverSubtotal: 0, hasMismatch: true, validationError: `Product not found: ${item.name}` };
           }
+          extraFields.labelAccountId = release.artistId || release.userId || null;
+          extraFields.labelName = releaseLabelName(release);
           // `pricePerSale` is the real digital price; `price`/`digitalPrice`
           // are null on every release, so reading only those rejected every
           // legitimate full-album purchase through this endpoint.
@@ -187,3 +217,39 @@ export async function validateOrderPrices(items: Record<string, unknown>[]): Pro
 
   return { validatedItems, serverSubtotal: Math.round(serverSubtotal * 100) / 100, hasMismatch };
 }
+
+export interface DiscountValidationResult {
+  discountCode: DiscountCode | null;
+  validationError?: string;
+}
+
+// Validate a buyer-entered discount code against the server-priced basket.
+// Run before shipping/totals; apply the returned code with applyDiscount
+// (lib/order/discounts.ts) once shipping has been priced on list prices.
+export async function validateDiscountCode(
+  db: D1Db | undefined,
+  code: unknown,
+  items: Record<string, unknown>[],
+  customer: { email?: string | null; userId?: string | null } = {}
+): Promise<DiscountValidationResult> {
+  const normalised = normaliseDiscountCode(code);
+  if (!normalised) return { discountCode: null };
+  if (!db) {
+    return { discountCode: null, validationError: 'Discount codes are temporarily unavailable' };
+  }
+
+  const discountCode = await d1GetDiscountCode(db, normalised);
+  if (!discountCode) {
+    return { discountCode: null, validationError: 'Discount code not recognised' };
+  }
+
+  const customerRedemptions = discountCode.maxUsesPerCustomer != null
+    ? await d1CountCustomerRedemptions(db, normalised, customer)
+    : 0;
+  const error = checkDiscountCode(discountCode, items, { customerRedemptions });
+  if (error) {
+    log.info('[create-order] Discount code', normalised, 'rejected:', error);
+    return { discountCode: null, validationError: error };
+  }
+  return { discountCode };
+}
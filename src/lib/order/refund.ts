@@ -10,6 +10,7 @@ import type { CartItem, VariantStockEntry } from './types';
 export async function refundOrderStock(orderId: string, items: CartItem[], orderNumber: string, idToken?: string, env?: Record<string, unknown>): Promise<{ failedRefunds: Array<{ item: string; type: string; error: string }> }> {
   const now = new Date().toISOString();
   const failedRefunds: Array<{ item: string; type: string; error: string }> = [];
+  const restockedReleaseIds = new Set<string>();
 
   // Batch fetch merch products and releases to avoid N+1 queries
   const merchIds = [...new Set(items.filter(i => i.type === 'merch' && i.productId).map(i => i.productId!))];
@@ -161,6 +162,7 @@ export async function refundOrderStock(orderId: string, items: CartItem[], order
           }, idToken);
 
           log.info('[order-utils] ✓ Vinyl stock refunded:', item.name, previousStock, '->', newStock);
+          restockedReleaseIds.add(String(releaseId));
         }
       } catch (refundErr: unknown) {
         log.error('[order-utils] Vinyl refund error:', refundErr);
@@ -190,6 +192,14 @@ export async function refundOrderStock(orderId: string, items: CartItem[], order
     }
   }
 
+  // Returned copies go to the front of the vinyl waitlist before anyone else
+  if (restockedReleaseIds.size > 0) {
+    const { offerWaitlistHolds } = await import('./waitlist');
+    for (const releaseId of restockedReleaseIds) {
+      await offerWaitlistHolds(releaseId, env);
+    }
+  }
+
   // Report any failed refunds
   if (failedRefunds.length > 0) {
     log.error('[order-utils] CRITICAL: Failed to refund', failedRefunds.length, 'item(s) for order', orderNumber, ':', JSON.stringify(failedRefunds));
@@ -5,7 +5,15 @@ import { getDocument, addDocument, updateDocument, atomicIncrement } from '../..
 import { createLogger } from '../../api-utils';
 import { logError } from '../../error-logger';
 import { attemptInstantArtistTransfer } from './instant-transfer';
+import { applyPayoutClawbacks } from './clawbacks';
+import { recoupAdvances } from '../../advances';
 import { getProcessingFee } from './types';
+import { expandBundleItems } from '../bundles';
+import { resolveSplitSheet } from '../../split-sheets';
+import { SCHEDULED_STATUS, usesPayoutSchedule } from '../../payout-schedule';
+import { canReceivePayouts, syncPayoutState } from '../../payout-verification';
+import type { SplitShare } from '../../split-sheets';
+import type { D1Database } from '../../d1/types';
 import type { SellerPaymentParams } from './types';
 
 const log = createLogger('[seller-payments]');
@@ -34,10 +42,24 @@ async function logPayoutSkip(
   }, ctx.env as Parameters<typeof logError>[1]);
 }
 
+/**
+ * The split sheet for a sale of the release, or of one of its tracks when
+ * `trackId` is given ({ artistId, percentage } summing to 100), or null when
+ * it should fall back to the single-artist behaviour. See lib/split-sheets.
+ */
+export function getPayoutSplits(
+  release: Record<string, unknown> | undefined,
+  trackId?: unknown
+): SplitShare[] | null {
+  return resolveSplitSheet(release, trackId);
+}
+
 // Process artist payments - creates pending payouts for manual review
 // NOTE: Automatic payouts disabled - all payouts are manual for now
 export async function processArtistPayments(params: SellerPaymentParams) {
-  const { orderId, orderNumber, items, totalItemCount, orderSubtotal, paymentMethod, actualProcessingFee, artistShippingBreakdown } = params;
+  const { orderId, orderNumber, totalItemCount, orderSubtotal, paymentMethod, actualProcessingFee, artistShippingBreakdown } = params;
+  // Bundles pay each included release's artist their weighted slice
+  const items = expandBundleItems(params.items);
   const prefix = params.logPrefix || '[PayPal]';
   // Sellers bear the REAL processor fee when the caller provides it (from
   // the capture/balance-transaction response); fall back to the
@@ -47,17 +69,20 @@ export async function processArtistPayments(params: SellerPaymentParams) {
     : getProcessingFee(orderSubtotal, paymentMethod);
 
   try {
-    // Group items by artist. When a release defines `payoutSplits` (array of
-    // { artistId, percentage } summing to 100), the artist share for that
-    // release's items is fanned out across multiple recipients instead of
+    // Group items by artist. When a release (or the sold track) has a split
+    // sheet (array of { artistId, percentage } summing to 100), the artist
+    // share for that item is fanned out across multiple recipients instead of
     // routed wholesale to release.artistId. Used for split-ownership EPs
-    // like Code One & Bakkus 'Jungle Disorder' (50/50 across two accounts).
+    // like Code One & Bakkus 'Jungle Disorder' (50/50 across two accounts),
+    // collabs, and remixers paid on their own track.
     const artistPayments: Record<string, {
       artistId: string;
       artistName: string;
       artistEmail: string;
       amount: number;
       shippingAmount?: number;
+      // Item share per release, for recouping release advances
+      earnings: Record<string, number>;
       items: string[];
     }> = {};
 
@@ -78,25 +103,6 @@ export async function processArtistPayments(params: SellerPaymentParams) {
     );
     const releaseMap = new Map(releaseEntries.filter(([, doc]) => doc));
 
-    // Helper: read & validate a release's split config, or return null when
-    // it should fall back to the single-artist behaviour.
-    const getSplits = (release: Record<string, unknown> | undefined): Array<{ artistId: string; percentage: number }> | null => {
-      const raw = (release as { payoutSplits?: unknown } | undefined)?.payoutSplits;
-      if (!Array.isArray(raw) || raw.length === 0) return null;
-      const cleaned = raw
-        .map((s) => s as { artistId?: unknown; percentage?: unknown })
-        .filter((s) => typeof s.artistId === 'string' && typeof s.percentage === 'number' && s.percentage > 0)
-        .map((s) => ({ artistId: s.artistId as string, percentage: s.percentage as number }));
-      if (cleaned.length === 0) return null;
-      const total = cleaned.reduce((sum, s) => sum + s.percentage, 0);
-      // Allow tiny rounding errors but reject anything that's clearly wrong
-      if (Math.abs(total - 100) > 0.01) {
-        log.warn(`${prefix} payoutSplits don't sum to 100 (got ${total}); falling back to single-artist routing`);
-        return null;
-      }
-      return cleaned;
-    };
-
     // Collect unique artist IDs from resolved releases (including split recipients)
     const artistIds = new Set<string>();
     for (const item of items) {
@@ -105,7 +111,7 @@ export async function processArtistPayments(params: SellerPaymentParams) {
       if (!releaseId) continue;
       const release = releaseMap.get(releaseId as string);
       if (!release) continue;
-      const splits = getSplits(release);
+      const splits = getPayoutSplits(release, item.type === 'track' ? item.trackId : undefined);
       if (splits) {
         for (const s of splits) artistIds.add(s.artistId);
       } else {
@@ -147,13 +153,14 @@ export async function processArtistPayments(params: SellerPaymentParams) {
       // 1% Fresh Wax fee
       const freshWaxFee = itemTotal * 0.01;
       // Processing fee depends on payment method (Stripe 1.4%+20p / PayPal 2.9%+30p),
-      // computed once for the whole order then split equally per item.
-      const processingFeePerSeller = totalProcessingFeeForOrder / totalItemCount;
+      // computed once for the whole order then split equally per item. A
+      // bundle counts as one item, so its releases split that item's fee.
+      const processingFeePerSeller = (totalProcessingFeeForOrder / totalItemCount) * (item.bundleShare != null ? Number(item.bundleShare) : 1);
       const artistShare = itemTotal - freshWaxFee - processingFeePerSeller;
 
       // Build the recipient list — either explicit splits from the release
       // doc or a single-recipient list using the release's artistId.
-      const splits = getSplits(release);
+      const splits = getPayoutSplits(release, item.type === 'track' ? item.trackId : undefined);
       const recipients = splits
         ? splits.map((s) => ({ artistId: s.artistId, share: artistShare * (s.percentage / 100) }))
         : (() => {
@@ -178,9 +185,12 @@ export async function processArtistPayments(params: SellerPaymentParams) {
             artistName: artist?.artistName || release.artistName || release.artist || 'Unknown Artist',
             artistEmail: artist?.email || release.artistEmail || '',
             amount: 0,
+            earnings: {},
             items: []
           };
         }
+        const earnings = artistPayments[recipient.artistId].earnings;
+        earnings[releaseId as string] = (earnings[releaseId as string] || 0) + recipient.share;
         artistPayments[recipient.artistId].amount += recipient.share;
         artistPayments[recipient.artistId].items.push(itemLabel);
       }
@@ -203,17 +213,39 @@ export async function processArtistPayments(params: SellerPaymentParams) {
       const payment = artistPayments[artistId];
       if (payment.amount <= 0) continue;
 
+      const itemAmount = payment.amount - (payment.shippingAmount || 0);
+      // Refunds against payouts this artist was already sent come off first
+      const { amount: afterClawbacks, clawedBack } = await applyPayoutClawbacks(payment.artistId, payment.amount);
+      if (afterClawbacks <= 0) continue;
+
+      // Then unrecouped advances, from the item share only — postage is
+      // always passed on (lib/advances.ts)
+      const { recouped: advanceRecouped } = await recoupAdvances(params.env?.DB as D1Database | undefined, {
+        artistId: payment.artistId,
+        orderId,
+        earnings: payment.earnings,
+        limit: Math.min(itemAmount, afterClawbacks),
+      });
+      const amount = afterClawbacks - advanceRecouped;
+      if (amount <= 0) continue;
+
+      // Artists on a weekly / monthly payout schedule accrue the sale for
+      // cron/scheduled-payouts instead (lib/payout-schedule.ts).
+      const scheduled = usesPayoutSchedule(artistMap.get(artistId));
+
       // Artists with an ACTIVE Stripe Connect account are paid at sale time.
       // On any failure this returns false and we fall through to the normal
       // pending payout, which the activation hook / manual flow picks up.
-      const transferred = await attemptInstantArtistTransfer({
+      const transferred = !scheduled && await attemptInstantArtistTransfer({
         artist: artistMap.get(artistId) ?? null,
         artistId: payment.artistId,
         artistName: payment.artistName,
         artistEmail: payment.artistEmail,
-        amount: payment.amount,
-        itemAmount: payment.amount - (payment.shippingAmount || 0),
+        amount,
+        itemAmount,
         shippingAmount: payment.shippingAmount || 0,
+        clawbackDeducted: clawedBack,
+        advanceRecouped,
         orderId,
         orderNumber,
         customerPaymentMethod: paymentMethod || 'paypal',
@@ -231,11 +263,13 @@ export async function processArtistPayments(params: SellerPaymentParams) {
         artistEmail: payment.artistEmail,
         orderId,
         orderNumber,
-        amount: payment.amount,
-        itemAmount: payment.amount - (payment.shippingAmount || 0),
+        amount,
+        itemAmount,
         shippingAmount: payment.shippingAmount || 0,
+        clawbackDeducted: clawedBack,
+        ...(advanceRecouped > 0 ? { advanceRecouped } : {}),
         currency: 'gbp',
-        status: 'pending',
+        status: scheduled ? SCHEDULED_STATUS : 'pending',
         customerPaymentMethod: paymentMethod || 'paypal',
         createdAt: new Date().toISOString(),
         updatedAt: new Date().toISOString()
@@ -244,7 +278,7 @@ export async function processArtistPayments(params: SellerPaymentParams) {
       // Update artist's pending balance atomically
       try {
         await atomicIncrement('artists', payment.artistId, {
-          pendingBalance: payment.amount,
+          pendingBalance: amount,
         });
         await updateDocument('artists', payment.artistId, {
           updatedAt: new Date().toISOString()
@@ -253,6 +287,17 @@ export async function processArtistPayments(params: SellerPaymentParams) {
         log.warn(`${prefix} Could not update artist pending balance`);
       }
 
+      // Earning while they can't be paid: tell them before the balance builds up
+      const artistDoc = artistMap.get(artistId);
+      if (!canReceivePayouts(artistDoc)) {
+        await syncPayoutState(params.env, 'artist', artistId, {
+          source: 'earnings',
+          entity: artistDoc,
+          pendingBalance: (Number(artistDoc?.pendingBalance) || 0) + amount,
+          warn: true,
+        });
+      }
+
       // Pending payout created
     }
   } catch (error: unknown) {
@@ -0,0 +1,220 @@
+// src/lib/order/seller-payments/clawbacks.ts
+// Artist payout clawbacks for refunded order lines.
+// A refund reduces the artist's payout for that order while it is still
+// unpaid. Once the money has been sent (instant transfer, or a pending payout
+// already completed) the refunded share becomes an outstanding clawback in
+// `payoutClawbacks`, which applyPayoutClawbacks nets off the artist's next
+// sale payout.
+
+import { getDocumentsBatch, queryCollection, addDocument, updateDocument, atomicIncrement } from '../../firebase-rest';
+import { createLogger } from '../../api-utils';
+import { expandBundleItems } from '../bundles';
+import { getPayoutSplits } from './artist-payments';
+
+const log = createLogger('[payout-clawbacks]');
+
+export const CLAWBACK_COLLECTION = 'payoutClawbacks';
+
+// pendingPayouts statuses where no money has left yet
+const UNPAID_STATUSES = new Set(['pending', 'scheduled', 'retry_pending', 'awaiting_connect', 'failed', 'failed_permanent']);
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+type RefundItem = Record<string, unknown> & { price?: number; quantity?: number };
+
+/**
+ * Share of each artist's item payout for the order that the refunded lines
+ * account for, keyed by artistId. Lines are attributed the same way
+ * processArtistPayments pays them (split sheet, else the release artist),
+ * weighted by line value.
+ */
+export async function artistRefundShares(
+  orderItems: RefundItem[],
+  refundedItems: RefundItem[]
+): Promise<Map<string, number>> {
+  const ordered = expandBundleItems(orderItems as Parameters<typeof expandBundleItems>[0]) as RefundItem[];
+  const refunded = expandBundleItems(refundedItems as Parameters<typeof expandBundleItems>[0]) as RefundItem[];
+
+  // Merch goes to suppliers and crate listings to their sellers, not artists
+  const isArtistLine = (item: RefundItem) =>
+    item.type !== 'merch' && !(item.sellerId && !item.releaseId) && !!(item.releaseId || item.id);
+
+  const releaseIds = [...new Set(ordered.filter(isArtistLine).map(item => String(item.releaseId || item.id)))];
+  const releases = releaseIds.length > 0 ? await getDocumentsBatch('releases', releaseIds) : new Map();
+
+  const tally = (items: RefundItem[]) => {
+    const byArtist = new Map<string, number>();
+    for (const item of items.filter(isArtistLine)) {
+      const release = releases.get(String(item.releaseId || item.id));
+      if (!release) continue;
+      const value = (Number(item.price) || 0) * (Number(item.quantity) || 1);
+      const splits = getPayoutSplits(release, item.type === 'track' ? item.trackId : undefined);
+      const artistId = (item.artistId || release.artistId || release.userId) as string | undefined;
+      const recipients = splits || (artistId ? [{ artistId, percentage: 100 }] : []);
+      for (const r of recipients) {
+        byArtist.set(r.artistId, (byArtist.get(r.artistId) || 0) + value * (r.percentage / 100));
+      }
+    }
+    return byArtist;
+  };
+
+  const totals = tally(ordered);
+  const shares = new Map<string, number>();
+  for (const [artistId, value] of tally(refunded)) {
+    const total = totals.get(artistId) || 0;
+    if (total > 0) shares.set(artistId, Math.min(1, value / total));
+  }
+  return shares;
+}
+
+export interface ClawbackResult {
+  artistId: string;
+  amount: number;        // total taken back for this refund
+  fromPending: number;   // of which came off a still-unpaid payout
+  outstanding: number;   // of which is owed against the next payout
+}
+
+/**
+ * Take each artist's refunded share back from their payout for the order.
+ * `shares` comes from artistRefundShares; postage goes back in full when the
+ * refund includes shipping.
+ */
+export async function clawBackArtistPayouts(params: {
+  orderId: string;
+  orderNumber: string;
+  refundId: string;
+  shares: Map<string, number>;
+  refundShipping: boolean;
+}): Promise<ClawbackResult[]> {
+  const { orderId, orderNumber, refundId, shares, refundShipping } = params;
+  const filters = [{ field: 'orderId', op: 'EQUAL' as const, value: orderId }];
+  const [pendingPayouts, payouts] = await Promise.all([
+    queryCollection('pendingPayouts', { filters, skipCache: true }),
+    queryCollection('payouts', { filters, skipCache: true }),
+  ]);
+
+  // Completed pending payouts also leave a `payouts` row; only instant
+  // transfers have no pendingPayouts record to count them from
+  const records = [
+    ...pendingPayouts.filter(p => p.artistId).map(p => ({ collection: 'pendingPayouts', doc: p })),
+    ...payouts.filter(p => p.artistId && p.entityType === 'artist' && !p.fromPendingPayout)
+      .map(p => ({ collection: 'payouts', doc: p })),
+  ];
+
+  const results: ClawbackResult[] = [];
+  const now = new Date().toISOString();
+
+  for (const { collection, doc } of records) {
+    const artistId = String(doc.artistId);
+    // Earnings that went to recoup an advance were never paid out; the
+    // refund returns them to the advance instead (reverseAdvanceRecoupments)
+    const itemAmount = Math.max(0, (Number(doc.itemAmount ?? doc.amount) || 0) - (Number(doc.advanceRecouped) || 0));
+    const shippingAmount = Number(doc.shippingAmount) || 0;
+    const alreadyClawed = Number(doc.clawedBack) || 0;
+
+    const due = Math.min(
+      round2(itemAmount * (shares.get(artistId) || 0) + (refundShipping ? shippingAmount : 0)),
+      round2(itemAmount + shippingAmount - alreadyClawed)
+    );
+    if (due <= 0) continue;
+
+    let fromPending = 0;
+    if (collection === 'pendingPayouts' && UNPAID_STATUSES.has(String(doc.status))) {
+      fromPending = Math.min(due, Number(doc.amount) || 0);
+      const remaining = round2((Number(doc.amount) || 0) - fromPending);
+      await updateDocument('pendingPayouts', String(doc.id), {
+        amount: remaining,
+        clawedBack: round2(alreadyClawed + due),
+        ...(remaining <= 0 ? { status: 'cancelled', cancelledReason: 'refunded' } : {}),
+        updatedAt: now,
+      });
+      try {
+        await atomicIncrement('artists', artistId, { pendingBalance: -fromPending });
+      } catch (e: unknown) {
+        log.warn(`Could not reduce pending balance for ${artistId}`, e);
+      }
+    } else {
+      await updateDocument(collection, String(doc.id), { clawedBack: round2(alreadyClawed + due), updatedAt: now });
+    }
+
+    const outstanding = round2(due - fromPending);
+    if (outstanding > 0) {
+      await addDocument(CLAWBACK_COLLECTION, {
+        artistId,
+        artistName: doc.artistName || '',
+        orderId,
+        orderNumber,
+        refundId,
+        payoutId: doc.id,
+        amount: outstanding,
+        outstanding,
+        status: 'outstanding',
+        createdAt: now,
+        updatedAt: now,
+      });
+      try {
+        await atomicIncrement('artists', artistId, { clawbackBalance: outstanding });
+      } catch (e: unknown) {
+        log.warn(`Could not update clawback balance for ${artistId}`, e);
+      }
+    }
+
+    log.info(`Clawed back £${due.toFixed(2)} from ${artistId} for ${orderNumber} (£${outstanding.toFixed(2)} against next payout)`);
+    results.push({ artistId, amount: due, fromPending: round2(fromPending), outstanding });
+  }
+
+  return results;
+}
+
+/**
+ * Net an artist's outstanding clawbacks off a payout they are about to
+ * receive, oldest first. Returns what is left to pay. Never throws — a
+ * failed lookup pays the full amount and leaves the clawbacks outstanding.
+ */
+export async function applyPayoutClawbacks(
+  artistId: string,
+  amount: number
+): Promise<{ amount: number; clawedBack: number }> {
+  try {
+    const clawbacks = await queryCollection(CLAWBACK_COLLECTION, {
+      filters: [
+        { field: 'artistId', op: 'EQUAL', value: artistId },
+        { field: 'status', op: 'EQUAL', value: 'outstanding' },
+      ],
+      skipCache: true,
+    });
+    if (clawbacks.length === 0) return { amount, clawedBack: 0 };
+
+    clawbacks.sort((a, b) => String(a.createdAt).localeCompare(String(b.createdAt)));
+    let remaining = amount;
+    let clawedBack = 0;
+    const now = new Date().toISOString();
+
+    for (const clawback of clawbacks) {
+      if (remaining <= 0) break;
+      const take = round2(Math.min(Number(clawback.outstanding) || 0, remaining));
+      if (take <= 0) continue;
+      const left = round2((Number(clawback.outstanding) || 0) - take);
+      await updateDocument(CLAWBACK_COLLECTION, String(clawback.id), {
+        outstanding: left,
+        ...(left <= 0 ? { status: 'settled', settledAt: now } : {}),
+        updatedAt: now,
+      });
+      remaining = round2(remaining - take);
+      clawedBack = round2(clawedBack + take);
+    }
+
+    if (clawedBack > 0) {
+      try {
+        await atomicIncrement('artists', artistId, { clawbackBalance: -clawedBack });
+      } catch (e: unknown) {
+        log.warn(`Could not update clawback balance for ${artistId}`, e);
+      }
+      log.info(`Netted £${clawedBack.toFixed(2)} of clawbacks off ${artistId}'s payout`);
+    }
+    return { amount: remaining, clawedBack };
+  } catch (error: unknown) {
+    log.error(`Clawback lookup failed for ${artistId}, paying in full:`, error);
+    return { amount, clawedBack: 0 };
+  }
+}
@@ -4,4 +4,5 @@
 export { processArtistPayments } from './artist-payments';
 export { processMerchSupplierPayments } from './merch-payments';
 export { processVinylCrateSellerPayments } from './vinyl-payments';
+export { applyPayoutClawbacks, clawBackArtistPayouts } from './clawbacks';
 export type { SellerPaymentParams } from './types';
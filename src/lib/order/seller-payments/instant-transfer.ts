@@ -1,5 +1,7 @@
 // src/lib/order/seller-payments/instant-transfer.ts
-// Sale-time Stripe transfer for artists with an ACTIVE Connect account.
+// Sale-time Stripe transfer for artists with an ACTIVE Connect account, or a
+// PayPal payout for artists whose payout method is PayPal. Each payee of a
+// split sheet comes through here separately, paid by their own method.
 // Mirrors the crate-seller pattern (vinyl-payments.ts) and the Connect
 // activation hook's bookkeeping (connect/webhook.ts processPendingPayouts):
 // transfer → completed `payouts` record → totalEarnings increment
@@ -11,7 +13,11 @@
 import Stripe from 'stripe';
 import { addDocument, atomicIncrement, updateDocument } from '../../firebase-rest';
 import { sendPayoutCompletedEmail } from '../../payout-emails';
+import { createPayout, getPayPalConfig } from '../../paypal-payouts';
 import { createLogger } from '../../api-utils';
+import { postPayoutToJournal } from '../../journal';
+import { canReceivePayouts, methodState, recordPayoutAccountFailure } from '../../payout-verification';
+import type { D1Database } from '../../d1/types';
 
 const log = createLogger('[instant-transfer]');
 
@@ -24,6 +30,10 @@ export interface InstantTransferParams {
   amount: number;
   itemAmount: number;
   shippingAmount: number;
+  /** Outstanding refund clawbacks already netted off `amount` */
+  clawbackDeducted?: number;
+  /** Sale earnings kept back to recoup advances (lib/advances.ts) */
+  advanceRecouped?: number;
   orderId: string;
   orderNumber: string;
   customerPaymentMethod: string;
@@ -39,9 +49,106 @@ export function isConnectActive(artist: Record<string, unknown> | null | undefin
     && artist.stripeConnectStatus === 'active';
 }
 
+/** Artists who chose PayPal payouts and gave (and confirmed) the address to pay. */
+export function prefersPayPal(artist: Record<string, unknown> | null | undefined): boolean {
+  return !!artist
+    && artist.payoutMethod === 'paypal'
+    && typeof artist.paypalEmail === 'string'
+    && artist.paypalEmail.length > 0
+    && methodState(artist, 'paypal').state === 'verified';
+}
+
+// PayPal payout at sale time, with the 2% payout fee the admin payout and
+// merch supplier flows deduct
+async function attemptInstantPayPalPayout(params: InstantTransferParams): Promise<boolean> {
+  const {
+    artist, artistId, artistName, artistEmail, amount, itemAmount, shippingAmount, clawbackDeducted, advanceRecouped,
+    orderId, orderNumber, customerPaymentMethod, env
+  } = params;
+
+  const paypalConfig = getPayPalConfig(env as Parameters<typeof getPayPalConfig>[0]);
+  if (!paypalConfig) return false;
+  const paypalEmail = (artist as Record<string, unknown>).paypalEmail as string;
+  const paypalPayoutFee = amount * 0.02;
+  const paypalAmount = amount - paypalPayoutFee;
+
+  try {
+    const result = await createPayout(paypalConfig, {
+      email: paypalEmail,
+      amount: paypalAmount,
+      currency: 'GBP',
+      note: `Fresh Wax artist payout for order #${orderNumber}`,
+      reference: `${orderId}-artist-${artistId}`
+    });
+    if (!result.success) throw new Error(result.error || 'PayPal payout failed');
+
+    const now = new Date().toISOString();
+    await addDocument('payouts', {
+      artistId,
+      artistName,
+      artistEmail,
+      entityType: 'artist',
+      paypalEmail,
+      paypalBatchId: result.batchId,
+      paypalPayoutItemId: result.payoutItemId,
+      payoutMethod: 'paypal',
+      orderId,
+      orderNumber,
+      amount: paypalAmount,
+      itemAmount,
+      shippingAmount,
+      paypalPayoutFee,
+      ...(clawbackDeducted ? { clawbackDeducted } : {}),
+      ...(advanceRecouped ? { advanceRecouped } : {}),
+      currency: 'gbp',
+      status: 'completed',
+      customerPaymentMethod,
+      createdAt: now,
+      updatedAt: now,
+      completedAt: now
+    });
+
+    await postPayoutToJournal(env?.DB as D1Database | undefined, {
+      payoutId: result.batchId || `${orderId}-artist-${artistId}`,
+      sellerId: artistId,
+      sellerKind: 'artist',
+      amount,
+      method: 'paypal',
+      orderId,
+    });
+
+    try {
+      await atomicIncrement('artists', artistId, { totalEarnings: paypalAmount });
+      await updateDocument('artists', artistId, { lastPayoutAt: now, updatedAt: now });
+    } catch (balanceError: unknown) {
+      log.warn(`Post-payout earnings update failed for ${artistId}`, balanceError);
+    }
+
+    if (artistEmail) {
+      try {
+        await sendPayoutCompletedEmail(artistEmail, artistName, paypalAmount, orderNumber, env as Parameters<typeof sendPayoutCompletedEmail>[4]);
+      } catch (emailError: unknown) {
+        log.warn('Payout completed email failed:', emailError);
+      }
+    }
+
+    log.info(`Instant PayPal payout ${result.batchId}: £${paypalAmount.toFixed(2)} → ${artistName} (${orderNumber})`);
+    return true;
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : String(error);
+    log.error(`Instant PayPal payout failed for ${artistName} (${orderNumber}) — falling back to pending payout:`, message);
+    await recordPayoutAccountFailure(env, 'artist', artistId, 'paypal', message);
+    return false;
+  }
+}
+
 export async function attemptInstantArtistTransfer(params: InstantTransferParams): Promise<boolean> {
+  // Held, restricted or not set up: the sale stays a pending payout
+  if (!canReceivePayouts(params.artist)) return false;
+  if (prefersPayPal(params.artist)) return attemptInstantPayPalPayout(params);
+
   const {
-    artist, artistId, artistName, artistEmail, amount, itemAmount, shippingAmount,
+    artist, artistId, artistName, artistEmail, amount, itemAmount, shippingAmount, clawbackDeducted, advanceRecouped,
     orderId, orderNumber, customerPaymentMethod, stripeSecretKey, env
   } = params;
 
@@ -82,6 +189,8 @@ export async function attemptInstantArtistTransfer(params: InstantTransferParams
       amount,
       itemAmount,
       shippingAmount,
+      ...(clawbackDeducted ? { clawbackDeducted } : {}),
+      ...(advanceRecouped ? { advanceRecouped } : {}),
       currency: 'gbp',
       status: 'completed',
       customerPaymentMethod,
@@ -90,6 +199,15 @@ export async function attemptInstantArtistTransfer(params: InstantTransferParams
       completedAt: now
     });
 
+    await postPayoutToJournal(env?.DB as D1Database | undefined, {
+      payoutId: transfer.id,
+      sellerId: artistId,
+      sellerKind: 'artist',
+      amount,
+      method: 'stripe',
+      orderId,
+    });
+
     try {
       await atomicIncrement('artists', artistId, { totalEarnings: amount });
       await updateDocument('artists', artistId, { lastPayoutAt: now, updatedAt: now });
@@ -110,6 +228,7 @@ export async function attemptInstantArtistTransfer(params: InstantTransferParams
   } catch (error: unknown) {
     const message = error instanceof Error ? error.message : String(error);
     log.error(`Instant transfer failed for ${artistName} (${orderNumber}) — falling back to pending payout:`, message);
+    await recordPayoutAccountFailure(env, 'artist', artistId, 'stripe', message);
     return false;
   }
 }
@@ -4,6 +4,10 @@
 import Stripe from 'stripe';
 import { getDocument, addDocument, updateDocument, atomicIncrement } from '../../firebase-rest';
 import { createLogger } from '../../api-utils';
+import { postPayoutToJournal } from '../../journal';
+import { canPayVia, recordPayoutAccountFailure, syncPayoutState } from '../../payout-verification';
+import { SCHEDULED_STATUS, usesPayoutSchedule } from '../../payout-schedule';
+import type { D1Database } from '../../d1/types';
 import { getProcessingFee } from './types';
 import type { SellerPaymentParams } from './types';
 
@@ -42,6 +46,7 @@ export async function processMerchSupplierPayments(params: SellerPaymentParams &
       stripeConnectId: string | null;
       paypalEmail: string | null;
       payoutMethod: string | null;
+      supplierDoc: Record<string, unknown>;
       amount: number;
       costDeducted: number;
       items: string[];
@@ -122,6 +127,7 @@ export async function processMerchSupplierPayments(params: SellerPaymentParams &
           stripeConnectId: supplier.stripeConnectId || null,
           paypalEmail: supplier.paypalEmail || null,
           payoutMethod: supplier.payoutMethod || null,
+          supplierDoc: supplier,
           amount: 0,
           costDeducted: 0,
           items: []
@@ -142,12 +148,42 @@ export async function processMerchSupplierPayments(params: SellerPaymentParams &
 
     for (const supplierId of Object.keys(supplierPayments)) {
       const payment = supplierPayments[supplierId];
-      if (payment.amount <= 0) continue;
+      if (!payment || payment.amount <= 0) continue;
 
       // Processing supplier payment
 
-      const usePayPal = payment.payoutMethod === 'paypal' && payment.paypalEmail && paypalConfig;
-      const useStripe = payment.stripeConnectId && payment.payoutMethod !== 'paypal';
+      // Suppliers on a weekly / monthly payout schedule accrue the sale for
+      // cron/scheduled-payouts instead (lib/payout-schedule.ts).
+      if (usesPayoutSchedule(payment.supplierDoc)) {
+        await addDocument('pendingSupplierPayouts', {
+          supplierId: payment.supplierId,
+          supplierName: payment.supplierName,
+          supplierEmail: payment.supplierEmail,
+          orderId,
+          orderNumber,
+          amount: payment.amount,
+          itemAmount: payment.amount,
+          shippingAmount: 0,
+          costDeducted: payment.costDeducted,
+          currency: 'gbp',
+          status: SCHEDULED_STATUS,
+          items: payment.items,
+          customerPaymentMethod: paymentMethod || 'paypal',
+          createdAt: new Date().toISOString(),
+          updatedAt: new Date().toISOString()
+        });
+        await atomicIncrement('merch-suppliers', payment.supplierId, {
+          pendingBalance: payment.amount,
+        });
+        continue;
+      }
+
+      // Only to a method that's verified (lib/payout-verification.ts) — an
+      // unconfirmed PayPal email or unfinished Connect account waits below
+      const usePayPal = payment.payoutMethod === 'paypal' && payment.paypalEmail && paypalConfig
+        && canPayVia(payment.supplierDoc, 'paypal');
+      const useStripe = payment.stripeConnectId && payment.payoutMethod !== 'paypal'
+        && canPayVia(payment.supplierDoc, 'stripe');
 
       if (usePayPal && paypalConfig && payment.paypalEmail) {
         const paypalPayoutFee = payment.amount * 0.02;
@@ -184,6 +220,15 @@ export async function processMerchSupplierPayments(params: SellerPaymentParams &
               completedAt: new Date().toISOString()
             });
 
+            await postPayoutToJournal(env?.DB as D1Database | undefined, {
+              payoutId: paypalResult.batchId || `${orderId}-supplier-${payment.supplierId}`,
+              sellerId: payment.supplierId,
+              sellerKind: 'supplier',
+              amount: payment.amount,
+              method: 'paypal',
+              orderId,
+            });
+
             // Atomically update supplier earnings
             await atomicIncrement('merch-suppliers', payment.supplierId, {
               totalEarnings: paypalAmount,
@@ -196,6 +241,7 @@ export async function processMerchSupplierPayments(params: SellerPaymentParams &
           }
         } catch (paypalError: unknown) {
           const paypalMessage = paypalError instanceof Error ? paypalError.message : String(paypalError);
+          await recordPayoutAccountFailure(env, 'supplier', payment.supplierId, 'paypal', paypalMessage);
           log.error(`${prefix} Supplier PayPal payout failed:`, paypalMessage);
           await addDocument('pendingSupplierPayouts', {
             supplierId: payment.supplierId,
@@ -256,6 +302,15 @@ export async function processMerchSupplierPayments(params: SellerPaymentParams &
             completedAt: new Date().toISOString()
           });
 
+          await postPayoutToJournal(env?.DB as D1Database | undefined, {
+            payoutId: transfer.id,
+            sellerId: payment.supplierId,
+            sellerKind: 'supplier',
+            amount: payment.amount,
+            method: 'stripe',
+            orderId,
+          });
+
           // Atomically update supplier earnings
           await atomicIncrement('merch-suppliers', payment.supplierId, {
             totalEarnings: payment.amount,
@@ -265,6 +320,7 @@ export async function processMerchSupplierPayments(params: SellerPaymentParams &
           });
         } catch (transferError: unknown) {
           const transferMessage = transferError instanceof Error ? transferError.message : String(transferError);
+          await recordPayoutAccountFailure(env, 'supplier', payment.supplierId, 'stripe', transferMessage);
           log.error(`${prefix} Supplier transfer failed:`, transferMessage);
           await addDocument('pendingSupplierPayouts', {
             supplierId: payment.supplierId,
@@ -301,6 +357,14 @@ export async function processMerchSupplierPayments(params: SellerPaymentParams &
           createdAt: new Date().toISOString(),
           updatedAt: new Date().toISOString()
         });
+
+        // Tell them money is waiting before it builds up
+        await syncPayoutState(env, 'supplier', payment.supplierId, {
+          source: 'earnings',
+          entity: payment.supplierDoc,
+          pendingBalance: (Number(payment.supplierDoc.pendingBalance) || 0) + payment.amount,
+          warn: true,
+        });
       }
     }
   } catch (error: unknown) {
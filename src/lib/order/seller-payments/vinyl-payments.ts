@@ -4,6 +4,10 @@
 import Stripe from 'stripe';
 import { getDocument, addDocument, updateDocument, atomicIncrement } from '../../firebase-rest';
 import { createLogger } from '../../api-utils';
+import { postPayoutToJournal } from '../../journal';
+import { canPayVia, recordPayoutAccountFailure, syncPayoutState } from '../../payout-verification';
+import { SCHEDULED_STATUS, usesPayoutSchedule } from '../../payout-schedule';
+import type { D1Database } from '../../d1/types';
 import { getProcessingFee } from './types';
 import type { SellerPaymentParams } from './types';
 
@@ -50,6 +54,7 @@ export async function processVinylCrateSellerPayments(params: SellerPaymentParam
       stripeConnectId: string | null;
       paypalEmail: string | null;
       payoutMethod: string | null;
+      sellerDoc: Record<string, unknown>;
       amount: number;
       shippingAmount: number;
       items: string[];
@@ -133,6 +138,7 @@ export async function processVinylCrateSellerPayments(params: SellerPaymentParam
           stripeConnectId: seller.stripeConnectId || null,
           paypalEmail: seller.paypalEmail || null,
           payoutMethod: seller.payoutMethod || null,
+          sellerDoc: seller,
           amount: 0,
           shippingAmount: 0,
           items: []
@@ -152,13 +158,42 @@ export async function processVinylCrateSellerPayments(params: SellerPaymentParam
     for (const sellerId of Object.keys(sellerPayments)) {
       const payment = sellerPayments[sellerId];
 
-      if (payment.amount <= 0) continue;
+      if (!payment || payment.amount <= 0) continue;
 
       // Processing seller payment
 
+      // Sellers on a weekly / monthly payout schedule accrue the sale for
+      // cron/scheduled-payouts instead (lib/payout-schedule.ts).
+      if (usesPayoutSchedule(payment.sellerDoc)) {
+        await addDocument('pendingCrateSellerPayouts', {
+          sellerId: payment.sellerId,
+          sellerName: payment.sellerName,
+          sellerEmail: payment.sellerEmail,
+          orderId,
+          orderNumber,
+          amount: payment.amount,
+          shippingAmount: payment.shippingAmount,
+          itemAmount: Math.round((payment.amount - payment.shippingAmount) * 100) / 100,
+          currency: 'gbp',
+          status: SCHEDULED_STATUS,
+          items: payment.items,
+          customerPaymentMethod: paymentMethod || 'paypal',
+          createdAt: new Date().toISOString(),
+          updatedAt: new Date().toISOString()
+        });
+        await atomicIncrement('users', payment.sellerId, {
+          pendingCrateBalance: payment.amount,
+        });
+        continue;
+      }
+
       // Check preferred payout method
-      const usePayPal = payment.payoutMethod === 'paypal' && payment.paypalEmail && paypalConfig;
-      const useStripe = payment.stripeConnectId && payment.payoutMethod !== 'paypal';
+      // Only to a method that's verified (lib/payout-verification.ts) — an
+      // unconfirmed PayPal email or unfinished Connect account waits below
+      const usePayPal = payment.payoutMethod === 'paypal' && payment.paypalEmail && paypalConfig
+        && canPayVia(payment.sellerDoc, 'paypal');
+      const useStripe = payment.stripeConnectId && payment.payoutMethod !== 'paypal'
+        && canPayVia(payment.sellerDoc, 'stripe');
 
       if (usePayPal) {
         // PayPal payout for crate seller - deduct 2% payout fee
@@ -199,6 +234,15 @@ export async function processVinylCrateSellerPayments(params: SellerPaymentParam
               completedAt: new Date().toISOString()
             });
 
+            await postPayoutToJournal(env?.DB as D1Database | undefined, {
+              payoutId: paypalResult.batchId || `${orderId}-seller-${payment.sellerId}`,
+              sellerId: payment.sellerId,
+              sellerKind: 'crate_seller',
+              amount: payment.amount,
+              method: 'paypal',
+              orderId,
+            });
+
             // Atomically update crate seller earnings
             await atomicIncrement('users', payment.sellerId, {
               crateEarnings: paypalAmount,
@@ -214,6 +258,7 @@ export async function processVinylCrateSellerPayments(params: SellerPaymentParam
 
         } catch (paypalError: unknown) {
           const paypalMessage = paypalError instanceof Error ? paypalError.message : String(paypalError);
+          await recordPayoutAccountFailure(env, 'user', payment.sellerId, 'paypal', paypalMessage);
           log.error(`${prefix} Crate seller PayPal payout failed:`, paypalMessage);
 
           await addDocument('pendingCrateSellerPayouts', {
@@ -278,6 +323,15 @@ export async function processVinylCrateSellerPayments(params: SellerPaymentParam
             completedAt: new Date().toISOString()
           });
 
+          await postPayoutToJournal(env?.DB as D1Database | undefined, {
+            payoutId: transfer.id,
+            sellerId: payment.sellerId,
+            sellerKind: 'crate_seller',
+            amount: payment.amount,
+            method: 'stripe',
+            orderId,
+          });
+
           // Atomically update crate seller earnings
           await atomicIncrement('users', payment.sellerId, {
             crateEarnings: payment.amount,
@@ -290,6 +344,7 @@ export async function processVinylCrateSellerPayments(params: SellerPaymentParam
 
         } catch (transferError: unknown) {
           const transferMessage = transferError instanceof Error ? transferError.message : String(transferError);
+          await recordPayoutAccountFailure(env, 'user', payment.sellerId, 'stripe', transferMessage);
           log.error(`${prefix} Crate seller transfer failed:`, transferMessage);
 
           await addDocument('pendingCrateSellerPayouts', {
@@ -331,6 +386,14 @@ export async function processVinylCrateSellerPayments(params: SellerPaymentParam
           createdAt: new Date().toISOString(),
           updatedAt: new Date().toISOString()
         });
+
+        // Tell them money is waiting before it builds up
+        await syncPayoutState(env, 'user', payment.sellerId, {
+          source: 'earnings',
+          entity: payment.sellerDoc,
+          pendingBalance: (Number(payment.sellerDoc.pendingBalance) || 0) + payment.amount,
+          warn: true,
+        });
       }
     }
   } catch (error: unknown) {
@@ -1,11 +1,22 @@
 // src/lib/order/shipping-rules.ts
-// Seller-configurable free-shipping thresholds.
+// Rule-based shipping: zones, countries and rate tables live in D1
+// (shipping_zones / shipping_countries / shipping_rates, migration 0014) and
+// every checkout endpoint plus /api/shipping-quote evaluates them through the
+// helpers below, so a quote and the charge can't disagree. Adding a country or
+// changing a rate is an admin edit (/api/admin/shipping-rules), not a deploy.
+//
+// A rate is keyed by (seller, zone, band): bands are weight/format classes
+// ('7in', '12in', '2xlp', 'tee', 'merch'). A seller's own row overrides the
+// platform default for that zone + band. DEFAULT_SHIPPING_RULES mirrors the
+// migration's seed rows and is used whenever D1 is unavailable.
+//
+// Seller-configurable free-shipping thresholds still apply on top:
 //
 // Merch: each supplier can enable "free shipping over £X" on their
 // merch-suppliers doc (freeShippingEnabled + freeShippingThreshold). The
-// order's single merch shipping charge (£4.99) is waived only when EVERY
-// merch group in the basket qualifies. House merch (no supplierId) never
-// auto-waives — there is no global free-over-£50 rule any more.
+// order's single merch shipping charge is waived only when EVERY merch group
+// in the basket qualifies. House merch (no supplierId) never auto-waives —
+// there is no global free-over-£50 rule any more.
 //
 // Crates: each vinyl seller can enable the same on their seller settings
 // (vinyl-sellers / D1 vinyl_sellers). When their crates subtotal in the
@@ -13,75 +24,214 @@
 // which flows through to both the buyer charge and the seller payout.
 
 import { getDocument } from '../firebase-rest';
-import { d1GetVinylSeller } from '../d1-catalog';
+import { d1GetShippingRules, d1GetShippingRulesVersion, d1GetVinylSeller } from '../d1-catalog';
+import type { ShippingCountry, ShippingRegion, ShippingRuleSet } from '../d1-catalog';
 import { log } from './types';
 import type { CartItem } from './types';
 
 type D1Db = import('@cloudflare/workers-types').D1Database;
 
+export const SHIPPING_BANDS = ['7in', '12in', '2xlp', 'tee', 'merch'] as const;
+export type ShippingBand = typeof SHIPPING_BANDS[number];
+
 export const MERCH_SHIPPING_FLAT = 4.99;
 const DEFAULT_FREE_SHIPPING_THRESHOLD = 50;
 const DEFAULT_CRATE_ADDITIONAL = 0.5; // 50p per additional record, seller-overridable
 
+// Last-resort single rates when neither the release, the artist nor any rate
+// table has one for the destination
+const REGION_FLOOR: Record<ShippingRegion, number> = { UK: 4.99, EU: 9.99, INTL: 14.99 };
+
+// Heaviest first — a mixed crate group is charged at its heaviest band
+const VINYL_BANDS: ShippingBand[] = ['2xlp', '12in', '7in'];
+
+const EU_MEMBERS_NOT_SHIPPED: Array<[string, string]> = [
+  ['ES', 'Spain'], ['IT', 'Italy'], ['AT', 'Austria'], ['PL', 'Poland'], ['PT', 'Portugal'],
+  ['DK', 'Denmark'], ['SE', 'Sweden'], ['FI', 'Finland'], ['CZ', 'Czech Republic'], ['GR', 'Greece'],
+  ['HU', 'Hungary'], ['RO', 'Romania'], ['BG', 'Bulgaria'], ['HR', 'Croatia'], ['SK', 'Slovakia'],
+  ['SI', 'Slovenia'], ['LT', 'Lithuania'], ['LV', 'Latvia'], ['EE', 'Estonia'], ['CY', 'Cyprus'],
+  ['MT', 'Malta'], ['LU', 'Luxembourg'],
+];
+
+/** Built-in rule set — identical to the seed rows in migration 0014. */
+export const DEFAULT_SHIPPING_RULES: ShippingRuleSet = {
+  zones: [
+    { id: 'uk', name: 'United Kingdom', region: 'UK' },
+    { id: 'eu', name: 'Europe', region: 'EU' },
+    { id: 'intl', name: 'Rest of world', region: 'INTL' },
+  ],
+  countries: [
+    { iso: 'GB', name: 'United Kingdom', zoneId: 'uk', shippable: true, aliases: ['UK'] },
+    { iso: 'IE', name: 'Ireland', zoneId: 'eu', shippable: true, aliases: [] },
+    { iso: 'DE', name: 'Germany', zoneId: 'eu', shippable: true, aliases: [] },
+    { iso: 'FR', name: 'France', zoneId: 'eu', shippable: true, aliases: [] },
+    { iso: 'NL', name: 'Netherlands', zoneId: 'eu', shippable: true, aliases: [] },
+    { iso: 'BE', name: 'Belgium', zoneId: 'eu', shippable: true, aliases: [] },
+    { iso: 'US', name: 'United States', zoneId: 'intl', shippable: true, aliases: ['USA'] },
+    { iso: 'CA', name: 'Canada', zoneId: 'intl', shippable: true, aliases: [] },
+    { iso: 'AU', name: 'Australia', zoneId: 'intl', shippable: true, aliases: [] },
+    ...EU_MEMBERS_NOT_SHIPPED.map(([iso, name]) => ({ iso, name, zoneId: 'eu', shippable: false, aliases: [] })),
+  ],
+  rates: [
+    ...(['uk', 'eu', 'intl'] as const).flatMap(zoneId => [
+      ...VINYL_BANDS.map(band => ({
+        sellerId: null,
+        zoneId,
+        band,
+        firstItem: REGION_FLOOR[zoneId === 'uk' ? 'UK' : zoneId === 'eu' ? 'EU' : 'INTL'],
+        additionalItem: DEFAULT_CRATE_ADDITIONAL,
+      })),
+      { sellerId: null, zoneId, band: 'tee', firstItem: MERCH_SHIPPING_FLAT, additionalItem: 0 },
+      { sellerId: null, zoneId, band: 'merch', firstItem: MERCH_SHIPPING_FLAT, additionalItem: 0 },
+    ]),
+  ],
+};
+
+// Rules change rarely, so each isolate caches the rule set keyed on
+// d1GetShippingRulesVersion() (row counts + newest updated_at per table): a
+// checkout makes one small D1 read instead of three, and an admin edit saved
+// by any isolate invalidates every cache on its next read. updated_at has
+// one-second resolution, so a second edit landing in the same second as the
+// read that filled the cache can be missed; RULES_CACHE_TTL bounds that
+// staleness window at one minute. When the version can't be read the cache is
+// bypassed rather than trusted.
+const RULES_CACHE_TTL = 60 * 1000;
+let rulesCache: { rules: ShippingRuleSet; version: string; timestamp: number } | null = null;
+
+/** Load the D1 rule set (cached per version), falling back to the built-in defaults. */
+export async function loadShippingRules(db?: D1Db): Promise<ShippingRuleSet> {
+  if (!db) return DEFAULT_SHIPPING_RULES;
+  const now = Date.now();
+  const version = await d1GetShippingRulesVersion(db);
+  if (
+    version !== null && rulesCache &&
+    rulesCache.version === version && now - rulesCache.timestamp < RULES_CACHE_TTL
+  ) {
+    return rulesCache.rules;
+  }
+  const rules = await d1GetShippingRules(db);
+  if (!rules) return DEFAULT_SHIPPING_RULES;
+  rulesCache = version === null ? null : { rules, version, timestamp: now };
+  return rules;
+}
+
+/** Drop this isolate's cached rule set (other isolates notice the version change). */
+export function clearShippingRulesCache(): void {
+  rulesCache = null;
+}
+
+// Match an ISO code, display name or alias (case-insensitive)
+function findCountry(country: string, rules: ShippingRuleSet): ShippingCountry | null {
+  const needle = country.trim().toLowerCase();
+  if (!needle) return null;
+  return rules.countries.find(c =>
+    c.iso.toLowerCase() === needle ||
+    c.name.toLowerCase() === needle ||
+    c.aliases.some(a => a.toLowerCase() === needle)
+  ) || null;
+}
+
+function defaultZoneId(region: ShippingRegion, rules: ShippingRuleSet): string {
+  return rules.zones.find(z => z.region === region)?.id || region.toLowerCase();
+}
+
+export interface ShippingDestination {
+  iso: string | null;           // null = not a country we ship to
+  zoneId: string;
+  region: ShippingRegion;
+}
+
+/**
+ * Resolve a country (ISO code or the display name the checkout form submits)
+ * to its zone + legacy region. Unknown countries land in the INTL zone.
+ */
+export function resolveShippingDestination(
+  country: string | undefined | null,
+  rules: ShippingRuleSet = DEFAULT_SHIPPING_RULES
+): ShippingDestination {
+  const match = findCountry(country || 'GB', rules);
+  const zone = match ? rules.zones.find(z => z.id === match.zoneId) : undefined;
+  if (!zone) return { iso: null, zoneId: defaultZoneId('INTL', rules), region: 'INTL' };
+  return { iso: match!.shippable ? match!.iso : null, zoneId: zone.id, region: zone.region };
+}
+
 // Canonical country → shipping region. Accepts BOTH ISO codes and the full
 // country names the checkout form submits (e.g. "Ireland", "Germany") so the
 // quote and every checkout endpoint agree on the region (EU customers were
 // being charged INTL because the endpoints only matched ISO codes).
-const EU_REGION_SET = new Set([
-  'DE', 'FR', 'NL', 'BE', 'IE', 'ES', 'IT', 'AT', 'PL', 'PT', 'DK', 'SE', 'FI', 'CZ',
-  'GR', 'HU', 'RO', 'BG', 'HR', 'SK', 'SI', 'LT', 'LV', 'EE', 'CY', 'MT', 'LU',
-  'Ireland', 'Germany', 'France', 'Netherlands', 'Belgium', 'Spain', 'Italy', 'Austria',
-  'Poland', 'Portugal', 'Denmark', 'Sweden', 'Finland', 'Czech Republic', 'Greece',
-  'Hungary', 'Romania', 'Bulgaria', 'Croatia', 'Slovakia', 'Slovenia', 'Lithuania',
-  'Latvia', 'Estonia', 'Cyprus', 'Malta', 'Luxembourg',
-]);
-
-export function regionForCountry(country: string | undefined | null): 'UK' | 'EU' | 'INTL' {
-  const c = (country || 'GB').trim();
-  if (c === 'GB' || c === 'UK' || c === 'United Kingdom') return 'UK';
-  return EU_REGION_SET.has(c) ? 'EU' : 'INTL';
+export function regionForCountry(
+  country: string | undefined | null,
+  rules: ShippingRuleSet = DEFAULT_SHIPPING_RULES
+): ShippingRegion {
+  return resolveShippingDestination(country, rules).region;
 }
 
 /**
- * The countries the checkout form offers, as name → ISO 3166-1 alpha-2.
+ * Normalise a country to its ISO code, or null when we don't ship there.
+ * Accepts a display name, alias or ISO code (either case) so it works with
+ * both form submissions and data that already went through Stripe.
  *
- * The form submits display names ("United Kingdom", "USA"); Stripe wants ISO
- * codes. This is also the shippable-destinations allowlist: it used to be
- * enforced by Stripe's `shipping_address_collection[allowed_countries]`, but
- * now that we pass the address through instead of having Stripe re-collect it,
- * that check has to happen here. Keep in sync with the country <select> in
- * `src/lib/checkout/checkout-ui.ts`.
+ * This is the shippable-destinations allowlist: it used to be enforced by
+ * Stripe's `shipping_address_collection[allowed_countries]`, but now that we
+ * pass the address through instead of having Stripe re-collect it, that check
+ * has to happen here. The checkout form's country <select> is built from the
+ * same list (returned by /api/shipping-quote).
  */
-const COUNTRY_NAME_TO_ISO: Record<string, string> = {
-  'United Kingdom': 'GB',
-  'Ireland': 'IE',
-  'Germany': 'DE',
-  'France': 'FR',
-  'Netherlands': 'NL',
-  'Belgium': 'BE',
-  'USA': 'US',
-  'United States': 'US',
-  'Canada': 'CA',
-  'Australia': 'AU',
-};
+export function countryToISO(
+  country: string | undefined | null,
+  rules: ShippingRuleSet = DEFAULT_SHIPPING_RULES
+): string | null {
+  const match = findCountry(country || '', rules);
+  return match?.shippable ? match.iso : null;
+}
 
-/** Every ISO code we ship to — the values above, deduped. */
-const SHIPPABLE_ISO = new Set(Object.values(COUNTRY_NAME_TO_ISO));
+/** Countries offered at checkout, for the form's <select>. */
+export function shippableCountries(
+  rules: ShippingRuleSet = DEFAULT_SHIPPING_RULES
+): Array<{ iso: string; name: string; aliases: string[] }> {
+  return rules.countries.filter(c => c.shippable).map(c => ({ iso: c.iso, name: c.name, aliases: c.aliases }));
+}
 
 /**
- * Normalise a country to its ISO code, or null when we don't ship there.
- * Accepts a display name or an ISO code (either case) so it works with both
- * form submissions and data that already went through Stripe.
+ * The weight/format band a product ships in, from its catalogue doc (or a
+ * cart item already carrying the same fields): 7" singles, 12"/LP, double
+ * LPs and box sets, tees, and everything else merch.
+ */
+export function resolveShippingBand(type: unknown, source: Record<string, unknown> | null | undefined): ShippingBand {
+  const doc = source || {};
+  if ((SHIPPING_BANDS as readonly unknown[]).includes(doc.shippingBand)) return doc.shippingBand as ShippingBand;
+  if (type === 'merch') {
+    const kind = [doc.merchType, doc.category, doc.productType, doc.type]
+      .filter((v): v is string => typeof v === 'string' && v !== 'merch')
+      .join(' ')
+      .toLowerCase();
+    return /\b(tee|t-shirt|tshirt|shirt)\b/.test(kind) ? 'tee' : 'merch';
+  }
+  const vinyl = (doc.vinyl && typeof doc.vinyl === 'object' ? doc.vinyl : {}) as Record<string, unknown>;
+  const format = String(doc.format ?? '').toLowerCase();
+  // vinylRecordCount is the disc count (it holds a sentinel on some old
+  // releases, hence the range check)
+  const discs = parseInt(String(doc.vinylRecordCount ?? ''), 10);
+  if ((discs >= 2 && discs <= 10) || /box|2\s*x|double/.test(format)) return '2xlp';
+  const size = String(doc.vinylSize ?? vinyl.size ?? format);
+  return size.startsWith('7') ? '7in' : '12in';
+}
+
+/**
+ * Rate-table lookup for one band in one zone: the seller's own row, then the
+ * platform default. Null when neither exists (callers fall back further).
  */
-export function countryToISO(country: string | undefined | null): string | null {
-  const c = (country || '').trim();
-  if (!c) return null;
-  if (COUNTRY_NAME_TO_ISO[c]) return COUNTRY_NAME_TO_ISO[c];
-  const upper = c.toUpperCase();
-  if (SHIPPABLE_ISO.has(upper)) return upper;
-  // "UK" isn't the ISO code but users and older records both use it.
-  if (upper === 'UK') return 'GB';
-  return null;
+export function findShippingRate(
+  rules: ShippingRuleSet,
+  sellerId: string | null | undefined,
+  zoneId: string,
+  band: ShippingBand
+): { firstItem: number; additionalItem: number } | null {
+  const forSeller = sellerId
+    ? rules.rates.find(r => r.sellerId === sellerId && r.zoneId === zoneId && r.band === band)
+    : undefined;
+  const rate = forSeller || rules.rates.find(r => !r.sellerId && r.zoneId === zoneId && r.band === band);
+  return rate ? { firstItem: rate.firstItem, additionalItem: rate.additionalItem } : null;
 }
 
 /**
@@ -114,13 +264,18 @@ export function combineCrateShippingGroup(group: CartItem[], additional: number,
 /**
  * Apply combined crate shipping across the basket: group crate items by seller
  * and, for sellers with >1 record, charge first-record-single + additional per
- * extra (seller's `shippingAdditional`, default 50p). Run BEFORE
- * applyCrateFreeShipping (which may then zero everything if a threshold is met).
+ * extra. The additional rate is the seller's `shippingAdditional` setting, then
+ * their rate table for the destination zone + the group's heaviest band, then
+ * the platform rate table (50p by default). Run BEFORE applyCrateFreeShipping
+ * (which may then zero everything if a threshold is met).
  */
-export async function applyCrateCombinedShipping(items: CartItem[], db?: D1Db): Promise<void> {
+export async function applyCrateCombinedShipping(items: CartItem[], db?: D1Db, country?: string | null): Promise<void> {
   const crateItems = items.filter(i => i.type === 'vinyl' && i.sellerId && !i.releaseId);
   if (crateItems.length === 0) return;
 
+  const rules = await loadShippingRules(db);
+  const { zoneId } = resolveShippingDestination(country, rules);
+
   const bySeller = new Map<string, CartItem[]>();
   for (const item of crateItems) {
     const sid = item.sellerId as string;
@@ -135,7 +290,9 @@ export async function applyCrateCombinedShipping(items: CartItem[], db?: D1Db):
     // rate — one combined postage for the whole order, not two.
     const hasReleaseBase = items.some(i => i.type === 'vinyl' && i.releaseId && i.artistId === sellerId);
     if (!hasReleaseBase && group.reduce((s, i) => s + ((i.quantity as number) || 1), 0) <= 1) continue;
-    let additional = DEFAULT_CRATE_ADDITIONAL;
+    const bands = new Set(group.map(i => resolveShippingBand(i.type, i)));
+    const band = VINYL_BANDS.find(b => bands.has(b)) || '12in';
+    let additional = findShippingRate(rules, sellerId, zoneId, band)?.additionalItem ?? DEFAULT_CRATE_ADDITIONAL;
     try {
       let settings: Record<string, unknown> | null = db ? await d1GetVinylSeller(db, sellerId) : null;
       if (!settings || settings.shippingAdditional == null) {
@@ -196,19 +353,25 @@ export async function applyCrateFreeShipping(items: CartItem[], db?: D1Db): Prom
 
 /**
  * Per-artist release-vinyl shipping: the first record (per artist) charges the
- * single region rate (release → artist-account → floor), and each ADDITIONAL
- * record charges the additional-record rate (release → artist → 50p default).
+ * single rate and each ADDITIONAL record charges the additional-record rate.
+ * Each rate is picked release → artist's rate table (zone + band) → artist
+ * account → platform rate table → regional floor / 50p.
  * Crate items (sellerId, no releaseId) are skipped — they're charged separately.
  * Reads both the `vinyl*`/`artistVinyl*` (Stripe/PayPal) and `serverVinyl*`/
  * `serverArtist*` (create-order) field variants so it works for all endpoints.
  * Returns the total AND the artistShippingBreakdown that feeds the artist payout.
+ * Pass the loaded rules + zone (see resolveShippingDestination); without them
+ * the built-in defaults for the region's zone are used.
  */
 export function computeReleaseVinylShipping(
   items: CartItem[],
-  region: 'UK' | 'EU' | 'INTL'
+  region: ShippingRegion,
+  options: { rules?: ShippingRuleSet; zoneId?: string } = {}
 ): { total: number; breakdown: Record<string, { artistId: string; artistName: string; amount: number }> } {
   const breakdown: Record<string, { artistId: string; artistName: string; amount: number }> = {};
   const round2 = (n: number) => Math.round(n * 100) / 100;
+  const rules = options.rules || DEFAULT_SHIPPING_RULES;
+  const zoneId = options.zoneId || defaultZoneId(region, rules);
   let total = 0;
 
   for (const item of items) {
@@ -217,12 +380,28 @@ export function computeReleaseVinylShipping(
     const artistId = item.artistId as string | undefined;
     if (!artistId) continue;
 
-    let single: number;
-    if (region === 'UK') single = (item.vinylShippingUK ?? item.serverVinylShippingUK ?? item.artistVinylShippingUK ?? item.serverArtistShippingUK ?? 4.99) as number;
-    else if (region === 'EU') single = (item.vinylShippingEU ?? item.serverVinylShippingEU ?? item.artistVinylShippingEU ?? item.serverArtistShippingEU ?? 9.99) as number;
-    else single = (item.vinylShippingIntl ?? item.serverVinylShippingIntl ?? item.artistVinylShippingIntl ?? item.serverArtistShippingIntl ?? 14.99) as number;
+    const band = resolveShippingBand(item.type, item);
+    const sellerRate = rules.rates.find(r => r.sellerId === artistId && r.zoneId === zoneId && r.band === band);
+    const platformRate = findShippingRate(rules, null, zoneId, band);
+
+    let releaseSingle: unknown;
+    let artistSingle: unknown;
+    if (region === 'UK') {
+      releaseSingle = item.vinylShippingUK ?? item.serverVinylShippingUK;
+      artistSingle = item.artistVinylShippingUK ?? item.serverArtistShippingUK;
+    } else if (region === 'EU') {
+      releaseSingle = item.vinylShippingEU ?? item.serverVinylShippingEU;
+      artistSingle = item.artistVinylShippingEU ?? item.serverArtistShippingEU;
+    } else {
+      releaseSingle = item.vinylShippingIntl ?? item.serverVinylShippingIntl;
+      artistSingle = item.artistVinylShippingIntl ?? item.serverArtistShippingIntl;
+    }
+    const single = (releaseSingle ?? sellerRate?.firstItem ?? artistSingle ?? platformRate?.firstItem ?? REGION_FLOOR[region]) as number;
 
-    const additional = (item.vinylShippingAdditional ?? item.serverVinylShippingAdditional ?? item.artistVinylShippingAdditional ?? item.serverArtistShippingAdditional ?? 0.5) as number;
+    const additional = (item.vinylShippingAdditional ?? item.serverVinylShippingAdditional ??
+      sellerRate?.additionalItem ??
+      item.artistVinylShippingAdditional ?? item.serverArtistShippingAdditional ??
+      platformRate?.additionalItem ?? DEFAULT_CRATE_ADDITIONAL) as number;
     const qty = (item.quantity as number) || 1;
 
     let lineShip: number;
@@ -240,35 +419,45 @@ export function computeReleaseVinylShipping(
 }
 
 /**
- * Compute the order's merch shipping charge. Flat £4.99 unless every
- * supplier-attributed merch group qualifies for that supplier's free
- * shipping threshold. Items without a supplier (house merch) always charge.
+ * Compute the order's merch shipping charge: one charge per order, the
+ * highest first-item rate among the chargeable items' bands (supplier's rate
+ * table → platform rate table → £4.99) plus each band's additional-item rate
+ * for every further unit. Waived entirely when every supplier-attributed
+ * merch group qualifies for that supplier's free shipping threshold. Items
+ * without a supplier (house merch) always charge.
  */
-export async function computeMerchShipping(items: CartItem[]): Promise<number> {
+export async function computeMerchShipping(
+  items: CartItem[],
+  options: { rules?: ShippingRuleSet; zoneId?: string } = {}
+): Promise<number> {
   const merchItems = items.filter(i => i.type === 'merch');
   if (merchItems.length === 0) return 0;
+  const rules = options.rules || DEFAULT_SHIPPING_RULES;
+  const zoneId = options.zoneId || defaultZoneId('UK', rules);
 
   // Product-level free delivery (merch doc `freeShipping: true` — e.g. mugs,
   // where the Vistaprint postage is baked into the retail price): those items
   // never trigger the flat charge. Read from the product doc so the quote and
   // every checkout endpoint agree without trusting the client cart. Items we
-  // can't resolve stay chargeable — the safe default.
-  const chargeable: CartItem[] = [];
+  // can't resolve stay chargeable — the safe default. The same doc gives the
+  // item's band (tee vs other merch).
+  const chargeable: Array<{ item: CartItem; band: ShippingBand }> = [];
   for (const item of merchItems) {
     const productId = (item.productId || item.merchId || item.id) as string | undefined;
     let freeShipping = false;
+    let product: Record<string, unknown> | null = null;
     if (productId) {
       try {
-        const product = await getDocument('merch', productId);
+        product = await getDocument('merch', productId);
         freeShipping = product?.freeShipping === true;
       } catch { /* stays chargeable — the safe default */ }
     }
-    if (!freeShipping) chargeable.push(item);
+    if (!freeShipping) chargeable.push({ item, band: resolveShippingBand('merch', product || item) });
   }
   if (chargeable.length === 0) return 0;
 
   const bySupplier = new Map<string, CartItem[]>();
-  for (const item of chargeable) {
+  for (const { item } of chargeable) {
     const key = (item.supplierId as string) || '__platform__';
     if (!bySupplier.has(key)) bySupplier.set(key, []);
     bySupplier.get(key)!.push(item);
@@ -287,6 +476,17 @@ export async function computeMerchShipping(items: CartItem[]): Promise<number> {
       allWaived = false;
     }
   }
+  if (allWaived) return 0;
 
-  return allWaived ? 0 : MERCH_SHIPPING_FLAT;
+  let first = 0;
+  let additional = 0;
+  for (const { item, band } of chargeable) {
+    const rate = findShippingRate(rules, item.supplierId as string | undefined, zoneId, band)
+      || { firstItem: MERCH_SHIPPING_FLAT, additionalItem: 0 };
+    const qty = (item.quantity as number) || 1;
+    // Every unit is an "additional" until we know which item carries the base
+    additional += rate.additionalItem * qty;
+    if (rate.firstItem - rate.additionalItem > first) first = rate.firstItem - rate.additionalItem;
+  }
+  return Math.round((first + additional) * 100) / 100;
 }
@@ -4,6 +4,7 @@
 import { getDocument, getDocumentsBatch, updateDocument, updateDocumentConditional, queryCollection } from '../firebase-rest';
 import { log } from './types';
 import type { VariantStockEntry } from './types';
+import type { WaitlistEnv } from './waitlist';
 
 // Internal: batch-fetch all documents needed for cleanup items, grouped by collection
 async function prefetchCleanupDocs(
@@ -22,10 +23,12 @@ async function prefetchCleanupDocs(
   return { merchMap, releaseMap, listingMap };
 }
 
-// Cleanup expired reservations - called by cron endpoint
-export async function cleanupExpiredReservations(): Promise<number> {
+// Cleanup expired reservations - called by cron endpoint.
+// env is only used to email waitlist holds for the copies this frees up.
+export async function cleanupExpiredReservations(env?: WaitlistEnv): Promise<number> {
   const MAX_RETRIES = 3;
   let cleanedCount = 0;
+  const freedReleaseIds = new Set<string>();
 
   try {
     const now = new Date().toISOString();
@@ -63,7 +66,7 @@ export async function cleanupExpiredReservations(): Promise<number> {
 
     for (const reservation of expired) {
       // Decrement reserved counts per item type
-      for (const res of (reservation.items || []) as { itemType: string; productId: string; variantKey: string; quantity: number }[]) {
+      for (const res of (reservation.items || []) as { itemType: string; productId: string; variantKey: string; quantity: number; heldQuantity?: number }[]) {
         const itemType = res.itemType || 'merch';
 
         if (itemType === 'merch') {
@@ -115,8 +118,10 @@ export async function cleanupExpiredReservations(): Promise<number> {
                 : await getDocument('releases', res.productId);
               if (!release) break;
 
+              // Copies adopted from waitlist holds stay reserved for those holds
+              const freed = res.quantity - (res.heldQuantity ?? 0);
               const updateData: Record<string, unknown> = {
-                vinylReserved: Math.max(0, ((release.vinylReserved as number) ?? 0) - res.quantity),
+                vinylReserved: Math.max(0, ((release.vinylReserved as number) ?? 0) - freed),
                 updatedAt: new Date().toISOString()
               };
 
@@ -125,6 +130,7 @@ export async function cleanupExpiredReservations(): Promise<number> {
               } else {
                 await updateDocument('releases', res.productId, updateData);
               }
+              if (freed > 0) freedReleaseIds.add(res.productId);
               break;
             } catch (err: unknown) {
               if (err instanceof Error && err.message.includes('CONFLICT') && attempt < MAX_RETRIES - 1) continue;
@@ -154,6 +160,24 @@ export async function cleanupExpiredReservations(): Promise<number> {
         releasedAt: new Date().toISOString()
       });
       cleanedCount++;
+
+      // A checkout that took waitlist holds hands them back, to run out their
+      // own time; an unbought hold itself lapses
+      if (Array.isArray(reservation.waitlistHoldIds) && reservation.waitlistHoldIds.length > 0) {
+        const { restoreWaitlistHolds } = await import('./stock-reservation');
+        await restoreWaitlistHolds(reservation.waitlistHoldIds as string[]);
+      } else if (Array.isArray(reservation.waitlistEntryIds) && reservation.waitlistEntryIds.length > 0) {
+        const { settleWaitlistEntries } = await import('./waitlist');
+        await settleWaitlistEntries(reservation.waitlistEntryIds as string[], 'lapsed');
+      }
+    }
+
+    // Copies freed here roll on to the next person in each waitlist
+    if (freedReleaseIds.size > 0) {
+      const { offerWaitlistHolds } = await import('./waitlist');
+      for (const releaseId of freedReleaseIds) {
+        await offerWaitlistHolds(releaseId, env);
+      }
     }
   } catch (err: unknown) {
     log.error('[order-utils] Cleanup error:', err);
@@ -2,8 +2,8 @@
 // Stock reservation system — prevents overselling during checkout
 
 import { getDocument, getDocumentsBatch, updateDocument, setDocument, updateDocumentConditional, queryCollection } from '../firebase-rest';
-import { log, RESERVATION_TTL_MS } from './types';
-import type { CartItem, VariantStockEntry } from './types';
+import { log, RESERVATION_TTL_MS, heldCopies } from './types';
+import type { CartItem, VariantStockEntry, WaitlistHold } from './types';
 
 // Internal: batch-fetch all documents needed for a set of reservation items, grouped by collection
 async function prefetchReservationDocs(
@@ -49,7 +49,7 @@ function buildVinylReservationUpdate(
   };
 }
 
-async function rollbackReservations(reserved: { itemType: string; productId: string; variantKey: string; quantity: number; vinylPartId?: string | null }[]): Promise<void> {
+async function rollbackReservations(reserved: { itemType: string; productId: string; variantKey: string; quantity: number; vinylPartId?: string | null; heldQuantity?: number }[]): Promise<void> {
   const MAX_RETRIES = 3;
 
   // Batch pre-fetch all documents needed for rollback
@@ -107,7 +107,8 @@ async function rollbackReservations(reserved: { itemType: string; productId: str
             : await getDocument('releases', res.productId);
           if (!release) break;
 
-          const updateData = buildVinylReservationUpdate(release, res.vinylPartId, -res.quantity, new Date().toISOString());
+          // Held copies stay counted — they go back to their waitlist hold
+          const updateData = buildVinylReservationUpdate(release, res.vinylPartId, -(res.quantity - (res.heldQuantity ?? 0)), new Date().toISOString());
 
           if (release._updateTime) {
             await updateDocumentConditional('releases', res.productId, updateData, release._updateTime as string);
@@ -139,14 +140,75 @@ async function rollbackReservations(reserved: { itemType: string; productId: str
   }
 }
 
-// Reserve stock for checkout - prevents overselling
+// Internal: take over the buyer's live waitlist holds for a checkout. A taken
+// hold is marked 'transferred' — its copy stays counted as reserved and the
+// checkout's reservation adopts it instead of reserving another.
+async function takeWaitlistHolds(holds: WaitlistHold[]): Promise<WaitlistHold[]> {
+  const taken: WaitlistHold[] = [];
+  const now = new Date().toISOString();
+
+  for (const hold of holds) {
+    try {
+      const reservation = await getDocument('stock-reservations', hold.reservationId);
+      if (!reservation || reservation.status !== 'active' || String(reservation.expiresAt || '') <= now) continue;
+
+      const updateData = { status: 'transferred', transferredAt: now };
+      if (reservation._updateTime) {
+        await updateDocumentConditional('stock-reservations', hold.reservationId, updateData, reservation._updateTime as string);
+      } else {
+        await updateDocument('stock-reservations', hold.reservationId, updateData);
+      }
+      taken.push(hold);
+    } catch (err: unknown) {
+      // Swept or taken by a parallel checkout — reserve from open stock instead
+      log.error('[order-utils] Could not take waitlist hold', hold.reservationId, err);
+    }
+  }
+  return taken;
+}
+
+// Hand transferred holds back when the checkout that took them ends unpaid.
+// A hold past its own expiry is then swept as usual, rolling the copy on.
+export async function restoreWaitlistHolds(holdReservationIds: string[]): Promise<void> {
+  for (const id of holdReservationIds) {
+    try {
+      const reservation = await getDocument('stock-reservations', id);
+      if (!reservation || reservation.status !== 'transferred') continue;
+      await updateDocument('stock-reservations', id, { status: 'active', transferredAt: null });
+    } catch (err: unknown) {
+      log.error('[order-utils] Failed to restore waitlist hold', id, err);
+    }
+  }
+}
+
+// Reserve stock for checkout - prevents overselling.
+// Waitlist holds (lib/order/waitlist.ts) pass a longer ttlMs and the entries
+// they serve, so convert/expiry can settle those entries. A checkout passes
+// the buyer's own holds as waitlistHolds: their copies move into this
+// reservation, and back to the holds if it fails, is released or expires.
 export async function reserveStock(
   items: CartItem[],
   sessionId: string,
-  userId?: string
+  userId?: string,
+  options: { ttlMs?: number; waitlistEntryIds?: string[]; waitlistHolds?: WaitlistHold[] } = {}
+): Promise<{ success: boolean; reservationId?: string; expiresAt?: string; error?: string }> {
+  const holds = await takeWaitlistHolds(options.waitlistHolds || []);
+  const result = await reserveItems(items, sessionId, userId, options, holds);
+  if (!result.success && holds.length > 0) {
+    await restoreWaitlistHolds(holds.map(h => h.reservationId));
+  }
+  return result;
+}
+
+async function reserveItems(
+  items: CartItem[],
+  sessionId: string,
+  userId: string | undefined,
+  options: { ttlMs?: number; waitlistEntryIds?: string[] },
+  holds: WaitlistHold[]
 ): Promise<{ success: boolean; reservationId?: string; expiresAt?: string; error?: string }> {
   const now = new Date();
-  const expiresAt = new Date(now.getTime() + RESERVATION_TTL_MS).toISOString();
+  const expiresAt = new Date(now.getTime() + (options.ttlMs ?? RESERVATION_TTL_MS)).toISOString();
   const MAX_RETRIES = 3;
 
   // Collect merch items for reservation
@@ -167,7 +229,7 @@ export async function reserveStock(
   }
 
   // Build list of reservations to make (tagged by type for release/cleanup)
-  const reservations: { itemType: string; productId: string; variantKey: string; quantity: number; vinylPartId?: string | null }[] = [];
+  const reservations: { itemType: string; productId: string; variantKey: string; quantity: number; vinylPartId?: string | null; heldQuantity?: number }[] = [];
 
   for (const item of merchItems) {
     const size = (item.size || 'onesize').toLowerCase().replace(/\s/g, '-');
@@ -182,15 +244,20 @@ export async function reserveStock(
   }
 
   for (const item of vinylReleaseItems) {
+    const productId = (item.releaseId || item.productId) as string;
+    const quantity = item.quantity || 1;
+    const heldQuantity = Math.min(quantity, heldCopies(holds, productId, item.vinylPartId));
     reservations.push({
       itemType: 'vinyl-release',
-      productId: item.releaseId || item.productId,
+      productId,
       variantKey: '',
-      quantity: item.quantity || 1,
+      quantity,
       // Multi-part: tag the reservation with which part is being held so
       // rollback / release / cleanup all decrement the right counter.
       // Null/undefined for legacy single-vinyl releases.
       vinylPartId: item.vinylPartId || null,
+      // Copies adopted from waitlist holds — already counted as reserved
+      ...(heldQuantity > 0 ? { heldQuantity } : {}),
     });
   }
 
@@ -315,7 +382,7 @@ export async function reserveStock(
             const partStock = (part.stock as number) ?? 0;
             const partReserved = (part.reserved as number) ?? 0;
             const available = partStock - partReserved;
-            if (available < res.quantity) {
+            if (available < res.quantity - (res.heldQuantity ?? 0)) {
               await rollbackReservations(reservedSoFar);
               return { success: false, error: `Insufficient stock for ${part.name || res.vinylPartId}. Available: ${available}` };
             }
@@ -323,13 +390,13 @@ export async function reserveStock(
             const vinylStock = (release.vinylStock as number) ?? 0;
             const vinylReserved = (release.vinylReserved as number) ?? 0;
             const available = vinylStock - vinylReserved;
-            if (available < res.quantity) {
+            if (available < res.quantity - (res.heldQuantity ?? 0)) {
               await rollbackReservations(reservedSoFar);
               return { success: false, error: `Insufficient vinyl stock. Available: ${available}` };
             }
           }
 
-          const updateData = buildVinylReservationUpdate(release, res.vinylPartId, res.quantity, now.toISOString());
+          const updateData = buildVinylReservationUpdate(release, res.vinylPartId, res.quantity - (res.heldQuantity ?? 0), now.toISOString());
 
           if (release._updateTime) {
             await updateDocumentConditional('releases', res.productId, updateData, release._updateTime as string);
@@ -402,6 +469,7 @@ export async function reserveStock(
 
   // Store reservation record in Firestore
   const reservationId = `res_${Date.now().toString(36)}_${Math.random().toString(36).substring(2, 6)}`;
+  const waitlistEntryIds = [...(options.waitlistEntryIds || []), ...holds.map(h => h.entryId)];
   try {
     await setDocument('stock-reservations', reservationId, {
       id: reservationId,
@@ -410,7 +478,9 @@ export async function reserveStock(
       items: reservations,
       status: 'active',
       createdAt: now.toISOString(),
-      expiresAt
+      expiresAt,
+      ...(waitlistEntryIds.length ? { waitlistEntryIds } : {}),
+      ...(holds.length ? { waitlistHoldIds: holds.map(h => h.reservationId) } : {})
     });
   } catch (err: unknown) {
     log.error('[order-utils] Failed to store reservation record:', err);
@@ -450,7 +520,7 @@ export async function releaseReservation(sessionOrReservationId: string): Promis
     }
 
     // Batch pre-fetch all documents needed for release
-    const resItems = (reservation.items || []) as { itemType: string; productId: string; variantKey: string; quantity: number; vinylPartId?: string | null }[];
+    const resItems = (reservation.items || []) as { itemType: string; productId: string; variantKey: string; quantity: number; vinylPartId?: string | null; heldQuantity?: number }[];
     const { merchMap, releaseMap, listingMap } = await prefetchReservationDocs(resItems);
 
     // Decrement reserved counts on each product
@@ -504,7 +574,7 @@ export async function releaseReservation(sessionOrReservationId: string): Promis
               : await getDocument('releases', res.productId);
             if (!release) break;
 
-            const updateData = buildVinylReservationUpdate(release, res.vinylPartId, -res.quantity, new Date().toISOString());
+            const updateData = buildVinylReservationUpdate(release, res.vinylPartId, -(res.quantity - (res.heldQuantity ?? 0)), new Date().toISOString());
 
             if (release._updateTime) {
               await updateDocumentConditional('releases', res.productId, updateData, release._updateTime as string);
@@ -541,6 +611,11 @@ export async function releaseReservation(sessionOrReservationId: string): Promis
       releasedAt: new Date().toISOString()
     });
 
+    // Copies taken from waitlist holds go back to the buyer's holds
+    if (Array.isArray(reservation.waitlistHoldIds) && reservation.waitlistHoldIds.length > 0) {
+      await restoreWaitlistHolds(reservation.waitlistHoldIds as string[]);
+    }
+
     log.info('[order-utils] Reservation released:', reservation.id);
   } catch (err: unknown) {
     log.error('[order-utils] Error releasing reservation:', err);
@@ -576,6 +651,11 @@ export async function convertReservation(sessionOrReservationId: string): Promis
       convertedAt: new Date().toISOString()
     });
 
+    if (Array.isArray(reservation.waitlistEntryIds) && reservation.waitlistEntryIds.length > 0) {
+      const { settleWaitlistEntries } = await import('./waitlist');
+      await settleWaitlistEntries(reservation.waitlistEntryIds as string[], 'purchased');
+    }
+
     log.info('[order-utils] Reservation converted:', reservation.id);
   } catch (err: unknown) {
     log.error('[order-utils] Error converting reservation:', err);
@@ -3,10 +3,15 @@
 
 import { getDocument } from '../firebase-rest';
 import { log } from './types';
-import type { CartItem } from './types';
-
-// Validate stock availability before checkout
-export async function validateStock(items: CartItem[]): Promise<{ available: boolean, unavailableItems: string[] }> {
+import { heldCopies } from './types';
+import type { CartItem, WaitlistHold } from './types';
+import { resolveShippingBand } from './shipping-rules';
+import { releaseLabelName } from '../labels';
+import { loadBundle, resolveBundleReleases, bundleLabel, expandBundleItems } from './bundles';
+
+// Validate stock availability before checkout. Copies the buyer holds from a
+// waitlist are counted as available to them.
+export async function validateStock(items: CartItem[], waitlistHolds: WaitlistHold[] = []): Promise<{ available: boolean, unavailableItems: string[] }> {
   const unavailableItems: string[] = [];
 
   // Pre-fetch all needed documents in parallel to avoid N+1 sequential calls
@@ -102,7 +107,7 @@ export async function validateStock(items: CartItem[]): Promise<{ available: boo
               } else {
                 const partStock = (part.stock as number) ?? 0;
                 const partReserved = (part.reserved as number) ?? 0;
-                const available = partStock - partReserved;
+                const available = partStock - partReserved + heldCopies(waitlistHolds, releaseId, item.vinylPartId);
                 if (available < quantity) {
                   unavailableItems.push(`${item.name} - only ${available} available`);
                 }
@@ -110,7 +115,7 @@ export async function validateStock(items: CartItem[]): Promise<{ available: boo
             } else {
               const vinylStock = release.vinylStock ?? 0;
               const vinylReserved = release.vinylReserved ?? 0;
-              const available = vinylStock - vinylReserved;
+              const available = vinylStock - vinylReserved + heldCopies(waitlistHolds, releaseId);
               if (available < quantity) {
                 unavailableItems.push(`${item.name} (Vinyl) - only ${available} available`);
               }
@@ -221,6 +226,17 @@ export async function validateAndGetPrices(
     }
   }
   const uniqueArtistIds = [...new Set(artistIdsNeeded)];
+
+  // Bundles price from the bundle doc and need every included release
+  const bundleIds = [...new Set(items.filter(i => i.type === 'bundle').map(i => (i.bundleId || i.productId || i.id) as string).filter(Boolean))];
+  const bundleMap = new Map(await Promise.all(bundleIds.map(async id => {
+    const loaded = await loadBundle(id).catch((err: unknown) => {
+      log.warn(prefix, 'Failed to fetch bundle doc:', id, err);
+      return null;
+    });
+    return [id, loaded] as const;
+  })));
+
   // Use Promise.allSettled so one artist lookup failure doesn't block all price validation
   const artistSettled = await Promise.allSettled(uniqueArtistIds.map(id => getDocument('artists', id)));
   const artistMap = new Map(uniqueArtistIds.map((id, i) => {
@@ -244,6 +260,20 @@ export async function validateAndGetPrices(
           // Carry supplier for payouts + per-supplier free-shipping rules
           item.supplierId = product.supplierId || null;
         }
+      } else if (itemType === 'bundle') {
+        // No client-price fallback: a bundle that can't be priced can't be sold
+        const bundleId = (item.bundleId || item.productId || item.id) as string;
+        const loaded = bundleId ? bundleMap.get(bundleId) : null;
+        if (!loaded || !loaded.bundle.active || loaded.bundle.price <= 0 || loaded.releases.length === 0) {
+          return { validatedItems: [], hasPriceMismatch: true, validationError: `${item.name || 'Bundle'} is no longer available` };
+        }
+        serverPrice = loaded.bundle.price;
+        item.bundleId = bundleId;
+        item.bundleReleases = resolveBundleReleases(
+          loaded.bundle, loaded.releases, release => resolveReleaseDigitalPrices(release).albumPrice
+        );
+        const label = bundleLabel(loaded.releases);
+        if (label) Object.assign(item, label);
       } else if (itemType === 'vinyl' || itemType === 'digital' || itemType === 'track' || itemType === 'release') {
         if (itemType === 'vinyl' && item.sellerId && !item.releaseId) {
           const listingId = item.id || item.productId;
@@ -252,6 +282,7 @@ export async function validateAndGetPrices(
             if (listing) {
               serverPrice = listing.price || item.price;
               item.cratesShippingCost = listing.shippingCost || 0;
+              item.shippingBand = resolveShippingBand('vinyl', listing);
               item.isCratesItem = true;
             }
           }
@@ -260,6 +291,9 @@ export async function validateAndGetPrices(
           if (releaseId) {
             const release = releaseMap.get(releaseId);
             if (release) {
+              // Label-scoped discount codes match on these (never the client's)
+              item.labelAccountId = release.artistId || release.userId || null;
+              item.labelName = releaseLabelName(release);
               if (itemType === 'vinyl') {
                 // Multi-part: prefer the part's price so each Part can carry
                 // its own price (e.g. a heavy double LP Part 2 could be £18
@@ -278,6 +312,7 @@ export async function validateAndGetPrices(
                 item.vinylShippingEU = release.vinylShippingEU;
                 item.vinylShippingIntl = release.vinylShippingIntl;
                 item.vinylShippingAdditional = release.vinylShippingAdditional;
+                item.shippingBand = resolveShippingBand('vinyl', release);
 
                 const artistId = release.artistId || release.userId || item.artistId;
                 if (artistId) {
@@ -328,9 +363,11 @@ export async function validateAndGetPrices(
   return { validatedItems, hasPriceMismatch };
 }
 
-// Process cart items to add download URLs
+// Process cart items to add download URLs. Bundles are expanded first so
+// each included release becomes its own line with its own downloads.
 // Uses Promise.allSettled so one failed download URL fetch doesn't reject all items
-export async function processItemsWithDownloads(items: CartItem[]): Promise<CartItem[]> {
+export async function processItemsWithDownloads(cartItems: CartItem[]): Promise<CartItem[]> {
+  const items = expandBundleItems(cartItems);
   const results = await Promise.allSettled(items.map(async (item: CartItem) => {
     const releaseId = item.releaseId || item.productId || item.id;
 
@@ -17,8 +17,9 @@ export interface CartItem {
   name?: string;
   title?: string;
   artist?: string;
-  price?: number;
+  price?: number;               // Always GBP — see lib/currency.ts
   originalPrice?: number;
+  currency?: string;            // Buyer's presentment currency, when not GBP
   quantity?: number;
   size?: string;
   color?: string;
@@ -56,6 +57,10 @@ export interface CartItem {
   // fulfillment emails name the part via vinylPartName.
   vinylPartId?: string | null;
   vinylPartName?: string | null;
+  // Bundles (type='bundle'): the bundle doc id and, once priced, the releases
+  // it expands into after payment (see order/bundles.ts)
+  bundleId?: string;
+  bundleReleases?: import('./bundles').BundleRelease[];
   downloads?: Record<string, unknown>;
   [key: string]: unknown;
 }
@@ -68,3 +73,18 @@ export interface VariantStockEntry {
   sku?: string;
   [key: string]: unknown;
 }
+
+// A waitlist hold the buyer is spending at checkout (see order/waitlist.ts).
+// Each hold is one copy of the release, or of one part of it.
+export interface WaitlistHold {
+  entryId: string;
+  reservationId: string;
+  releaseId: string;
+  vinylPartId: string | null;
+}
+
+// Copies of a release (or part) the buyer already holds — stock checks count
+// these as theirs rather than as reserved by someone else
+export function heldCopies(holds: WaitlistHold[] | undefined, releaseId: string, vinylPartId?: string | null): number {
+  return (holds || []).filter(h => h.releaseId === releaseId && h.vinylPartId === (vinylPartId || null)).length;
+}
@@ -0,0 +1,245 @@
+// src/lib/order/vat.ts
+// VAT per order line. Shop prices are VAT-inclusive: the buyer pays the same
+// total whatever their country, and the VAT is the share of that price owed
+// to HMRC (UK sales) or declared through the One Stop Shop (EU consumers).
+//
+// Place of supply depends on what was bought:
+// - digital (downloads, bundles, Plus) — taxed where the buyer is: UK VAT for
+//   UK buyers, the buyer country's rate for EU consumers (OSS), reverse charge
+//   for EU businesses with a VAT number, outside scope for everyone else
+// - physical (vinyl, merch) and their postage — UK VAT when delivered in the
+//   UK, zero-rated export otherwise
+// - gift cards — multi-purpose vouchers, outside scope until redeemed
+
+import { DEFAULT_SHIPPING_RULES } from './shipping-rules';
+import type { CartItem } from './types';
+
+export type VatLineKind = 'digital' | 'physical' | 'shipping' | 'gift_card';
+export type VatTreatment = 'uk' | 'oss' | 'reverse_charge' | 'export' | 'outside_scope';
+
+export const UK_VAT_RATE = 20;
+
+// EU standard rates (%) for OSS — every digital line we sell is standard rated
+export const EU_VAT_RATES: Record<string, number> = {
+  AT: 20, BE: 21, BG: 20, CY: 19, CZ: 21, DE: 19, DK: 25, EE: 24, ES: 21,
+  FI: 25.5, FR: 20, GR: 24, HR: 25, HU: 27, IE: 23, IT: 22, LT: 21, LU: 17,
+  LV: 21, MT: 18, NL: 21, PL: 23, PT: 23, RO: 21, SE: 25, SI: 22, SK: 23,
+};
+
+/** Who the buyer is for VAT purposes — stored on the order as `vat.context` */
+export interface VatContext {
+  country: string;               // ISO code of the buyer's billing country
+  shippingCountry: string | null;
+  vatNumber: string | null;      // buyer's VAT number, when they gave one
+}
+
+export interface VatLine {
+  description: string;
+  kind: VatLineKind;
+  treatment: VatTreatment;
+  country: string;               // country whose VAT applies (GB for UK/export/outside scope)
+  rate: number;                  // percent
+  quantity: number;
+  gross: number;                 // line total as charged
+  net: number;
+  vat: number;
+}
+
+export interface VatRateSummary {
+  treatment: VatTreatment;
+  country: string;
+  rate: number;
+  net: number;
+  vat: number;
+  gross: number;
+}
+
+export interface OrderVat {
+  context: VatContext;
+  lines: VatLine[];
+  byRate: VatRateSummary[];
+  net: number;
+  vat: number;
+  gross: number;
+}
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+/**
+ * Normalise a country (ISO code, display name or alias — orders store both)
+ * to an ISO code. Unlike countryToISO this also resolves countries we don't
+ * ship to, since digital buyers can be anywhere.
+ */
+export function vatCountryCode(country: string | null | undefined): string | null {
+  const value = (country || '').trim();
+  if (!value) return null;
+  if (/^[A-Za-z]{2}$/.test(value)) {
+    const iso = value.toUpperCase();
+    return iso === 'UK' ? 'GB' : iso === 'EL' ? 'GR' : iso;
+  }
+  const needle = value.toLowerCase();
+  const match = DEFAULT_SHIPPING_RULES.countries.find(c =>
+    c.name.toLowerCase() === needle || c.aliases.some(a => a.toLowerCase() === needle)
+  );
+  return match?.iso || null;
+}
+
+/** Loose VAT number normalisation: uppercase, no spaces or punctuation */
+export function normaliseVatNumber(vatNumber: string | null | undefined): string | null {
+  const cleaned = (vatNumber || '').toUpperCase().replace(/[^A-Z0-9]/g, '');
+  return /^[A-Z]{2}[A-Z0-9]{2,13}$/.test(cleaned) ? cleaned : null;
+}
+
+/**
+ * Build the VAT context from what checkout collected. The billing country is
+ * the place-of-supply evidence for digital sales; the shipping country stands
+ * in when there is none (PayPal guests, older sessions), then the UK.
+ */
+export function buildVatContext(input: {
+  billingCountry?: string | null;
+  shippingCountry?: string | null;
+  vatNumber?: string | null;
+}): VatContext {
+  const shippingCountry = vatCountryCode(input.shippingCountry);
+  return {
+    country: vatCountryCode(input.billingCountry) || shippingCountry || 'GB',
+    shippingCountry,
+    vatNumber: normaliseVatNumber(input.vatNumber),
+  };
+}
+
+/**
+ * VAT context from a completed Stripe Checkout session: the billing address
+ * and any tax ID the buyer entered (tax_id_collection). Accepts the session
+ * loosely since the webhook and verify-session type it differently.
+ */
+export function stripeVatContext(
+  session: { customer_details?: unknown } | null | undefined,
+  shippingCountry?: string | null
+): VatContext {
+  const details = (session?.customer_details || {}) as {
+    address?: { country?: string | null } | null;
+    tax_ids?: Array<{ type?: string; value?: string | null }> | null;
+  };
+  const taxId = (details.tax_ids || []).find(t => t?.type === 'eu_vat' || t?.type === 'gb_vat') || details.tax_ids?.[0];
+  return buildVatContext({
+    billingCountry: details.address?.country,
+    shippingCountry,
+    vatNumber: taxId?.value,
+  });
+}
+
+export function vatLineKind(item: Pick<CartItem, 'type'> & Record<string, unknown>): VatLineKind {
+  if (item.type === 'giftcard' || item.type === 'gift_card') return 'gift_card';
+  if (item.type === 'vinyl' || item.type === 'merch' || item.isPhysical === true) return 'physical';
+  return 'digital';
+}
+
+/** Which VAT regime applies to a line of this kind, and at what rate */
+export function vatTreatment(
+  kind: VatLineKind,
+  context: VatContext
+): { treatment: VatTreatment; country: string; rate: number } {
+  if (kind === 'gift_card') {
+    return { treatment: 'outside_scope', country: 'GB', rate: 0 };
+  }
+  if (kind === 'physical' || kind === 'shipping') {
+    const destination = context.shippingCountry || context.country;
+    return destination === 'GB'
+      ? { treatment: 'uk', country: 'GB', rate: UK_VAT_RATE }
+      : { treatment: 'export', country: destination, rate: 0 };
+  }
+  if (context.country === 'GB') {
+    return { treatment: 'uk', country: 'GB', rate: UK_VAT_RATE };
+  }
+  const euRate = EU_VAT_RATES[context.country];
+  if (euRate == null) {
+    return { treatment: 'outside_scope', country: context.country, rate: 0 };
+  }
+  return context.vatNumber
+    ? { treatment: 'reverse_charge', country: context.country, rate: 0 }
+    : { treatment: 'oss', country: context.country, rate: euRate };
+}
+
+/** The VAT inside a VAT-inclusive amount, to the penny */
+export function vatFromGross(gross: number, rate: number): number {
+  if (rate <= 0) return 0;
+  return round2(gross * rate / (100 + rate));
+}
+
+function vatLine(description: string, kind: VatLineKind, quantity: number, gross: number, context: VatContext): VatLine {
+  const { treatment, country, rate } = vatTreatment(kind, context);
+  const lineGross = round2(gross);
+  const vat = vatFromGross(lineGross, rate);
+  return { description, kind, treatment, country, rate, quantity, gross: lineGross, net: round2(lineGross - vat), vat };
+}
+
+/** VAT on a set of item lines (no postage) — the ledger uses this per seller */
+export function calculateItemsVat(
+  items: Array<Pick<CartItem, 'type' | 'price' | 'quantity'> & Record<string, unknown>>,
+  context: VatContext
+): number {
+  return round2(items.reduce((sum, item) => {
+    const gross = (Number(item.price) || 0) * (Number(item.quantity) || 1);
+    return sum + vatLine('', vatLineKind(item), 1, gross, context).vat;
+  }, 0));
+}
+
+/** VAT on postage, which follows the physical goods it delivers */
+export function calculateShippingVat(shipping: number, context: VatContext): number {
+  return shipping > 0 ? vatLine('', 'shipping', 1, shipping, context).vat : 0;
+}
+
+/**
+ * Full VAT breakdown for an order: one line per item plus postage, and the
+ * totals per treatment/country/rate that invoices and the VAT return need.
+ * Item prices are what was charged (already net of any discount code).
+ */
+export function calculateOrderVat(
+  order: { items: CartItem[]; shipping?: number },
+  context: VatContext
+): OrderVat {
+  const lines: VatLine[] = order.items.map(item => {
+    const quantity = Number(item.quantity) || 1;
+    return vatLine(
+      String(item.name || item.title || 'Item'),
+      vatLineKind(item),
+      quantity,
+      (Number(item.price) || 0) * quantity,
+      context
+    );
+  });
+  if ((order.shipping || 0) > 0) {
+    lines.push(vatLine('Shipping', 'shipping', 1, order.shipping || 0, context));
+  }
+
+  const groups = new Map<string, VatRateSummary>();
+  for (const line of lines) {
+    const key = `${line.treatment}:${line.country}:${line.rate}`;
+    const group = groups.get(key) || { treatment: line.treatment, country: line.country, rate: line.rate, net: 0, vat: 0, gross: 0 };
+    group.net = round2(group.net + line.net);
+    group.vat = round2(group.vat + line.vat);
+    group.gross = round2(group.gross + line.gross);
+    groups.set(key, group);
+  }
+
+  return {
+    context,
+    lines,
+    byRate: [...groups.values()],
+    net: round2(lines.reduce((sum, l) => sum + l.net, 0)),
+    vat: round2(lines.reduce((sum, l) => sum + l.vat, 0)),
+    gross: round2(lines.reduce((sum, l) => sum + l.gross, 0)),
+  };
+}
+
+/** Short explanation printed on invoices and the VAT return for each regime */
+export function vatTreatmentLabel(treatment: VatTreatment, country: string): string {
+  switch (treatment) {
+    case 'uk': return 'UK VAT';
+    case 'oss': return `${country} VAT (One Stop Shop)`;
+    case 'reverse_charge': return 'Reverse charge — customer to account for VAT';
+    case 'export': return 'Zero-rated export';
+    default: return 'Outside the scope of UK VAT';
+  }
+}
@@ -0,0 +1,363 @@
+// src/lib/order/waitlist.ts
+// Vinyl waitlist — a first-come queue per release (or per part of a
+// multi-part release). When copies come back — a restock, a refund, an
+// expired checkout reservation — the next person in line gets a hold through
+// reserveStock and a personal email. A hold is an ordinary stock-reservation
+// with a longer TTL, tagged with the waitlist entry, so converting it marks
+// the entry purchased and the expiry sweep lapses it and rolls the copy on.
+// The buyer's checkout takes the hold over (reserveStock waitlistHolds) and
+// hands it back if that checkout fails or expires.
+
+import { queryCollection, getDocument, addDocument, updateDocument, clearCache } from '../firebase-rest';
+import { SITE_URL } from '../constants';
+import { emailWrapper, ctaButton, esc } from '../email-wrapper';
+import { sendResendEmail } from '../email';
+import { log, RESERVATION_TTL_MS } from './types';
+import type { CartItem, WaitlistHold } from './types';
+import { reserveStock, releaseReservation } from './stock-reservation';
+
+export const WAITLIST_COLLECTION = 'vinylWaitlist';
+export const WAITLIST_HOLD_TTL_MS = 24 * 60 * 60 * 1000; // 24 hours to buy
+
+// Per-run caps so a big restock can't fan out into hundreds of writes/emails
+const MAX_OFFERS_PER_RELEASE = 25;
+const MAX_RELEASES_PER_SWEEP = 20;
+
+export type WaitlistStatus = 'waiting' | 'offered' | 'purchased' | 'lapsed' | 'cancelled';
+
+export interface WaitlistEntry {
+  id: string;
+  releaseId: string;
+  vinylPartId: string | null;
+  releaseName: string;
+  email: string;
+  userId: string | null;
+  status: WaitlistStatus;
+  createdAt: string;
+  reservationId?: string | null;
+  offeredAt?: string | null;
+  holdExpiresAt?: string | null;
+}
+
+export type WaitlistEnv = { RESEND_API_KEY?: string; DB?: import('@cloudflare/workers-types').D1Database } | Record<string, unknown> | undefined;
+
+function toEntry(doc: Record<string, unknown>): WaitlistEntry {
+  return {
+    id: String(doc.id),
+    releaseId: String(doc.releaseId || ''),
+    vinylPartId: (doc.vinylPartId as string) || null,
+    releaseName: String(doc.releaseName || 'Vinyl release'),
+    email: String(doc.email || ''),
+    userId: (doc.userId as string) || null,
+    status: (doc.status as WaitlistStatus) || 'waiting',
+    createdAt: String(doc.createdAt || ''),
+    reservationId: (doc.reservationId as string) || null,
+    offeredAt: (doc.offeredAt as string) || null,
+    holdExpiresAt: (doc.holdExpiresAt as string) || null,
+  };
+}
+
+async function queueFor(releaseId: string, status: WaitlistStatus): Promise<WaitlistEntry[]> {
+  const docs = await queryCollection(WAITLIST_COLLECTION, {
+    filters: [
+      { field: 'releaseId', op: 'EQUAL', value: releaseId },
+      { field: 'status', op: 'EQUAL', value: status }
+    ],
+    limit: 500,
+    skipCache: true
+  });
+  // Sorted here rather than in Firestore so no composite index is needed
+  return docs.map(toEntry).sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+}
+
+/** Copies that can be sold right now: stock minus anything reserved in checkouts or holds. */
+export function availableVinyl(release: Record<string, unknown>, vinylPartId: string | null): number {
+  const parts = Array.isArray(release.vinylParts) ? release.vinylParts as Record<string, unknown>[] : [];
+  if (vinylPartId && parts.length > 0) {
+    const part = parts.find((_p, i) => `part-${i + 1}` === vinylPartId);
+    if (!part || part.pressed === false) return 0;
+    return ((part.stock as number) ?? 0) - ((part.reserved as number) ?? 0);
+  }
+  return ((release.vinylStock as number) ?? 0) - ((release.vinylReserved as number) ?? 0);
+}
+
+// Join the queue — one live entry per email per release/part
+export async function joinWaitlist(params: {
+  releaseId: string;
+  vinylPartId?: string | null;
+  releaseName?: string;
+  email: string;
+  userId?: string | null;
+}): Promise<{ id: string; position: number; alreadyQueued: boolean }> {
+  const email = params.email.toLowerCase();
+  const vinylPartId = params.vinylPartId || null;
+  const waiting = await queueFor(params.releaseId, 'waiting');
+  const sameSlot = waiting.filter(e => e.vinylPartId === vinylPartId);
+
+  const existing = sameSlot.find(e => e.email === email);
+  if (existing) {
+    return { id: existing.id, position: sameSlot.indexOf(existing) + 1, alreadyQueued: true };
+  }
+
+  const offered = (await queueFor(params.releaseId, 'offered')).find(e => e.email === email && e.vinylPartId === vinylPartId);
+  if (offered) {
+    return { id: offered.id, position: 0, alreadyQueued: true };
+  }
+
+  const { id } = await addDocument(WAITLIST_COLLECTION, {
+    releaseId: params.releaseId,
+    vinylPartId,
+    releaseName: params.releaseName || 'Vinyl release',
+    email,
+    userId: params.userId || null,
+    status: 'waiting',
+    createdAt: new Date().toISOString()
+  });
+  return { id, position: sameSlot.length + 1, alreadyQueued: false };
+}
+
+// Leave the queue; an unused hold goes straight to the next person
+export async function leaveWaitlist(email: string, releaseId: string, env?: WaitlistEnv): Promise<number> {
+  const address = email.toLowerCase();
+  const [waiting, offered] = await Promise.all([queueFor(releaseId, 'waiting'), queueFor(releaseId, 'offered')]);
+  const mine = [...waiting, ...offered].filter(e => e.email === address);
+
+  for (const entry of mine) {
+    await updateDocument(WAITLIST_COLLECTION, entry.id, { status: 'cancelled', cancelledAt: new Date().toISOString() });
+    if (entry.status === 'offered' && entry.reservationId) {
+      await releaseReservation(entry.reservationId);
+    }
+  }
+  if (mine.some(e => e.status === 'offered')) {
+    await offerWaitlistHolds(releaseId, env);
+  }
+  return mine.length;
+}
+
+function buildHoldEmailHtml(entry: WaitlistEntry, checkoutUrl: string, expiresAt: string): string {
+  const deadline = new Date(expiresAt).toUTCString().replace(':00 GMT', ' GMT');
+  const content = `
+              <p style="color: #ffffff; font-size: 18px; margin: 0 0 20px; line-height: 1.6;" class="text-primary">
+                You're up!
+              </p>
+
+              <p style="color: #a3a3a3; font-size: 16px; margin: 0 0 25px; line-height: 1.6;" class="text-secondary">
+                A copy of <strong style="color: #ffffff;">${esc(entry.releaseName)}</strong> came back into stock and
+                we've set it aside for you. It's held until <strong style="color: #ffffff;">${esc(deadline)}</strong> —
+                check out with this email address (or signed in to your account) to use it.
+              </p>
+
+              ${ctaButton('BUY YOUR COPY', checkoutUrl)}
+
+              <p style="color: #737373; font-size: 13px; margin: 0; line-height: 1.6;" class="text-muted">
+                If you don't buy it in time, the copy goes to the next person on the waitlist.
+              </p>`;
+
+  return emailWrapper(content, {
+    title: 'Your waitlist copy is held',
+    headerText: 'Your copy is on hold',
+    footerExtra: `<a href="${SITE_URL}/api/notify-restock/?email=${encodeURIComponent(entry.email)}&productId=${encodeURIComponent(entry.releaseId)}&action=unsubscribe" style="font-size: 11px; color: #525252; text-decoration: underline;" class="text-muted">Leave the waitlist</a>`,
+  });
+}
+
+// Offer free copies of a release to the front of its queue. Safe to call
+// whenever stock might have gone up — it does nothing when nothing is free.
+export async function offerWaitlistHolds(releaseId: string, env?: WaitlistEnv): Promise<number> {
+  let offeredCount = 0;
+
+  try {
+    const waiting = await queueFor(releaseId, 'waiting');
+    if (waiting.length === 0) return 0;
+
+    clearCache(`doc:releases:${releaseId}`);
+    const release = await getDocument('releases', releaseId);
+    if (!release) return 0;
+
+    const available = new Map<string | null, number>();
+    const resendKey = (env?.RESEND_API_KEY as string | undefined) || import.meta.env.RESEND_API_KEY;
+
+    // Signups only carry what the page sent; the release doc has the real name
+    const releaseName = String(release.releaseName || release.name || waiting[0]?.releaseName);
+
+    for (const queued of waiting) {
+      if (offeredCount >= MAX_OFFERS_PER_RELEASE) break;
+      const entry = { ...queued, releaseName };
+      if (!available.has(entry.vinylPartId)) {
+        available.set(entry.vinylPartId, availableVinyl(release, entry.vinylPartId));
+      }
+      if ((available.get(entry.vinylPartId) ?? 0) < 1) continue;
+
+      const item: CartItem = {
+        type: 'vinyl',
+        releaseId,
+        productId: releaseId,
+        name: entry.releaseName,
+        quantity: 1,
+        vinylPartId: entry.vinylPartId
+      };
+      const hold = await reserveStock([item], `waitlist_${entry.id}`, entry.userId || undefined, {
+        ttlMs: WAITLIST_HOLD_TTL_MS,
+        waitlistEntryIds: [entry.id]
+      });
+      if (!hold.success || !hold.reservationId || !hold.expiresAt) {
+        // Someone beat the queue to it — nothing left for this slot
+        available.set(entry.vinylPartId, 0);
+        continue;
+      }
+      available.set(entry.vinylPartId, (available.get(entry.vinylPartId) ?? 1) - 1);
+
+      await updateDocument(WAITLIST_COLLECTION, entry.id, {
+        status: 'offered',
+        reservationId: hold.reservationId,
+        offeredAt: new Date().toISOString(),
+        holdExpiresAt: hold.expiresAt
+      });
+      offeredCount++;
+
+      if (resendKey) {
+        const result = await sendResendEmail({
+          apiKey: resendKey,
+          from: 'Fresh Wax <shop@freshwax.co.uk>',
+          to: entry.email,
+          subject: `Your copy is on hold: ${entry.releaseName}`,
+          html: buildHoldEmailHtml(entry, `${SITE_URL}/cart/?hold=${encodeURIComponent(entry.id)}`, hold.expiresAt),
+          template: 'vinyl-waitlist-hold',
+          db: env?.DB as import('@cloudflare/workers-types').D1Database | undefined,
+        });
+        if (!result.success) {
+          log.error('[waitlist] Hold email failed for', entry.id, result.error);
+        }
+      }
+      log.info('[waitlist] Hold offered:', entry.id, 'release:', releaseId, 'until', hold.expiresAt);
+    }
+  } catch (err: unknown) {
+    log.error('[waitlist] Failed to offer holds for', releaseId, err);
+  }
+
+  return offeredCount;
+}
+
+// A live hold belongs to a buyer by account, else by email
+function isHeldBy(entry: WaitlistEntry, customer?: { email?: string | null; userId?: string | null } | null): boolean {
+  if ((entry.holdExpiresAt || '') <= new Date().toISOString()) return false;
+  return entry.userId && customer?.userId
+    ? entry.userId === customer.userId
+    : entry.email === (customer?.email || '').toLowerCase();
+}
+
+// Checkout: the buyer's own holds on vinyl in their cart. Nothing is released
+// here — stock validation counts these copies as theirs, and reserveStock
+// takes the holds over once the checkout's reservation is made.
+export async function findWaitlistHolds(
+  items: Array<{ type?: string | null; releaseId?: string | null; productId?: string | null; sellerId?: string | null }>,
+  customer?: { email?: string | null; userId?: string | null } | null
+): Promise<WaitlistHold[]> {
+  const releaseIds = [...new Set(items
+    .filter(i => i.type === 'vinyl' && (i.releaseId || i.productId) && !(i.sellerId && !i.releaseId))
+    .map(i => String(i.releaseId || i.productId)))];
+  if (releaseIds.length === 0) return [];
+
+  const holds: WaitlistHold[] = [];
+  for (const releaseId of releaseIds) {
+    try {
+      const offered = await queueFor(releaseId, 'offered');
+      const entry = offered.find(e => e.reservationId && isHeldBy(e, customer));
+      if (!entry?.reservationId) continue;
+      holds.push({ entryId: entry.id, reservationId: entry.reservationId, releaseId, vinylPartId: entry.vinylPartId });
+    } catch (err: unknown) {
+      log.error('[waitlist] Failed to look up hold for', releaseId, err);
+    }
+  }
+  return holds;
+}
+
+// The hold email's link: the held copy as a cart line, for its buyer only
+export async function waitlistHoldCartLine(
+  entryId: string,
+  customer: { email?: string | null; userId?: string | null }
+): Promise<CartItem | null> {
+  const doc = await getDocument(WAITLIST_COLLECTION, entryId);
+  if (!doc) return null;
+  const entry = toEntry(doc);
+  if (entry.status !== 'offered' || !isHeldBy(entry, customer)) return null;
+
+  const release = await getDocument('releases', entry.releaseId);
+  if (!release) return null;
+
+  const parts = Array.isArray(release.vinylParts) ? release.vinylParts as Record<string, unknown>[] : [];
+  const part = entry.vinylPartId ? parts.find((_p, i) => `part-${i + 1}` === entry.vinylPartId) : undefined;
+  const title = String(release.releaseName || release.title || entry.releaseName);
+  const artist = String(release.artistName || '');
+  const artwork = String(release.coverArtUrl || '');
+
+  return {
+    id: entry.releaseId,
+    releaseId: entry.releaseId,
+    type: 'vinyl',
+    format: 'vinyl',
+    name: artist ? `${artist} - ${title}` : title,
+    title,
+    artist,
+    artistId: (release.artistId || release.userId || undefined) as string | undefined,
+    price: Number(part?.price || release.vinylPrice || release.price || 0),
+    image: artwork,
+    artwork,
+    quantity: 1,
+    ...(entry.vinylPartId ? { vinylPartId: entry.vinylPartId } : {}),
+  };
+}
+
+// Reservation lifecycle hook — purchased on convert, lapsed on expiry
+export async function settleWaitlistEntries(entryIds: string[], outcome: 'purchased' | 'lapsed'): Promise<void> {
+  for (const id of entryIds) {
+    try {
+      const entry = await getDocument(WAITLIST_COLLECTION, id);
+      if (!entry || entry.status !== 'offered') continue;
+      await updateDocument(WAITLIST_COLLECTION, id, {
+        status: outcome,
+        [outcome === 'purchased' ? 'purchasedAt' : 'lapsedAt']: new Date().toISOString()
+      });
+    } catch (err: unknown) {
+      log.error('[waitlist] Failed to mark entry', id, outcome, err);
+    }
+  }
+}
+
+// Cron sweep — lapses offers still open well past their hold (the reservation
+// sweep normally settles them first), and offers any copies freed outside the
+// reservation lifecycle.
+export async function processVinylWaitlists(env?: WaitlistEnv): Promise<{ lapsed: number; offered: number }> {
+  let lapsed = 0;
+  let offered = 0;
+
+  try {
+    // A hold taken by a checkout comes back within RESERVATION_TTL_MS of that
+    // checkout ending, so anything still offered after that has gone cold
+    const cutoff = new Date(Date.now() - RESERVATION_TTL_MS).toISOString();
+    const stale = (await queryCollection(WAITLIST_COLLECTION, {
+      filters: [{ field: 'status', op: 'EQUAL', value: 'offered' }],
+      limit: 200,
+      skipCache: true
+    })).map(toEntry).filter(e => (e.holdExpiresAt || '') < cutoff);
+
+    for (const entry of stale) {
+      if (entry.reservationId) await releaseReservation(entry.reservationId);
+      await updateDocument(WAITLIST_COLLECTION, entry.id, { status: 'lapsed', lapsedAt: new Date().toISOString() });
+      lapsed++;
+    }
+
+    const waiting = await queryCollection(WAITLIST_COLLECTION, {
+      filters: [{ field: 'status', op: 'EQUAL', value: 'waiting' }],
+      limit: 500,
+      skipCache: true
+    });
+    const releaseIds = [...new Set(waiting.map(d => String(d.releaseId || '')).filter(Boolean))].slice(0, MAX_RELEASES_PER_SWEEP);
+    for (const releaseId of releaseIds) {
+      offered += await offerWaitlistHolds(releaseId, env);
+    }
+  } catch (err: unknown) {
+    log.error('[waitlist] Sweep failed:', err);
+  }
+
+  return { lapsed, offered };
+}
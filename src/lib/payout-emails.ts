@@ -1,5 +1,5 @@
 // src/lib/payout-emails.ts
-// Email notifications for artist payouts and refunds
+// Email notifications for seller payouts, refunds and payout setup
 
 import { createLogger } from './api-utils';
 import { SITE_URL } from './constants';
@@ -160,3 +160,231 @@ export async function sendRefundNotificationEmail(
     return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
   }
 }
+
+// Statement body for a scheduled payout: one row per sale, fee, refund,
+// clawback and advance recoupment the payout covers, then the totals
+export function buildPayoutStatementHtml(
+  artistName: string,
+  statement: import('./payout-schedule').PayoutStatement,
+  historyPath = '/artist/payouts'
+): string {
+  const money = (n: number) => `${n < 0 ? '-' : ''}\u00a3${Math.abs(n).toFixed(2)}`;
+  const day = (iso: string) => iso.slice(0, 10);
+  const { lines, totals } = statement;
+
+  const rows = lines.map(line => `
+                <tr>
+                  <td style="color: #737373; font-size: 13px; padding: 6px 0; border-bottom: 1px solid #2a2a2a;" class="text-muted">${esc(day(line.date))}</td>
+                  <td style="color: #a3a3a3; font-size: 13px; padding: 6px 8px; border-bottom: 1px solid #2a2a2a;" class="text-secondary">${line.orderNumber ? '#' + esc(line.orderNumber) + ' — ' : ''}${esc(line.description)}</td>
+                  <td align="right" style="color: ${line.amount < 0 ? '#ef4444' : '#ffffff'}; font-size: 13px; padding: 6px 0; border-bottom: 1px solid #2a2a2a; white-space: nowrap;" class="text-primary">${money(line.amount)}</td>
+                </tr>`).join('');
+
+  const content = `
+              <p style="color: #ffffff; font-size: 18px; margin: 0 0 20px; line-height: 1.6;" class="text-primary">
+                Hey ${esc(artistName) || 'there'},
+              </p>
+
+              <p style="color: #a3a3a3; font-size: 16px; margin: 0 0 25px; line-height: 1.6;" class="text-secondary">
+                We've just sent <strong style="color: #22c55e;">${money(totals.net)}</strong> for ${statement.orderCount} order${statement.orderCount === 1 ? '' : 's'} between ${esc(day(statement.periodStart))} and ${esc(day(statement.periodEnd))}. Here's everything it covers.
+              </p>
+
+              <table role="presentation" width="100%" cellpadding="0" cellspacing="0" style="margin-bottom: 25px;">
+                <tr>
+                  <td style="color: #737373; font-size: 12px; padding-bottom: 8px;" class="text-muted">Date</td>
+                  <td style="color: #737373; font-size: 12px; padding: 0 8px 8px;" class="text-muted">Item</td>
+                  <td align="right" style="color: #737373; font-size: 12px; padding-bottom: 8px;" class="text-muted">Amount</td>
+                </tr>${rows}
+              </table>
+
+              ${detailBox([
+                { label: 'Sales', value: money(totals.sales) },
+                { label: 'Fees', value: money(-totals.fees), valueColor: '#ef4444' },
+                ...(totals.refunds > 0 ? [{ label: 'Refunds', value: money(-totals.refunds), valueColor: '#ef4444' }] : []),
+                ...(totals.clawbacks > 0 ? [{ label: 'Earlier refunds recovered', value: money(-totals.clawbacks), valueColor: '#ef4444' }] : []),
+                ...(totals.recoupments > 0 ? [{ label: 'Recouped against advances', value: money(-totals.recoupments), valueColor: '#ef4444' }] : []),
+                ...(totals.payoutFee > 0 ? [{ label: 'Payout fee', value: money(-totals.payoutFee), valueColor: '#ef4444' }] : []),
+                { label: 'Paid to you', value: money(totals.net), valueColor: '#22c55e' },
+              ])}
+
+              ${ctaButton('View Payout History', `${SITE_URL}${historyPath}`, { gradient: 'linear-gradient(135deg, #3b82f6 0%, #2563eb 100%)' })}
+
+              <p style="color: #737373; font-size: 13px; margin: 0; line-height: 1.6;" class="text-muted">
+                Keep this statement for your records. Questions? Reply to this email and we'll help you out.
+              </p>`;
+
+  return emailWrapper(content, {
+    title: 'Payout Statement',
+    headerText: 'Your Payout Statement',
+    headerGradient: 'linear-gradient(135deg, #22c55e 0%, #16a34a 100%)',
+  });
+}
+
+// Send the statement of a scheduled (weekly / monthly) payout
+export async function sendPayoutStatementEmail(
+  artistEmail: string,
+  artistName: string,
+  statement: import('./payout-schedule').PayoutStatement,
+  env: { RESEND_API_KEY?: string; DB?: import('@cloudflare/workers-types').D1Database } | undefined,
+  historyPath?: string
+): Promise<{ success: boolean; messageId?: string; error?: string }> {
+  try {
+    if (!artistEmail) {
+      log.info('No email address for artist, skipping payout statement');
+      return { success: false, error: 'No email address' };
+    }
+
+    const RESEND_API_KEY = env?.RESEND_API_KEY || import.meta.env.RESEND_API_KEY;
+
+    if (!RESEND_API_KEY) {
+      log.info('No Resend API key configured, skipping payout statement');
+      return { success: false, error: 'Email service not configured' };
+    }
+
+    const subject = `Payout statement: \u00a3${statement.totals.net.toFixed(2)} for ${statement.orderCount} order${statement.orderCount === 1 ? '' : 's'}`;
+    const result = await sendResendEmail({
+      apiKey: RESEND_API_KEY,
+      from: 'Fresh Wax <noreply@freshwax.co.uk>',
+      to: artistEmail,
+      subject,
+      html: buildPayoutStatementHtml(artistName, statement, historyPath),
+      template: 'payout-statement',
+      db: env?.DB,
+    });
+
+    return result;
+
+  } catch (error: unknown) {
+    log.error('Error sending payout statement email:', error);
+    return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
+  }
+}
+
+// Tell a seller that earnings are waiting but can't be paid out yet, and what to fix
+export async function sendPayoutSetupEmail(
+  sellerEmail: string,
+  sellerName: string,
+  details: {
+    amountWaiting: number;
+    state: import('./d1/payout-accounts').PayoutState;
+    reason: string | null;
+    setupPath: string;
+  },
+  env: { RESEND_API_KEY?: string; DB?: import('@cloudflare/workers-types').D1Database } | undefined
+): Promise<{ success: boolean; messageId?: string; error?: string }> {
+  try {
+    if (!sellerEmail) {
+      log.info('No email address for seller, skipping payout setup reminder');
+      return { success: false, error: 'No email address' };
+    }
+
+    const RESEND_API_KEY = env?.RESEND_API_KEY || import.meta.env.RESEND_API_KEY;
+
+    if (!RESEND_API_KEY) {
+      log.info('No Resend API key configured, skipping payout setup reminder');
+      return { success: false, error: 'Email service not configured' };
+    }
+
+    const formattedAmount = `\u00a3${details.amountWaiting.toFixed(2)}`;
+    const whatToDo = details.state === 'unverified'
+      ? 'Connect Stripe or link a PayPal email and we\'ll send it straight over.'
+      : details.state === 'pending'
+        ? 'Finish setting up your payout method and we\'ll send it straight over.'
+        : 'Your payout method needs attention before we can send it. Update it, or reply to this email if you think this is a mistake.';
+
+    const content = `
+              <p style="color: #ffffff; font-size: 18px; margin: 0 0 20px; line-height: 1.6;" class="text-primary">
+                Hey ${esc(sellerName) || 'there'},
+              </p>
+
+              <p style="color: #a3a3a3; font-size: 16px; margin: 0 0 25px; line-height: 1.6;" class="text-secondary">
+                You have <strong style="color: #22c55e;">${formattedAmount}</strong> in earnings waiting, but we can't pay you yet. ${whatToDo}
+              </p>
+
+              ${detailBox([
+                { label: 'Waiting', value: formattedAmount, valueColor: '#22c55e' },
+                { label: 'Status', value: esc(details.reason || 'Payout method not set up'), valueColor: '#f59e0b' },
+              ])}
+
+              ${ctaButton('Set Up Payouts', `${SITE_URL}${details.setupPath}`, { gradient: 'linear-gradient(135deg, #3b82f6 0%, #2563eb 100%)' })}
+
+              <p style="color: #737373; font-size: 13px; margin: 0; line-height: 1.6;" class="text-muted">
+                Your earnings are safe — they'll be paid as soon as your payout method is ready.
+              </p>`;
+
+    const emailHtml = emailWrapper(content, {
+      title: 'Set Up Payouts',
+      headerText: 'Earnings Waiting',
+      headerGradient: 'linear-gradient(135deg, #f59e0b 0%, #d97706 100%)',
+    });
+
+    const result = await sendResendEmail({
+      apiKey: RESEND_API_KEY,
+      from: 'Fresh Wax <noreply@freshwax.co.uk>',
+      to: sellerEmail,
+      subject: `${formattedAmount} waiting — set up payouts to get paid`,
+      html: emailHtml,
+      template: 'payout-setup-reminder',
+      db: env?.DB,
+    });
+
+    return result;
+
+  } catch (error: unknown) {
+    log.error('Error sending payout setup reminder:', error);
+    return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
+  }
+}
+
+// Ask a seller to confirm the PayPal email they linked before we pay it
+export async function sendPayPalVerificationEmail(
+  paypalEmail: string,
+  sellerName: string,
+  confirmUrl: string,
+  env: { RESEND_API_KEY?: string; DB?: import('@cloudflare/workers-types').D1Database } | undefined
+): Promise<{ success: boolean; messageId?: string; error?: string }> {
+  try {
+    const RESEND_API_KEY = env?.RESEND_API_KEY || import.meta.env.RESEND_API_KEY;
+
+    if (!RESEND_API_KEY) {
+      log.info('No Resend API key configured, skipping PayPal confirmation email');
+      return { success: false, error: 'Email service not configured' };
+    }
+
+    const content = `
+              <p style="color: #ffffff; font-size: 18px; margin: 0 0 20px; line-height: 1.6;" class="text-primary">
+                Hey ${esc(sellerName) || 'there'},
+              </p>
+
+              <p style="color: #a3a3a3; font-size: 16px; margin: 0 0 25px; line-height: 1.6;" class="text-secondary">
+                This address was just linked to Fresh Wax to receive PayPal payouts. Confirm it's yours and we'll start paying your earnings here.
+              </p>
+
+              ${ctaButton('Confirm PayPal Email', confirmUrl, { gradient: 'linear-gradient(135deg, #3b82f6 0%, #2563eb 100%)' })}
+
+              <p style="color: #737373; font-size: 13px; margin: 0; line-height: 1.6;" class="text-muted">
+                Didn't link this address? You can ignore this email — nothing will be sent to it.
+              </p>`;
+
+    const emailHtml = emailWrapper(content, {
+      title: 'Confirm Your PayPal Email',
+      headerText: 'Confirm Your PayPal Email',
+      headerGradient: 'linear-gradient(135deg, #3b82f6 0%, #2563eb 100%)',
+    });
+
+    const result = await sendResendEmail({
+      apiKey: RESEND_API_KEY,
+      from: 'Fresh Wax <noreply@freshwax.co.uk>',
+      to: paypalEmail,
+      subject: 'Confirm your PayPal email for Fresh Wax payouts',
+      html: emailHtml,
+      template: 'paypal-verification',
+      db: env?.DB,
+    });
+
+    return result;
+
+  } catch (error: unknown) {
+    log.error('Error sending PayPal confirmation email:', error);
+    return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
+  }
+}
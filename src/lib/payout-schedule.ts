@@ -0,0 +1,702 @@
+// src/lib/payout-schedule.ts
+// Scheduled (batched) seller payouts. By default a seller is paid per order
+// at sale time (seller-payments/), which costs a Stripe / PayPal payout fee on
+// every small sale. An artist, merch supplier or crate seller can instead
+// pick a weekly or monthly cadence with a minimum balance: their sales then
+// accrue as `scheduled` rows in their kind's pending-payouts collection, and
+// cron/scheduled-payouts rolls the rows up into one transfer per seller per
+// cycle and emails a statement of every sale, refund and fee it covers. A
+// balance under the minimum carries over to the next cycle.
+//
+// Bookkeeping matches each kind's per-order flow: one completed payout record
+// in its payouts collection, the journal payout posting, earnings up /
+// pending balance down. Rows are 'processing' from just before the transfer
+// until that bookkeeping is done; a run that dies in between leaves them for
+// the next run to finish (runScheduledPayouts' recovery pass).
+
+import { atomicIncrement, getDocument, queryCollection, setDocument, updateDocument } from './firebase-rest';
+import { createLogger } from './api-utils';
+import { d1GetLedgerEntriesByOrder } from './d1-catalog';
+import { postPayoutToJournal } from './journal';
+import { createPayout, getPayPalConfig } from './paypal-payouts';
+import { createStripeClient } from './stripe-client';
+import { sendPayoutStatementEmail } from './payout-emails';
+import { isConnectActive, prefersPayPal } from './order/seller-payments/instant-transfer';
+import { canReceivePayouts, recordPayoutAccountFailure, syncPayoutState } from './payout-verification';
+import type { PayoutEntityType } from './payout-verification';
+import type { SellerKind } from './journal';
+import type { D1Database, FirestoreDoc } from './d1/types';
+
+const log = createLogger('[payout-schedule]');
+
+export type PayoutCadence = 'per_order' | 'weekly' | 'monthly';
+export const PAYOUT_CADENCES: PayoutCadence[] = ['per_order', 'weekly', 'monthly'];
+
+export interface PayoutSchedule {
+  cadence: PayoutCadence;
+  /** Balance (GBP) a cycle must reach to be paid; below it rolls over */
+  minimum: number;
+}
+
+export const DEFAULT_PAYOUT_MINIMUM = 10;
+export const MAX_PAYOUT_MINIMUM = 500;
+
+// Pending-payout row status of a sale accruing towards a scheduled payout
+export const SCHEDULED_STATUS = 'scheduled';
+
+// Safety limits per cron run
+const MAX_SCHEDULED_ROWS = 500;
+const MAX_PAYEES_PER_RUN = 25;
+
+// Rows still 'processing' this long after their last write were left by a
+// run that died mid-cycle
+const STALE_PROCESSING_MS = 60 * 60 * 1000;
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+/** A seller's payout schedule, defaulting to per-order payouts. */
+export function getPayoutSchedule(seller: Record<string, unknown> | null | undefined): PayoutSchedule {
+  const raw = (seller?.payoutSchedule || {}) as Record<string, unknown>;
+  const cadence = PAYOUT_CADENCES.includes(raw.cadence as PayoutCadence) ? raw.cadence as PayoutCadence : 'per_order';
+  const minimum = Number(raw.minimum);
+  return {
+    cadence,
+    minimum: Number.isFinite(minimum) && minimum >= 0 ? Math.min(minimum, MAX_PAYOUT_MINIMUM) : DEFAULT_PAYOUT_MINIMUM,
+  };
+}
+
+/** Whether sales to this seller accrue for a scheduled payout instead of paying at sale time. */
+export function usesPayoutSchedule(seller: Record<string, unknown> | null | undefined): boolean {
+  return getPayoutSchedule(seller).cadence !== 'per_order';
+}
+
+/**
+ * Start (UTC) of the payout cycle `now` falls in: Monday 00:00 for weekly,
+ * the 1st of the month for monthly. A per-order seller's cycle is `now`
+ * itself, so anything still accrued (e.g. after switching back) is paid on
+ * the next run.
+ */
+export function payoutCycleStart(cadence: PayoutCadence, now: Date): Date {
+  if (cadence === 'weekly') {
+    const daysSinceMonday = (now.getUTCDay() + 6) % 7;
+    return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() - daysSinceMonday));
+  }
+  if (cadence === 'monthly') {
+    return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1));
+  }
+  return now;
+}
+
+/** When the cycle after the one `now` falls in starts, i.e. the next scheduled payout run. */
+export function nextPayoutCycleStart(cadence: PayoutCadence, now: Date): Date {
+  const start = payoutCycleStart(cadence, now);
+  if (cadence === 'weekly') return new Date(start.getTime() + 7 * 24 * 60 * 60 * 1000);
+  if (cadence === 'monthly') return new Date(Date.UTC(start.getUTCFullYear(), start.getUTCMonth() + 1, 1));
+  return now;
+}
+
+/** A cycle is due once per cycle: when the seller's last run predates its start. */
+export function isPayoutCycleDue(cadence: PayoutCadence, lastRunAt: unknown, now: Date): boolean {
+  if (cadence === 'per_order' || typeof lastRunAt !== 'string' || !lastRunAt) return true;
+  return lastRunAt < payoutCycleStart(cadence, now).toISOString();
+}
+
+export type StatementLineKind = 'sale' | 'fee' | 'refund' | 'clawback' | 'recoupment' | 'payout_fee';
+
+export interface StatementLine {
+  kind: StatementLineKind;
+  date: string;
+  orderNumber: string | null;
+  description: string;
+  /** Signed: sales positive, fees and refunds negative */
+  amount: number;
+}
+
+export interface PayoutStatement {
+  lines: StatementLine[];
+  totals: {
+    sales: number;
+    fees: number;
+    refunds: number;
+    clawbacks: number;
+    recoupments: number;
+    payoutFee: number;
+    /** What the seller is sent: the sum of the lines */
+    net: number;
+  };
+  orderCount: number;
+  periodStart: string;
+  periodEnd: string;
+}
+
+/**
+ * The statement for a batch of scheduled pending-payout rows. Each row's sale
+ * is shown at what the buyer paid for the seller's share (from their ledger
+ * entries for the order, when there are any), less the processing and
+ * platform fees, less any refund of the order since, any earlier clawback
+ * netted off it and any of it kept back to recoup an advance. The lines always add up to what's paid: fees are
+ * whatever separates the ledger gross from the row's earnings, and refunds
+ * whatever separates the earnings from the row's current amount.
+ */
+export function buildPayoutStatement(
+  rows: Array<Record<string, unknown>>,
+  ledgerByOrder: Map<string, FirestoreDoc[]>,
+  sellerId: string,
+  payoutFee: number,
+  now: Date
+): PayoutStatement {
+  const lines: StatementLine[] = [];
+  const totals = { sales: 0, fees: 0, refunds: 0, clawbacks: 0, recoupments: 0, payoutFee: 0, net: 0 };
+  const sorted = [...rows].sort((a, b) => String(a.createdAt || '').localeCompare(String(b.createdAt || '')));
+
+  for (const row of sorted) {
+    const date = String(row.createdAt || now.toISOString());
+    const orderNumber = row.orderNumber ? String(row.orderNumber) : null;
+    const earnings = round2((Number(row.itemAmount) || 0) + (Number(row.shippingAmount) || 0));
+    const clawback = round2(Number(row.clawbackDeducted) || 0);
+    const recoupment = round2(Number(row.advanceRecouped) || 0);
+    const amount = round2(Number(row.amount) || 0);
+
+    const entries = (ledgerByOrder.get(String(row.orderId)) || [])
+      .filter(e => !e.refundId && (e.submitterId === sellerId || (!e.submitterId && e.artistId === sellerId)));
+    const ledgerGross = round2(entries.reduce((sum, e) => sum + (Number(e.grossTotal) || 0), 0));
+    const gross = ledgerGross > earnings ? ledgerGross : earnings;
+    const fees = round2(gross - earnings);
+    const refund = round2(Math.max(0, earnings - clawback - recoupment - amount));
+
+    lines.push({ kind: 'sale', date, orderNumber, description: 'Sale', amount: gross });
+    totals.sales += gross;
+    if (fees > 0) {
+      lines.push({ kind: 'fee', date, orderNumber, description: 'Processing and platform fees', amount: -fees });
+      totals.fees += fees;
+    }
+    if (refund > 0) {
+      lines.push({ kind: 'refund', date, orderNumber, description: 'Refunded to the buyer', amount: -refund });
+      totals.refunds += refund;
+    }
+    if (clawback > 0) {
+      lines.push({ kind: 'clawback', date, orderNumber, description: 'Refund of an earlier paid order recovered', amount: -clawback });
+      totals.clawbacks += clawback;
+    }
+    if (recoupment > 0) {
+      lines.push({ kind: 'recoupment', date, orderNumber, description: 'Recouped against your advance', amount: -recoupment });
+      totals.recoupments += recoupment;
+    }
+  }
+
+  if (payoutFee > 0) {
+    lines.push({ kind: 'payout_fee', date: now.toISOString(), orderNumber: null, description: 'PayPal payout fee', amount: -payoutFee });
+    totals.payoutFee = payoutFee;
+  }
+
+  return {
+    lines,
+    totals: {
+      sales: round2(totals.sales),
+      fees: round2(totals.fees),
+      refunds: round2(totals.refunds),
+      clawbacks: round2(totals.clawbacks),
+      recoupments: round2(totals.recoupments),
+      payoutFee: round2(totals.payoutFee),
+      net: round2(lines.reduce((sum, line) => sum + line.amount, 0)),
+    },
+    orderCount: new Set(sorted.map(r => String(r.orderId))).size,
+    periodStart: String(sorted[0]?.createdAt || now.toISOString()),
+    periodEnd: now.toISOString(),
+  };
+}
+
+// 'unrecorded': the money was sent but its bookkeeping failed; the next run finishes it
+export type ScheduledPayoutOutcome = 'paid' | 'unrecorded' | 'not_due' | 'below_minimum' | 'no_payout_method' | 'failed';
+
+export interface ScheduledPayoutResult {
+  kind: SellerKind;
+  sellerId: string;
+  outcome: ScheduledPayoutOutcome;
+  amount: number;
+  rows: number;
+  payoutId?: string;
+  error?: string;
+}
+
+// Where each kind of seller's schedule, accrued rows, payouts and balances
+// live — the same places its per-order flow in seller-payments/ uses
+export interface ScheduledPayee {
+  /** Seller doc holding payoutSchedule / payoutCycleRunAt */
+  collection: string;
+  entityType: PayoutEntityType;
+  /** Pending-payout rows and the field naming the seller on them */
+  rowsCollection: string;
+  idField: string;
+  nameField: string;
+  emailField: string;
+  /** Seller doc fields for a display name, in order of preference */
+  docNameFields: string[];
+  payoutsCollection: string;
+  earningsField: string;
+  pendingField: string;
+  lastPayoutField: string;
+  transferType: string;
+  historyPath: string;
+}
+
+export const SCHEDULED_PAYEES: Record<SellerKind, ScheduledPayee> = {
+  artist: {
+    collection: 'artists',
+    entityType: 'artist',
+    rowsCollection: 'pendingPayouts',
+    idField: 'artistId',
+    nameField: 'artistName',
+    emailField: 'artistEmail',
+    docNameFields: ['artistName', 'name'],
+    payoutsCollection: 'payouts',
+    earningsField: 'totalEarnings',
+    pendingField: 'pendingBalance',
+    lastPayoutField: 'lastPayoutAt',
+    transferType: 'artist_scheduled_payout',
+    historyPath: '/artist/payouts',
+  },
+  supplier: {
+    collection: 'merch-suppliers',
+    entityType: 'supplier',
+    rowsCollection: 'pendingSupplierPayouts',
+    idField: 'supplierId',
+    nameField: 'supplierName',
+    emailField: 'supplierEmail',
+    docNameFields: ['name'],
+    payoutsCollection: 'supplierPayouts',
+    earningsField: 'totalEarnings',
+    pendingField: 'pendingBalance',
+    lastPayoutField: 'lastPayoutAt',
+    transferType: 'merch_supplier_scheduled_payout',
+    historyPath: '/supplier/portal/',
+  },
+  crate_seller: {
+    collection: 'users',
+    entityType: 'user',
+    rowsCollection: 'pendingCrateSellerPayouts',
+    idField: 'sellerId',
+    nameField: 'sellerName',
+    emailField: 'sellerEmail',
+    docNameFields: ['displayName', 'name'],
+    payoutsCollection: 'crateSellerPayouts',
+    earningsField: 'crateEarnings',
+    pendingField: 'pendingCrateBalance',
+    lastPayoutField: 'lastCratePayoutAt',
+    transferType: 'vinyl_crate_seller_scheduled_payout',
+    historyPath: '/account/selling/',
+  },
+};
+
+async function setRowsStatus(payee: ScheduledPayee, rows: Array<Record<string, unknown>>, data: Record<string, unknown>): Promise<void> {
+  for (const row of rows) {
+    await updateDocument(payee.rowsCollection, String(row.id), { ...data, updatedAt: new Date().toISOString() });
+  }
+}
+
+async function loadLedgerByOrder(db: D1Database | undefined, rows: Array<Record<string, unknown>>): Promise<Map<string, FirestoreDoc[]>> {
+  const byOrder = new Map<string, FirestoreDoc[]>();
+  if (!db) return byOrder;
+  for (const orderId of new Set(rows.map(r => String(r.orderId || '')).filter(Boolean))) {
+    byOrder.set(orderId, await d1GetLedgerEntriesByOrder(db, orderId));
+  }
+  return byOrder;
+}
+
+// One seller's batch of rows on its way to being paid
+interface SellerCycle {
+  kind: SellerKind;
+  payee: ScheduledPayee;
+  sellerId: string;
+  sellerName: string;
+  sellerEmail: string;
+  cadence: PayoutCadence;
+  rows: Array<Record<string, unknown>>;
+  total: number;
+  batchKey: string;
+}
+
+type PayoutMethod = 'paypal' | 'stripe';
+
+interface CycleTransfer {
+  method: PayoutMethod;
+  payoutId: string;
+  sent: number;
+  payoutFee: number;
+  /** Processor details copied onto the payout record */
+  record: Record<string, unknown>;
+}
+
+function sellerCycle(kind: SellerKind, sellerId: string, seller: Record<string, unknown> | null, cadence: PayoutCadence, rows: Array<Record<string, unknown>>, batchKey: string): SellerCycle {
+  const payee = SCHEDULED_PAYEES[kind];
+  const docName = payee.docNameFields.map(field => seller?.[field]).find(Boolean);
+  return {
+    kind,
+    payee,
+    sellerId,
+    sellerName: String(docName || rows[0]?.[payee.nameField] || 'Seller'),
+    sellerEmail: String(seller?.email || rows[0]?.[payee.emailField] || ''),
+    cadence,
+    rows,
+    total: round2(rows.reduce((sum, r) => sum + (Number(r.amount) || 0), 0)),
+    batchKey,
+  };
+}
+
+// The cycle's one transfer. The batchKey is Stripe's idempotency key and
+// PayPal's sender batch id, so sending the same batch again can't pay twice.
+async function sendCycleTransfer(env: Record<string, unknown>, cycle: SellerCycle, method: PayoutMethod, seller: Record<string, unknown> | null): Promise<CycleTransfer> {
+  const { payee, rows, total, batchKey } = cycle;
+  if (method === 'paypal') {
+    const paypalEmail = String(seller?.paypalEmail);
+    const payout = await createPayout(getPayPalConfig(env as Parameters<typeof getPayPalConfig>[0])!, {
+      email: paypalEmail,
+      amount: total,
+      currency: 'GBP',
+      note: `Fresh Wax ${cycle.cadence} payout — ${rows.length} sale${rows.length === 1 ? '' : 's'}`,
+      reference: batchKey,
+    });
+    if (!payout.success) throw new Error(payout.error || 'PayPal payout failed');
+    const payoutFee = round2(payout.fee || 0);
+    return {
+      method,
+      payoutId: payout.batchId || batchKey,
+      sent: round2(payout.net ?? total - payoutFee),
+      payoutFee,
+      record: { paypalEmail, paypalBatchId: payout.batchId, paypalPayoutItemId: payout.payoutItemId, paypalPayoutFee: payoutFee },
+    };
+  }
+
+  const destination = String(seller?.stripeConnectId);
+  const transfer = await createStripeClient(env)!.transfers.create({
+    amount: Math.round(total * 100),
+    currency: 'gbp',
+    destination,
+    transfer_group: batchKey,
+    metadata: {
+      [payee.idField]: cycle.sellerId,
+      [payee.nameField]: cycle.sellerName,
+      type: payee.transferType,
+      cadence: cycle.cadence,
+      orderCount: String(rows.length),
+      platform: 'freshwax',
+    },
+  }, { idempotencyKey: batchKey });
+  return { method, payoutId: transfer.id, sent: total, payoutFee: 0, record: { stripeConnectId: destination, stripeTransferId: transfer.id } };
+}
+
+// Book a sent transfer: statement, payout record, rows completed, then the
+// journal, balances and statement email. The statement and payout record are
+// keyed by the batchKey, so finishing a cycle again rewrites rather than
+// duplicates them.
+async function finishSellerCycle(
+  env: Record<string, unknown>,
+  cycle: SellerCycle,
+  transfer: CycleTransfer,
+  result: ScheduledPayoutResult,
+  now: Date
+): Promise<ScheduledPayoutResult> {
+  const { kind, payee, sellerId, sellerName, sellerEmail, rows, total, batchKey } = cycle;
+  const { method, payoutId, sent, payoutFee } = transfer;
+  const nowIso = now.toISOString();
+  const db = env.DB as D1Database | undefined;
+  let statement: PayoutStatement;
+
+  try {
+    // Note the transfer on the rows first, so a failure below can't lose it
+    await setRowsStatus(payee, rows, { payoutId, payoutMethod: method, payoutRecord: transfer.record, sentAmount: sent, payoutFee });
+
+    statement = buildPayoutStatement(rows, await loadLedgerByOrder(db, rows), sellerId, payoutFee, now);
+    const orderNumbers = rows.map(r => String(r.orderNumber || '')).filter(Boolean);
+
+    await setDocument('payoutStatements', batchKey, {
+      [payee.idField]: sellerId,
+      [payee.nameField]: sellerName,
+      sellerKind: kind,
+      payoutId,
+      cadence: cycle.cadence,
+      ...statement,
+      createdAt: nowIso,
+    });
+
+    await setDocument(payee.payoutsCollection, batchKey, {
+      [payee.idField]: sellerId,
+      [payee.nameField]: sellerName,
+      [payee.emailField]: sellerEmail,
+      entityType: payee.entityType,
+      payoutMethod: method,
+      ...transfer.record,
+      scheduled: true,
+      cadence: cycle.cadence,
+      statementId: batchKey,
+      pendingPayoutIds: rows.map(r => String(r.id)),
+      orderIds: rows.map(r => String(r.orderId || '')),
+      orderNumber: orderNumbers.length === 1 ? orderNumbers[0] : `${orderNumbers.length} orders`,
+      grossAmount: total,
+      amount: sent,
+      currency: 'gbp',
+      status: 'completed',
+      createdAt: nowIso,
+      updatedAt: nowIso,
+      completedAt: nowIso,
+    });
+
+    await setRowsStatus(payee, rows, { status: 'completed', payoutId, statementId: batchKey, completedAt: nowIso });
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : String(error);
+    log.error(`Scheduled payout ${payoutId} for ${kind} ${sellerId} was sent but not recorded; the next run finishes it:`, message);
+    return { ...result, outcome: 'unrecorded', amount: sent, payoutId, error: message };
+  }
+
+  await postPayoutToJournal(db, {
+    payoutId,
+    sellerId,
+    sellerKind: kind,
+    amount: total,
+    method,
+    memo: `Scheduled ${cycle.cadence} payout to ${sellerId} (${rows.length} sales)`,
+  });
+
+  try {
+    await atomicIncrement(payee.collection, sellerId, { [payee.earningsField]: sent, [payee.pendingField]: -total });
+    await updateDocument(payee.collection, sellerId, { [payee.lastPayoutField]: nowIso, payoutCycleRunAt: nowIso, updatedAt: nowIso });
+  } catch (balanceError: unknown) {
+    log.warn(`Post-payout balance update failed for ${kind} ${sellerId}`, balanceError);
+  }
+
+  if (sellerEmail) {
+    try {
+      await sendPayoutStatementEmail(sellerEmail, sellerName, statement, env as Parameters<typeof sendPayoutStatementEmail>[3], payee.historyPath);
+    } catch (emailError: unknown) {
+      log.warn('Payout statement email failed:', emailError);
+    }
+  }
+
+  log.info(`Scheduled payout ${payoutId}: £${sent.toFixed(2)} → ${sellerName} (${rows.length} sales)`);
+  return { ...result, outcome: 'paid', amount: sent, payoutId };
+}
+
+// One seller's cycle: threshold check, one transfer, bookkeeping, statement
+async function paySellerCycle(
+  env: Record<string, unknown>,
+  kind: SellerKind,
+  sellerId: string,
+  rows: Array<Record<string, unknown>>,
+  now: Date
+): Promise<ScheduledPayoutResult> {
+  const payee = SCHEDULED_PAYEES[kind];
+  const total = round2(rows.reduce((sum, r) => sum + (Number(r.amount) || 0), 0));
+  const result: ScheduledPayoutResult = { kind, sellerId, outcome: 'not_due', amount: total, rows: rows.length };
+
+  const seller = await getDocument(payee.collection, sellerId);
+  const schedule = getPayoutSchedule(seller);
+  if (!isPayoutCycleDue(schedule.cadence, seller?.payoutCycleRunAt, now)) return result;
+
+  const nowIso = now.toISOString();
+  if (schedule.cadence !== 'per_order' && total < schedule.minimum) {
+    await updateDocument(payee.collection, sellerId, { payoutCycleRunAt: nowIso, updatedAt: nowIso });
+    log.info(`${kind} ${sellerId}: £${total.toFixed(2)} is under the £${schedule.minimum.toFixed(2)} minimum, carried over`);
+    return { ...result, outcome: 'below_minimum' };
+  }
+
+  const paypalConfig = getPayPalConfig(env as Parameters<typeof getPayPalConfig>[0]);
+  const stripe = createStripeClient(env);
+  const payable = canReceivePayouts(seller);
+  const method: PayoutMethod | null = !payable ? null
+    : prefersPayPal(seller) && paypalConfig ? 'paypal'
+    : isConnectActive(seller) && stripe ? 'stripe'
+    : null;
+  if (!method) {
+    log.warn(`${kind} ${sellerId}: no active payout method, £${total.toFixed(2)} stays scheduled`);
+    if (!payable) {
+      await syncPayoutState(env, payee.entityType, sellerId, { source: 'scheduled_payout', entity: seller, warn: true });
+    }
+    return { ...result, outcome: 'no_payout_method' };
+  }
+
+  const cycleKey = payoutCycleStart(schedule.cadence, now).toISOString().slice(0, 10);
+  // Same seller, cycle and amount → same key, so a retried run can't pay twice
+  const batchKey = `sched-${sellerId}-${cycleKey}-${Math.round(total * 100)}`;
+  const cycle = sellerCycle(kind, sellerId, seller, schedule.cadence, rows, batchKey);
+
+  await setRowsStatus(payee, rows, { status: 'processing', batchKey, payoutMethod: method });
+
+  let transfer: CycleTransfer;
+  try {
+    transfer = await sendCycleTransfer(env, cycle, method, seller);
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : String(error);
+    log.error(`Scheduled payout for ${kind} ${sellerId} failed, rows stay scheduled:`, message);
+    await setRowsStatus(payee, rows, { status: SCHEDULED_STATUS, lastBatchError: message });
+    await recordPayoutAccountFailure(env, payee.entityType, sellerId, method, message);
+    return { ...result, outcome: 'failed', error: message };
+  }
+
+  return finishSellerCycle(env, cycle, transfer, result, now);
+}
+
+// A cycle a run left 'processing' — it died after sending the transfer, or
+// while sending it. A transfer noted on the rows is booked as it stands;
+// otherwise it is sent again under the same batchKey, which hands back the
+// transfer already made rather than a second one.
+async function recoverSellerCycle(
+  env: Record<string, unknown>,
+  kind: SellerKind,
+  sellerId: string,
+  rows: Array<Record<string, unknown>>,
+  now: Date
+): Promise<ScheduledPayoutResult> {
+  const payee = SCHEDULED_PAYEES[kind];
+  const seller = await getDocument(payee.collection, sellerId);
+  const cycle = sellerCycle(kind, sellerId, seller, getPayoutSchedule(seller).cadence, rows, String(rows[0]?.batchKey));
+  const result: ScheduledPayoutResult = { kind, sellerId, outcome: 'failed', amount: cycle.total, rows: rows.length };
+
+  const noted = rows.find(r => r.payoutId);
+  let transfer: CycleTransfer;
+  if (noted) {
+    transfer = {
+      method: noted.payoutMethod === 'paypal' ? 'paypal' : 'stripe',
+      payoutId: String(noted.payoutId),
+      sent: round2(Number(noted.sentAmount ?? cycle.total)),
+      payoutFee: round2(Number(noted.payoutFee) || 0),
+      record: (noted.payoutRecord || {}) as Record<string, unknown>,
+    };
+  } else {
+    try {
+      transfer = await sendCycleTransfer(env, cycle, rows[0]?.payoutMethod === 'paypal' ? 'paypal' : 'stripe', seller);
+    } catch (error: unknown) {
+      // Whether the first attempt went through is unknown, so the rows stay
+      // 'processing' (never back to 'scheduled') and are retried next run
+      const message = error instanceof Error ? error.message : String(error);
+      log.error(`Recovering scheduled payout ${cycle.batchKey} for ${kind} ${sellerId} failed:`, message);
+      await setRowsStatus(payee, rows, { lastBatchError: message });
+      return { ...result, error: message };
+    }
+  }
+
+  log.info(`Recovering scheduled payout ${transfer.payoutId} for ${kind} ${sellerId}`);
+  return finishSellerCycle(env, cycle, transfer, result, now);
+}
+
+/**
+ * The seller doc update that switches them to a cadence. A newly chosen
+ * cadence starts counting from now, so the first batch is paid at the next
+ * cycle boundary rather than on the next run; the minimum is kept unless a
+ * new one is given.
+ */
+export function payoutScheduleUpdate(
+  seller: Record<string, unknown> | null | undefined,
+  cadence: PayoutCadence,
+  minimum: number | undefined,
+  now: Date
+): { schedule: PayoutSchedule; update: Record<string, unknown> } {
+  const previous = getPayoutSchedule(seller);
+  const schedule = { cadence, minimum: minimum ?? previous.minimum };
+  const nowIso = now.toISOString();
+  return {
+    schedule,
+    update: {
+      payoutSchedule: schedule,
+      ...(schedule.cadence !== previous.cadence ? { payoutCycleRunAt: nowIso } : {}),
+      updatedAt: nowIso,
+    },
+  };
+}
+
+/** What has accrued towards a seller's next scheduled payout, and their latest statements. */
+export async function getScheduledPayoutSummary(kind: SellerKind, sellerId: string): Promise<{
+  accrued: number;
+  accruedSales: number;
+  statements: Array<Record<string, unknown>>;
+}> {
+  const payee = SCHEDULED_PAYEES[kind];
+  const [accrued, statements] = await Promise.all([
+    queryCollection(payee.rowsCollection, {
+      filters: [
+        { field: payee.idField, op: 'EQUAL', value: sellerId },
+        { field: 'status', op: 'EQUAL', value: SCHEDULED_STATUS },
+      ],
+      limit: MAX_SCHEDULED_ROWS,
+      skipCache: true,
+    }),
+    queryCollection('payoutStatements', {
+      filters: [{ field: payee.idField, op: 'EQUAL', value: sellerId }],
+      orderBy: { field: 'createdAt', direction: 'DESCENDING' },
+      limit: 12,
+    }),
+  ]);
+  return {
+    accrued: round2(accrued.reduce((sum, r) => sum + (Number(r.amount) || 0), 0)),
+    accruedSales: accrued.length,
+    statements,
+  };
+}
+
+/**
+ * Pay every seller whose cycle is due — artists, merch suppliers and crate
+ * sellers alike: all their `scheduled` rows in one transfer. Sellers are
+ * independent — one failing leaves their rows scheduled for the next run and
+ * doesn't stop the rest. Cycles an earlier run left 'processing' are
+ * finished first.
+ */
+export async function runScheduledPayouts(env: Record<string, unknown>, now: Date = new Date()): Promise<ScheduledPayoutResult[]> {
+  const results: ScheduledPayoutResult[] = [];
+  const staleBefore = new Date(now.getTime() - STALE_PROCESSING_MS).toISOString();
+  for (const kind of Object.keys(SCHEDULED_PAYEES) as SellerKind[]) {
+    const payee = SCHEDULED_PAYEES[kind];
+    const processing = await queryCollection(payee.rowsCollection, {
+      filters: [{ field: 'status', op: 'EQUAL', value: 'processing' }],
+      limit: MAX_SCHEDULED_ROWS,
+      skipCache: true,
+    });
+
+    // Per-order retries use 'processing' too; only scheduled batches carry a sched- key
+    const byBatch = new Map<string, Array<Record<string, unknown>>>();
+    for (const row of processing) {
+      const batchKey = String(row.batchKey || '');
+      if (!batchKey.startsWith('sched-') || !row[payee.idField] || String(row.updatedAt || '') >= staleBefore) continue;
+      byBatch.set(batchKey, [...(byBatch.get(batchKey) || []), row]);
+    }
+    for (const rows of byBatch.values()) {
+      const sellerId = String(rows[0]?.[payee.idField]);
+      try {
+        results.push(await recoverSellerCycle(env, kind, sellerId, rows, now));
+      } catch (error: unknown) {
+        const message = error instanceof Error ? error.message : String(error);
+        log.error(`Scheduled payout recovery failed for ${kind} ${sellerId}:`, message);
+        results.push({ kind, sellerId, outcome: 'failed', amount: 0, rows: rows.length, error: message });
+      }
+    }
+  }
+
+  const batches: Array<{ kind: SellerKind; sellerId: string; rows: Array<Record<string, unknown>> }> = [];
+  for (const kind of Object.keys(SCHEDULED_PAYEES) as SellerKind[]) {
+    const payee = SCHEDULED_PAYEES[kind];
+    const rows = await queryCollection(payee.rowsCollection, {
+      filters: [{ field: 'status', op: 'EQUAL', value: SCHEDULED_STATUS }],
+      limit: MAX_SCHEDULED_ROWS,
+      skipCache: true,
+    });
+
+    const bySeller = new Map<string, Array<Record<string, unknown>>>();
+    for (const row of rows) {
+      const sellerId = row[payee.idField];
+      if (!sellerId || !(Number(row.amount) > 0)) continue;
+      const list = bySeller.get(String(sellerId)) || [];
+      list.push(row);
+      bySeller.set(String(sellerId), list);
+    }
+    for (const [sellerId, sellerRows] of bySeller) batches.push({ kind, sellerId, rows: sellerRows });
+  }
+
+  for (const { kind, sellerId, rows } of batches.slice(0, MAX_PAYEES_PER_RUN)) {
+    try {
+      results.push(await paySellerCycle(env, kind, sellerId, rows, now));
+    } catch (error: unknown) {
+      const message = error instanceof Error ? error.message : String(error);
+      log.error(`Scheduled payout run failed for ${kind} ${sellerId}:`, message);
+      results.push({ kind, sellerId, outcome: 'failed', amount: 0, rows: rows.length, error: message });
+    }
+  }
+  return results;
+}
@@ -0,0 +1,392 @@
+// src/lib/payout-verification.ts
+// Where each seller is in setting up to be paid, and the gate every payout
+// path checks before sending money.
+//
+// A seller (artist, merch supplier or crate seller) is in one of four states:
+//   unverified — no payout method yet
+//   pending    — a method is set up but not usable: Stripe onboarding isn't
+//                finished, or the PayPal email hasn't been confirmed
+//   verified   — at least one method can be paid
+//   restricted — Stripe has disabled the account, PayPal rejected a payout to
+//                the email, or an admin put payouts on hold
+//
+// The state is derived from the seller's doc (payoutStatusOf), never stored
+// as the source of truth: Stripe Connect `account.updated` keeps
+// stripeConnectStatus current, link-account / verify-email keep
+// paypalVerification current, and `payoutHold` is set by admins. Each time
+// one of those changes, syncPayoutState mirrors the result into D1
+// `payout_accounts` (and logs the transition) so /admin/payout-accounts can
+// list everyone who can't currently be paid.
+//
+// Payouts to a seller who isn't verified stay parked (pendingPayouts /
+// awaiting_connect) and are paid once they are. When earnings arrive for a
+// seller who can't be paid, they're emailed — at most once a week — so they
+// fix it before the balance builds up.
+
+import { getDocument, queryCollection, updateDocument } from './firebase-rest';
+import { createLogger, timingSafeCompare } from './api-utils';
+import { sendPayoutSetupEmail } from './payout-emails';
+import {
+  d1ClaimPayoutWarning, d1CountPayoutAccountsByState, d1GetPayoutAccount, d1GetPayoutAccountEvents,
+  d1GetUnpayableAccounts, d1InsertPayoutAccountEvent, d1UpsertPayoutAccount,
+} from './d1/payout-accounts';
+import type { PayoutAccount, PayoutAccountEvent, PayoutEntityType, PayoutState } from './d1/payout-accounts';
+import type { D1Database } from './d1/types';
+
+export type { PayoutAccount, PayoutAccountEvent, PayoutEntityType, PayoutState } from './d1/payout-accounts';
+
+const log = createLogger('[payout-verification]');
+
+export type PayoutMethod = 'stripe' | 'paypal';
+
+export interface PayoutStatus {
+  state: PayoutState;
+  method: PayoutMethod | null;   // the method that will be used, or that needs attention
+  reason: string | null;         // why the seller can't be paid; null when verified
+  onHold: boolean;
+}
+
+export const PAYOUT_COLLECTIONS: Record<PayoutEntityType, string> = {
+  artist: 'artists',
+  supplier: 'merch-suppliers',
+  user: 'users',
+};
+
+// Where each kind of seller sets up payouts
+export const PAYOUT_SETUP_PATHS: Record<PayoutEntityType, string> = {
+  artist: '/artist/account/',
+  supplier: '/supplier/portal/',
+  user: '/account/selling/',
+};
+
+// Don't email the same seller about being unpayable more than once a week
+const WARNING_INTERVAL_DAYS = 7;
+
+// Where unpaid seller earnings wait, for finding sellers with money stuck
+const UNPAID_SOURCES: Array<{ collection: string; entityType: PayoutEntityType | null }> = [
+  { collection: 'pendingPayouts', entityType: null },      // per-row entityType, artist by default
+  { collection: 'pendingSupplierPayouts', entityType: 'supplier' },
+  { collection: 'pendingCrateSellerPayouts', entityType: 'user' },
+];
+const UNPAID_STATUSES = ['pending', 'scheduled', 'retry_pending', 'awaiting_connect'];
+const MAX_SCAN_ROWS = 500;
+
+// Payout errors that mean the destination itself is unusable, rather than a
+// temporary failure worth retrying as-is
+const PAYPAL_ACCOUNT_ERRORS = /RECEIVER_UNREGISTERED|RECEIVER_UNCONFIRMED|RECEIVER_ACCOUNT_LOCKED|RECEIVER_ACCOUNT_RESTRICTED|RECEIVER_COUNTRY_NOT_ALLOWED|RECEIVER_YOUTH_ACCOUNT|INVALID_EMAIL/i;
+const STRIPE_ACCOUNT_ERRORS = /No such destination|account_invalid|account has been rejected|cannot currently make transfers|transfers capability/i;
+
+type SellerDoc = Record<string, unknown> | null | undefined;
+
+// One method's state, ignoring any admin hold
+export function methodState(entity: SellerDoc, method: PayoutMethod): { state: PayoutState; reason: string | null } {
+  if (!entity) return { state: 'unverified', reason: 'No payout method set up' };
+
+  if (method === 'stripe') {
+    if (!entity.stripeConnectId) return { state: 'unverified', reason: 'Stripe not connected' };
+    if (entity.stripeConnectStatus === 'active') return { state: 'verified', reason: null };
+    if (entity.stripeConnectStatus === 'restricted') {
+      const detail = entity.stripeDisabledReason ? ` (${String(entity.stripeDisabledReason)})` : '';
+      return { state: 'restricted', reason: `Stripe has restricted the account${detail}` };
+    }
+    return { state: 'pending', reason: 'Stripe onboarding not finished' };
+  }
+
+  if (!entity.paypalEmail) return { state: 'unverified', reason: 'PayPal not linked' };
+  if (entity.paypalVerification === 'pending') return { state: 'pending', reason: 'PayPal email not confirmed' };
+  if (entity.paypalVerification === 'rejected') {
+    return { state: 'restricted', reason: String(entity.paypalRejectedReason || 'PayPal rejected a payout to this email') };
+  }
+  // Confirmed, or linked before confirmation existed
+  return { state: 'verified', reason: null };
+}
+
+/**
+ * A seller's overall payout state. Verified if any method can be paid (the
+ * preferred one first); otherwise the state of the method they'd be paid by,
+ * so the reason points at what to fix.
+ */
+export function payoutStatusOf(entity: SellerDoc): PayoutStatus {
+  const order: PayoutMethod[] = entity?.payoutMethod === 'paypal' ? ['paypal', 'stripe'] : ['stripe', 'paypal'];
+  const methods = order
+    .map(method => ({ method, ...methodState(entity, method) }))
+    .filter(m => m.state !== 'unverified');
+
+  if (entity?.payoutHold) {
+    return {
+      state: 'restricted',
+      method: methods[0]?.method ?? null,
+      reason: String(entity.payoutHoldReason || 'Payouts on hold'),
+      onHold: true,
+    };
+  }
+
+  const usable = methods.find(m => m.state === 'verified');
+  if (usable) return { state: 'verified', method: usable.method, reason: null, onHold: false };
+  if (methods[0]) return { state: methods[0].state, method: methods[0].method, reason: methods[0].reason, onHold: false };
+  return { state: 'unverified', method: null, reason: 'No payout method set up', onHold: false };
+}
+
+export function canReceivePayouts(entity: SellerDoc): boolean {
+  return payoutStatusOf(entity).state === 'verified';
+}
+
+// Whether a payout may be sent to the seller by this particular method
+export function canPayVia(entity: SellerDoc, method: PayoutMethod): boolean {
+  return !!entity && !entity.payoutHold && methodState(entity, method).state === 'verified';
+}
+
+// Does this payout error mean the seller's method needs fixing?
+export function isPayoutAccountError(method: PayoutMethod, message: string): boolean {
+  return (method === 'paypal' ? PAYPAL_ACCOUNT_ERRORS : STRIPE_ACCOUNT_ERRORS).test(message);
+}
+
+function sellerName(entity: Record<string, unknown>): string {
+  return String(entity.artistName || entity.displayName || entity.name || 'there');
+}
+
+/**
+ * Recompute a seller's payout state from their doc, mirror it into D1 and
+ * log the transition if it changed. A seller who has just become unpayable
+ * with money waiting, or who has earned money while unpayable (`warn`), is
+ * emailed. Never throws — callers are mid-payout or mid-webhook.
+ */
+export async function syncPayoutState(
+  env: Record<string, unknown> | undefined,
+  entityType: PayoutEntityType,
+  entityId: string,
+  options: {
+    source: string;
+    entity?: Record<string, unknown> | null;
+    pendingBalance?: number;     // overrides the doc's, e.g. including a sale not yet added
+    warn?: boolean;
+  }
+): Promise<PayoutStatus | null> {
+  try {
+    const entity = options.entity ?? await getDocument(PAYOUT_COLLECTIONS[entityType], entityId);
+    if (!entity) return null;
+    const status = payoutStatusOf(entity);
+
+    const db = env?.DB as D1Database | undefined;
+    if (!db) return status;
+
+    const pendingBalance = Math.max(0, options.pendingBalance ?? (Number(entity.pendingBalance) || 0));
+    const previous = await d1GetPayoutAccount(db, entityType, entityId);
+    const transitioned = previous?.state !== status.state || previous.onHold !== status.onHold;
+
+    await d1UpsertPayoutAccount(db, {
+      entityType,
+      entityId,
+      name: sellerName(entity),
+      email: (entity.email as string) || null,
+      method: status.method,
+      state: status.state,
+      reason: status.reason,
+      onHold: status.onHold,
+      pendingBalance,
+      warnedAt: null,
+      verifiedAt: status.state === 'verified' && transitioned ? new Date().toISOString() : null,
+    });
+
+    if (transitioned) {
+      await d1InsertPayoutAccountEvent(db, {
+        entityType,
+        entityId,
+        fromState: previous?.state ?? null,
+        toState: status.state,
+        method: status.method,
+        reason: status.reason,
+        source: options.source,
+      });
+      log.info(`${entityType} ${entityId}: ${previous?.state ?? 'new'} → ${status.state} (${options.source})`);
+    }
+
+    if (status.state !== 'verified' && pendingBalance > 0 && (transitioned || options.warn)) {
+      await warnUnpayableSeller(env, db, entityType, entityId, entity, status, pendingBalance);
+    }
+
+    return status;
+  } catch (error: unknown) {
+    log.error(`Failed to sync payout state for ${entityType} ${entityId}:`, error);
+    return null;
+  }
+}
+
+async function warnUnpayableSeller(
+  env: Record<string, unknown> | undefined,
+  db: D1Database,
+  entityType: PayoutEntityType,
+  entityId: string,
+  entity: Record<string, unknown>,
+  status: PayoutStatus,
+  amountWaiting: number
+): Promise<void> {
+  const email = entity.email as string | undefined;
+  if (!email) return;
+  if (!await d1ClaimPayoutWarning(db, entityType, entityId, WARNING_INTERVAL_DAYS)) return;
+
+  const result = await sendPayoutSetupEmail(email, sellerName(entity), {
+    amountWaiting,
+    state: status.state,
+    reason: status.reason,
+    setupPath: PAYOUT_SETUP_PATHS[entityType],
+  }, env as Parameters<typeof sendPayoutSetupEmail>[3]);
+  if (!result.success) log.warn(`Payout setup email to ${entityType} ${entityId} not sent:`, result.error);
+}
+
+/**
+ * Record that a payout to this seller failed because their method is
+ * unusable: a rejected PayPal email is marked so (restricting PayPal until
+ * they link or confirm an address again), a Stripe account is marked
+ * restricted until Stripe's next account.updated says otherwise. Returns
+ * whether the error was an account error.
+ */
+export async function recordPayoutAccountFailure(
+  env: Record<string, unknown> | undefined,
+  entityType: PayoutEntityType,
+  entityId: string,
+  method: PayoutMethod,
+  message: string
+): Promise<boolean> {
+  if (!isPayoutAccountError(method, message)) return false;
+
+  const now = new Date().toISOString();
+  try {
+    await updateDocument(PAYOUT_COLLECTIONS[entityType], entityId, method === 'paypal'
+      ? { paypalVerification: 'rejected', paypalRejectedReason: `PayPal rejected the payout: ${message.slice(0, 200)}`, updatedAt: now }
+      : { stripeConnectStatus: 'restricted', stripeDisabledReason: message.slice(0, 200), stripeLastUpdated: now, updatedAt: now });
+  } catch (error: unknown) {
+    log.error(`Failed to restrict ${method} for ${entityType} ${entityId}:`, error);
+    return true;
+  }
+  await syncPayoutState(env, entityType, entityId, { source: 'payout_failed' });
+  return true;
+}
+
+async function sha256Hex(value: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(value));
+  return Array.from(new Uint8Array(digest)).map(b => b.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Fields that start PayPal email confirmation, and the token to email.
+ * Only a hash is kept on the doc — seller docs can be publicly readable.
+ */
+export async function createPayPalVerification(): Promise<{ token: string; fields: Record<string, unknown> }> {
+  const bytes = crypto.getRandomValues(new Uint8Array(24));
+  const token = Array.from(bytes).map(b => b.toString(16).padStart(2, '0')).join('');
+  return {
+    token,
+    fields: {
+      paypalVerification: 'pending',
+      paypalVerificationTokenHash: await sha256Hex(token),
+      paypalVerificationSentAt: new Date().toISOString(),
+      paypalRejectedReason: null,
+    },
+  };
+}
+
+export async function isPayPalVerificationToken(entity: SellerDoc, token: string): Promise<boolean> {
+  const expected = entity?.paypalVerificationTokenHash;
+  if (typeof expected !== 'string' || !token) return false;
+  return timingSafeCompare(await sha256Hex(token), expected);
+}
+
+/**
+ * Put a seller's payouts on hold, or lift the hold. While held nothing is
+ * sent by any method; earnings keep accruing as pending payouts.
+ */
+export async function setPayoutHold(
+  env: Record<string, unknown> | undefined,
+  entityType: PayoutEntityType,
+  entityId: string,
+  hold: { on: boolean; reason?: string; adminId: string }
+): Promise<{ success: boolean; status?: PayoutStatus | null; error?: string }> {
+  const entity = await getDocument(PAYOUT_COLLECTIONS[entityType], entityId);
+  if (!entity) return { success: false, error: 'Seller not found' };
+  if (!hold.on && !entity.payoutHold) return { success: false, error: 'Payouts are not on hold' };
+
+  const now = new Date().toISOString();
+  const updates = hold.on
+    ? { payoutHold: true, payoutHoldReason: hold.reason || 'Payouts on hold', payoutHoldBy: hold.adminId, payoutHoldAt: now, updatedAt: now }
+    : { payoutHold: false, payoutHoldReason: null, payoutHoldBy: null, payoutHoldAt: null, updatedAt: now };
+  await updateDocument(PAYOUT_COLLECTIONS[entityType], entityId, updates);
+
+  const status = await syncPayoutState(env, entityType, entityId, {
+    source: `admin:${hold.adminId}`,
+    entity: { ...entity, ...updates },
+  });
+  log.info(`${entityType} ${entityId} payouts ${hold.on ? 'put on hold' : 'released'} by ${hold.adminId}`);
+  return { success: true, status };
+}
+
+/**
+ * Sync every seller with unpaid earnings waiting, so ones whose state was
+ * never recorded (set up before this existed, or never touched since) show
+ * up for admins. The balance recorded is what their waiting rows add up to.
+ */
+export async function syncSellersWithUnpaidEarnings(
+  env: Record<string, unknown> | undefined
+): Promise<{ sellers: number; unpayable: number }> {
+  const waiting = new Map<string, { entityType: PayoutEntityType; entityId: string; amount: number }>();
+
+  for (const source of UNPAID_SOURCES) {
+    const rows = await queryCollection(source.collection, {
+      filters: [{ field: 'status', op: 'IN', value: UNPAID_STATUSES }],
+      limit: MAX_SCAN_ROWS,
+      skipCache: true,
+    }).catch(() => []);
+    for (const row of rows) {
+      const rowType = String(row.entityType || 'artist');
+      const entityType: PayoutEntityType = source.entityType
+        ?? (rowType === 'supplier' ? 'supplier' : rowType === 'user' || rowType === 'crate_seller' ? 'user' : 'artist');
+      const entityId = String(row.artistId || row.supplierId || row.sellerId || row.entityId || '');
+      if (!entityId) continue;
+      const key = `${entityType}:${entityId}`;
+      const entry = waiting.get(key) ?? { entityType, entityId, amount: 0 };
+      entry.amount += Number(row.amount) || 0;
+      waiting.set(key, entry);
+    }
+  }
+
+  let unpayable = 0;
+  for (const { entityType, entityId, amount } of waiting.values()) {
+    const status = await syncPayoutState(env, entityType, entityId, {
+      source: 'admin_scan',
+      pendingBalance: Math.round(amount * 100) / 100,
+    });
+    if (status && status.state !== 'verified') unpayable++;
+  }
+  return { sellers: waiting.size, unpayable };
+}
+
+// Sellers who can't currently be paid, for /admin/payout-accounts
+export async function getPayoutAccountsDashboard(
+  db: D1Database | undefined,
+  options: { state?: Exclude<PayoutState, 'verified'> } = {}
+): Promise<{
+  counts: Record<PayoutState, number>;
+  accounts: PayoutAccount[];
+  totalWaiting: number;
+}> {
+  if (!db) return { counts: { unverified: 0, pending: 0, verified: 0, restricted: 0 }, accounts: [], totalWaiting: 0 };
+  const [counts, accounts] = await Promise.all([
+    d1CountPayoutAccountsByState(db),
+    d1GetUnpayableAccounts(db, { state: options.state }),
+  ]);
+  const totalWaiting = Math.round(accounts.reduce((sum, a) => sum + a.pendingBalance, 0) * 100) / 100;
+  return { counts, accounts, totalWaiting };
+}
+
+export async function getPayoutAccountHistory(
+  db: D1Database | undefined,
+  entityType: PayoutEntityType,
+  entityId: string
+): Promise<{ account: PayoutAccount | null; events: PayoutAccountEvent[] }> {
+  if (!db) return { account: null, events: [] };
+  const [account, events] = await Promise.all([
+    d1GetPayoutAccount(db, entityType, entityId),
+    d1GetPayoutAccountEvents(db, entityType, entityId),
+  ]);
+  return { account, events };
+}
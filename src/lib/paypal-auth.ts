@@ -47,13 +47,14 @@ export async function paypalFetchWithRetry(
 
 /**
  * Get PayPal access token using client credentials
+ * (`baseUrl` overrides the mode's API host, e.g. for a local mock)
  */
 export async function getPayPalAccessToken(
   clientId: string,
   clientSecret: string,
-  mode: string
+  mode: string,
+  baseUrl: string = getPayPalBaseUrl(mode)
 ): Promise<string> {
-  const baseUrl = getPayPalBaseUrl(mode);
   const auth = Buffer.from(`${clientId}:${clientSecret}`).toString('base64');
 
   const response = await paypalFetchWithRetry(`${baseUrl}/v1/oauth2/token`, {
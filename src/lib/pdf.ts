@@ -0,0 +1,108 @@
+// src/lib/pdf.ts
+// Minimal PDF writer for text documents (invoices). Uses the built-in
+// Helvetica fonts so no font files are embedded and no dependency is needed
+// in the Worker — output is plain PDF 1.4 with one content stream per page.
+
+export const A4 = { width: 595, height: 842 };
+
+export interface PdfText {
+  x: number;
+  y: number;                   // from the bottom of the page, in points
+  text: string;
+  size?: number;
+  bold?: boolean;
+  align?: 'left' | 'right';    // right: x is where the text ends
+}
+
+export interface PdfRule {
+  x1: number;
+  y1: number;
+  x2: number;
+  y2: number;
+  width?: number;
+}
+
+export interface PdfPage {
+  texts: PdfText[];
+  rules?: PdfRule[];
+}
+
+// WinAnsi code points for the non-Latin-1 characters we actually print
+const WIN_ANSI: Record<string, number> = {
+  '€': 0x80, '…': 0x85, '‘': 0x91, '’': 0x92, '“': 0x93, '”': 0x94, '•': 0x95, '–': 0x96, '—': 0x97,
+};
+
+function encodeText(text: string): string {
+  let out = '';
+  for (const ch of text) {
+    const code = WIN_ANSI[ch] ?? ch.codePointAt(0) ?? 63;
+    if (ch === '\\' || ch === '(' || ch === ')') out += '\\' + ch;
+    else if (code >= 32 && code < 127) out += ch;
+    else if (code <= 0xff && (code >= 0xa0 || WIN_ANSI[ch] != null)) out += '\\' + code.toString(8).padStart(3, '0');
+    else out += '?';
+  }
+  return out;
+}
+
+// Helvetica advance widths (1/1000 em) — enough to right-align figures
+const NARROW = new Set([...' .,:;!|ijlI\'', 'f', 't', 'r', '(', ')', '-', '/']);
+function charWidth(ch: string, bold: boolean): number {
+  if (/[0-9£$€]/.test(ch)) return 556;
+  if (NARROW.has(ch)) return ch === '-' || ch === '(' || ch === ')' || ch === 'r' ? 333 : 278;
+  if (/[MW%@]/.test(ch)) return 889;
+  if (/[A-Z]/.test(ch)) return bold ? 722 : 667;
+  return bold ? 611 : 556;
+}
+
+export function textWidth(text: string, size: number, bold = false): number {
+  let width = 0;
+  for (const ch of text) width += charWidth(ch, bold);
+  return (width / 1000) * size;
+}
+
+function pageStream(page: PdfPage): string {
+  const ops: string[] = [];
+  for (const rule of page.rules || []) {
+    ops.push(`${rule.width ?? 0.5} w ${rule.x1} ${rule.y1} m ${rule.x2} ${rule.y2} l S`);
+  }
+  for (const item of page.texts) {
+    const size = item.size ?? 10;
+    const x = item.align === 'right' ? item.x - textWidth(item.text, size, item.bold) : item.x;
+    ops.push(`BT /${item.bold ? 'F2' : 'F1'} ${size} Tf ${x.toFixed(2)} ${item.y.toFixed(2)} Td (${encodeText(item.text)}) Tj ET`);
+  }
+  return ops.join('\n');
+}
+
+/** Build a PDF from laid-out pages. Every byte is ASCII, so string offsets are byte offsets. */
+export function buildPdf(pages: PdfPage[], info: { title?: string } = {}): Uint8Array {
+  const objects: string[] = [];
+  const add = (body: string) => { objects.push(body); return objects.length; };
+
+  const catalogId = add('');               // filled in once the page tree exists
+  const pagesId = add('');
+  const fontId = add('<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>');
+  const boldId = add('<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>');
+  const infoId = add(`<< /Producer (Fresh Wax) /Title (${encodeText(info.title || 'Document')}) >>`);
+
+  const pageIds = (pages.length > 0 ? pages : [{ texts: [] }]).map(page => {
+    const stream = pageStream(page);
+    const contentId = add(`<< /Length ${stream.length} >>\nstream\n${stream}\nendstream`);
+    return add(`<< /Type /Page /Parent ${pagesId} 0 R /MediaBox [0 0 ${A4.width} ${A4.height}] ` +
+      `/Resources << /Font << /F1 ${fontId} 0 R /F2 ${boldId} 0 R >> >> /Contents ${contentId} 0 R >>`);
+  });
+  objects[catalogId - 1] = `<< /Type /Catalog /Pages ${pagesId} 0 R >>`;
+  objects[pagesId - 1] = `<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pageIds.length} >>`;
+
+  let pdf = '%PDF-1.4\n';
+  const offsets: number[] = [];
+  objects.forEach((body, i) => {
+    offsets.push(pdf.length);
+    pdf += `${i + 1} 0 obj\n${body}\nendobj\n`;
+  });
+  const xref = pdf.length;
+  pdf += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  pdf += offsets.map(offset => `${String(offset).padStart(10, '0')} 00000 n \n`).join('');
+  pdf += `trailer\n<< /Size ${objects.length + 1} /Root ${catalogId} 0 R /Info ${infoId} 0 R >>\nstartxref\n${xref}\n%%EOF\n`;
+
+  return new TextEncoder().encode(pdf);
+}
@@ -0,0 +1,476 @@
+// src/lib/record-club.ts
+// Record club subscription boxes — a label's recurring vinyl subscription
+// ("4 records a quarter"), alongside the Plus tier in subscription.ts.
+//
+// Billing runs on a Stripe subscription per member. When the label nominates
+// a period's releases, a copy of each is held for every member due that
+// period (a long-lived stock reservation). Each paid invoice then becomes a
+// normal shipping order for its period, converting the member's hold.
+// Skipping a period or pausing voids the Stripe invoice, so nothing is
+// charged or shipped for it.
+
+import { getDocument, getDocumentsBatch, queryCollection, addDocument, updateDocument, createDocumentIfNotExists, deleteDocument } from './firebase-rest';
+import { fetchWithTimeout, createLogger } from './api-utils';
+import { reserveStock, releaseReservation, convertReservation } from './order/stock-reservation';
+import type { CartItem } from './order/types';
+
+const log = createLogger('record-club');
+
+export const CLUBS_COLLECTION = 'recordClubs';
+export const MEMBERS_COLLECTION = 'recordClubMembers';
+// One doc per paid invoice, claimed before its order is created
+export const CLUB_INVOICES_COLLECTION = 'recordClubInvoices';
+
+export type ClubInterval = 'month' | 'quarter';
+
+// A hold has to outlast the gap between nomination and the period's invoice
+export const CLUB_HOLD_TTL_MS: Record<ClubInterval, number> = {
+  month: 40 * 24 * 60 * 60 * 1000,
+  quarter: 100 * 24 * 60 * 60 * 1000,
+};
+
+export interface ClubNomination {
+  releaseId: string;
+  vinylPartId?: string | null;
+}
+
+export interface RecordClub {
+  id: string;
+  ownerId: string;             // label/artist user who runs the club
+  name: string;
+  description?: string;
+  price: number;               // GBP per period, postage included
+  interval: ClubInterval;
+  recordsPerCycle: number;
+  status: 'active' | 'closed';
+  // Releases shipped each period, keyed by clubPeriod()
+  nominations: Record<string, ClubNomination[]>;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type MembershipStatus = 'incomplete' | 'active' | 'paused' | 'cancelled';
+
+export interface ClubShippingAddress {
+  address1: string;
+  address2?: string;
+  city: string;
+  county?: string;
+  postcode: string;
+  country: string;
+}
+
+export interface PaidPeriod {
+  period: string;
+  invoiceId: string;
+  paymentIntentId: string | null;
+  amount: number;
+}
+
+export interface ClubMembership {
+  id: string;
+  clubId: string;
+  clubName: string;
+  userId: string;
+  email: string;
+  firstName: string;
+  lastName: string;
+  shipping: ClubShippingAddress;
+  status: MembershipStatus;
+  stripeSubscriptionId: string | null;
+  stripeCustomerId: string | null;
+  skippedPeriods: string[];
+  fulfilledPeriods: string[];
+  // Paid before the label nominated that period's records
+  awaitingNomination: PaidPeriod[];
+  lastOrderId?: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type RecordClubEnv = Record<string, unknown>;
+
+/** Period key a date falls in: '2026-11' monthly, '2026-Q4' quarterly. */
+export function clubPeriod(interval: ClubInterval, date: Date): string {
+  const year = date.getUTCFullYear();
+  if (interval === 'quarter') {
+    return `${year}-Q${Math.floor(date.getUTCMonth() / 3) + 1}`;
+  }
+  return `${year}-${String(date.getUTCMonth() + 1).padStart(2, '0')}`;
+}
+
+/** Stock reservation session id for one member's copies for one period. */
+export function clubHoldId(memberId: string, period: string): string {
+  return `club_${memberId}_${period}`;
+}
+
+function holdItems(nominations: ClubNomination[]): CartItem[] {
+  return nominations.map(n => ({
+    type: 'vinyl',
+    releaseId: n.releaseId,
+    quantity: 1,
+    ...(n.vinylPartId ? { vinylPartId: n.vinylPartId } : {}),
+  }));
+}
+
+async function getMembers(clubId: string, statuses: MembershipStatus[]): Promise<ClubMembership[]> {
+  const members = await queryCollection(MEMBERS_COLLECTION, {
+    filters: [{ field: 'clubId', op: 'EQUAL', value: clubId }],
+    skipCache: true,
+  });
+  return (members as unknown as ClubMembership[]).filter(m => statuses.includes(m.status));
+}
+
+/**
+ * Hold a copy of each nominated release for every member due this period.
+ * Re-nominating replaces the previous holds. Members who skipped the period
+ * or are paused get nothing held; a member whose copies can't be held is
+ * reported so the label can top up stock.
+ */
+export async function reserveClubCycle(club: RecordClub, period: string): Promise<{ held: number; failed: string[] }> {
+  const nominations = club.nominations?.[period] || [];
+  const members = await getMembers(club.id, ['active', 'paused']);
+  let held = 0;
+  const failed: string[] = [];
+
+  for (const member of members) {
+    const holdId = clubHoldId(member.id, period);
+    await releaseReservation(holdId);
+    if (nominations.length === 0 || member.status !== 'active') continue;
+    if ((member.skippedPeriods || []).includes(period) || (member.fulfilledPeriods || []).includes(period)) continue;
+
+    const result = await reserveStock(holdItems(nominations), holdId, member.userId, {
+      ttlMs: CLUB_HOLD_TTL_MS[club.interval],
+    });
+    if (result.success) {
+      held++;
+    } else {
+      failed.push(member.id);
+      log.warn(`Could not hold ${period} copies for member ${member.id}: ${result.error}`);
+    }
+  }
+
+  log.info(`Held ${period} for ${held} member(s) of ${club.name}${failed.length ? `, ${failed.length} short` : ''}`);
+  return { held, failed };
+}
+
+/**
+ * Turn one paid period into a shipping order. Idempotent per invoice: the
+ * invoice is claimed (a doc keyed on its id) before the order is created, so
+ * a redelivered or concurrent webhook returns the first delivery's order
+ * instead of shipping twice. When the label hasn't nominated the period yet,
+ * the payment waits on the membership and nominateClubReleases fulfils it.
+ */
+export async function fulfilClubCycle(params: {
+  club: RecordClub;
+  member: ClubMembership;
+  paid: PaidPeriod;
+  env: RecordClubEnv;
+}): Promise<{ orderId?: string; orderNumber?: string; awaitingNomination?: boolean; error?: string }> {
+  const { club, member, paid, env } = params;
+  const now = new Date().toISOString();
+
+  if ((member.fulfilledPeriods || []).includes(paid.period)) {
+    return { orderId: member.lastOrderId || undefined };
+  }
+
+  const nominations = club.nominations?.[paid.period] || [];
+  if (nominations.length === 0) {
+    const waiting = (member.awaitingNomination || []).filter(p => p.period !== paid.period);
+    await updateDocument(MEMBERS_COLLECTION, member.id, { awaitingNomination: [...waiting, paid], updatedAt: now });
+    log.info(`${club.name} ${paid.period} paid by ${member.id} before nomination — queued`);
+    return { awaitingNomination: true };
+  }
+
+  const claimId = paid.invoiceId || `${member.id}_${paid.period}`;
+  const claim = await createDocumentIfNotExists(CLUB_INVOICES_COLLECTION, claimId, {
+    clubId: club.id,
+    memberId: member.id,
+    period: paid.period,
+    invoiceId: paid.invoiceId,
+    status: 'fulfilling',
+    createdAt: now,
+  });
+  if (!claim.success) {
+    const existing = await getDocument(CLUB_INVOICES_COLLECTION, claimId);
+    if (existing?.orderId) {
+      return { orderId: String(existing.orderId), orderNumber: existing.orderNumber ? String(existing.orderNumber) : undefined };
+    }
+    // Another delivery is creating the order right now; a retry finds it
+    log.warn(`${club.name} ${paid.period} invoice ${claimId} is already being fulfilled`);
+    return { error: 'Invoice is already being fulfilled' };
+  }
+
+  // The claim is freed unless an order came of it — a failed or throwing
+  // createOrder included — so the webhook retry can try again
+  let items: CartItem[] = [];
+  let result: { success: boolean; orderId?: string; orderNumber?: string; error?: string } | null = null;
+  try {
+    const releases = await getDocumentsBatch('releases', nominations.map(n => n.releaseId));
+
+    // The period's price is split evenly across its records (pennies to the first)
+    const totalPence = Math.round(paid.amount * 100);
+    const share = Math.floor(totalPence / nominations.length);
+    items = nominations.map((n, i) => {
+      const release = releases.get(n.releaseId) || {};
+      return {
+        type: 'vinyl',
+        id: n.releaseId,
+        releaseId: n.releaseId,
+        name: String(release.releaseName || release.title || 'Record club release'),
+        artist: String(release.artistName || release.artist || ''),
+        artistId: (release.artistId as string) || undefined,
+        image: (release.coverArtUrl as string) || (release.artworkUrl as string) || undefined,
+        price: (share + (i === 0 ? totalPence - share * nominations.length : 0)) / 100,
+        quantity: 1,
+        ...(n.vinylPartId ? { vinylPartId: n.vinylPartId } : {}),
+      };
+    });
+
+    const { createOrder } = await import('./order/creation');
+    result = await createOrder({
+      orderData: {
+        customer: { email: member.email, firstName: member.firstName, lastName: member.lastName, userId: member.userId },
+        shipping: member.shipping,
+        items,
+        totals: { subtotal: paid.amount, shipping: 0, total: paid.amount },
+        hasPhysicalItems: true,
+        paymentMethod: 'stripe',
+        paymentIntentId: paid.paymentIntentId || undefined,
+      },
+      env,
+    });
+  } finally {
+    if (!result?.success || !result.orderId) await deleteDocument(CLUB_INVOICES_COLLECTION, claimId);
+  }
+  if (!result.success || !result.orderId) {
+    log.error(`Order for ${member.id} ${paid.period} failed:`, result.error);
+    return { error: result.error || 'Order creation failed' };
+  }
+  await updateDocument(CLUB_INVOICES_COLLECTION, claimId, {
+    status: 'fulfilled',
+    orderId: result.orderId,
+    orderNumber: result.orderNumber || null,
+    fulfilledAt: new Date().toISOString(),
+  });
+
+  await updateDocument('orders', result.orderId, {
+    recordClub: { clubId: club.id, clubName: club.name, memberId: member.id, period: paid.period, invoiceId: paid.invoiceId },
+  });
+  await convertReservation(clubHoldId(member.id, paid.period));
+  await updateDocument(MEMBERS_COLLECTION, member.id, {
+    fulfilledPeriods: [...(member.fulfilledPeriods || []), paid.period],
+    awaitingNomination: (member.awaitingNomination || []).filter(p => p.period !== paid.period),
+    lastOrderId: result.orderId,
+    updatedAt: now,
+  });
+
+  await recordClubSale({ orderId: result.orderId, orderNumber: result.orderNumber || '', member, items, paid, env });
+
+  log.info(`${club.name} ${paid.period} → order ${result.orderNumber} for ${member.id}`);
+  return { orderId: result.orderId, orderNumber: result.orderNumber };
+}
+
+// Ledger + artist payouts for a club order, as for any Stripe sale
+async function recordClubSale(params: {
+  orderId: string;
+  orderNumber: string;
+  member: ClubMembership;
+  items: CartItem[];
+  paid: PaidPeriod;
+  env: RecordClubEnv;
+}): Promise<void> {
+  const { orderId, orderNumber, member, items, paid, env } = params;
+  const lineItems = items as Record<string, unknown>[];
+
+  try {
+    const [{ enrichItemsWithSellerInfo }, { recordMultiSellerSale }] = await Promise.all([
+      import('./stripe-webhook/seller-enrichment'),
+      import('./sales-ledger'),
+    ]);
+    const enriched = await enrichItemsWithSellerInfo(lineItems);
+    await recordMultiSellerSale({
+      orderId,
+      orderNumber,
+      customerId: member.userId,
+      customerEmail: member.email,
+      customerName: `${member.firstName} ${member.lastName}`.trim() || null,
+      grossTotal: paid.amount,
+      stripeFee: Math.round((paid.amount * 0.014 + 0.20) * 100) / 100,
+      paymentMethod: 'stripe',
+      paymentId: paid.paymentIntentId,
+      hasPhysical: true,
+      hasDigital: false,
+      items: enriched as Parameters<typeof recordMultiSellerSale>[0]['items'],
+      db: env.DB as Parameters<typeof recordMultiSellerSale>[0]['db'],
+    });
+  } catch (e: unknown) {
+    log.error('Ledger write failed for club order:', e);
+  }
+
+  const stripeSecretKey = env.STRIPE_SECRET_KEY as string | undefined;
+  if (!stripeSecretKey) return;
+  try {
+    const { processArtistPayments } = await import('./order/seller-payments');
+    await processArtistPayments({
+      orderId,
+      orderNumber,
+      items: lineItems,
+      totalItemCount: items.length,
+      orderSubtotal: paid.amount,
+      paymentMethod: 'stripe',
+      stripeSecretKey,
+      env,
+      logPrefix: '[record-club]',
+    });
+  } catch (e: unknown) {
+    log.error('Artist payments failed for club order:', e);
+  }
+}
+
+/**
+ * Set a period's releases. Holds copies for members due that period, and
+ * ships anyone who already paid for it.
+ */
+export async function nominateClubReleases(
+  club: RecordClub,
+  period: string,
+  nominations: ClubNomination[],
+  env: RecordClubEnv
+): Promise<{ held: number; failed: string[]; fulfilled: number }> {
+  const updated: RecordClub = { ...club, nominations: { ...(club.nominations || {}), [period]: nominations } };
+  await updateDocument(CLUBS_COLLECTION, club.id, { nominations: updated.nominations, updatedAt: new Date().toISOString() });
+
+  const { held, failed } = await reserveClubCycle(updated, period);
+
+  let fulfilled = 0;
+  for (const member of await getMembers(club.id, ['active', 'paused', 'cancelled'])) {
+    const paid = (member.awaitingNomination || []).find(p => p.period === period);
+    if (!paid) continue;
+    const result = await fulfilClubCycle({ club: updated, member, paid, env });
+    if (result.orderId) fulfilled++;
+  }
+
+  return { held, failed, fulfilled };
+}
+
+// --- Stripe subscription controls -------------------------------------------
+
+async function stripeSubscriptionRequest(
+  stripeSecretKey: string,
+  subscriptionId: string,
+  body?: URLSearchParams
+): Promise<Record<string, unknown>> {
+  const response = await fetchWithTimeout(`https://api.stripe.com/v1/subscriptions/${subscriptionId}`, {
+    method: body ? 'POST' : 'GET',
+    headers: {
+      'Authorization': `Bearer ${stripeSecretKey}`,
+      ...(body ? { 'Content-Type': 'application/x-www-form-urlencoded' } : {}),
+    },
+    ...(body ? { body: body.toString() } : {}),
+  }, 10000);
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}));
+    throw new Error(`Stripe subscription request failed (${response.status}): ${JSON.stringify(error)}`);
+  }
+  return response.json();
+}
+
+/**
+ * Skip the member's next period: Stripe voids that invoice and collection
+ * resumes the day after, and their held copies go back on sale.
+ */
+export async function skipNextClubPeriod(
+  member: ClubMembership,
+  club: RecordClub,
+  stripeSecretKey: string
+): Promise<{ period: string }> {
+  if (member.status !== 'active' || !member.stripeSubscriptionId) {
+    throw new Error('Only an active membership can skip a period');
+  }
+  const subscription = await stripeSubscriptionRequest(stripeSecretKey, member.stripeSubscriptionId);
+  const nextBilling = Number(subscription.current_period_end) || Math.floor(Date.now() / 1000);
+  const period = clubPeriod(club.interval, new Date(nextBilling * 1000));
+
+  await stripeSubscriptionRequest(stripeSecretKey, member.stripeSubscriptionId, new URLSearchParams({
+    'pause_collection[behavior]': 'void',
+    'pause_collection[resumes_at]': String(nextBilling + 24 * 60 * 60),
+  }));
+
+  await releaseReservation(clubHoldId(member.id, period));
+  await updateDocument(MEMBERS_COLLECTION, member.id, {
+    skippedPeriods: [...new Set([...(member.skippedPeriods || []), period])],
+    updatedAt: new Date().toISOString(),
+  });
+  return { period };
+}
+
+/** Pause until resumed: every invoice meanwhile is voided. */
+export async function pauseClubMembership(member: ClubMembership, stripeSecretKey: string): Promise<void> {
+  if (member.status !== 'active' || !member.stripeSubscriptionId) {
+    throw new Error('Only an active membership can be paused');
+  }
+  await stripeSubscriptionRequest(stripeSecretKey, member.stripeSubscriptionId, new URLSearchParams({
+    'pause_collection[behavior]': 'void',
+  }));
+  await updateDocument(MEMBERS_COLLECTION, member.id, {
+    status: 'paused',
+    pausedAt: new Date().toISOString(),
+    updatedAt: new Date().toISOString(),
+  });
+}
+
+export async function resumeClubMembership(member: ClubMembership, stripeSecretKey: string): Promise<void> {
+  if (member.status !== 'paused' || !member.stripeSubscriptionId) {
+    throw new Error('Only a paused membership can be resumed');
+  }
+  // An empty pause_collection clears it
+  await stripeSubscriptionRequest(stripeSecretKey, member.stripeSubscriptionId, new URLSearchParams({
+    'pause_collection': '',
+  }));
+  await updateDocument(MEMBERS_COLLECTION, member.id, {
+    status: 'active',
+    pausedAt: null,
+    updatedAt: new Date().toISOString(),
+  });
+}
+
+// --- Lookups ---------------------------------------------------------------
+
+export async function getClub(clubId: string): Promise<RecordClub | null> {
+  return (await getDocument(CLUBS_COLLECTION, clubId)) as RecordClub | null;
+}
+
+export async function getMembership(memberId: string): Promise<ClubMembership | null> {
+  return (await getDocument(MEMBERS_COLLECTION, memberId)) as ClubMembership | null;
+}
+
+export async function getUserMemberships(userId: string): Promise<ClubMembership[]> {
+  const members = await queryCollection(MEMBERS_COLLECTION, {
+    filters: [{ field: 'userId', op: 'EQUAL', value: userId }],
+    skipCache: true,
+  });
+  return (members as unknown as ClubMembership[]).filter(m => m.status !== 'incomplete');
+}
+
+/** Start a membership ahead of checkout; the webhook activates it. */
+export async function createPendingMembership(
+  club: RecordClub,
+  customer: { userId: string; email: string; firstName: string; lastName: string; shipping: ClubShippingAddress }
+): Promise<string> {
+  const now = new Date().toISOString();
+  const result = await addDocument(MEMBERS_COLLECTION, {
+    clubId: club.id,
+    clubName: club.name,
+    ...customer,
+    status: 'incomplete',
+    stripeSubscriptionId: null,
+    stripeCustomerId: null,
+    skippedPeriods: [],
+    fulfilledPeriods: [],
+    awaitingNomination: [],
+    createdAt: now,
+    updatedAt: now,
+  });
+  return result.id;
+}
@@ -2,6 +2,7 @@
  * Release plate player — tracklist preview with clip restriction (90s starting at 60s).
  */
 import { createClientLogger } from '../client-logger';
+import { parseWaveform, windowPeaks } from '../waveform';
 
 const log = createClientLogger('ReleasePlate');
 
@@ -33,6 +34,9 @@ export function initReleasePlayer() {
     let ctx: CanvasRenderingContext2D | null = null;
     const bars = 60;
     let barWidth = 0;
+    // The playing track's measured peaks over the clip, or null to draw the
+    // placeholder bars (older releases have no waveform)
+    let currentBars: number[] | null = null;
 
     if (canvas) {
       ctx = canvas.getContext('2d');
@@ -56,7 +60,9 @@ export function initReleasePlayer() {
       if (!ctx || !canvas) return;
       ctx.clearRect(0, 0, canvas.width, canvas.height);
       for (let i = 0; i < bars; i++) {
-        const height = (Math.random() * 0.5 + 0.3) * canvas.height;
+        const height = currentBars
+          ? Math.max(2, (currentBars[i]! / 255) * canvas.height)
+          : (Math.random() * 0.5 + 0.3) * canvas.height;
         const x = i * (barWidth + 1);
         const y = (canvas.height - height) / 2;
         ctx.fillStyle = isPlaying ? (i / bars < progress ? '#dc2626' : '#ffffff') : (i / bars < progress ? '#dc2626' : '#4b5563');
@@ -75,6 +81,8 @@ export function initReleasePlayer() {
       const trackId = button.getAttribute('data-track-id');
       const previewUrl = button.getAttribute('data-preview-url');
       const trackTitle = button.getAttribute('data-track-title') || 'Unknown Track';
+      const peaks = parseWaveform(button.getAttribute('data-waveform'));
+      let clipBars: number[] | null = null;
       const playIcon = button.querySelector('.play-icon');
       const pauseIcon = button.querySelector('.pause-icon');
 
@@ -100,6 +108,10 @@ export function initReleasePlayer() {
           audio.ontimeupdate = function() {
             if (audio === currentAudio && audio!.duration && isFinite(audio!.duration)) {
               const currentTime = audio!.currentTime;
+              if (peaks && !clipBars && audio!.duration > CLIP_START_TIME) {
+                clipBars = windowPeaks(peaks, audio!.duration, CLIP_START_TIME, CLIP_END_TIME, bars);
+              }
+              currentBars = clipBars;
 
               if (currentTime >= CLIP_END_TIME) {
                 audio!.pause();
@@ -199,6 +211,7 @@ export function initReleasePlayer() {
 
         currentAudio = audio;
         currentButton = button;
+        currentBars = clipBars;
 
         if (audio.duration && audio.duration > CLIP_START_TIME) {
           if (audio.currentTime < CLIP_START_TIME || audio.currentTime >= CLIP_END_TIME) {
@@ -5,6 +5,10 @@
 // files), so it is done by the local audio-processor service. This module is
 // the shared vocabulary between the two: the Worker publishes a queue, the
 // local agent drains it.
+//
+// Releases that came through the release-processor Worker have their own
+// transcode job queue (workers/release-processor); their tracks are left to
+// it unless a job has failed, when the local agent is the fallback.
 
 const WEB_READY_AUDIO = /\.mp3(\?|$)/i;
 const RAW_AUDIO = /\.(wav|aiff?|flac|alac)(\?|$)/i;
@@ -62,15 +66,19 @@ export function buildAudioQueue(
 
     const needing: QueuedTrack[] = [];
     tracks.forEach((t, i) => {
+      // Already queued with the release-processor's transcoder
+      if (t.transcodeStatus === 'queued' || t.transcodeStatus === 'running') return;
+
       const mp3 = String(t.mp3Url || t.url || '');
       const preview = String(t.previewUrl || '');
       const wav = String(t.wavUrl || '');
+      const master = String(t.masterUrl || '');
 
       // Nothing to do when both playable URLs are already MP3.
       if (isWebReady(mp3) && (!preview || isWebReady(preview))) return;
 
       // Prefer an explicit raw master; otherwise whichever URL is still raw.
-      const source = [wav, mp3, preview].find(u => isRawMaster(u));
+      const source = [wav, master, mp3, preview].find(u => isRawMaster(u));
       if (!source) return;
 
       needing.push({
@@ -0,0 +1,329 @@
+// src/lib/release/download-fingerprint.ts
+// Stamping a buyer's code into the audio files they download, and finding it
+// again in a file that's turned up somewhere it shouldn't have.
+//
+// The code goes where each format keeps its tags, added to whatever tags the
+// file already has:
+//   - MP3: an ID3v2 TXXX frame described FRESHWAX
+//   - FLAC: a FRESHWAX= Vorbis comment
+//   - WAV: a LIST/INFO chunk after the audio, with the code in ICMT
+//   - AIFF: an ANNO chunk after the audio
+// Only the head of the file (and for WAV and AIFF its size field) is
+// rewritten; the audio streams through untouched. That makes it a metadata
+// fingerprint, not a watermark in the sound: it survives copying, renaming
+// and most tag editors, but not re-encoding or a deliberate strip. Kept free
+// of server imports so /admin/leak-trace can scan a file in the browser.
+
+export type FingerprintFormat = 'mp3' | 'wav' | 'flac' | 'aiff';
+
+export const FINGERPRINT_TAG = 'FRESHWAX';
+
+// Crockford base32: no I, L, O or U, so a code read off a screen is unambiguous
+const CODE_ALPHABET = '0123456789ABCDEFGHJKMNPQRSTVWXYZ';
+const CODE_LENGTH = 10;
+const CODE_PATTERN = /^FW-[0-9A-HJKMNP-TV-Z]{10}$/;
+
+// A file whose tags run past this is served unstamped rather than buffered
+export const MAX_FINGERPRINT_HEAD = 16 * 1024 * 1024;
+
+const ascii = (s: string) => Uint8Array.from(s, c => c.charCodeAt(0) & 0xff);
+
+/**
+ * A new code: 'FW-' and ten random base32 characters (50 bits)
+ */
+export function generateFingerprintCode(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(CODE_LENGTH));
+  return 'FW-' + Array.from(bytes, b => CODE_ALPHABET[b & 31]).join('');
+}
+
+export function isFingerprintCode(value: unknown): value is string {
+  return typeof value === 'string' && CODE_PATTERN.test(value);
+}
+
+/**
+ * The first code anywhere in some bytes of a file, or null
+ */
+export function findFingerprintCode(bytes: Uint8Array): string | null {
+  const last = bytes.length - (3 + CODE_LENGTH);
+  for (let i = 0; i <= last; i++) {
+    // 'FW-'
+    if (bytes[i] !== 0x46 || bytes[i + 1] !== 0x57 || bytes[i + 2] !== 0x2d) continue;
+    const code = String.fromCharCode(...bytes.subarray(i, i + 3 + CODE_LENGTH));
+    if (CODE_PATTERN.test(code)) return code;
+  }
+  return null;
+}
+
+/**
+ * Format of a file by its name or R2 key; null for anything that isn't audio
+ */
+export function fingerprintFormat(name: string): FingerprintFormat | null {
+  const ext = name.split('?')[0]!.split('.').pop()?.toLowerCase();
+  if (ext === 'mp3' || ext === 'wav' || ext === 'flac') return ext;
+  if (ext === 'aif' || ext === 'aiff') return 'aiff';
+  return null;
+}
+
+// --- Byte helpers -----------------------------------------------------------
+
+function concat(...parts: Uint8Array[]): Uint8Array {
+  const out = new Uint8Array(parts.reduce((n, p) => n + p.length, 0));
+  let at = 0;
+  for (const part of parts) {
+    out.set(part, at);
+    at += part.length;
+  }
+  return out;
+}
+
+const readSyncsafe = (b: Uint8Array, at: number) =>
+  ((b[at]! & 0x7f) << 21) | ((b[at + 1]! & 0x7f) << 14) | ((b[at + 2]! & 0x7f) << 7) | (b[at + 3]! & 0x7f);
+const syncsafe = (n: number) => Uint8Array.of((n >> 21) & 0x7f, (n >> 14) & 0x7f, (n >> 7) & 0x7f, n & 0x7f);
+const readBe32 = (b: Uint8Array, at: number) => new DataView(b.buffer, b.byteOffset).getUint32(at);
+const readLe32 = (b: Uint8Array, at: number) => new DataView(b.buffer, b.byteOffset).getUint32(at, true);
+const be32 = (n: number) => { const b = new Uint8Array(4); new DataView(b.buffer).setUint32(0, n); return b; };
+const le32 = (n: number) => { const b = new Uint8Array(4); new DataView(b.buffer).setUint32(0, n, true); return b; };
+const readBe24 = (b: Uint8Array, at: number) => (b[at]! << 16) | (b[at + 1]! << 8) | b[at + 2]!;
+const startsWith = (b: Uint8Array, s: string, at = 0) => b.length >= at + s.length && [...s].every((c, i) => b[at + i] === c.charCodeAt(0));
+
+// --- Per format -------------------------------------------------------------
+
+/**
+ * How to stamp a file: replace its first `consumed` bytes with `head`, and
+ * add `trailer` after its last byte
+ */
+export interface FingerprintEdit {
+  consumed: number;
+  head: Uint8Array;
+  trailer: Uint8Array;
+}
+
+const EMPTY = new Uint8Array(0);
+
+/**
+ * How many bytes from the start of a file stamping it needs, judged from what
+ * has been read so far; read until you have at least this many (or the file
+ * ends) and ask again, as the answer grows once the tag sizes are known
+ */
+export function fingerprintHeadLength(format: FingerprintFormat, head: Uint8Array): number {
+  if (format === 'mp3') {
+    if (head.length < 10) return 10;
+    return startsWith(head, 'ID3') ? 10 + readSyncsafe(head, 6) : 10;
+  }
+  if (format === 'flac') {
+    if (head.length < 4) return 4;
+    let at = 4;
+    for (;;) {
+      if (head.length < at + 4) return at + 4;
+      const next = at + 4 + readBe24(head, at + 1);
+      if (head[at]! & 0x80) return next;
+      at = next;
+    }
+  }
+  return 12;
+}
+
+function id3Edit(head: Uint8Array, code: string): FingerprintEdit | null {
+  const payload = concat(Uint8Array.of(0), ascii(FINGERPRINT_TAG), Uint8Array.of(0), ascii(code));
+  const frame = (version: number) =>
+    concat(ascii('TXXX'), version === 4 ? syncsafe(payload.length) : be32(payload.length), Uint8Array.of(0, 0), payload);
+
+  // No tag yet: give it one
+  if (!startsWith(head, 'ID3')) {
+    const txxx = frame(3);
+    return { consumed: 0, head: concat(ascii('ID3'), Uint8Array.of(3, 0, 0), syncsafe(txxx.length), txxx), trailer: EMPTY };
+  }
+
+  const version = head[3]!;
+  const flags = head[5]!;
+  // ID3v2.2's three-letter frames and a v2.4 footer aren't worth the code
+  if (version < 3 || version > 4 || flags & 0x10) return null;
+  const end = 10 + readSyncsafe(head, 6);
+  if (head.length < end) return null;
+
+  let at = 10;
+  if (flags & 0x40) at += version === 4 ? readSyncsafe(head, 10) : 4 + readBe32(head, 10);
+  // Walk the frames to where the padding starts
+  while (at + 10 <= end && head[at] !== 0) {
+    const size = version === 4 ? readSyncsafe(head, at + 4) : readBe32(head, at + 4);
+    at += 10 + size;
+  }
+  if (at > end) return null;
+
+  const txxx = frame(version);
+  const size = end - 10 + txxx.length;
+  if (size > 0x0fffffff) return null;
+  return {
+    consumed: end,
+    head: concat(head.subarray(0, 6), syncsafe(size), head.subarray(10, at), txxx, head.subarray(at, end)),
+    trailer: EMPTY,
+  };
+}
+
+function flacEdit(head: Uint8Array, code: string): FingerprintEdit | null {
+  if (!startsWith(head, 'fLaC')) return null;
+  const blocks: Array<{ at: number; type: number; length: number; last: boolean }> = [];
+  let at = 4;
+  for (;;) {
+    if (head.length < at + 4) return null;
+    const block = { at, type: head[at]! & 0x7f, length: readBe24(head, at + 1), last: !!(head[at]! & 0x80) };
+    blocks.push(block);
+    at += 4 + block.length;
+    if (block.last) break;
+  }
+  if (head.length < at) return null;
+
+  const comment = new TextEncoder().encode(`${FINGERPRINT_TAG}=${code}`);
+  const entry = concat(le32(comment.length), comment);
+  const blockHeader = (flags: number, length: number) => Uint8Array.of(flags, (length >> 16) & 0xff, (length >> 8) & 0xff, length & 0xff);
+
+  const existing = blocks.find(b => b.type === 4);
+  if (existing) {
+    const body = head.subarray(existing.at + 4, existing.at + 4 + existing.length);
+    const countAt = 4 + readLe32(body, 0);
+    if (countAt + 4 > body.length) return null;
+    const newLength = existing.length + entry.length;
+    if (newLength > 0xffffff) return null;
+    const updated = concat(body.subarray(0, countAt), le32(readLe32(body, countAt) + 1), body.subarray(countAt + 4), entry);
+    return {
+      consumed: at,
+      head: concat(
+        head.subarray(0, existing.at),
+        blockHeader(head[existing.at]!, newLength),
+        updated,
+        head.subarray(existing.at + 4 + existing.length, at)
+      ),
+      trailer: EMPTY,
+    };
+  }
+
+  // No comments yet: add a VORBIS_COMMENT block after STREAMINFO, taking
+  // over its last-block flag if it was the only one
+  const streamInfo = blocks[0]!;
+  const vendor = ascii('Fresh Wax');
+  const body = concat(le32(vendor.length), vendor, le32(1), entry);
+  const afterInfo = streamInfo.at + 4 + streamInfo.length;
+  return {
+    consumed: at,
+    head: concat(
+      head.subarray(0, 4),
+      Uint8Array.of(head[4]! & 0x7f),
+      head.subarray(5, afterInfo),
+      blockHeader(4 | (streamInfo.last ? 0x80 : 0), body.length),
+      body,
+      head.subarray(afterInfo, at)
+    ),
+    trailer: EMPTY,
+  };
+}
+
+/**
+ * A chunk after the audio: LIST/INFO/ICMT in a WAV (little-endian sizes),
+ * ANNO in an AIFF (big-endian). An odd-length file gets its missing pad byte
+ * first, so the new chunk starts on a word boundary.
+ */
+function trailingChunkEdit(head: Uint8Array, code: string, size: number | null, riff: boolean): FingerprintEdit | null {
+  if (head.length < 12) return null;
+  if (riff ? !startsWith(head, 'RIFF') || !startsWith(head, 'WAVE', 8) : !startsWith(head, 'FORM') || !(startsWith(head, 'AIFF', 8) || startsWith(head, 'AIFC', 8))) {
+    return null;
+  }
+
+  const text = ascii(`Fresh Wax download ${code}\0`);
+  const padded = text.length % 2 ? concat(text, Uint8Array.of(0)) : text;
+  const chunk = riff
+    ? concat(ascii('LIST'), le32(4 + 8 + padded.length), ascii('INFO'), ascii('ICMT'), le32(text.length), padded)
+    : concat(ascii('ANNO'), be32(text.length), padded);
+  const trailer = size !== null && size % 2 ? concat(Uint8Array.of(0), chunk) : chunk;
+
+  const formSize = (riff ? readLe32(head, 4) : readBe32(head, 4)) + trailer.length;
+  if (formSize > 0xffffffff) return null;
+  return {
+    consumed: 12,
+    head: concat(head.subarray(0, 4), riff ? le32(formSize) : be32(formSize), head.subarray(8, 12)),
+    trailer,
+  };
+}
+
+/**
+ * How to stamp `code` into a file, given at least fingerprintHeadLength()
+ * bytes of its start and its full size when known. Null when the file isn't
+ * the format it claims or its tags can't be safely rewritten.
+ */
+export function fingerprintEdit(
+  format: FingerprintFormat,
+  head: Uint8Array,
+  code: string,
+  size: number | null
+): FingerprintEdit | null {
+  switch (format) {
+    case 'mp3': return id3Edit(head, code);
+    case 'flac': return flacEdit(head, code);
+    case 'wav': return trailingChunkEdit(head, code, size, true);
+    case 'aiff': return trailingChunkEdit(head, code, size, false);
+  }
+}
+
+/**
+ * A file's body with the code stamped in, streamed: only the head is
+ * buffered. The size is the stamped file's (null if the original's wasn't
+ * known); `stamped` is false when the file went through unchanged.
+ */
+export async function fingerprintBody(
+  body: ReadableStream,
+  size: number | null,
+  format: FingerprintFormat,
+  code: string
+): Promise<{ body: ReadableStream<Uint8Array>; size: number | null; stamped: boolean }> {
+  const reader = body.getReader();
+  const chunks: Uint8Array[] = [];
+  let buffered: Uint8Array = new Uint8Array(0);
+  let received = 0;
+  let needed = fingerprintHeadLength(format, buffered);
+  let ended = false;
+
+  // Join what's been read only once there's enough to learn more of the
+  // layout, not on every chunk
+  while (!ended && received < Math.min(needed, MAX_FINGERPRINT_HEAD)) {
+    const next = await reader.read();
+    if (next.done) {
+      ended = true;
+    } else {
+      chunks.push(next.value);
+      received += next.value.length;
+    }
+    if (received >= needed || ended) {
+      buffered = concat(...chunks);
+      needed = fingerprintHeadLength(format, buffered);
+    }
+  }
+  if (buffered.length < received) buffered = concat(...chunks);
+
+  const edit = fingerprintEdit(format, buffered, code, size);
+  const head = edit ? concat(edit.head, buffered.subarray(edit.consumed)) : buffered;
+  const trailer = edit?.trailer ?? EMPTY;
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      if (head.length) controller.enqueue(head);
+      if (ended) {
+        if (trailer.length) controller.enqueue(trailer);
+        controller.close();
+      }
+    },
+    async pull(controller) {
+      const next = await reader.read();
+      if (next.done) {
+        if (trailer.length) controller.enqueue(trailer);
+        controller.close();
+      } else {
+        controller.enqueue(next.value);
+      }
+    },
+    cancel(reason) {
+      return reader.cancel(reason);
+    },
+  });
+
+  const delta = edit ? edit.head.length - edit.consumed + edit.trailer.length : 0;
+  return { body: stream, size: size === null ? null : size + delta, stamped: !!edit };
+}
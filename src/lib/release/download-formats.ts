@@ -0,0 +1,252 @@
+// src/lib/release/download-formats.ts
+// The formats a buyer can download a purchased track in, and what goes into
+// the files.
+//
+// Every release already has an MP3 and its WAV master. FLAC and AIFF — what
+// Rekordbox and Serato users ask for — are made on demand from the lossless
+// master by the release-processor's transcode runner ('download' jobs, see
+// ./download-renditions.ts), and so is a copy of the MP3 carrying the full
+// set of tags. Each is kept in R2 and served from there after the first
+// request. WAV is always the master exactly as uploaded.
+
+import { urlToKey } from './audio-queue';
+import { parseBpm, parseKey } from './musical-key';
+
+export const DOWNLOAD_FORMATS = ['mp3', 'wav', 'flac', 'aiff'] as const;
+export type DownloadFormat = typeof DOWNLOAD_FORMATS[number];
+
+// Formats the runner makes (and tags); WAV is never re-made
+export type RenditionFormat = Exclude<DownloadFormat, 'wav'>;
+
+export const FORMAT_LABELS: Record<DownloadFormat, string> = {
+  mp3: 'MP3 320k',
+  wav: 'WAV',
+  flac: 'FLAC',
+  aiff: 'AIFF',
+};
+
+export const FORMAT_CONTENT_TYPES: Record<DownloadFormat, string> = {
+  mp3: 'audio/mpeg',
+  wav: 'audio/wav',
+  flac: 'audio/flac',
+  aiff: 'audio/aiff',
+};
+
+const LOSSLESS_AUDIO = /\.(wav|aiff?|flac)(\?|$)/i;
+
+// What the runner embeds; the same shape is stored on the job (tags column)
+export interface DownloadTags {
+  artist: string;
+  title: string;
+  album: string;
+  albumArtist: string;
+  label: string | null;
+  catalogNumber: string | null;
+  isrc: string | null;
+  bpm: number | null;
+  key: string | null;
+  remixer: string | null;
+  trackNumber: number;
+  trackTotal: number;
+  year: string | null;
+  genre: string | null;
+  /** R2 key of the cover to embed */
+  artworkKey: string | null;
+}
+
+export function isDownloadFormat(value: unknown): value is DownloadFormat {
+  return DOWNLOAD_FORMATS.includes(value as DownloadFormat);
+}
+
+export function isRenditionFormat(value: unknown): value is RenditionFormat {
+  return value === 'mp3' || value === 'flac' || value === 'aiff';
+}
+
+const text = (value: unknown): string | null => {
+  const s = typeof value === 'string' || typeof value === 'number' ? String(value).trim() : '';
+  return s || null;
+};
+
+/**
+ * R2 key of a file on the release bucket's public domain; null for anything
+ * stored elsewhere (old Firebase Storage uploads)
+ */
+export function r2KeyFromUrl(url: unknown, publicDomain: string): string | null {
+  if (typeof url !== 'string' || !url) return null;
+  try {
+    const host = new URL(url).hostname;
+    const onR2 = url.startsWith(publicDomain.replace(/\/$/, '')) ||
+      host === 'cdn.freshwax.co.uk' || host.endsWith('.r2.dev');
+    if (!onR2) return null;
+    const key = urlToKey(url, publicDomain);
+    return key && !key.includes('..') && !key.includes('\0') ? key : null;
+  } catch {
+    return null;
+  }
+}
+
+export function trackTitle(track: Record<string, unknown>, index: number): string {
+  return text(track.trackName) || text(track.title) || text(track.name) || `Track ${index + 1}`;
+}
+
+/**
+ * Index of a release track: by the URL an order stored for it, which pins the
+ * exact file bought, then by name. -1 if neither matches.
+ */
+export function findReleaseTrackIndex(
+  tracks: Array<Record<string, unknown>>,
+  match: { url?: unknown; name?: unknown }
+): number {
+  if (match.url) {
+    const byUrl = tracks.findIndex(t => [t.wavUrl, t.mp3Url, t.masterUrl, t.flacUrl].includes(match.url));
+    if (byUrl >= 0) return byUrl;
+  }
+  const name = typeof match.name === 'string' ? match.name.trim().toLowerCase() : '';
+  if (!name) return -1;
+  return tracks.findIndex((t, i) => trackTitle(t, i).toLowerCase() === name);
+}
+
+/**
+ * Where a rendition is made from. An MP3 is the stored 320k MP3 with tags
+ * added (no second encode), FLAC and AIFF the lossless master; a lossy file
+ * is never passed off as either.
+ */
+export function renditionSource(
+  track: Record<string, unknown>,
+  format: RenditionFormat,
+  publicDomain: string
+): { key: string; format: string } | null {
+  const lossless = [track.masterUrl, track.wavUrl, track.flacUrl].filter(u => typeof u === 'string' && LOSSLESS_AUDIO.test(u));
+  const candidates = format === 'mp3' ? [track.mp3Url, ...lossless] : lossless;
+
+  for (const url of candidates) {
+    const key = r2KeyFromUrl(url, publicDomain);
+    if (!key) continue;
+    const ext = key.split('.').pop()?.toLowerCase() || '';
+    return { key, format: ext === 'aif' ? 'aiff' : ext };
+  }
+  return null;
+}
+
+function trackArtist(release: Record<string, unknown>, track: Record<string, unknown>): string {
+  const artist = text(track.artist) || text(release.artistName) || text(release.artist) || 'Unknown Artist';
+  const featured = text(track.featured);
+  return featured && !artist.toLowerCase().includes(featured.toLowerCase()) ? `${artist} feat. ${featured}` : artist;
+}
+
+export function releaseLabel(release: Record<string, unknown>): string | null {
+  return text(release.labelName) || text(release.recordLabel) || text(release.label);
+}
+
+/**
+ * Key as entered when it reads as one, otherwise the detected key
+ */
+function trackKey(track: Record<string, unknown>): string | null {
+  const entered = text(track.key);
+  if (entered && parseKey(entered)) return entered;
+  return text(track.detectedKey);
+}
+
+function trackBpm(track: Record<string, unknown>): number | null {
+  const bpm = parseBpm(track.bpm) ?? parseBpm(track.detectedBpm);
+  return bpm === null ? null : Math.round(bpm);
+}
+
+/**
+ * Tags for one track of a release document
+ */
+export function buildDownloadTags(release: Record<string, unknown>, trackIndex: number, publicDomain: string): DownloadTags {
+  const tracks = Array.isArray(release.tracks) ? (release.tracks as Record<string, unknown>[]) : [];
+  const track = tracks[trackIndex] || {};
+  const artwork = release.originalArtworkUrl || release.coverArtUrl || release.artworkUrl ||
+    (release.artwork as Record<string, unknown> | undefined)?.cover;
+
+  return {
+    artist: trackArtist(release, track),
+    title: trackTitle(track, trackIndex),
+    album: text(release.releaseName) || text(release.title) || trackTitle(track, trackIndex),
+    albumArtist: text(release.artistName) || text(release.artist) || 'Unknown Artist',
+    label: releaseLabel(release),
+    catalogNumber: text(release.catalogNumber),
+    isrc: text(track.trackISRC) || text(track.isrc),
+    bpm: trackBpm(track),
+    key: trackKey(track),
+    remixer: text(track.remixer),
+    trackNumber: Number(track.trackNumber ?? trackIndex + 1),
+    trackTotal: tracks.length,
+    year: text(release.releaseDate)?.slice(0, 4) || text(release.copyrightYear),
+    genre: text(release.genre),
+    artworkKey: r2KeyFromUrl(artwork, publicDomain),
+  };
+}
+
+/**
+ * Short fingerprint of what a rendition contains, so a changed tag or a new
+ * master means a new file
+ */
+export async function renditionHash(tags: DownloadTags, sourceKey: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(JSON.stringify({ tags, sourceKey })));
+  return Array.from(new Uint8Array(digest).slice(0, 6)).map(b => b.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * File name a download is saved as: "Artist - Title.flac"
+ */
+export function downloadFilename(artist: string, title: string, format: DownloadFormat): string {
+  const safe = `${artist} - ${title}`.replace(/[\\/:*?"<>|\r\n]+/g, '_').trim();
+  return `${safe}.${format}`;
+}
+
+function formatSeconds(seconds: unknown): string | null {
+  const s = Number(seconds);
+  if (!(s > 0)) return null;
+  return `${Math.floor(s / 60)}:${String(Math.round(s % 60)).padStart(2, '0')}`;
+}
+
+/**
+ * The tracklist.txt that goes in a release's ZIP: release details, then one
+ * line per track with whatever's known of its length, tempo, key and ISRC.
+ * `trackIndexes` limits it to the tracks in the ZIP (a single-track purchase).
+ */
+export function buildTracklist(release: Record<string, unknown>, trackIndexes?: number[]): string {
+  const tracks = Array.isArray(release.tracks) ? (release.tracks as Record<string, unknown>[]) : [];
+  const artist = text(release.artistName) || text(release.artist) || 'Unknown Artist';
+  const title = text(release.releaseName) || text(release.title) || 'Release';
+
+  const lines = [`${artist} - ${title}`];
+  const label = releaseLabel(release);
+  if (label) lines.push(`Label: ${label}`);
+  if (text(release.catalogNumber)) lines.push(`Catalogue number: ${text(release.catalogNumber)}`);
+  const released = text(release.releaseDate)?.slice(0, 10);
+  if (released) lines.push(`Released: ${released}`);
+  if (text(release.genre)) lines.push(`Genre: ${text(release.genre)}`);
+  lines.push('');
+
+  const indexes = trackIndexes ?? tracks.map((_, i) => i);
+  for (const i of indexes) {
+    const track = tracks[i];
+    if (!track) continue;
+    const number = String(Number(track.trackNumber ?? i + 1)).padStart(2, '0');
+    const name = [trackTitle(track, i)];
+    if (text(track.featured)) name.push(`(feat. ${text(track.featured)})`);
+    if (text(track.remixer) && !trackTitle(track, i).toLowerCase().includes(text(track.remixer)!.toLowerCase())) {
+      name.push(`[${text(track.remixer)} remix]`);
+    }
+
+    const key = trackKey(track);
+    const camelot = key ? parseKey(key) : null;
+    const bpm = trackBpm(track);
+    const isrc = text(track.trackISRC) || text(track.isrc);
+    const details = [
+      text(track.duration) || formatSeconds(track.durationSeconds),
+      bpm ? `${bpm} BPM` : null,
+      key ? (camelot && camelot !== key ? `${key} (${camelot})` : key) : null,
+      isrc ? `ISRC ${isrc}` : null,
+    ].filter(Boolean);
+
+    lines.push(`${number}. ${name.join(' ')}${details.length ? ` - ${details.join(' | ')}` : ''}`);
+  }
+
+  lines.push('', 'Bought on Fresh Wax - https://freshwax.co.uk');
+  return lines.join('\n') + '\n';
+}
@@ -0,0 +1,108 @@
+// src/lib/release/download-renditions.ts
+// Getting a buyer the file they asked for in the format they asked for.
+//
+// The first request for a track in MP3, FLAC or AIFF queues a 'download' job
+// on the release-processor's transcode queue (D1 transcode_jobs) and answers
+// "preparing"; a transcode runner encodes and tags it within a minute or so,
+// and every request after that is served the stored file from R2. The job id
+// is per release, track and format, and the tags hash travels with it, so
+// each buyer of a track shares one file and an edited release gets a new one.
+
+import type { D1Database } from '../d1/types';
+import { errorResponse, successResponse } from '../api-utils';
+import { d1GetDownloadRendition, d1QueueDownloadRendition, downloadRenditionId } from '../d1/transcode-jobs';
+import {
+  buildDownloadTags,
+  findReleaseTrackIndex,
+  renditionHash,
+  renditionSource,
+  trackTitle,
+  type RenditionFormat,
+} from './download-formats';
+
+export type RenditionState =
+  | { status: 'ready'; key: string }
+  | { status: 'preparing' }
+  | { status: 'failed'; error: string }
+  | { status: 'unavailable'; reason: string };
+
+// How long a client should wait before asking again
+export const RENDITION_RETRY_SECONDS = 10;
+
+/**
+ * Where a track of a release stands in a format, queueing it if it hasn't
+ * been asked for yet (or its tags have changed since)
+ */
+export async function prepareRendition(
+  db: D1Database,
+  release: Record<string, unknown>,
+  trackIndex: number,
+  format: RenditionFormat,
+  publicDomain: string
+): Promise<RenditionState> {
+  const tracks = Array.isArray(release.tracks) ? (release.tracks as Record<string, unknown>[]) : [];
+  const track = tracks[trackIndex];
+  if (!track) return { status: 'unavailable', reason: 'Track not found on the release' };
+
+  const source = renditionSource(track, format, publicDomain);
+  if (!source) {
+    return { status: 'unavailable', reason: `No lossless master for this track, so it can't be made as ${format.toUpperCase()}` };
+  }
+
+  const releaseId = String(release.id);
+  const trackNumber = Number(track.trackNumber ?? trackIndex + 1);
+  const tags = buildDownloadTags(release, trackIndex, publicDomain);
+  const tagsHash = await renditionHash(tags, source.key);
+
+  const existing = await d1GetDownloadRendition(db, downloadRenditionId(releaseId, trackNumber, format));
+  if (existing && existing.tagsHash === tagsHash) {
+    if (existing.status === 'done' && existing.key) return { status: 'ready', key: existing.key };
+    if (existing.status === 'failed') return { status: 'failed', error: existing.lastError || 'Unknown error' };
+    return { status: 'preparing' };
+  }
+
+  const queued = await d1QueueDownloadRendition(db, {
+    releaseId,
+    trackNumber,
+    title: trackTitle(track, trackIndex),
+    format,
+    sourceKey: source.key,
+    sourceFormat: source.format,
+    outputPrefix: String(release.r2FolderPath || `releases/${releaseId}`),
+    tags: { ...tags },
+    tagsHash,
+  });
+  return queued ? { status: 'preparing' } : { status: 'failed', error: 'Could not queue the download' };
+}
+
+/**
+ * prepareRendition for the release track an order refers to, by the URL the
+ * order stored for it or its name
+ */
+export async function prepareOrderRendition(
+  db: D1Database,
+  release: Record<string, unknown>,
+  match: { url?: unknown; name?: unknown },
+  format: RenditionFormat,
+  publicDomain: string
+): Promise<RenditionState> {
+  const tracks = Array.isArray(release.tracks) ? (release.tracks as Record<string, unknown>[]) : [];
+  const trackIndex = findReleaseTrackIndex(tracks, match);
+  if (trackIndex < 0) return { status: 'unavailable', reason: 'Track not found on the release' };
+  return prepareRendition(db, release, trackIndex, format, publicDomain);
+}
+
+/**
+ * The answer for a rendition that isn't ready: 202 while it's being made (the
+ * client asks again after retryAfter seconds), otherwise why it can't be had
+ */
+export function renditionPendingResponse(state: Exclude<RenditionState, { status: 'ready' }>, format: RenditionFormat): Response {
+  const name = format.toUpperCase();
+  if (state.status === 'preparing') {
+    return successResponse({ status: 'preparing', format, retryAfter: RENDITION_RETRY_SECONDS }, 202);
+  }
+  if (state.status === 'failed') {
+    return errorResponse(`The ${name} file couldn't be made right now. Please try another format.`, 502);
+  }
+  return errorResponse(state.reason, 404);
+}
@@ -0,0 +1,71 @@
+// src/lib/release/download-watermark.ts
+// Stamping a buyer's fingerprint into a download of a release that has
+// watermarkDownloads set (admin release editor). /api/download and
+// /api/download-file pass each audio file through stampDownload(); the code
+// it embeds is recorded against the order in D1 download_fingerprints, and
+// /admin/leak-trace reads it back. Signed R2 URLs (/api/presign-download)
+// can't be stamped, so they aren't issued for these releases.
+
+import type { D1Database } from '../d1/types';
+import { createLogger } from '../api-utils';
+import { d1ClaimFingerprint } from '../d1/download-fingerprints';
+import { fingerprintBody, generateFingerprintCode, type FingerprintFormat } from './download-fingerprint';
+
+const log = createLogger('download-watermark');
+
+export interface DownloadBuyer {
+  orderId: string;
+  orderNumber: string | null;
+  userId: string;
+  customerEmail: string | null;
+  releaseId: string;
+  trackName: string | null;
+}
+
+export function watermarkEnabled(release: Record<string, unknown> | null | undefined): boolean {
+  return release?.watermarkDownloads === true;
+}
+
+/**
+ * Who an order's download is for, from the order document
+ */
+export function downloadBuyer(
+  order: Record<string, unknown>,
+  userId: string,
+  releaseId: string,
+  trackName: string | null
+): DownloadBuyer {
+  const customer = order.customer as Record<string, unknown> | undefined;
+  return {
+    orderId: String(order.id),
+    orderNumber: (order.orderNumber as string) || null,
+    userId,
+    customerEmail: (customer?.email as string) || null,
+    releaseId,
+    trackName,
+  };
+}
+
+/**
+ * A file's body with the buyer's code in it. Null if the code couldn't be
+ * recorded, in which case the file mustn't go out unstamped; the caller
+ * cancels the body. A file that isn't the format its name says streams
+ * through as it is (and is logged).
+ */
+export async function stampDownload(
+  db: D1Database | undefined,
+  buyer: DownloadBuyer,
+  format: FingerprintFormat,
+  body: ReadableStream,
+  size: number | null
+): Promise<{ body: ReadableStream<Uint8Array>; size: number | null } | null> {
+  if (!db) return null;
+  const code = await d1ClaimFingerprint(db, { code: generateFingerprintCode(), ...buyer, fileType: format });
+  if (!code) return null;
+
+  const stamped = await fingerprintBody(body, size, format, code);
+  if (!stamped.stamped) {
+    log.warn('[download-watermark] Could not stamp file:', { releaseId: buyer.releaseId, track: buyer.trackName, format });
+  }
+  return { body: stamped.body, size: stamped.size };
+}
@@ -0,0 +1,62 @@
+// src/lib/release/musical-key.ts
+// Reading the BPM and key artists type into their track metadata, so they can
+// be compared with what the release-processor detected (track.detectedBpm,
+// track.detectedKey, track.camelotKey) and used as search filters.
+//
+// Keys are compared on the Camelot wheel ('8A' = A minor, '8B' = C major),
+// which is what DJs mix by and sidesteps enharmonic spelling (C#m vs Dbm).
+
+// Camelot number by tonic pitch class, C = 0
+const MINOR_CAMELOT = [5, 12, 7, 2, 9, 4, 11, 6, 1, 8, 3, 10];
+const MAJOR_CAMELOT = [8, 3, 10, 5, 12, 7, 2, 9, 4, 11, 6, 1];
+
+const NATURALS: Record<string, number> = { C: 0, D: 2, E: 4, F: 5, G: 7, A: 9, B: 11 };
+
+// Detected tempos within this many BPM of what the artist typed agree
+const BPM_TOLERANCE = 1.5;
+
+/**
+ * A BPM as typed ('174', '174 BPM', '86.5'); null if it isn't one
+ */
+export function parseBpm(value: unknown): number | null {
+  const bpm = parseFloat(String(value ?? '').replace(',', '.'));
+  return Number.isFinite(bpm) && bpm >= 40 && bpm <= 300 ? bpm : null;
+}
+
+/**
+ * True when an artist's BPM matches the detected one, counting half and
+ * double time as a match — 87 for a 174 track is how plenty of people count
+ * drum & bass
+ */
+export function bpmAgrees(entered: number, detected: number): boolean {
+  return [detected, detected / 2, detected * 2].some(bpm => Math.abs(entered - bpm) <= BPM_TOLERANCE);
+}
+
+/**
+ * A key in Camelot notation ('8A'), from Camelot ('8A', '08a') or musical
+ * notation ('Am', 'A min', 'A minor', 'F#m', 'Bb', 'C major', 'E♭m').
+ * Null if it can't be read.
+ */
+export function parseKey(value: unknown): string | null {
+  const text = String(value ?? '').trim();
+  if (!text) return null;
+
+  const camelot = text.match(/^0?(1[0-2]|[1-9])\s*([ab])$/i);
+  if (camelot) return `${Number(camelot[1])}${camelot[2]!.toUpperCase()}`;
+
+  const musical = text
+    .replace(/♯/g, '#')
+    .replace(/♭/g, 'b')
+    .match(/^([a-g])\s*(#|b|sharp|flat)?\s*(m|min|minor|maj|major)?$/i);
+  if (!musical) return null;
+
+  const [, letter, accidental = '', quality = ''] = musical;
+  let pc = NATURALS[letter!.toUpperCase()]!;
+  if (accidental === '#' || accidental.toLowerCase() === 'sharp') pc += 1;
+  if (accidental === 'b' || accidental.toLowerCase() === 'flat') pc -= 1;
+  pc = (pc + 12) % 12;
+
+  // 'm' on its own means minor; 'M' is sometimes used for major
+  const minor = quality === 'm' || /^min/i.test(quality);
+  return minor ? `${MINOR_CAMELOT[pc]}A` : `${MAJOR_CAMELOT[pc]}B`;
+}
@@ -3,18 +3,30 @@
 // Auto-publish (see ./auto-approve.ts) removes the human review step for
 // established partners. That step was the only thing catching half-processed
 // releases, because every processing stage fails SOFT — artwork falls back to a
-// placeholder, OG generation is swallowed, and MP3 conversion does not run on
-// the partner upload path at all (it lives in two admin browser pages that call
-// the operator's local audio processor on :8089). A release therefore publishes
-// perfectly happily with a placeholder cover and 70MB WAVs as its previews.
+// placeholder, OG generation is swallowed, and MP3 conversion happens after the
+// release document exists (the release-processor's transcode queue, or the
+// operator's local audio processor for older uploads). A release would otherwise
+// publish perfectly happily with a placeholder cover, 70MB WAVs as its
+// previews, or no audio at all while its tracks are still being transcoded.
 //
 // So: a release only auto-publishes when it is actually complete. Anything with
 // a blocking problem falls back to the manual approval queue, where the operator
 // sees it — a delayed release is recoverable, a broken live one is not.
 
+import { bpmAgrees, parseBpm, parseKey } from './musical-key';
+
 const WEB_READY_AUDIO = /\.mp3(\?|$)/i;
 const RAW_AUDIO = /\.(wav|aiff?|flac|alac)(\?|$)/i;
 
+// Loudness, as measured by the transcode runner. A true peak at or over
+// 0 dBTP clips once the master is decoded or encoded to MP3. Streaming
+// services play everything back at about -14 LUFS, so a master far louder
+// is simply turned down (with its dynamics already gone) and one far quieter
+// sounds weak next to everything else.
+const CLIP_TRUE_PEAK_DBTP = 0;
+const STREAMING_TARGET_LUFS = -14;
+const LOUDNESS_TOLERANCE_LU = 8;
+
 export interface ReleaseReadiness {
   /** True only when there are no blocking problems. */
   ready: boolean;
@@ -45,9 +57,49 @@ export function assessReleaseReadiness(release: Record<string, unknown>): Releas
   const missingAudio: string[] = [];
   const unconverted: string[] = [];
   const unknownFormat: string[] = [];
+  const transcoding: string[] = [];
+  const transcodeFailed: string[] = [];
+  const clipping: string[] = [];
+  const offTarget: string[] = [];
+  const bpmMismatch: string[] = [];
+  const keyMismatch: string[] = [];
 
   tracks.forEach((t, i) => {
     const label = String(t.title || t.trackName || `Track ${i + 1}`);
+    const loudness = t.loudness as { integratedLufs?: unknown; truePeakDbtp?: unknown } | undefined;
+    const truePeak = loudness?.truePeakDbtp;
+    const integrated = loudness?.integratedLufs;
+    if (typeof truePeak === 'number' && truePeak >= CLIP_TRUE_PEAK_DBTP) {
+      clipping.push(`${label} (${truePeak > 0 ? '+' : ''}${truePeak.toFixed(1)} dBTP)`);
+    }
+    if (typeof integrated === 'number' && Math.abs(integrated - STREAMING_TARGET_LUFS) > LOUDNESS_TOLERANCE_LU) {
+      offTarget.push(`${label} (${integrated.toFixed(1)} LUFS)`);
+    }
+
+    // What the artist typed against what the release-processor detected; a
+    // blank field was filled in from the detection, so only typed values count
+    const enteredBpm = String(t.bpm ?? '').trim();
+    const detectedBpm = typeof t.detectedBpm === 'number' ? t.detectedBpm : null;
+    if (enteredBpm && detectedBpm) {
+      const bpm = parseBpm(enteredBpm);
+      if (!bpm || !bpmAgrees(bpm, detectedBpm)) bpmMismatch.push(`${label} (entered ${enteredBpm}, detected ${detectedBpm})`);
+    }
+    const enteredKey = String(t.key ?? '').trim();
+    const camelot = typeof t.camelotKey === 'string' ? t.camelotKey : null;
+    if (enteredKey && camelot && parseKey(enteredKey) !== camelot) {
+      keyMismatch.push(`${label} (entered ${enteredKey}, detected ${String(t.detectedKey || '')} / ${camelot})`);
+    }
+
+    // Tracks from the release-processor have no MP3 until their transcode job
+    // finishes
+    if (t.transcodeStatus === 'queued' || t.transcodeStatus === 'running') {
+      transcoding.push(label);
+      return;
+    }
+    if (t.transcodeStatus === 'failed') {
+      transcodeFailed.push(label);
+      return;
+    }
     // previewUrl is what the storefront player streams; mp3Url is what a
     // digital buyer downloads. Both must be web-ready.
     const primary = String(t.mp3Url || t.url || '');
@@ -65,6 +117,14 @@ export function assessReleaseReadiness(release: Record<string, unknown>): Releas
     }
   });
 
+  if (transcoding.length) {
+    blocking.push(`Audio still transcoding for: ${transcoding.join(', ')}`);
+  }
+  if (transcodeFailed.length) {
+    blocking.push(
+      `Audio transcoding failed for: ${transcodeFailed.join(', ')} — retry it from the approvals page`
+    );
+  }
   if (missingAudio.length) {
     blocking.push(`No audio file for: ${missingAudio.join(', ')}`);
   }
@@ -76,6 +136,20 @@ export function assessReleaseReadiness(release: Record<string, unknown>): Releas
   if (unknownFormat.length) {
     warnings.push(`Audio is not an .mp3 for: ${unknownFormat.join(', ')}`);
   }
+  if (clipping.length) {
+    warnings.push(`Master clips (true peak at or above 0 dBTP) for: ${clipping.join(', ')}`);
+  }
+  if (offTarget.length) {
+    warnings.push(
+      `Master loudness is far from the ${STREAMING_TARGET_LUFS} LUFS streaming target for: ${offTarget.join(', ')}`
+    );
+  }
+  if (bpmMismatch.length) {
+    warnings.push(`Entered BPM doesn't match the detected tempo for: ${bpmMismatch.join(', ')}`);
+  }
+  if (keyMismatch.length) {
+    warnings.push(`Entered key doesn't match the detected key for: ${keyMismatch.join(', ')}`);
+  }
 
   // --- Artwork -----------------------------------------------------------
   const cover = release.coverArtUrl || release.coverUrl || release.artworkUrl;
@@ -1,8 +1,9 @@
 // src/lib/role-provisioning.ts
-// Provision artist/vinylSeller collection entries when roles are approved or revoked
+// Provision artist/vinylSeller/tradeAccount collection entries when roles are approved or revoked
 
 import { getDocument, updateDocument, setDocument } from './firebase-rest';
 import { createLogger } from './api-utils';
+import { TRADE_ACCOUNTS_COLLECTION, DEFAULT_TRADE_TERMS } from './trade';
 
 const log = createLogger('role-provisioning');
 
@@ -115,6 +116,48 @@ export async function provisionVinylSellerRecord(
   }
 }
 
+/**
+ * Open (or reopen) a record shop's trade account when the tradeBuyer role is
+ * approved. A reopened account keeps its terms and any unpaid balance.
+ */
+export async function provisionTradeAccountRecord(
+  uid: string,
+  adminUid: string,
+  userData: Record<string, unknown> | null
+): Promise<void> {
+  try {
+    const pendingData = (userData?.pendingRoles as Record<string, Record<string, unknown>> | undefined)?.tradeBuyer || {};
+    const existingAccount = await getDocument(TRADE_ACCOUNTS_COLLECTION, uid);
+
+    if (existingAccount) {
+      await updateDocument(TRADE_ACCOUNTS_COLLECTION, uid, {
+        status: 'active',
+        approvedAt: new Date().toISOString(),
+        approvedBy: adminUid,
+        updatedAt: new Date().toISOString()
+      });
+    } else {
+      await setDocument(TRADE_ACCOUNTS_COLLECTION, uid, {
+        userId: uid,
+        shopName: pendingData.businessName || userData?.displayName || 'Trade account',
+        email: userData?.email || '',
+        vatNumber: pendingData.vatNumber || null,
+        location: pendingData.location || '',
+        status: 'active',
+        ...DEFAULT_TRADE_TERMS,
+        outstanding: 0,
+        shippingAddress: null,
+        approvedAt: new Date().toISOString(),
+        approvedBy: adminUid,
+        createdAt: new Date().toISOString(),
+        updatedAt: new Date().toISOString()
+      });
+    }
+  } catch (tradeError: unknown) {
+    log.error(`[role-provisioning] Failed to create/update tradeAccounts collection for ${uid}:`, tradeError);
+  }
+}
+
 /**
  * Revoke an artist/merchSeller role in the artists collection.
  */
@@ -162,3 +205,26 @@ export async function revokeVinylSellerRecord(
     log.error(`[role-provisioning] Failed to update vinylSellers/${uid} during revoke:`, e);
   }
 }
+
+/**
+ * Suspend a trade account when the tradeBuyer role is revoked. Unpaid
+ * invoices stay on the account.
+ */
+export async function revokeTradeAccountRecord(
+  uid: string,
+  adminUid: string
+): Promise<void> {
+  try {
+    const existingAccount = await getDocument(TRADE_ACCOUNTS_COLLECTION, uid);
+    if (existingAccount) {
+      await updateDocument(TRADE_ACCOUNTS_COLLECTION, uid, {
+        status: 'suspended',
+        updatedAt: new Date().toISOString(),
+        revokedAt: new Date().toISOString(),
+        revokedBy: adminUid
+      });
+    }
+  } catch (e: unknown) {
+    log.error(`[role-provisioning] Failed to update tradeAccounts/${uid} during revoke:`, e);
+  }
+}
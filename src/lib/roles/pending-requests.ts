@@ -26,6 +26,7 @@ export function grantedRoleKey(roleType: string | undefined | null): string | nu
   if (roleType === 'artist' || roleType === 'dj') return 'artist';
   if (roleType === 'merchSupplier' || roleType === 'merch' || roleType === 'merchSeller') return 'merchSupplier';
   if (roleType === 'vinylSeller') return 'vinylSeller';
+  if (roleType === 'tradeBuyer') return 'tradeBuyer';
   return null;
 }
 
@@ -5,8 +5,15 @@
 
 import { createLogger } from './api-utils';
 import { formatPrice } from './format-utils';
+import { convertFromSettlement, normaliseCurrency, SETTLEMENT_CURRENCY } from './currency';
 import { addDocument, queryCollection } from './firebase-rest';
-import { d1InsertLedgerEntry, d1GetLedgerEntries } from './d1-catalog';
+import { d1InsertLedgerEntry, d1GetLedgerEntries, d1GetLedgerEntriesByOrder } from './d1-catalog';
+import { expandBundleItems } from './order/bundles';
+import { expandSplitItems } from './split-sheets';
+import type { SplitShare } from './split-sheets';
+import { buildVatContext, calculateItemsVat, calculateShippingVat } from './order/vat';
+import type { VatContext } from './order/vat';
+import { postJournalEntry, postLedgerEntryToJournal, saleJournalPostings, sellerKindForItems } from './journal';
 
 const log = createLogger('[sales-ledger]');
 
@@ -51,9 +58,24 @@ export interface LedgerEntry {
   netRevenue: number;    // grossTotal - totalFees
 
   // Payment info
-  paymentMethod: 'stripe' | 'paypal' | 'free' | 'giftcard' | 'manual';
+  paymentMethod: 'stripe' | 'paypal' | 'free' | 'giftcard' | 'manual' | 'invoice';  // invoice: trade order on account
   paymentId: string | null;  // Stripe payment intent ID or PayPal order ID
-  currency: string;
+  paypalCaptureId?: string | null;  // PayPal capture ID — what PayPal's settlement reports list
+  currency: string;          // Settlement currency of every amount above (GBP)
+
+  // What the buyer saw and paid, when they checked out in EUR/USD
+  presentmentCurrency?: string;
+  presentmentTotal?: number;  // grossTotal converted at fxRate
+  fxRate?: number;            // units of presentmentCurrency per £1
+
+  // VAT inside grossTotal (prices are VAT-inclusive — see lib/order/vat.ts)
+  vat?: number;
+  vatCountry?: string | null; // buyer's country the VAT was charged for
+
+  // Refund rows: a negative copy of the sale row `refundOf`, scaled to what
+  // refund `refundId` returned (see recordRefundEntries)
+  refundId?: string | null;
+  refundOf?: string | null;
 
   // Order details
   itemCount: number;
@@ -69,9 +91,31 @@ export interface LedgerEntry {
     quantity: number;
     unitPrice: number;
     lineTotal: number;
+    // Set when the line is this payee's share under a split sheet
+    splitRole?: string;
+    splitPercentage?: number;
   }[];
 }
 
+/**
+ * Presentment-currency fields for a ledger row. Money columns stay in GBP so
+ * payouts and reporting are unaffected; these record what the buyer was
+ * charged. GBP orders get the identity (GBP, rate 1) so every row is uniform.
+ */
+export function presentmentFields(
+  grossTotalGbp: number,
+  presentmentCurrency: string | undefined,
+  fxRate: number | undefined
+): Pick<LedgerEntry, 'presentmentCurrency' | 'presentmentTotal' | 'fxRate'> {
+  const currency = normaliseCurrency(presentmentCurrency);
+  const rate = currency === SETTLEMENT_CURRENCY || !fxRate || fxRate <= 0 ? 1 : fxRate;
+  return {
+    presentmentCurrency: currency,
+    presentmentTotal: convertFromSettlement(grossTotalGbp, rate),
+    fxRate: rate,
+  };
+}
+
 /**
  * Record a completed order to the sales ledger
  * Call this when payment is confirmed (webhook, capture, etc.)
@@ -92,7 +136,13 @@ export async function recordSale(params: {
   freshWaxFee?: number;
   paymentMethod: LedgerEntry['paymentMethod'];
   paymentId?: string | null;
+  paypalCaptureId?: string | null;
   currency?: string;
+  // Buyer's currency + rate when the order was charged in EUR/USD
+  presentmentCurrency?: string;
+  fxRate?: number;
+  // Buyer's VAT position (billing country, VAT number); UK when omitted
+  vat?: VatContext | null;
   items: Array<Record<string, unknown> & {
     type?: string;
     isPhysical?: boolean;
@@ -149,6 +199,10 @@ export async function recordSale(params: {
     // Calculate artist payout (net revenue after all fees)
     const artistPayout = netRevenue;
 
+    const vatContext = params.vat || buildVatContext({});
+    const vat = Math.round((calculateItemsVat(params.items || [], vatContext) +
+      calculateShippingVat(params.shipping || 0, vatContext)) * 100) / 100;
+
     const entry: LedgerEntry & { artistPayout?: number; artistPayoutStatus?: string } = {
       orderId: params.orderId,
       orderNumber: params.orderNumber,
@@ -180,7 +234,11 @@ export async function recordSale(params: {
       // Payment info
       paymentMethod: params.paymentMethod,
       paymentId: params.paymentId || null,
+      paypalCaptureId: params.paypalCaptureId || null,
       currency: params.currency || 'GBP',
+      ...presentmentFields(params.grossTotal, params.presentmentCurrency, params.fxRate),
+      vat,
+      vatCountry: vatContext.country,
       itemCount: itemsSummary.length,
       hasPhysical: params.hasPhysical || itemsSummary.some(i => i.type === 'merch' || i.type === 'vinyl'),
       hasDigital: params.hasDigital || itemsSummary.some(i => i.type === 'release' || i.type === 'track'),
@@ -204,6 +262,9 @@ export async function recordSale(params: {
       log.info('D1 not available, Firebase-only write');
     }
 
+    // Balanced postings for the same figures (lib/journal.ts)
+    await postLedgerEntryToJournal(params.db, ledgerId, entry, sellerKindForItems(params.items || []));
+
     log.info(`Recorded sale: ${params.orderNumber} - ${formatPrice(params.grossTotal)}`);
 
     return { success: true, ledgerId };
@@ -309,7 +370,13 @@ export async function recordMultiSellerSale(params: {
   freshWaxFee?: number;
   paymentMethod: LedgerEntry['paymentMethod'];
   paymentId?: string | null;
+  paypalCaptureId?: string | null;
   currency?: string;
+  // Buyer's currency + rate when the order was charged in EUR/USD
+  presentmentCurrency?: string;
+  fxRate?: number;
+  // Buyer's VAT position (billing country, VAT number); UK when omitted
+  vat?: VatContext | null;
   hasPhysical?: boolean;
   hasDigital?: boolean;
   /**
@@ -330,11 +397,22 @@ export async function recordMultiSellerSale(params: {
     title?: string;
     type?: string;
     price: number;
+    // List price when a discount code lowered `price` (lib/order/discounts.ts)
+    preDiscountPrice?: number | null;
     quantity?: number;
     artist?: string;
     artistName?: string;
     submitterId?: string | null;
     submitterEmail?: string | null;
+    // Crate listings: the listing owner (no releaseId) — see sellerKindForItems
+    sellerId?: string | null;
+    crateListingId?: string | null;
+    // Bundle lines (type 'bundle') carry their priced release split
+    bundleReleases?: import('./order/bundles').BundleRelease[] | null;
+    // The release's (or track's) split sheet — see lib/split-sheets.ts
+    payoutSplits?: SplitShare[] | null;
+    splitRole?: string;
+    splitPercentage?: number;
   }>;
   // D1 database for dual-write (optional, but recommended)
   db?: D1Database;
@@ -343,11 +421,18 @@ export async function recordMultiSellerSale(params: {
     const now = new Date();
     const ledgerIds: string[] = [];
 
+    // A bundle is shared across the artists of its releases by the bundle's
+    // weighting (equal / by release price / custom), so each included
+    // artist's entry carries their slice of the bundle price. A release with
+    // a split sheet is then shared across its payees, one entry each.
+    const items = expandSplitItems(expandBundleItems(params.items));
+    const vatContext = params.vat || buildVatContext({});
+
     // Group items by seller (submitterId)
     const sellerGroups: Map<string, typeof params.items> = new Map();
     const unknownSellerItems: typeof params.items = [];
 
-    for (const item of params.items) {
+    for (const item of items) {
       const sellerId = item.submitterId;
       if (sellerId) {
         if (!sellerGroups.has(sellerId)) {
@@ -360,7 +445,7 @@ export async function recordMultiSellerSale(params: {
     }
 
     // Calculate order totals for proportional fee distribution
-    const orderSubtotal = params.items.reduce((sum, item) =>
+    const orderSubtotal = items.reduce((sum, item) =>
       sum + (item.price * (item.quantity || 1)), 0);
     const totalFees = (params.stripeFee || 0) + (params.paypalFee || 0) + (params.freshWaxFee || 0);
 
@@ -416,6 +501,17 @@ export async function recordMultiSellerSale(params: {
       const sellerGrossTotal = Math.round((sellerSubtotal + sellerShipping) * 100) / 100;
       const sellerNetRevenue = sellerGrossTotal - sellerTotalFees;
 
+      // Discount code: item prices are already net of it, so gross, fees and
+      // payout above need no adjustment. Record this seller's share of it and
+      // the list-price subtotal so subtotal + shipping − discount = gross.
+      const sellerDiscount = Math.round(sellerItems.reduce((sum, item) =>
+        sum + (item.preDiscountPrice ? (item.preDiscountPrice - item.price) * (item.quantity || 1) : 0), 0) * 100) / 100;
+
+      // VAT inside this seller's gross, by line type (digital follows the
+      // buyer's country, vinyl/merch and postage follow the delivery)
+      const sellerVat = Math.round((calculateItemsVat(sellerItems, vatContext) +
+        calculateShippingVat(sellerShipping, vatContext)) * 100) / 100;
+
       // Get seller info from first item
       const firstItem = sellerItems[0];
       const artistName = firstItem.artist || firstItem.artistName || null;
@@ -434,7 +530,8 @@ export async function recordMultiSellerSale(params: {
           artist: item.artist || item.artistName || undefined,
           quantity: item.quantity || 1,
           unitPrice: item.price || 0,
-          lineTotal: (item.price || 0) * (item.quantity || 1)
+          lineTotal: (item.price || 0) * (item.quantity || 1),
+          ...(item.splitRole ? { splitRole: item.splitRole, splitPercentage: item.splitPercentage } : {})
         };
       });
 
@@ -454,9 +551,9 @@ export async function recordMultiSellerSale(params: {
         submitterId: sellerId,
         submitterEmail: submitterEmail,
         // Revenue (this seller's portion)
-        subtotal: sellerSubtotal,
+        subtotal: Math.round((sellerSubtotal + sellerDiscount) * 100) / 100,
         shipping: sellerShipping,
-        discount: 0,
+        discount: sellerDiscount,
         grossTotal: sellerGrossTotal, // items + this seller's postage
         stripeFee: sellerStripeFee,
         paypalFee: sellerPaypalFee,
@@ -469,7 +566,11 @@ export async function recordMultiSellerSale(params: {
         // Payment info
         paymentMethod: params.paymentMethod,
         paymentId: params.paymentId || null,
+        paypalCaptureId: params.paypalCaptureId || null,
         currency: params.currency || 'GBP',
+        ...presentmentFields(sellerGrossTotal, params.presentmentCurrency, params.fxRate),
+        vat: sellerVat,
+        vatCountry: vatContext.country,
         itemCount: itemsSummary.length,
         hasPhysical: itemsSummary.some(i => i.type === 'merch' || i.type === 'vinyl'),
         hasDigital: itemsSummary.some(i => i.type === 'release' || i.type === 'track'),
@@ -489,6 +590,7 @@ export async function recordMultiSellerSale(params: {
           log.error(`D1 write failed for seller ${sellerId}:`, d1Error);
         }
       }
+      await postLedgerEntryToJournal(params.db, ledgerId, entry, sellerKindForItems(sellerItems));
 
       log.info(`Recorded sale for seller ${sellerId}: ${params.orderNumber} - ${formatPrice(sellerSubtotal)} (net: ${formatPrice(sellerNetRevenue)})`);
     }
@@ -498,6 +600,14 @@ export async function recordMultiSellerSale(params: {
       const unknownSubtotal = unknownSellerItems.reduce((sum, item) =>
         sum + (item.price * (item.quantity || 1)), 0);
       log.info(`${unknownSellerItems.length} items with unknown seller (${formatPrice(unknownSubtotal)}) - platform revenue`);
+      await postJournalEntry(params.db, {
+        id: `sale:${params.orderId}:platform`,
+        entryType: 'sale',
+        orderId: params.orderId,
+        reference: params.orderNumber,
+        memo: `Sale ${params.orderNumber} (no seller)`,
+        postings: saleJournalPostings({ grossTotal: unknownSubtotal, paymentMethod: params.paymentMethod, sellerId: null }),
+      });
     }
 
     return { success: true, ledgerIds };
@@ -506,3 +616,141 @@ export async function recordMultiSellerSale(params: {
     return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
   }
 }
+
+/**
+ * Record a refund of some of an order's lines as negative ledger entries.
+ * Each seller's sale row is reversed in the proportion the refunded lines
+ * (plus their postage, when shipping is refunded) make of its gross, so
+ * fees, VAT and artistPayout all net back down with it. The refund rows stay
+ * 'pending' so they net off the seller's pending payout totals.
+ * Dual-write: D1 (primary) + Firebase (backup)
+ */
+export async function recordRefundEntries(params: {
+  orderId: string;
+  refundId: string;
+  // Order lines being refunded, with `quantity` set to the refunded quantity
+  items: Array<{
+    id?: string;
+    releaseId?: string;
+    productId?: string;
+    name?: string;
+    title?: string;
+    type?: string;
+    price: number;
+    quantity?: number;
+    bundleReleases?: import('./order/bundles').BundleRelease[] | null;
+  }>;
+  refundShipping: boolean;
+  db?: D1Database;
+}): Promise<{ success: boolean; ledgerIds?: string[]; error?: string }> {
+  try {
+    const now = new Date();
+    const ledgerIds: string[] = [];
+
+    let sales: Array<Record<string, unknown>> = [];
+    if (params.db) {
+      sales = await d1GetLedgerEntriesByOrder(params.db, params.orderId);
+    }
+    if (sales.length === 0) {
+      sales = await queryCollection('salesLedger', {
+        filters: [{ field: 'orderId', op: 'EQUAL', value: params.orderId }],
+        skipCache: true
+      });
+    }
+    sales = sales.filter(entry => !entry.refundId);
+
+    // Bundles were recorded per release, so refund them per release too
+    const refunded = expandBundleItems(params.items).map(item => ({
+      id: item.releaseId || item.productId || item.id || '',
+      title: item.title || item.name || 'Unknown',
+      quantity: item.quantity || 1,
+      unitPrice: item.price || 0,
+    }));
+    const claimed = new Set<number>();
+
+    for (const sale of sales) {
+      const saleItems = (sale.items || []) as LedgerEntry['items'];
+      const lines: LedgerEntry['items'] = [];
+      refunded.forEach((item, i) => {
+        if (claimed.has(i)) return;
+        const match = saleItems.find(s => s.id === item.id);
+        if (!match) return;
+        claimed.add(i);
+        lines.push({
+          ...match,
+          quantity: -item.quantity,
+          unitPrice: item.unitPrice,
+          lineTotal: -Math.round(item.unitPrice * item.quantity * 100) / 100,
+        });
+      });
+
+      const itemsTotal = -lines.reduce((sum, line) => sum + line.lineTotal, 0);
+      const shipping = params.refundShipping ? Number(sale.shipping) || 0 : 0;
+      const saleGross = Number(sale.grossTotal) || 0;
+      if (itemsTotal + shipping <= 0 || saleGross <= 0) continue;
+
+      const ratio = Math.min(1, (itemsTotal + shipping) / saleGross);
+      const reverse = (value: unknown) => -Math.round((Number(value) || 0) * ratio * 100) / 100;
+      const grossTotal = -Math.round((itemsTotal + shipping) * 100) / 100;
+
+      const entry: LedgerEntry & { artistPayout: number; artistPayoutStatus: string } = {
+        orderId: params.orderId,
+        orderNumber: String(sale.orderNumber || ''),
+        timestamp: now.toISOString(),
+        year: now.getFullYear(),
+        month: now.getMonth() + 1,
+        day: now.getDate(),
+        customerId: (sale.customerId as string) || null,
+        customerEmail: String(sale.customerEmail || ''),
+        customerName: (sale.customerName as string) || null,
+        artistId: (sale.artistId as string) || null,
+        artistName: (sale.artistName as string) || null,
+        submitterId: (sale.submitterId as string) || null,
+        submitterEmail: (sale.submitterEmail as string) || null,
+        subtotal: -Math.round(itemsTotal * 100) / 100,
+        shipping: shipping ? -shipping : 0,
+        discount: 0,
+        grossTotal,
+        stripeFee: reverse(sale.stripeFee),
+        paypalFee: reverse(sale.paypalFee),
+        freshWaxFee: reverse(sale.freshWaxFee),
+        totalFees: reverse(sale.totalFees),
+        netRevenue: reverse(sale.netRevenue),
+        artistPayout: reverse(sale.artistPayout),
+        artistPayoutStatus: 'pending',
+        paymentMethod: sale.paymentMethod as LedgerEntry['paymentMethod'],
+        paymentId: (sale.paymentId as string) || null,
+        currency: String(sale.currency || 'GBP'),
+        ...presentmentFields(grossTotal, sale.presentmentCurrency as string | undefined, sale.fxRate as number | undefined),
+        vat: reverse(sale.vat),
+        vatCountry: (sale.vatCountry as string) || null,
+        refundId: params.refundId,
+        refundOf: (sale.id as string) || null,
+        itemCount: lines.length,
+        hasPhysical: lines.some(i => i.type === 'merch' || i.type === 'vinyl'),
+        hasDigital: lines.some(i => i.type === 'release' || i.type === 'track'),
+        items: lines
+      };
+
+      const result = await addDocument('salesLedger', { ...entry });
+      const ledgerId = result.id;
+      ledgerIds.push(ledgerId);
+
+      if (params.db) {
+        try {
+          await d1InsertLedgerEntry(params.db, ledgerId, { ...entry, id: ledgerId });
+        } catch (d1Error: unknown) {
+          log.error(`D1 refund write failed for seller ${entry.submitterId}:`, d1Error);
+        }
+      }
+      await postLedgerEntryToJournal(params.db, ledgerId, entry);
+
+      log.info(`Recorded refund for seller ${entry.submitterId}: ${entry.orderNumber} - ${formatPrice(grossTotal)}`);
+    }
+
+    return { success: true, ledgerIds };
+  } catch (error: unknown) {
+    log.error('Error recording refund:', error);
+    return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
+  }
+}
@@ -0,0 +1,681 @@
+// src/lib/settlement-reconciliation.ts
+// Processor settlement reconciliation.
+// The sales ledger records stripeFee / paypalFee when a sale is made (often
+// an estimate, or split across sellers); this checks them against what the
+// processors actually settled. Reports come from uploaded CSVs (Stripe
+// balance / payments exports, PayPal activity downloads) or the APIs
+// (Stripe balance transactions, PayPal Transaction Search — both honour
+// STRIPE_API_BASE / PAYPAL_API_BASE so a local mock can stand in).
+//
+// Report lines are matched to ledger rows by payment id — the payment intent
+// for Stripe, the capture id (falling back to the order id) for PayPal — and
+// each payment is flagged when it is:
+//   missing_in_ledger  — settled by the processor, no ledger row
+//   missing_in_report  — in the ledger for the period, not in any report
+//   duplicate          — two ledger rows for the same seller and payment, or
+//                        the processor settled the same payment twice
+//   fee_mismatch       — the ledger's fee differs from the settled fee
+// Fee mismatches and duplicate ledger rows have one-click corrections that
+// post an adjustment entry to the journal (lib/journal.ts); every resolution
+// is written to settlement_adjustments with the admin who made it.
+
+import { createLogger } from './api-utils';
+import { d1GetLedgerEntriesByPaymentMethod } from './d1/ledger';
+import { d1GetJournalLines } from './d1/journal';
+import {
+  d1GetSettlementAdjustments, d1GetSettlementLines, d1InsertSettlementAdjustment, d1InsertSettlementImport,
+  d1InsertSettlementLines,
+} from './d1/settlements';
+import type { SettlementAdjustment, SettlementImport, SettlementLine, SettlementProcessor } from './d1/settlements';
+import type { D1Database, FirestoreDoc } from './d1/types';
+import {
+  JOURNAL_ACCOUNTS, PAYABLE_ACCOUNTS, payableKindOfEntry, postJournalEntry, saleJournalPostings, sellerKindForItems,
+} from './journal';
+import type { Posting } from './journal';
+import { getPayPalAccessToken, getPayPalBaseUrl, paypalFetchWithRetry } from './paypal-auth';
+import { getPayPalConfig } from './paypal-payouts';
+import { createStripeClient } from './stripe-client';
+
+const log = createLogger('[settlements]');
+
+export const SETTLEMENT_PROCESSORS: SettlementProcessor[] = ['stripe', 'paypal'];
+
+// Differences up to a penny are rounding, not a mismatch
+export const FEE_TOLERANCE = 0.01;
+
+// Ledger rows are timestamped when the order completes, processors when the
+// payment settled; look this far either side of the period for a match
+const MATCH_WINDOW_MS = 3 * 24 * 60 * 60 * 1000;
+
+// Max API lines fetched per request, and PayPal's longest search window
+const MAX_FETCH_LINES = 10000;
+const PAYPAL_SEARCH_DAYS = 31;
+
+export type IssueKind = 'missing_in_ledger' | 'missing_in_report' | 'duplicate' | 'fee_mismatch';
+
+export interface ReconciliationIssue {
+  key: string;                  // unique per processor — what a resolution is recorded against
+  kind: IssueKind;
+  paymentId: string | null;
+  transactionIds: string[];     // report lines involved
+  ledgerIds: string[];          // ledger rows involved (duplicate: the extra row)
+  orderNumber: string | null;
+  occurredAt: string | null;
+  reportGross: number | null;
+  reportFee: number | null;     // GBP
+  ledgerGross: number | null;
+  ledgerFee: number | null;
+  difference: number;           // fee_mismatch: report − ledger fee; duplicate: gross counted twice
+  correctable: boolean;         // has a one-click correction (otherwise acknowledge only)
+  resolution: SettlementAdjustment | null;
+}
+
+export interface ParsedReport {
+  lines: SettlementLine[];
+  skipped: number;              // refunds, payouts, fees and other non-payment lines
+}
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+// ============================================
+// CSV IMPORT
+// ============================================
+
+// Split CSV text into rows, honouring quoted fields ("a, b" and "" escapes)
+export function parseCsvRows(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+  const src = text.replace(/^\uFEFF/, '');
+
+  for (let i = 0; i < src.length; i++) {
+    const ch = src[i];
+    if (quoted) {
+      if (ch === '"' && src[i + 1] === '"') { field += '"'; i++; }
+      else if (ch === '"') quoted = false;
+      else field += ch;
+    } else if (ch === '"') {
+      quoted = true;
+    } else if (ch === ',') {
+      row.push(field);
+      field = '';
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && src[i + 1] === '\n') i++;
+      row.push(field);
+      if (row.some(f => f.trim() !== '')) rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += ch;
+    }
+  }
+  row.push(field);
+  if (row.some(f => f.trim() !== '')) rows.push(row);
+  return rows;
+}
+
+const normaliseHeader = (h: string) => h.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+// The columns each export calls the same thing, in order of preference.
+// Stripe: balance history export (id, Type, Source, Amount, Fee, Net…),
+// itemized balance change report (balance_transaction_id, reporting_category,
+// payment_intent_id, gross…) and the payments export (PaymentIntent ID,
+// Converted Amount…). PayPal: the activity download (Transaction ID, Gross,
+// Fee, Net, Type, Status, Date, Time).
+const COLUMNS: Record<SettlementProcessor, Record<string, string[]>> = {
+  stripe: {
+    transactionId: ['balancetransactionid', 'id'],
+    paymentId: ['paymentintentid', 'paymentintent', 'source', 'sourceid'],
+    gross: ['convertedamount', 'gross', 'amount'],
+    fee: ['fee'],
+    net: ['net'],
+    currency: ['convertedcurrency', 'currency'],
+    type: ['reportingcategory', 'type'],
+    status: ['status'],
+    date: ['createdutc', 'created', 'createddate'],
+  },
+  paypal: {
+    transactionId: ['transactionid'],
+    paymentId: ['transactionid'],
+    gross: ['gross'],
+    fee: ['fee'],
+    net: ['net'],
+    currency: ['currency'],
+    type: ['type'],
+    status: ['status'],
+    date: ['date'],
+    time: ['time'],
+  },
+};
+
+const STRIPE_PAYMENT_TYPES = ['charge', 'payment'];
+const PAYPAL_NON_PAYMENT = /transfer|withdraw|deposit|hold|conversion|payout|refund|reversal/i;
+
+function parseAmount(value: string | undefined): number {
+  const n = parseFloat((value || '').replace(/[^0-9.-]/g, ''));
+  return isNaN(n) ? 0 : n;
+}
+
+// Report dates: ISO / "2026-10-19 12:34:56" (Stripe) or dd/mm/yyyy (PayPal
+// downloads for a UK account), with an optional separate time column
+export function parseReportDate(date: string, time?: string): string | null {
+  const d = date.trim();
+  const t = (time || '').trim();
+  const uk = d.match(/^(\d{1,2})\/(\d{1,2})\/(\d{4})$/);
+  const iso = uk
+    ? `${uk[3]}-${(uk[2] || '').padStart(2, '0')}-${(uk[1] || '').padStart(2, '0')}T${t || '00:00:00'}Z`
+    : /^\d{4}-\d{2}-\d{2} \d/.test(d) ? `${d.replace(' ', 'T')}Z` : d;
+  const parsed = new Date(iso);
+  return isNaN(parsed.getTime()) ? null : parsed.toISOString();
+}
+
+/**
+ * Parse an uploaded settlement CSV into payment lines. Throws when the file
+ * has none of the columns the processor's exports use.
+ */
+export function parseSettlementCsv(processor: SettlementProcessor, text: string): ParsedReport {
+  const [header, ...rows] = parseCsvRows(text);
+  if (!header) throw new Error('CSV is empty');
+
+  const columns = COLUMNS[processor];
+  const headers = header.map(normaliseHeader);
+  const index: Record<string, number> = {};
+  for (const [field, aliases] of Object.entries(columns)) {
+    const at = aliases.map(a => headers.indexOf(a)).find(i => i >= 0);
+    if (at !== undefined) index[field] = at;
+  }
+  for (const required of ['transactionId', 'gross', 'fee', 'date']) {
+    if (index[required] === undefined) {
+      throw new Error(`Not a ${processor} settlement report: no ${(columns[required] || []).join(' / ')} column`);
+    }
+  }
+
+  const lines: SettlementLine[] = [];
+  let skipped = 0;
+  for (const row of rows) {
+    const get = (field: string) => (index[field] !== undefined ? (row[index[field]] || '').trim() : '');
+    const type = get('type').toLowerCase();
+    const status = get('status').toLowerCase();
+    const gross = parseAmount(get('gross'));
+    const occurredAt = parseReportDate(get('date'), get('time'));
+    const transactionId = get('transactionId');
+
+    const isPayment = processor === 'stripe'
+      ? (!type || STRIPE_PAYMENT_TYPES.includes(type)) && !status.includes('fail')
+      : !PAYPAL_NON_PAYMENT.test(type) && (!status || status === 'completed');
+    if (!transactionId || !occurredAt || gross <= 0 || !isPayment) {
+      skipped++;
+      continue;
+    }
+
+    const fee = Math.abs(parseAmount(get('fee')));
+    lines.push({
+      processor,
+      transactionId,
+      paymentId: get('paymentId') || transactionId,
+      type: type || null,
+      gross: round2(gross),
+      fee: round2(fee),
+      net: index.net !== undefined ? round2(parseAmount(get('net'))) : round2(gross - fee),
+      currency: (get('currency') || 'GBP').toUpperCase(),
+      occurredAt,
+    });
+  }
+  return { lines, skipped };
+}
+
+// ============================================
+// API FETCH
+// ============================================
+
+// Stripe balance transactions created in [from, to), payments only
+export async function fetchStripeSettlements(env: Record<string, unknown>, from: string, to: string): Promise<ParsedReport> {
+  const stripe = createStripeClient(env);
+  if (!stripe) throw new Error('Stripe not configured');
+
+  const lines: SettlementLine[] = [];
+  let skipped = 0;
+  const list = stripe.balanceTransactions.list({
+    created: { gte: Math.floor(Date.parse(from) / 1000), lt: Math.floor(Date.parse(to) / 1000) },
+    limit: 100,
+    expand: ['data.source'],
+  });
+
+  for await (const txn of list) {
+    if (lines.length + skipped >= MAX_FETCH_LINES) break;
+    if (!STRIPE_PAYMENT_TYPES.includes(txn.type) || txn.amount <= 0) {
+      skipped++;
+      continue;
+    }
+    const source = txn.source && typeof txn.source === 'object' ? txn.source as { id: string; payment_intent?: string | { id: string } | null } : null;
+    const paymentIntent = source?.payment_intent;
+    lines.push({
+      processor: 'stripe',
+      transactionId: txn.id,
+      paymentId: (typeof paymentIntent === 'string' ? paymentIntent : paymentIntent?.id) || source?.id || (typeof txn.source === 'string' ? txn.source : null),
+      type: txn.type,
+      gross: txn.amount / 100,
+      fee: txn.fee / 100,
+      net: txn.net / 100,
+      currency: txn.currency.toUpperCase(),
+      occurredAt: new Date(txn.created * 1000).toISOString(),
+    });
+  }
+  return { lines, skipped };
+}
+
+interface PayPalTransactionDetail {
+  transaction_info?: {
+    transaction_id?: string;
+    transaction_event_code?: string;
+    transaction_initiation_date?: string;
+    transaction_updated_date?: string;
+    transaction_amount?: { currency_code?: string; value?: string };
+    fee_amount?: { currency_code?: string; value?: string };
+    transaction_status?: string;
+  };
+}
+
+// PayPal Transaction Search for [from, to), payments (T00xx events) only.
+// The API caps each search at 31 days, so longer periods are split.
+export async function fetchPayPalSettlements(env: Record<string, unknown>, from: string, to: string): Promise<ParsedReport> {
+  const config = getPayPalConfig(env as { PAYPAL_CLIENT_ID?: string; PAYPAL_CLIENT_SECRET?: string; PAYPAL_SANDBOX?: string });
+  if (!config) throw new Error('PayPal not configured');
+  const mode = config.sandbox ? 'sandbox' : 'live';
+  const baseUrl = (env.PAYPAL_API_BASE as string) || import.meta.env.PAYPAL_API_BASE || getPayPalBaseUrl(mode);
+  const token = await getPayPalAccessToken(config.clientId, config.clientSecret, mode, baseUrl);
+
+  const lines: SettlementLine[] = [];
+  let skipped = 0;
+  const end = Date.parse(to);
+  for (let start = Date.parse(from); start < end; start += PAYPAL_SEARCH_DAYS * 86400000) {
+    const windowEnd = Math.min(end, start + PAYPAL_SEARCH_DAYS * 86400000);
+    for (let page = 1, totalPages = 1; page <= totalPages && lines.length + skipped < MAX_FETCH_LINES; page++) {
+      const params = new URLSearchParams({
+        start_date: new Date(start).toISOString(),
+        end_date: new Date(windowEnd - 1000).toISOString(),
+        fields: 'transaction_info',
+        page_size: '500',
+        page: String(page),
+      });
+      const response = await paypalFetchWithRetry(`${baseUrl}/v1/reporting/transactions?${params}`, {
+        headers: { 'Authorization': `Bearer ${token}`, 'Content-Type': 'application/json' },
+      });
+      if (!response.ok) {
+        const errorText = await response.text();
+        log.error(`PayPal transaction search failed: ${response.status} - ${errorText}`);
+        throw new Error('PayPal transaction search failed');
+      }
+      const data = await response.json() as { transaction_details?: PayPalTransactionDetail[]; total_pages?: number };
+      totalPages = data.total_pages || 1;
+
+      for (const detail of data.transaction_details || []) {
+        const info = detail.transaction_info || {};
+        const gross = parseAmount(info.transaction_amount?.value);
+        const occurredAt = info.transaction_initiation_date ? parseReportDate(info.transaction_initiation_date) : null;
+        if (!info.transaction_id || !occurredAt || gross <= 0 ||
+            !(info.transaction_event_code || '').startsWith('T00') || (info.transaction_status && info.transaction_status !== 'S')) {
+          skipped++;
+          continue;
+        }
+        const fee = Math.abs(parseAmount(info.fee_amount?.value));
+        lines.push({
+          processor: 'paypal',
+          transactionId: info.transaction_id,
+          paymentId: info.transaction_id,
+          type: info.transaction_event_code || null,
+          gross: round2(gross),
+          fee: round2(fee),
+          net: round2(gross - fee),
+          currency: (info.transaction_amount?.currency_code || 'GBP').toUpperCase(),
+          occurredAt,
+        });
+      }
+    }
+  }
+  return { lines, skipped };
+}
+
+/**
+ * Store a parsed report. Lines already imported (by processor transaction
+ * id) are kept as they were, so overlapping uploads and fetches are safe.
+ */
+export async function importSettlementReport(db: D1Database, params: {
+  processor: SettlementProcessor;
+  source: 'csv' | 'api';
+  report: ParsedReport;
+  filename?: string | null;
+  periodStart?: string | null;
+  periodEnd?: string | null;
+  adminId?: string | null;
+}): Promise<{ success: boolean; import?: SettlementImport; error?: string }> {
+  const id = crypto.randomUUID();
+  const newCount = await d1InsertSettlementLines(db, id, params.report.lines);
+  if (newCount === null) return { success: false, error: 'Failed to store report lines' };
+
+  const occurred = params.report.lines.map(l => l.occurredAt).sort();
+  const record: SettlementImport = {
+    id,
+    processor: params.processor,
+    source: params.source,
+    filename: params.filename || null,
+    periodStart: params.periodStart || occurred[0] || null,
+    periodEnd: params.periodEnd || occurred[occurred.length - 1] || null,
+    lineCount: params.report.lines.length,
+    newCount,
+    skippedCount: params.report.skipped,
+    importedBy: params.adminId || null,
+  };
+  await d1InsertSettlementImport(db, record);
+  log.info(`Imported ${params.processor} ${params.source} report: ${newCount}/${record.lineCount} new lines, ${record.skippedCount} skipped`);
+  return { success: true, import: record };
+}
+
+// ============================================
+// MATCHING
+// ============================================
+
+const sellerOf = (row: FirestoreDoc) => (row.submitterId as string) || (row.artistId as string) || null;
+const ledgerFee = (processor: SettlementProcessor, row: FirestoreDoc) =>
+  Number(processor === 'stripe' ? row.stripeFee : row.paypalFee) || 0;
+
+// The ids a processor's reports know a ledger row by
+function ledgerKeys(processor: SettlementProcessor, row: FirestoreDoc): string[] {
+  const keys = processor === 'paypal' ? [row.paypalCaptureId, row.paymentId] : [row.paymentId];
+  return keys.filter((k): k is string => typeof k === 'string' && k !== '');
+}
+
+/**
+ * Match report lines against ledger rows. Pure: `lines` are the report lines
+ * settled in [from, to), `ledger` the processor's ledger rows around that
+ * period. Issues come back unresolved.
+ */
+export function reconcile(processor: SettlementProcessor, lines: SettlementLine[], ledger: FirestoreDoc[], from: string, to: string): ReconciliationIssue[] {
+  const issues: ReconciliationIssue[] = [];
+  const base = { orderNumber: null, occurredAt: null, reportGross: null, reportFee: null, ledgerGross: null, ledgerFee: null, correctable: false, resolution: null };
+
+  // Sale rows by every id they can be matched on (refund rows are a separate
+  // report line type and aren't reconciled here)
+  const byKey = new Map<string, FirestoreDoc[]>();
+  for (const row of ledger) {
+    if (row.refundId || (Number(row.grossTotal) || 0) <= 0) continue;
+    for (const key of ledgerKeys(processor, row)) {
+      byKey.set(key, [...(byKey.get(key) || []), row]);
+    }
+  }
+
+  const linesByPayment = new Map<string, SettlementLine[]>();
+  for (const line of lines) {
+    const key = line.paymentId || line.transactionId;
+    linesByPayment.set(key, [...(linesByPayment.get(key) || []), line]);
+  }
+
+  const matched = new Set<string>();
+  for (const [paymentId, [first, ...repeats]] of linesByPayment) {
+    if (!first) continue;
+    const paymentLines = [first, ...repeats];
+    // The processor settled the same payment more than once
+    for (const extra of repeats) {
+      issues.push({
+        ...base, key: `duplicate:${extra.transactionId}`, kind: 'duplicate', paymentId,
+        transactionIds: [first.transactionId, extra.transactionId], ledgerIds: [],
+        occurredAt: extra.occurredAt, reportGross: extra.gross, reportFee: extra.fee, difference: extra.gross,
+      });
+    }
+
+    const rows = [...new Set([paymentId, first.transactionId].flatMap(k => byKey.get(k) || []))];
+    const reportGross = round2(paymentLines.reduce((sum, l) => sum + l.gross, 0));
+    if (rows.length === 0) {
+      issues.push({
+        ...base, key: `missing_in_ledger:${paymentId}`, kind: 'missing_in_ledger', paymentId,
+        transactionIds: paymentLines.map(l => l.transactionId), ledgerIds: [],
+        occurredAt: first.occurredAt, reportGross, reportFee: round2(paymentLines.reduce((sum, l) => sum + l.fee, 0)),
+        difference: reportGross,
+      });
+      continue;
+    }
+    rows.forEach(row => matched.add(row.id as string));
+
+    // Each seller gets one row per payment — any more were recorded twice
+    const kept: FirestoreDoc[] = [];
+    const seenSellers = new Set<string>();
+    for (const row of [...rows].sort((a, b) => String(a.timestamp).localeCompare(String(b.timestamp)))) {
+      const seller = sellerOf(row) || '';
+      if (!seenSellers.has(seller)) {
+        seenSellers.add(seller);
+        kept.push(row);
+        continue;
+      }
+      issues.push({
+        ...base, key: `duplicate:${row.id}`, kind: 'duplicate', paymentId,
+        transactionIds: [first.transactionId], ledgerIds: [row.id as string],
+        orderNumber: (row.orderNumber as string) || null, occurredAt: (row.timestamp as string) || null,
+        ledgerGross: Number(row.grossTotal) || 0, ledgerFee: ledgerFee(processor, row),
+        difference: Number(row.grossTotal) || 0, correctable: true,
+      });
+    }
+
+    // Compare the first settlement (any repeat is flagged above). Report
+    // fees are in the payment's currency, the ledger's in GBP.
+    const lead = kept[0];
+    if (!lead) continue;
+    const fxRate = Number(lead.fxRate) || 0;
+    const settledInGbp = first.currency === 'GBP';
+    if (!settledInGbp && (!fxRate || first.currency !== lead.presentmentCurrency)) continue;
+    const toGbp = (amount: number) => (settledInGbp ? amount : amount / fxRate);
+
+    const reportFee = round2(toGbp(first.fee));
+    const bookedFee = round2(kept.reduce((sum, row) => sum + ledgerFee(processor, row), 0));
+    if (Math.abs(Math.round((reportFee - bookedFee) * 100)) > Math.round(FEE_TOLERANCE * 100)) {
+      issues.push({
+        ...base, key: `fee_mismatch:${paymentId}`, kind: 'fee_mismatch', paymentId,
+        transactionIds: [first.transactionId], ledgerIds: kept.map(row => row.id as string),
+        orderNumber: (lead.orderNumber as string) || null, occurredAt: first.occurredAt,
+        reportGross: round2(toGbp(first.gross)), reportFee,
+        ledgerGross: round2(kept.reduce((sum, row) => sum + (Number(row.grossTotal) || 0), 0)), ledgerFee: bookedFee,
+        difference: round2(reportFee - bookedFee), correctable: true,
+      });
+    }
+  }
+
+  // Ledger payments in the period the processor never reported
+  const missing = new Map<string, FirestoreDoc[]>();
+  for (const row of ledger) {
+    const at = String(row.timestamp || '');
+    if (row.refundId || (Number(row.grossTotal) || 0) <= 0 || matched.has(row.id as string) || at < from || at >= to) continue;
+    const key = ledgerKeys(processor, row)[0] || `ledger:${row.id}`;
+    missing.set(key, [...(missing.get(key) || []), row]);
+  }
+  for (const [paymentId, rows] of missing) {
+    issues.push({
+      ...base, key: `missing_in_report:${paymentId}`, kind: 'missing_in_report', paymentId,
+      transactionIds: [], ledgerIds: rows.map(row => row.id as string),
+      orderNumber: (rows[0]?.orderNumber as string) || null, occurredAt: (rows[0]?.timestamp as string) || null,
+      ledgerGross: round2(rows.reduce((sum, row) => sum + (Number(row.grossTotal) || 0), 0)),
+      ledgerFee: round2(rows.reduce((sum, row) => sum + ledgerFee(processor, row), 0)),
+      difference: round2(-rows.reduce((sum, row) => sum + (Number(row.grossTotal) || 0), 0)),
+    });
+  }
+
+  return issues.sort((a, b) => String(b.occurredAt).localeCompare(String(a.occurredAt)));
+}
+
+/**
+ * Reconcile a processor's imported lines for [from, to) against the ledger,
+ * with any recorded resolutions attached.
+ */
+export async function getReconciliationReport(db: D1Database, processor: SettlementProcessor, from: string, to: string): Promise<{
+  issues: ReconciliationIssue[];
+  ledgerRows: FirestoreDoc[];
+  summary: { reportLines: number; ledgerRows: number; open: number; resolved: number; byKind: Record<IssueKind, number> };
+}> {
+  const windowFrom = new Date(Date.parse(from) - MATCH_WINDOW_MS).toISOString();
+  const windowTo = new Date(Date.parse(to) + MATCH_WINDOW_MS).toISOString();
+  const [lines, ledgerRows] = await Promise.all([
+    d1GetSettlementLines(db, processor, from, to),
+    d1GetLedgerEntriesByPaymentMethod(db, processor, windowFrom, windowTo),
+  ]);
+
+  const issues = reconcile(processor, lines, ledgerRows, from, to);
+  const adjustments = await d1GetSettlementAdjustments(db, processor, issues.map(i => i.key));
+  const byIssue = new Map(adjustments.map(a => [a.issueKey, a]));
+
+  const byKind: Record<IssueKind, number> = { missing_in_ledger: 0, missing_in_report: 0, duplicate: 0, fee_mismatch: 0 };
+  let resolved = 0;
+  for (const issue of issues) {
+    issue.resolution = byIssue.get(issue.key) || null;
+    if (issue.resolution) resolved++;
+    else byKind[issue.kind]++;
+  }
+
+  return {
+    issues,
+    ledgerRows,
+    summary: {
+      reportLines: lines.length,
+      ledgerRows: ledgerRows.filter(row => String(row.timestamp) >= from && String(row.timestamp) < to).length,
+      open: issues.length - resolved,
+      resolved,
+      byKind,
+    },
+  };
+}
+
+// ============================================
+// CORRECTIONS
+// ============================================
+
+async function payableFor(db: D1Database, row: FirestoreDoc): Promise<Pick<Posting, 'account' | 'partyId'>> {
+  const sellerId = sellerOf(row);
+  if (!sellerId) return { account: JOURNAL_ACCOUNTS.platformRevenue, partyId: null };
+  const kind = await payableKindOfEntry(db, `sale:${row.id}`)
+    || sellerKindForItems((row.items as Array<{ type?: string }>) || []);
+  return { account: PAYABLE_ACCOUNTS[kind], partyId: sellerId };
+}
+
+// Spread a fee difference across the payment's ledger rows by gross, in
+// whole pence (largest remainder, so the shares add up exactly)
+export function splitByGross(difference: number, grosses: number[]): number[] {
+  const totalPence = Math.round(difference * 100);
+  const totalGross = grosses.reduce((sum, g) => sum + g, 0);
+  const sign = totalPence < 0 ? -1 : 1;
+  const shares = grosses.map((g, i) => {
+    const exact = Math.abs(totalPence) * (totalGross > 0 ? g / totalGross : 1 / grosses.length);
+    return { i, floored: Math.floor(exact), remainder: exact - Math.floor(exact) };
+  });
+  let left = Math.abs(totalPence) - shares.reduce((sum, s) => sum + s.floored, 0);
+  for (const s of [...shares].sort((a, b) => b.remainder - a.remainder)) {
+    if (left <= 0) break;
+    s.floored++;
+    left--;
+  }
+  return shares.map(s => (sign * s.floored) / 100);
+}
+
+// The seller bears the processor fee, so a higher settled fee is charged to
+// their payable (and a lower one credited back); the processor balance moves
+// by the difference
+async function correctFee(db: D1Database, processor: SettlementProcessor, issue: ReconciliationIssue, rows: FirestoreDoc[]) {
+  const journalEntryId = `adjustment:fee:${processor}:${issue.paymentId}`;
+  const shares = splitByGross(issue.difference, rows.map(row => Number(row.grossTotal) || 0));
+  const postings: Posting[] = [];
+  for (const [i, row] of rows.entries()) {
+    postings.push({ ...(await payableFor(db, row)), amount: shares[i] || 0, memo: 'processor fee adjustment' });
+  }
+  postings.push({ account: JOURNAL_ACCOUNTS.processorClearing, partyId: processor, amount: -issue.difference, memo: 'settled fee' });
+
+  const result = await postJournalEntry(db, {
+    id: journalEntryId,
+    entryType: 'adjustment',
+    orderId: (rows[0]?.orderId as string) || null,
+    reference: issue.paymentId,
+    memo: `${processor} fee on ${issue.paymentId}: ledger ${issue.ledgerFee}, settled ${issue.reportFee}`,
+    postings,
+  });
+  return { ...result, journalEntryId };
+}
+
+// Reverse a ledger row recorded twice: its posted sale entry negated, or —
+// if it never reached the journal — the postings it would have made
+async function reverseDuplicate(db: D1Database, row: FirestoreDoc) {
+  const journalEntryId = `adjustment:duplicate:${row.id}`;
+  const posted = await d1GetJournalLines(db, `sale:${row.id}`);
+  const payable = await payableFor(db, row);
+  const postings: Posting[] = posted.length > 0
+    ? posted.map(l => ({ account: l.account, partyId: l.partyId, amount: (l.creditPence - l.debitPence) / 100, memo: `reversed: ${l.memo || ''}`.trim() }))
+    : saleJournalPostings({
+      grossTotal: -(Number(row.grossTotal) || 0),
+      stripeFee: -(Number(row.stripeFee) || 0),
+      paypalFee: -(Number(row.paypalFee) || 0),
+      freshWaxFee: -(Number(row.freshWaxFee) || 0),
+      paymentMethod: (row.paymentMethod as string) || 'stripe',
+      sellerId: payable.partyId,
+      sellerKind: (Object.keys(PAYABLE_ACCOUNTS) as Array<keyof typeof PAYABLE_ACCOUNTS>).find(k => PAYABLE_ACCOUNTS[k] === payable.account),
+    });
+
+  const result = await postJournalEntry(db, {
+    id: journalEntryId,
+    entryType: 'adjustment',
+    orderId: (row.orderId as string) || null,
+    reference: row.id as string,
+    memo: `Duplicate ledger row ${row.id} for ${row.orderNumber || row.paymentId}`,
+    postings,
+  });
+  return { ...result, journalEntryId };
+}
+
+/**
+ * Resolve an issue from the report for [from, to). `correct` posts the
+ * adjustment for a fee mismatch or duplicate ledger row; `acknowledge`
+ * records that an admin looked at it (e.g. a missing row that was refunded
+ * by hand). Either way an audit row is written, once per issue.
+ */
+export async function resolveIssue(db: D1Database, params: {
+  processor: SettlementProcessor;
+  from: string;
+  to: string;
+  issueKey: string;
+  action: 'correct' | 'acknowledge';
+  adminId: string | null;
+  note?: string | null;
+}): Promise<{ success: boolean; adjustment?: SettlementAdjustment; error?: string }> {
+  const { issues, ledgerRows } = await getReconciliationReport(db, params.processor, params.from, params.to);
+  const issue = issues.find(i => i.key === params.issueKey);
+  if (!issue) return { success: false, error: 'Issue not found for this period' };
+  if (issue.resolution) return { success: false, error: 'Issue already resolved' };
+  if (params.action === 'correct' && !issue.correctable) return { success: false, error: 'This issue can only be acknowledged' };
+
+  let journalEntryId: string | null = null;
+  let amount = 0;
+  if (params.action === 'correct') {
+    const rows = issue.ledgerIds.map(id => ledgerRows.find(row => row.id === id)).filter((row): row is FirestoreDoc => !!row);
+    if (!rows[0]) return { success: false, error: 'Ledger rows not found' };
+    const posted = issue.kind === 'fee_mismatch'
+      ? await correctFee(db, params.processor, issue, rows)
+      : await reverseDuplicate(db, rows[0]);
+    if (!posted.success) return { success: false, error: posted.error || 'Failed to post adjustment' };
+    journalEntryId = posted.journalEntryId;
+    amount = issue.kind === 'fee_mismatch' ? issue.difference : -issue.difference;
+  }
+
+  const adjustment: SettlementAdjustment = {
+    id: crypto.randomUUID(),
+    processor: params.processor,
+    issueKey: issue.key,
+    kind: params.action === 'correct' ? `${issue.kind}_corrected` : `${issue.kind}_acknowledged`,
+    paymentId: issue.paymentId,
+    amount,
+    ledgerIds: issue.ledgerIds,
+    journalEntryId,
+    note: params.note || null,
+    adminId: params.adminId,
+  };
+  if (!await d1InsertSettlementAdjustment(db, adjustment)) {
+    // The journal entry id is deterministic, so a concurrent correction
+    // can't have posted twice — only the audit row lost the race
+    return { success: false, error: 'Issue already resolved' };
+  }
+  log.info(`${adjustment.kind} ${issue.key} by ${params.adminId || 'unknown'}${journalEntryId ? ` (${journalEntryId})` : ''}`);
+  return { success: true, adjustment };
+}
@@ -2,6 +2,7 @@
 // Extracted from ShufflePlayer.astro — client-side shuffle player controller
 import { escapeHtml } from './escape-html';
 import { createClientLogger } from './client-logger';
+import { drawWaveform, fitCanvas, peaksForAudio, windowPeaks } from './waveform';
 
 const logger = createClientLogger('ShufflePlayer');
 
@@ -15,6 +16,9 @@ const ShufflePlayer = {
     artwork: string;
     previewUrl: string;
     duration?: string | number | null;
+    durationSeconds?: number | null;
+    waveform?: number[];
+    previewWaveform?: number[];
   }>,
   shuffledTracks: [] as Array<{
     id: string;
@@ -25,6 +29,9 @@ const ShufflePlayer = {
     artwork: string;
     previewUrl: string;
     duration?: string | number | null;
+    durationSeconds?: number | null;
+    waveform?: number[];
+    previewWaveform?: number[];
   }>,
   currentIndex: 0,
   isPlaying: false,
@@ -35,6 +42,8 @@ const ShufflePlayer = {
   CLIP_DURATION: 60,  // Play for 60 seconds
   clipEndTime: 90,    // CLIP_START + CLIP_DURATION
   seeked: false,
+  // Waveform bars for the clip being played; null draws the plain bar
+  waveformBars: null as number[] | null,
 
   // DOM Elements
   els: {} as Record<string, HTMLElement | null>,
@@ -69,7 +78,9 @@ const ShufflePlayer = {
       releaseLink: document.getElementById('shuffle-release-link'),
       releaseTitle: document.getElementById('shuffle-release-title'),
       progressContainer: document.getElementById('shuffle-progress-container'),
+      progressBar: document.getElementById('shuffle-progress-bar'),
       progress: document.getElementById('shuffle-progress'),
+      waveform: document.getElementById('shuffle-waveform'),
       currentTime: document.getElementById('shuffle-current-time'),
       duration: document.getElementById('shuffle-duration'),
       playBtn: document.getElementById('shuffle-play-btn'),
@@ -214,6 +225,7 @@ const ShufflePlayer = {
         self.clipEndTime = dur;
         if (self.els.duration) self.els.duration.textContent = self.formatTime(dur);
       }
+      self.setupWaveform();
     };
 
     audio.oncanplay = function() {
@@ -280,6 +292,8 @@ const ShufflePlayer = {
   loadTrack: function(track: { previewUrl: string; artwork: string; title: string; artist: string; releaseTitle: string; releaseId: string }) {
     if (!this.audio) return;
     this.seeked = false;
+    this.waveformBars = null;
+    this.els.progressBar?.classList.remove('has-waveform');
     this.audio.src = track.previewUrl;
     this.audio.load();
 
@@ -354,6 +368,31 @@ const ShufflePlayer = {
     const progress = clipLen > 0 ? (elapsed / clipLen) * 100 : 0;
     if (this.els.progress) (this.els.progress as HTMLElement).style.width = progress + '%';
     if (this.els.currentTime) this.els.currentTime.textContent = this.formatTime(elapsed);
+    this.drawWaveform(progress / 100);
+  },
+
+  // Swap the flat bar for the track's waveform across the clip window, when
+  // the track has one
+  setupWaveform: function() {
+    const canvas = this.els.waveform as HTMLCanvasElement | null;
+    const track = this.shuffledTracks[this.currentIndex];
+    if (!canvas || !track || !this.audio) return;
+
+    const dur = this.audio.duration;
+    const peaks = peaksForAudio(track, dur);
+    if (!peaks) return;
+
+    this.els.progressBar?.classList.add('has-waveform');
+    const bars = fitCanvas(canvas);
+    const clipStart = dur > this.CLIP_START ? this.CLIP_START : 0;
+    this.waveformBars = windowPeaks(peaks, dur, clipStart, this.clipEndTime, bars);
+    this.drawWaveform(0);
+  },
+
+  drawWaveform: function(progress: number) {
+    const canvas = this.els.waveform as HTMLCanvasElement | null;
+    if (!canvas || !this.waveformBars) return;
+    drawWaveform(canvas, this.waveformBars, progress, { played: '#ef4444', unplayed: 'rgba(255, 255, 255, 0.25)' });
   },
 
   updatePlayButton: function() {
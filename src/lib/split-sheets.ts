@@ -0,0 +1,324 @@
+// src/lib/split-sheets.ts
+// Royalty split sheets: several payees sharing the artist side of a release.
+//
+// A sheet is a list of shares ({ artistId, percentage } summing to 100, with
+// the payee's role and display name). It lives on the release doc, either
+// release-wide in `payoutSplits` (the original 50/50 split-EP field) or per
+// track in `trackSplits`, keyed by the track id carts use as `trackId`. A
+// track's own sheet wins over the release sheet for single-track sales.
+//
+// Every payee must have an `artists` doc: payouts route each share through
+// that payee's own Stripe Connect account or PayPal preference, and the
+// sales ledger records a separate liability per payee (expandSplitItems).
+//
+// Owners edit a sheet freely until the release's first sale. After that the
+// sheet is locked — only an admin can amend it, with a reason — and every
+// change is kept in D1 `split_sheet_changes`.
+
+import { getDocument, updateDocument } from './firebase-rest';
+import { createLogger } from './api-utils';
+import { d1InsertSplitSheetChange, d1GetSplitSheetChanges, d1ReleaseHasSales } from './d1/split-sheets';
+import type { SplitSheetChange } from './d1/split-sheets';
+import type { D1Database } from './d1/types';
+
+const log = createLogger('[split-sheets]');
+
+export type SplitRole = 'artist' | 'featured' | 'remixer' | 'label';
+export const SPLIT_ROLES: SplitRole[] = ['artist', 'featured', 'remixer', 'label'];
+
+export interface SplitShare {
+  artistId: string;
+  percentage: number;
+  role?: SplitRole;
+  name?: string | null;
+}
+
+export const MAX_SPLIT_PAYEES = 20;
+
+/** The id a cart line uses for this track (`item.trackId`) */
+export function trackKey(track: Record<string, unknown>): string {
+  return String(track.id || track.trackId || '');
+}
+
+function cleanShares(raw: unknown, context: string): SplitShare[] | null {
+  if (!Array.isArray(raw) || raw.length === 0) return null;
+  const cleaned = raw
+    .map((s) => s as { artistId?: unknown; percentage?: unknown; role?: unknown; name?: unknown })
+    .filter((s) => typeof s.artistId === 'string' && typeof s.percentage === 'number' && s.percentage > 0)
+    .map((s) => ({
+      artistId: s.artistId as string,
+      percentage: s.percentage as number,
+      ...(SPLIT_ROLES.includes(s.role as SplitRole) ? { role: s.role as SplitRole } : {}),
+      ...(typeof s.name === 'string' && s.name ? { name: s.name } : {}),
+    }));
+  if (cleaned.length === 0) return null;
+  const total = cleaned.reduce((sum, s) => sum + s.percentage, 0);
+  // Allow tiny rounding errors but reject anything that's clearly wrong
+  if (Math.abs(total - 100) > 0.01) {
+    log.warn(`${context} split sheet doesn't sum to 100 (got ${total}); falling back to single-artist routing`);
+    return null;
+  }
+  return cleaned;
+}
+
+/**
+ * The split sheet that applies to a sale of the release (or of one of its
+ * tracks), or null when the sale goes to the single release artist.
+ */
+export function resolveSplitSheet(
+  release: Record<string, unknown> | null | undefined,
+  trackId?: unknown
+): SplitShare[] | null {
+  if (!release) return null;
+  if (typeof trackId === 'string' && trackId) {
+    const trackSplits = release.trackSplits as Record<string, unknown> | undefined;
+    const trackSheet = trackSplits && typeof trackSplits === 'object' ? trackSplits[trackId] : undefined;
+    if (trackSheet !== undefined) {
+      const shares = cleanShares(trackSheet, `Track ${trackId}`);
+      if (shares) return shares;
+    }
+  }
+  return cleanShares(release.payoutSplits, 'Release');
+}
+
+/**
+ * Check a sheet an owner or admin submitted. Returns an error message, or
+ * null when it can be saved. Remixer shares need a remixer credited on the
+ * track (or, for a release-wide sheet, on one of its tracks).
+ */
+export function validateSplitSheet(
+  shares: SplitShare[],
+  release: Record<string, unknown>,
+  trackId?: string | null
+): string | null {
+  if (shares.length === 0) return 'A split sheet needs at least one payee';
+  if (shares.length > MAX_SPLIT_PAYEES) return `A split sheet can have at most ${MAX_SPLIT_PAYEES} payees`;
+
+  const ids = new Set<string>();
+  for (const share of shares) {
+    if (!share.artistId) return 'Every share needs a payee';
+    if (ids.has(share.artistId)) return `Payee ${share.artistId} is listed twice`;
+    ids.add(share.artistId);
+    if (!(share.percentage > 0) || Math.round(share.percentage * 100) !== share.percentage * 100) {
+      return 'Percentages must be above 0 with at most two decimal places';
+    }
+  }
+  const totalBasisPoints = shares.reduce((sum, s) => sum + Math.round(s.percentage * 100), 0);
+  if (totalBasisPoints !== 10000) return `Percentages must add up to 100 (got ${totalBasisPoints / 100})`;
+
+  const tracks = (Array.isArray(release.tracks) ? release.tracks : []) as Record<string, unknown>[];
+  const track = trackId ? tracks.find(t => trackKey(t) === trackId) : null;
+  if (trackId && !track) return 'Track not found on this release';
+  if (shares.some(s => s.role === 'remixer')) {
+    const credited = track ? [track] : tracks;
+    if (!credited.some(t => typeof t.remixer === 'string' && t.remixer.trim())) {
+      return track ? 'This track has no remixer credited' : 'No track on this release credits a remixer';
+    }
+  }
+  return null;
+}
+
+/** Split an amount in pence by percentage (largest remainder), so the parts add up exactly. */
+export function splitByPercentage(amount: number, percentages: number[]): number[] {
+  const totalPence = Math.round(amount * 100);
+  const parts = percentages.map((percentage, index) => {
+    const exact = totalPence * percentage / 100;
+    return { index, pence: Math.floor(exact), remainder: exact - Math.floor(exact) };
+  });
+  let leftover = totalPence - parts.reduce((sum, p) => sum + p.pence, 0);
+  for (const part of [...parts].sort((a, b) => b.remainder - a.remainder)) {
+    if (leftover <= 0) break;
+    part.pence += 1;
+    leftover -= 1;
+  }
+  return parts.map(p => p.pence / 100);
+}
+
+/**
+ * Replace each line carrying `payoutSplits` (set by the ledger enrichment)
+ * with one line per payee, priced by their share, so the sales ledger books
+ * a separate entry — and payable — for every payee. Other lines pass through.
+ */
+export function expandSplitItems<T extends Record<string, unknown>>(items: T[]): T[] {
+  const expanded: T[] = [];
+  for (const item of items) {
+    const shares = Array.isArray(item.payoutSplits) ? item.payoutSplits as SplitShare[] : null;
+    if (!shares || shares.length === 0) {
+      expanded.push(item);
+      continue;
+    }
+
+    const percentages = shares.map(s => s.percentage);
+    const prices = splitByPercentage(Number(item.price) || 0, percentages);
+    const listPrices = item.preDiscountPrice != null ? splitByPercentage(Number(item.preDiscountPrice) || 0, percentages) : null;
+    const { payoutSplits: _splits, ...rest } = item;
+
+    shares.forEach((share, i) => {
+      expanded.push({
+        ...rest,
+        submitterId: share.artistId,
+        // The release's contact email belongs to the uploader, not this payee
+        submitterEmail: share.artistId === item.submitterId ? item.submitterEmail : null,
+        price: prices[i],
+        ...(listPrices ? { preDiscountPrice: listPrices[i] } : {}),
+        splitRole: share.role || 'artist',
+        splitPercentage: share.percentage,
+      } as unknown as T);
+    });
+  }
+  return expanded;
+}
+
+export interface SplitSheetState {
+  releaseId: string;
+  payoutSplits: SplitShare[] | null;
+  trackSplits: Record<string, SplitShare[]>;
+  locked: boolean;
+  lockedAt: string | null;
+  history: SplitSheetChange[];
+}
+
+/**
+ * Whether the release has sold. The first check that finds a sale stamps
+ * `splitSheetLockedAt` on the release so later checks skip the ledger scan.
+ * When the ledger can't be read the sheet is treated as locked.
+ */
+export async function isSplitSheetLocked(
+  db: D1Database | undefined,
+  releaseId: string,
+  release: Record<string, unknown>
+): Promise<{ locked: boolean; lockedAt: string | null }> {
+  if (typeof release.splitSheetLockedAt === 'string') {
+    return { locked: true, lockedAt: release.splitSheetLockedAt };
+  }
+  if (!db) return { locked: true, lockedAt: null };
+  const sold = await d1ReleaseHasSales(db, releaseId);
+  if (sold === null) return { locked: true, lockedAt: null };
+  if (!sold) return { locked: false, lockedAt: null };
+
+  const lockedAt = new Date().toISOString();
+  try {
+    await updateDocument('releases', releaseId, { splitSheetLockedAt: lockedAt });
+  } catch (error: unknown) {
+    log.warn(`Could not stamp split sheet lock on ${releaseId}:`, error);
+  }
+  return { locked: true, lockedAt };
+}
+
+export async function getSplitSheetState(db: D1Database | undefined, releaseId: string, release: Record<string, unknown>): Promise<SplitSheetState> {
+  const { locked, lockedAt } = await isSplitSheetLocked(db, releaseId, release);
+  const trackSplits: Record<string, SplitShare[]> = {};
+  const rawTrackSplits = (release.trackSplits || {}) as Record<string, unknown>;
+  for (const trackId of Object.keys(rawTrackSplits)) {
+    const shares = resolveSplitSheet({ trackSplits: rawTrackSplits }, trackId);
+    if (shares) trackSplits[trackId] = shares;
+  }
+  return {
+    releaseId,
+    payoutSplits: resolveSplitSheet({ payoutSplits: release.payoutSplits }),
+    trackSplits,
+    locked,
+    lockedAt,
+    history: db ? await d1GetSplitSheetChanges(db, releaseId) : [],
+  };
+}
+
+export interface SaveSplitSheetParams {
+  releaseId: string;
+  /** null for the release-wide sheet */
+  trackId: string | null;
+  /** null removes the sheet (the sale goes back to the release artist) */
+  shares: SplitShare[] | null;
+  changedBy: string;
+  /** Admins may amend a locked sheet; owners may not */
+  isAdmin: boolean;
+  reason?: string | null;
+}
+
+/**
+ * Validate and store a split sheet, recording the change. Once the release
+ * has sold, owners get an error and admins must give a reason.
+ */
+export async function saveSplitSheet(
+  db: D1Database | undefined,
+  params: SaveSplitSheetParams
+): Promise<{ success: true; state: SplitSheetState } | { success: false; status: number; error: string }> {
+  const { releaseId, trackId, changedBy, isAdmin } = params;
+  const reason = params.reason?.trim() || null;
+
+  const release = await getDocument('releases', releaseId);
+  if (!release) return { success: false, status: 404, error: 'Release not found' };
+
+  const shares = params.shares
+    ? params.shares.map(s => ({
+        artistId: s.artistId,
+        percentage: Math.round(s.percentage * 100) / 100,
+        role: s.role || 'artist',
+        ...(s.name ? { name: s.name } : {}),
+      }))
+    : null;
+  if (shares) {
+    const invalid = validateSplitSheet(shares, release, trackId);
+    if (invalid) return { success: false, status: 400, error: invalid };
+  } else if (trackId && !((release.tracks || []) as Record<string, unknown>[]).some(t => trackKey(t) === trackId)) {
+    return { success: false, status: 400, error: 'Track not found on this release' };
+  }
+
+  const { locked, lockedAt } = await isSplitSheetLocked(db, releaseId, release);
+  if (locked && !isAdmin) {
+    return { success: false, status: 409, error: 'This release has sold, so its split sheet is locked. Contact us to amend it.' };
+  }
+  if (locked && !reason) {
+    return { success: false, status: 400, error: 'A reason is required to amend a split sheet after the first sale' };
+  }
+  if (locked && !db) {
+    return { success: false, status: 503, error: 'Split sheet history is unavailable' };
+  }
+
+  // Every payee is paid from their artists doc (Connect account / PayPal)
+  if (shares) {
+    const payees = await Promise.all(shares.map(s => getDocument('artists', s.artistId).catch(() => null)));
+    const missing = shares.filter((_, i) => !payees[i]).map(s => s.artistId);
+    if (missing.length > 0) {
+      return { success: false, status: 400, error: `No artist account for payee: ${missing.join(', ')}` };
+    }
+    shares.forEach((share, i) => {
+      const payee = payees[i] as Record<string, unknown> | null;
+      if (!share.name && typeof payee?.artistName === 'string') share.name = payee.artistName;
+    });
+  }
+
+  const trackSplits = { ...((release.trackSplits || {}) as Record<string, unknown>) };
+  const previous = trackId ? (trackSplits[trackId] ?? null) : (release.payoutSplits ?? null);
+  let update: Record<string, unknown>;
+  if (trackId) {
+    if (shares) trackSplits[trackId] = shares;
+    else delete trackSplits[trackId];
+    update = { trackSplits };
+  } else {
+    update = { payoutSplits: shares };
+  }
+
+  // After the first sale the history row is the audit trail, so it must be
+  // written before the sheet changes
+  const change: SplitSheetChange = {
+    id: `split_${Date.now().toString(36)}_${Math.random().toString(36).slice(2, 8)}`,
+    releaseId,
+    trackId,
+    previousShares: previous,
+    shares,
+    locked,
+    reason,
+    changedBy,
+  };
+  const recorded = db ? await d1InsertSplitSheetChange(db, change) : false;
+  if (locked && !recorded) {
+    return { success: false, status: 500, error: 'Could not record the split sheet change' };
+  }
+
+  await updateDocument('releases', releaseId, { ...update, updatedAt: new Date().toISOString() });
+  log.info(`Split sheet for ${releaseId}${trackId ? ` track ${trackId}` : ''} ${shares ? 'saved' : 'removed'} by ${changedBy}${locked ? ' (after first sale)' : ''}`);
+
+  const saved = { ...release, ...update, ...(lockedAt ? { splitSheetLockedAt: lockedAt } : {}) };
+  return { success: true, state: await getSplitSheetState(db, releaseId, saved) };
+}
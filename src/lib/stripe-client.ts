@@ -5,5 +5,15 @@ const STRIPE_API_VERSION = '2024-12-18.acacia' as const;
 export function createStripeClient(env: Record<string, unknown>): Stripe | null {
   const secretKey = (env?.STRIPE_SECRET_KEY || import.meta.env.STRIPE_SECRET_KEY) as string | undefined;
   if (!secretKey) return null;
-  return new Stripe(secretKey, { apiVersion: STRIPE_API_VERSION });
+  // STRIPE_API_BASE (e.g. http://localhost:12111) points the client at stripe-mock
+  const apiBase = (env?.STRIPE_API_BASE || import.meta.env.STRIPE_API_BASE) as string | undefined;
+  const url = apiBase ? new URL(apiBase) : null;
+  return new Stripe(secretKey, {
+    apiVersion: STRIPE_API_VERSION,
+    ...(url && {
+      host: url.hostname,
+      port: url.port || (url.protocol === 'http:' ? 80 : 443),
+      protocol: url.protocol === 'http:' ? 'http' as const : 'https' as const,
+    }),
+  });
 }
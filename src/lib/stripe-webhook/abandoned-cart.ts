@@ -2,13 +2,12 @@
 // Abandoned cart (checkout expired) handler extracted from webhook.ts
 
 import Stripe from 'stripe';
-import { getDocument, queryCollection, addDocument } from '../firebase-rest';
 import { createLogger } from '../api-utils';
 
 const log = createLogger('stripe-webhook-abandoned-cart');
 
 /**
- * Handle checkout.session.expired — release reserved stock and send recovery email.
+ * Handle checkout.session.expired — release reserved stock and start the recovery emails.
  */
 export async function handleCheckoutExpired(
   session: Stripe.Checkout.Session,
@@ -27,66 +26,30 @@ export async function handleCheckoutExpired(
     }
   }
 
-  // Send abandoned cart recovery email
-  const customerEmail = session.customer_email || session.customer_details?.email;
-  const itemsMeta = session.metadata?.items;
-  if (customerEmail && itemsMeta) {
+  // Start the recovery email sequence (lib/abandoned-cart.ts); the
+  // abandoned-carts cron sends each step when it comes due
+  // Product checkouts carry the buyer's email in metadata, not on the session
+  const metadata = (session.metadata || {}) as Record<string, string>;
+  const customerEmail = session.customer_email || session.customer_details?.email || metadata.customer_email;
+  if (customerEmail) {
     try {
-      let items: Record<string, unknown>[] = [];
-      try { items = JSON.parse(itemsMeta); } catch (e: unknown) { /* intentional: items_json metadata may be malformed — proceed with empty items */ }
+      const { abandonedSessionItems, startAbandonedCartSequence } = await import('../abandoned-cart');
+      const items = await abandonedSessionItems(metadata);
 
       if (items.length > 0) {
-        // Check email opt-out (forward-compatible)
-        let optedOut = false;
-        const userId = session.metadata?.userId || session.metadata?.customer_id;
-        if (userId) {
-          try {
-            const userDoc = await getDocument('customers', userId);
-            if (userDoc && (userDoc as Record<string, unknown>).emailOptOut) {
-              optedOut = true;
-            }
-          } catch (e: unknown) { /* user not found, proceed */ }
-        }
-
-        if (!optedOut) {
-          // Rate limit: max 1 per email per 24h
-          const oneDayAgo = new Date(Date.now() - 24 * 60 * 60 * 1000).toISOString();
-          const recentEmails = await queryCollection('abandonedCartEmails', {
-            filters: [
-              { field: 'email', op: 'EQUAL', value: customerEmail },
-              { field: 'sentAt', op: 'GREATER_THAN_OR_EQUAL', value: oneDayAgo }
-            ]
-          });
-
-          if (!recentEmails || recentEmails.length === 0) {
-            const { sendAbandonedCartEmail } = await import('../abandoned-cart-email');
-            const customerName = session.customer_details?.name || session.metadata?.customerName || null;
-            const total = (session.amount_total || 0) / 100;
-
-            const emailResult = await sendAbandonedCartEmail(customerEmail, customerName, items, total, env);
-
-            // Log to Firestore for analytics
-            await addDocument('abandonedCartEmails', {
-              email: customerEmail,
-              sessionId: session.id,
-              itemCount: items.length,
-              total,
-              sent: emailResult.success,
-              messageId: emailResult.messageId || null,
-              error: emailResult.error || null,
-              sentAt: new Date().toISOString()
-            });
-
-            log.debug('[Stripe Webhook] Abandoned cart email:', emailResult.success ? 'sent' : 'failed');
-          } else {
-            log.debug('[Stripe Webhook] Abandoned cart email rate-limited');
-          }
-        } else {
-          log.debug('[Stripe Webhook] Customer opted out of emails');
-        }
+        const sequenceId = await startAbandonedCartSequence({
+          email: customerEmail,
+          name: session.customer_details?.name || metadata.customer_displayName || metadata.customerName || null,
+          userId: metadata.customer_userId || metadata.userId || metadata.customer_id || null,
+          sessionId: session.id,
+          items,
+          total: Number(metadata.total) || (session.amount_total || 0) / 100,
+          sessionCreatedAt: session.created ? new Date(session.created * 1000).toISOString() : undefined,
+        });
+        log.debug('[Stripe Webhook] Abandoned cart sequence:', sequenceId || 'not started');
       }
-    } catch (emailErr: unknown) {
-      log.error('[Stripe Webhook] Abandoned cart email error:', emailErr);
+    } catch (sequenceErr: unknown) {
+      log.error('[Stripe Webhook] Abandoned cart sequence error:', sequenceErr);
     }
   }
 }
@@ -4,16 +4,35 @@
 import Stripe from 'stripe';
 import { getDocument, getDocumentsBatch, queryCollection, addDocument, updateDocument, atomicIncrement } from '../firebase-rest';
 import { createLogger } from '../api-utils';
+import { convertToSettlement, fromMinorUnits, normaliseCurrency, SETTLEMENT_CURRENCY } from '../currency';
+import { postDisputeClosed, postDisputeOpened, postDisputeRecovery, postPayoutToJournal } from '../journal';
+import type { SellerKind } from '../journal';
+import { sendDisputeEvidence } from '../disputes';
 
 const log = createLogger('stripe-webhook-disputes');
 
+// Who a reversed transfer paid, from the metadata each payout path sets
+// (artist sales, crate sellers, merch suppliers, pending-payout retries)
+function transferPayee(metadata: Record<string, string> | null | undefined): { sellerId: string; sellerKind: SellerKind } | null {
+  if (!metadata) return null;
+  if (metadata.artistId) return { sellerId: metadata.artistId, sellerKind: 'artist' };
+  if (metadata.supplierId) return { sellerId: metadata.supplierId, sellerKind: 'supplier' };
+  if (metadata.sellerId) return { sellerId: metadata.sellerId, sellerKind: 'crate_seller' };
+  if (metadata.entityId) {
+    const kind = metadata.entityType === 'supplier' ? 'supplier' : metadata.entityType === 'artist' ? 'artist' : 'crate_seller';
+    return { sellerId: metadata.entityId, sellerKind: kind };
+  }
+  return null;
+}
+
 // Handle dispute created - reverse transfers to recover funds from artists
-export async function handleDisputeCreated(dispute: Record<string, unknown>, stripeSecretKey: string) {
+export async function handleDisputeCreated(dispute: Record<string, unknown>, stripeSecretKey: string, env?: CloudflareEnv) {
   const stripe = new Stripe(stripeSecretKey, { apiVersion: '2024-12-18.acacia' });
 
   try {
     const chargeId = typeof dispute.charge === 'string' ? dispute.charge : dispute.charge?.id;
-    const disputeAmount = dispute.amount / 100; // Convert from cents to GBP
+    // In the currency the card was charged in (EUR/USD for non-GBP checkouts)
+    const disputeAmount = fromMinorUnits(dispute.amount, dispute.currency || 'gbp');
 
     // Process dispute for charge
 
@@ -36,6 +55,12 @@ export async function handleDisputeCreated(dispute: Record<string, unknown>, str
       order = orders.length > 0 ? orders[0] : null;
     }
 
+    // The journal is kept in GBP: non-GBP charges convert at the order's rate
+    const settlementAmount = normaliseCurrency(dispute.currency) === SETTLEMENT_CURRENCY
+      ? disputeAmount
+      : convertToSettlement(disputeAmount, Number(order?.fxRate) || 1);
+    await postDisputeOpened(env?.DB, { disputeId: String(dispute.id), orderId: (order?.id as string) || null, amount: settlementAmount });
+
     // Find related transfers by transfer_group (orderId)
     const transferGroup = charge.transfer_group || order?.id;
     let transfersReversed: Record<string, unknown>[] = [];
@@ -73,17 +98,31 @@ export async function handleDisputeCreated(dispute: Record<string, unknown>, str
             }
           });
 
-          const reversedAmount = reversal.amount / 100;
+          // Transfers to connected accounts are always made in GBP
+          const reversedAmount = fromMinorUnits(reversal.amount, reversal.currency || 'gbp');
           totalRecovered += reversedAmount;
+          const payee = transferPayee(transfer.metadata);
 
           transfersReversed.push({
             transferId: transfer.id,
             reversalId: reversal.id,
             amount: reversedAmount,
             artistId: transfer.metadata?.artistId,
-            artistName: transfer.metadata?.artistName
+            artistName: transfer.metadata?.artistName,
+            sellerId: payee?.sellerId || null,
+            sellerKind: payee?.sellerKind || null
           });
 
+          if (payee) {
+            await postDisputeRecovery(env?.DB, {
+              disputeId: String(dispute.id),
+              reversalId: reversal.id,
+              ...payee,
+              amount: reversedAmount,
+              orderId: ((order?.id || transferGroup) as string) || null,
+            });
+          }
+
           // Transfer reversed
 
           // Update the payout record
@@ -123,13 +162,14 @@ export async function handleDisputeCreated(dispute: Record<string, unknown>, str
     }
 
     // Create dispute record in Firestore
-    await addDocument('disputes', {
+    const disputeRef = await addDocument('disputes', {
       stripeDisputeId: dispute.id,
       stripeChargeId: chargeId,
       stripePaymentIntentId: paymentIntentId || null,
       orderId: order?.id || transferGroup || null,
       orderNumber: order?.orderNumber || null,
       amount: disputeAmount,
+      settlementAmount,
       currency: dispute.currency || 'gbp',
       reason: dispute.reason,
       status: 'open',
@@ -144,6 +184,24 @@ export async function handleDisputeCreated(dispute: Record<string, unknown>, str
 
     // Dispute recorded and transfers reversed
 
+    // Stage an evidence packet on the dispute for an admin to review and
+    // submit from /admin/disputes
+    if (env) {
+      try {
+        await sendDisputeEvidence(env as unknown as Record<string, unknown>, {
+          id: disputeRef.id,
+          stripeDisputeId: String(dispute.id),
+          stripeChargeId: chargeId,
+          orderId: ((order?.id || transferGroup) as string) || null,
+          reason: dispute.reason as string,
+          amount: disputeAmount,
+          currency: (dispute.currency as string) || 'gbp',
+        }, { submit: false });
+      } catch (evidenceError: unknown) {
+        log.error('[Stripe Webhook] Failed to stage dispute evidence:', evidenceError instanceof Error ? evidenceError.message : evidenceError);
+      }
+    }
+
   } catch (error: unknown) {
     const message = error instanceof Error ? error.message : String(error);
     log.error('[Stripe Webhook] Error handling dispute:', message);
@@ -151,7 +209,7 @@ export async function handleDisputeCreated(dispute: Record<string, unknown>, str
     await addDocument('disputes', {
       stripeDisputeId: dispute.id,
       stripeChargeId: typeof dispute.charge === 'string' ? dispute.charge : dispute.charge?.id,
-      amount: dispute.amount / 100,
+      amount: fromMinorUnits(dispute.amount, dispute.currency || 'gbp'),
       currency: dispute.currency || 'gbp',
       reason: dispute.reason,
       status: 'open',
@@ -163,7 +221,7 @@ export async function handleDisputeCreated(dispute: Record<string, unknown>, str
 }
 
 // Handle dispute closed - update status and track outcome
-export async function handleDisputeClosed(dispute: Record<string, unknown>, stripeSecretKey: string) {
+export async function handleDisputeClosed(dispute: Record<string, unknown>, stripeSecretKey: string, env?: CloudflareEnv) {
   try {
     // Find the dispute record
     const disputes = await queryCollection('disputes', {
@@ -270,6 +328,15 @@ export async function handleDisputeClosed(dispute: Record<string, unknown>, stri
             completedAt: new Date().toISOString()
           });
 
+          await postPayoutToJournal(env?.DB, {
+            payoutId: transfer.id,
+            sellerId: reversedTransfer.artistId as string,
+            sellerKind: 'artist',
+            amount: Number(reversedTransfer.amount) || 0,
+            method: 'stripe',
+            orderId: disputeRecord?.orderId as string,
+          });
+
           // Restore artist's earnings atomically
           await atomicIncrement('artists', reversedTransfer.artistId, {
             totalEarnings: reversedTransfer.amount,
@@ -306,6 +373,17 @@ export async function handleDisputeClosed(dispute: Record<string, unknown>, stri
       netImpact = 0; // We recovered the funds and paid artists
     }
 
+    const reversed = (disputeRecord?.transfersReversed || []) as Array<{ sellerId?: string | null; sellerKind?: SellerKind | null; amount: number }>;
+    await postDisputeClosed(env?.DB, {
+      disputeId: String(dispute.id),
+      orderId: (disputeRecord?.orderId as string) || null,
+      amount: Number(disputeRecord?.settlementAmount ?? disputeRecord?.amount) || 0,
+      outcome,
+      recovered: reversed
+        .filter(t => t.sellerId)
+        .map(t => ({ sellerId: t.sellerId as string, sellerKind: t.sellerKind || 'artist', amount: t.amount })),
+    });
+
     await updateDocument('disputes', disputeRecord.id, {
       status: outcome === 'won' ? 'won' : 'lost',
       outcome: outcome,
@@ -6,6 +6,10 @@ import { formatPrice } from '../format-utils';
 import { createLogger, fetchWithTimeout } from '../api-utils';
 import { logError } from '../error-logger';
 import { attemptInstantArtistTransfer } from '../order/seller-payments/instant-transfer';
+import { applyPayoutClawbacks } from '../order/seller-payments/clawbacks';
+import { recoupAdvances } from '../advances';
+import { resolveSplitSheet } from '../split-sheets';
+import { SCHEDULED_STATUS, usesPayoutSchedule } from '../payout-schedule';
 
 const log = createLogger('stripe-webhook-payments');
 
@@ -48,6 +52,8 @@ export async function fetchActualStripeFee(paymentIntentId: string, stripeSecret
     );
     if (!r.ok) return null;
     const pi = await r.json() as { latest_charge?: { balance_transaction?: { fee?: number } } };
+    // Balance transactions are in the account's settlement currency (GBP), so
+    // this is already GBP even when the buyer paid in EUR/USD
     const fee = pi?.latest_charge?.balance_transaction?.fee;
     return typeof fee === 'number' ? fee / 100 : null;
   } catch (e: unknown) {
@@ -56,6 +62,31 @@ export async function fetchActualStripeFee(paymentIntentId: string, stripeSecret
   }
 }
 
+// The card behind a payment: Stripe's fingerprint (the same card number
+// gives the same fingerprint across customers) and issuing country, for
+// fraud scoring. Nulls if unavailable.
+export async function fetchStripeCardDetails(
+  paymentIntentId: string,
+  stripeSecretKey: string
+): Promise<{ fingerprint: string | null; country: string | null }> {
+  try {
+    const r = await fetchWithTimeout(
+      `https://api.stripe.com/v1/payment_intents/${paymentIntentId}?expand[]=latest_charge`,
+      { headers: { Authorization: `Bearer ${stripeSecretKey}` } },
+      10000
+    );
+    if (!r.ok) return { fingerprint: null, country: null };
+    const pi = await r.json() as {
+      latest_charge?: { payment_method_details?: { card?: { fingerprint?: string | null; country?: string | null } } };
+    };
+    const card = pi?.latest_charge?.payment_method_details?.card;
+    return { fingerprint: card?.fingerprint || null, country: card?.country || null };
+  } catch (e: unknown) {
+    log.warn('Could not fetch card details:', e instanceof Error ? e.message : e);
+    return { fingerprint: null, country: null };
+  }
+}
+
 export function getCountryName(code: string): string {
   const countryMap: { [key: string]: string } = {
     'GB': 'United Kingdom',
@@ -97,6 +128,8 @@ export async function processArtistPayments(params: {
       artistEmail: string;
       amount: number;
       shippingAmount?: number;
+      // Item share per release, for recouping release advances
+      earnings: Record<string, number>;
       items: string[];
     }> = {};
 
@@ -105,21 +138,6 @@ export async function processArtistPayments(params: {
     // Cache for artist lookups
     const artistCache: Record<string, Record<string, unknown>> = {};
 
-    // payoutSplits: when a release defines [{artistId, percentage}] summing to
-    // 100, the artist share is fanned across recipients (split-ownership EPs).
-    const getSplits = (release: Record<string, unknown> | undefined): Array<{ artistId: string; percentage: number }> | null => {
-      const raw = (release as { payoutSplits?: unknown } | undefined)?.payoutSplits;
-      if (!Array.isArray(raw) || raw.length === 0) return null;
-      const cleaned = raw
-        .map((s) => s as { artistId?: unknown; percentage?: unknown })
-        .filter((s) => typeof s.artistId === 'string' && typeof s.percentage === 'number' && s.percentage > 0)
-        .map((s) => ({ artistId: s.artistId as string, percentage: s.percentage as number }));
-      if (cleaned.length === 0) return null;
-      const total = cleaned.reduce((sum, s) => sum + s.percentage, 0);
-      if (Math.abs(total - 100) > 0.01) return null; // malformed → single-artist fallback
-      return cleaned;
-    };
-
     for (const item of items) {
       // Skip merch items - they go to suppliers, not artists
       if (item.type === 'merch') continue;
@@ -154,8 +172,8 @@ export async function processArtistPayments(params: {
       const processingFeePerSeller = totalProcessingFee / totalItemCount;
       const artistShare = itemTotal - freshWaxFee - processingFeePerSeller;
 
-      // Fan the share across payoutSplits recipients, else the primary artist.
-      const splits = getSplits(release);
+      // Fan the share across the split sheet's payees, else the primary artist.
+      const splits = resolveSplitSheet(release, item.type === 'track' ? item.trackId : undefined);
       const recipients = splits
         ? splits.map((s) => ({ artistId: s.artistId, share: artistShare * (s.percentage / 100) }))
         : (() => {
@@ -184,9 +202,12 @@ export async function processArtistPayments(params: {
             artistName: artist?.artistName || release.artistName || release.artist || 'Unknown Artist',
             artistEmail: artist?.email || release.artistEmail || '',
             amount: 0,
+            earnings: {},
             items: []
           };
         }
+        const earnings = artistPayments[recipient.artistId]!.earnings;
+        earnings[releaseId as string] = (earnings[releaseId as string] || 0) + recipient.share;
         artistPayments[recipient.artistId].amount += recipient.share;
         artistPayments[recipient.artistId].items.push(itemLabel);
       }
@@ -206,21 +227,41 @@ export async function processArtistPayments(params: {
 
     for (const artistId of Object.keys(artistPayments)) {
       const payment = artistPayments[artistId];
-      if (payment.amount <= 0) continue;
+      if (!payment || payment.amount <= 0) continue;
 
       const itemAmount = payment.amount - (payment.shippingAmount || 0);
+      // Refunds against payouts this artist was already sent come off first
+      const { amount: afterClawbacks, clawedBack } = await applyPayoutClawbacks(payment.artistId, payment.amount);
+      if (afterClawbacks <= 0) continue;
+
+      // Then unrecouped advances, from the item share only — postage is
+      // always passed on (lib/advances.ts)
+      const { recouped: advanceRecouped } = await recoupAdvances(env?.DB, {
+        artistId: payment.artistId,
+        orderId,
+        earnings: payment.earnings,
+        limit: Math.min(itemAmount, afterClawbacks),
+      });
+      const amount = afterClawbacks - advanceRecouped;
+      if (amount <= 0) continue;
+
+      // Artists on a weekly / monthly payout schedule accrue the sale for
+      // cron/scheduled-payouts instead (lib/payout-schedule.ts).
+      const scheduled = usesPayoutSchedule(artistCache[artistId]);
 
       // Artists with an ACTIVE Stripe Connect account are paid at sale time.
       // On any failure this returns false and we fall through to the normal
       // pending payout, which the activation hook / manual flow picks up.
-      const transferred = await attemptInstantArtistTransfer({
+      const transferred = !scheduled && await attemptInstantArtistTransfer({
         artist: artistCache[artistId] ?? null,
         artistId: payment.artistId,
         artistName: payment.artistName,
         artistEmail: payment.artistEmail,
-        amount: payment.amount,
+        amount,
         itemAmount,
         shippingAmount: payment.shippingAmount || 0,
+        clawbackDeducted: clawedBack,
+        advanceRecouped,
         orderId,
         orderNumber,
         customerPaymentMethod: 'stripe',
@@ -236,11 +277,13 @@ export async function processArtistPayments(params: {
         artistEmail: payment.artistEmail,
         orderId,
         orderNumber,
-        amount: payment.amount,
+        amount,
         itemAmount: itemAmount,
         shippingAmount: payment.shippingAmount || 0,
+        clawbackDeducted: clawedBack,
+        ...(advanceRecouped > 0 ? { advanceRecouped } : {}),
         currency: 'gbp',
-        status: 'pending',
+        status: scheduled ? SCHEDULED_STATUS : 'pending',
         customerPaymentMethod: 'stripe',
         createdAt: new Date().toISOString(),
         updatedAt: new Date().toISOString()
@@ -249,7 +292,7 @@ export async function processArtistPayments(params: {
       // Update artist's pending balance atomically
       try {
         await atomicIncrement('artists', payment.artistId, {
-          pendingBalance: payment.amount,
+          pendingBalance: amount,
         });
         await updateDocument('artists', payment.artistId, {
           updatedAt: new Date().toISOString()
@@ -9,11 +9,15 @@ import { logStripeEvent } from '../webhook-logger';
 import { createGiftCardAfterPayment } from '../giftcard';
 import { recordMultiSellerSale } from '../sales-ledger';
 import { fetchWithTimeout, createLogger, errorResponse } from '../api-utils';
-import { processArtistPayments, processSupplierPayments, getCountryName, fetchActualStripeFee } from './payments';
+import { processArtistPayments, processSupplierPayments, getCountryName, fetchActualStripeFee, fetchStripeCardDetails } from './payments';
 import { processMerchSupplierPayments } from '../order/seller-payments';
 import { processVinylCrateSellerPayments } from './vinyl-crate-payments';
 import { enrichItemsWithSellerInfo } from './seller-enrichment';
 import { deductAppliedCredit } from './credit-deduction';
+import { stripeSessionAmounts } from '../order/currency';
+import { discountFromMetadata } from '../order/discounts';
+import { stripeVatContext } from '../order/vat';
+import { holdSellerPayouts } from '../fraud';
 
 const log = createLogger('stripe-webhook-product-order');
 
@@ -279,6 +283,17 @@ export async function handleProductOrder(
     }
   }
 
+  // Buyer may have paid in EUR/USD — orders, ledger and payouts stay in GBP
+  const { amountPaid, currency: presentmentCurrency, fxRate, settlementTotal } = stripeSessionAmounts(session);
+
+  // VAT follows the billing address / tax ID collected by Stripe Checkout
+  const vatContext = stripeVatContext(session, shipping?.country);
+
+  // The card's fingerprint and country feed the fraud score
+  const card = session.payment_intent && stripeSecretKey
+    ? await fetchStripeCardDetails(session.payment_intent as string, stripeSecretKey)
+    : { fingerprint: null, country: null };
+
   // Create order using shared utility
   const result = await createOrder({
     orderData: {
@@ -292,16 +307,29 @@ export async function handleProductOrder(
       shipping,
       items,
       totals: {
-        subtotal: parseFloat(metadata.subtotal) || (session.amount_total! / 100),
+        subtotal: parseFloat(metadata.subtotal) || settlementTotal,
         shipping: parseFloat(metadata.shipping) || 0,
         serviceFees: parseFloat(metadata.serviceFees) || 0,
-        total: session.amount_total! / 100,
+        total: settlementTotal,
         appliedCredit: parseFloat(metadata.appliedCredit) || 0,
-        amountPaid: session.amount_total! / 100
+        amountPaid: settlementTotal
       },
+      currency: presentmentCurrency,
+      fxRate,
+      presentmentTotal: amountPaid,
+      discount: discountFromMetadata(metadata),
+      vat: vatContext,
       hasPhysicalItems: metadata.hasPhysicalItems === 'true',
       paymentMethod: 'stripe',
       paymentIntentId: session.payment_intent,
+      checkout: {
+        ip: metadata.client_ip || null,
+        userAgent: metadata.user_agent || null,
+        sessionId: session.id || null,
+        cardFingerprint: card.fingerprint,
+        cardCountry: card.country,
+        billingCountry: session.customer_details?.address?.country || null
+      },
       ...(stockIssue && { stockIssue: true, stockIssueNote: 'Stock was unavailable when payment completed. Requires admin review for potential refund.' })
     },
     env
@@ -393,7 +421,7 @@ export async function handleProductOrder(
     const freshWaxFee = parseFloat(metadata.freshWaxFee) || 0;
     // Actual Stripe fee when available, else estimate from service fees
     const stripeFee = actualStripeFee
-      ?? (serviceFees > 0 ? (serviceFees - freshWaxFee) : ((session.amount_total! / 100) * 0.014 + 0.20));
+      ?? (serviceFees > 0 ? (serviceFees - freshWaxFee) : (settlementTotal * 0.014 + 0.20));
 
     // Enrich items with seller info from release/product lookup
     const enrichedItems = await enrichItemsWithSellerInfo(items);
@@ -406,7 +434,7 @@ export async function handleProductOrder(
       customerId: metadata.customer_userId || null,
       customerEmail: metadata.customer_email,
       customerName: metadata.customer_displayName || metadata.customer_firstName || null,
-      grossTotal: session.amount_total! / 100,
+      grossTotal: settlementTotal,
       shipping: shippingAmount,
       // Same breakdown the payout uses, so the ledger's artistPayout matches
       // what the artist is actually paid instead of under-stating it by the
@@ -416,6 +444,9 @@ export async function handleProductOrder(
       freshWaxFee,
       paymentMethod: 'stripe',
       paymentId: session.payment_intent as string,
+      presentmentCurrency,
+      fxRate,
+      vat: vatContext,
       hasPhysical: metadata.hasPhysicalItems === 'true',
       hasDigital: enrichedItems.some((i: Record<string, unknown>) => i.type === 'digital' || i.type === 'release' || i.type === 'track'),
       items: enrichedItems,
@@ -428,7 +459,19 @@ export async function handleProductOrder(
   }
 
   // Process artist payments via Stripe Connect
-  if (result.orderId && stripeSecretKey) {
+  if (result.orderId && stripeSecretKey && result.held) {
+    // Held for fraud review — paid out when an admin approves the order
+    await holdSellerPayouts(result.orderId, {
+      flow: 'stripe',
+      totalItemCount: items.length,
+      orderSubtotal: items.reduce((sum: number, item: Record<string, unknown>) =>
+        sum + (((item.price as number) || 0) * ((item.quantity as number) || 1)), 0),
+      actualProcessingFee: actualStripeFee,
+      paymentMethod: 'stripe',
+      logPrefix: '[Stripe Webhook]',
+      artistShippingBreakdown: artistShippingBreakdown || null
+    });
+  } else if (result.orderId && stripeSecretKey) {
     // Calculate total item count for fair fee splitting across all item types
     const totalItemCount = items.length;
 
@@ -500,6 +543,7 @@ export async function handleProductOrder(
   const userId = metadata.customer_userId;
   if (appliedCredit > 0 && userId) {
     await deductAppliedCredit({
+      db: env?.DB as D1Database | undefined,
       appliedCredit,
       userId,
       orderId: result.orderId!,
@@ -510,7 +554,7 @@ export async function handleProductOrder(
   // Log successful order
   logStripeEvent(eventType, eventId, true, {
     message: `Order ${result.orderNumber} created successfully`,
-    metadata: { orderId: result.orderId, orderNumber: result.orderNumber, amount: session.amount_total! / 100 },
+    metadata: { orderId: result.orderId, orderNumber: result.orderNumber, amount: settlementTotal },
     processingTimeMs: Date.now() - startTime
   }).catch(e => log.error('[Stripe Webhook] Log error:', e)); // Don't let logging failures affect response
 
@@ -0,0 +1,140 @@
+// src/lib/stripe-webhook/record-club.ts
+// Record club subscription handlers (lib/record-club.ts). Club subscriptions
+// carry metadata.type = 'record_club' so they are routed here ahead of the
+// Plus handlers in subscriptions.ts.
+
+import Stripe from 'stripe';
+import { updateDocument } from '../firebase-rest';
+import { createLogger } from '../api-utils';
+import {
+  MEMBERS_COLLECTION,
+  clubPeriod,
+  clubHoldId,
+  fulfilClubCycle,
+  getClub,
+  getMembership,
+} from '../record-club';
+import { releaseReservation } from '../order/stock-reservation';
+import type { SubscriptionContext } from './subscriptions';
+
+const log = createLogger('stripe-webhook-record-club');
+
+export const RECORD_CLUB_TYPE = 'record_club';
+
+// Invoices name their subscription under `parent` on current API versions
+// and at the top level on older ones
+function invoiceSubscription(invoice: Stripe.Invoice): { subscriptionId: string | null; metadata: Record<string, string> } {
+  const legacy = invoice as unknown as {
+    subscription?: string | { id: string } | null;
+    subscription_details?: { metadata?: Record<string, string> | null } | null;
+  };
+  const details = invoice.parent?.subscription_details;
+  const subscription = details?.subscription ?? legacy.subscription ?? null;
+  return {
+    subscriptionId: typeof subscription === 'string' ? subscription : subscription?.id || null,
+    metadata: details?.metadata || legacy.subscription_details?.metadata || {},
+  };
+}
+
+export function isRecordClubInvoice(invoice: Stripe.Invoice): boolean {
+  return invoiceSubscription(invoice).metadata.type === RECORD_CLUB_TYPE;
+}
+
+/**
+ * Activate a membership when its subscription checkout completes. The first
+ * invoice arrives separately as invoice.payment_succeeded and ships the first
+ * period.
+ */
+export async function handleRecordClubSubscription(
+  session: Stripe.Checkout.Session,
+  _ctx: SubscriptionContext
+): Promise<{ received: true; message?: string; error?: string }> {
+  const memberId = session.metadata?.memberId;
+  const member = memberId ? await getMembership(memberId) : null;
+  if (!member) {
+    log.error('[Stripe Webhook] Record club checkout for unknown member:', memberId);
+    return { received: true, error: 'Membership not found' };
+  }
+  if (member.status !== 'incomplete') {
+    return { received: true, message: 'Membership already active' };
+  }
+
+  const subscriptionId = typeof session.subscription === 'string' ? session.subscription : session.subscription?.id || null;
+  const customerId = typeof session.customer === 'string' ? session.customer : session.customer?.id || null;
+  await updateDocument(MEMBERS_COLLECTION, member.id, {
+    status: 'active',
+    stripeSubscriptionId: subscriptionId,
+    stripeCustomerId: customerId,
+    joinedAt: new Date().toISOString(),
+    updatedAt: new Date().toISOString(),
+  });
+  log.info(`[Stripe Webhook] ${member.email} joined ${member.clubName}`);
+  return { received: true };
+}
+
+/**
+ * Each paid club invoice becomes that period's shipping order. Voided
+ * invoices (skipped or paused periods) never reach payment_succeeded.
+ */
+export async function handleRecordClubInvoice(
+  invoice: Stripe.Invoice,
+  ctx: SubscriptionContext
+): Promise<{ received: true; message?: string; error?: string; orderId?: string }> {
+  const { metadata } = invoiceSubscription(invoice);
+  const member = metadata.memberId ? await getMembership(metadata.memberId) : null;
+  const club = member ? await getClub(member.clubId) : null;
+  if (!member || !club) {
+    log.error('[Stripe Webhook] Record club invoice for unknown member/club:', metadata.memberId, metadata.clubId);
+    return { received: true, error: 'Membership not found' };
+  }
+  if ((invoice.amount_paid || 0) <= 0) {
+    return { received: true, message: 'Nothing paid' };
+  }
+
+  // The line's service period is the one being paid for in advance
+  const periodStart = invoice.lines?.data?.[0]?.period?.start || invoice.created;
+  const period = clubPeriod(club.interval, new Date(periodStart * 1000));
+  const paymentIntent = (invoice as unknown as { payment_intent?: string | { id: string } | null }).payment_intent;
+
+  const result = await fulfilClubCycle({
+    club,
+    member,
+    paid: {
+      period,
+      invoiceId: invoice.id || '',
+      paymentIntentId: typeof paymentIntent === 'string' ? paymentIntent : paymentIntent?.id || null,
+      amount: invoice.amount_paid / 100,
+    },
+    env: ctx.env as unknown as Record<string, unknown>,
+  });
+  if (result.error) {
+    // Surface as a failure so Stripe retries the event
+    throw new Error(`Record club order failed: ${result.error}`);
+  }
+  return { received: true, orderId: result.orderId, message: result.awaitingNomination ? 'Awaiting nomination' : undefined };
+}
+
+/** Subscription ended (cancelled or unpaid): stop holding copies for the member. */
+export async function handleRecordClubCancelled(
+  subscription: Stripe.Subscription
+): Promise<{ received: true; message?: string }> {
+  const memberId = subscription.metadata?.memberId;
+  const member = memberId ? await getMembership(memberId) : null;
+  if (!member) return { received: true, message: 'Membership not found' };
+
+  const club = await getClub(member.clubId);
+  if (club) {
+    for (const period of Object.keys(club.nominations || {})) {
+      if (!(member.fulfilledPeriods || []).includes(period)) {
+        await releaseReservation(clubHoldId(member.id, period));
+      }
+    }
+  }
+  await updateDocument(MEMBERS_COLLECTION, member.id, {
+    status: 'cancelled',
+    cancelledAt: new Date().toISOString(),
+    updatedAt: new Date().toISOString(),
+  });
+  log.info(`[Stripe Webhook] ${member.email} left ${member.clubName}`);
+  return { received: true };
+}
@@ -4,10 +4,57 @@
 import Stripe from 'stripe';
 import { getDocument, getDocumentsBatch, queryCollection, addDocument, updateDocument } from '../firebase-rest';
 import { createLogger } from '../api-utils';
+import { reverseAdvanceRecoupments } from '../advances';
 import { sendRefundNotificationEmail } from './emails';
 
 const log = createLogger('stripe-webhook-refund');
 
+type StripeRefund = { id: string; amount: number; created?: number; status?: string | null; metadata?: Record<string, string> | null };
+
+// The charge's refunds, oldest first. Webhook payloads may carry the list;
+// otherwise (or when it is truncated) it is fetched
+async function chargeRefunds(stripe: Stripe, charge: Record<string, unknown>): Promise<StripeRefund[]> {
+  const embedded = charge.refunds as { data?: StripeRefund[]; has_more?: boolean } | undefined;
+  const refunds = Array.isArray(embedded?.data) && !embedded.has_more
+    ? embedded.data
+    : (await stripe.refunds.list({ charge: charge.id as string, limit: 100 })).data as StripeRefund[];
+  return [...refunds].sort((a, b) => (a.created || 0) - (b.created || 0));
+}
+
+// Unpaid payouts for a refunded order: cancelled on a full refund, reduced by
+// the refunded share on a partial one
+async function settlePendingPayouts(orderId: string, isFullRefund: boolean, refundShare: number) {
+  const pendingPayouts = await queryCollection('pendingPayouts', {
+    filters: [
+      { field: 'orderId', op: 'EQUAL', value: orderId },
+      { field: 'status', op: 'IN', value: ['awaiting_connect', 'retry_pending', 'scheduled'] }
+    ],
+    limit: 50
+  });
+
+  for (const pending of pendingPayouts) {
+    if (isFullRefund) {
+      // Full refund - cancel entirely
+      await updateDocument('pendingPayouts', pending.id, {
+        status: 'cancelled',
+        cancelledReason: 'order_refunded',
+        updatedAt: new Date().toISOString()
+      });
+    } else {
+      // Partial refund - reduce amount proportionally
+      const reducedAmount = pending.amount * (1 - refundShare);
+      await updateDocument('pendingPayouts', pending.id, {
+        amount: Math.round(reducedAmount * 100) / 100,
+        originalAmount: pending.amount,
+        reducedByRefund: true,
+        refundPercentage: refundShare,
+        updatedAt: new Date().toISOString()
+      });
+    }
+  }
+  return pendingPayouts;
+}
+
 // Handle refund - reverse artist transfers proportionally
 export async function handleRefund(charge: Record<string, unknown>, stripeSecretKey: string, env: CloudflareEnv) {
   const stripe = new Stripe(stripeSecretKey, { apiVersion: '2024-12-18.acacia' });
@@ -42,30 +89,62 @@ export async function handleRefund(charge: Record<string, unknown>, stripeSecret
     const refundPercentage = refundedAmount / totalAmount;
     const isFullRefund = refundPercentage >= 0.99; // Allow for rounding
 
-    // Process refund for order
-
-    // Check if we've already processed refunds for this charge
+    // Work out which of the charge's refunds are new. Each one is settled
+    // once, keyed by its Stripe refund id: refunds recorded here before carry
+    // their ids (stripeRefundIds), and a line refund made from the admin
+    // panel has already restocked, clawed back payouts and reversed
+    // recoupments in settleLineRefund, so it is skipped here
+    const refunds = await chargeRefunds(stripe, charge);
     const existingRefunds = await queryCollection('refunds', {
       filters: [{ field: 'stripeChargeId', op: 'EQUAL', value: charge.id }],
-      limit: 1
+      limit: 100
     });
-
-    // Calculate how much we've already refunded
-    let previouslyRefunded = 0;
-    if (existingRefunds.length > 0) {
-      previouslyRefunded = existingRefunds.reduce((sum: number, r: Record<string, unknown>) => sum + ((r.amountRefunded as number) || 0), 0);
+    const settled = new Set<string>();
+    let legacyRefunded = 0;
+    for (const record of existingRefunds) {
+      if (Array.isArray(record.stripeRefundIds)) {
+        for (const id of record.stripeRefundIds) settled.add(String(id));
+      } else if (record.stripeRefundId) {
+        if (record.payoutsSettled) settled.add(String(record.stripeRefundId));
+      } else {
+        // Recorded before refunds were tracked by id: amountRefunded is the
+        // charge's running total at the time
+        legacyRefunded = Math.max(legacyRefunded, (record.amountRefunded as number) || 0);
+      }
     }
 
-    // Calculate the new refund amount (incremental)
-    const newRefundAmount = refundedAmount - previouslyRefunded;
+    let legacyCovered = Math.round(legacyRefunded * 100);
+    const newRefunds: StripeRefund[] = [];
+    for (const refund of refunds) {
+      if (refund.status === 'failed' || refund.status === 'canceled') continue;
+      if (legacyCovered >= refund.amount) {
+        legacyCovered -= refund.amount;
+        continue;
+      }
+      if (settled.has(refund.id) || refund.metadata?.payoutsSettled === 'true') continue;
+      newRefunds.push(refund);
+    }
 
+    const newRefundAmount = newRefunds.reduce((sum, refund) => sum + refund.amount, 0) / 100;
     if (newRefundAmount <= 0) {
-      // No new refund amount to process
+      // Nothing new to settle
       return;
     }
 
     const newRefundPercentage = newRefundAmount / totalAmount;
 
+    // Earnings the sale recouped against advances go back on the advance in
+    // the same proportion; they were never in a payout to reverse. Keyed by
+    // the Stripe refund id, as settleLineRefund keys an admin refund, so a
+    // refund is reversed once whichever path sees it first
+    for (const refund of newRefunds) {
+      await reverseAdvanceRecoupments(env?.DB, {
+        orderId: String(orderId),
+        refundId: refund.id,
+        shares: refund.amount / Number(charge.amount),
+      });
+    }
+
     // Refund amount calculated: newRefundAmount GBP
 
     // Find all completed payouts for this order
@@ -80,24 +159,8 @@ export async function handleRefund(charge: Record<string, unknown>, stripeSecret
     if (payouts.length === 0) {
       // No completed payouts found - check pending
 
-      // Check for pending payouts and cancel them
-      const pendingPayouts = await queryCollection('pendingPayouts', {
-        filters: [
-          { field: 'orderId', op: 'EQUAL', value: orderId },
-          { field: 'status', op: 'IN', value: ['awaiting_connect', 'retry_pending'] }
-        ],
-        limit: 50
-      });
-
-      for (const pending of pendingPayouts) {
-        await updateDocument('pendingPayouts', pending.id, {
-          status: 'cancelled',
-          cancelledReason: 'order_refunded',
-          refundPercentage: refundPercentage,
-          updatedAt: new Date().toISOString()
-        });
-        // Cancelled pending payout
-      }
+      // Cancel pending payouts, or reduce them on a partial refund
+      const pendingPayouts = await settlePendingPayouts(String(orderId), isFullRefund, newRefundPercentage);
 
       // Record the refund even without transfers to reverse
       await addDocument('refunds', {
@@ -109,8 +172,10 @@ export async function handleRefund(charge: Record<string, unknown>, stripeSecret
         amountRefunded: refundedAmount,
         refundPercentage: refundPercentage,
         isFullRefund: isFullRefund,
+        stripeRefundIds: newRefunds.map(refund => refund.id),
+        newRefundAmount: newRefundAmount,
         transfersReversed: [],
-        pendingPayoutsCancelled: pendingPayouts.length,
+        pendingPayoutsAffected: pendingPayouts.length,
         createdAt: new Date().toISOString()
       });
 
@@ -220,34 +285,7 @@ export async function handleRefund(charge: Record<string, unknown>, stripeSecret
     }
 
     // Also cancel any pending payouts
-    const pendingPayouts = await queryCollection('pendingPayouts', {
-      filters: [
-        { field: 'orderId', op: 'EQUAL', value: orderId },
-        { field: 'status', op: 'IN', value: ['awaiting_connect', 'retry_pending'] }
-      ],
-      limit: 50
-    });
-
-    for (const pending of pendingPayouts) {
-      if (isFullRefund) {
-        // Full refund - cancel entirely
-        await updateDocument('pendingPayouts', pending.id, {
-          status: 'cancelled',
-          cancelledReason: 'order_refunded',
-          updatedAt: new Date().toISOString()
-        });
-      } else {
-        // Partial refund - reduce amount proportionally
-        const reducedAmount = pending.amount * (1 - newRefundPercentage);
-        await updateDocument('pendingPayouts', pending.id, {
-          amount: Math.round(reducedAmount * 100) / 100,
-          originalAmount: pending.amount,
-          reducedByRefund: true,
-          refundPercentage: newRefundPercentage,
-          updatedAt: new Date().toISOString()
-        });
-      }
-    }
+    const pendingPayouts = await settlePendingPayouts(String(orderId), isFullRefund, newRefundPercentage);
 
     // Create refund record
     await addDocument('refunds', {
@@ -257,6 +295,7 @@ export async function handleRefund(charge: Record<string, unknown>, stripeSecret
       orderNumber: order.orderNumber || '',
       totalAmount: totalAmount,
       amountRefunded: refundedAmount,
+      stripeRefundIds: newRefunds.map(refund => refund.id),
       newRefundAmount: newRefundAmount,
       refundPercentage: refundPercentage,
       isFullRefund: isFullRefund,
@@ -3,12 +3,15 @@
 
 import { getDocument } from '../firebase-rest';
 import { createLogger } from '../api-utils';
+import { resolveSplitSheet } from '../split-sheets';
+import type { SplitShare } from '../split-sheets';
 
 const log = createLogger('stripe-webhook-seller-enrichment');
 
 /**
  * Enrich order items with seller info (submitterId, submitterEmail, artistName)
- * by looking up releases and merch products in Firestore.
+ * by looking up releases and merch products in Firestore. Release lines with
+ * a split sheet also carry `payoutSplits`, which the ledger books per payee.
  * Uses Promise.allSettled so a single failed enrichment doesn't block the sales ledger.
  */
 export async function enrichItemsWithSellerInfo(
@@ -19,6 +22,7 @@ export async function enrichItemsWithSellerInfo(
     let submitterId = null;
     let submitterEmail = null;
     let artistName = item.artist || item.artistName || null;
+    let payoutSplits: SplitShare[] | null = null;
 
     // Look up release to get submitter info
     if (releaseId && (item.type === 'digital' || item.type === 'release' || item.type === 'track' || item.releaseId)) {
@@ -29,6 +33,7 @@ export async function enrichItemsWithSellerInfo(
           // Email field - release stores it as 'email', not 'submitterEmail'
           submitterEmail = release.email || release.submitterEmail || release.metadata?.email || null;
           artistName = release.artistName || release.artist || artistName;
+          payoutSplits = resolveSplitSheet(release, item.type === 'track' ? item.trackId : undefined);
         }
       } catch (lookupErr: unknown) {
         log.error(`[seller-enrichment] Failed to lookup release ${releaseId}:`, lookupErr);
@@ -85,7 +90,8 @@ export async function enrichItemsWithSellerInfo(
       ...item,
       submitterId,
       submitterEmail,
-      artistName
+      artistName,
+      ...(payoutSplits ? { payoutSplits } : {})
     };
   }));
 
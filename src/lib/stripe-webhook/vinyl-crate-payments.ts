@@ -5,6 +5,7 @@ import Stripe from 'stripe';
 import { getDocument, addDocument, updateDocument } from '../firebase-rest';
 import { getPayPalConfig } from '../paypal-payouts';
 import { createLogger } from '../api-utils';
+import { SCHEDULED_STATUS, usesPayoutSchedule } from '../payout-schedule';
 
 const log = createLogger('stripe-webhook-vinyl-crate');
 
@@ -143,8 +144,9 @@ export async function processVinylCrateSellerPayments(params: {
       // Process seller payment
 
       // NOTE: Automatic payouts disabled - all crate seller payouts are manual for now
-      // Always create pending payout for manual processing
-      // Create pending payout for crate seller
+      // Always create pending payout for manual processing, unless the seller
+      // is on a payout schedule: then cron/scheduled-payouts batches it
+      // (lib/payout-schedule.ts)
 
       await addDocument('pendingCrateSellerPayouts', {
         sellerId: payment.sellerId,
@@ -159,7 +161,7 @@ export async function processVinylCrateSellerPayments(params: {
         shippingAmount: payment.shippingAmount,
         itemAmount: Math.round((payment.amount - payment.shippingAmount) * 100) / 100,
         currency: 'gbp',
-        status: 'pending',
+        status: usesPayoutSchedule(sellerCache[sellerId]) ? SCHEDULED_STATUS : 'pending',
         items: payment.items,
         createdAt: new Date().toISOString(),
         updatedAt: new Date().toISOString()
@@ -0,0 +1,434 @@
+// src/lib/trade.ts
+// Wholesale / trade ordering for record shops.
+//
+// Shops with the tradeBuyer role (approved through roles/manage, which opens
+// their `tradeAccounts` doc) order vinyl pressings at trade prices. Each
+// release carries its own `tradePricing`: a base unit price, a minimum order
+// and per-quantity breaks set by the label. Trade orders are invoiced on
+// account ("net 30") — they skip Stripe, hold stock through the normal
+// reservation, and go through createOrder so the vinyl fulfilment emails
+// and VAT invoice come out as for any order. Ledger entries and artist
+// payouts wait until the invoice is marked paid.
+
+import {
+  getDocument, getDocumentsBatch, queryCollection, updateDocument, updateDocumentConditional, atomicIncrement, clearCache,
+} from './firebase-rest';
+import { createLogger } from './api-utils';
+import { reserveStock, releaseReservation, convertReservation } from './order/stock-reservation';
+import { buildVatContext } from './order/vat';
+import type { CartItem } from './order/types';
+
+const log = createLogger('trade');
+
+// Attempts at a conditional write before giving up on a busy doc
+const MAX_RETRIES = 3;
+
+export const TRADE_ACCOUNTS_COLLECTION = 'tradeAccounts';
+
+// Starting terms for a new trade account; admins adjust them per shop.
+// The freshwax-api worker's role approval opens accounts with the same values.
+export const DEFAULT_TRADE_TERMS = {
+  creditLimit: 500,   // GBP outstanding at any one time
+  termsDays: 30,
+  shippingRate: 0,    // GBP per order
+};
+
+export interface TradePriceBreak {
+  minQty: number;
+  price: number;      // GBP per copy at this quantity and above
+}
+
+export interface TradePricing {
+  price: number;      // GBP per copy below the first break
+  minQty: number;     // smallest trade order for the release
+  breaks: TradePriceBreak[];
+}
+
+export interface TradeAddress {
+  address1: string;
+  address2?: string;
+  city: string;
+  county?: string;
+  postcode: string;
+  country: string;
+}
+
+export interface TradeAccount {
+  id: string;                  // the shop user's uid
+  userId: string;
+  shopName: string;
+  email: string;
+  vatNumber: string | null;
+  location?: string;
+  status: 'active' | 'suspended';
+  creditLimit: number;
+  termsDays: number;
+  shippingRate: number;
+  outstanding: number;         // unpaid invoice total
+  shippingAddress: TradeAddress | null;
+  approvedAt?: string;
+  approvedBy?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface TradeOrderLine {
+  releaseId: string;
+  vinylPartId?: string | null;
+  quantity: number;
+}
+
+// What a trade order carries besides the normal order fields
+export interface TradeOrderTerms {
+  accountId: string;
+  shopName: string;
+  poNumber: string | null;
+  termsDays: number;
+  dueAt: string;
+  paidAt: string | null;
+  paymentReference: string | null;
+  markedPaidBy: string | null;
+}
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+/**
+ * Tidy label-entered pricing: breaks sorted by quantity, dropping any that
+ * don't actually lower the price.
+ */
+export function normaliseTradePricing(input: TradePricing): TradePricing {
+  const breaks: TradePriceBreak[] = [];
+  let last = input.price;
+  for (const b of [...input.breaks].sort((a, b) => a.minQty - b.minQty)) {
+    if (b.price >= last) continue;
+    breaks.push({ minQty: b.minQty, price: round2(b.price) });
+    last = b.price;
+  }
+  return { price: round2(input.price), minQty: Math.max(1, input.minQty), breaks };
+}
+
+/** Unit price for `quantity` copies, or null below the release's minimum. */
+export function tradeUnitPrice(pricing: TradePricing | null | undefined, quantity: number): number | null {
+  if (!pricing || !(pricing.price > 0) || quantity < (pricing.minQty || 1)) return null;
+  let price = pricing.price;
+  for (const b of pricing.breaks || []) {
+    if (quantity >= b.minQty && b.price < price) price = b.price;
+  }
+  return price;
+}
+
+export function tradeDueDate(from: Date, termsDays: number): string {
+  return new Date(from.getTime() + termsDays * 24 * 60 * 60 * 1000).toISOString();
+}
+
+export async function getTradeAccount(userId: string): Promise<TradeAccount | null> {
+  const doc = await getDocument(TRADE_ACCOUNTS_COLLECTION, userId);
+  return doc ? ({ ...doc, id: userId } as unknown as TradeAccount) : null;
+}
+
+/** A shop's trade orders, newest first. */
+export async function getTradeOrders(accountId: string): Promise<Record<string, unknown>[]> {
+  const orders = await queryCollection('orders', {
+    filters: [{ field: 'tradeAccountId', op: 'EQUAL', value: accountId }],
+    skipCache: true,
+  });
+  return orders.sort((a, b) => String(b.createdAt).localeCompare(String(a.createdAt)));
+}
+
+export function isTradeOrderOverdue(order: Record<string, unknown>, now: Date = new Date()): boolean {
+  const trade = order.trade as TradeOrderTerms | undefined;
+  return !!trade && order.paymentStatus === 'awaiting_payment' && trade.dueAt < now.toISOString();
+}
+
+/**
+ * Price a trade basket against each release's trade pricing. Returns the
+ * order lines, or an error naming the first line that can't be ordered.
+ */
+export async function quoteTradeOrder(
+  lines: TradeOrderLine[]
+): Promise<{ items: CartItem[]; subtotal: number; error?: undefined } | { error: string }> {
+  const releases = await getDocumentsBatch('releases', [...new Set(lines.map(l => l.releaseId))]);
+  const items: CartItem[] = [];
+
+  for (const line of lines) {
+    const release = releases.get(line.releaseId);
+    const name = String(release?.releaseName || release?.title || line.releaseId);
+    if (!release) return { error: `Release ${line.releaseId} not found` };
+
+    const pricing = release.tradePricing as TradePricing | undefined;
+    if (!release.tradeEnabled || !pricing) return { error: `${name} isn't available to trade` };
+
+    const unitPrice = tradeUnitPrice(pricing, line.quantity);
+    if (unitPrice === null) return { error: `${name} has a trade minimum of ${pricing.minQty} copies` };
+
+    items.push({
+      type: 'vinyl',
+      format: 'vinyl',
+      id: line.releaseId,
+      releaseId: line.releaseId,
+      name,
+      artist: String(release.artistName || release.artist || ''),
+      artistId: (release.artistId as string) || undefined,
+      image: (release.coverArtUrl as string) || (release.artworkUrl as string) || undefined,
+      price: unitPrice,
+      quantity: line.quantity,
+      ...(line.vinylPartId ? { vinylPartId: line.vinylPartId } : {}),
+    });
+  }
+
+  const subtotal = round2(items.reduce((sum, i) => sum + (i.price || 0) * (i.quantity || 1), 0));
+  return { items, subtotal };
+}
+
+/**
+ * Place an invoice-on-account order. Checks the account's credit limit,
+ * holds the stock, then creates the order unpaid with its due date.
+ * `status` on failure is the HTTP status the endpoint should return.
+ */
+export async function placeTradeOrder(params: {
+  account: TradeAccount;
+  lines: TradeOrderLine[];
+  poNumber?: string | null;
+  env: Record<string, unknown>;
+}): Promise<{ orderId?: string; orderNumber?: string; total?: number; dueAt?: string; error?: string; status?: number }> {
+  const { account, lines, env } = params;
+
+  if (account.status !== 'active') return { error: 'Trade account is suspended', status: 403 };
+  if (!account.shippingAddress) return { error: 'Add a delivery address to your trade account first', status: 400 };
+
+  const quote = await quoteTradeOrder(lines);
+  if (quote.error !== undefined) return { error: quote.error, status: 400 };
+
+  const shipping = round2(account.shippingRate || 0);
+  const total = round2(quote.subtotal + shipping);
+  const credit = await takeTradeCredit(account.id, total);
+  if (!credit.taken) {
+    return { error: `Order total £${total.toFixed(2)} is over your remaining credit of £${Math.max(0, credit.available).toFixed(2)}`, status: 402 };
+  }
+
+  const reservationId = `trade_${crypto.randomUUID()}`;
+  const reservation = await reserveStock(quote.items, reservationId, account.userId);
+  if (!reservation.success) {
+    await atomicIncrement(TRADE_ACCOUNTS_COLLECTION, account.id, { outstanding: -total });
+    return { error: reservation.error || 'Not enough stock', status: 409 };
+  }
+
+  const now = new Date();
+  const { createOrder } = await import('./order/creation');
+  const result = await createOrder({
+    orderData: {
+      customer: { email: account.email, firstName: account.shopName, lastName: '', userId: account.userId },
+      shipping: account.shippingAddress,
+      items: quote.items,
+      totals: { subtotal: quote.subtotal, shipping, total },
+      hasPhysicalItems: true,
+      paymentMethod: 'invoice',
+      paymentStatus: 'awaiting_payment',
+      vat: buildVatContext({ shippingCountry: account.shippingAddress.country, vatNumber: account.vatNumber }),
+    },
+    env,
+  });
+  if (!result.success || !result.orderId) {
+    await releaseReservation(reservationId);
+    await atomicIncrement(TRADE_ACCOUNTS_COLLECTION, account.id, { outstanding: -total });
+    log.error(`Trade order for ${account.id} failed:`, result.error);
+    return { error: 'Order could not be created', status: 500 };
+  }
+
+  const dueAt = tradeDueDate(now, account.termsDays);
+  const trade: TradeOrderTerms = {
+    accountId: account.id,
+    shopName: account.shopName,
+    poNumber: params.poNumber || null,
+    termsDays: account.termsDays,
+    dueAt,
+    paidAt: null,
+    paymentReference: null,
+    markedPaidBy: null,
+  };
+  await updateDocument('orders', result.orderId, { tradeAccountId: account.id, trade });
+  await convertReservation(reservationId);
+
+  log.info(`Trade order ${result.orderNumber} for ${account.shopName}: £${total} due ${dueAt}`);
+  return { orderId: result.orderId, orderNumber: result.orderNumber, total, dueAt };
+}
+
+// Take `total` of an account's credit. The limit check and the new
+// outstanding are one conditional write on a fresh read, so two orders
+// placed together can't both fit into the same headroom.
+async function takeTradeCredit(
+  accountId: string,
+  total: number
+): Promise<{ taken: true } | { taken: false; available: number }> {
+  for (let attempt = 1; ; attempt++) {
+    clearCache(`doc:${TRADE_ACCOUNTS_COLLECTION}:${accountId}`);
+    const doc = await getDocument(TRADE_ACCOUNTS_COLLECTION, accountId);
+    if (!doc) return { taken: false, available: 0 };
+    const outstanding = Number(doc.outstanding) || 0;
+    const available = round2((Number(doc.creditLimit) || 0) - outstanding);
+    if (total > available) return { taken: false, available };
+
+    const update = { outstanding: round2(outstanding + total), updatedAt: new Date().toISOString() };
+    if (!doc._updateTime) {
+      await updateDocument(TRADE_ACCOUNTS_COLLECTION, accountId, update);
+      return { taken: true };
+    }
+    try {
+      await updateDocumentConditional(TRADE_ACCOUNTS_COLLECTION, accountId, update, doc._updateTime as string);
+      return { taken: true };
+    } catch (e: unknown) {
+      if (!(e instanceof Error && e.message.includes('CONFLICT')) || attempt >= MAX_RETRIES) throw e;
+    }
+  }
+}
+
+/**
+ * Record payment of a trade invoice: releases the credit and books the sale
+ * to the ledger and artist payouts, as a card payment does at checkout.
+ * Settling is a conditional write on the order, so when two admins mark the
+ * same invoice paid only one of them books the sale.
+ */
+export async function markTradeOrderPaid(
+  orderId: string,
+  payment: { adminId: string; reference?: string | null },
+  env: Record<string, unknown>
+): Promise<{ success: boolean; error?: string }> {
+  for (let attempt = 1; ; attempt++) {
+    clearCache(`doc:orders:${orderId}`);
+    const order = await getDocument('orders', orderId);
+    const trade = order?.trade as TradeOrderTerms | undefined;
+    if (!order || !trade) return { success: false, error: 'Trade order not found' };
+    if (order.paymentStatus !== 'awaiting_payment') return { success: false, error: 'Invoice is already settled' };
+
+    const now = new Date().toISOString();
+    const total = Number((order.totals as { total?: number } | undefined)?.total) || 0;
+    const update = {
+      paymentStatus: 'completed',
+      trade: { ...trade, paidAt: now, paymentReference: payment.reference || null, markedPaidBy: payment.adminId },
+      updatedAt: now,
+    };
+    try {
+      if (order._updateTime) {
+        await updateDocumentConditional('orders', orderId, update, order._updateTime as string);
+      } else {
+        await updateDocument('orders', orderId, update);
+      }
+    } catch (e: unknown) {
+      // Someone else wrote the order first: read it again, which finds it
+      // settled when that write was the other payment
+      if (e instanceof Error && e.message.includes('CONFLICT') && attempt < MAX_RETRIES) continue;
+      throw e;
+    }
+    await atomicIncrement(TRADE_ACCOUNTS_COLLECTION, trade.accountId, { outstanding: -total });
+
+    await recordTradeSale({ orderId, order, total, env });
+    log.info(`Trade invoice ${order.orderNumber} paid (${payment.reference || 'no reference'})`);
+    return { success: true };
+  }
+}
+
+/**
+ * Book the ledger for a paid trade order whose ledger write failed when it
+ * was marked paid (flagged `ledgerPending`). Called by the payout retry cron.
+ * Returns true once the order's sale is in the ledger.
+ */
+export async function retryTradeLedger(orderId: string, env: Record<string, unknown>): Promise<boolean> {
+  clearCache(`doc:orders:${orderId}`);
+  const order = await getDocument('orders', orderId);
+  if (!order?.ledgerPending) return true;
+
+  // The write may have got through before the failure was reported
+  const booked = await queryCollection('salesLedger', {
+    filters: [{ field: 'orderId', op: 'EQUAL', value: orderId }],
+    limit: 1,
+    skipCache: true,
+  });
+  const error = booked.length > 0
+    ? null
+    : await bookTradeLedger({ orderId, order, total: Number((order.totals as { total?: number } | undefined)?.total) || 0, env });
+  if (error) {
+    await updateDocument('orders', orderId, { ledgerError: error, updatedAt: new Date().toISOString() });
+    return false;
+  }
+  await updateDocument('orders', orderId, { ledgerPending: false, ledgerError: null, updatedAt: new Date().toISOString() });
+  log.info(`Trade order ${order.orderNumber} booked to the ledger on retry`);
+  return true;
+}
+
+// Ledger + artist payouts once the shop has paid. No processor fee: trade
+// invoices are settled by bank transfer. A failed ledger write leaves the
+// order flagged `ledgerPending` for the payout retry cron.
+async function recordTradeSale(params: {
+  orderId: string;
+  order: Record<string, unknown>;
+  total: number;
+  env: Record<string, unknown>;
+}): Promise<void> {
+  const { orderId, order, total, env } = params;
+  const items = (order.items || []) as Record<string, unknown>[];
+  const totals = (order.totals || {}) as { subtotal?: number; shipping?: number };
+
+  const ledgerError = await bookTradeLedger(params);
+  if (ledgerError) {
+    log.error(`Ledger write failed for trade order ${order.orderNumber}:`, ledgerError);
+    await updateDocument('orders', orderId, { ledgerPending: true, ledgerError, updatedAt: new Date().toISOString() })
+      .catch((e: unknown) => log.error('Could not flag trade order for a ledger retry:', e));
+  }
+
+  try {
+    const { processArtistPayments } = await import('./order/seller-payments');
+    await processArtistPayments({
+      orderId,
+      orderNumber: String(order.orderNumber || ''),
+      items,
+      totalItemCount: items.length,
+      orderSubtotal: totals.subtotal || total,
+      paymentMethod: 'invoice',
+      actualProcessingFee: 0,
+      stripeSecretKey: (env.STRIPE_SECRET_KEY as string) || '',
+      env,
+      logPrefix: '[trade]',
+    });
+  } catch (e: unknown) {
+    log.error('Artist payments failed for trade order:', e);
+  }
+}
+
+// Write the sale to the ledger; the error message when it wasn't written
+async function bookTradeLedger(params: {
+  orderId: string;
+  order: Record<string, unknown>;
+  total: number;
+  env: Record<string, unknown>;
+}): Promise<string | null> {
+  const { orderId, order, total, env } = params;
+  const items = (order.items || []) as Record<string, unknown>[];
+  const customer = (order.customer || {}) as { email?: string; firstName?: string; userId?: string | null };
+  const totals = (order.totals || {}) as { subtotal?: number; shipping?: number };
+
+  try {
+    const [{ enrichItemsWithSellerInfo }, { recordMultiSellerSale }] = await Promise.all([
+      import('./stripe-webhook/seller-enrichment'),
+      import('./sales-ledger'),
+    ]);
+    const enriched = await enrichItemsWithSellerInfo(items);
+    const result = await recordMultiSellerSale({
+      orderId,
+      orderNumber: String(order.orderNumber || ''),
+      customerId: customer.userId || null,
+      customerEmail: customer.email || '',
+      customerName: customer.firstName || null,
+      grossTotal: total,
+      shipping: totals.shipping || 0,
+      stripeFee: 0,
+      paymentMethod: 'invoice',
+      hasPhysical: true,
+      hasDigital: false,
+      items: enriched as Parameters<typeof recordMultiSellerSale>[0]['items'],
+      db: env.DB as Parameters<typeof recordMultiSellerSale>[0]['db'],
+    });
+    return result.success ? null : result.error || 'Ledger write failed';
+  } catch (e: unknown) {
+    return e instanceof Error ? e.message : 'Ledger write failed';
+  }
+}
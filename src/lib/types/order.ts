@@ -24,13 +24,22 @@ export interface Order extends Timestamps {
   // Pricing
   subtotal: number;
   shippingCost: number;
-  discount?: number;
+  discount?: OrderDiscount;
   total: number;
 
+  // Currency — pricing fields above are always GBP (settlement). When the
+  // buyer paid in EUR/USD, presentmentTotal is what was actually charged and
+  // fxRate the stored rate (units per £1) it was converted at.
+  currency?: string;
+  fxRate?: number;
+  presentmentTotal?: number;
+
   // Payment
   status: OrderStatus;
   paymentIntentId?: string;
   paidAt?: string;
+  // Buyer's IP / browser and Stripe session at checkout (dispute evidence)
+  checkout?: { ip: string | null; userAgent: string | null; sessionId: string | null } | null;
 
   // Shipping
   trackingNumber?: string;
@@ -42,6 +51,17 @@ export interface Order extends Timestamps {
   adminNotes?: string;
 }
 
+// Discount code redeemed on the order. Item prices are already net of it;
+// preDiscountPrice on each discounted line keeps the list price.
+export interface OrderDiscount {
+  code: string;
+  campaign: string | null;
+  type: 'percentage' | 'fixed';
+  scope: 'order' | 'release' | 'label' | 'supplier';
+  amount: number;                     // GBP taken off the subtotal
+  overCap?: boolean;                  // paid after the code's last use went to a concurrent checkout
+}
+
 export interface OrderCustomer {
   email: string;
   firstName: string;
@@ -64,6 +84,7 @@ export interface OrderItem {
   name?: string;
   quantity: number;
   price: number;
+  preDiscountPrice?: number;          // list price when a discount code lowered `price`
   artistId?: string;
   size?: string;
   color?: string;
@@ -118,7 +139,7 @@ export interface Payout extends Timestamps {
   amount: number;                     // Total amount in GBP
   itemAmount?: number;                // Amount for items only
   shippingAmount?: number;            // Amount for vinyl shipping (goes to artist)
-  currency: string;
+  currency: string;                   // Always 'GBP' — royalties settle in GBP whatever the buyer paid in
 
   // Status
   status: PayoutStatus;
@@ -180,8 +201,8 @@ export interface Dispute extends Timestamps {
   transferReversalId?: string;        // trr_xxx
 
   // Amounts
-  amount: number;                     // Disputed amount in GBP
-  currency: string;
+  amount: number;                     // Disputed amount, in `currency`
+  currency: string;                   // Currency the card was charged in (lowercase, as Stripe sends it)
   amountRecovered?: number;           // Amount recovered from artist
 
   // Dispute details
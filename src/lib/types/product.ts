@@ -41,6 +41,9 @@ export interface Release extends Timestamps {
   nyopMinPrice?: number;        // Minimum price (can be 0 for free)
   nyopSuggestedPrice?: number;  // Pre-filled suggested price (optional)
 
+  // Stamp each buyer's downloads with a traceable code (lib/release/download-watermark.ts)
+  watermarkDownloads?: boolean;
+
   // Copyright
   copyrightYear?: string;
   copyrightHolder?: string;
@@ -86,6 +89,13 @@ export interface Release extends Timestamps {
   adminNotes?: string;
 }
 
+// EBU R128 reading taken by the transcode runner
+export interface AudioLoudness {
+  integratedLufs: number;
+  truePeakDbtp: number;
+  loudnessRange: number | null;
+}
+
 export interface Track {
   trackNumber: number;
   title: string;
@@ -93,9 +103,23 @@ export interface Track {
   mp3Url?: string;
   wavUrl?: string;
   previewUrl?: string;
-  bpm?: string;
+  flacUrl?: string;
+  masterUrl?: string;            // uploaded master (WAV/AIFF/FLAC) as staged by the release-processor
+  bpm?: string;                  // as the artist entered it, or detected if left blank
   key?: string;
-  duration?: string;
+  detectedBpm?: number;          // estimated by the release-processor
+  detectedKey?: string;          // musical notation: 'Am', 'F#'
+  camelotKey?: string;           // Camelot wheel: '8A'
+  duration?: string;             // "M:SS"
+  durationSeconds?: number;
+  sampleRate?: number;
+  bitDepth?: number;
+  channels?: number;
+  transcodeStatus?: 'queued' | 'running' | 'done' | 'failed';
+  waveform?: number[];           // peaks 0-255 across the whole track
+  previewWaveform?: number[];    // peaks across the preview clip
+  waveformUrl?: string;          // every resolution, JSON in R2
+  loudness?: AudioLoudness;
   trackISRC?: string;
   featured?: string;
   remixer?: string;
@@ -128,6 +152,12 @@ export interface DjMix extends Timestamps {
   description?: string;
   shoutOuts?: string;
   duration?: number;
+  durationSeconds?: number;
+
+  // Analysis (release-processor transcode queue)
+  waveform?: number[];           // peaks 0-255 across the whole mix
+  waveformUrl?: string;
+  loudness?: AudioLoudness;
 
   // Tracklist
   tracklist?: string;
@@ -0,0 +1,412 @@
+// src/lib/wallet.ts
+// Store credit wallet.
+//
+// Each user has one store credit balance in D1 `wallets`, and every change
+// to it is a `wallet_transactions` row that is never edited afterwards:
+// credits (top-ups, gift card redemptions, refunds kept as credit, referral
+// bonuses, promotional and admin credit) and debits (checkout spends,
+// admin deductions, expiry). Ids are deterministic where the caller has a
+// natural key (order, gift card, refund), so a retry posts nothing new.
+//
+// Credit carries the expiry policy of its source (WALLET_EXPIRY_DAYS).
+// Each credit keeps what is left of it in `wallet_credits`; spends use up
+// the soonest-expiring credit first, and the expire-wallet-credits cron
+// takes whatever lapses unspent back off the balance.
+//
+// The Firestore userCredits doc held the balance and a transactions array
+// before this. A user's first wallet touch carries that balance over as an
+// opening_balance credit; afterwards userCredits.balance and
+// users.creditBalance are only a mirror, written after each change.
+
+import { createLogger } from './api-utils';
+import { getDocument, updateDocument } from './firebase-rest';
+import { JOURNAL_ACCOUNTS, postJournalEntry } from './journal';
+import {
+  d1DrawCredit, d1GetLapsedCredits, d1GetOpenCredits, d1GetWallet, d1GetWalletTransaction,
+  d1GetWalletTransactions, d1OpenWallet, d1PostWalletTransaction, d1ClaimLapsedCredit, d1RestoreCredit,
+} from './d1/wallet';
+import type { WalletCredit, WalletTransaction, WalletTransactionType } from './d1/wallet';
+import type { D1Database } from './d1/types';
+
+export type { WalletCredit, WalletTransaction, WalletTransactionType } from './d1/wallet';
+
+const log = createLogger('[wallet]');
+
+export type WalletCreditSource = Exclude<WalletTransactionType, 'spend' | 'expiry'>;
+
+// Days before credit from each source lapses (null: never). Gift card
+// emails promise the credit never expires, and top-ups and refunds are the
+// customer's own money.
+export const WALLET_EXPIRY_DAYS: Record<WalletCreditSource, number | null> = {
+  top_up: null,
+  gift_card: null,
+  refund: null,
+  referral_bonus: 90,
+  promotional: 365,
+  adjustment: null,
+  opening_balance: null,
+};
+
+export const WALLET_TYPE_LABELS: Record<WalletTransactionType, string> = {
+  top_up: 'Top-up',
+  gift_card: 'Gift card',
+  refund: 'Refund',
+  referral_bonus: 'Referral bonus',
+  promotional: 'Promotional credit',
+  adjustment: 'Adjustment',
+  opening_balance: 'Opening balance',
+  spend: 'Purchase',
+  expiry: 'Expired',
+};
+
+// How far ahead the account page warns about credit about to lapse
+export const EXPIRY_WARNING_DAYS = 30;
+
+export interface WalletResult {
+  success: boolean;
+  balance?: number;
+  transactionId?: string;
+  duplicate?: boolean;
+  error?: string;
+}
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+const newTransactionId = () => `wtx_${Date.now().toString(36)}_${Math.random().toString(36).slice(2, 8)}`;
+
+export function walletExpiryFor(source: WalletCreditSource, from: Date = new Date()): string | null {
+  const days = WALLET_EXPIRY_DAYS[source];
+  return days === null ? null : new Date(from.getTime() + days * 86_400_000).toISOString();
+}
+
+// Keep the old Firestore fields in step for the pages that still read them
+async function mirrorBalance(userId: string, balance: number): Promise<void> {
+  const now = new Date().toISOString();
+  try {
+    await Promise.all([
+      updateDocument('userCredits', userId, { userId, balance, lastUpdated: now }),
+      updateDocument('users', userId, { creditBalance: balance, creditUpdatedAt: now }),
+    ]);
+  } catch (error: unknown) {
+    log.error(`Failed to mirror wallet balance for ${userId}:`, error);
+  }
+}
+
+/**
+ * The user's balance, opening their wallet on first use with whatever was
+ * on their userCredits doc. Throws when either store can't be read or the
+ * wallet can't be opened, so a wallet is never opened without the balance
+ * it should carry over.
+ */
+async function ensureWallet(db: D1Database, userId: string): Promise<number> {
+  const wallet = await d1GetWallet(db, userId);
+  if (wallet) return wallet.balance;
+
+  const legacy = await getDocument('userCredits', userId);
+  const openingBalance = round2(Number(legacy?.balance) || 0);
+  const opened = await d1OpenWallet(db, userId, openingBalance > 0 ? {
+    id: `opening:${userId}`,
+    userId,
+    type: 'opening_balance',
+    amount: openingBalance,
+    balanceAfter: null,
+    description: 'Store credit carried over to your wallet',
+    reference: null,
+    orderId: null,
+    creditId: null,
+    expiresAt: null,
+    createdBy: null,
+  } : null);
+  if (!opened) throw new Error('Could not open wallet');
+  return (await d1GetWallet(db, userId))?.balance ?? 0;
+}
+
+async function post(db: D1Database, tx: WalletTransaction, source?: WalletCreditSource): Promise<WalletResult> {
+  try {
+    await ensureWallet(db, tx.userId);
+  } catch (error: unknown) {
+    log.error(`Could not open wallet for ${tx.userId}:`, error);
+    return { success: false, error: 'Wallet not available' };
+  }
+
+  const result = await d1PostWalletTransaction(db, tx, source);
+  if (result.posted) {
+    await mirrorBalance(tx.userId, result.balance ?? 0);
+    return { success: true, balance: result.balance, transactionId: tx.id };
+  }
+  if (result.reason === 'duplicate') {
+    const existing = await d1GetWalletTransaction(db, tx.id);
+    return { success: true, duplicate: true, balance: existing?.balanceAfter ?? undefined, transactionId: tx.id };
+  }
+  if (result.reason === 'insufficient') return { success: false, error: 'Insufficient credit balance' };
+  return { success: false, error: 'Could not update wallet' };
+}
+
+/**
+ * Add credit. `id` should identify what the credit is for (the gift card,
+ * the refund) so it can't be added twice; the expiry comes from the source.
+ */
+export async function creditWallet(db: D1Database | undefined, input: {
+  userId: string;
+  source: WalletCreditSource;
+  amount: number;
+  description: string;
+  id?: string;
+  reference?: string | null;
+  orderId?: string | null;
+  createdBy?: string | null;
+}): Promise<WalletResult> {
+  if (!db) return { success: false, error: 'Wallet not available' };
+  const amount = round2(input.amount);
+  if (!(amount > 0)) return { success: false, error: 'Amount must be positive' };
+
+  return post(db, {
+    id: input.id || newTransactionId(),
+    userId: input.userId,
+    type: input.source,
+    amount,
+    balanceAfter: null,
+    description: input.description,
+    reference: input.reference || null,
+    orderId: input.orderId || null,
+    creditId: null,
+    expiresAt: walletExpiryFor(input.source),
+    createdBy: input.createdBy || null,
+  }, input.source);
+}
+
+/**
+ * Take credit off the balance — a checkout spend, or an admin deduction.
+ * Refused outright if the balance doesn't cover it. `id` should identify
+ * the order so a replayed payment doesn't spend twice.
+ */
+export async function spendWallet(db: D1Database | undefined, input: {
+  userId: string;
+  amount: number;
+  description: string;
+  id?: string;
+  type?: 'spend' | 'adjustment';
+  reference?: string | null;
+  orderId?: string | null;
+  createdBy?: string | null;
+}): Promise<WalletResult> {
+  if (!db) return { success: false, error: 'Wallet not available' };
+  const amount = round2(input.amount);
+  if (!(amount > 0)) return { success: false, error: 'Amount must be positive' };
+
+  const result = await post(db, {
+    id: input.id || newTransactionId(),
+    userId: input.userId,
+    type: input.type || 'spend',
+    amount: -amount,
+    balanceAfter: null,
+    description: input.description,
+    reference: input.reference || null,
+    orderId: input.orderId || null,
+    creditId: null,
+    expiresAt: null,
+    createdBy: input.createdBy || null,
+  });
+  if (result.success && !result.duplicate) await drawCredits(db, input.userId, amount);
+  return result;
+}
+
+// Use up a spend from the user's credits, soonest-expiring first. A credit
+// another spend drew from meanwhile is re-read and tried again.
+async function drawCredits(db: D1Database, userId: string, amount: number): Promise<void> {
+  let left = round2(amount);
+  for (let attempt = 0; attempt < 3 && left > 0; attempt++) {
+    for (const credit of await d1GetOpenCredits(db, userId)) {
+      if (left <= 0) break;
+      const take = round2(Math.min(credit.remaining, left));
+      if (await d1DrawCredit(db, credit.id, take)) left = round2(left - take);
+    }
+  }
+  if (left > 0) log.warn(`Spend by ${userId} left £${left.toFixed(2)} not drawn from any credit`);
+}
+
+/**
+ * Admin correction by a signed amount. A deduction larger than the balance
+ * takes the balance to zero rather than failing.
+ */
+export async function adjustWallet(db: D1Database | undefined, input: {
+  userId: string;
+  amount: number;
+  description: string;
+  createdBy?: string | null;
+}): Promise<WalletResult> {
+  if (!db) return { success: false, error: 'Wallet not available' };
+  if (input.amount >= 0) {
+    return creditWallet(db, { ...input, source: 'adjustment' });
+  }
+
+  let balance: number;
+  try {
+    balance = await ensureWallet(db, input.userId);
+  } catch (error: unknown) {
+    log.error(`Could not open wallet for ${input.userId}:`, error);
+    return { success: false, error: 'Wallet not available' };
+  }
+  const amount = round2(Math.min(-input.amount, balance));
+  if (amount <= 0) return { success: true, balance };
+  return spendWallet(db, { ...input, amount, type: 'adjustment' });
+}
+
+/**
+ * Refund (part of) an order to store credit instead of the card. `reversed`
+ * says the refund's sales ledger reversal was posted, which returns the
+ * money through the processor in the journal; since it stays with us as
+ * credit, that is moved back onto the gift card liability.
+ */
+export async function refundToWallet(db: D1Database | undefined, input: {
+  userId: string;
+  amount: number;
+  refundId: string;
+  orderId: string;
+  orderNumber?: string | null;
+  paymentMethod?: string | null;
+  reversed: boolean;
+  createdBy?: string | null;
+}): Promise<WalletResult> {
+  const result = await creditWallet(db, {
+    userId: input.userId,
+    source: 'refund',
+    amount: input.amount,
+    id: `refund:${input.refundId}`,
+    description: `Refund for order ${input.orderNumber || input.orderId}`,
+    reference: input.refundId,
+    orderId: input.orderId,
+    createdBy: input.createdBy,
+  });
+
+  // Credit-paid orders were reversed onto the liability already
+  const paidByCredit = input.paymentMethod === 'credit' || input.paymentMethod === 'giftcard';
+  if (result.success && !result.duplicate && input.reversed && !paidByCredit) {
+    const amount = round2(input.amount);
+    const posted = await postJournalEntry(db, {
+      id: `wallet-refund:${input.refundId}`,
+      entryType: 'wallet',
+      orderId: input.orderId,
+      reference: input.refundId,
+      memo: `Refund ${input.refundId} kept as store credit`,
+      postings: [
+        { account: JOURNAL_ACCOUNTS.processorClearing, partyId: input.paymentMethod || 'stripe', amount, memo: 'refund kept' },
+        { account: JOURNAL_ACCOUNTS.giftCardLiability, amount: -amount, memo: 'store credit' },
+      ],
+    });
+    if (!posted.success) log.error(`Wallet refund ${input.refundId} credited but not journaled: ${posted.error}`);
+  }
+  return result;
+}
+
+// Balance only, for checkout
+export async function getWalletBalance(db: D1Database | undefined, userId: string): Promise<number | null> {
+  if (!db) return null;
+  try {
+    return await ensureWallet(db, userId);
+  } catch (error: unknown) {
+    log.error(`Could not read wallet for ${userId}:`, error);
+    return null;
+  }
+}
+
+export interface WalletSummary {
+  balance: number;
+  transactions: WalletTransaction[];
+  credits: WalletCredit[];
+  expiringSoon: number;
+  nextExpiry: string | null;
+}
+
+// Balance, recent history and the credit it's made of, for the account page
+export async function getWallet(db: D1Database | undefined, userId: string, options: {
+  limit?: number;
+  before?: string;
+} = {}): Promise<WalletSummary | null> {
+  const balance = await getWalletBalance(db, userId);
+  if (balance === null || !db) return null;
+
+  const [transactions, credits] = await Promise.all([
+    d1GetWalletTransactions(db, userId, options),
+    d1GetOpenCredits(db, userId),
+  ]);
+  const warnBefore = new Date(Date.now() + EXPIRY_WARNING_DAYS * 86_400_000).toISOString();
+  const expiring = credits.filter(c => c.expiresAt && c.expiresAt <= warnBefore);
+
+  return {
+    balance,
+    transactions,
+    credits,
+    expiringSoon: round2(expiring.reduce((sum, c) => sum + c.remaining, 0)),
+    nextExpiry: expiring[0]?.expiresAt || null,
+  };
+}
+
+/**
+ * Take lapsed credit off balances (daily cron). Each credit is claimed
+ * before its expiry is posted, so overlapping runs expire it once; the
+ * unspent amount is booked from the gift card liability to revenue.
+ */
+export async function expireWalletCredits(db: D1Database, now: Date = new Date()): Promise<{
+  expired: number;
+  amount: number;
+  failed: number;
+}> {
+  const outcome = { expired: 0, amount: 0, failed: 0 };
+
+  for (const credit of await d1GetLapsedCredits(db, now.toISOString())) {
+    if (!await d1ClaimLapsedCredit(db, credit.id, credit.remaining)) continue;
+
+    let balance = 0;
+    try {
+      balance = (await d1GetWallet(db, credit.userId))?.balance ?? 0;
+    } catch (error: unknown) {
+      log.error(`Could not read wallet for ${credit.userId}:`, error);
+      await d1RestoreCredit(db, credit.id, credit.remaining);
+      outcome.failed++;
+      continue;
+    }
+    const amount = round2(Math.min(credit.remaining, balance));
+    if (amount <= 0) continue;
+
+    const result = await d1PostWalletTransaction(db, {
+      id: `expiry:${credit.id}`,
+      userId: credit.userId,
+      type: 'expiry',
+      amount: -amount,
+      balanceAfter: null,
+      description: `${WALLET_TYPE_LABELS[credit.source]} credit expired`,
+      reference: null,
+      orderId: null,
+      creditId: credit.id,
+      expiresAt: null,
+      createdBy: null,
+    });
+    if (!result.posted) {
+      if (result.reason !== 'duplicate') {
+        await d1RestoreCredit(db, credit.id, credit.remaining);
+        outcome.failed++;
+      }
+      continue;
+    }
+
+    await mirrorBalance(credit.userId, result.balance ?? 0);
+    await postJournalEntry(db, {
+      id: `wallet-expiry:${credit.id}`,
+      entryType: 'wallet',
+      reference: credit.id,
+      memo: `Store credit expired for ${credit.userId}`,
+      postings: [
+        { account: JOURNAL_ACCOUNTS.giftCardLiability, amount, memo: 'credit expired' },
+        { account: JOURNAL_ACCOUNTS.platformRevenue, amount: -amount, memo: 'expired store credit' },
+      ],
+    });
+    outcome.expired++;
+    outcome.amount = round2(outcome.amount + amount);
+  }
+
+  if (outcome.expired || outcome.failed) {
+    log.info(`Expired ${outcome.expired} wallet credits (£${outcome.amount.toFixed(2)}), ${outcome.failed} failed`);
+  }
+  return outcome;
+}
@@ -0,0 +1,119 @@
+// src/lib/waveform.ts
+// Seekable waveforms for the players — release plates, the shuffle player and
+// DJ mix pages. The transcode runner measures each file's peaks (0-255) and
+// the release-processor stores them on the track or mix document:
+//   - track.waveform         the whole track
+//   - track.previewWaveform  just the stretch the preview clip was cut from
+//   - mix.waveform           the whole mix
+// Players only draw the part of the audio they actually play, so everything
+// here works in seconds of the audio file being played.
+
+export interface WaveformSource {
+  waveform?: unknown;
+  previewWaveform?: unknown;
+  durationSeconds?: unknown;
+}
+
+export interface WaveformColors {
+  played: string;
+  unplayed: string;
+}
+
+// A preview clip is this much shorter than its track, or more
+const CLIP_TOLERANCE_SECONDS = 2;
+
+/**
+ * Peaks from a document field or a data-* attribute (JSON). Null when there
+ * aren't any, so callers can fall back to a plain progress bar.
+ */
+export function parseWaveform(value: unknown): number[] | null {
+  let data = value;
+  if (typeof data === 'string') {
+    if (!data) return null;
+    try {
+      data = JSON.parse(data);
+    } catch {
+      return null;
+    }
+  }
+  if (!Array.isArray(data) || data.length === 0) return null;
+  const peaks = data.map(Number);
+  return peaks.every(p => Number.isFinite(p)) ? peaks.map(p => Math.max(0, Math.min(255, p))) : null;
+}
+
+/**
+ * The peaks covering the audio file a player has loaded. A track's preview
+ * URL is either a clip cut from it (shorter than the track) or, for older
+ * releases, the full MP3.
+ */
+export function peaksForAudio(source: WaveformSource, audioDuration: number): number[] | null {
+  const waveform = parseWaveform(source.waveform);
+  const preview = parseWaveform(source.previewWaveform);
+  const trackDuration = Number(source.durationSeconds) || 0;
+
+  if (preview && trackDuration && audioDuration < trackDuration - CLIP_TOLERANCE_SECONDS) return preview;
+  return waveform;
+}
+
+/**
+ * Resample peaks spanning `spanSeconds` of audio into `bars` bars covering
+ * [start, end). Each bar takes the loudest peak under it; time past the end
+ * of the audio draws as silence.
+ */
+export function windowPeaks(peaks: number[], spanSeconds: number, start: number, end: number, bars: number): number[] {
+  const out: number[] = [];
+  if (!peaks.length || !(spanSeconds > 0) || !(end > start) || bars <= 0) return out;
+
+  const perSecond = peaks.length / spanSeconds;
+  const step = (end - start) / bars;
+  for (let i = 0; i < bars; i++) {
+    const from = Math.floor((start + i * step) * perSecond);
+    const to = Math.min(peaks.length, Math.ceil((start + (i + 1) * step) * perSecond));
+    let max = 0;
+    for (let j = Math.max(0, from); j < Math.max(to, from + 1) && j < peaks.length; j++) {
+      max = Math.max(max, peaks[j]!);
+    }
+    out.push(max);
+  }
+  return out;
+}
+
+/**
+ * At most `bars` bars across the same span, for embedding in a page
+ */
+export function downsamplePeaks(peaks: number[], bars: number): number[] {
+  return peaks.length <= bars ? peaks.slice() : windowPeaks(peaks, peaks.length, 0, peaks.length, bars);
+}
+
+/**
+ * Draw bars mirrored about the middle of the canvas, the played part (up to
+ * `progress`, 0-1) in the played colour
+ */
+export function drawWaveform(canvas: HTMLCanvasElement, bars: number[], progress: number, colors: WaveformColors): void {
+  const ctx = canvas.getContext('2d');
+  if (!ctx || !bars.length) return;
+
+  const { width, height } = canvas;
+  const slot = width / bars.length;
+  const gap = slot > 3 ? 1 : 0;
+  ctx.clearRect(0, 0, width, height);
+
+  for (let i = 0; i < bars.length; i++) {
+    const barHeight = Math.max(1, (bars[i]! / 255) * height);
+    ctx.fillStyle = (i + 0.5) / bars.length <= progress ? colors.played : colors.unplayed;
+    ctx.fillRect(i * slot, (height - barHeight) / 2, Math.max(1, slot - gap), barHeight);
+  }
+}
+
+/**
+ * Size a canvas's drawing buffer to its laid-out width, for sharp bars on
+ * high-DPI screens. Returns how many bars of `barWidth` CSS pixels fit.
+ */
+export function fitCanvas(canvas: HTMLCanvasElement, barWidth = 3): number {
+  const ratio = window.devicePixelRatio || 1;
+  const cssWidth = canvas.clientWidth || canvas.width;
+  const cssHeight = canvas.clientHeight || canvas.height;
+  canvas.width = Math.round(cssWidth * ratio);
+  canvas.height = Math.round(cssHeight * ratio);
+  return Math.max(1, Math.floor(cssWidth / barWidth));
+}
@@ -0,0 +1,34 @@
+// src/pages/api/admin/abandoned-carts.ts
+// Abandoned cart recovery report — how many expired checkouts were emailed,
+// how many came back to order, and the revenue they brought in (by step)
+
+import type { APIRoute } from 'astro';
+import { requireAdminAuth } from '../../../lib/admin';
+import { abandonedCartReport } from '../../../lib/abandoned-cart';
+import { createLogger, successResponse, ApiErrors } from '../../../lib/api-utils';
+import { checkRateLimit, getClientId, rateLimitResponse, RateLimiters } from '../../../lib/rate-limit';
+
+const log = createLogger('abandoned-carts');
+
+export const prerender = false;
+
+// GET /api/admin/abandoned-carts/?days=30
+export const GET: APIRoute = async ({ request, url, locals }) => {
+  const clientId = getClientId(request);
+  const rateCheck = checkRateLimit(`abandoned-carts:${clientId}`, RateLimiters.admin);
+  if (!rateCheck.allowed) return rateLimitResponse(rateCheck.retryAfter!);
+
+  const authError = await requireAdminAuth(request, locals);
+  if (authError) return authError;
+
+  const days = Math.min(365, Math.max(1, parseInt(url.searchParams.get('days') || '30', 10) || 30));
+  const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString();
+
+  try {
+    const report = await abandonedCartReport(since);
+    return successResponse({ days, report });
+  } catch (error: unknown) {
+    log.error('[abandoned-carts] Error:', error);
+    return ApiErrors.serverError('Failed to build abandoned cart report');
+  }
+};
@@ -0,0 +1,83 @@
+// src/pages/api/admin/artist-advances.ts
+// Record an advance, or a pressing / mastering cost, paid for an artist
+// (lib/advances.ts). Recoupable ones are paid back from the artist's sales
+// before their payouts; progress is listed by GET /api/admin/royalty-ledger.
+
+import type { APIRoute } from 'astro';
+import { z } from 'zod';
+import { getDocument, verifyRequestUser } from '../../../lib/firebase-rest';
+import { requireAdminAuth } from '../../../lib/admin';
+import { ADVANCE_KINDS, recordAdvance } from '../../../lib/advances';
+import type { AdvanceKind } from '../../../lib/advances';
+import { checkRateLimit, getClientId, rateLimitResponse, RateLimiters } from '../../../lib/rate-limit';
+import { parseJsonBody, ApiErrors, createLogger, successResponse } from '../../../lib/api-utils';
+
+const log = createLogger('admin/artist-advances');
+
+export const prerender = false;
+
+const advanceSchema = z.object({
+  artistId: z.string().min(1).max(200),
+  releaseId: z.string().max(200).nullish(),
+  kind: z.enum(ADVANCE_KINDS as [AdvanceKind, ...AdvanceKind[]]),
+  description: z.string().max(500).nullish(),
+  amount: z.number().positive().max(1_000_000),
+  recoupable: z.boolean().default(true),
+  paidAt: z.string().max(40).nullish(),
+  adminKey: z.string().optional(),
+});
+
+export const POST: APIRoute = async ({ request, locals }) => {
+  const clientId = getClientId(request);
+  const rateCheck = checkRateLimit(`artist-advances:${clientId}`, RateLimiters.admin);
+  if (!rateCheck.allowed) return rateLimitResponse(rateCheck.retryAfter!);
+
+  const body = await parseJsonBody<Record<string, unknown>>(request);
+  const authError = await requireAdminAuth(request, locals, body ?? undefined);
+  if (authError) return authError;
+
+  const parsed = advanceSchema.safeParse(body);
+  if (!parsed.success) {
+    return ApiErrors.badRequest('Invalid request: ' + parsed.error.issues.map(i => i.message).join(', '));
+  }
+  const input = parsed.data;
+
+  const db = locals?.runtime?.env?.DB;
+  if (!db) return ApiErrors.serverError('D1 database not available');
+
+  try {
+    const artist = await getDocument('artists', input.artistId);
+    if (!artist) return ApiErrors.notFound('Artist not found');
+    if (input.releaseId) {
+      const release = await getDocument('releases', input.releaseId);
+      if (!release) return ApiErrors.notFound('Release not found');
+      const owners = [release.artistId, release.userId];
+      const splitPayees = [
+        ...((release.payoutSplits || []) as Array<{ artistId?: string }>),
+        ...Object.values((release.trackSplits || {}) as Record<string, Array<{ artistId?: string }>>).flat(),
+      ].map(s => s.artistId);
+      if (![...owners, ...splitPayees].includes(input.artistId)) {
+        return ApiErrors.badRequest('Artist is not paid for that release');
+      }
+    }
+
+    const { userId: adminUid } = await verifyRequestUser(request);
+    const result = await recordAdvance(db, {
+      artistId: input.artistId,
+      artistName: (artist.artistName as string) || null,
+      releaseId: input.releaseId || null,
+      kind: input.kind,
+      description: input.description || null,
+      amount: input.amount,
+      recoupable: input.recoupable,
+      paidAt: input.paidAt || null,
+      createdBy: adminUid || 'admin',
+    });
+    if (!result.success) return ApiErrors.serverError(result.error || 'Could not record advance');
+
+    return successResponse({ advance: result.advance });
+  } catch (error: unknown) {
+    log.error('[artist-advances] Error:', error);
+    return ApiErrors.serverError('Failed to record advance');
+  }
+};
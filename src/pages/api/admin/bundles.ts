@@ -0,0 +1,133 @@
+// src/pages/api/admin/bundles.ts
+// Manage digital bundles and label discography packs (Firestore bundles).
+// Bundles are priced at checkout and expanded per release by lib/order/bundles.ts.
+
+import type { APIRoute } from 'astro';
+import { z } from 'zod';
+import { requireAdminAuth } from '../../../lib/admin';
+import { getDocument, getLiveReleases, queryCollection, setDocument, updateDocument } from '../../../lib/firebase-rest';
+import { groupReleasesByLabel, labelSlug } from '../../../lib/labels';
+import { bundleFromDoc } from '../../../lib/order/bundles';
+import { createLogger, successResponse, ApiErrors, parseJsonBody } from '../../../lib/api-utils';
+import { checkRateLimit, getClientId, rateLimitResponse, RateLimiters } from '../../../lib/rate-limit';
+
+const log = createLogger('admin/bundles');
+
+const bundleId = z.string().trim().regex(/^[A-Za-z0-9_-]{3,100}$/, 'Invalid bundle id');
+
+const bundlesSchema = z.discriminatedUnion('action', [
+  z.object({
+    action: z.literal('upsert'),
+    id: bundleId.optional(),
+    name: z.string().trim().min(1).max(200),
+    description: z.string().max(2000).optional(),
+    // Either an explicit list of releases, or a label whose live catalogue
+    // becomes the pack (resolved now, so later releases aren't added silently)
+    releaseIds: z.array(z.string().min(1).max(128)).max(200).optional(),
+    labelSlug: z.string().trim().min(1).max(200).optional(),
+    price: z.number().positive().max(1000),
+    weighting: z.enum(['equal', 'price', 'custom']).default('equal'),
+    weights: z.record(z.string(), z.number().positive()).optional(),
+    active: z.boolean().default(true),
+  }).refine(data => (data.releaseIds?.length || 0) > 0 || !!data.labelSlug, {
+    message: 'A bundle needs releaseIds or a labelSlug',
+  }),
+  z.object({
+    action: z.literal('setActive'),
+    id: bundleId,
+    active: z.boolean(),
+  }),
+]);
+
+export const prerender = false;
+
+export const GET: APIRoute = async ({ request, locals }) => {
+  const clientId = getClientId(request);
+  const rateCheck = checkRateLimit(`admin-bundles:${clientId}`, RateLimiters.admin);
+  if (!rateCheck.allowed) return rateLimitResponse(rateCheck.retryAfter!);
+
+  const authError = await requireAdminAuth(request, locals);
+  if (authError) return authError;
+
+  try {
+    const docs = await queryCollection('bundles', { skipCache: true });
+    const bundles = docs.map(doc => bundleFromDoc(String(doc.id), doc)).filter(Boolean);
+    return successResponse({ bundles });
+  } catch (error: unknown) {
+    log.error('[admin/bundles] Error:', error);
+    return ApiErrors.serverError('Failed to fetch bundles');
+  }
+};
+
+export const POST: APIRoute = async ({ request, locals }) => {
+  const clientId = getClientId(request);
+  const rateCheck = checkRateLimit(`admin-bundles:${clientId}`, RateLimiters.admin);
+  if (!rateCheck.allowed) return rateLimitResponse(rateCheck.retryAfter!);
+
+  const body = await parseJsonBody<Record<string, unknown>>(request);
+  const authError = await requireAdminAuth(request, locals, body ?? undefined);
+  if (authError) return authError;
+
+  try {
+    const parsed = bundlesSchema.safeParse(body);
+    if (!parsed.success) {
+      return ApiErrors.badRequest(parsed.error.issues[0]?.message || 'Invalid bundle');
+    }
+    const data = parsed.data;
+    const now = new Date().toISOString();
+
+    if (data.action === 'setActive') {
+      const existing = await getDocument('bundles', data.id);
+      if (!existing) {
+        return ApiErrors.notFound(`Unknown bundle "${data.id}"`);
+      }
+      await updateDocument('bundles', data.id, { active: data.active, updatedAt: now });
+      log.info('[admin/bundles] setActive', data.id, data.active);
+      return successResponse({ action: data.action, id: data.id });
+    }
+
+    let releaseIds = [...new Set(data.releaseIds || [])];
+    if (data.labelSlug) {
+      const label = groupReleasesByLabel(await getLiveReleases(undefined, locals.runtime?.env?.DB))
+        .find(group => group.slug === data.labelSlug);
+      if (!label) {
+        return ApiErrors.notFound(`No live releases for label "${data.labelSlug}"`);
+      }
+      releaseIds = [...new Set([...releaseIds, ...label.releases.map(r => String(r.id))])];
+    }
+    if (releaseIds.length < 2) {
+      return ApiErrors.badRequest('A bundle needs at least two releases');
+    }
+
+    const releases = await Promise.all(releaseIds.map(id => getDocument('releases', id)));
+    const missing = releaseIds.filter((_id, i) => !releases[i]);
+    if (missing.length > 0) {
+      return ApiErrors.badRequest(`Unknown release: ${missing.join(', ')}`);
+    }
+    if (data.weighting === 'custom' && releaseIds.some(id => !data.weights?.[id])) {
+      return ApiErrors.badRequest('Custom weighting needs a weight for every release');
+    }
+
+    const id = data.id || `bundle_${labelSlug(data.name).slice(0, 60)}_${Date.now().toString(36)}`;
+    const existing = data.id ? await getDocument('bundles', id) : null;
+
+    await setDocument('bundles', id, {
+      name: data.name,
+      description: data.description || '',
+      releaseIds,
+      price: data.price,
+      weighting: data.weighting,
+      weights: data.weighting === 'custom' ? data.weights : null,
+      labelSlug: data.labelSlug || null,
+      active: data.active,
+      createdAt: (existing?.createdAt as string) || now,
+      updatedAt: now,
+    });
+
+    log.info('[admin/bundles] upsert', id, releaseIds.length, 'releases');
+    return successResponse({ action: data.action, id, releaseIds });
+  } catch (error: unknown) {
+    log.error('[admin/bundles] Error:', error);
+    return ApiErrors.serverError('Failed to update bundle');
+  }
+};
@@ -0,0 +1,127 @@
+// src/pages/api/admin/discount-codes.ts
+// Manage discount codes and promotional campaigns (D1 discount_codes).
+// Codes are validated at checkout by lib/order/price-validation.ts.
+
+import type { APIRoute } from 'astro';
+import { z } from 'zod';
+import { requireAdminAuth } from '../../../lib/admin';
+import { d1GetDiscountCode, d1ListDiscountCodes, d1UpsertDiscountCode } from '../../../lib/d1-catalog';
+import { createLogger, successResponse, ApiErrors, parseJsonBody } from '../../../lib/api-utils';
+import { checkRateLimit, getClientId, rateLimitResponse, RateLimiters } from '../../../lib/rate-limit';
+
+const log = createLogger('discount-codes');
+
+const code = z.string().trim().regex(/^[A-Za-z0-9_-]{3,40}$/, 'Codes are 3-40 letters, digits, - or _');
+const isoDate = z.string().refine(value => !Number.isNaN(Date.parse(value)), 'Invalid date');
+
+const discountCodeSchema = z.discriminatedUnion('action', [
+  z.object({
+    action: z.literal('upsert'),
+    code,
+    campaign: z.string().max(100).nullish(),
+    type: z.enum(['percentage', 'fixed']),
+    amount: z.number().positive().max(1000),
+    scope: z.enum(['order', 'release', 'label', 'supplier']).default('order'),
+    scopeIds: z.array(z.string().min(1).max(128)).max(200).default([]),
+    minBasket: z.number().min(0).max(10000).default(0),
+    maxUses: z.number().int().positive().nullish(),
+    maxUsesPerCustomer: z.number().int().positive().nullish(),
+    startsAt: isoDate.nullish(),
+    endsAt: isoDate.nullish(),
+    active: z.boolean().default(true),
+  }).refine(data => data.type !== 'percentage' || data.amount <= 100, {
+    message: 'A percentage discount cannot exceed 100',
+  }).refine(data => data.scope === 'order' || data.scopeIds.length > 0, {
+    message: 'A scoped code needs at least one id',
+  }).refine(data => !data.startsAt || !data.endsAt || Date.parse(data.startsAt) < Date.parse(data.endsAt), {
+    message: 'startsAt must be before endsAt',
+  }),
+  z.object({
+    action: z.literal('setActive'),
+    code,
+    active: z.boolean(),
+  }),
+]);
+
+export const prerender = false;
+
+export const GET: APIRoute = async ({ request, url, locals }) => {
+  const clientId = getClientId(request);
+  const rateCheck = checkRateLimit(`discount-codes:${clientId}`, RateLimiters.admin);
+  if (!rateCheck.allowed) return rateLimitResponse(rateCheck.retryAfter!);
+
+  const authError = await requireAdminAuth(request, locals);
+  if (authError) return authError;
+
+  try {
+    const db = locals.runtime.env?.DB;
+    if (!db) {
+      return ApiErrors.serverError('D1 database not available');
+    }
+
+    const codes = await d1ListDiscountCodes(db, url.searchParams.get('campaign') || undefined);
+    return successResponse({ codes });
+  } catch (error: unknown) {
+    log.error('[discount-codes] Error:', error);
+    return ApiErrors.serverError('Failed to fetch discount codes');
+  }
+};
+
+export const POST: APIRoute = async ({ request, locals }) => {
+  const clientId = getClientId(request);
+  const rateCheck = checkRateLimit(`discount-codes:${clientId}`, RateLimiters.admin);
+  if (!rateCheck.allowed) return rateLimitResponse(rateCheck.retryAfter!);
+
+  const body = await parseJsonBody<Record<string, unknown>>(request);
+  const authError = await requireAdminAuth(request, locals, body ?? undefined);
+  if (authError) return authError;
+
+  try {
+    const db = locals.runtime.env?.DB;
+    if (!db) {
+      return ApiErrors.serverError('D1 database not available');
+    }
+
+    const parsed = discountCodeSchema.safeParse(body);
+    if (!parsed.success) {
+      return ApiErrors.badRequest(parsed.error.issues[0]?.message || 'Invalid discount code');
+    }
+
+    const data = parsed.data;
+    let saved = false;
+
+    if (data.action === 'upsert') {
+      saved = await d1UpsertDiscountCode(db, {
+        code: data.code.toUpperCase(),
+        campaign: data.campaign || null,
+        type: data.type,
+        amount: data.amount,
+        scope: data.scope,
+        scopeIds: data.scope === 'order' ? [] : data.scopeIds,
+        minBasket: data.minBasket,
+        maxUses: data.maxUses ?? null,
+        maxUsesPerCustomer: data.maxUsesPerCustomer ?? null,
+        startsAt: data.startsAt || null,
+        endsAt: data.endsAt || null,
+        active: data.active,
+      });
+    } else {
+      const existing = await d1GetDiscountCode(db, data.code);
+      if (!existing) {
+        return ApiErrors.notFound(`Unknown discount code "${data.code.toUpperCase()}"`);
+      }
+      const { usedCount: _usedCount, ...rest } = existing;
+      saved = await d1UpsertDiscountCode(db, { ...rest, active: data.active });
+    }
+
+    if (!saved) {
+      return ApiErrors.serverError('Failed to save discount code');
+    }
+
+    log.info('[discount-codes]', data.action, data.code.toUpperCase());
+    return successResponse({ action: data.action, code: data.code.toUpperCase() });
+  } catch (error: unknown) {
+    log.error('[discount-codes] Error:', error);
+    return ApiErrors.serverError('Failed to update discount code');
+  }
+};
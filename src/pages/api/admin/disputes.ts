@@ -0,0 +1,92 @@
+// src/pages/api/admin/disputes.ts
+// Admin API for chargebacks (lib/disputes.ts).
+// GET ?status=open|won|lost|all — disputes with outcome totals and, per
+//   seller, what open / won / lost disputes held, returned or cost them.
+// POST { action: 'preview', disputeId } builds the evidence packet from the
+//   order, tracking, download log and emails without sending it;
+//   { action: 'stage' } saves it on the Stripe dispute for later;
+//   { action: 'submit' } sends it to the bank (final — Stripe allows one).
+
+import type { APIRoute } from 'astro';
+import { z } from 'zod';
+import { getDocument, verifyRequestUser } from '../../../lib/firebase-rest';
+import { requireAdminAuth } from '../../../lib/admin';
+import {
+  buildEvidencePacket, collectEvidenceSources, disputeOutcome, getDisputeDashboard, sendDisputeEvidence,
+} from '../../../lib/disputes';
+import type { DisputeRecord } from '../../../lib/disputes';
+import { checkRateLimit, getClientId, rateLimitResponse, RateLimiters } from '../../../lib/rate-limit';
+import { parseJsonBody, ApiErrors, createLogger, successResponse } from '../../../lib/api-utils';
+
+const log = createLogger('admin/disputes');
+
+export const prerender = false;
+
+const STATUSES = ['open', 'won', 'lost', 'all'] as const;
+
+const disputesPostSchema = z.object({
+  action: z.enum(['preview', 'stage', 'submit']),
+  disputeId: z.string().min(1).max(200),
+  adminKey: z.string().optional(),
+});
+
+export const GET: APIRoute = async ({ request, url, locals }) => {
+  const clientId = getClientId(request);
+  const rateCheck = checkRateLimit(`disputes:${clientId}`, RateLimiters.admin);
+  if (!rateCheck.allowed) return rateLimitResponse(rateCheck.retryAfter!);
+
+  const authError = await requireAdminAuth(request, locals);
+  if (authError) return authError;
+
+  const status = url.searchParams.get('status') || 'all';
+  if (!STATUSES.includes(status as typeof STATUSES[number])) return ApiErrors.badRequest('Invalid status');
+
+  try {
+    const dashboard = await getDisputeDashboard(locals?.runtime?.env?.DB, { status: status as typeof STATUSES[number] });
+    return successResponse({ status, ...dashboard });
+  } catch (error: unknown) {
+    log.error('[disputes] Error:', error);
+    return ApiErrors.serverError('Failed to load disputes');
+  }
+};
+
+export const POST: APIRoute = async ({ request, locals }) => {
+  const clientId = getClientId(request);
+  const rateCheck = checkRateLimit(`disputes:${clientId}`, RateLimiters.admin);
+  if (!rateCheck.allowed) return rateLimitResponse(rateCheck.retryAfter!);
+
+  const body = await parseJsonBody<Record<string, unknown>>(request);
+  const authError = await requireAdminAuth(request, locals, body ?? undefined);
+  if (authError) return authError;
+
+  const parsed = disputesPostSchema.safeParse(body);
+  if (!parsed.success) {
+    return ApiErrors.badRequest('Invalid request: ' + parsed.error.issues.map(i => i.message).join(', '));
+  }
+  const { action, disputeId } = parsed.data;
+  const env = (locals?.runtime?.env || {}) as unknown as Record<string, unknown>;
+
+  try {
+    const dispute = await getDocument('disputes', disputeId);
+    if (!dispute) return ApiErrors.notFound('Dispute not found');
+    const record = { ...dispute, id: disputeId } as unknown as DisputeRecord;
+
+    if (action === 'preview') {
+      const packet = buildEvidencePacket(await collectEvidenceSources(env, record));
+      return successResponse({ packet });
+    }
+
+    if (disputeOutcome(dispute) !== 'open') return ApiErrors.badRequest('Dispute is already closed');
+    if (dispute.evidenceStatus === 'submitted') return ApiErrors.badRequest('Evidence has already been submitted');
+
+    const { userId: adminUid } = await verifyRequestUser(request);
+    const result = await sendDisputeEvidence(env, record, { submit: action === 'submit', adminId: adminUid || 'admin' });
+    if (!result.success) return ApiErrors.serverError(result.error || 'Could not send evidence');
+
+    log.info(`[disputes] Evidence ${action === 'submit' ? 'submitted' : 'staged'} for ${dispute.stripeDisputeId} by ${adminUid || 'admin'}`);
+    return successResponse({ packet: result.packet });
+  } catch (error: unknown) {
+    log.error('[disputes] Error:', error);
+    return ApiErrors.serverError('Failed to update dispute');
+  }
+};
@@ -7,6 +7,8 @@ import { requireAdminAuth } from '../../../lib/admin';
 import { getSaQuery } from '../../../lib/admin-query';
 import { checkRateLimit, getClientId, rateLimitResponse, RateLimiters } from '../../../lib/rate-limit';
 import { ApiErrors, createLogger } from '../../../lib/api-utils';
+import { orderVat } from '../../../lib/order/invoices';
+import { vatTreatmentLabel } from '../../../lib/order/vat';
 
 const log = createLogger('admin/export-analytics');
 
@@ -248,8 +250,62 @@ export const GET: APIRoute = async ({ request, locals }) => {
         break;
       }
 
+      case 'vat': {
+        // VAT return: quarter boundaries come from ?from=YYYY-MM-DD&to=YYYY-MM-DD
+        // (inclusive), falling back to the period like the other reports
+        const from = /^\d{4}-\d{2}-\d{2}$/.test(url.searchParams.get('from') || '') ? url.searchParams.get('from') as string : startDateStr.split('T')[0];
+        const toParam = /^\d{4}-\d{2}-\d{2}$/.test(url.searchParams.get('to') || '') ? url.searchParams.get('to') as string : null;
+        const toExclusive = new Date(toParam ? `${toParam}T00:00:00Z` : Date.now());
+        if (toParam) toExclusive.setUTCDate(toExclusive.getUTCDate() + 1);
+
+        const orders = await saQuery('orders', {
+          filters: [
+            { field: 'createdAt', op: 'GREATER_THAN_OR_EQUAL', value: `${from}T00:00:00.000Z` },
+            { field: 'createdAt', op: 'LESS_THAN', value: toExclusive.toISOString() }
+          ],
+          limit: 5000
+        });
+
+        // One row per regime / country / rate — UK VAT for the HMRC return,
+        // OSS rows per member state for the One Stop Shop return
+        const groups: Record<string, { scheme: string; country: string; rate: number; net: number; vat: number; gross: number; orders: Set<string> }> = {};
+        for (const order of orders) {
+          if (order.status === 'cancelled' || order.paymentStatus !== 'completed') continue;
+          for (const group of orderVat(order).byRate) {
+            const key = `${group.treatment}:${group.country}:${group.rate}`;
+            if (!groups[key]) {
+              groups[key] = { scheme: vatTreatmentLabel(group.treatment, group.country), country: group.country, rate: group.rate, net: 0, vat: 0, gross: 0, orders: new Set() };
+            }
+            groups[key].net += group.net;
+            groups[key].vat += group.vat;
+            groups[key].gross += group.gross;
+            groups[key].orders.add(String(order.id));
+          }
+        }
+
+        csv = 'Scheme,Country,VAT Rate,Net,VAT,Gross,Orders\n';
+
+        const rows = Object.values(groups).sort((a, b) => a.scheme.localeCompare(b.scheme) || a.country.localeCompare(b.country));
+        for (const row of rows) {
+          csv += [
+            `"${row.scheme}"`,
+            row.country,
+            row.rate,
+            row.net.toFixed(2),
+            row.vat.toFixed(2),
+            row.gross.toFixed(2),
+            row.orders.size
+          ].join(',') + '\n';
+        }
+        const totals = rows.reduce((sum, r) => ({ net: sum.net + r.net, vat: sum.vat + r.vat, gross: sum.gross + r.gross }), { net: 0, vat: 0, gross: 0 });
+        csv += ['"Total"', '', '', totals.net.toFixed(2), totals.vat.toFixed(2), totals.gross.toFixed(2), ''].join(',') + '\n';
+
+        filename = `vat-return-${from}-to-${(toParam || new Date().toISOString().split('T')[0])}.csv`;
+        break;
+      }
+
       default:
-        return ApiErrors.badRequest('Invalid export type. Valid types: orders, sales, products, payouts, refunds, customers');
+        return ApiErrors.badRequest('Invalid export type. Valid types: orders, sales, products, payouts, refunds, customers, vat');
     }
 
     return new Response(csv, {
@@ -0,0 +1,77 @@
+// src/pages/api/admin/fx-rates.ts
+// List and update the locally stored FX rates used to price EUR/USD checkouts
+
+import type { APIRoute } from 'astro';
+import { requireAdminAuth } from '../../../lib/admin';
+import { d1GetFxRates, d1UpsertFxRate } from '../../../lib/d1-catalog';
+import { SETTLEMENT_CURRENCY, SUPPORTED_CURRENCIES } from '../../../lib/currency';
+import { createLogger, successResponse, ApiErrors, parseJsonBody } from '../../../lib/api-utils';
+import { checkRateLimit, getClientId, rateLimitResponse, RateLimiters } from '../../../lib/rate-limit';
+import { z } from 'zod';
+
+const log = createLogger('fx-rates');
+
+// GBP is the settlement currency (always 1) so it can't be set
+const fxRateSchema = z.object({
+  currency: z.enum(SUPPORTED_CURRENCIES.filter(c => c !== SETTLEMENT_CURRENCY) as [string, ...string[]]),
+  rate: z.number().positive().max(1000),
+  source: z.string().max(100).optional(),
+});
+
+export const prerender = false;
+
+export const GET: APIRoute = async ({ request, locals }) => {
+  const clientId = getClientId(request);
+  const rateCheck = checkRateLimit(`fx-rates:${clientId}`, RateLimiters.admin);
+  if (!rateCheck.allowed) return rateLimitResponse(rateCheck.retryAfter!);
+
+  const authError = await requireAdminAuth(request, locals);
+  if (authError) return authError;
+
+  try {
+    const db = locals.runtime.env?.DB;
+    if (!db) {
+      return ApiErrors.serverError('D1 database not available');
+    }
+
+    const rates = await d1GetFxRates(db);
+    return successResponse({ settlementCurrency: SETTLEMENT_CURRENCY, rates });
+  } catch (error: unknown) {
+    log.error('[fx-rates] Error:', error);
+    return ApiErrors.serverError('Failed to fetch FX rates');
+  }
+};
+
+export const POST: APIRoute = async ({ request, locals }) => {
+  const clientId = getClientId(request);
+  const rateCheck = checkRateLimit(`fx-rates:${clientId}`, RateLimiters.admin);
+  if (!rateCheck.allowed) return rateLimitResponse(rateCheck.retryAfter!);
+
+  const body = await parseJsonBody<Record<string, unknown>>(request);
+  const authError = await requireAdminAuth(request, locals, body ?? undefined);
+  if (authError) return authError;
+
+  try {
+    const db = locals.runtime.env?.DB;
+    if (!db) {
+      return ApiErrors.serverError('D1 database not available');
+    }
+
+    const parsed = fxRateSchema.safeParse(body);
+    if (!parsed.success) {
+      return ApiErrors.badRequest('currency must be EUR or USD and rate a positive number (units per £1)');
+    }
+
+    const { currency, rate, source } = parsed.data;
+    const saved = await d1UpsertFxRate(db, { currency, rate, source, updatedBy: 'admin' });
+    if (!saved) {
+      return ApiErrors.serverError('Failed to save FX rate');
+    }
+
+    log.info('[fx-rates] Set', currency, 'rate to', rate);
+    return successResponse({ currency, rate });
+  } catch (error: unknown) {
+    log.error('[fx-rates] Error:', error);
+    return ApiErrors.serverError('Failed to update FX rates');
+  }
+};
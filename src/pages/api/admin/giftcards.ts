@@ -3,7 +3,9 @@
 
 import type { APIRoute } from 'astro';
 import { z } from 'zod';
-import { getDocument, updateDocument, setDocument, queryCollection, addDocument, arrayUnion } from '../../../lib/firebase-rest';
+import { getDocument, updateDocument, queryCollection, addDocument, arrayUnion, verifyRequestUser } from '../../../lib/firebase-rest';
+import { adjustWallet } from '../../../lib/wallet';
+import { d1GetWalletTotals } from '../../../lib/d1/wallet';
 import { checkRateLimit, getClientId, rateLimitResponse, RateLimiters } from '../../../lib/rate-limit';
 import { formatPrice } from '../../../lib/format-utils';
 import { fetchWithTimeout, ApiErrors, createLogger, successResponse } from '../../../lib/api-utils';
@@ -146,8 +148,12 @@ export const GET: APIRoute = async ({ request, locals }) => {
         if (card.type === 'promotional') promoCardsIssued++;
       });
 
+      // userCredits.balance mirrors every wallet (and holds the balance of
+      // users whose wallet isn't open yet). Spending before the wallet is in
+      // the frozen transactions arrays; since, it's in D1.
+      const wallets = env?.DB ? await d1GetWalletTotals(env.DB) : null;
       let totalCreditBalance = 0;
-      let totalSpent = 0;
+      let totalSpent = wallets?.spent || 0;
       let usersWithCredit = 0;
 
       userCredits.forEach(credit => {
@@ -178,7 +184,8 @@ export const GET: APIRoute = async ({ request, locals }) => {
           credits: {
             totalUsersWithCredit: usersWithCredit,
             totalCreditBalance,
-            totalCreditSpent: totalSpent
+            totalCreditSpent: totalSpent,
+            totalCreditExpired: wallets?.expired || 0
           }
         } });
     }
@@ -325,55 +332,21 @@ export const POST: APIRoute = async ({ request, locals }) => {
       }
 
       const adjustAmount = parseFloat(amount);
-      const creditDoc = await getDocument('userCredits', userId);
-
-      let newBalance: number;
-      const transactionId = `txn_admin_${Date.now()}`;
-
-      if (creditDoc) {
-        const currentBalance = creditDoc.balance || 0;
-        newBalance = Math.max(0, currentBalance + adjustAmount);
-
-        await updateDocument('userCredits', userId, {
-          balance: newBalance,
-          lastUpdated: now
-        });
-
-        // Add transaction using arrayUnion helper
-        await arrayUnion('userCredits', userId, 'transactions', [{
-          id: transactionId,
-          type: 'admin_adjustment',
-          amount: adjustAmount,
-          description: reason || `Admin adjustment: ${adjustAmount >= 0 ? '+' : ''}${formatPrice(adjustAmount)}`,
-          createdAt: now,
-          balanceAfter: newBalance
-        }]);
-      } else {
-        newBalance = Math.max(0, adjustAmount);
-        await setDocument('userCredits', userId, {
-          userId,
-          balance: newBalance,
-          lastUpdated: now,
-          transactions: [{
-            id: transactionId,
-            type: 'admin_adjustment',
-            amount: adjustAmount,
-            description: reason || `Admin credit: ${formatPrice(adjustAmount)}`,
-            createdAt: now,
-            balanceAfter: newBalance
-          }]
-        });
+      if (isNaN(adjustAmount)) {
+        return ApiErrors.badRequest('Invalid amount');
       }
 
-      // Update customer doc (ignore errors if doesn't exist)
-      try {
-        await updateDocument('users', userId, {
-          creditBalance: newBalance,
-          creditUpdatedAt: now
-        });
-      } catch (e: unknown) {
-        log.error('Failed to sync credit balance to user doc:', e instanceof Error ? e.message : e);
+      const { userId: adminUid } = await verifyRequestUser(request);
+      const result = await adjustWallet(locals?.runtime?.env?.DB, {
+        userId,
+        amount: adjustAmount,
+        description: reason || `Admin adjustment: ${adjustAmount >= 0 ? '+' : ''}${formatPrice(adjustAmount)}`,
+        createdBy: adminUid || 'admin',
+      });
+      if (!result.success) {
+        return ApiErrors.serverError(result.error || 'Failed to adjust balance');
       }
+      const newBalance = result.balance ?? 0;
 
       return successResponse({ newBalance,
         adjustment: adjustAmount });
@@ -0,0 +1,83 @@
+// src/pages/api/admin/held-orders.ts
+// Admin review queue for orders held on fraud risk (lib/fraud.ts).
+// GET ?status=held|approved|rejected — risk checks with the rules that fired
+//   and the order behind each (held is the queue; the others are history).
+// POST { action: 'approve', orderId } sends the held seller emails and runs
+//   the parked payouts; { action: 'reject', orderId, note? } cancels and
+//   restocks the order — refund the buyer with process-refund first.
+
+import type { APIRoute } from 'astro';
+import { z } from 'zod';
+import { verifyRequestUser } from '../../../lib/firebase-rest';
+import { requireAdminAuth } from '../../../lib/admin';
+import { getHeldOrders, rejectHeldOrder, releaseHeldOrder } from '../../../lib/fraud';
+import { checkRateLimit, getClientId, rateLimitResponse, RateLimiters } from '../../../lib/rate-limit';
+import { parseJsonBody, ApiErrors, createLogger, successResponse } from '../../../lib/api-utils';
+
+const log = createLogger('admin/held-orders');
+
+export const prerender = false;
+
+const STATUSES = ['held', 'approved', 'rejected'] as const;
+
+const heldOrderSchema = z.object({
+  action: z.enum(['approve', 'reject']),
+  orderId: z.string().min(1).max(200),
+  note: z.string().max(500).nullish(),
+  adminKey: z.string().optional(),
+});
+
+export const GET: APIRoute = async ({ request, url, locals }) => {
+  const clientId = getClientId(request);
+  const rateCheck = checkRateLimit(`held-orders:${clientId}`, RateLimiters.admin);
+  if (!rateCheck.allowed) return rateLimitResponse(rateCheck.retryAfter!);
+
+  const authError = await requireAdminAuth(request, locals);
+  if (authError) return authError;
+
+  const status = url.searchParams.get('status') || 'held';
+  if (!STATUSES.includes(status as typeof STATUSES[number])) return ApiErrors.badRequest('Invalid status');
+
+  const db = locals?.runtime?.env?.DB;
+  if (!db) return ApiErrors.serverError('D1 database not available');
+
+  try {
+    const orders = await getHeldOrders(db, { status: status as typeof STATUSES[number] });
+    return successResponse({ status, orders, count: orders.length });
+  } catch (error: unknown) {
+    log.error('[held-orders] Error:', error);
+    return ApiErrors.serverError('Failed to load held orders');
+  }
+};
+
+export const POST: APIRoute = async ({ request, locals }) => {
+  const clientId = getClientId(request);
+  const rateCheck = checkRateLimit(`held-orders:${clientId}`, RateLimiters.admin);
+  if (!rateCheck.allowed) return rateLimitResponse(rateCheck.retryAfter!);
+
+  const body = await parseJsonBody<Record<string, unknown>>(request);
+  const authError = await requireAdminAuth(request, locals, body ?? undefined);
+  if (authError) return authError;
+
+  const parsed = heldOrderSchema.safeParse(body);
+  if (!parsed.success) {
+    return ApiErrors.badRequest('Invalid request: ' + parsed.error.issues.map(i => i.message).join(', '));
+  }
+  const { action, orderId, note } = parsed.data;
+  const env = (locals?.runtime?.env || {}) as unknown as Record<string, unknown>;
+
+  try {
+    const { userId: adminUid } = await verifyRequestUser(request);
+    const reviewer = adminUid || 'admin';
+    const result = action === 'approve'
+      ? await releaseHeldOrder(env, orderId, reviewer)
+      : await rejectHeldOrder(env, orderId, reviewer, note);
+    if (!result.success) return ApiErrors.badRequest(result.error || 'Could not review order');
+
+    log.info(`[held-orders] Order ${orderId} ${action === 'approve' ? 'approved' : 'rejected'} by ${reviewer}`);
+    return successResponse({ orderId, action });
+  } catch (error: unknown) {
+    log.error('[held-orders] Error:', error);
+    return ApiErrors.serverError('Failed to review order');
+  }
+};
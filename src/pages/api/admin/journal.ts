@@ -0,0 +1,53 @@
+// src/pages/api/admin/journal.ts
+// Double-entry journal (lib/journal.ts).
+// GET ?sellerId=uid — the seller's balance derived from their postings, with
+//   recent activity.
+// GET (no seller) — trial balance per account; `balanced` is false if the
+//   journal's debits and credits ever disagree. `?before=2026-04-06` gives
+//   the position at a cut-off date.
+
+import type { APIRoute } from 'astro';
+import { requireAdminAuth } from '../../../lib/admin';
+import { d1GetJournalActivity } from '../../../lib/d1/journal';
+import { getSellerBalance, getTrialBalance } from '../../../lib/journal';
+import { createLogger, successResponse, ApiErrors } from '../../../lib/api-utils';
+import { checkRateLimit, getClientId, rateLimitResponse, RateLimiters } from '../../../lib/rate-limit';
+
+const log = createLogger('admin/journal');
+
+export const prerender = false;
+
+export const GET: APIRoute = async ({ request, url, locals }) => {
+  const clientId = getClientId(request);
+  const rateCheck = checkRateLimit(`journal:${clientId}`, RateLimiters.admin);
+  if (!rateCheck.allowed) return rateLimitResponse(rateCheck.retryAfter!);
+
+  const authError = await requireAdminAuth(request, locals);
+  if (authError) return authError;
+
+  const db = locals?.runtime?.env?.DB;
+  if (!db) return ApiErrors.serverError('Database not available');
+
+  const sellerId = url.searchParams.get('sellerId');
+  const before = url.searchParams.get('before');
+  if (before && isNaN(Date.parse(before))) return ApiErrors.badRequest('Invalid before date');
+
+  try {
+    if (sellerId) {
+      const [balance, activity] = await Promise.all([
+        getSellerBalance(db, sellerId),
+        d1GetJournalActivity(db, sellerId, 200),
+      ]);
+      return successResponse({ sellerId, ...balance, activity });
+    }
+
+    const trialBalance = await getTrialBalance(db, { before: before || undefined });
+    if (!trialBalance.balanced) {
+      log.error(`Journal out of balance: debits ${trialBalance.totalDebit} vs credits ${trialBalance.totalCredit}`);
+    }
+    return successResponse({ before: before || null, ...trialBalance });
+  } catch (error: unknown) {
+    log.error('[journal] Error:', error);
+    return ApiErrors.serverError('Failed to load journal');
+  }
+};
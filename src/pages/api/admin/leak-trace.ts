@@ -0,0 +1,77 @@
+// src/pages/api/admin/leak-trace.ts
+// Who a leaked file was sold to. /admin/leak-trace reads the fingerprint code
+// out of the file in the browser (lib/release/download-fingerprint.ts) and
+// asks here.
+// GET ?code=FW-XXXXXXXXXX — the file the code was stamped into, the order
+//   and customer it went to, the buyer's other stamped files from that order
+//   and the order's download log (when and from where files were fetched)
+
+import type { APIRoute } from 'astro';
+import { getDocument } from '../../../lib/firebase-rest';
+import { requireAdminAuth } from '../../../lib/admin';
+import { d1GetFingerprint, d1GetOrderFingerprints } from '../../../lib/d1/download-fingerprints';
+import { d1GetOrderDownloads } from '../../../lib/d1/downloads';
+import { isFingerprintCode } from '../../../lib/release/download-fingerprint';
+import { checkRateLimit, getClientId, rateLimitResponse, RateLimiters } from '../../../lib/rate-limit';
+import { ApiErrors, createLogger, successResponse } from '../../../lib/api-utils';
+
+const log = createLogger('admin/leak-trace');
+
+export const prerender = false;
+
+export const GET: APIRoute = async ({ request, url, locals }) => {
+  const clientId = getClientId(request);
+  const rateCheck = checkRateLimit(`leak-trace:${clientId}`, RateLimiters.admin);
+  if (!rateCheck.allowed) return rateLimitResponse(rateCheck.retryAfter!);
+
+  const authError = await requireAdminAuth(request, locals);
+  if (authError) return authError;
+
+  const db = locals?.runtime?.env?.DB;
+  if (!db) return ApiErrors.serverError('Database unavailable');
+
+  const code = (url.searchParams.get('code') || '').trim().toUpperCase();
+  if (!isFingerprintCode(code)) {
+    return ApiErrors.badRequest('Invalid code: expected FW- and ten letters or digits');
+  }
+
+  try {
+    const fingerprint = await d1GetFingerprint(db, code);
+    if (!fingerprint) return ApiErrors.notFound('No download was stamped with this code');
+
+    const [order, release, files, downloads] = await Promise.all([
+      getDocument('orders', fingerprint.orderId),
+      getDocument('releases', fingerprint.releaseId),
+      d1GetOrderFingerprints(db, fingerprint.orderId),
+      d1GetOrderDownloads(db, fingerprint.orderId),
+    ]);
+
+    const customer = (order?.customer || {}) as Record<string, unknown>;
+    const customerName = [customer.firstName, customer.lastName].filter(Boolean).join(' ') || (customer.name as string) || null;
+
+    return successResponse({
+      fingerprint,
+      order: order ? {
+        id: fingerprint.orderId,
+        orderNumber: (order.orderNumber as string) || fingerprint.orderNumber,
+        createdAt: (order.createdAt as string) || null,
+        paymentStatus: (order.paymentStatus as string) || null,
+        customer: {
+          userId: (customer.userId as string) || fingerprint.userId,
+          name: customerName,
+          email: (customer.email as string) || fingerprint.customerEmail,
+        },
+      } : null,
+      release: release ? {
+        id: fingerprint.releaseId,
+        artistName: (release.artistName as string) || null,
+        releaseName: (release.releaseName as string) || null,
+      } : null,
+      files: files.filter(f => f.releaseId === fingerprint.releaseId),
+      downloads: downloads.filter(d => d.releaseId === fingerprint.releaseId),
+    });
+  } catch (error: unknown) {
+    log.error('[leak-trace] Error:', error);
+    return ApiErrors.serverError('Failed to trace code');
+  }
+};
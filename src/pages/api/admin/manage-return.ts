@@ -9,7 +9,6 @@ import { parseJsonBody, fetchWithTimeout, ApiErrors, createLogger, successRespon
 import { formatPrice } from '../../../lib/format-utils';
 
 const log = createLogger('admin/manage-return');
-import { refundOrderStock } from '../../../lib/order-utils';
 import { checkRateLimit, getClientId, rateLimitResponse, RateLimiters } from '../../../lib/rate-limit';
 
 const manageReturnPostSchema = z.object({
@@ -17,6 +16,16 @@ const manageReturnPostSchema = z.object({
   action: z.enum(['approve', 'reject', 'received', 'refund']),
   notes: z.string().optional(),
   refundAmount: z.number().positive().optional(),
+  // Per-line override of what the return refunds (defaults to its items) and
+  // whether each comes back into stock
+  refundItems: z.array(z.object({
+    id: z.string().min(1),
+    quantity: z.number().int().positive().optional(),
+    restock: z.boolean().optional(),
+  }).strip()).optional(),
+  refundShipping: z.boolean().optional(),
+  // Refund to the card (default) or keep it as store credit
+  refundTo: z.enum(['card', 'wallet']).optional(),
   adminKey: z.string().optional(),
 });
 
@@ -43,7 +52,7 @@ export const POST: APIRoute = async ({ request, locals }) => {
       return ApiErrors.badRequest('Invalid request');
     }
 
-    const { returnId, action, notes, refundAmount } = parsed.data;
+    const { returnId, action, notes, refundAmount, refundItems, refundShipping, refundTo } = parsed.data;
 
     const returnRequest = await getDocument('returns', returnId);
     if (!returnRequest) {
@@ -100,13 +109,24 @@ export const POST: APIRoute = async ({ request, locals }) => {
         break;
 
       case 'refund':
-        // Process refund via Stripe
+        // Process refund via Stripe, or to the customer's store credit
         const order = await getDocument('orders', returnRequest.orderId);
-        if (!order?.paymentIntentId) {
+        if (!order) {
+          return ApiErrors.notFound('Order not found');
+        }
+        if (refundTo !== 'wallet' && !order.paymentIntentId) {
           return ApiErrors.badRequest('Cannot refund - no payment intent found');
         }
 
-        const finalRefundAmount = refundAmount || returnRequest.refundAmount;
+        // Returned lines refund by line (amount, restock, ledger and payout
+        // reversal all follow from them); a return without lines refunds an amount
+        const returnLines = refundItems || (returnRequest.items || [])
+          .map((item: Record<string, unknown>) => ({
+            id: String(item.id || item.releaseId || item.productId || ''),
+            quantity: Number(item.quantity) || undefined,
+            restock: typeof item.restock === 'boolean' ? item.restock : undefined,
+          }))
+          .filter((line: { id: string }) => line.id);
 
         // Call the process-refund endpoint
         const origin = new URL(request.url).origin;
@@ -115,9 +135,11 @@ export const POST: APIRoute = async ({ request, locals }) => {
           headers: { 'Content-Type': 'application/json' },
           body: JSON.stringify({
             orderId: returnRequest.orderId,
-            amount: finalRefundAmount,
+            ...(returnLines.length > 0
+              ? { refundItems: returnLines, refundShipping: refundShipping ?? !!returnRequest.refundShipping }
+              : { amount: refundAmount || returnRequest.refundAmount }),
             reason: 'requested_by_customer',
-            refundItems: returnRequest.items,
+            refundTo,
             adminKey: body.adminKey
           })
         }, 10000);
@@ -132,28 +154,19 @@ export const POST: APIRoute = async ({ request, locals }) => {
         updateData.status = 'refunded';
         updateData.refundedAt = now;
         updateData.refundId = refundResult.refundId;
+        // process-refund has restocked the lines marked for it
+        const finalRefundAmount = refundResult.amount;
         updateData.finalRefundAmount = finalRefundAmount;
 
-        // Restore stock
-        if (returnRequest.items?.length > 0) {
-          try {
-            await refundOrderStock(
-              returnRequest.orderId,
-              returnRequest.items,
-              returnRequest.orderNumber
-            );
-          } catch (stockErr: unknown) {
-            log.error('Stock restore error:', stockErr);
-          }
-        }
-
         emailSubject = `Refund Processed - ${esc(returnRequest.rmaNumber)}`;
         emailContent = `
           <p>Your refund has been processed!</p>
           <div style="background-color: #1f1f1f; padding: 20px; border-radius: 8px; margin: 20px 0;">
             <p style="margin: 0;"><strong>Refund Amount:</strong> ${formatPrice(finalRefundAmount)}</p>
           </div>
-          <p>The funds will appear in your account within 5-10 business days depending on your bank.</p>
+          ${refundResult.refundTo === 'wallet'
+            ? '<p>The funds have been added to your Fresh Wax store credit and are ready to spend now.</p>'
+            : '<p>The funds will appear in your account within 5-10 business days depending on your bank.</p>'}
           <p>Thank you for your patience!</p>
         `;
         break;
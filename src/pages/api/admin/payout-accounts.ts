@@ -0,0 +1,124 @@
+// src/pages/api/admin/payout-accounts.ts
+// Admin API for seller payout verification (lib/payout-verification.ts).
+// GET ?state=unverified|pending|restricted|all — sellers who can't currently
+//   be paid, most money waiting first, with counts per state.
+// GET ?entityType=&entityId= — one seller's state and transition history.
+// POST { action: 'hold', entityType, entityId, reason } stops all payouts to
+//   a seller; { action: 'release' } lifts the hold; { action: 'sync' }
+//   re-derives one seller's state; { action: 'scan' } syncs every seller
+//   with unpaid earnings waiting.
+
+import type { APIRoute } from 'astro';
+import { z } from 'zod';
+import { verifyRequestUser } from '../../../lib/firebase-rest';
+import { requireAdminAuth } from '../../../lib/admin';
+import {
+  getPayoutAccountHistory, getPayoutAccountsDashboard, setPayoutHold, syncPayoutState, syncSellersWithUnpaidEarnings,
+} from '../../../lib/payout-verification';
+import { checkRateLimit, getClientId, rateLimitResponse, RateLimiters } from '../../../lib/rate-limit';
+import { parseJsonBody, ApiErrors, createLogger, successResponse } from '../../../lib/api-utils';
+
+const log = createLogger('admin/payout-accounts');
+
+export const prerender = false;
+
+const STATES = ['unverified', 'pending', 'restricted', 'all'] as const;
+const ENTITY_TYPES = ['artist', 'supplier', 'user'] as const;
+
+const payoutAccountsPostSchema = z.discriminatedUnion('action', [
+  z.object({
+    action: z.literal('hold'),
+    entityType: z.enum(ENTITY_TYPES),
+    entityId: z.string().min(1).max(200),
+    reason: z.string().min(1, 'A reason is required').max(500),
+    adminKey: z.string().optional(),
+  }),
+  z.object({
+    action: z.enum(['release', 'sync']),
+    entityType: z.enum(ENTITY_TYPES),
+    entityId: z.string().min(1).max(200),
+    adminKey: z.string().optional(),
+  }),
+  z.object({
+    action: z.literal('scan'),
+    adminKey: z.string().optional(),
+  }),
+]);
+
+export const GET: APIRoute = async ({ request, url, locals }) => {
+  const clientId = getClientId(request);
+  const rateCheck = checkRateLimit(`payout-accounts:${clientId}`, RateLimiters.admin);
+  if (!rateCheck.allowed) return rateLimitResponse(rateCheck.retryAfter!);
+
+  const authError = await requireAdminAuth(request, locals);
+  if (authError) return authError;
+
+  const db = locals?.runtime?.env?.DB;
+
+  try {
+    const entityType = url.searchParams.get('entityType');
+    const entityId = url.searchParams.get('entityId');
+    if (entityType || entityId) {
+      if (!ENTITY_TYPES.includes(entityType as typeof ENTITY_TYPES[number]) || !entityId) {
+        return ApiErrors.badRequest('entityType and entityId required');
+      }
+      const history = await getPayoutAccountHistory(db, entityType as typeof ENTITY_TYPES[number], entityId);
+      return successResponse(history);
+    }
+
+    const state = url.searchParams.get('state') || 'all';
+    if (!STATES.includes(state as typeof STATES[number])) return ApiErrors.badRequest('Invalid state');
+
+    const dashboard = await getPayoutAccountsDashboard(db, {
+      state: state === 'all' ? undefined : state as Exclude<typeof STATES[number], 'all'>,
+    });
+    return successResponse({ state, ...dashboard });
+  } catch (error: unknown) {
+    log.error('[payout-accounts] Error:', error);
+    return ApiErrors.serverError('Failed to load payout accounts');
+  }
+};
+
+export const POST: APIRoute = async ({ request, locals }) => {
+  const clientId = getClientId(request);
+  const rateCheck = checkRateLimit(`payout-accounts:${clientId}`, RateLimiters.admin);
+  if (!rateCheck.allowed) return rateLimitResponse(rateCheck.retryAfter!);
+
+  const body = await parseJsonBody<Record<string, unknown>>(request);
+  const authError = await requireAdminAuth(request, locals, body ?? undefined);
+  if (authError) return authError;
+
+  const parsed = payoutAccountsPostSchema.safeParse(body);
+  if (!parsed.success) {
+    return ApiErrors.badRequest('Invalid request: ' + parsed.error.issues.map(i => i.message).join(', '));
+  }
+  const input = parsed.data;
+  const env = (locals?.runtime?.env || {}) as unknown as Record<string, unknown>;
+
+  try {
+    if (input.action === 'scan') {
+      const outcome = await syncSellersWithUnpaidEarnings(env);
+      return successResponse(outcome);
+    }
+
+    if (input.action === 'sync') {
+      const status = await syncPayoutState(env, input.entityType, input.entityId, { source: 'admin_sync' });
+      if (!status) return ApiErrors.notFound('Seller not found');
+      return successResponse({ status });
+    }
+
+    const { userId: adminUid } = await verifyRequestUser(request);
+    const result = await setPayoutHold(env, input.entityType, input.entityId, {
+      on: input.action === 'hold',
+      reason: input.action === 'hold' ? input.reason : undefined,
+      adminId: adminUid || 'admin',
+    });
+    if (!result.success) {
+      return result.error === 'Seller not found' ? ApiErrors.notFound(result.error) : ApiErrors.badRequest(result.error || 'Could not update hold');
+    }
+    return successResponse({ status: result.status });
+  } catch (error: unknown) {
+    log.error('[payout-accounts] Error:', error);
+    return ApiErrors.serverError('Failed to update payout account');
+  }
+};
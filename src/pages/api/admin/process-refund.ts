@@ -1,5 +1,6 @@
 // src/pages/api/admin/process-refund.ts
-// Admin API endpoint to process Stripe refunds
+// Admin API endpoint to process refunds — back to the card via Stripe, or
+// to the customer's store credit wallet
 
 import type { APIRoute } from 'astro';
 import { z } from 'zod';
@@ -8,17 +9,28 @@ import { getDocument, updateDocument, addDocument } from '../../../lib/firebase-
 import { requireAdminAuth } from '../../../lib/admin';
 import { parseJsonBody, fetchWithTimeout, ApiErrors, createLogger, successResponse } from '../../../lib/api-utils';
 import { formatPrice } from '../../../lib/format-utils';
+import { formatMoney } from '../../../lib/currency';
+import { refundChargeAmount } from '../../../lib/order/currency';
 const log = createLogger('[process-refund]');
-import { refundOrderStock } from '../../../lib/order-utils';
+import { planLineRefund, planRemainingRefund, settleLineRefund } from '../../../lib/order-utils';
+import type { LineRefundPlan } from '../../../lib/order-utils';
 import { checkRateLimit, getClientId, rateLimitResponse, RateLimiters } from '../../../lib/rate-limit';
+import { refundToWallet } from '../../../lib/wallet';
 
 const processRefundSchema = z.object({
   orderId: z.string().min(1),
   amount: z.union([z.number().positive(), z.literal('full'), z.null()]).optional(),
   reason: z.enum(['duplicate', 'fraudulent', 'requested_by_customer']).optional(),
+  // Line-item refund: the amount comes from the lines (and shipping), and
+  // each line is restocked unless `restock: false`
   refundItems: z.array(z.object({
     id: z.string().min(1),
+    quantity: z.number().int().positive().optional(),
+    restock: z.boolean().optional(),
   }).strip()).optional(),
+  refundShipping: z.boolean().optional(),
+  // 'wallet' keeps the money as store credit instead of returning it to the card
+  refundTo: z.enum(['card', 'wallet']).optional(),
   adminKey: z.string().optional(),
 });
 
@@ -35,11 +47,7 @@ export const POST: APIRoute = async ({ request, locals }) => {
 
   const env = locals.runtime.env;
 
-
   const stripeSecretKey = env?.STRIPE_SECRET_KEY || import.meta.env.STRIPE_SECRET_KEY;
-  if (!stripeSecretKey) {
-    return ApiErrors.serverError('Stripe not configured');
-  }
 
   try {
     const parsed = processRefundSchema.safeParse(body);
@@ -47,7 +55,8 @@ export const POST: APIRoute = async ({ request, locals }) => {
       return ApiErrors.badRequest('Invalid request');
     }
 
-    const { orderId, amount, reason, refundItems } = parsed.data;
+    const { orderId, amount, reason, refundItems, refundShipping } = parsed.data;
+    const toWallet = parsed.data.refundTo === 'wallet';
 
     // Get order data
     const order = await getDocument('orders', orderId);
@@ -55,10 +64,20 @@ export const POST: APIRoute = async ({ request, locals }) => {
       return ApiErrors.notFound('Order not found');
     }
 
-    // Check if order has a payment intent
+    // A card refund needs the payment intent; a wallet refund needs an account to credit
     const paymentIntentId = order.paymentIntentId;
-    if (!paymentIntentId) {
-      return ApiErrors.badRequest('Order has no payment intent - cannot refund');
+    const customerUserId = String((order.customer as Record<string, unknown> | undefined)?.userId || order.customerId || '');
+    if (toWallet) {
+      if (!customerUserId) {
+        return ApiErrors.badRequest('Order has no customer account - cannot refund to store credit');
+      }
+    } else {
+      if (!stripeSecretKey) {
+        return ApiErrors.serverError('Stripe not configured');
+      }
+      if (!paymentIntentId) {
+        return ApiErrors.badRequest('Order has no payment intent - cannot refund');
+      }
     }
 
     // Check if already fully refunded
@@ -66,20 +85,34 @@ export const POST: APIRoute = async ({ request, locals }) => {
       return ApiErrors.badRequest('Order already fully refunded');
     }
 
-    const stripe = new Stripe(stripeSecretKey, { apiVersion: '2024-12-18.acacia' });
-
-    // Calculate refund amount
+    // Calculate refund amount. Order totals are GBP; the card refund is in
+    // whatever the buyer was charged in (refundChargeAmount below)
     const orderTotal = order.totals?.total || 0;
     const previouslyRefunded = order.refundedAmount || 0;
     const maxRefundable = Math.round((orderTotal - previouslyRefunded) * 100); // Convert to pence
 
     let refundAmountPence: number;
     let isFullRefund = false;
+    // Which lines the refund covers, for stock, ledger and payout reversal.
+    // A bare partial amount (goodwill) touches none of them.
+    let plan: LineRefundPlan | undefined;
 
-    if (amount === undefined || amount === null || amount === 'full') {
+    if (refundItems && refundItems.length > 0) {
+      const planned = planLineRefund(order, refundItems, { refundShipping });
+      if (!planned.plan) {
+        return ApiErrors.badRequest(planned.error || 'Invalid refund items');
+      }
+      plan = planned.plan;
+      refundAmountPence = Math.round(plan.amount * 100);
+      if (refundAmountPence > maxRefundable) {
+        return ApiErrors.badRequest(`Refund amount exceeds maximum refundable (${formatPrice(maxRefundable / 100)})`);
+      }
+      isFullRefund = refundAmountPence === maxRefundable && previouslyRefunded === 0;
+    } else if (amount === undefined || amount === null || amount === 'full') {
       // Full refund of remaining amount
       refundAmountPence = maxRefundable;
       isFullRefund = previouslyRefunded === 0;
+      plan = planRemainingRefund(order).plan;
     } else {
       // Partial refund
       refundAmountPence = Math.round(parseFloat(amount) * 100);
@@ -93,22 +126,52 @@ export const POST: APIRoute = async ({ request, locals }) => {
       return ApiErrors.badRequest('Invalid refund amount');
     }
 
-    // Create Stripe refund
-    const refund = await stripe.refunds.create({
-      payment_intent: paymentIntentId,
-      amount: refundAmountPence,
-      reason: reason === 'duplicate' ? 'duplicate' :
-              reason === 'fraudulent' ? 'fraudulent' :
-              'requested_by_customer',
-      metadata: {
+    const refundAmountPounds = refundAmountPence / 100;
+    // Wallet refunds still count against the charge, so a later card refund
+    // can't take back more than is left of it
+    const charge = refundChargeAmount(order, refundAmountPounds, plan);
+    let refundId: string;
+    let stripeChargeId: string | null = null;
+
+    if (toWallet) {
+      refundId = `wallet_${Date.now().toString(36)}_${Math.random().toString(36).slice(2, 8)}`;
+      const credited = await refundToWallet(env?.DB, {
+        userId: customerUserId,
+        amount: refundAmountPounds,
+        refundId,
         orderId,
-        orderNumber: order.orderNumber || '',
-        adminRefund: 'true',
-        platform: 'freshwax'
+        orderNumber: order.orderNumber as string | undefined,
+        paymentMethod: order.paymentMethod as string | undefined,
+        // settleLineRefund below reverses the sale in the journal
+        reversed: !!plan,
+      });
+      if (!credited.success) {
+        log.error('[process-refund] Wallet refund failed:', credited.error);
+        return ApiErrors.serverError('Failed to refund to store credit');
       }
-    });
+    } else {
+      // Create Stripe refund
+      const stripe = new Stripe(stripeSecretKey, { apiVersion: '2024-12-18.acacia' });
+      const refund = await stripe.refunds.create({
+        payment_intent: paymentIntentId,
+        amount: charge.minorUnits,
+        reason: reason === 'duplicate' ? 'duplicate' :
+                reason === 'fraudulent' ? 'fraudulent' :
+                'requested_by_customer',
+        metadata: {
+          orderId,
+          orderNumber: order.orderNumber || '',
+          adminRefund: 'true',
+          // settleLineRefund below claws back payouts and reverses
+          // recoupments, so the charge.refunded webhook must not do it again
+          payoutsSettled: plan ? 'true' : 'false',
+          platform: 'freshwax'
+        }
+      });
+      refundId = refund.id;
+      stripeChargeId = typeof refund.charge === 'string' ? refund.charge : refund.charge?.id || null;
+    }
 
-    const refundAmountPounds = refundAmountPence / 100;
     const totalRefunded = previouslyRefunded + refundAmountPounds;
     const newRefundStatus = totalRefunded >= orderTotal ? 'full' : 'partial';
 
@@ -116,8 +179,10 @@ export const POST: APIRoute = async ({ request, locals }) => {
     await updateDocument('orders', orderId, {
       refundStatus: newRefundStatus,
       refundedAmount: totalRefunded,
+      refundedPresentmentAmount: charge.refunded,
       lastRefundAt: new Date().toISOString(),
-      lastRefundId: refund.id,
+      lastRefundId: refundId,
+      ...(plan ? { refundedQuantities: plan.refundedQuantities, shippingRefunded: plan.shippingRefunded } : {}),
       updatedAt: new Date().toISOString()
     });
 
@@ -125,40 +190,44 @@ export const POST: APIRoute = async ({ request, locals }) => {
     await addDocument('refunds', {
       orderId,
       orderNumber: order.orderNumber || '',
-      stripeRefundId: refund.id,
-      stripePaymentIntentId: paymentIntentId,
+      refundTo: toWallet ? 'wallet' : 'card',
+      stripeRefundId: toWallet ? null : refundId,
+      stripeChargeId,
+      stripePaymentIntentId: paymentIntentId || null,
+      payoutsSettled: !!plan,
+      // GBP settlement figure, as in the ledger, and what the buyer's own
+      // currency saw
       amount: refundAmountPounds,
-      currency: 'gbp',
+      presentmentCurrency: charge.currency,
+      presentmentAmount: charge.amount,
       reason: reason || 'requested_by_customer',
       isFullRefund,
-      refundItems: refundItems || null,
+      refundItems: plan ? plan.lines.map(line => ({
+        id: line.item.id || line.item.releaseId || line.item.productId || '',
+        name: line.item.name || line.item.title || '',
+        quantity: line.quantity,
+        restock: line.restock,
+        amount: line.amount,
+      })) : null,
+      refundShipping: plan ? plan.shipping : 0,
       customerEmail: order.customer?.email || '',
       customerName: `${order.customer?.firstName || ''} ${order.customer?.lastName || ''}`.trim(),
       status: 'completed',
       createdAt: new Date().toISOString()
     });
 
-    // Restore stock if full refund or specific items refunded
-    if (isFullRefund && order.items) {
-      try {
-        await refundOrderStock(orderId, order.items, order.orderNumber || orderId);
-        log.info('[process-refund] Stock restored for full refund');
-      } catch (stockErr: unknown) {
-        log.error('[process-refund] Stock restore error:', stockErr);
-      }
-    } else if (refundItems && refundItems.length > 0) {
-      // Partial refund with specific items
-      try {
-        const itemsToRefund = order.items.filter((item: Record<string, unknown>) =>
-          refundItems.some((ri: Record<string, unknown>) => ri.id === item.id || ri.id === item.releaseId)
-        );
-        if (itemsToRefund.length > 0) {
-          await refundOrderStock(orderId, itemsToRefund, order.orderNumber || orderId);
-          log.info('[process-refund] Stock restored for refunded items');
-        }
-      } catch (stockErr: unknown) {
-        log.error('[process-refund] Partial stock restore error:', stockErr);
-      }
+    // Restock, reverse the ledger and royalties, claw back artist payouts
+    let clawedBack = 0;
+    if (plan) {
+      const settled = await settleLineRefund({
+        orderId,
+        order,
+        plan,
+        refundId,
+        env: env as unknown as Record<string, unknown>,
+      });
+      clawedBack = settled.clawbacks.reduce((sum, c) => sum + c.amount, 0);
+      log.info('[process-refund] Refund settled', { lines: plan.lines.length, ledgerEntries: settled.ledgerIds.length, clawedBack });
     }
 
     // Send refund confirmation email
@@ -181,10 +250,12 @@ export const POST: APIRoute = async ({ request, locals }) => {
                 <p>Hi ${order.customer.firstName || 'there'},</p>
                 <p>We've processed a ${isFullRefund ? 'full' : 'partial'} refund for your order <strong>${order.orderNumber || orderId}</strong>.</p>
                 <div style="background-color: #1f1f1f; padding: 20px; border-radius: 8px; margin: 20px 0;">
-                  <p style="margin: 0;"><strong>Refund Amount:</strong> ${formatPrice(refundAmountPounds)}</p>
-                  ${!isFullRefund ? `<p style="margin: 10px 0 0;"><strong>Total Refunded:</strong> ${formatPrice(totalRefunded)}</p>` : ''}
+                  <p style="margin: 0;"><strong>Refund Amount:</strong> ${toWallet ? formatPrice(refundAmountPounds) : formatMoney(charge.amount, charge.currency)}</p>
+                  ${!isFullRefund ? `<p style="margin: 10px 0 0;"><strong>Total Refunded:</strong> ${toWallet ? formatPrice(totalRefunded) : formatMoney(charge.refunded, charge.currency)}</p>` : ''}
                 </div>
-                <p>The refund will appear in your account within 5-10 business days depending on your bank.</p>
+                ${toWallet
+                  ? '<p>The refund has been added to your Fresh Wax store credit and is ready to spend now.</p>'
+                  : '<p>The refund will appear in your account within 5-10 business days depending on your bank.</p>'}
                 <p style="color: #737373; font-size: 12px; margin-top: 30px;">Fresh Wax - Underground Music</p>
               </div>
             `
@@ -200,11 +271,15 @@ export const POST: APIRoute = async ({ request, locals }) => {
       }
     }
 
-    return successResponse({ refundId: refund.id,
+    return successResponse({ refundId,
+      refundTo: toWallet ? 'wallet' : 'card',
       amount: refundAmountPounds,
+      charged: { currency: charge.currency, amount: charge.amount },
       totalRefunded,
       refundStatus: newRefundStatus,
-      isFullRefund });
+      isFullRefund,
+      refundedLines: plan ? plan.lines.length : 0,
+      clawedBack });
 
   } catch (error: unknown) {
     log.error('[process-refund] Error:', error);
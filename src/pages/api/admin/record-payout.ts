@@ -10,6 +10,7 @@ import { getAdminFirebaseContext } from '../../../lib/firebase/admin-context';
 import { checkRateLimit, getClientId, rateLimitResponse, RateLimiters } from '../../../lib/rate-limit';
 import { ApiErrors, createLogger, successResponse } from '../../../lib/api-utils';
 import { formatPrice } from '../../../lib/format-utils';
+import { postPayoutToJournal } from '../../../lib/journal';
 
 const log = createLogger('[record-payout]');
 
@@ -119,6 +120,16 @@ export const POST: APIRoute = async ({ request, locals }) => {
         }
       );
 
+      // Paid outside the system, so it settles against the 'manual' clearing party
+      await postPayoutToJournal(locals.runtime?.env?.DB, {
+        payoutId,
+        sellerId: payment.artistId,
+        sellerKind: 'artist',
+        amount: payment.amount,
+        method: 'manual',
+        orderId,
+      });
+
       results.push({
         artistId: payment.artistId,
         artistName: payment.artistName,
@@ -8,6 +8,7 @@ import { getDocument, updateDocument, addDocument } from '../../../lib/firebase-
 import { requireAdminAuth } from '../../../lib/admin';
 import { checkRateLimit, getClientId, rateLimitResponse, RateLimiters } from '../../../lib/rate-limit';
 import { createLogger, ApiErrors, successResponse } from '../../../lib/api-utils';
+import { postPayoutToJournal } from '../../../lib/journal';
 
 const RetryPayoutSchema = z.object({
   payoutId: z.string().min(1),
@@ -120,6 +121,15 @@ export const POST: APIRoute = async ({ request, locals }) => {
         completedAt: new Date().toISOString()
       });
 
+      await postPayoutToJournal(env?.DB, {
+        payoutId: transfer.id,
+        sellerId: pendingPayout.artistId as string,
+        sellerKind: 'artist',
+        amount: Number(pendingPayout.amount) || 0,
+        method: 'stripe',
+        orderId: pendingPayout.orderId as string,
+      });
+
       // Update artist's total earnings
       await updateDocument('artists', pendingPayout.artistId, {
         totalEarnings: (artist.totalEarnings || 0) + (pendingPayout.amount || 0),
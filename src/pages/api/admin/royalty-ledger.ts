@@ -1,9 +1,11 @@
 // src/pages/api/admin/royalty-ledger.ts
-// Get royalty ledger entries for admin dashboard
+// Get royalty ledger entries for admin dashboard, plus artist advances and
+// how far each has been recouped (lib/advances.ts)
 
 import type { APIRoute } from 'astro';
 import { requireAdminAuth } from '../../../lib/admin';
 import { d1GetRoyaltyLedger } from '../../../lib/d1-catalog';
+import { getAdvancesOverview } from '../../../lib/advances';
 import { createLogger, successResponse, ApiErrors } from '../../../lib/api-utils';
 import { checkRateLimit, getClientId, rateLimitResponse, RateLimiters } from '../../../lib/rate-limit';
 
@@ -32,9 +34,12 @@ export const GET: APIRoute = async ({ request, url, locals }) => {
     const limit = parseInt(url.searchParams.get('limit') || '200');
     const offset = parseInt(url.searchParams.get('offset') || '0');
 
-    const result = await d1GetRoyaltyLedger(db, { brandName, status, limit, offset });
+    const [result, advances] = await Promise.all([
+      d1GetRoyaltyLedger(db, { brandName, status, limit, offset }),
+      getAdvancesOverview(db),
+    ]);
 
-    return successResponse(result);
+    return successResponse({ ...result, advances });
   } catch (error: unknown) {
     log.error('[royalty-ledger] Error:', error);
     return ApiErrors.serverError('Failed to fetch royalty ledger');
@@ -0,0 +1,175 @@
+// src/pages/api/admin/settlements.ts
+// Admin API for processor settlement reconciliation
+// (lib/settlement-reconciliation.ts).
+// GET ?processor=stripe&from=2026-09-01&to=2026-10-01 — report lines for the
+//   period matched against the ledger: missing, duplicate and fee-mismatched
+//   payments, with any resolutions, plus recent imports.
+// POST { action: 'importCsv' } stores an uploaded Stripe/PayPal report;
+//   { action: 'fetch' } pulls the same from the processor API;
+//   { action: 'resolve' } corrects (fee adjustment / duplicate reversal,
+//   posted to the journal) or acknowledges an issue, with an audit row.
+
+import type { APIRoute } from 'astro';
+import { z } from 'zod';
+import { verifyRequestUser } from '../../../lib/firebase-rest';
+import { requireAdminAuth } from '../../../lib/admin';
+import { d1GetSettlementImports } from '../../../lib/d1/settlements';
+import {
+  SETTLEMENT_PROCESSORS, fetchPayPalSettlements, fetchStripeSettlements, getReconciliationReport,
+  importSettlementReport, parseSettlementCsv, resolveIssue,
+} from '../../../lib/settlement-reconciliation';
+import { checkRateLimit, getClientId, rateLimitResponse, RateLimiters } from '../../../lib/rate-limit';
+import { parseJsonBody, ApiErrors, createLogger, successResponse } from '../../../lib/api-utils';
+
+const log = createLogger('admin/settlements');
+
+export const prerender = false;
+
+// Uploaded reports arrive as CSV text inside the JSON body
+const MAX_CSV_LENGTH = 5_000_000;
+const MAX_PERIOD_DAYS = 366;
+
+const processor = z.enum(['stripe', 'paypal']);
+const isoDate = z.string().refine(v => !isNaN(Date.parse(v)), 'Invalid date');
+
+const settlementsPostSchema = z.discriminatedUnion('action', [
+  z.object({
+    action: z.literal('importCsv'),
+    processor,
+    csv: z.string().min(1).max(MAX_CSV_LENGTH),
+    filename: z.string().max(200).optional(),
+    adminKey: z.string().optional(),
+  }),
+  z.object({
+    action: z.literal('fetch'),
+    processor,
+    from: isoDate,
+    to: isoDate,
+    adminKey: z.string().optional(),
+  }),
+  z.object({
+    action: z.literal('resolve'),
+    processor,
+    from: isoDate,
+    to: isoDate,
+    issueKey: z.string().min(1).max(300),
+    resolution: z.enum(['correct', 'acknowledge']),
+    note: z.string().max(500).optional(),
+    adminKey: z.string().optional(),
+  }),
+]);
+
+// Validate a [from, to) period and normalise it to ISO timestamps
+function period(from: string, to: string): { from: string; to: string } | string {
+  const start = Date.parse(from);
+  const end = Date.parse(to);
+  if (isNaN(start) || isNaN(end)) return 'Invalid from/to date';
+  if (end <= start) return 'to must be after from';
+  if (end - start > MAX_PERIOD_DAYS * 86400000) return `Period can be at most ${MAX_PERIOD_DAYS} days`;
+  return { from: new Date(start).toISOString(), to: new Date(end).toISOString() };
+}
+
+export const GET: APIRoute = async ({ request, url, locals }) => {
+  const clientId = getClientId(request);
+  const rateCheck = checkRateLimit(`settlements:${clientId}`, RateLimiters.admin);
+  if (!rateCheck.allowed) return rateLimitResponse(rateCheck.retryAfter!);
+
+  const authError = await requireAdminAuth(request, locals);
+  if (authError) return authError;
+
+  const db = locals?.runtime?.env?.DB;
+  if (!db) return ApiErrors.serverError('Database not available');
+
+  const proc = url.searchParams.get('processor') || 'stripe';
+  if (!SETTLEMENT_PROCESSORS.includes(proc as 'stripe' | 'paypal')) return ApiErrors.badRequest('Invalid processor');
+  const range = period(url.searchParams.get('from') || '', url.searchParams.get('to') || '');
+  if (typeof range === 'string') return ApiErrors.badRequest(range);
+
+  try {
+    const [report, imports] = await Promise.all([
+      getReconciliationReport(db, proc as 'stripe' | 'paypal', range.from, range.to),
+      d1GetSettlementImports(db, 20),
+    ]);
+    return successResponse({
+      processor: proc,
+      ...range,
+      summary: report.summary,
+      issues: report.issues,
+      imports,
+    });
+  } catch (error: unknown) {
+    log.error('[settlements] Error:', error);
+    return ApiErrors.serverError('Failed to reconcile settlements');
+  }
+};
+
+export const POST: APIRoute = async ({ request, locals }) => {
+  const clientId = getClientId(request);
+  const rateCheck = checkRateLimit(`settlements:${clientId}`, RateLimiters.admin);
+  if (!rateCheck.allowed) return rateLimitResponse(rateCheck.retryAfter!);
+
+  const body = await parseJsonBody<Record<string, unknown>>(request);
+  const authError = await requireAdminAuth(request, locals, body ?? undefined);
+  if (authError) return authError;
+
+  const parsed = settlementsPostSchema.safeParse(body);
+  if (!parsed.success) {
+    return ApiErrors.badRequest('Invalid request: ' + parsed.error.issues.map(i => i.message).join(', '));
+  }
+  const data = parsed.data;
+
+  const env = locals?.runtime?.env;
+  const db = env?.DB;
+  if (!db) return ApiErrors.serverError('Database not available');
+  const { userId: adminUid } = await verifyRequestUser(request);
+
+  try {
+    if (data.action === 'importCsv') {
+      let report;
+      try {
+        report = parseSettlementCsv(data.processor, data.csv);
+      } catch (parseError: unknown) {
+        return ApiErrors.badRequest(parseError instanceof Error ? parseError.message : 'Could not read CSV');
+      }
+      const result = await importSettlementReport(db, {
+        processor: data.processor, source: 'csv', report, filename: data.filename, adminId: adminUid || 'admin',
+      });
+      if (!result.success) return ApiErrors.serverError(result.error || 'Import failed');
+      return successResponse({ import: result.import });
+    }
+
+    const range = period(data.from, data.to);
+    if (typeof range === 'string') return ApiErrors.badRequest(range);
+
+    if (data.action === 'fetch') {
+      const fetchReport = data.processor === 'stripe' ? fetchStripeSettlements : fetchPayPalSettlements;
+      let report;
+      try {
+        report = await fetchReport(env as unknown as Record<string, unknown>, range.from, range.to);
+      } catch (fetchError: unknown) {
+        log.error(`[settlements] ${data.processor} fetch failed:`, fetchError);
+        return ApiErrors.serverError(fetchError instanceof Error ? fetchError.message : 'Fetch failed');
+      }
+      const result = await importSettlementReport(db, {
+        processor: data.processor, source: 'api', report,
+        periodStart: range.from, periodEnd: range.to, adminId: adminUid || 'admin',
+      });
+      if (!result.success) return ApiErrors.serverError(result.error || 'Import failed');
+      return successResponse({ import: result.import });
+    }
+
+    const result = await resolveIssue(db, {
+      processor: data.processor,
+      ...range,
+      issueKey: data.issueKey,
+      action: data.resolution,
+      adminId: adminUid || 'admin',
+      note: data.note,
+    });
+    if (!result.success) return ApiErrors.badRequest(result.error || 'Could not resolve issue');
+    return successResponse({ adjustment: result.adjustment });
+  } catch (error: unknown) {
+    log.error('[settlements] Error:', error);
+    return ApiErrors.serverError('Failed to update settlements');
+  }
+};
@@ -0,0 +1,148 @@
+// src/pages/api/admin/shipping-rules.ts
+// View and edit the D1 shipping rules (zones, countries, per-seller rate tables)
+// evaluated by every checkout endpoint and /api/shipping-quote
+
+import type { APIRoute } from 'astro';
+import { z } from 'zod';
+import { requireAdminAuth } from '../../../lib/admin';
+import {
+  d1GetShippingRules,
+  d1UpsertShippingZone,
+  d1UpsertShippingCountry,
+  d1UpsertShippingRate,
+  d1DeleteShippingRate,
+} from '../../../lib/d1-catalog';
+import { clearShippingRulesCache, DEFAULT_SHIPPING_RULES, SHIPPING_BANDS } from '../../../lib/order/shipping-rules';
+import { createLogger, successResponse, ApiErrors, parseJsonBody } from '../../../lib/api-utils';
+import { checkRateLimit, getClientId, rateLimitResponse, RateLimiters } from '../../../lib/rate-limit';
+
+const log = createLogger('shipping-rules');
+
+const zoneId = z.string().regex(/^[a-z0-9-]{1,32}$/);
+const money = z.number().min(0).max(500);
+
+const shippingRulesSchema = z.discriminatedUnion('action', [
+  z.object({
+    action: z.literal('upsertZone'),
+    id: zoneId,
+    name: z.string().min(1).max(100),
+    region: z.enum(['UK', 'EU', 'INTL']),
+  }),
+  z.object({
+    action: z.literal('upsertCountry'),
+    iso: z.string().regex(/^[A-Za-z]{2}$/),
+    name: z.string().min(1).max(100),
+    zoneId,
+    shippable: z.boolean(),
+    aliases: z.array(z.string().min(1).max(100)).max(10).optional(),
+  }),
+  z.object({
+    action: z.literal('upsertRate'),
+    sellerId: z.string().min(1).max(128).nullish(),
+    zoneId,
+    band: z.enum(SHIPPING_BANDS),
+    firstItem: money,
+    additionalItem: money,
+  }),
+  z.object({
+    action: z.literal('deleteRate'),
+    sellerId: z.string().min(1).max(128).nullish(),
+    zoneId,
+    band: z.enum(SHIPPING_BANDS),
+  }),
+]);
+
+export const prerender = false;
+
+export const GET: APIRoute = async ({ request, url, locals }) => {
+  const clientId = getClientId(request);
+  const rateCheck = checkRateLimit(`shipping-rules:${clientId}`, RateLimiters.admin);
+  if (!rateCheck.allowed) return rateLimitResponse(rateCheck.retryAfter!);
+
+  const authError = await requireAdminAuth(request, locals);
+  if (authError) return authError;
+
+  try {
+    const db = locals.runtime.env?.DB;
+    if (!db) {
+      return ApiErrors.serverError('D1 database not available');
+    }
+
+    const stored = await d1GetShippingRules(db);
+    const rules = stored || DEFAULT_SHIPPING_RULES;
+
+    // ?sellerId= narrows the rate table to that seller's rows + the defaults
+    const sellerId = url.searchParams.get('sellerId');
+    const rates = sellerId
+      ? rules.rates.filter(r => !r.sellerId || r.sellerId === sellerId)
+      : rules.rates;
+
+    return successResponse({ source: stored ? 'd1' : 'defaults', ...rules, rates });
+  } catch (error: unknown) {
+    log.error('[shipping-rules] Error:', error);
+    return ApiErrors.serverError('Failed to fetch shipping rules');
+  }
+};
+
+export const POST: APIRoute = async ({ request, locals }) => {
+  const clientId = getClientId(request);
+  const rateCheck = checkRateLimit(`shipping-rules:${clientId}`, RateLimiters.admin);
+  if (!rateCheck.allowed) return rateLimitResponse(rateCheck.retryAfter!);
+
+  const body = await parseJsonBody<Record<string, unknown>>(request);
+  const authError = await requireAdminAuth(request, locals, body ?? undefined);
+  if (authError) return authError;
+
+  try {
+    const db = locals.runtime.env?.DB;
+    if (!db) {
+      return ApiErrors.serverError('D1 database not available');
+    }
+
+    const parsed = shippingRulesSchema.safeParse(body);
+    if (!parsed.success) {
+      return ApiErrors.badRequest('Invalid shipping rule');
+    }
+
+    const data = parsed.data;
+    let saved = false;
+
+    if (data.action === 'upsertZone') {
+      saved = await d1UpsertShippingZone(db, { id: data.id, name: data.name, region: data.region });
+    } else if (data.action === 'upsertCountry') {
+      // A country must point at an existing zone or it would silently price as INTL
+      const rules = await d1GetShippingRules(db);
+      if (!rules?.zones.some(zone => zone.id === data.zoneId)) {
+        return ApiErrors.badRequest(`Unknown zone "${data.zoneId}"`);
+      }
+      saved = await d1UpsertShippingCountry(db, {
+        iso: data.iso.toUpperCase(),
+        name: data.name,
+        zoneId: data.zoneId,
+        shippable: data.shippable,
+        aliases: data.aliases || [],
+      });
+    } else if (data.action === 'upsertRate') {
+      saved = await d1UpsertShippingRate(db, {
+        sellerId: data.sellerId || null,
+        zoneId: data.zoneId,
+        band: data.band,
+        firstItem: data.firstItem,
+        additionalItem: data.additionalItem,
+      });
+    } else {
+      saved = await d1DeleteShippingRate(db, { sellerId: data.sellerId || null, zoneId: data.zoneId, band: data.band });
+    }
+
+    if (!saved) {
+      return ApiErrors.serverError('Failed to save shipping rule');
+    }
+
+    clearShippingRulesCache();
+    log.info('[shipping-rules]', data.action, 'saved');
+    return successResponse({ action: data.action });
+  } catch (error: unknown) {
+    log.error('[shipping-rules] Error:', error);
+    return ApiErrors.serverError('Failed to update shipping rules');
+  }
+};
@@ -0,0 +1,88 @@
+// src/pages/api/admin/split-sheets.ts
+// Admin API for release royalty split sheets (lib/split-sheets.ts).
+// GET ?releaseId= returns the sheets, whether they're locked by a sale and
+// the full change history. POST sets or removes a sheet on behalf of the
+// owner; once the release has sold a reason is required and the change is
+// recorded as an amendment after the first sale.
+
+import type { APIRoute } from 'astro';
+import { z } from 'zod';
+import { getDocument, verifyRequestUser } from '../../../lib/firebase-rest';
+import { requireAdminAuth } from '../../../lib/admin';
+import { checkRateLimit, getClientId, rateLimitResponse, RateLimiters } from '../../../lib/rate-limit';
+import { parseJsonBody, ApiErrors, createLogger, errorResponse, successResponse } from '../../../lib/api-utils';
+import { MAX_SPLIT_PAYEES, SPLIT_ROLES, getSplitSheetState, saveSplitSheet } from '../../../lib/split-sheets';
+import type { SplitRole } from '../../../lib/split-sheets';
+
+const log = createLogger('admin/split-sheets');
+
+export const prerender = false;
+
+const splitSheetPostSchema = z.object({
+  releaseId: z.string().min(1),
+  trackId: z.string().min(1).nullable().optional(),
+  shares: z.array(z.object({
+    artistId: z.string().min(1),
+    percentage: z.number().positive().max(100),
+    role: z.enum(SPLIT_ROLES as [SplitRole, ...SplitRole[]]).optional(),
+    name: z.string().max(100).optional(),
+  })).min(1).max(MAX_SPLIT_PAYEES).nullable(),
+  reason: z.string().max(500).optional(),
+  adminKey: z.string().optional(),
+});
+
+export const GET: APIRoute = async ({ request, url, locals }) => {
+  const clientId = getClientId(request);
+  const rateCheck = checkRateLimit(`split-sheets:${clientId}`, RateLimiters.admin);
+  if (!rateCheck.allowed) return rateLimitResponse(rateCheck.retryAfter!);
+
+  const authError = await requireAdminAuth(request, locals);
+  if (authError) return authError;
+
+  const releaseId = url.searchParams.get('releaseId');
+  if (!releaseId) return ApiErrors.badRequest('releaseId is required');
+
+  try {
+    const release = await getDocument('releases', releaseId);
+    if (!release) return ApiErrors.notFound('Release not found');
+    const db = locals?.runtime?.env?.DB;
+    return successResponse({ splitSheet: await getSplitSheetState(db, releaseId, release) });
+  } catch (error: unknown) {
+    log.error('[split-sheets] Error:', error);
+    return ApiErrors.serverError('Failed to load split sheet');
+  }
+};
+
+export const POST: APIRoute = async ({ request, locals }) => {
+  const clientId = getClientId(request);
+  const rateCheck = checkRateLimit(`split-sheets:${clientId}`, RateLimiters.admin);
+  if (!rateCheck.allowed) return rateLimitResponse(rateCheck.retryAfter!);
+
+  const body = await parseJsonBody<Record<string, unknown>>(request);
+  const authError = await requireAdminAuth(request, locals, body ?? undefined);
+  if (authError) return authError;
+
+  const parsed = splitSheetPostSchema.safeParse(body);
+  if (!parsed.success) {
+    return ApiErrors.badRequest('Invalid request: ' + parsed.error.issues.map(i => i.message).join(', '));
+  }
+  const { releaseId, trackId, shares, reason } = parsed.data;
+
+  try {
+    const { userId: adminUid } = await verifyRequestUser(request);
+    const db = locals?.runtime?.env?.DB;
+    const result = await saveSplitSheet(db, {
+      releaseId,
+      trackId: trackId ?? null,
+      shares,
+      changedBy: adminUid || 'admin',
+      isAdmin: true,
+      reason,
+    });
+    if (!result.success) return errorResponse(result.error, result.status);
+    return successResponse({ splitSheet: result.state });
+  } catch (error: unknown) {
+    log.error('[split-sheets] Error:', error);
+    return ApiErrors.serverError('Failed to save split sheet');
+  }
+};
@@ -0,0 +1,121 @@
+// src/pages/api/admin/trade-accounts.ts
+// Admin API for record shop trade accounts (lib/trade.ts).
+// GET lists accounts with their unpaid and overdue invoices.
+// POST { action: 'update' } changes an account's terms; { action: 'markPaid' }
+// records payment of a trade invoice, which releases the credit and books the
+// sale to the ledger and artist payouts.
+
+import type { APIRoute } from 'astro';
+import { z } from 'zod';
+import { queryCollection, updateDocument, verifyRequestUser } from '../../../lib/firebase-rest';
+import { requireAdminAuth } from '../../../lib/admin';
+import { checkRateLimit, getClientId, rateLimitResponse, RateLimiters } from '../../../lib/rate-limit';
+import { parseJsonBody, ApiErrors, createLogger, successResponse } from '../../../lib/api-utils';
+import { TRADE_ACCOUNTS_COLLECTION, getTradeAccount, isTradeOrderOverdue, markTradeOrderPaid } from '../../../lib/trade';
+import type { TradeOrderTerms } from '../../../lib/trade';
+
+const log = createLogger('admin/trade-accounts');
+
+export const prerender = false;
+
+const tradeAccountsPostSchema = z.discriminatedUnion('action', [
+  z.object({
+    action: z.literal('update'),
+    accountId: z.string().min(1),
+    creditLimit: z.number().min(0).max(100000).optional(),
+    termsDays: z.number().int().min(0).max(120).optional(),
+    shippingRate: z.number().min(0).max(500).optional(),
+    status: z.enum(['active', 'suspended']).optional(),
+    adminKey: z.string().optional(),
+  }),
+  z.object({
+    action: z.literal('markPaid'),
+    orderId: z.string().min(1),
+    reference: z.string().max(100).optional(),
+    adminKey: z.string().optional(),
+  }),
+]);
+
+export const GET: APIRoute = async ({ request, locals }) => {
+  const clientId = getClientId(request);
+  const rateCheck = checkRateLimit(`trade-accounts:${clientId}`, RateLimiters.admin);
+  if (!rateCheck.allowed) return rateLimitResponse(rateCheck.retryAfter!);
+
+  const authError = await requireAdminAuth(request, locals);
+  if (authError) return authError;
+
+  try {
+    const [accounts, unpaid] = await Promise.all([
+      queryCollection(TRADE_ACCOUNTS_COLLECTION, { skipCache: true }),
+      queryCollection('orders', {
+        filters: [{ field: 'paymentStatus', op: 'EQUAL', value: 'awaiting_payment' }],
+        skipCache: true,
+      }),
+    ]);
+
+    const now = new Date();
+    const invoices = unpaid
+      .filter(order => order.tradeAccountId)
+      .map(order => {
+        const trade = order.trade as TradeOrderTerms;
+        return {
+          orderId: order.id,
+          orderNumber: order.orderNumber,
+          accountId: order.tradeAccountId,
+          shopName: trade.shopName,
+          poNumber: trade.poNumber,
+          total: (order.totals as { total?: number } | undefined)?.total || 0,
+          createdAt: order.createdAt,
+          dueAt: trade.dueAt,
+          overdue: isTradeOrderOverdue(order, now),
+        };
+      })
+      .sort((a, b) => a.dueAt.localeCompare(b.dueAt));
+
+    return successResponse({
+      accounts,
+      invoices,
+      overdueTotal: Math.round(invoices.filter(i => i.overdue).reduce((sum, i) => sum + i.total, 0) * 100) / 100,
+    });
+  } catch (error: unknown) {
+    log.error('[trade-accounts] Error:', error);
+    return ApiErrors.serverError('Failed to load trade accounts');
+  }
+};
+
+export const POST: APIRoute = async ({ request, locals }) => {
+  const clientId = getClientId(request);
+  const rateCheck = checkRateLimit(`trade-accounts:${clientId}`, RateLimiters.admin);
+  if (!rateCheck.allowed) return rateLimitResponse(rateCheck.retryAfter!);
+
+  const body = await parseJsonBody<Record<string, unknown>>(request);
+  const authError = await requireAdminAuth(request, locals, body ?? undefined);
+  if (authError) return authError;
+
+  const parsed = tradeAccountsPostSchema.safeParse(body);
+  if (!parsed.success) {
+    return ApiErrors.badRequest('Invalid request: ' + parsed.error.issues.map(i => i.message).join(', '));
+  }
+  const data = parsed.data;
+
+  try {
+    if (data.action === 'update') {
+      const account = await getTradeAccount(data.accountId);
+      if (!account) return ApiErrors.notFound('Trade account not found');
+
+      const { action: _action, accountId: _accountId, adminKey: _adminKey, ...terms } = data;
+      await updateDocument(TRADE_ACCOUNTS_COLLECTION, account.id, { ...terms, updatedAt: new Date().toISOString() });
+      log.info(`Trade account ${account.id} updated`, terms);
+      return successResponse({ accountId: account.id, ...terms });
+    }
+
+    const { userId: adminUid } = await verifyRequestUser(request);
+    const env = locals?.runtime?.env as unknown as Record<string, unknown>;
+    const result = await markTradeOrderPaid(data.orderId, { adminId: adminUid || 'admin', reference: data.reference }, env || {});
+    if (!result.success) return ApiErrors.badRequest(result.error || 'Could not mark invoice paid');
+    return successResponse({ orderId: data.orderId, paid: true });
+  } catch (error: unknown) {
+    log.error('[trade-accounts] Error:', error);
+    return ApiErrors.serverError('Failed to update trade account');
+  }
+};
@@ -0,0 +1,92 @@
+// src/pages/api/admin/transcode-jobs.ts
+// Admin view of the release-processor audio transcoding queue
+// (workers/release-processor/src/transcode-jobs.ts).
+// GET — jobs in flight, failed, or finished in the last day, with counts
+//   per status. ?releaseId= — every job for one release.
+// POST { action: 'retry', jobId } puts a failed job back in the queue with
+//   a fresh set of attempts, and its track back to "queued" (a DJ mix's
+//   analysis job has no track to reset).
+
+import type { APIRoute } from 'astro';
+import { z } from 'zod';
+import { getDocument, updateDocument } from '../../../lib/firebase-rest';
+import { requireAdminAuth } from '../../../lib/admin';
+import {
+  d1CountTranscodeJobsByStatus, d1GetActiveTranscodeJobs, d1GetReleaseTranscodeJobs, d1RequeueTranscodeJob,
+} from '../../../lib/d1/transcode-jobs';
+import { checkRateLimit, getClientId, rateLimitResponse, RateLimiters } from '../../../lib/rate-limit';
+import { parseJsonBody, ApiErrors, createLogger, successResponse } from '../../../lib/api-utils';
+
+const log = createLogger('admin/transcode-jobs');
+
+export const prerender = false;
+
+const transcodeJobsPostSchema = z.object({
+  action: z.literal('retry'),
+  jobId: z.string().min(1).max(300),
+  adminKey: z.string().optional(),
+});
+
+export const GET: APIRoute = async ({ request, url, locals }) => {
+  const clientId = getClientId(request);
+  const rateCheck = checkRateLimit(`transcode-jobs:${clientId}`, RateLimiters.admin);
+  if (!rateCheck.allowed) return rateLimitResponse(rateCheck.retryAfter!);
+
+  const authError = await requireAdminAuth(request, locals);
+  if (authError) return authError;
+
+  const db = locals?.runtime?.env?.DB;
+  if (!db) return ApiErrors.serverError('Database unavailable');
+
+  try {
+    const releaseId = url.searchParams.get('releaseId');
+    if (releaseId) {
+      const jobs = await d1GetReleaseTranscodeJobs(db, releaseId);
+      return successResponse({ releaseId, jobs });
+    }
+
+    const [jobs, counts] = await Promise.all([d1GetActiveTranscodeJobs(db), d1CountTranscodeJobsByStatus(db)]);
+    return successResponse({ jobs, counts });
+  } catch (error: unknown) {
+    log.error('[transcode-jobs] Error:', error);
+    return ApiErrors.serverError('Failed to load transcode jobs');
+  }
+};
+
+export const POST: APIRoute = async ({ request, locals }) => {
+  const clientId = getClientId(request);
+  const rateCheck = checkRateLimit(`transcode-jobs:${clientId}`, RateLimiters.admin);
+  if (!rateCheck.allowed) return rateLimitResponse(rateCheck.retryAfter!);
+
+  const body = await parseJsonBody<Record<string, unknown>>(request);
+  const authError = await requireAdminAuth(request, locals, body ?? undefined);
+  if (authError) return authError;
+
+  const parsed = transcodeJobsPostSchema.safeParse(body);
+  if (!parsed.success) {
+    return ApiErrors.badRequest('Invalid request: ' + parsed.error.issues.map(i => i.message).join(', '));
+  }
+
+  const db = locals?.runtime?.env?.DB;
+  if (!db) return ApiErrors.serverError('Database unavailable');
+
+  try {
+    const job = await d1RequeueTranscodeJob(db, parsed.data.jobId);
+    if (!job) return ApiErrors.badRequest('Job not found or not failed');
+
+    // Clear the failed marker so the release shows as transcoding again
+    const release = job.kind === 'track' ? await getDocument('releases', job.releaseId) : null;
+    if (release && Array.isArray(release.tracks)) {
+      const tracks = (release.tracks as Record<string, unknown>[]).map((t, i) =>
+        Number(t.trackNumber ?? i + 1) === job.trackNumber ? { ...t, transcodeStatus: 'queued' } : t
+      );
+      await updateDocument('releases', job.releaseId, { tracks, updatedAt: new Date().toISOString() });
+    }
+
+    log.info(`[transcode-jobs] Requeued ${job.id}`);
+    return successResponse({ job });
+  } catch (error: unknown) {
+    log.error('[transcode-jobs] Error:', error);
+    return ApiErrors.serverError('Failed to retry transcode job');
+  }
+};
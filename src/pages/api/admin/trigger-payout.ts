@@ -11,6 +11,9 @@ import { checkRateLimit, getClientId, rateLimitResponse, RateLimiters } from '..
 import { getDocument, addDocument, updateDocument } from '../../../lib/firebase-rest';
 import { createPayout, getPayPalConfig } from '../../../lib/paypal-payouts';
 import { ApiErrors, createLogger, successResponse } from '../../../lib/api-utils';
+import { postPayoutToJournal } from '../../../lib/journal';
+import { PAYOUT_COLLECTIONS, canPayVia, canReceivePayouts, payoutStatusOf, recordPayoutAccountFailure } from '../../../lib/payout-verification';
+import type { PayoutEntityType } from '../../../lib/payout-verification';
 
 const log = createLogger('admin/trigger-payout');
 
@@ -30,6 +33,7 @@ export const prerender = false;
 export const POST: APIRoute = async ({ request, locals }) => {
   try {
     const env = locals.runtime.env;
+    const envRecord = env as unknown as Record<string, unknown>;
     const bodyData = await request.json();
 
     // Admin auth required
@@ -64,6 +68,20 @@ export const POST: APIRoute = async ({ request, locals }) => {
 
     // Handle individual payee payment (new method)
     if (payeeType && payeeEmail && amount) {
+      // Only to a payee whose payouts are verified and not on hold
+      // (lib/payout-verification.ts), the same gate the automatic flows use
+      if (!payeeId) {
+        return ApiErrors.badRequest('payeeId is required');
+      }
+      const entityType: PayoutEntityType = payeeType === 'seller' ? 'user' : payeeType;
+      const payee = await getDocument(PAYOUT_COLLECTIONS[entityType], payeeId);
+      if (!payee) {
+        return ApiErrors.notFound('Payee not found');
+      }
+      if (!canReceivePayouts(payee) || !canPayVia(payee, 'paypal')) {
+        return ApiErrors.conflict(`Payee cannot receive PayPal payouts: ${payoutStatusOf(payee).reason || 'PayPal not verified'}`);
+      }
+
       // Deduct 2% PayPal payout fee
       const paypalPayoutFee = amount * 0.02;
       const paypalAmount = amount - paypalPayoutFee;
@@ -102,6 +120,16 @@ export const POST: APIRoute = async ({ request, locals }) => {
             updatedAt: new Date().toISOString(),
             completedAt: new Date().toISOString()
           });
+          if (payeeId) {
+            await postPayoutToJournal(env?.DB, {
+              payoutId: payoutResult.batchId || `${orderId}-${payeeType}-${payeeId}`,
+              sellerId: payeeId,
+              sellerKind: payeeType === 'seller' ? 'crate_seller' : payeeType,
+              amount,
+              method: 'paypal',
+              orderId,
+            });
+          }
 
           // Update pending payout status based on type
           const pendingCollection = payeeType === 'artist' ? 'pendingPayouts' :
@@ -148,10 +176,12 @@ export const POST: APIRoute = async ({ request, locals }) => {
             amount: paypalAmount,
             batchId: payoutResult.batchId });
         } else {
+          await recordPayoutAccountFailure(envRecord, entityType, payeeId, 'paypal', payoutResult.error || '');
           return ApiErrors.serverError(payoutResult.error || 'PayPal payout failed');
         }
       } catch (err: unknown) {
         log.error('PayPal payout error:', err);
+        await recordPayoutAccountFailure(envRecord, entityType, payeeId, 'paypal', err instanceof Error ? err.message : String(err));
         return ApiErrors.serverError('Payout error');
       }
     }
@@ -169,8 +199,8 @@ export const POST: APIRoute = async ({ request, locals }) => {
       artistName: string;
       paypalEmail: string | null;
       stripeConnectId: string | null;
-      stripeConnectStatus: string | null;
       payoutMethod: string | null;
+      artist: Record<string, unknown> | null;
       amount: number;
       items: string[];
     }> = {};
@@ -233,7 +263,6 @@ export const POST: APIRoute = async ({ request, locals }) => {
       const artist = artistMap.get(itemArtistId) || null;
       const paypalEmail = artist?.paypalEmail || null;
       const stripeConnectId = artist?.stripeConnectId || null;
-      const stripeConnectStatus = artist?.stripeConnectStatus || null;
       const payoutMethod = artist?.payoutMethod || null;
 
       const itemTotal = (item.price || 0) * (item.quantity || 1);
@@ -253,8 +282,8 @@ export const POST: APIRoute = async ({ request, locals }) => {
           artistName: artist?.artistName || release.artistName || 'Unknown Artist',
           paypalEmail,
           stripeConnectId,
-          stripeConnectStatus,
           payoutMethod,
+          artist,
           amount: 0,
           items: []
         };
@@ -269,9 +298,22 @@ export const POST: APIRoute = async ({ request, locals }) => {
     for (const payment of Object.values(artistPayments)) {
       if (payment.amount <= 0) continue;
 
+      // Artists who can't be paid (on hold, unverified, account restricted)
+      // are skipped, as in the automatic flows (lib/payout-verification.ts)
+      if (!canReceivePayouts(payment.artist)) {
+        results.push({
+          artistId: payment.artistId,
+          artistName: payment.artistName,
+          amount: payment.amount,
+          status: 'skipped',
+          reason: payoutStatusOf(payment.artist).reason || 'Payouts not verified'
+        });
+        continue;
+      }
+
       // Determine which payout method to use based on artist preference
-      const hasStripe = payment.stripeConnectId && payment.stripeConnectStatus === 'active' && stripe;
-      const hasPayPal = payment.paypalEmail && paypalConfig;
+      const hasStripe = canPayVia(payment.artist, 'stripe') && stripe;
+      const hasPayPal = canPayVia(payment.artist, 'paypal') && paypalConfig;
 
       // Check preference: explicit preference > available method
       const usePayPal = payment.payoutMethod === 'paypal' && hasPayPal;
@@ -326,6 +368,14 @@ export const POST: APIRoute = async ({ request, locals }) => {
               updatedAt: new Date().toISOString(),
               completedAt: new Date().toISOString()
             });
+            await postPayoutToJournal(env?.DB, {
+              payoutId: payoutResult.batchId || `${orderId}-${payment.artistId}`,
+              sellerId: payment.artistId,
+              sellerKind: 'artist',
+              amount: payment.amount,
+              method: 'paypal',
+              orderId,
+            });
 
             // Update artist earnings
             const artist = await getDocument('artists', payment.artistId);
@@ -347,6 +397,7 @@ export const POST: APIRoute = async ({ request, locals }) => {
             });
 
           } else {
+            await recordPayoutAccountFailure(envRecord, 'artist', payment.artistId, 'paypal', payoutResult.error || '');
             results.push({
               artistId: payment.artistId,
               artistName: payment.artistName,
@@ -357,6 +408,7 @@ export const POST: APIRoute = async ({ request, locals }) => {
             });
           }
         } catch (err: unknown) {
+          await recordPayoutAccountFailure(envRecord, 'artist', payment.artistId, 'paypal', err instanceof Error ? err.message : String(err));
           results.push({
             artistId: payment.artistId,
             artistName: payment.artistName,
@@ -403,6 +455,15 @@ export const POST: APIRoute = async ({ request, locals }) => {
             completedAt: new Date().toISOString()
           });
 
+          await postPayoutToJournal(env?.DB, {
+            payoutId: transfer.id,
+            sellerId: payment.artistId,
+            sellerKind: 'artist',
+            amount: payment.amount,
+            method: 'stripe',
+            orderId,
+          });
+
           // Update artist earnings
           const artist = await getDocument('artists', payment.artistId);
           if (artist) {
@@ -422,6 +483,7 @@ export const POST: APIRoute = async ({ request, locals }) => {
           });
 
         } catch (err: unknown) {
+          await recordPayoutAccountFailure(envRecord, 'artist', payment.artistId, 'stripe', err instanceof Error ? err.message : String(err));
           results.push({
             artistId: payment.artistId,
             artistName: payment.artistName,
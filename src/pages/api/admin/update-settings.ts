@@ -8,6 +8,7 @@ import { successResponse, ApiErrors, parseJsonBody, createLogger } from '../../.
 
 const log = createLogger('admin/update-settings');
 import { checkRateLimit, getClientId, rateLimitResponse, RateLimiters } from '../../../lib/rate-limit';
+import { DEFAULT_ABANDONED_CART_SETTINGS } from '../../../lib/abandoned-cart';
 
 // Settings values can be strings, numbers, booleans, or nested objects of the same
 const settingsValueSchema: z.ZodType<string | number | boolean | null | Record<string, unknown>> = z.union([
@@ -71,7 +72,9 @@ const DEFAULT_SETTINGS = {
     emailOnArtistEdit: false,
     emailOnBypassRequest: true,
     emailOnDJGoLive: false
-  }
+  },
+  // Gift card offered in the later abandoned cart reminders (lib/abandoned-cart.ts)
+  abandonedCart: DEFAULT_ABANDONED_CART_SETTINGS
 };
 
 // GET: Load settings (admin only)
@@ -111,7 +114,8 @@ export const GET: APIRoute = async ({ request, locals }) => {
           artistEditableFields: { ...DEFAULT_SETTINGS.artistEditableFields, ...(docData.artistEditableFields || {}) },
           livestream: { ...DEFAULT_SETTINGS.livestream, ...(docData.livestream || {}) },
           releaseDefaults: { ...DEFAULT_SETTINGS.releaseDefaults, ...(docData.releaseDefaults || {}) },
-          notifications: { ...DEFAULT_SETTINGS.notifications, ...(docData.notifications || {}) }
+          notifications: { ...DEFAULT_SETTINGS.notifications, ...(docData.notifications || {}) },
+          abandonedCart: { ...DEFAULT_SETTINGS.abandonedCart, ...(docData.abandonedCart || {}) }
         };
       }
 
@@ -0,0 +1,76 @@
+// src/pages/api/artist/payout-schedule.ts
+// An artist's payout cadence (lib/payout-schedule.ts). GET returns the
+// schedule, what has accrued towards the next payout and recent statements;
+// POST switches between per-order payouts and weekly / monthly batches with
+// a minimum balance. Switching back to per-order pays anything accrued on
+// the next scheduled-payouts run.
+
+import type { APIRoute } from 'astro';
+import { z } from 'zod';
+import { getDocument, updateDocument, verifyRequestUser } from '../../../lib/firebase-rest';
+import { parseJsonBody, ApiErrors, createLogger, successResponse } from '../../../lib/api-utils';
+import { checkRateLimit, getClientId, rateLimitResponse, RateLimiters } from '../../../lib/rate-limit';
+import {
+  MAX_PAYOUT_MINIMUM, PAYOUT_CADENCES, getPayoutSchedule, getScheduledPayoutSummary, payoutScheduleUpdate,
+} from '../../../lib/payout-schedule';
+import type { PayoutCadence } from '../../../lib/payout-schedule';
+
+const log = createLogger('[artist/payout-schedule]');
+
+export const prerender = false;
+
+const schema = z.object({
+  cadence: z.enum(PAYOUT_CADENCES as [PayoutCadence, ...PayoutCadence[]]),
+  minimum: z.number().min(0).max(MAX_PAYOUT_MINIMUM).optional(),
+});
+
+export const GET: APIRoute = async ({ request }) => {
+  const clientId = getClientId(request);
+  const rateCheck = checkRateLimit(`payout-schedule:${clientId}`, RateLimiters.standard);
+  if (!rateCheck.allowed) return rateLimitResponse(rateCheck.retryAfter!);
+
+  const { userId, error: authError } = await verifyRequestUser(request);
+  if (authError || !userId) return ApiErrors.unauthorized(authError || 'Authentication required');
+
+  try {
+    const artist = await getDocument('artists', userId);
+    if (!artist) return ApiErrors.notFound('No artist account found');
+
+    return successResponse({
+      schedule: getPayoutSchedule(artist),
+      ...await getScheduledPayoutSummary('artist', userId),
+      lastPayoutAt: artist.lastPayoutAt || null,
+    });
+  } catch (error: unknown) {
+    log.error('Error loading payout schedule:', error);
+    return ApiErrors.serverError('Failed to load payout schedule');
+  }
+};
+
+export const POST: APIRoute = async ({ request }) => {
+  const clientId = getClientId(request);
+  const rateCheck = checkRateLimit(`payout-schedule:${clientId}`, RateLimiters.write);
+  if (!rateCheck.allowed) return rateLimitResponse(rateCheck.retryAfter!);
+
+  const { userId, error: authError } = await verifyRequestUser(request);
+  if (authError || !userId) return ApiErrors.unauthorized(authError || 'Authentication required');
+
+  const parsed = schema.safeParse(await parseJsonBody(request));
+  if (!parsed.success) {
+    return ApiErrors.badRequest('Invalid request: ' + parsed.error.issues.map(i => i.message).join(', '));
+  }
+
+  try {
+    const artist = await getDocument('artists', userId);
+    if (!artist) return ApiErrors.notFound('No artist account found');
+
+    const { schedule, update } = payoutScheduleUpdate(artist, parsed.data.cadence, parsed.data.minimum, new Date());
+    await updateDocument('artists', userId, update);
+
+    log.info(`Artist ${userId} payout schedule: ${schedule.cadence}, minimum £${schedule.minimum.toFixed(2)}`);
+    return successResponse({ schedule });
+  } catch (error: unknown) {
+    log.error('Error saving payout schedule:', error);
+    return ApiErrors.serverError('Failed to save payout schedule');
+  }
+};
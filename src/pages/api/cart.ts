@@ -8,6 +8,8 @@ import { verifyRequestUser } from '../../lib/firebase-rest';
 import { ApiErrors, createLogger, successResponse } from '../../lib/api-utils';
 import { KV_TTL } from '../../lib/timeouts';
 import { checkRateLimit, getClientId, rateLimitResponse, RateLimiters } from '../../lib/rate-limit';
+import { restoreAbandonedCart } from '../../lib/abandoned-cart';
+import { waitlistHoldCartLine } from '../../lib/order-utils';
 
 const log = createLogger('cart');
 
@@ -27,23 +29,34 @@ const CartItemSchema = z.object({
   size: z.string().max(50).optional(),
   color: z.union([z.string().max(100), z.object({ name: z.string().max(100), hex: z.string().max(20) })]).optional(),
   format: z.string().max(50).optional(),
+  vinylPartId: z.string().max(50).optional(),
 }).strip();
 
 const CartSaveSchema = z.object({
   items: z.array(CartItemSchema).max(100),
 });
 
+// One-click restore from an abandoned cart email (lib/abandoned-cart.ts)
+const CartRestoreSchema = z.object({
+  restoreToken: z.string().regex(/^[a-f0-9]{32}$/),
+});
+
+// A waitlist hold email links here with its entry (lib/order/waitlist.ts)
+const WaitlistHoldSchema = z.object({
+  waitlistHold: z.string().min(1).max(200),
+});
+
 export const prerender = false;
 
-// Helper to get user ID - requires verified Firebase auth
-async function getUserId(request: Request): Promise<string | null> {
+// Helper to get the user - requires verified Firebase auth
+async function getUser(request: Request): Promise<{ userId: string | null; email: string | null }> {
   try {
-    const { userId: verifiedUserId } = await verifyRequestUser(request);
-    if (verifiedUserId) return verifiedUserId;
+    const { userId, email } = await verifyRequestUser(request);
+    if (userId) return { userId, email: email || null };
   } catch (e: unknown) {
     // No valid auth token
   }
-  return null;
+  return { userId: null, email: null };
 }
 
 // GET /api/cart/ - Retrieve cart from KV
@@ -54,7 +67,7 @@ export const GET: APIRoute = async ({ request, locals }) => {
     return rateLimitResponse(rateLimit.retryAfter!);
   }
 
-  const userId = await getUserId(request);
+  const { userId } = await getUser(request);
 
   if (!userId) {
     return ApiErrors.unauthorized('Not authenticated');
@@ -94,7 +107,7 @@ export const POST: APIRoute = async ({ request, locals }) => {
     return rateLimitResponse(rateLimitPost.retryAfter!);
   }
 
-  const userId = await getUserId(request);
+  const { userId, email } = await getUser(request);
 
   if (!userId) {
     return ApiErrors.unauthorized('Not authenticated');
@@ -107,15 +120,66 @@ export const POST: APIRoute = async ({ request, locals }) => {
     } catch {
       return ApiErrors.badRequest('Invalid JSON');
     }
+    const env = locals.runtime.env;
+    const kv = env?.CACHE;
+
+    const restore = CartRestoreSchema.safeParse(body);
+    if (restore.success) {
+      const restored = await restoreAbandonedCart(restore.data.restoreToken);
+      if (!restored) {
+        return ApiErrors.notFound('This cart link has expired');
+      }
+
+      // Add the saved lines to whatever is in the basket now, without doubling up
+      const current = kv ? ((await kv.get(`cart:${userId}`, 'json')) as { items?: z.infer<typeof CartItemSchema>[] } | null) : null;
+      const items = [...(current?.items || [])];
+      for (const line of restored) {
+        const item = CartItemSchema.safeParse(line);
+        if (item.success && !items.some(i => i.id === item.data.id)) items.push(item.data);
+      }
+      const cartData = { items: items.slice(0, 100), updatedAt: new Date().toISOString() };
+
+      if (kv) {
+        await kv.put(`cart:${userId}`, JSON.stringify(cartData), {
+          expirationTtl: KV_TTL.ONE_MONTH
+        });
+      }
+
+      log.info('[Cart API] POST', `cart:${userId}`, 'restored', restored.length, 'items');
+
+      return successResponse({ persisted: !!kv, restored: true, cart: cartData });
+    }
+
+    const hold = WaitlistHoldSchema.safeParse(body);
+    if (hold.success) {
+      const line = await waitlistHoldCartLine(hold.data.waitlistHold, { userId, email });
+      if (!line) {
+        return ApiErrors.notFound('This hold has expired');
+      }
+
+      // The held copy replaces any vinyl line already in the basket for it
+      const current = kv ? ((await kv.get(`cart:${userId}`, 'json')) as { items?: z.infer<typeof CartItemSchema>[] } | null) : null;
+      const items = (current?.items || []).filter(i => !(i.id === line.id && i.type === 'vinyl'));
+      const item = CartItemSchema.parse(line);
+      const cartData = { items: [...items, item].slice(-100), updatedAt: new Date().toISOString() };
+
+      if (kv) {
+        await kv.put(`cart:${userId}`, JSON.stringify(cartData), {
+          expirationTtl: KV_TTL.ONE_MONTH
+        });
+      }
+
+      log.info('[Cart API] POST', `cart:${userId}`, 'added waitlist hold', hold.data.waitlistHold);
+
+      return successResponse({ persisted: !!kv, held: true, cart: cartData });
+    }
+
     const parsed = CartSaveSchema.safeParse(body);
     if (!parsed.success) {
       return ApiErrors.badRequest('Invalid cart data');
     }
     const { items } = parsed.data;
 
-    const env = locals.runtime.env;
-    const kv = env?.CACHE;
-
     if (!kv) {
       log.info('[Cart API] KV not available, cart not persisted');
       return successResponse({ persisted: false, message: 'KV not available' });
@@ -150,7 +214,7 @@ export const DELETE: APIRoute = async ({ request, locals }) => {
     return rateLimitResponse(rateLimitDelete.retryAfter!);
   }
 
-  const userId = await getUserId(request);
+  const { userId } = await getUser(request);
 
   if (!userId) {
     return ApiErrors.unauthorized('Not authenticated');
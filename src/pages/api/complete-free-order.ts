@@ -3,11 +3,15 @@
 
 import type { APIRoute } from 'astro';
 import { z } from 'zod';
-import { createOrder, validateStock } from '../../lib/order-utils';
-import { getDocument, queryCollection, updateDocument, atomicIncrement, arrayUnion, verifyRequestUser } from '../../lib/firebase-rest';
+import { createOrder, validateStock, validateDiscountCode, applyDiscount } from '../../lib/order-utils';
+import { releaseLabelName } from '../../lib/labels';
+import { getDocument, queryCollection, verifyRequestUser } from '../../lib/firebase-rest';
+import { creditWallet, getWalletBalance, spendWallet } from '../../lib/wallet';
 import { checkRateLimit, getClientId, rateLimitResponse, RateLimiters } from '../../lib/rate-limit';
 import { recordMultiSellerSale } from '../../lib/sales-ledger';
-import { applyCrateCombinedShipping, applyCrateFreeShipping, computeMerchShipping, computeReleaseVinylShipping, regionForCountry } from '../../lib/order/shipping-rules';
+import { resolveSplitSheet } from '../../lib/split-sheets';
+import type { SplitShare } from '../../lib/split-sheets';
+import { applyCrateCombinedShipping, applyCrateFreeShipping, computeMerchShipping, computeReleaseVinylShipping, loadShippingRules, resolveShippingDestination } from '../../lib/order/shipping-rules';
 import { ApiErrors, createLogger, successResponse } from '../../lib/api-utils';
 const log = createLogger('complete-free-order');
 
@@ -48,6 +52,7 @@ const FreeOrderSchema = z.object({
     country: z.string().optional(),
   }).strip().optional().nullable(),
   appliedCredit: z.number().min(0).optional(),
+  discountCode: z.string().max(40).optional(),
   idToken: z.string().optional(),
 }).strip();
 
@@ -98,6 +103,7 @@ async function validateAndGetPrices(items: Record<string, unknown>[]): Promise<{
         const product = merchMap.get(item.productId);
         if (product) {
           serverPrice = product.salePrice || product.retailPrice || product.price || item.price;
+          item.supplierId = product.supplierId || null;
         }
       } else if (itemType === 'vinyl' || itemType === 'digital' || itemType === 'track' || itemType === 'release') {
         if (itemType === 'vinyl' && item.sellerId && !item.releaseId) {
@@ -111,6 +117,9 @@ async function validateAndGetPrices(items: Record<string, unknown>[]): Promise<{
           if (releaseId) {
             const release = releaseMap.get(releaseId);
             if (release) {
+              // Label-scoped discount codes match on these (never the client's)
+              item.labelAccountId = release.artistId || release.userId || null;
+              item.labelName = releaseLabelName(release);
               if (itemType === 'vinyl') {
                 serverPrice = release.vinylPrice || release.price || item.price;
                 // Enrich server-side vinyl shipping rates + artist so
@@ -177,24 +186,39 @@ export const POST: APIRoute = async ({ request, locals }) => {
     const orderData = parseResult.data;
 
     // SECURITY: Validate item prices server-side (prevent getting items for free)
-    const { validatedItems, validatedSubtotal } = await validateAndGetPrices(orderData.items);
+    const { validatedItems, validatedSubtotal: listSubtotal } = await validateAndGetPrices(orderData.items);
     const hasPhysicalItems = validatedItems.some((item: Record<string, unknown>) =>
       item.type === 'vinyl' || item.type === 'merch');
     // Shipping mirrors the paid checkouts EXACTLY: combine crate shipping per
     // seller (50p/additional, cross-system with a same-seller release base),
-    // waive where a free-shipping threshold is met, merch flat £4.99 unless the
-    // supplier threshold is met, and per-artist release vinyl (region rate +
+    // waive where a free-shipping threshold is met, merch at the zone rate unless
+    // the supplier threshold is met, and per-artist release vinyl (zone rate +
     // 50p/additional). The release-vinyl breakdown feeds the artist payout.
-    const vinylRegion = regionForCountry(orderData.shipping?.country || 'GB');
-    await applyCrateCombinedShipping(validatedItems, env?.DB);
+    const shippingCountry = orderData.shipping?.country || 'GB';
+    const shippingRules = await loadShippingRules(env?.DB);
+    const destination = resolveShippingDestination(shippingCountry, shippingRules);
+    await applyCrateCombinedShipping(validatedItems, env?.DB, shippingCountry);
     await applyCrateFreeShipping(validatedItems, env?.DB);
-    const merchShipping = await computeMerchShipping(validatedItems);
+    const merchShipping = await computeMerchShipping(validatedItems, { rules: shippingRules, zoneId: destination.zoneId });
     const crateShipping = validatedItems
       .filter((item: Record<string, unknown>) => item.type === 'vinyl' && item.sellerId && !item.releaseId)
       .reduce((sum: number, item: Record<string, unknown>) => sum + (((item.cratesShippingCost as number) ?? 4.99) * ((item.quantity as number) || 1)), 0);
-    const releaseVinyl = computeReleaseVinylShipping(validatedItems as never, vinylRegion);
+    const releaseVinyl = computeReleaseVinylShipping(validatedItems as never, destination.region, { rules: shippingRules, zoneId: destination.zoneId });
     const artistShippingBreakdown = Object.keys(releaseVinyl.breakdown).length > 0 ? releaseVinyl.breakdown : null;
     const shipping = Math.round((merchShipping + crateShipping + releaseVinyl.total) * 100) / 100;
+
+    // A discount code can bring the basket to zero. It comes off after
+    // shipping, as in the paid checkouts, so thresholds see list prices.
+    const { discountCode, validationError: discountError } = await validateDiscountCode(
+      env?.DB, orderData.discountCode, validatedItems, orderData.customer
+    );
+    if (discountError) {
+      return ApiErrors.badRequest(discountError);
+    }
+    const appliedDiscount = discountCode ? applyDiscount(validatedItems, discountCode) : null;
+    const validatedSubtotal = appliedDiscount
+      ? Math.round((listSubtotal - appliedDiscount.amount) * 100) / 100
+      : listSubtotal;
     const validatedTotal = validatedSubtotal + shipping;
 
     const appliedCredit = orderData.appliedCredit || 0;
@@ -217,16 +241,18 @@ export const POST: APIRoute = async ({ request, locals }) => {
     }
 
     // SECURITY: Validate credit balance + stock availability in parallel (independent reads)
-    const [creditResult, stockCheck] = await Promise.all([
+    const [walletBalance, stockCheck] = await Promise.all([
       appliedCredit > 0
-        ? getDocument('userCredits', verifiedUserId)
+        ? getWalletBalance(env?.DB, verifiedUserId)
         : Promise.resolve(null),
       validateStock(validatedItems)
     ]);
 
     if (appliedCredit > 0) {
-      const actualBalance = creditResult?.balance || 0;
-      if (actualBalance < validatedTotal) {
+      if (walletBalance === null) {
+        return ApiErrors.serverError('Store credit is unavailable right now. Please try again.');
+      }
+      if (walletBalance < validatedTotal) {
         return ApiErrors.badRequest('Insufficient credit balance');
       }
     }
@@ -237,7 +263,8 @@ export const POST: APIRoute = async ({ request, locals }) => {
 
     // Reserve and immediately convert stock for free orders
     const { reserveStock, convertReservation } = await import('../../lib/order-utils');
-    const reservation = await reserveStock(validatedItems, 'free_' + Date.now().toString(36), verifiedUserId);
+    const checkoutRef = 'free_' + Date.now().toString(36);
+    const reservation = await reserveStock(validatedItems, checkoutRef, verifiedUserId);
     if (!reservation.success) {
       return ApiErrors.badRequest(reservation.error || 'Failed to reserve stock');
     }
@@ -275,20 +302,41 @@ export const POST: APIRoute = async ({ request, locals }) => {
     }
 
     // SECURITY: Deduct credit BEFORE creating order to prevent race condition
+    // (the wallet refuses a spend the balance doesn't cover)
+    const spendId = `spend:${verifiedUserId}:${checkoutRef}`;
     let creditDeducted = false;
     if (appliedCredit > 0) {
-      try {
-        await Promise.all([
-          atomicIncrement('userCredits', verifiedUserId, { balance: -appliedCredit }),
-          atomicIncrement('users', verifiedUserId, { creditBalance: -appliedCredit })
-        ]);
-        creditDeducted = true;
-      } catch (creditErr: unknown) {
-        log.error('[FreeOrder] Failed to deduct credit before order:', creditErr);
-        return ApiErrors.serverError('Failed to apply credit. Please try again.');
+      const spent = await spendWallet(env?.DB, {
+        userId: verifiedUserId,
+        amount: appliedCredit,
+        id: spendId,
+        description: 'Paid with store credit',
+        reference: checkoutRef,
+      });
+      if (!spent.success) {
+        log.error('[FreeOrder] Failed to deduct credit before order:', spent.error);
+        return spent.error === 'Insufficient credit balance'
+          ? ApiErrors.badRequest('Insufficient credit balance')
+          : ApiErrors.serverError('Failed to apply credit. Please try again.');
       }
+      creditDeducted = true;
     }
 
+    // Give the credit back when the order can't be created
+    const returnCredit = async () => {
+      const returned = await creditWallet(env?.DB, {
+        userId: verifiedUserId,
+        source: 'refund',
+        amount: appliedCredit,
+        id: `reversal:${spendId}`,
+        description: 'Order could not be completed - credit returned',
+        reference: checkoutRef,
+      });
+      if (!returned.success) {
+        log.error('[FreeOrder] CRITICAL: Failed to refund credit after order failure:', returned.error);
+      }
+    };
+
     // Use validated totals, not client-sent values
     const totals = appliedCredit > 0 ? {
       subtotal: validatedSubtotal,
@@ -308,7 +356,7 @@ export const POST: APIRoute = async ({ request, locals }) => {
     };
 
     // Create the order using the shared order creation utility
-    let result: { success: boolean; orderId?: string; orderNumber?: string; error?: string };
+    let result: { success: boolean; orderId?: string; orderNumber?: string; held?: boolean; error?: string };
     try {
       result = await createOrder({
         orderData: {
@@ -319,21 +367,21 @@ export const POST: APIRoute = async ({ request, locals }) => {
           hasPhysicalItems: hasPhysicalItems || false,
           paymentMethod: appliedCredit > 0 ? 'credit' : 'free',
           paymentIntentId: null,
-          paypalOrderId: null
+          paypalOrderId: null,
+          discount: appliedDiscount,
+          // Credit orders are where gift card abuse ends up — score them too
+          checkout: {
+            ip: clientId.startsWith('anon-') ? null : clientId,
+            userAgent: request.headers.get('user-agent'),
+            sessionId: null
+          }
         },
         env,
         idToken: orderData.idToken
       });
     } catch (orderErr: unknown) {
       // If credit was deducted but order creation failed, refund the credit
-      if (creditDeducted) {
-        try {
-          await atomicIncrement('userCredits', verifiedUserId, { balance: appliedCredit });
-          await atomicIncrement('users', verifiedUserId, { creditBalance: appliedCredit });
-        } catch (refundErr: unknown) {
-          log.error('[FreeOrder] CRITICAL: Failed to refund credit after order failure:', refundErr);
-        }
-      }
+      if (creditDeducted) await returnCredit();
       throw orderErr;
     }
 
@@ -351,6 +399,7 @@ export const POST: APIRoute = async ({ request, locals }) => {
           let submitterId = null;
           let submitterEmail = null;
           let artistName = item.artist || item.artistName || null;
+          let payoutSplits: SplitShare[] | null = null;
 
           if (releaseId && (item.type === 'digital' || item.type === 'release' || item.type === 'track' || item.releaseId)) {
             try {
@@ -359,6 +408,7 @@ export const POST: APIRoute = async ({ request, locals }) => {
                 submitterId = release.submitterId || release.uploadedBy || release.userId || release.submittedBy || null;
                 submitterEmail = release.email || release.submitterEmail || release.metadata?.email || null;
                 artistName = release.artistName || release.artist || artistName;
+                payoutSplits = resolveSplitSheet(release, item.type === 'track' ? item.trackId : undefined);
               }
             } catch (lookupErr: unknown) {
               log.error(`[FreeOrder] Failed to lookup release ${releaseId}:`, lookupErr);
@@ -369,7 +419,8 @@ export const POST: APIRoute = async ({ request, locals }) => {
             ...item,
             submitterId,
             submitterEmail,
-            artistName
+            artistName,
+            ...(payoutSplits ? { payoutSplits } : {})
           };
         }));
         const enrichedItems = enrichmentResults.map((result, i) =>
@@ -413,66 +464,41 @@ export const POST: APIRoute = async ({ request, locals }) => {
           stripeSecretKey: (env?.STRIPE_SECRET_KEY || import.meta.env.STRIPE_SECRET_KEY || '') as string,
           env
         };
-        const payoutResults = await Promise.allSettled([
-          processArtistPayments(payoutParams),
-          processMerchRoyalties(payoutParams), // 10% brand royalty (brandAccountId)
-          processMerchSupplierPayments(payoutParams), // supplier share (merch.supplierId)
-          processVinylCrateSellerPayments(payoutParams)
-        ]);
-        const payoutLabels = ['Artist', 'Brand royalty', 'Merch supplier', 'Crate seller'];
-        for (let i = 0; i < payoutResults.length; i++) {
-          if (payoutResults[i].status === 'rejected') {
-            log.error(`[FreeOrder] ${payoutLabels[i]} payout error:`, (payoutResults[i] as PromiseRejectedResult).reason);
+        if (result.held) {
+          // Held for fraud review — paid out when an admin approves the order
+          const { holdSellerPayouts } = await import('../../lib/fraud');
+          await holdSellerPayouts(result.orderId!, {
+            flow: 'direct',
+            totalItemCount: payoutParams.totalItemCount,
+            orderSubtotal: payoutParams.orderSubtotal,
+            actualProcessingFee: 0,
+            paymentMethod: 'free',
+            logPrefix: '[FreeOrder]',
+            artistShippingBreakdown: artistShippingBreakdown || null
+          });
+        } else {
+          const payoutResults = await Promise.allSettled([
+            processArtistPayments(payoutParams),
+            processMerchRoyalties(payoutParams), // 10% brand royalty (brandAccountId)
+            processMerchSupplierPayments(payoutParams), // supplier share (merch.supplierId)
+            processVinylCrateSellerPayments(payoutParams)
+          ]);
+          const payoutLabels = ['Artist', 'Brand royalty', 'Merch supplier', 'Crate seller'];
+          for (let i = 0; i < payoutResults.length; i++) {
+            if (payoutResults[i].status === 'rejected') {
+              log.error(`[FreeOrder] ${payoutLabels[i]} payout error:`, (payoutResults[i] as PromiseRejectedResult).reason);
+            }
           }
         }
       } catch (payoutErr: unknown) {
         log.error('[FreeOrder] Seller payout processing failed:', payoutErr);
       }
 
-      // If credit was applied (already deducted before order creation), record the transaction
-      if (creditDeducted && appliedCredit > 0) {
-        try {
-          const now = new Date().toISOString();
-          const creditData = await getDocument('userCredits', verifiedUserId);
-          const currentBalance = creditData?.balance || 0;
-
-          const transactionId = `txn_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
-          const transaction = {
-            id: transactionId,
-            type: 'purchase',
-            amount: -appliedCredit,
-            description: `Applied to order ${result.orderNumber || result.orderId}`,
-            orderId: result.orderId,
-            orderNumber: result.orderNumber,
-            createdAt: now,
-            balanceAfter: currentBalance
-          };
-
-          // Atomic arrayUnion prevents lost transactions under concurrent writes
-          await arrayUnion('userCredits', verifiedUserId, 'transactions', [transaction], {
-            lastUpdated: now
-          });
-
-          await updateDocument('users', verifiedUserId, { creditUpdatedAt: now });
-
-        } catch (txnErr: unknown) {
-          log.error('[FreeOrder] Failed to record credit transaction:', txnErr);
-          // Credit already deducted, transaction record is non-critical
-        }
-      }
-
       return successResponse({ orderId: result.orderId,
         orderNumber: result.orderNumber });
     } else {
       // Order creation returned failure - refund credit if it was deducted
-      if (creditDeducted) {
-        try {
-          await atomicIncrement('userCredits', verifiedUserId, { balance: appliedCredit });
-          await atomicIncrement('users', verifiedUserId, { creditBalance: appliedCredit });
-        } catch (refundErr: unknown) {
-          log.error('[FreeOrder] CRITICAL: Failed to refund credit after order failure:', refundErr);
-        }
-      }
+      if (creditDeducted) await returnCredit();
       return ApiErrors.serverError(result.error || 'Failed to create order');
     }
   } catch (error: unknown) {
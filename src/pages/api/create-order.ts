@@ -10,12 +10,16 @@ import { z } from 'zod';
 import { getDocument, addDocument, atomicIncrement, updateDocument } from '../../lib/firebase-rest';
 import { checkRateLimit, getClientId, rateLimitResponse, RateLimiters } from '../../lib/rate-limit';
 import { generateOrderNumber } from '../../lib/order-utils';
-import { applyCrateCombinedShipping, applyCrateFreeShipping, computeMerchShipping, computeReleaseVinylShipping, regionForCountry } from '../../lib/order/shipping-rules';
+import { applyCrateCombinedShipping, applyCrateFreeShipping, computeMerchShipping, computeReleaseVinylShipping, loadShippingRules, resolveShippingDestination } from '../../lib/order/shipping-rules';
 import { successResponse, ApiErrors, createLogger, maskEmail } from '../../lib/api-utils';
-import { validateOrderPrices } from '../../lib/order/price-validation';
+import { validateOrderPrices, validateDiscountCode } from '../../lib/order/price-validation';
+import { applyDiscount } from '../../lib/order/discounts';
+import { expandBundleItems } from '../../lib/order/bundles';
+import { d1RedeemDiscountCode } from '../../lib/d1-catalog';
 import { updateMerchStockAfterOrder } from '../../lib/order/merch-stock-update';
 import { sendOrderEmails } from '../../lib/order/email-sender';
 import type { OrderItem } from '../../lib/order/create-order-emails';
+import { assessOrderRisk, recordRiskCheck } from '../../lib/fraud';
 
 // Zod schemas for order creation
 const OrderItemSchema = z.object({
@@ -69,6 +73,7 @@ const CreateOrderSchema = z.object({
     total: z.number().positive('Total must be positive'),
   }).strip().optional(),
   paymentMethod: z.string().optional(),
+  discountCode: z.string().max(40).optional(),
   idToken: z.string().optional(),
 }).strip();
 
@@ -162,6 +167,8 @@ export const POST: APIRoute = async ({ request, locals }) => {
     const hasMerchItems = pricedItems.some((item: OrderItem) => item.type === 'merch');
     const hasVinylItems = pricedItems.some((item: OrderItem) => item.type === 'vinyl');
     const customerCountry = orderData.shipping?.country || 'GB';
+    const shippingRules = await loadShippingRules(locals.runtime?.env?.DB);
+    const destination = resolveShippingDestination(customerCountry, shippingRules);
 
     let merchShipping = 0;
     let vinylShippingTotal = 0;
@@ -169,11 +176,11 @@ export const POST: APIRoute = async ({ request, locals }) => {
 
     // Seller-configurable free-shipping rules (crates seller settings +
     // merch supplier settings); no global free-over-£50 rule any more
-    await applyCrateCombinedShipping(pricedItems as unknown as Parameters<typeof applyCrateCombinedShipping>[0], locals.runtime?.env?.DB);
+    await applyCrateCombinedShipping(pricedItems as unknown as Parameters<typeof applyCrateCombinedShipping>[0], locals.runtime?.env?.DB, customerCountry);
     await applyCrateFreeShipping(pricedItems as Record<string, unknown>[], locals.runtime?.env?.DB);
 
     if (hasMerchItems) {
-      merchShipping = await computeMerchShipping(pricedItems as Record<string, unknown>[]);
+      merchShipping = await computeMerchShipping(pricedItems as Record<string, unknown>[], { rules: shippingRules, zoneId: destination.zoneId });
     }
 
     if (hasVinylItems) {
@@ -190,14 +197,25 @@ export const POST: APIRoute = async ({ request, locals }) => {
         // computeReleaseVinylShipping helper.
       }
 
-      const vinylRegion = regionForCountry(customerCountry);
-      const relVinyl = computeReleaseVinylShipping(pricedItems as unknown as Parameters<typeof computeReleaseVinylShipping>[0], vinylRegion);
+      const relVinyl = computeReleaseVinylShipping(pricedItems as unknown as Parameters<typeof computeReleaseVinylShipping>[0], destination.region, { rules: shippingRules, zoneId: destination.zoneId });
       vinylShippingTotal += relVinyl.total;
       Object.assign(artistShippingBreakdown, relVinyl.breakdown);
     }
 
     const serverShipping = Math.round((merchShipping + vinylShippingTotal) * 100) / 100;
-    const serverTotal = Math.round((serverSubtotal + serverShipping) * 100) / 100;
+
+    // Discount code comes off after shipping so thresholds see list prices;
+    // lowers each eligible item's price in place
+    const { discountCode, validationError: discountError } = await validateDiscountCode(
+      locals.runtime?.env?.DB, orderData.discountCode, pricedItems, orderData.customer
+    );
+    if (discountError) {
+      return ApiErrors.badRequest(discountError);
+    }
+    const appliedDiscount = discountCode ? applyDiscount(pricedItems, discountCode) : null;
+    const discountAmount = appliedDiscount?.amount || 0;
+
+    const serverTotal = Math.round((serverSubtotal - discountAmount + serverShipping) * 100) / 100;
 
     // Reject if client total is significantly lower than server-calculated total
     const clientTotal = orderData.totals?.total || 0;
@@ -206,9 +224,10 @@ export const POST: APIRoute = async ({ request, locals }) => {
       return ApiErrors.badRequest('Price validation failed. Please refresh and try again.');
     }
 
-    // Get download URLs for digital items
+    // Get download URLs for digital items (bundles expand to one line per release)
     // Use Promise.allSettled so a single failed enrichment doesn't block the entire order
-    const downloadResults = await Promise.allSettled(pricedItems.map(async (item: OrderItem) => {
+    const orderItems = expandBundleItems(pricedItems as OrderItem[]);
+    const downloadResults = await Promise.allSettled(orderItems.map(async (item: OrderItem) => {
       // Get the release ID (could be stored as id, productId, or releaseId)
       const releaseId = item.releaseId || item.productId || item.id;
 
@@ -377,7 +396,7 @@ export const POST: APIRoute = async ({ request, locals }) => {
       return { ...item, releaseId };
     }));
     const itemsWithDownloads = downloadResults.map((result, i) =>
-      result.status === 'fulfilled' ? result.value : { ...pricedItems[i], releaseId: pricedItems[i].releaseId || pricedItems[i].productId || pricedItems[i].id }
+      result.status === 'fulfilled' ? result.value : { ...orderItems[i], releaseId: orderItems[i].releaseId || orderItems[i].productId || orderItems[i].id }
     );
 
     // Strip download URLs from pending orders - these get added by the webhook when payment is confirmed
@@ -407,6 +426,20 @@ export const POST: APIRoute = async ({ request, locals }) => {
       ? new Date(Math.max(...preOrderReleaseDates.map((d: Date) => d.getTime()))).toISOString()
       : null;
 
+    // Fraud score — a high-risk order is held until an admin approves it
+    const riskInput = {
+      email: orderData.customer.email,
+      userId: orderData.customer.userId || null,
+      ip: clientId,
+      shippingCountry: orderData.shipping?.country,
+      items: safeItems as Array<Record<string, unknown>>,
+      total: serverTotal,
+      hasPhysicalItems: !!orderData.hasPhysicalItems
+    };
+    const risk = await assessOrderRisk(env?.DB, riskInput);
+    const fulfilmentStatus = hasPreOrderItems ? 'awaiting_release' : 'pending';
+    const status = risk.hold ? 'on_hold' : fulfilmentStatus;
+
     const order = {
       orderNumber,
       customer: {
@@ -424,17 +457,26 @@ export const POST: APIRoute = async ({ request, locals }) => {
         shipping: serverShipping,
         merchShipping,
         vinylShipping: vinylShippingTotal,
+        discount: discountAmount,
         total: serverTotal,
         ...(hasMismatch ? { clientSubmittedTotal: clientTotal, priceValidated: true } : {}),
         ...(Object.keys(artistShippingBreakdown).length > 0 ? { artistShippingBreakdown } : {})
       },
+      discount: appliedDiscount,
       hasPhysicalItems: orderData.hasPhysicalItems,
       hasPreOrderItems,
       preOrderDeliveryDate: latestPreOrderDate,
       paymentMethod: orderData.paymentMethod || 'test_mode',
       paymentStatus: 'pending',
-      status: hasPreOrderItems ? 'awaiting_release' : 'pending',
-      orderStatus: hasPreOrderItems ? 'awaiting_release' : 'pending',
+      status,
+      orderStatus: status,
+      risk: {
+        score: risk.score,
+        level: risk.level,
+        reasons: risk.reasons,
+        status: risk.hold ? 'held' : 'clear',
+        ...(risk.hold ? { previousStatus: fulfilmentStatus } : {})
+      },
       createdAt: now,
       updatedAt: now
     };
@@ -444,6 +486,22 @@ export const POST: APIRoute = async ({ request, locals }) => {
 
     log.info('[create-order] ✓ Order created:', orderNumber, orderRef.id);
 
+    await recordRiskCheck(env?.DB, { orderId: orderRef.id, orderNumber, input: riskInput, assessment: risk });
+
+    if (appliedDiscount && locals.runtime?.env?.DB) {
+      const redeemed = await d1RedeemDiscountCode(locals.runtime.env.DB, {
+        code: appliedDiscount.code,
+        orderId: orderRef.id,
+        customerEmail: orderData.customer.email,
+        customerId: orderData.customer.userId || null,
+        amount: appliedDiscount.amount
+      });
+      // Payment is already captured: the order stands, flagged for admin
+      if (redeemed === 'over_cap') {
+        await updateDocument('orders', orderRef.id, { discount: { ...appliedDiscount, overCap: true } }, idToken);
+      }
+    }
+
     // Update stock for merch items (with optimistic concurrency to prevent overselling)
     await updateMerchStockAfterOrder({
       items: order.items,
@@ -459,12 +517,14 @@ export const POST: APIRoute = async ({ request, locals }) => {
       log.info('[create-order] Item for email:', item.name, '| artwork:', item.artwork, '| image:', item.image, '| downloads.artworkUrl:', item.downloads?.artworkUrl);
     }
 
-    // Send all order-related emails (confirmation, stockist, artist, merch seller)
+    // Send all order-related emails (confirmation, stockist, artist, merch seller);
+    // a held order's sellers are told when it is approved
     await sendOrderEmails({
       order,
       orderRefId: orderRef.id,
       orderNumber,
-      env
+      env,
+      customerOnly: risk.hold
     });
 
     // Update customer's order count atomically if they have an account
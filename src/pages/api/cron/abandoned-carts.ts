@@ -0,0 +1,59 @@
+// src/pages/api/cron/abandoned-carts.ts
+// Cron: 0 * * * * (every hour, freshwax-cron worker)
+//
+// Sends the abandoned cart reminders that have come due (1h, 24h and 72h
+// after a checkout expired — see lib/abandoned-cart.ts). Sequences are
+// started by the checkout.session.expired webhook and closed by createOrder.
+
+import type { APIRoute } from 'astro';
+
+import { processAbandonedCarts } from '../../../lib/abandoned-cart';
+import { ApiErrors, createLogger, timingSafeCompare, successResponse } from '../../../lib/api-utils';
+import { acquireCronLock, releaseCronLock } from '../../../lib/cron-lock';
+
+const log = createLogger('cron/abandoned-carts');
+
+export const prerender = false;
+
+export const POST: APIRoute = async ({ request, locals }) => {
+  const startTime = Date.now();
+  const env = locals.runtime.env;
+
+  // Verify authorization
+  const authHeader = request.headers.get('Authorization');
+  const cronSecret = env?.CRON_SECRET || import.meta.env.CRON_SECRET;
+  const adminKey = env?.ADMIN_KEY || import.meta.env.ADMIN_KEY;
+  const xAdminKey = request.headers.get('X-Admin-Key');
+
+  const token = authHeader?.startsWith('Bearer ') ? authHeader.slice(7) : null;
+  const isAuthorized =
+    (cronSecret && token && timingSafeCompare(token, cronSecret)) ||
+    (adminKey && xAdminKey && timingSafeCompare(xAdminKey, adminKey));
+
+  if (!isAuthorized) {
+    return ApiErrors.unauthorized('Unauthorized');
+  }
+
+  const db = env?.DB;
+  if (db) {
+    const locked = await acquireCronLock(db, 'abandoned-carts');
+    if (!locked) {
+      return ApiErrors.conflict('Job already running');
+    }
+  }
+
+  try {
+    const result = await processAbandonedCarts(env);
+    const duration = Date.now() - startTime;
+    log.info(`[Abandoned Carts] Sent: ${result.sent}, closed: ${result.closed}, failed: ${result.failed}, Duration: ${duration}ms`);
+    return successResponse({ ...result, duration });
+  } catch (err: unknown) {
+    log.error('[Abandoned Carts] Error:', err instanceof Error ? err.message : String(err));
+    return ApiErrors.serverError('Abandoned cart run failed');
+  } finally {
+    if (db) await releaseCronLock(db, 'abandoned-carts');
+  }
+};
+
+// Support GET for manual triggering from admin panel
+export const GET: APIRoute = async (context) => POST(context);
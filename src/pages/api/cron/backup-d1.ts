@@ -34,6 +34,13 @@ const BACKUP_TABLES = [
   'royalty_ledger',
   'image_scan_results',
   'cron_locks',
+  'wallets',
+  'wallet_transactions',
+  'wallet_credits',
+  'payout_accounts',
+  'payout_account_events',
+  'transcode_jobs',
+  'download_fingerprints',
 ];
 
 const PAGE_SIZE = 10000;
@@ -3,11 +3,12 @@
 // Dashboard: Cloudflare Pages > Settings > Cron Triggers
 //
 // Scheduled job to expire stale stock reservations.
-// Reservations older than their TTL are released back to available stock.
+// Reservations older than their TTL are released back to available stock,
+// and freed vinyl is offered to the next person on its waitlist.
 
 import type { APIRoute } from 'astro';
 
-import { cleanupExpiredReservations } from '../../../lib/order-utils';
+import { cleanupExpiredReservations, processVinylWaitlists } from '../../../lib/order-utils';
 import { expireStaleSlots } from '../../../lib/livestream-slots/get-actions';
 import { ApiErrors, createLogger, timingSafeCompare, successResponse } from '../../../lib/api-utils';
 import { acquireCronLock, releaseCronLock } from '../../../lib/cron-lock';
@@ -48,8 +49,11 @@ export const POST: APIRoute = async ({ request, locals }) => {
   try {
     // cleanupExpiredReservations() uses firebase-rest globals (queryCollection, getDocument, etc.)
     // which are initialized by middleware's initFirebaseEnv(runtime.env) on every request,
-    // including cron POST requests — no env parameter needed here.
-    const cleaned = await cleanupExpiredReservations();
+    // including cron POST requests — env is only passed for the waitlist hold emails.
+    const cleaned = await cleanupExpiredReservations(env);
+
+    // Lapse cold waitlist offers and offer anything freed outside a reservation
+    const waitlist = await processVinylWaitlists(env);
 
     // Also expire stale livestream slots (scheduled/in_lobby whose booked time
     // has fully passed without going live) so they stop accumulating.
@@ -61,10 +65,10 @@ export const POST: APIRoute = async ({ request, locals }) => {
     }
 
     const duration = Date.now() - startTime;
-    log.info(`[Cleanup Reservations] Done. Reservations cleaned: ${cleaned}, stale slots expired: ${slotsExpired}, Duration: ${duration}ms`);
+    log.info(`[Cleanup Reservations] Done. Reservations cleaned: ${cleaned}, waitlist holds offered: ${waitlist.offered}, lapsed: ${waitlist.lapsed}, stale slots expired: ${slotsExpired}, Duration: ${duration}ms`);
     log.info('[Cleanup Reservations] ========== COMPLETED ==========');
 
-    return successResponse({ cleaned, slotsExpired, duration });
+    return successResponse({ cleaned, waitlist, slotsExpired, duration });
   } catch (err: unknown) {
     log.error('[Cleanup Reservations] Error:', err instanceof Error ? err.message : String(err));
     return ApiErrors.serverError('Cleanup failed');
@@ -0,0 +1,65 @@
+// src/pages/api/cron/expire-wallet-credits.ts
+// Cron: 0 3 * * * (daily at 03:00 UTC, via workers/freshwax-cron)
+//
+// Takes store credit that lapsed unspent (referral bonuses, promotional
+// credit — see WALLET_EXPIRY_DAYS in lib/wallet.ts) back off wallet
+// balances, recording an `expiry` transaction for each.
+// Auth: Authorization: Bearer $CRON_SECRET or X-Admin-Key.
+
+import type { APIRoute } from 'astro';
+import { verifyAdminKey } from '../../../lib/admin';
+import { createLogger, ApiErrors, timingSafeCompare, successResponse } from '../../../lib/api-utils';
+import { acquireCronLock, releaseCronLock } from '../../../lib/cron-lock';
+import { expireWalletCredits } from '../../../lib/wallet';
+
+const log = createLogger('cron/expire-wallet-credits');
+
+export const prerender = false;
+
+export const POST: APIRoute = async ({ request, locals }) => {
+  const startTime = Date.now();
+
+  const env = locals.runtime.env;
+
+  const authHeader = request.headers.get('Authorization');
+  const cronSecret = env?.CRON_SECRET || import.meta.env.CRON_SECRET;
+  const xAdminKey = request.headers.get('X-Admin-Key');
+  const token = authHeader?.startsWith('Bearer ') ? authHeader.slice(7) : null;
+
+  const isAuthorized =
+    (cronSecret && token && timingSafeCompare(token, cronSecret)) ||
+    (xAdminKey ? verifyAdminKey(xAdminKey, locals) : false);
+
+  if (!isAuthorized) {
+    return ApiErrors.unauthorized('Unauthorized');
+  }
+
+  const db = env?.DB;
+  if (!db) {
+    return ApiErrors.serverError('Database not available');
+  }
+
+  const locked = await acquireCronLock(db, 'expire-wallet-credits');
+  if (!locked) {
+    return ApiErrors.conflict('Job already running');
+  }
+
+  try {
+    const outcome = await expireWalletCredits(db);
+
+    return successResponse({
+      duration: Date.now() - startTime,
+      ...outcome,
+    });
+  } catch (error: unknown) {
+    log.error('Error:', error);
+    return ApiErrors.serverError('Unknown error');
+  } finally {
+    await releaseCronLock(db, 'expire-wallet-credits');
+  }
+};
+
+// Also support GET for manual triggering from admin panel
+export const GET: APIRoute = async (context) => {
+  return POST(context);
+};
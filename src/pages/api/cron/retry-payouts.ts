@@ -15,6 +15,10 @@ import { createPayout as createPayPalPayout, getPayPalConfig } from '../../../li
 import { verifyAdminKey } from '../../../lib/admin';
 import { createLogger, ApiErrors, timingSafeCompare, successResponse } from '../../../lib/api-utils';
 import { acquireCronLock, releaseCronLock } from '../../../lib/cron-lock';
+import { postPayoutToJournal } from '../../../lib/journal';
+import { canPayVia, recordPayoutAccountFailure, syncPayoutState } from '../../../lib/payout-verification';
+import { retryTradeLedger } from '../../../lib/trade';
+import type { PayoutEntityType } from '../../../lib/payout-verification';
 
 const log = createLogger('cron/retry-payouts');
 
@@ -91,6 +95,8 @@ export const POST: APIRoute = async ({ request, locals }) => {
       skipped: 0,
       stripePayouts: 0,
       paypalPayouts: 0,
+      ledgerRetried: 0,
+      ledgerBooked: 0,
       details: [] as Record<string, unknown>[]
     };
 
@@ -148,9 +154,12 @@ export const POST: APIRoute = async ({ request, locals }) => {
         continue;
       }
 
-      // Check if entity has a valid payout method
-      const hasStripe = entity.stripeConnectId && entity.stripeConnectStatus === 'active';
-      const hasPayPal = entity.paypalEmail && paypalConfig;
+      const sellerType: PayoutEntityType = collection === 'merch-suppliers' ? 'supplier' : collection === 'users' ? 'user' : 'artist';
+
+      // Check if entity has a verified payout method (not on hold, PayPal
+      // email confirmed, Connect account active)
+      const hasStripe = canPayVia(entity, 'stripe');
+      const hasPayPal = canPayVia(entity, 'paypal') && paypalConfig;
       const preferredMethod = entity.payoutMethod || (hasStripe ? 'stripe' : 'paypal');
 
       // Determine which method to use
@@ -177,6 +186,7 @@ export const POST: APIRoute = async ({ request, locals }) => {
           status: 'awaiting_connect',
           updatedAt: new Date().toISOString()
         });
+        await syncPayoutState(env as unknown as Record<string, unknown>, sellerType, entity.id as string, { source: 'retry_payouts', entity, warn: true });
         results.skipped++;
         continue;
       }
@@ -286,6 +296,15 @@ export const POST: APIRoute = async ({ request, locals }) => {
           completedAt: new Date().toISOString()
         });
 
+        await postPayoutToJournal(env?.DB, {
+          payoutId: String(payoutResult.stripeTransferId || payoutResult.paypalPayoutId || pending.id),
+          sellerId: entity.id as string,
+          sellerKind: entityType === 'supplier' ? 'supplier' : entityType === 'artist' ? 'artist' : 'crate_seller',
+          amount: Number(pending.amount) || 0,
+          method: payoutResult.payoutMethod === 'paypal' ? 'paypal' : 'stripe',
+          orderId: pending.orderId as string,
+        });
+
         // Update entity's total earnings atomically to prevent race conditions
         await atomicIncrement(collection, entity.id, {
           totalEarnings: pending.amount || 0,
@@ -331,10 +350,35 @@ export const POST: APIRoute = async ({ request, locals }) => {
         const transferErrMsg = transferError instanceof Error ? transferError.message : String(transferError);
         log.error('Failed:', pending.id, transferErrMsg);
 
+        // A closed Connect account or rejected PayPal email restricts the
+        // seller (lib/payout-verification.ts) and parks the payout until they
+        // fix it, rather than spending retries on a destination that can't work
+        const accountError = await recordPayoutAccountFailure(
+          env as unknown as Record<string, unknown>, sellerType, entity.id as string, usePayPal ? 'paypal' : 'stripe', transferErrMsg
+        );
+        if (accountError) {
+          await updateDocument('pendingPayouts', pending.id as string, {
+            status: 'awaiting_connect',
+            failureReason: transferErrMsg,
+            lastRetryFailedAt: new Date().toISOString(),
+            updatedAt: new Date().toISOString()
+          });
+          results.failed++;
+          results.details.push({
+            payoutId: pending.id,
+            entityType,
+            entityName,
+            amount: pending.amount,
+            status: 'payout_method_restricted',
+            error: transferErrMsg
+          });
+          continue;
+        }
+
         // Update with failure reason. Dead-letter after MAX_ATTEMPTS so a
-        // permanently-failing payout (closed Connect account, bad PayPal email)
-        // stops consuming the per-run retry budget every 6h and is surfaced for
-        // manual handling instead of retrying silently until the 30-day age cap.
+        // payout that keeps failing for other reasons stops consuming the
+        // per-run retry budget every 6h and is surfaced for manual handling
+        // instead of retrying silently until the 30-day age cap.
         const nextRetryCount = (pending.retryCount || 0) + 1;
         await updateDocument('pendingPayouts', pending.id, {
           status: nextRetryCount >= MAX_ATTEMPTS ? 'failed_permanent' : 'retry_pending',
@@ -360,6 +404,27 @@ export const POST: APIRoute = async ({ request, locals }) => {
       }
     }
 
+    // Paid trade invoices whose ledger write failed when they were marked
+    // paid (lib/trade.ts flags them) — book them so the payouts tie up
+    const unbookedTradeOrders = await queryCollection('orders', {
+      filters: [{ field: 'ledgerPending', op: 'EQUAL', value: true }],
+      limit: MAX_RETRIES_PER_RUN,
+      skipCache: true
+    });
+    for (const order of unbookedTradeOrders) {
+      results.ledgerRetried++;
+      try {
+        if (await retryTradeLedger(order.id as string, env as unknown as Record<string, unknown>)) {
+          results.ledgerBooked++;
+        } else {
+          results.details.push({ orderId: order.id, status: 'ledger_failed' });
+        }
+      } catch (ledgerErr: unknown) {
+        log.error(`Ledger retry failed for order ${order.id}:`, ledgerErr);
+        results.details.push({ orderId: order.id, status: 'ledger_failed' });
+      }
+    }
+
     const duration = Date.now() - startTime;
 
     return successResponse({ duration: duration,
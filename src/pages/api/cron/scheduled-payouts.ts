@@ -0,0 +1,74 @@
+// src/pages/api/cron/scheduled-payouts.ts
+// Cron: 0 6 * * * (daily at 06:00 UTC, via workers/freshwax-cron)
+//
+// Pays artists on a weekly / monthly payout schedule: once their cycle is
+// due, every sale accrued as a `scheduled` pendingPayouts row goes out as a
+// single Stripe transfer or PayPal payout with an emailed statement, as long
+// as it reaches their minimum. See lib/payout-schedule.ts.
+// Auth: Authorization: Bearer $CRON_SECRET or X-Admin-Key.
+
+import type { APIRoute } from 'astro';
+import { verifyAdminKey } from '../../../lib/admin';
+import { createLogger, ApiErrors, timingSafeCompare, successResponse } from '../../../lib/api-utils';
+import { acquireCronLock, releaseCronLock } from '../../../lib/cron-lock';
+import { runScheduledPayouts } from '../../../lib/payout-schedule';
+
+const log = createLogger('cron/scheduled-payouts');
+
+export const prerender = false;
+
+export const POST: APIRoute = async ({ request, locals }) => {
+  const startTime = Date.now();
+
+  const env = locals.runtime.env;
+
+  const authHeader = request.headers.get('Authorization');
+  const cronSecret = env?.CRON_SECRET || import.meta.env.CRON_SECRET;
+  const xAdminKey = request.headers.get('X-Admin-Key');
+  const token = authHeader?.startsWith('Bearer ') ? authHeader.slice(7) : null;
+
+  const isAuthorized =
+    (cronSecret && token && timingSafeCompare(token, cronSecret)) ||
+    (xAdminKey ? verifyAdminKey(xAdminKey, locals) : false);
+
+  if (!isAuthorized) {
+    return ApiErrors.unauthorized('Unauthorized');
+  }
+
+  const db = env?.DB;
+  if (db) {
+    const locked = await acquireCronLock(db, 'scheduled-payouts');
+    if (!locked) {
+      return ApiErrors.conflict('Job already running');
+    }
+  }
+
+  try {
+    const results = await runScheduledPayouts(env as unknown as Record<string, unknown>);
+    const paid = results.filter(r => r.outcome === 'paid');
+    const failed = results.filter(r => r.outcome === 'failed');
+    const unrecorded = results.filter(r => r.outcome === 'unrecorded');
+    if (paid.length || failed.length || unrecorded.length) {
+      log.info(`Scheduled payouts: ${paid.length} paid, ${failed.length} failed, ${unrecorded.length} sent but not yet recorded`);
+    }
+
+    return successResponse({
+      duration: Date.now() - startTime,
+      paid: paid.length,
+      paidTotal: Math.round(paid.reduce((sum, r) => sum + r.amount, 0) * 100) / 100,
+      failed: failed.length,
+      unrecorded: unrecorded.length,
+      results,
+    });
+  } catch (error: unknown) {
+    log.error('Error:', error);
+    return ApiErrors.serverError('Unknown error');
+  } finally {
+    if (db) await releaseCronLock(db, 'scheduled-payouts');
+  }
+};
+
+// Also support GET for manual triggering from admin panel
+export const GET: APIRoute = async (context) => {
+  return POST(context);
+};
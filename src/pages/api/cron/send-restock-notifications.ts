@@ -5,6 +5,8 @@
 // Process and send restock notifications.
 // Checks restockNotifications collection for active subscriptions,
 // looks up current stock levels, and emails users when items are back in stock.
+// New vinyl signups join the queued waitlist instead (lib/order/waitlist.ts);
+// vinyl subscriptions here predate it.
 
 import type { APIRoute } from 'astro';
 import { queryCollection, getDocument, deleteDocument } from '../../../lib/firebase-rest';
@@ -12,6 +14,7 @@ import { SITE_URL } from '../../../lib/constants';
 import { fetchWithTimeout, ApiErrors, createLogger, timingSafeCompare, successResponse } from '../../../lib/api-utils';
 import { acquireCronLock, releaseCronLock } from '../../../lib/cron-lock';
 import { TIMEOUTS } from '../../../lib/timeouts';
+import { availableVinyl } from '../../../lib/order/waitlist';
 
 const log = createLogger('restock-notifications');
 
@@ -161,7 +164,8 @@ export const POST: APIRoute = async ({ request, locals }) => {
           if (release) {
             productName = String(release.releaseName || release.name || productName);
             productUrl = `${SITE_URL}/item/${productId}`;
-            isInStock = (release.vinylStock || 0) > 0;
+            // Copies held for the vinyl waitlist aren't on open sale
+            isInStock = availableVinyl(release, null) > 0;
           }
         }
 
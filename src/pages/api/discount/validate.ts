@@ -0,0 +1,83 @@
+// src/pages/api/discount/validate.ts
+// Check a discount code against the checkout cart and return what it takes
+// off. Runs the same server-side pricing and discount rules the checkout
+// endpoints apply, so the displayed discount is what will be charged.
+
+import type { APIRoute } from 'astro';
+import { z } from 'zod';
+import { validateAndGetPrices, validateDiscountCode, applyDiscount } from '../../../lib/order-utils';
+import type { CartItem } from '../../../lib/order-utils';
+import { checkRateLimit, getClientId, rateLimitResponse, RateLimiters } from '../../../lib/rate-limit';
+import { ApiErrors, createLogger, parseJsonBody, successResponse } from '../../../lib/api-utils';
+
+const log = createLogger('discount-validate');
+
+const ValidateDiscountSchema = z.object({
+  code: z.string().min(1).max(40),
+  items: z.array(z.object({
+    id: z.string().nullish(),
+    productId: z.string().nullish(),
+    releaseId: z.string().nullish(),
+    trackId: z.string().nullish(),
+    name: z.string().max(500).nullish(),
+    type: z.string().nullish(),
+    productType: z.string().nullish(),
+    price: z.number().min(0),
+    quantity: z.number().int().min(1).max(99).default(1),
+    artistId: z.string().nullish(),
+    sellerId: z.string().nullish(),
+    vinylPartId: z.string().nullish(),
+  }).strip()).min(1).max(50),
+  customer: z.object({
+    email: z.string().email().nullish(),
+    userId: z.string().nullish(),
+  }).strip().nullish(),
+}).strip();
+
+export const prerender = false;
+
+export const POST: APIRoute = async ({ request, locals }) => {
+  // Strict: a public code check is an easy target for guessing
+  const clientId = getClientId(request);
+  const rateLimit = checkRateLimit(`discount-validate:${clientId}`, RateLimiters.strict);
+  if (!rateLimit.allowed) {
+    return rateLimitResponse(rateLimit.retryAfter!);
+  }
+
+  const parsed = ValidateDiscountSchema.safeParse(await parseJsonBody(request));
+  if (!parsed.success) {
+    return ApiErrors.badRequest('Invalid request');
+  }
+
+  try {
+    const { code, customer } = parsed.data;
+    const items = parsed.data.items.map(item => ({
+      ...item,
+      type: item.type || item.productType || 'digital',
+      // Crates items are identified by sellerId && !releaseId
+      releaseId: item.releaseId || undefined,
+    })) as CartItem[];
+
+    const { validatedItems, validationError } = await validateAndGetPrices(items, { logPrefix: '[Discount]' });
+    if (validationError) {
+      return ApiErrors.badRequest(validationError);
+    }
+
+    const { discountCode, validationError: discountError } = await validateDiscountCode(
+      locals.runtime?.env?.DB, code, validatedItems, customer || {}
+    );
+    if (discountError || !discountCode) {
+      return ApiErrors.badRequest(discountError || 'Discount code not recognised');
+    }
+
+    const applied = applyDiscount(validatedItems, discountCode);
+    return successResponse({
+      code: discountCode.code,
+      campaign: discountCode.campaign,
+      discount: applied?.amount || 0,
+    }, 200, { headers: { 'Cache-Control': 'no-store' } });
+  } catch (error: unknown) {
+    log.error('[discount-validate] Error:', error);
+    return ApiErrors.serverError('Could not check discount code');
+  }
+};
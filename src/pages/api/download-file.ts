@@ -1,11 +1,19 @@
 // src/pages/api/download-file.ts
 // Stream file directly from R2 via native binding — same-origin, supports progress tracking
 // SECURITY: Verifies user owns the order before streaming
+// fileType flac / aiff (and tagged mp3) come from the transcode queue: 202
+// { status: 'preparing', retryAfter } until the file has been made
+// Audio of a release with watermarkDownloads set is stamped with the buyer's
+// fingerprint on the way out (lib/release/download-watermark.ts)
 
 import type { APIRoute } from 'astro';
 import { verifyRequestUser, getDocument } from '../../lib/firebase-rest';
 import { checkRateLimit, getClientId, rateLimitResponse, RateLimiters } from '../../lib/rate-limit';
 import { ApiErrors, createLogger } from '../../lib/api-utils';
+import { isRenditionFormat } from '../../lib/release/download-formats';
+import { prepareOrderRendition, renditionPendingResponse } from '../../lib/release/download-renditions';
+import { fingerprintFormat } from '../../lib/release/download-fingerprint';
+import { downloadBuyer, stampDownload, watermarkEnabled } from '../../lib/release/download-watermark';
 
 export const prerender = false;
 
@@ -42,6 +50,7 @@ function getMimeType(key: string): string {
     case 'mp3': return 'audio/mpeg';
     case 'wav': return 'audio/wav';
     case 'flac': return 'audio/flac';
+    case 'aif': case 'aiff': return 'audio/aiff';
     case 'jpg': case 'jpeg': return 'image/jpeg';
     case 'png': return 'image/png';
     case 'webp': return 'image/webp';
@@ -69,7 +78,7 @@ export const GET: APIRoute = async ({ request, locals }) => {
       return ApiErrors.badRequest('Invalid trackIndex');
     }
 
-    if (!['mp3', 'wav', 'artwork'].includes(fileType)) {
+    if (!['mp3', 'wav', 'flac', 'aiff', 'artwork'].includes(fileType)) {
       return ApiErrors.badRequest('Invalid fileType');
     }
 
@@ -134,8 +143,11 @@ export const GET: APIRoute = async ({ request, locals }) => {
       }
     }
 
-    // Resolve file URL
+    // Resolve file URL. FLAC and AIFF are made from the master, so they're
+    // looked up as the WAV
     let fileUrl: string | null = null;
+    let trackName: string | null = null;
+    let releaseData: Record<string, unknown> | null = null;
 
     if (fileType === 'artwork') {
       fileUrl = item.downloads?.artworkUrl || null;
@@ -148,6 +160,7 @@ export const GET: APIRoute = async ({ request, locals }) => {
           ) || orderTracks[0];
           if (orderTrack) {
             fileUrl = fileType === 'mp3' ? orderTrack.mp3Url : orderTrack.wavUrl;
+            trackName = orderTrack.name || null;
           }
         } else {
           if (trackIndex >= orderTracks.length) {
@@ -156,6 +169,7 @@ export const GET: APIRoute = async ({ request, locals }) => {
           const orderTrack = orderTracks[trackIndex];
           if (orderTrack) {
             fileUrl = fileType === 'mp3' ? orderTrack.mp3Url : orderTrack.wavUrl;
+            trackName = orderTrack.name || null;
           }
         }
       }
@@ -163,7 +177,7 @@ export const GET: APIRoute = async ({ request, locals }) => {
 
     // Fallback to release data
     if (!fileUrl) {
-      const releaseData = await getDocument('releases', releaseId);
+      releaseData = await getDocument('releases', releaseId);
       if (!releaseData) {
         return ApiErrors.notFound('Release not found');
       }
@@ -196,6 +210,46 @@ export const GET: APIRoute = async ({ request, locals }) => {
       return ApiErrors.notFound('File not available');
     }
 
+    // Per-buyer fingerprint, when the release asks for one
+    if (fileType !== 'artwork') {
+      releaseData = releaseData || await getDocument('releases', releaseId);
+    }
+    const stampAs = fileType !== 'artwork' && watermarkEnabled(releaseData)
+      ? downloadBuyer({ ...order, id: orderId }, userId, releaseId, trackName)
+      : null;
+    const serve = async (object: import('@cloudflare/workers-types').R2ObjectBody, key: string): Promise<Response> => {
+      // The Workers and DOM stream types differ; the object is the same
+      const body = object.body as unknown as ReadableStream;
+      const format = stampAs ? fingerprintFormat(key) : null;
+      if (!stampAs || !format) return streamR2Object({ body, size: object.size }, filename, key);
+      const stamped = await stampDownload(env.DB, stampAs, format, body, object.size);
+      if (!stamped) {
+        await body.cancel();
+        return ApiErrors.serverError('Download unavailable, please try again shortly');
+      }
+      return streamR2Object(stamped, filename, key);
+    };
+
+    // Tagged MP3, FLAC and AIFF. An MP3 whose tagged copy isn't made yet is
+    // served as stored rather than kept waiting.
+    if (isRenditionFormat(fileType) && env.DB) {
+      const publicDomain = env.R2_PUBLIC_DOMAIN || import.meta.env.R2_PUBLIC_DOMAIN || 'https://cdn.freshwax.co.uk';
+      releaseData = releaseData || await getDocument('releases', releaseId);
+      const rendition = releaseData
+        ? await prepareOrderRendition(env.DB, { ...releaseData, id: releaseId }, { url: fileUrl, name: trackName }, fileType, publicDomain)
+        : { status: 'unavailable' as const, reason: 'Release not found' };
+      if (rendition.status === 'ready') {
+        const renditionObject = await env.R2.get(rendition.key);
+        if (renditionObject) return serve(renditionObject, rendition.key);
+        log.error('[download-file] Rendition missing from R2:', rendition.key);
+      } else if (fileType !== 'mp3') {
+        return renditionPendingResponse(rendition, fileType);
+      }
+    }
+    if (fileType === 'flac' || fileType === 'aiff') {
+      return ApiErrors.serverError(`${fileType.toUpperCase()} downloads are unavailable`);
+    }
+
     // Extract R2 key
     const objectKey = extractKeyFromUrl(fileUrl);
     if (!objectKey) {
@@ -206,7 +260,7 @@ export const GET: APIRoute = async ({ request, locals }) => {
         if (!key.includes('..')) {
           const obj = await env.R2.get(key);
           if (obj) {
-            return streamR2Object(obj, filename, key);
+            return serve(obj, key);
           }
         }
       }
@@ -221,7 +275,7 @@ export const GET: APIRoute = async ({ request, locals }) => {
       return ApiErrors.notFound('File not found in storage');
     }
 
-    return streamR2Object(r2Object, filename, objectKey);
+    return serve(r2Object, objectKey);
 
   } catch (error: unknown) {
     log.error('[download-file] Error:', error);
@@ -229,16 +283,15 @@ export const GET: APIRoute = async ({ request, locals }) => {
   }
 };
 
-function streamR2Object(r2Object: R2ObjectBody, filename: string, objectKey: string): Response {
+function streamR2Object(r2Object: { body: ReadableStream; size: number | null }, filename: string, objectKey: string): Response {
   const contentType = getMimeType(objectKey);
   const safeFilename = filename.replace(/["\\\r\n]/g, '_');
-
-  return new Response(r2Object.body, {
-    headers: {
-      'Content-Type': contentType,
-      'Content-Disposition': `attachment; filename="${safeFilename}"`,
-      'Content-Length': String(r2Object.size),
-      'Cache-Control': 'private, max-age=3600',
-    },
-  });
+  const headers: Record<string, string> = {
+    'Content-Type': contentType,
+    'Content-Disposition': `attachment; filename="${safeFilename}"`,
+    'Cache-Control': 'private, max-age=3600',
+  };
+  if (r2Object.size !== null) headers['Content-Length'] = String(r2Object.size);
+
+  return new Response(r2Object.body, { headers });
 }
@@ -1,11 +1,22 @@
 // src/pages/api/download.ts
 // Server-side download proxy to bypass CORS for R2 files
+// ?format=mp3|flac|aiff with a track's url asks for it tagged in that format
+// (see lib/release/download-renditions.ts): 202 { status: 'preparing',
+// retryAfter } until the file has been made. A tagged MP3 that isn't ready
+// yet is served as stored.
+// Audio of a release with watermarkDownloads set is stamped with the buyer's
+// fingerprint on the way out (lib/release/download-watermark.ts).
 
 import type { APIRoute } from 'astro';
-import { verifyRequestUser, queryCollection } from '../../lib/firebase-rest';
+import { verifyRequestUser, queryCollection, getDocument } from '../../lib/firebase-rest';
 import { errorResponse, ApiErrors, fetchWithTimeout, createLogger } from '../../lib/api-utils';
 import { TIMEOUTS } from '../../lib/timeouts';
 import { checkRateLimit, getClientId, rateLimitResponse, RateLimiters } from '../../lib/rate-limit';
+import { d1LogDownload } from '../../lib/d1/downloads';
+import { FORMAT_CONTENT_TYPES, isRenditionFormat } from '../../lib/release/download-formats';
+import { prepareOrderRendition, renditionPendingResponse } from '../../lib/release/download-renditions';
+import { fingerprintFormat, type FingerprintFormat } from '../../lib/release/download-fingerprint';
+import { downloadBuyer, stampDownload, watermarkEnabled, type DownloadBuyer } from '../../lib/release/download-watermark';
 
 const log = createLogger('download');
 
@@ -31,10 +42,15 @@ export const GET: APIRoute = async ({ request, url, locals }) => {
 
   const fileUrl = url.searchParams.get('url');
   const filename = url.searchParams.get('filename') || 'download';
+  const formatParam = url.searchParams.get('format');
+  const format = isRenditionFormat(formatParam) ? formatParam : null;
 
   if (!fileUrl) {
     return ApiErrors.badRequest('Missing url parameter');
   }
+  if (formatParam && !format) {
+    return ApiErrors.badRequest('Invalid format');
+  }
   
   // Validate URL is from allowed domains
   const allowedDomains = [
@@ -57,6 +73,9 @@ export const GET: APIRoute = async ({ request, url, locals }) => {
   }
 
   // SECURITY: Verify user has purchased content containing this URL
+  let purchasedReleaseId: string | null = null;
+  let purchasedTrackName: string | null = null;
+  let purchasedOrderDoc: Record<string, unknown> | null = null;
   try {
     // Query by customer.userId (same field used by get-orders.ts)
     const userOrders = await queryCollection('orders', {
@@ -67,23 +86,102 @@ export const GET: APIRoute = async ({ request, url, locals }) => {
       limit: 500
     });
 
-    const hasPurchased = userOrders.some((order: Record<string, unknown>) =>
-      ((order.items || []) as Record<string, unknown>[]).some((item: Record<string, unknown>) => {
+    let purchasedItem: Record<string, unknown> | undefined;
+    const purchasedOrder = userOrders.find((order: Record<string, unknown>) => {
+      purchasedItem = ((order.items || []) as Record<string, unknown>[]).find((item: Record<string, unknown>) => {
         const downloads = item.downloads as Record<string, unknown> | undefined;
         const tracks = (downloads?.tracks || []) as Record<string, unknown>[];
-        return tracks.some((t: Record<string, unknown>) => t.mp3Url === fileUrl || t.wavUrl === fileUrl) ||
-          downloads?.artworkUrl === fileUrl;
-      })
-    );
+        const track = tracks.find((t: Record<string, unknown>) => t.mp3Url === fileUrl || t.wavUrl === fileUrl);
+        if (track) purchasedTrackName = (track.name as string) || null;
+        return !!track || downloads?.artworkUrl === fileUrl;
+      });
+      return !!purchasedItem;
+    });
 
-    if (!hasPurchased) {
+    if (!purchasedOrder) {
       return ApiErrors.forbidden('Purchase required');
     }
+    purchasedReleaseId = ((purchasedItem?.releaseId || purchasedItem?.productId) as string) || null;
+    purchasedOrderDoc = purchasedOrder;
+
+    await d1LogDownload(env?.DB, {
+      userId,
+      orderId: purchasedOrder.id as string,
+      releaseId: purchasedReleaseId,
+      trackIndex: null,
+      fileType: filename.split('.').pop()?.toLowerCase() || null,
+      source: 'proxy',
+      ip: clientId.startsWith('anon-') ? null : clientId,
+      userAgent: request.headers.get('User-Agent'),
+    });
   } catch (purchaseErr: unknown) {
     log.error('[download] Purchase verification error:', purchaseErr);
     return ApiErrors.serverError('Could not verify purchase');
   }
 
+  // The release, for renditions and the per-buyer fingerprint (audio only)
+  const urlFormat = fingerprintFormat(new URL(fileUrl).pathname);
+  let release: Record<string, unknown> | null = null;
+  if (purchasedReleaseId && (format || urlFormat)) {
+    try {
+      release = await getDocument('releases', purchasedReleaseId);
+    } catch (releaseErr: unknown) {
+      log.error('[download] Release lookup error:', releaseErr);
+      return ApiErrors.serverError('Could not load release');
+    }
+  }
+  const stampAs: DownloadBuyer | null = purchasedOrderDoc && purchasedReleaseId && watermarkEnabled(release)
+    ? downloadBuyer(purchasedOrderDoc, userId, purchasedReleaseId, purchasedTrackName)
+    : null;
+
+  const send = async (
+    body: ReadableStream | null,
+    size: number | null,
+    headers: Record<string, string>,
+    bodyFormat: FingerprintFormat | null
+  ): Promise<Response> => {
+    if (stampAs && bodyFormat && body) {
+      const stamped = await stampDownload(env?.DB, stampAs, bodyFormat, body, size);
+      if (!stamped) {
+        await body.cancel();
+        return ApiErrors.serverError('Download unavailable, please try again shortly');
+      }
+      body = stamped.body;
+      size = stamped.size;
+    }
+    if (size !== null) headers['Content-Length'] = String(size);
+    return new Response(body, { status: 200, headers });
+  };
+
+  if (format && env?.DB) {
+    const publicDomain = env.R2_PUBLIC_DOMAIN || import.meta.env.R2_PUBLIC_DOMAIN || 'https://cdn.freshwax.co.uk';
+    try {
+      const rendition = release
+        ? await prepareOrderRendition(env.DB, { ...release, id: purchasedReleaseId }, { url: fileUrl, name: purchasedTrackName }, format, publicDomain)
+        : { status: 'unavailable' as const, reason: 'Release not found' };
+
+      if (rendition.status === 'ready') {
+        const object = await env.R2.get(rendition.key);
+        if (object) {
+          // The Workers and DOM stream types differ; the object is the same
+          return send(object.body as unknown as ReadableStream, object.size, {
+            'Content-Type': FORMAT_CONTENT_TYPES[format],
+            'Content-Disposition': `attachment; filename="${encodeURIComponent(filename)}"`,
+            'Cache-Control': 'private, max-age=3600'
+          }, format);
+        }
+        log.error('[download] Rendition missing from R2:', rendition.key);
+      } else if (format !== 'mp3') {
+        return renditionPendingResponse(rendition, format);
+      }
+    } catch (renditionErr: unknown) {
+      log.error('[download] Rendition error:', renditionErr);
+    }
+    if (format !== 'mp3') {
+      return ApiErrors.serverError(`${format.toUpperCase()} downloads are unavailable`);
+    }
+  }
+
   try {
     log.info('[download] Fetching:', fileUrl);
 
@@ -119,15 +217,8 @@ export const GET: APIRoute = async ({ request, url, locals }) => {
       'Cache-Control': 'private, max-age=3600'
     };
 
-    if (contentLength) {
-      headers['Content-Length'] = contentLength;
-    }
-
     // Pass through the body stream directly
-    return new Response(response.body, {
-      status: 200,
-      headers
-    });
+    return send(response.body, contentLength ? Number(contentLength) : null, headers, urlFormat);
 
   } catch (error: unknown) {
     log.error('[download] Error:', error);
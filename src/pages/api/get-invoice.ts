@@ -0,0 +1,97 @@
+// src/pages/api/get-invoice.ts
+// Download the invoice for one of the customer's orders, as HTML or PDF
+// SECURITY: Requires authentication - user can only fetch invoices for their own orders
+
+import type { APIRoute } from 'astro';
+import { z } from 'zod';
+import { verifyRequestUser, getDocument } from '../../lib/firebase-rest';
+import { checkRateLimit, getClientId, rateLimitResponse, RateLimiters } from '../../lib/rate-limit';
+import { ApiErrors, createLogger } from '../../lib/api-utils';
+import {
+  buildInvoiceDocument,
+  invoiceSellerFromEnv,
+  issueOrderInvoice,
+  renderInvoiceHtml,
+  renderInvoicePdf,
+} from '../../lib/order/invoices';
+
+const log = createLogger('get-invoice');
+
+const InvoiceQuerySchema = z.object({
+  orderId: z.string().min(1).max(200),
+  format: z.enum(['html', 'pdf']).default('pdf'),
+});
+
+export const prerender = false;
+
+export const GET: APIRoute = async ({ request, url, locals }) => {
+  const clientId = getClientId(request);
+  const rateLimit = checkRateLimit(`get-invoice:${clientId}`, RateLimiters.standard);
+  if (!rateLimit.allowed) {
+    return rateLimitResponse(rateLimit.retryAfter!);
+  }
+
+  const { userId, error: authError } = await verifyRequestUser(request);
+  if (authError || !userId) {
+    return ApiErrors.unauthorized(authError || 'Authentication required');
+  }
+
+  const parsed = InvoiceQuerySchema.safeParse({
+    orderId: url.searchParams.get('orderId') || '',
+    format: url.searchParams.get('format') || undefined,
+  });
+  if (!parsed.success) {
+    return ApiErrors.badRequest('Invalid request');
+  }
+  const { orderId, format } = parsed.data;
+
+  const env = locals.runtime.env;
+  const db = env?.DB;
+  if (!db) {
+    return ApiErrors.serverError('Invoices are temporarily unavailable');
+  }
+
+  try {
+    const order = await getDocument('orders', orderId);
+    if (!order) {
+      return ApiErrors.notFound('Order not found');
+    }
+
+    const orderUserId = order.customer?.userId || order.userId || order.customerId;
+    if (orderUserId !== userId) {
+      log.error('[get-invoice] Unauthorized access attempt:', { orderId, orderUserId, requestingUserId: userId });
+      return ApiErrors.forbidden('Unauthorized');
+    }
+    if (order.paymentStatus !== 'completed') {
+      return ApiErrors.forbidden('Payment not yet completed for this order');
+    }
+
+    // Orders from before invoicing get their number on first download
+    const record = await issueOrderInvoice(db, orderId, order);
+    if (!record) {
+      return ApiErrors.serverError('Failed to issue invoice');
+    }
+
+    const invoice = buildInvoiceDocument(order, record, invoiceSellerFromEnv(env as unknown as Record<string, unknown>));
+    const headers = { 'Cache-Control': 'private, no-store' };
+
+    if (format === 'html') {
+      return new Response(renderInvoiceHtml(invoice), {
+        status: 200,
+        headers: { ...headers, 'Content-Type': 'text/html; charset=utf-8' }
+      });
+    }
+
+    return new Response(renderInvoicePdf(invoice).buffer as ArrayBuffer, {
+      status: 200,
+      headers: {
+        ...headers,
+        'Content-Type': 'application/pdf',
+        'Content-Disposition': `attachment; filename="${invoice.number}.pdf"`
+      }
+    });
+  } catch (error: unknown) {
+    log.error('[get-invoice] Error:', error instanceof Error ? error.message : String(error));
+    return ApiErrors.serverError('Failed to generate invoice');
+  }
+};
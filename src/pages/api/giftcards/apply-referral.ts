@@ -8,6 +8,7 @@ import { isValidCodeFormat, isExpired, REFERRAL_DISCOUNT_AMOUNT } from '../../..
 import { formatPrice } from '../../../lib/format-utils';
 import { SUBSCRIPTION_TIERS, PRO_ANNUAL_PRICE } from '../../../lib/subscription';
 import { checkRateLimit, getClientId, rateLimitResponse, RateLimiters } from '../../../lib/rate-limit';
+import { recordRiskEvent } from '../../../lib/fraud';
 import { createLogger, ApiErrors, successResponse } from '../../../lib/api-utils';
 
 const log = createLogger('[apply-referral]');
@@ -132,11 +133,17 @@ export const POST: APIRoute = async ({ request, locals }) => {
     // Use the verified userId for all operations
     const authenticatedUserId = verifiedUserId;
 
+    // Failed codes count towards the fraud score of this account's orders
+    const failed = async (response: Response, detail: string) => {
+      await recordRiskEvent(env?.DB, { kind: 'referral_failed', userId: authenticatedUserId, ip: postClientId, detail });
+      return response;
+    };
+
     const normalizedCode = code.toUpperCase().trim();
 
     // Validate code format
     if (!isValidCodeFormat(normalizedCode)) {
-      return ApiErrors.badRequest('Invalid referral code format');
+      return failed(ApiErrors.badRequest('Invalid referral code format'), 'invalid_format');
     }
 
     // Find the gift card
@@ -146,7 +153,7 @@ export const POST: APIRoute = async ({ request, locals }) => {
     });
 
     if (giftCardResults.length === 0) {
-      return ApiErrors.notFound('Referral code not found');
+      return failed(ApiErrors.notFound('Referral code not found'), 'not_found');
     }
 
     const giftCard = giftCardResults[0];
@@ -154,25 +161,25 @@ export const POST: APIRoute = async ({ request, locals }) => {
 
     // Validate it's a referral code
     if (giftCard.restrictedTo !== 'pro_upgrade') {
-      return ApiErrors.badRequest('This is not a valid referral code');
+      return failed(ApiErrors.badRequest('This is not a valid referral code'), 'not_referral');
     }
 
     // Check if user is trying to use their own referral code
     if (giftCard.createdByUserId === authenticatedUserId) {
-      return ApiErrors.badRequest('You cannot use your own referral code');
+      return failed(ApiErrors.badRequest('You cannot use your own referral code'), 'own_code');
     }
 
     // Standard validation checks
     if (giftCard.redeemedBy) {
-      return ApiErrors.badRequest('This referral code has already been used');
+      return failed(ApiErrors.badRequest('This referral code has already been used'), 'already_redeemed');
     }
 
     if (!giftCard.isActive) {
-      return ApiErrors.badRequest('This referral code is no longer active');
+      return failed(ApiErrors.badRequest('This referral code is no longer active'), 'inactive');
     }
 
     if (isExpired(giftCard.expiresAt)) {
-      return ApiErrors.badRequest('This referral code has expired');
+      return failed(ApiErrors.badRequest('This referral code has expired'), 'expired');
     }
 
     // Check if user already has Pro
@@ -1,11 +1,12 @@
 // src/pages/api/giftcards/balance.ts
-// Get user's credit balance and transaction history - uses Firebase REST API
+// Get user's store credit wallet: balance, transaction history and credit about to expire
 // SECURITY: Requires authentication - user can only view their own balance
 import type { APIRoute } from 'astro';
 import { z } from 'zod';
-import { getDocument, updateDocument, updateDocumentConditional, verifyRequestUser } from '../../../lib/firebase-rest';
+import { getDocument, verifyRequestUser } from '../../../lib/firebase-rest';
 import { createLogger, ApiErrors, successResponse } from '../../../lib/api-utils';
 import { checkRateLimit, getClientId, rateLimitResponse } from '../../../lib/rate-limit';
+import { getWallet, spendWallet, WALLET_TYPE_LABELS, WALLET_EXPIRY_DAYS } from '../../../lib/wallet';
 
 const log = createLogger('[giftcards/balance]');
 
@@ -18,10 +19,10 @@ const ApplyCreditSchema = z.object({
 
 export const prerender = false;
 
-export const GET: APIRoute = async ({ request, locals }) => {
-  // Initialize Firebase for Cloudflare runtime
-  const env = locals.runtime.env;
+const PAGE_SIZE = 50;
 
+export const GET: APIRoute = async ({ request, locals, url }) => {
+  const env = locals.runtime.env;
 
   try {
     // SECURITY: Verify the requesting user's identity
@@ -31,22 +32,56 @@ export const GET: APIRoute = async ({ request, locals }) => {
       return ApiErrors.unauthorized(authError || 'Authentication required');
     }
 
-    // Get user credit document
-    const creditData = await getDocument('userCredits', userId);
-
-    if (!creditData) {
-      // No credit document yet - return zero balance
-      return successResponse({ balance: 0,
-        transactions: [] });
+    // Page back through history with ?before=<createdAt of the last row shown>
+    const before = url.searchParams.get('before') || undefined;
+    const wallet = await getWallet(env?.DB, userId, { limit: PAGE_SIZE, before });
+    if (!wallet) {
+      return ApiErrors.serverError('Failed to get balance');
     }
 
-    // Sort transactions by date (newest first)
-    const transactions = (creditData.transactions || [])
-      .sort((a: Record<string, unknown>, b: Record<string, unknown>) => new Date(b.createdAt as string).getTime() - new Date(a.createdAt as string).getTime());
+    const transactions: Record<string, unknown>[] = wallet.transactions.map(txn => ({
+      id: txn.id,
+      type: txn.type,
+      label: WALLET_TYPE_LABELS[txn.type] || txn.type,
+      amount: txn.amount,
+      balanceAfter: txn.balanceAfter,
+      description: txn.description,
+      reference: txn.reference,
+      orderId: txn.orderId,
+      expiresAt: txn.expiresAt,
+      createdAt: txn.createdAt,
+    }));
+    const hasMore = wallet.transactions.length === PAGE_SIZE;
+
+    // History from before the wallet (carried over as its opening balance)
+    // still lives on the userCredits doc; show it after the last page
+    if (!hasMore) {
+      const legacy = await getDocument('userCredits', userId).catch(() => null);
+      const legacyTransactions = ((legacy?.transactions || []) as Record<string, unknown>[])
+        .sort((a, b) => new Date(b.createdAt as string).getTime() - new Date(a.createdAt as string).getTime());
+      for (const txn of legacyTransactions) {
+        transactions.push({ ...txn, label: txn.type === 'purchase' ? 'Purchase' : 'Credit', legacy: true });
+      }
+    }
 
-    return successResponse({ balance: creditData.balance || 0,
-      lastUpdated: creditData.lastUpdated,
-      transactions });
+    // Credit that will lapse, soonest first
+    const expiring = wallet.credits
+      .filter(c => c.expiresAt)
+      .map(c => ({
+        id: c.id,
+        source: c.source,
+        label: WALLET_TYPE_LABELS[c.source] || c.source,
+        remaining: c.remaining,
+        expiresAt: c.expiresAt,
+      }));
+
+    return successResponse({ balance: wallet.balance,
+      transactions,
+      hasMore,
+      expiring,
+      expiringSoon: wallet.expiringSoon,
+      nextExpiry: wallet.nextExpiry,
+      expiryPolicy: WALLET_EXPIRY_DAYS });
 
   } catch (error: unknown) {
     log.error('Error:', error);
@@ -64,10 +99,8 @@ export const POST: APIRoute = async ({ request, locals }) => {
     return rateLimitResponse(rateLimit.retryAfter);
   }
 
-  // Initialize Firebase for Cloudflare runtime
   const env = locals.runtime.env;
 
-
   try {
     // SECURITY: Verify the requesting user's identity
     const { userId, error: authError } = await verifyRequestUser(request);
@@ -84,70 +117,27 @@ export const POST: APIRoute = async ({ request, locals }) => {
     }
     const { amount, orderId, orderNumber } = parseResult.data;
 
-    // SECURITY: Use conditional update to prevent double-spend race conditions
-    // Retry up to 3 times in case of concurrent modification
-    const MAX_RETRIES = 3;
-    for (let attempt = 0; attempt < MAX_RETRIES; attempt++) {
-      // Get current balance (fresh read each attempt)
-      const creditData = await getDocument('userCredits', userId);
-
-      if (!creditData) {
-        return ApiErrors.badRequest('No credit balance found');
-      }
-
-      const currentBalance = creditData.balance || 0;
-
-      if (amount > currentBalance) {
-        return ApiErrors.badRequest('Insufficient credit balance');
-      }
-
-      const newBalance = currentBalance - amount;
-      const now = new Date().toISOString();
-
-      // Create transaction record
-      const transactionId = `txn_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
-      const transaction = {
-        id: transactionId,
-        type: 'purchase',
-        amount: -amount,
-        description: `Applied to order ${orderNumber || orderId}`,
-        orderId,
-        createdAt: now,
-        balanceAfter: newBalance
-      };
-
-      const existingTransactions = creditData.transactions || [];
-      existingTransactions.push(transaction);
-
-      try {
-        // Conditional update: only succeeds if document hasn't changed since our read
-        await updateDocumentConditional('userCredits', userId, {
-          balance: newBalance,
-          lastUpdated: now,
-          transactions: existingTransactions
-        }, creditData._updateTime);
-
-        // Also update customer document
-        await updateDocument('users', userId, {
-          creditBalance: newBalance,
-          creditUpdatedAt: now
-        });
-
-        log.info('Applied credit:', amount, 'for user:', userId, 'order:', orderId);
-
-        return successResponse({ amountApplied: amount,
-          newBalance,
-          transactionId });
-      } catch (condError: unknown) {
-        if (attempt < MAX_RETRIES - 1 && condError instanceof Error && condError.message.includes('condition')) {
-          log.warn('Concurrent modification, retrying...', attempt + 1);
-          continue;
-        }
-        throw condError;
-      }
+    // SECURITY: The wallet refuses a spend its balance doesn't cover; keyed
+    // by the order so applying credit to it twice only spends once
+    const result = await spendWallet(env?.DB, {
+      userId,
+      amount,
+      id: orderId ? `spend:${orderId}` : undefined,
+      description: `Applied to order ${orderNumber || orderId}`,
+      orderId,
+    });
+
+    if (!result.success) {
+      return result.error === 'Insufficient credit balance'
+        ? ApiErrors.badRequest('Insufficient credit balance')
+        : ApiErrors.serverError('Failed to apply credit');
     }
 
-    return ApiErrors.conflict('Could not apply credit due to concurrent access. Please try again.');
+    log.info('Applied credit:', amount, 'for user:', userId, 'order:', orderId);
+
+    return successResponse({ amountApplied: amount,
+      newBalance: result.balance,
+      transactionId: result.transactionId });
 
   } catch (error: unknown) {
     log.error('Error applying credit:', error);
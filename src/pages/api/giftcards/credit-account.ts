@@ -1,12 +1,14 @@
 // src/pages/api/giftcards/credit-account.ts
-// Directly credit an account with store credit (for testing / admin use)
+// Directly credit an account with store credit (for testing / admin use).
+// Welcome credit is promotional (it expires); `source` picks another policy.
 
 import type { APIRoute } from 'astro';
 import { z } from 'zod';
-import { getDocument, updateDocument, setDocument, atomicIncrement, arrayUnion } from '../../../lib/firebase-rest';
+import { verifyRequestUser } from '../../../lib/firebase-rest';
 import { requireAdminAuth, initAdminEnv } from '../../../lib/admin';
 import { createLogger, ApiErrors, successResponse } from '../../../lib/api-utils';
 import { checkRateLimit, getClientId, rateLimitResponse } from '../../../lib/rate-limit';
+import { creditWallet } from '../../../lib/wallet';
 
 const log = createLogger('[credit-account]');
 
@@ -19,6 +21,8 @@ const CreditAccountSchema = z.object({
   }, 'Amount must be a positive number'),
   reason: z.string().max(500).optional(),
   isWelcomeCredit: z.boolean().optional(),
+  // Which expiry policy the credit follows (lib/wallet.ts WALLET_EXPIRY_DAYS)
+  source: z.enum(['top_up', 'promotional', 'referral_bonus', 'adjustment']).optional(),
 }).strip();
 
 export const POST: APIRoute = async ({ request, locals }) => {
@@ -45,56 +49,23 @@ export const POST: APIRoute = async ({ request, locals }) => {
     if (!parseResult.success) {
       return ApiErrors.badRequest('Invalid request');
     }
-    const { userId, amount, reason, isWelcomeCredit } = parseResult.data;
+    const { userId, amount, reason, isWelcomeCredit, source } = parseResult.data;
 
     const creditAmount = typeof amount === 'string' ? parseFloat(amount) : amount;
+    const { userId: adminUid } = await verifyRequestUser(request);
 
-    const now = new Date().toISOString();
-    const transactionId = `txn_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
-
-    // Get or create user credit document
-    const creditDoc = await getDocument('userCredits', userId);
-
-    let newBalance: number;
-
-    const transaction = {
-      id: transactionId,
-      type: isWelcomeCredit ? 'welcome_credit' : 'admin_credit',
+    const result = await creditWallet(env?.DB, {
+      userId,
+      source: source || (isWelcomeCredit ? 'promotional' : 'adjustment'),
       amount: creditAmount,
       description: reason || (isWelcomeCredit ? '£50 Welcome Credit' : 'Admin credit adjustment'),
-      createdAt: now,
-      balanceAfter: 0 // Will be set below
-    };
-
-    if (!creditDoc) {
-      // Create the document first if it doesn't exist
-      await setDocument('userCredits', userId, {
-        userId,
-        balance: 0,
-        lastUpdated: now,
-        transactions: []
-      });
-    }
-
-    // Atomically increment balance to prevent race conditions
-    const result = await atomicIncrement('userCredits', userId, { balance: creditAmount });
-    newBalance = result.newValues.balance ?? ((creditDoc?.balance || 0) + creditAmount);
-    transaction.balanceAfter = newBalance;
-
-    // Atomic arrayUnion prevents lost transactions under concurrent writes
-    await arrayUnion('userCredits', userId, 'transactions', [transaction], {
-      lastUpdated: now
+      createdBy: adminUid || 'admin',
     });
-
-    // Also update customer document
-    try {
-      await updateDocument('users', userId, {
-        creditBalance: newBalance,
-        creditUpdatedAt: now
-      });
-    } catch (error: unknown) {
-      // Customer doc might not exist yet, that's ok
+    if (!result.success) {
+      return ApiErrors.serverError(result.error || 'Failed to credit account');
     }
+    const newBalance = result.balance ?? creditAmount;
+    const transactionId = result.transactionId;
 
     log.info(`Credited £${creditAmount} to user ${userId}. New balance: £${newBalance}`);
 
@@ -1,13 +1,15 @@
 // src/pages/api/giftcards/redeem.ts
-// Redeem a gift card code and add to user's credit balance
+// Redeem a gift card code and add it to the user's store credit wallet
 
 import type { APIRoute } from 'astro';
 import { z } from 'zod';
-import { getDocument, updateDocument, setDocument, queryCollection, arrayUnion, verifyRequestUser, updateDocumentConditional, atomicIncrement } from '../../../lib/firebase-rest';
+import { getDocument, updateDocument, queryCollection, verifyRequestUser, updateDocumentConditional } from '../../../lib/firebase-rest';
 import { isValidCodeFormat, isExpired } from '../../../lib/giftcard';
 import { formatPrice } from '../../../lib/format-utils';
 import { checkRateLimit, getClientId, rateLimitResponse, RateLimiters } from '../../../lib/rate-limit';
 import { createLogger, ApiErrors, successResponse } from '../../../lib/api-utils';
+import { recordRiskEvent } from '../../../lib/fraud';
+import { creditWallet } from '../../../lib/wallet';
 
 const log = createLogger('[giftcards/redeem]');
 
@@ -35,6 +37,12 @@ export const POST: APIRoute = async ({ request, locals }) => {
       return ApiErrors.unauthorized(authError || 'You must be logged in to redeem a gift card');
     }
 
+    // Failed codes count towards the fraud score of this account's orders
+    const failed = async (response: Response, detail: string) => {
+      await recordRiskEvent(env?.DB, { kind: 'giftcard_redeem_failed', userId, ip: clientId, detail });
+      return response;
+    };
+
     const rawBody = await request.json();
 
     const parseResult = RedeemSchema.safeParse(rawBody);
@@ -47,7 +55,7 @@ export const POST: APIRoute = async ({ request, locals }) => {
 
     // Validate code format
     if (!isValidCodeFormat(normalizedCode)) {
-      return ApiErrors.badRequest('Invalid Gift Card Code');
+      return failed(ApiErrors.badRequest('Invalid Gift Card Code'), 'invalid_format');
     }
 
     // Find the gift card
@@ -57,7 +65,7 @@ export const POST: APIRoute = async ({ request, locals }) => {
     });
 
     if (giftCardResults.length === 0) {
-      return ApiErrors.notFound('Gift card not found');
+      return failed(ApiErrors.notFound('Gift card not found'), 'not_found');
     }
 
     const giftCard = giftCardResults[0];
@@ -65,17 +73,17 @@ export const POST: APIRoute = async ({ request, locals }) => {
 
     // Check if already redeemed
     if (giftCard.redeemedBy) {
-      return ApiErrors.badRequest('This gift card has already been redeemed');
+      return failed(ApiErrors.badRequest('This gift card has already been redeemed'), 'already_redeemed');
     }
 
     // Check if active
     if (!giftCard.isActive) {
-      return ApiErrors.badRequest('This gift card is no longer active');
+      return failed(ApiErrors.badRequest('This gift card is no longer active'), 'inactive');
     }
 
     // Check if expired
     if (isExpired(giftCard.expiresAt)) {
-      return ApiErrors.badRequest('This gift card has expired');
+      return failed(ApiErrors.badRequest('This gift card has expired'), 'expired');
     }
 
     // Check balance
@@ -119,46 +127,27 @@ export const POST: APIRoute = async ({ request, locals }) => {
       throw redeemErr;
     }
 
-    // Atomically increment user credit balance (prevents race conditions)
-    const creditDoc = await getDocument('userCredits', userId);
-    if (!creditDoc) {
-      // Create the document first if it doesn't exist
-      await setDocument('userCredits', userId, {
-        userId,
-        balance: 0,
-        lastUpdated: nowISO,
-        transactions: []
-      });
-    }
-
-    await atomicIncrement('userCredits', userId, { balance: amountToCredit });
-
-    // Read back the new balance after atomic increment
-    const updatedCreditDoc = await getDocument('userCredits', userId);
-    const newBalance = updatedCreditDoc?.balance || amountToCredit;
-
-    // Create transaction record
-    const transactionId = `txn_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
-    const transaction = {
-      id: transactionId,
-      type: 'gift_card_redemption',
+    // Into the wallet, keyed by the card so a retry can't credit it twice
+    const credited = await creditWallet(env?.DB, {
+      userId,
+      source: 'gift_card',
       amount: amountToCredit,
+      id: `giftcard:${giftCardId}`,
       description: `Redeemed gift card ${normalizedCode} - ${giftCard.description || ''}`,
-      giftCardCode: normalizedCode,
-      createdAt: nowISO,
-      balanceAfter: newBalance
-    };
-
-    // Atomic arrayUnion prevents lost transactions under concurrent writes
-    await arrayUnion('userCredits', userId, 'transactions', [transaction], {
-      lastUpdated: nowISO
-    });
-
-    // Also update the customer document with the new balance for quick access
-    await updateDocument('users', userId, {
-      creditBalance: newBalance,
-      creditUpdatedAt: nowISO
+      reference: normalizedCode,
     });
+    if (!credited.success) {
+      // Hand the card back so the code can be redeemed again
+      log.error('Wallet credit failed after redeeming', normalizedCode, credited.error);
+      await updateDocument('giftCards', String(giftCardId), {
+        redeemedBy: null,
+        redeemedAt: null,
+        currentBalance: amountToCredit,
+        isActive: true
+      });
+      return ApiErrors.serverError('Failed to redeem gift card');
+    }
+    const newBalance = credited.balance ?? amountToCredit;
 
     log.info('Redeemed:', normalizedCode, 'for user:', userId, 'amount:', amountToCredit);
 
@@ -1,5 +1,6 @@
 // src/pages/api/notify-restock.ts
-// Back-in-stock notification system
+// Back-in-stock notification system. Vinyl joins a queued waitlist instead
+// (lib/order/waitlist.ts) — the next person in line gets a held copy.
 // AUTH: Intentionally public — restock notifications use email-based signup,
 // allowing unauthenticated visitors to subscribe. Rate limited.
 
@@ -8,6 +9,7 @@ import { z } from 'zod';
 import { addDocument, queryCollection, deleteDocument } from '../../lib/firebase-rest';
 import { checkRateLimit, getClientId, rateLimitResponse, RateLimiters } from '../../lib/rate-limit';
 import { ApiErrors, createLogger, successResponse } from '../../lib/api-utils';
+import { joinWaitlist, leaveWaitlist } from '../../lib/order-utils';
 
 const log = createLogger('notify-restock');
 
@@ -17,6 +19,8 @@ const NotifyRestockSchema = z.object({
   productType: z.string().max(50).optional().default('merch'),
   productName: z.string().max(300).optional().default('Unknown Product'),
   variantKey: z.string().max(200).optional().nullable(),
+  // Multi-part vinyl: which record to queue for (part-1/part-2)
+  vinylPartId: z.string().regex(/^part-\d+$/).optional().nullable(),
 });
 
 const RestockDeleteSchema = z.object({
@@ -44,7 +48,25 @@ export const POST: APIRoute = async ({ request, locals }) => {
     if (!parsed.success) {
       return ApiErrors.badRequest('Invalid request');
     }
-    const { email, productId, productType, productName, variantKey } = parsed.data;
+    const { email, productId, productType, productName, variantKey, vinylPartId } = parsed.data;
+
+    if (productType === 'vinyl') {
+      const { position, alreadyQueued } = await joinWaitlist({
+        releaseId: productId,
+        vinylPartId,
+        releaseName: productName,
+        email
+      });
+      if (position === 0) {
+        return successResponse({ message: 'A copy is already on hold for you — check your email', position });
+      }
+      return successResponse({
+        message: alreadyQueued
+          ? `You're already on the waitlist (number ${position} in line)`
+          : `You're number ${position} on the waitlist — we'll hold a copy for you when one comes back`,
+        position
+      });
+    }
 
     // Check if already subscribed
     const existing = await queryCollection('restockNotifications', {
@@ -114,6 +136,7 @@ export const DELETE: APIRoute = async ({ request, locals }) => {
     for (const sub of subscriptions) {
       await deleteDocument('restockNotifications', sub.id);
     }
+    await leaveWaitlist(email, productId, env);
 
     return successResponse({ message: 'Unsubscribed from notifications' });
 
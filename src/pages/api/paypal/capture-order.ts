@@ -14,6 +14,9 @@ import { recordMultiSellerSale } from '../../../lib/sales-ledger';
 import { createLogger, errorResponse, successResponse, ApiErrors } from '../../../lib/api-utils';
 import { processArtistPayments, processVinylCrateSellerPayments, processMerchSupplierPayments } from '../../../lib/order/seller-payments';
 import { processMerchRoyalties, enrichItemsForLedger, deductAppliedCredit } from '../../../lib/order/paypal-capture-helpers';
+import { holdSellerPayouts } from '../../../lib/fraud';
+import { paypalCaptureAmounts } from '../../../lib/order/currency';
+import { buildVatContext } from '../../../lib/order/vat';
 
 const log = createLogger('[paypal-capture]');
 import { getPayPalBaseUrl, getPayPalAccessToken, paypalFetchWithRetry } from '../../../lib/paypal-auth';
@@ -127,7 +130,11 @@ export const POST: APIRoute = async ({ request, locals }) => {
         totals: pendingOrder.totals,
         hasPhysicalItems: pendingOrder.hasPhysicalItems,
         appliedCredit: pendingOrder.appliedCredit || 0,
-        artistShippingBreakdown: pendingOrder.artistShippingBreakdown || null
+        artistShippingBreakdown: pendingOrder.artistShippingBreakdown || null,
+        currency: pendingOrder.currency || null,
+        fxRate: pendingOrder.fxRate || null,
+        presentmentTotal: pendingOrder.presentmentTotal ?? null,
+        discount: pendingOrder.discount || null
       };
       usedServerData = true;
 
@@ -199,9 +206,13 @@ export const POST: APIRoute = async ({ request, locals }) => {
 
     // Payment captured successfully
 
+    // The capture is in the buyer's currency; the order, ledger and payouts
+    // work from its GBP settlement value
+    const fx = paypalCaptureAmounts(orderData, capturedAmount, actualPayPalFee);
+
     // Amount verification: compare captured amount against expected total
     // Don't block on mismatch -- the customer already paid. Flag for admin review instead.
-    const expectedTotal = parseFloat(orderData.totals?.total?.toFixed(2) || '0');
+    const expectedTotal = fx.expectedCapture;
     let amountMismatch = false;
     if (Math.abs(capturedAmount - expectedTotal) > 0.01) {
       amountMismatch = true;
@@ -213,6 +224,7 @@ export const POST: APIRoute = async ({ request, locals }) => {
           captureId,
           capturedAmount,
           expectedTotal,
+          currency: fx.currency,
           difference: Math.round((capturedAmount - expectedTotal) * 100) / 100,
           customerEmail: orderData.customer?.email || '',
           reason: 'amount_mismatch',
@@ -241,7 +253,7 @@ export const POST: APIRoute = async ({ request, locals }) => {
           `paypal:${paypalOrderId}`,
           orderData.customer?.email || '',
           Math.round(capturedAmount * 100),
-          'gbp',
+          fx.currency.toLowerCase(),
           JSON.stringify(orderData.items || [])
         ).run();
         // D1 pending_orders row inserted
@@ -251,10 +263,16 @@ export const POST: APIRoute = async ({ request, locals }) => {
       }
     }
 
+    // VAT follows the payer's PayPal country, else the delivery address
+    const vatContext = buildVatContext({
+      billingCountry: captureResult.payer?.address?.country_code,
+      shippingCountry: orderData.shipping?.country
+    });
+
     // Create order in Firebase using shared utility
     // Wrap in try/catch to handle race condition: if a concurrent request already
     // created the order between our idempotency check and now, return the existing one.
-    let result: { success: boolean; orderId?: string; orderNumber?: string; error?: string };
+    let result: { success: boolean; orderId?: string; orderNumber?: string; held?: boolean; error?: string };
     try {
       result = await createOrder({
         orderData: {
@@ -264,12 +282,25 @@ export const POST: APIRoute = async ({ request, locals }) => {
           totals: {
             ...orderData.totals,
             appliedCredit,
-            amountPaid: capturedAmount,
+            amountPaid: fx.settlementTotal,
             ...(amountMismatch ? { amountMismatch: true, expectedTotal, capturedAmount } : {})
           },
+          currency: fx.currency,
+          fxRate: fx.fxRate,
+          presentmentTotal: capturedAmount,
+          discount: orderData.discount,
+          vat: vatContext,
           hasPhysicalItems: orderData.hasPhysicalItems,
           paymentMethod: 'paypal',
           paypalOrderId: paypalOrderId,
+          // The PayPal payer account stands in for a card fingerprint
+          checkout: {
+            ip: clientIdReq.startsWith('anon-') ? null : clientIdReq,
+            userAgent: request.headers.get('user-agent'),
+            sessionId: null,
+            cardFingerprint: captureResult.payer?.payer_id ? `paypal:${captureResult.payer.payer_id}` : null,
+            billingCountry: captureResult.payer?.address?.country_code || null
+          },
           ...(amountMismatch ? { flagged: true, flagReason: 'amount_mismatch' } : {})
         },
         env,
@@ -406,7 +437,7 @@ export const POST: APIRoute = async ({ request, locals }) => {
     try {
       const freshWaxFee = orderData.totals?.freshWaxFee || 0;
       // Actual PayPal fee from capture response; estimate only as fallback
-      const paypalFee = actualPayPalFee ?? ((capturedAmount * 0.029) + 0.30);
+      const paypalFee = fx.settlementFee ?? ((fx.settlementTotal * 0.029) + 0.30);
 
       const itemsList = (orderData.items as Record<string, unknown>[]) || [];
       const enrichedItems = await enrichItemsForLedger(itemsList);
@@ -419,12 +450,16 @@ export const POST: APIRoute = async ({ request, locals }) => {
         customerId: orderData.customer?.userId || null,
         customerEmail: orderData.customer?.email || '',
         customerName: orderData.customer?.displayName || orderData.customer?.firstName || null,
-        grossTotal: capturedAmount,
+        grossTotal: fx.settlementTotal,
         shipping: orderData.totals?.shipping || 0,
         paypalFee: Math.round(paypalFee * 100) / 100,
         freshWaxFee,
         paymentMethod: 'paypal',
         paymentId: paypalOrderId,
+        paypalCaptureId: captureId || null,
+        presentmentCurrency: fx.currency,
+        fxRate: fx.fxRate,
+        vat: vatContext,
         hasPhysical: orderData.hasPhysicalItems,
         hasDigital: enrichedItems.some((i: Record<string, unknown>) => i.type === 'digital' || i.type === 'release' || i.type === 'track'),
         items: enrichedItems,
@@ -459,28 +494,42 @@ export const POST: APIRoute = async ({ request, locals }) => {
         env,
         logPrefix: '[PayPal]',
         paymentMethod: 'paypal' as const,
-        actualProcessingFee: actualPayPalFee,
+        actualProcessingFee: fx.settlementFee,
         // Artists receive 100% of their vinyl shipping (stored at create time)
         artistShippingBreakdown: (orderData.artistShippingBreakdown as Record<string, { artistId: string; artistName: string; amount: number }> | null) || null
       };
-      const paymentResults = await Promise.allSettled([
-        processArtistPayments(paymentParams),
-        processMerchRoyalties(paymentParams), // 10% brand royalty (brandAccountId)
-        processMerchSupplierPayments(paymentParams), // supplier share (merch.supplierId)
-        processVinylCrateSellerPayments(paymentParams)
-      ]);
-      const paymentLabels = ['Artist', 'Brand royalty', 'Merch supplier', 'Crate seller'];
-      for (let i = 0; i < paymentResults.length; i++) {
-        if (paymentResults[i].status === 'rejected') {
-          log.error(`[PayPal] ${paymentLabels[i]} payment processing error:`, (paymentResults[i] as PromiseRejectedResult).reason);
+      if (result.held) {
+        // Held for fraud review — paid out when an admin approves the order
+        await holdSellerPayouts(result.orderId, {
+          flow: 'direct',
+          totalItemCount,
+          orderSubtotal,
+          actualProcessingFee: paymentParams.actualProcessingFee,
+          paymentMethod: 'paypal',
+          logPrefix: '[PayPal]',
+          artistShippingBreakdown: paymentParams.artistShippingBreakdown
+        });
+      } else {
+        const paymentResults = await Promise.allSettled([
+          processArtistPayments(paymentParams),
+          processMerchRoyalties(paymentParams), // 10% brand royalty (brandAccountId)
+          processMerchSupplierPayments(paymentParams), // supplier share (merch.supplierId)
+          processVinylCrateSellerPayments(paymentParams)
+        ]);
+        const paymentLabels = ['Artist', 'Brand royalty', 'Merch supplier', 'Crate seller'];
+        for (let i = 0; i < paymentResults.length; i++) {
+          if (paymentResults[i].status === 'rejected') {
+            log.error(`[PayPal] ${paymentLabels[i]} payment processing error:`, (paymentResults[i] as PromiseRejectedResult).reason);
+          }
         }
       }
     }
 
-    // Deduct applied credit from user's balance atomically
+    // Deduct applied credit from the user's wallet
     const userId = orderData.customer?.userId;
     if (appliedCredit > 0 && userId) {
       await deductAppliedCredit({
+        db,
         userId: userId as string,
         appliedCredit: appliedCredit as number,
         orderId: result.orderId!,
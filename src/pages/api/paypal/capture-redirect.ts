@@ -5,14 +5,18 @@
 import type { APIRoute } from 'astro';
 import { z } from 'zod';
 import { createOrder } from '../../../lib/order-utils';
-import { getDocument, deleteDocument, addDocument, atomicIncrement, arrayUnion, queryCollection, invalidateReleasesCache, clearAllMerchCache } from '../../../lib/firebase-rest';
+import { getDocument, deleteDocument, addDocument, queryCollection, invalidateReleasesCache, clearAllMerchCache } from '../../../lib/firebase-rest';
 import { invalidateReleasesKVCache } from '../../../lib/kv-cache';
 import { SITE_URL } from '../../../lib/constants';
 import { createLogger } from '../../../lib/api-utils';
 import { processArtistPayments, processMerchSupplierPayments, processVinylCrateSellerPayments } from '../../../lib/order/seller-payments';
 import { recordMultiSellerSale } from '../../../lib/sales-ledger';
-import { enrichItemsForLedger, processMerchRoyalties } from '../../../lib/order/paypal-capture-helpers';
+import { deductAppliedCredit, enrichItemsForLedger, processMerchRoyalties } from '../../../lib/order/paypal-capture-helpers';
+import { holdSellerPayouts } from '../../../lib/fraud';
 import { getProcessingFee } from '../../../lib/order/seller-payments/types';
+import { paypalCaptureAmounts } from '../../../lib/order/currency';
+import { buildVatContext } from '../../../lib/order/vat';
+import { getClientId } from '../../../lib/rate-limit';
 
 const log = createLogger('[paypal-redirect]');
 import { getPayPalBaseUrl, getPayPalAccessToken, paypalFetchWithRetry } from '../../../lib/paypal-auth';
@@ -132,7 +136,10 @@ export const GET: APIRoute = async ({ request, locals, redirect }) => {
     // expected total. Don't block (customer already paid) — flag for admin
     // review. Mirrors capture-order.ts so the mobile/redirect path isn't weaker.
     const capturedAmount = parseFloat(capture?.amount?.value || '0');
-    const expectedTotal = parseFloat(Number(pendingOrder.totals?.total ?? 0).toFixed(2));
+    // The capture is in the buyer's currency; the order, ledger and payouts
+    // work from its GBP settlement value
+    const fx = paypalCaptureAmounts(pendingOrder, capturedAmount, actualPayPalFee);
+    const expectedTotal = fx.expectedCapture;
     const amountMismatch = Math.abs(capturedAmount - expectedTotal) > 0.01;
     if (amountMismatch) {
       log.error('[PayPal Redirect] AMOUNT MISMATCH! Captured:', capturedAmount, 'Expected:', expectedTotal, 'PayPal Order:', paypalOrderId);
@@ -142,6 +149,7 @@ export const GET: APIRoute = async ({ request, locals, redirect }) => {
           captureId,
           capturedAmount,
           expectedTotal,
+          currency: fx.currency,
           difference: Math.round((capturedAmount - expectedTotal) * 100) / 100,
           customerEmail: pendingOrder.customer?.email || '',
           reason: 'amount_mismatch',
@@ -167,7 +175,14 @@ export const GET: APIRoute = async ({ request, locals, redirect }) => {
       } catch (_e: unknown) { /* auth verification failed — continue without userId */ }
     }
 
+    // VAT follows the payer's PayPal country, else the delivery address
+    const vatContext = buildVatContext({
+      billingCountry: captureResult.payer?.address?.country_code,
+      shippingCountry: pendingOrder.shipping?.country
+    });
+
     // Create order in Firebase
+    const clientId = getClientId(request);
     const orderData = {
       customer: pendingOrder.customer,
       shipping: pendingOrder.shipping,
@@ -176,6 +191,19 @@ export const GET: APIRoute = async ({ request, locals, redirect }) => {
       hasPhysicalItems: pendingOrder.hasPhysicalItems,
       paymentMethod: 'paypal',
       paypalOrderId: paypalOrderId,
+      // The PayPal payer account stands in for a card fingerprint
+      checkout: {
+        ip: clientId.startsWith('anon-') ? null : clientId,
+        userAgent: request.headers.get('user-agent'),
+        sessionId: null,
+        cardFingerprint: (captureResult.payer?.payer_id || payerId) ? `paypal:${captureResult.payer?.payer_id || payerId}` : null,
+        billingCountry: captureResult.payer?.address?.country_code || null
+      },
+      currency: fx.currency,
+      fxRate: fx.fxRate,
+      presentmentTotal: capturedAmount,
+      discount: pendingOrder.discount || null,
+      vat: vatContext,
       // Stamp the order itself so a captured-vs-expected mismatch is visible on
       // the order record (not just the separate flaggedOrders doc).
       ...(amountMismatch ? { amountMismatch: true, capturedAmount, expectedTotal, needsReview: true } : {})
@@ -210,7 +238,7 @@ export const GET: APIRoute = async ({ request, locals, redirect }) => {
     // previously didn't write here, leaving recent PayPal sales out of dashboard totals.
     try {
       const grossTotal = pendingOrder.totals?.total ?? orderSubtotal;
-      const paypalFee = actualPayPalFee ?? getProcessingFee(grossTotal, 'paypal');
+      const paypalFee = fx.settlementFee ?? getProcessingFee(grossTotal, 'paypal');
       const freshWaxFee = pendingOrder.totals?.freshWaxFee || 0;
       const itemsList = (pendingOrder.items as Record<string, unknown>[]) || [];
       const enrichedItems = await enrichItemsForLedger(itemsList);
@@ -226,6 +254,10 @@ export const GET: APIRoute = async ({ request, locals, redirect }) => {
         freshWaxFee,
         paymentMethod: 'paypal',
         paymentId: paypalOrderId,
+        paypalCaptureId: captureId || null,
+        presentmentCurrency: fx.currency,
+        fxRate: fx.fxRate,
+        vat: vatContext,
         hasPhysical: pendingOrder.hasPhysicalItems,
         hasDigital: enrichedItems.some((i: Record<string, unknown>) => i.type === 'digital' || i.type === 'release' || i.type === 'track'),
         items: enrichedItems,
@@ -254,64 +286,48 @@ export const GET: APIRoute = async ({ request, locals, redirect }) => {
         env,
         logPrefix: '[PayPal Redirect]',
         paymentMethod: 'paypal' as const,
-        actualProcessingFee: actualPayPalFee,
+        actualProcessingFee: fx.settlementFee,
         // Artists receive 100% of their vinyl shipping (stored at create time)
         artistShippingBreakdown: (pendingOrder.artistShippingBreakdown as Record<string, { artistId: string; artistName: string; amount: number }> | null) || null
       };
-      const paymentResults = await Promise.allSettled([
-        processArtistPayments(paymentParams),
-        processMerchRoyalties(paymentParams), // 10% brand royalty (brandAccountId)
-        processMerchSupplierPayments(paymentParams), // supplier share (merch.supplierId)
-        processVinylCrateSellerPayments(paymentParams)
-      ]);
-      const paymentLabels = ['Artist', 'Brand royalty', 'Merch supplier', 'Crate seller'];
-      for (let i = 0; i < paymentResults.length; i++) {
-        if (paymentResults[i].status === 'rejected') {
-          log.error(`[PayPal Redirect] ${paymentLabels[i]} payment processing error:`, (paymentResults[i] as PromiseRejectedResult).reason);
+      if (result.held) {
+        // Held for fraud review — paid out when an admin approves the order
+        await holdSellerPayouts(result.orderId, {
+          flow: 'direct',
+          totalItemCount,
+          orderSubtotal,
+          actualProcessingFee: paymentParams.actualProcessingFee,
+          paymentMethod: 'paypal',
+          logPrefix: '[PayPal Redirect]',
+          artistShippingBreakdown: paymentParams.artistShippingBreakdown
+        });
+      } else {
+        const paymentResults = await Promise.allSettled([
+          processArtistPayments(paymentParams),
+          processMerchRoyalties(paymentParams), // 10% brand royalty (brandAccountId)
+          processMerchSupplierPayments(paymentParams), // supplier share (merch.supplierId)
+          processVinylCrateSellerPayments(paymentParams)
+        ]);
+        const paymentLabels = ['Artist', 'Brand royalty', 'Merch supplier', 'Crate seller'];
+        for (let i = 0; i < paymentResults.length; i++) {
+          if (paymentResults[i].status === 'rejected') {
+            log.error(`[PayPal Redirect] ${paymentLabels[i]} payment processing error:`, (paymentResults[i] as PromiseRejectedResult).reason);
+          }
         }
       }
     }
 
-    // Deduct applied credit from user's balance (atomic to prevent race conditions)
+    // Deduct applied credit from the user's wallet
     const userId = pendingOrder.customer?.userId;
     const appliedCredit = pendingOrder.appliedCredit || pendingOrder.totals?.appliedCredit || 0;
     if (appliedCredit > 0 && userId) {
-      // Deducting applied credit
-      try {
-        const creditData = await getDocument('userCredits', userId);
-        if (creditData && creditData.balance >= appliedCredit) {
-          // Use atomicIncrement for race-safe balance deduction
-          await atomicIncrement('userCredits', userId, { balance: -appliedCredit });
-
-          const newBalance = creditData.balance - appliedCredit;
-          const now = new Date().toISOString();
-
-          const transactionId = `txn_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
-          const transaction = {
-            id: transactionId,
-            type: 'purchase',
-            amount: -appliedCredit,
-            description: `Applied to order ${result.orderNumber || result.orderId}`,
-            orderId: result.orderId,
-            orderNumber: result.orderNumber,
-            createdAt: now,
-            balanceAfter: newBalance
-          };
-
-          // Update userCredits transactions + users document in parallel (different documents)
-          await Promise.all([
-            // Atomic arrayUnion prevents lost transactions under concurrent writes
-            arrayUnion('userCredits', userId, 'transactions', [transaction], {
-              lastUpdated: now
-            }),
-            atomicIncrement('users', userId, { creditBalance: -appliedCredit })
-          ]);
-
-          // Credit deducted atomically
-        }
-      } catch (creditErr: unknown) {
-        log.error('[PayPal Redirect] Failed to deduct credit:', creditErr);
-      }
+      await deductAppliedCredit({
+        db: env?.DB,
+        userId,
+        appliedCredit,
+        orderId: result.orderId!,
+        orderNumber: result.orderNumber
+      });
     }
 
     // Invalidate caches so stock changes appear immediately (mirrors Stripe webhook)
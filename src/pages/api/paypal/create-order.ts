@@ -8,9 +8,11 @@ import type { APIRoute } from 'astro';
 import { z } from 'zod';
 import { checkRateLimit, getClientId, rateLimitResponse, RateLimiters } from '../../../lib/rate-limit';
 import { setDocument } from '../../../lib/firebase-rest';
-import { validateStock, validateAndGetPrices, reserveStock, releaseReservation } from '../../../lib/order-utils';
-import { applyCrateCombinedShipping, applyCrateFreeShipping, computeMerchShipping, computeReleaseVinylShipping, regionForCountry, countryToISO } from '../../../lib/order/shipping-rules';
+import { validateStock, validateAndGetPrices, validateDiscountCode, applyDiscount, reserveStock, releaseReservation, findWaitlistHolds } from '../../../lib/order-utils';
+import { applyCrateCombinedShipping, applyCrateFreeShipping, computeMerchShipping, computeReleaseVinylShipping, countryToISO, loadShippingRules, resolveShippingDestination } from '../../../lib/order/shipping-rules';
 import { SITE_URL } from '../../../lib/constants';
+import { resolveCheckoutCurrency } from '../../../lib/order/currency';
+import { convertBasket } from '../../../lib/currency';
 import { createLogger, ApiErrors, successResponse } from '../../../lib/api-utils';
 
 const log = createLogger('[paypal-create]');
@@ -58,6 +60,9 @@ const PayPalCreateOrderSchema = z.object({
     country: z.string().nullish(),
   }).strip().nullish(),
   hasPhysicalItems: z.boolean().nullish(),
+  // Buyer's display currency (GBP/EUR/USD) — see lib/order/currency.ts
+  currency: z.string().max(3).nullish(),
+  discountCode: z.string().max(40).nullish(),
 }).strip();
 
 export const prerender = false;
@@ -102,16 +107,21 @@ export const POST: APIRoute = async ({ request, locals }) => {
     const orderData = parseResult.data;
     // Creating PayPal order
 
+    // A waitlist hold is this buyer's own copy: the stock check counts it as
+    // theirs and the reservation below takes it over, handing it back if this
+    // checkout fails or expires (lib/order/waitlist.ts)
+    const waitlistHolds = await findWaitlistHolds(orderData.items, orderData.customer);
+
     // SECURITY: Validate stock availability before allowing checkout
     // Validating stock availability
-    const stockCheck = await validateStock(orderData.items);
+    const stockCheck = await validateStock(orderData.items, waitlistHolds);
     if (!stockCheck.available) {
       log.warn('[PayPal] Stock validation failed:', stockCheck.unavailableItems);
       return ApiErrors.badRequest('Some items are no longer available');
     }
 
     // Reserve stock to prevent overselling
-    reservation = await reserveStock(orderData.items, 'paypal_' + Date.now().toString(36), orderData.customer?.userId);
+    reservation = await reserveStock(orderData.items, 'paypal_' + Date.now().toString(36), orderData.customer?.userId, { waitlistHolds });
     if (!reservation.success) {
       return ApiErrors.badRequest(reservation.error || 'Failed to reserve stock');
     }
@@ -130,9 +140,15 @@ export const POST: APIRoute = async ({ request, locals }) => {
       // Continue with server prices - don't reveal that we caught it
     }
 
-    // Recalculate totals with validated prices
-    const itemTotal = validatedItems.reduce((sum: number, item: Record<string, unknown>) =>
-      sum + ((item.price as number) * ((item.quantity as number) || 1)), 0);
+    // Discount code is checked against list prices
+    const { discountCode, validationError: discountError } = await validateDiscountCode(
+      locals.runtime?.env?.DB, orderData.discountCode, validatedItems, orderData.customer || {}
+    );
+    if (discountError) {
+      if (reservation?.reservationId) await releaseReservation(reservation.reservationId).catch(() => { /* Reservation cleanup — non-critical */ });
+      return ApiErrors.badRequest(discountError);
+    }
+
     const hasPhysicalItems = validatedItems.some((item: Record<string, unknown>) =>
       item.type === 'vinyl' || item.type === 'merch'
     );
@@ -142,6 +158,9 @@ export const POST: APIRoute = async ({ request, locals }) => {
     // Determine customer's shipping region
     const customerCountry = orderData.shipping?.country || 'GB';
 
+    const shippingRules = await loadShippingRules(locals.runtime?.env?.DB);
+    const destination = resolveShippingDestination(customerCountry, shippingRules);
+
     // Same address gate as the Stripe flow — a physical order must carry a
     // complete, shippable address. PayPal is now told SET_PROVIDED_ADDRESS, so
     // this address is the one that gets shipped to; there is no PayPal-side
@@ -153,7 +172,7 @@ export const POST: APIRoute = async ({ request, locals }) => {
       if (missing.length) {
         return ApiErrors.badRequest(`Shipping address incomplete — missing ${missing.join(', ')}`);
       }
-      shippingISO = countryToISO(customerCountry);
+      shippingISO = countryToISO(customerCountry, shippingRules);
       if (!shippingISO) {
         return ApiErrors.badRequest(`We don't currently ship to "${customerCountry}"`);
       }
@@ -166,13 +185,13 @@ export const POST: APIRoute = async ({ request, locals }) => {
 
     // Crate sellers can waive their shipping over their own threshold —
     // zeroes cratesShippingCost in place before the vinyl loop sums it
-    await applyCrateCombinedShipping(validatedItems as unknown as Parameters<typeof applyCrateCombinedShipping>[0], locals.runtime?.env?.DB);
+    await applyCrateCombinedShipping(validatedItems as unknown as Parameters<typeof applyCrateCombinedShipping>[0], locals.runtime?.env?.DB, customerCountry);
     await applyCrateFreeShipping(validatedItems, locals.runtime?.env?.DB);
 
-    // Merch shipping: flat £4.99 unless every supplier in the basket offers
-    // free shipping and their threshold is met (seller-configurable)
+    // Merch shipping: the zone's merch rate unless every supplier in the basket
+    // offers free shipping and their threshold is met (seller-configurable)
     if (hasMerchItems) {
-      merchShipping = await computeMerchShipping(validatedItems);
+      merchShipping = await computeMerchShipping(validatedItems, { rules: shippingRules, zoneId: destination.zoneId });
     }
 
     // Vinyl shipping: crates charge seller-set shipping × qty; release vinyl is
@@ -185,14 +204,21 @@ export const POST: APIRoute = async ({ request, locals }) => {
           vinylShippingTotal += ((item.cratesShippingCost as number) ?? 4.99) * ((item.quantity as number) || 1);
         }
       }
-      const region = regionForCountry(customerCountry);
-      const relVinyl = computeReleaseVinylShipping(validatedItems as unknown as Parameters<typeof computeReleaseVinylShipping>[0], region);
+      const relVinyl = computeReleaseVinylShipping(validatedItems as unknown as Parameters<typeof computeReleaseVinylShipping>[0], destination.region, { rules: shippingRules, zoneId: destination.zoneId });
       vinylShippingTotal += relVinyl.total;
       Object.assign(artistShippingBreakdown, relVinyl.breakdown);
     }
 
     const shipping = merchShipping + vinylShippingTotal;
 
+    // The discount comes off after shipping so free-shipping thresholds are
+    // judged on list prices. Lowers item.price in place on eligible lines.
+    const appliedDiscount = discountCode ? applyDiscount(validatedItems, discountCode) : null;
+
+    // Recalculate totals with validated (discounted) prices
+    const itemTotal = validatedItems.reduce((sum: number, item: Record<string, unknown>) =>
+      sum + ((item.price as number) * ((item.quantity as number) || 1)), 0);
+
     // Bandcamp-style: customer pays subtotal + shipping only
     // Fees are deducted from artist payout, not charged to customer
     const validatedTotal = itemTotal + shipping;
@@ -208,12 +234,23 @@ export const POST: APIRoute = async ({ request, locals }) => {
     const accessToken = await getPayPalAccessToken(paypalClientId, paypalSecret, paypalMode);
     const baseUrl = getPayPalBaseUrl(paypalMode);
 
+    // Charge in the buyer's currency. The totals above stay GBP (they feed
+    // the ledger and payouts); PayPal only sees the converted per-unit prices,
+    // so item_total + shipping always equals the amount it captures.
+    const checkoutCurrency = await resolveCheckoutCurrency(locals.runtime?.env?.DB, orderData.currency, customerCountry);
+    const presentment = convertBasket(
+      validatedItems as Array<{ price: number; quantity?: number }>,
+      shipping,
+      checkoutCurrency.fxRate
+    );
+    const currencyCode = checkoutCurrency.currency;
+
     // Build PayPal order items using VALIDATED prices
-    const paypalItems = validatedItems.map((item: Record<string, unknown>) => ({
+    const paypalItems = validatedItems.map((item: Record<string, unknown>, index: number) => ({
       name: (item.name as string).substring(0, 127), // PayPal name limit
       unit_amount: {
-        currency_code: 'GBP',
-        value: (item.price as number).toFixed(2) // This is now the validated server price
+        currency_code: currencyCode,
+        value: (presentment.unitPrices[index] ?? 0).toFixed(2) // Validated server price, converted
       },
       quantity: String((item.quantity as number) || 1),
       category: item.type === 'merch' || item.type === 'vinyl' ? 'PHYSICAL_GOODS' : 'DIGITAL_GOODS'
@@ -243,16 +280,16 @@ export const POST: APIRoute = async ({ request, locals }) => {
           }))
         }).substring(0, 255), // PayPal custom_id limit - we'll store full data server-side
         amount: {
-          currency_code: 'GBP',
-          value: validatedTotal.toFixed(2), // Use validated total (no fees added)
+          currency_code: currencyCode,
+          value: presentment.total.toFixed(2), // Use validated total (no fees added)
           breakdown: {
             item_total: {
-              currency_code: 'GBP',
-              value: itemTotal.toFixed(2)
+              currency_code: currencyCode,
+              value: presentment.subtotal.toFixed(2)
             },
             shipping: {
-              currency_code: 'GBP',
-              value: shipping.toFixed(2)
+              currency_code: currencyCode,
+              value: presentment.shipping.toFixed(2)
             }
           }
         },
@@ -333,6 +370,7 @@ export const POST: APIRoute = async ({ request, locals }) => {
           name: item.name,
           type: item.type,
           price: item.price, // This is now the validated server price
+          preDiscountPrice: item.preDiscountPrice ?? null,
           quantity: (item.quantity as number) || 1,
           size: item.size,
           color: item.color,
@@ -346,7 +384,11 @@ export const POST: APIRoute = async ({ request, locals }) => {
           sellerId: item.sellerId ?? null,
           sellerName: item.sellerName ?? null,
           isCratesItem: item.isCratesItem ?? null,
-          cratesShippingCost: item.cratesShippingCost ?? null
+          cratesShippingCost: item.cratesShippingCost ?? null,
+          // Bundles: the priced release split, expanded into per-release lines
+          // for downloads, ledger and payouts once paid
+          bundleId: item.bundleId ?? null,
+          bundleReleases: item.bundleReleases ?? null
         })),
         // Use VALIDATED totals
         totals: {
@@ -356,8 +398,15 @@ export const POST: APIRoute = async ({ request, locals }) => {
           paymentProcessingFee: paymentProcessingFee,
           serviceFees: serviceFees,
           total: validatedTotal,
-          appliedCredit: 0
+          appliedCredit: 0,
+          discount: appliedDiscount?.amount || 0
         },
+        // Item prices above are already net of it; capture records it on the order
+        discount: appliedDiscount,
+        // What PayPal will capture, in the buyer's currency (totals above are GBP)
+        currency: currencyCode,
+        fxRate: checkoutCurrency.fxRate,
+        presentmentTotal: presentment.total,
         hasPhysicalItems: hasPhysicalItems,
         artistShippingBreakdown: Object.keys(artistShippingBreakdown).length > 0 ? artistShippingBreakdown : null,
         appliedCredit: 0,
@@ -7,6 +7,9 @@ import { getDocument, verifyRequestUser } from '../../../lib/firebase-rest';
 import { saUpdateDocument } from '../../../lib/firebase-service-account';
 import { createLogger, ApiErrors, successResponse } from '../../../lib/api-utils';
 import { checkRateLimit, getClientId, rateLimitResponse } from '../../../lib/rate-limit';
+import { SITE_URL } from '../../../lib/constants';
+import { sendPayPalVerificationEmail } from '../../../lib/payout-emails';
+import { createPayPalVerification, payoutStatusOf, syncPayoutState } from '../../../lib/payout-verification';
 
 const log = createLogger('[link-account]');
 
@@ -124,22 +127,44 @@ export const POST: APIRoute = async ({ request, locals }) => {
       return ApiErrors.notFound(`${entityType} not found`);
     }
 
+    // A new address isn't paid until its owner confirms it; re-saving an
+    // address that's already confirmed keeps it confirmed
+    const email = paypalEmail.toLowerCase();
+    const alreadyConfirmed = entity.paypalEmail === email && entity.paypalVerification === 'verified';
+    const verification = alreadyConfirmed ? null : await createPayPalVerification();
+
     // Update with PayPal info using service account auth
     const updateData = {
-      paypalEmail: paypalEmail.toLowerCase(),
+      paypalEmail: email,
       paypalLinkedAt: new Date().toISOString(),
       payoutMethod: 'paypal', // Set as preferred method
+      ...(verification?.fields || {}),
       updatedAt: new Date().toISOString()
     };
 
-    log.info(`Updating ${entityType} ${docId} with:`, JSON.stringify(updateData));
+    log.info(`Updating ${entityType} ${docId} with:`, JSON.stringify({ ...updateData, paypalVerificationTokenHash: undefined }));
 
     const updatedDoc = await saUpdateDocument(serviceAccountKey, projectId, collection, docId, updateData);
 
-    log.info(`Updated document response:`, JSON.stringify(updatedDoc));
+    log.info(`Updated ${entityType} ${docId} PayPal email`);
 
-    return successResponse({ message: 'PayPal account linked successfully',
-      paypalEmail: paypalEmail.toLowerCase(),
+    let verificationSent = false;
+    if (verification) {
+      const confirmUrl = `${SITE_URL}/api/paypal/verify-email/?type=${entityType}&id=${encodeURIComponent(String(docId))}&token=${verification.token}`;
+      const name = String(entity.artistName || entity.displayName || entity.name || '');
+      verificationSent = (await sendPayPalVerificationEmail(email, name, confirmUrl, env)).success;
+    }
+    const payout = await syncPayoutState(env as unknown as Record<string, unknown>, entityType, String(docId), {
+      source: 'paypal_linked',
+      entity: { ...entity, ...updateData },
+    });
+
+    return successResponse({ message: verification
+        ? 'PayPal account linked. Check your PayPal inbox to confirm the address before payouts are sent to it.'
+        : 'PayPal account linked successfully',
+      paypalEmail: email,
+      verificationSent,
+      payoutState: payout?.state ?? payoutStatusOf({ ...entity, ...updateData }).state,
       savedData: {
         paypalEmail: updatedDoc.paypalEmail,
         payoutMethod: updatedDoc.payoutMethod
@@ -207,11 +232,15 @@ export const GET: APIRoute = async ({ request, locals }) => {
       return ApiErrors.notFound(`${entityType} not found`);
     }
 
+    const payout = payoutStatusOf(entity);
     return successResponse({ paypalEmail: entity.paypalEmail || null,
       paypalLinked: !!entity.paypalEmail,
       paypalLinkedAt: entity.paypalLinkedAt || null,
+      paypalVerification: entity.paypalEmail ? entity.paypalVerification || 'verified' : null,
       payoutMethod: entity.payoutMethod || null,
-      stripeConnected: !!entity.stripeConnectId && entity.stripeConnectStatus === 'active' });
+      stripeConnected: !!entity.stripeConnectId && entity.stripeConnectStatus === 'active',
+      payoutState: payout.state,
+      payoutStateReason: payout.reason });
 
   } catch (error: unknown) {
     log.error('Get status error:', error);
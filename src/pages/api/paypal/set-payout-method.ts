@@ -7,6 +7,7 @@ import { getDocument, verifyRequestUser } from '../../../lib/firebase-rest';
 import { saUpdateDocument } from '../../../lib/firebase-service-account';
 import { createLogger, ApiErrors, successResponse } from '../../../lib/api-utils';
 import { checkRateLimit, getClientId, rateLimitResponse } from '../../../lib/rate-limit';
+import { syncPayoutState } from '../../../lib/payout-verification';
 
 const log = createLogger('[set-payout-method]');
 
@@ -131,7 +132,13 @@ export const POST: APIRoute = async ({ request, locals }) => {
 
     log.info(`Set ${entityType} ${docId} payout method to:`, payoutMethod);
 
+    const payout = await syncPayoutState(env as unknown as Record<string, unknown>, entityType, String(docId), {
+      source: 'payout_method_changed',
+      entity: { ...entity, payoutMethod },
+    });
+
     return successResponse({ payoutMethod,
+      payoutState: payout?.state ?? null,
       message: `Payout method set to ${payoutMethod === 'stripe' ? 'Stripe' : 'PayPal'}` });
 
   } catch (error: unknown) {
@@ -0,0 +1,78 @@
+// src/pages/api/paypal/verify-email.ts
+// Confirms a linked PayPal email from the link in the confirmation email
+// (sent by link-account), so payouts can be sent to it
+
+import type { APIRoute } from 'astro';
+import { z } from 'zod';
+import { getDocument, updateDocument } from '../../../lib/firebase-rest';
+import { checkRateLimit, getClientId, RateLimiters } from '../../../lib/rate-limit';
+import { createLogger } from '../../../lib/api-utils';
+import {
+  PAYOUT_COLLECTIONS, PAYOUT_SETUP_PATHS, isPayPalVerificationToken, syncPayoutState,
+} from '../../../lib/payout-verification';
+
+const log = createLogger('[paypal-verify-email]');
+
+const VerifySchema = z.object({
+  type: z.enum(['artist', 'supplier', 'user']),
+  id: z.string().min(1).max(200),
+  token: z.string().min(1).max(200),
+});
+
+export const prerender = false;
+
+export const GET: APIRoute = async ({ request, locals, redirect }) => {
+  const url = new URL(request.url);
+  const parsed = VerifySchema.safeParse({
+    type: url.searchParams.get('type') ?? '',
+    id: url.searchParams.get('id') ?? '',
+    token: url.searchParams.get('token') ?? '',
+  });
+  if (!parsed.success) {
+    return redirect('/?paypal=invalid-link');
+  }
+  const { type, id, token } = parsed.data;
+  const setupPath = PAYOUT_SETUP_PATHS[type];
+
+  const clientId = getClientId(request);
+  const rateLimit = checkRateLimit(`paypal-verify:${clientId}`, RateLimiters.auth);
+  if (!rateLimit.allowed) {
+    return redirect(`${setupPath}?paypal=rate-limited`);
+  }
+
+  try {
+    const entity = await getDocument(PAYOUT_COLLECTIONS[type], id);
+    if (!entity || !entity.paypalEmail) {
+      return redirect(`${setupPath}?paypal=invalid-link`);
+    }
+
+    if (entity.paypalVerification === 'verified') {
+      return redirect(`${setupPath}?paypal=confirmed`);
+    }
+
+    // Also rejects links for an address that has since been replaced
+    if (!await isPayPalVerificationToken(entity, token)) {
+      return redirect(`${setupPath}?paypal=invalid-link`);
+    }
+
+    const updates = {
+      paypalVerification: 'verified',
+      paypalVerifiedAt: new Date().toISOString(),
+      paypalVerificationTokenHash: null,
+      updatedAt: new Date().toISOString()
+    };
+    await updateDocument(PAYOUT_COLLECTIONS[type], id, updates);
+
+    await syncPayoutState(locals.runtime.env as unknown as Record<string, unknown>, type, id, {
+      source: 'paypal_verified',
+      entity: { ...entity, ...updates },
+    });
+
+    log.info(`${type} ${id} confirmed their PayPal email`);
+    return redirect(`${setupPath}?paypal=confirmed`);
+
+  } catch (error: unknown) {
+    log.error('Verify email error:', error);
+    return redirect(`${setupPath}?paypal=error`);
+  }
+};
@@ -1,6 +1,10 @@
 // src/pages/api/presign-download.ts
 // Generate secure, time-limited presigned URLs for purchased downloads
 // SECURITY: Verifies user owns the order before generating download URL
+// fileType flac / aiff (and tagged mp3) presign the file the transcode queue
+// made; 202 { status: 'preparing', retryAfter } until it exists
+// A signed URL hands out the stored file as it is, so audio of a release with
+// per-buyer fingerprints (watermarkDownloads) goes through /api/download-file
 
 import type { APIRoute } from 'astro';
 import { S3Client, GetObjectCommand } from '@aws-sdk/client-s3';
@@ -8,13 +12,17 @@ import { getSignedUrl } from '@aws-sdk/s3-request-presigner';
 import { verifyRequestUser, getDocument } from '../../lib/firebase-rest';
 import { checkRateLimit, getClientId, rateLimitResponse, RateLimiters } from '../../lib/rate-limit';
 import { ApiErrors, createLogger, getR2Config, successResponse } from '../../lib/api-utils';
+import { d1LogDownload } from '../../lib/d1/downloads';
+import { isRenditionFormat } from '../../lib/release/download-formats';
+import { prepareOrderRendition, renditionPendingResponse } from '../../lib/release/download-renditions';
+import { watermarkEnabled } from '../../lib/release/download-watermark';
 import { z } from 'zod';
 
 const PresignDownloadSchema = z.object({
   orderId: z.string().min(1).max(200),
   releaseId: z.string().max(200),
   trackIndex: z.number().int().min(0).max(999),
-  fileType: z.enum(['mp3', 'wav', 'artwork']),
+  fileType: z.enum(['mp3', 'wav', 'flac', 'aiff', 'artwork']),
   filename: z.string().max(300).optional(),
 }).strip();
 
@@ -133,8 +141,11 @@ export const POST: APIRoute = async ({ request, locals }) => {
 
     // Get the URL to presign
     // First try order's stored download data (locked at purchase time - safer)
-    // Then fall back to current release data
+    // Then fall back to current release data. FLAC and AIFF are made from the
+    // master, so they're looked up as the WAV.
     let fileUrl: string | null = null;
+    let trackName: string | null = null;
+    let releaseData: Record<string, unknown> | null = null;
 
     if (fileType === 'artwork') {
       // Try order's stored artwork first
@@ -150,6 +161,7 @@ export const POST: APIRoute = async ({ request, locals }) => {
           ) || orderTracks[0];
           if (orderTrack) {
             fileUrl = fileType === 'mp3' ? orderTrack.mp3Url : orderTrack.wavUrl;
+            trackName = orderTrack.name || null;
           }
         } else {
           // Full release - validate trackIndex bounds
@@ -159,6 +171,7 @@ export const POST: APIRoute = async ({ request, locals }) => {
           const orderTrack = orderTracks[trackIndex];
           if (orderTrack) {
             fileUrl = fileType === 'mp3' ? orderTrack.mp3Url : orderTrack.wavUrl;
+            trackName = orderTrack.name || null;
           }
         }
       }
@@ -167,7 +180,7 @@ export const POST: APIRoute = async ({ request, locals }) => {
     // Fall back to current release data if order doesn't have URLs
     if (!fileUrl) {
       log.info('[presign-download] Order has no stored URL, fetching from release');
-      const releaseData = await getDocument('releases', releaseId);
+      releaseData = await getDocument('releases', releaseId);
 
       if (!releaseData) {
         return ApiErrors.notFound('Release not found');
@@ -208,10 +221,32 @@ export const POST: APIRoute = async ({ request, locals }) => {
       return ApiErrors.notFound(`${fileType} file not available for this item`);
     }
 
+    if (fileType !== 'artwork') {
+      releaseData = releaseData || await getDocument('releases', releaseId);
+      if (watermarkEnabled(releaseData)) {
+        return ApiErrors.forbidden('This release is stamped per buyer; download it through /api/download-file');
+      }
+    }
+
     const config = getR2Config(env);
 
     // Extract the object key from the URL
-    const objectKey = extractKeyFromUrl(fileUrl, config.publicUrl);
+    let objectKey = extractKeyFromUrl(fileUrl, config.publicUrl);
+
+    // Tagged MP3, FLAC and AIFF. An MP3 whose tagged copy isn't made yet is
+    // presigned as stored rather than kept waiting.
+    if (isRenditionFormat(fileType) && env?.DB) {
+      const publicDomain = env.R2_PUBLIC_DOMAIN || import.meta.env.R2_PUBLIC_DOMAIN || 'https://cdn.freshwax.co.uk';
+      releaseData = releaseData || await getDocument('releases', releaseId);
+      const rendition = releaseData
+        ? await prepareOrderRendition(env.DB, { ...releaseData, id: releaseId }, { url: fileUrl, name: trackName }, fileType, publicDomain)
+        : { status: 'unavailable' as const, reason: 'Release not found' };
+      if (rendition.status === 'ready') {
+        objectKey = rendition.key;
+      } else if (fileType !== 'mp3') {
+        return renditionPendingResponse(rendition, fileType);
+      }
+    }
 
     if (!objectKey) {
       // If it's not a recognized R2 URL, reject the request
@@ -249,6 +284,17 @@ export const POST: APIRoute = async ({ request, locals }) => {
 
     log.info('[presign-download] Generated presigned URL for:', objectKey);
 
+    await d1LogDownload(env?.DB, {
+      userId,
+      orderId,
+      releaseId,
+      trackIndex: fileType === 'artwork' ? null : trackIndex,
+      fileType,
+      source: 'presign',
+      ip: clientId.startsWith('anon-') ? null : clientId,
+      userAgent: request.headers.get('User-Agent'),
+    });
+
     return successResponse({ downloadUrl,
       expiresIn });
 
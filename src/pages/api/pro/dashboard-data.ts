@@ -1,17 +1,20 @@
 // src/pages/api/pro/dashboard-data.ts
 // Unified data endpoint for Pro Dashboard pages
 // Replaces client-side Firestore collection queries (releases, merch, orders, sales)
-// GET ?type=releases|merch|orders|stock|analytics|account|overview
+// GET ?type=releases|merch|orders|stock|analytics|account|overview|earnings|advances
 import type { APIRoute } from 'astro';
 import { getDocument, queryCollection, verifyRequestUser } from '../../../lib/firebase-rest';
 import { ApiErrors, createLogger, jsonResponse } from '../../../lib/api-utils';
+import { currentEarningsYear, earningsPeriod, getEarningsSummary, renderEarningsCsv, renderEarningsPdf } from '../../../lib/earnings-summary';
+import type { EarningsBasis } from '../../../lib/earnings-summary';
+import { getAdvancesOverview } from '../../../lib/advances';
 
 const log = createLogger('pro/dashboard-data');
 import { checkRateLimit, getClientId, rateLimitResponse, RateLimiters } from '../../../lib/rate-limit';
 
 export const prerender = false;
 
-export const GET: APIRoute = async ({ request }) => {
+export const GET: APIRoute = async ({ request, locals }) => {
   const clientId = getClientId(request);
   const rateLimit = checkRateLimit(`pro-dashboard:${clientId}`, RateLimiters.standard);
   if (!rateLimit.allowed) {
@@ -45,6 +48,10 @@ export const GET: APIRoute = async ({ request }) => {
         return await handleAccount(userId);
       case 'overview':
         return await handleOverview(userId);
+      case 'earnings':
+        return await handleEarnings(userId, url.searchParams, locals?.runtime?.env?.DB);
+      case 'advances':
+        return await handleAdvances(userId, locals?.runtime?.env?.DB);
       default:
         return jsonResponse({ success: false, error: 'Invalid type' }, 400);
     }
@@ -403,3 +410,48 @@ async function handleOverview(userId: string) {
 
   return jsonResponse(result);
 }
+
+// Year-end earnings for the UK tax year (?basis=tax, the default) or the
+// calendar year (?basis=calendar); ?year= is the year the period starts in.
+// ?format=csv|pdf downloads it, otherwise JSON with the forecast alongside.
+async function handleEarnings(userId: string, params: URLSearchParams, db: D1Database | undefined) {
+  const basis: EarningsBasis = params.get('basis') === 'calendar' ? 'calendar' : 'tax';
+  const now = new Date();
+  const year = parseInt(params.get('year') || '', 10) || currentEarningsYear(basis, now);
+  if (year < 2020 || year > now.getUTCFullYear()) {
+    return jsonResponse({ success: false, error: 'Invalid year' }, 400);
+  }
+
+  const period = earningsPeriod(basis, year);
+  const [summary, userData, artist] = await Promise.all([
+    getEarningsSummary(db, userId, period, now),
+    getDocument('users', userId),
+    getDocument('artists', userId),
+  ]);
+  const sellerName = String(artist?.artistName || userData?.displayName || userData?.email || 'Seller');
+  const filename = `freshwax-earnings-${basis === 'tax' ? `tax-year-${period.label.replace('/', '-')}` : period.label}`;
+  const headers = { 'Cache-Control': 'private, no-store' };
+
+  const format = params.get('format');
+  if (format === 'csv') {
+    return new Response(renderEarningsCsv(summary, sellerName), {
+      status: 200,
+      headers: { ...headers, 'Content-Type': 'text/csv', 'Content-Disposition': `attachment; filename="${filename}.csv"` }
+    });
+  }
+  if (format === 'pdf') {
+    return new Response(renderEarningsPdf(summary, sellerName).buffer as ArrayBuffer, {
+      status: 200,
+      headers: { ...headers, 'Content-Type': 'application/pdf', 'Content-Disposition': `attachment; filename="${filename}.pdf"` }
+    });
+  }
+
+  return jsonResponse({ success: true, sellerName, ...summary });
+}
+
+// The artist's advances and how far their sales have recouped each
+async function handleAdvances(userId: string, db: D1Database | undefined) {
+  if (!db) return jsonResponse({ success: true, advances: [], totals: null });
+  const { advances, totals } = await getAdvancesOverview(db, { artistId: userId });
+  return jsonResponse({ success: true, advances, totals });
+}
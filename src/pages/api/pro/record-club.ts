@@ -0,0 +1,141 @@
+// /src/pages/api/pro/record-club.ts
+// Label self-service for record clubs (lib/record-club.ts).
+// GET lists the caller's clubs with member counts.
+// POST { action: 'save', ... } creates or edits a club; price changes apply
+// to new members only (existing subscriptions keep their Stripe price).
+// POST { action: 'nominate', clubId, period, releases } sets a period's
+// records — holds a copy of each for every member due and ships anyone who
+// already paid. Nominated releases must belong to the caller, the same
+// ownership rule as update-release-shipping.
+
+import type { APIRoute } from 'astro';
+import { z } from 'zod';
+import { addDocument, getDocumentsBatch, queryCollection, updateDocument, verifyRequestUser } from '../../../lib/firebase-rest';
+import { parseJsonBody, ApiErrors, createLogger, successResponse } from '../../../lib/api-utils';
+import { checkRateLimit, getClientId, rateLimitResponse, RateLimiters } from '../../../lib/rate-limit';
+import { CLUBS_COLLECTION, MEMBERS_COLLECTION, getClub, nominateClubReleases } from '../../../lib/record-club';
+import type { RecordClub } from '../../../lib/record-club';
+
+const log = createLogger('[pro/record-club]');
+
+export const prerender = false;
+
+const saveSchema = z.object({
+  action: z.literal('save'),
+  clubId: z.string().min(1).optional(),
+  name: z.string().min(1).max(120),
+  description: z.string().max(2000).optional(),
+  price: z.number().min(1).max(500),
+  interval: z.enum(['month', 'quarter']),
+  recordsPerCycle: z.number().int().min(1).max(12),
+  status: z.enum(['active', 'closed']).optional(),
+});
+
+const nominateSchema = z.object({
+  action: z.literal('nominate'),
+  clubId: z.string().min(1),
+  period: z.string().regex(/^\d{4}-(0[1-9]|1[0-2]|Q[1-4])$/, 'Period must be YYYY-MM or YYYY-Qn'),
+  releases: z.array(z.object({
+    releaseId: z.string().min(1),
+    vinylPartId: z.string().min(1).nullable().optional(),
+  })).min(1).max(12),
+});
+
+const schema = z.discriminatedUnion('action', [saveSchema, nominateSchema]);
+
+export const GET: APIRoute = async ({ request }) => {
+  const clientId = getClientId(request);
+  const rateCheck = checkRateLimit(`pro-record-club:${clientId}`, RateLimiters.standard);
+  if (!rateCheck.allowed) return rateLimitResponse(rateCheck.retryAfter!);
+
+  const { userId, error: authError } = await verifyRequestUser(request);
+  if (authError || !userId) return ApiErrors.unauthorized(authError || 'Authentication required');
+
+  const clubs = await queryCollection(CLUBS_COLLECTION, {
+    filters: [{ field: 'ownerId', op: 'EQUAL', value: userId }],
+    skipCache: true,
+  });
+  const withCounts = await Promise.all(clubs.map(async club => {
+    const members = await queryCollection(MEMBERS_COLLECTION, {
+      filters: [{ field: 'clubId', op: 'EQUAL', value: String(club.id) }],
+      skipCache: true,
+    });
+    const count = (status: string) => members.filter(m => m.status === status).length;
+    return { ...club, members: { active: count('active'), paused: count('paused'), cancelled: count('cancelled') } };
+  }));
+
+  return successResponse({ clubs: withCounts });
+};
+
+export const POST: APIRoute = async ({ request, locals }) => {
+  const clientId = getClientId(request);
+  const rateCheck = checkRateLimit(`pro-record-club:${clientId}`, RateLimiters.write);
+  if (!rateCheck.allowed) return rateLimitResponse(rateCheck.retryAfter!);
+
+  const { userId, error: authError } = await verifyRequestUser(request);
+  if (authError || !userId) return ApiErrors.unauthorized(authError || 'Authentication required');
+
+  const parsed = schema.safeParse(await parseJsonBody(request));
+  if (!parsed.success) {
+    return ApiErrors.badRequest('Invalid request: ' + parsed.error.issues.map(i => i.message).join(', '));
+  }
+  const data = parsed.data;
+  const now = new Date().toISOString();
+
+  const existing = data.clubId ? await getClub(data.clubId) : null;
+  if (data.clubId && (!existing || existing.ownerId !== userId)) {
+    return ApiErrors.notFound('Record club not found');
+  }
+
+  if (data.action === 'save') {
+    const fields = {
+      name: data.name,
+      description: data.description || '',
+      price: Math.round(data.price * 100) / 100,
+      interval: data.interval,
+      recordsPerCycle: data.recordsPerCycle,
+      status: data.status || existing?.status || 'active',
+      updatedAt: now,
+    };
+    if (existing) {
+      if (existing.interval !== data.interval) {
+        return ApiErrors.badRequest('A club\'s billing interval can\'t change once it has started');
+      }
+      await updateDocument(CLUBS_COLLECTION, existing.id, fields);
+      log.info(`Record club ${existing.id} updated by ${userId}`);
+      return successResponse({ clubId: existing.id });
+    }
+    const { id } = await addDocument(CLUBS_COLLECTION, { ...fields, ownerId: userId, nominations: {}, createdAt: now });
+    log.info(`Record club ${id} created by ${userId}`);
+    return successResponse({ clubId: id });
+  }
+
+  const club = existing as RecordClub;
+  const wantsQuarter = data.period.includes('Q');
+  if (wantsQuarter !== (club.interval === 'quarter')) {
+    return ApiErrors.badRequest(`This club ships ${club.interval === 'quarter' ? 'quarterly (YYYY-Qn)' : 'monthly (YYYY-MM)'}`);
+  }
+  if (data.releases.length !== club.recordsPerCycle) {
+    return ApiErrors.badRequest(`This club ships ${club.recordsPerCycle} record(s) each ${club.interval}`);
+  }
+
+  const releases = await getDocumentsBatch('releases', data.releases.map(r => r.releaseId));
+  for (const { releaseId } of data.releases) {
+    const release = releases.get(releaseId);
+    if (!release) return ApiErrors.notFound(`Release ${releaseId} not found`);
+    const ownerIds = [release.artistId, release.userId, release.submittedBy].filter(Boolean);
+    if (!ownerIds.includes(userId)) {
+      log.warn(`User ${userId} tried to nominate release ${releaseId} they don't own`);
+      return ApiErrors.forbidden('You can only nominate your own releases');
+    }
+  }
+
+  const env = locals?.runtime?.env as unknown as Record<string, unknown>;
+  const result = await nominateClubReleases(club, data.period, data.releases, env || {});
+  log.info(`Record club ${club.id} ${data.period} nominated by ${userId}`, result);
+  return successResponse({
+    held: result.held,
+    shortOfStock: result.failed.length,
+    fulfilled: result.fulfilled,
+  });
+};
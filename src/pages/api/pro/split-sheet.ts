@@ -0,0 +1,86 @@
+// /src/pages/api/pro/split-sheet.ts
+// Label / artist manages the royalty split sheet of one of its releases
+// (lib/split-sheets.ts): the payees sharing the artist side of every sale,
+// release-wide or for a single track (`trackId`), e.g. a remixer on their
+// remix. `shares: null` removes the sheet. Sheets can only be changed here
+// until the release's first sale; after that an admin amends them.
+// Same ownership rule as trade-pricing.
+
+import type { APIRoute } from 'astro';
+import { z } from 'zod';
+import { getDocument, verifyRequestUser } from '../../../lib/firebase-rest';
+import { parseJsonBody, ApiErrors, createLogger, errorResponse, successResponse } from '../../../lib/api-utils';
+import { checkRateLimit, getClientId, rateLimitResponse, RateLimiters } from '../../../lib/rate-limit';
+import { MAX_SPLIT_PAYEES, SPLIT_ROLES, getSplitSheetState, saveSplitSheet } from '../../../lib/split-sheets';
+import type { SplitRole } from '../../../lib/split-sheets';
+
+const log = createLogger('[pro/split-sheet]');
+
+export const prerender = false;
+
+const schema = z.object({
+  releaseId: z.string().min(1),
+  trackId: z.string().min(1).nullable().optional(),
+  shares: z.array(z.object({
+    artistId: z.string().min(1),
+    percentage: z.number().positive().max(100),
+    role: z.enum(SPLIT_ROLES as [SplitRole, ...SplitRole[]]).optional(),
+    name: z.string().max(100).optional(),
+  })).min(1).max(MAX_SPLIT_PAYEES).nullable(),
+});
+
+function ownsRelease(release: Record<string, unknown>, userId: string): boolean {
+  return [release.artistId, release.userId, release.submittedBy].filter(Boolean).includes(userId);
+}
+
+export const GET: APIRoute = async ({ request, url, locals }) => {
+  const clientId = getClientId(request);
+  const rateCheck = checkRateLimit(`pro-split-sheet:${clientId}`, RateLimiters.standard);
+  if (!rateCheck.allowed) return rateLimitResponse(rateCheck.retryAfter!);
+
+  const { userId, error: authError } = await verifyRequestUser(request);
+  if (authError || !userId) return ApiErrors.unauthorized(authError || 'Authentication required');
+
+  const releaseId = url.searchParams.get('releaseId');
+  if (!releaseId) return ApiErrors.badRequest('releaseId is required');
+
+  const release = await getDocument('releases', releaseId);
+  if (!release) return ApiErrors.notFound('Release not found');
+  if (!ownsRelease(release, userId)) return ApiErrors.forbidden('You can only view split sheets of your own releases');
+
+  const db = locals?.runtime?.env?.DB;
+  return successResponse({ splitSheet: await getSplitSheetState(db, releaseId, release) });
+};
+
+export const POST: APIRoute = async ({ request, locals }) => {
+  const clientId = getClientId(request);
+  const rateCheck = checkRateLimit(`pro-split-sheet:${clientId}`, RateLimiters.write);
+  if (!rateCheck.allowed) return rateLimitResponse(rateCheck.retryAfter!);
+
+  const { userId, error: authError } = await verifyRequestUser(request);
+  if (authError || !userId) return ApiErrors.unauthorized(authError || 'Authentication required');
+
+  const parsed = schema.safeParse(await parseJsonBody(request));
+  if (!parsed.success) {
+    return ApiErrors.badRequest('Invalid request: ' + parsed.error.issues.map(i => i.message).join(', '));
+  }
+  const { releaseId, trackId, shares } = parsed.data;
+
+  const release = await getDocument('releases', releaseId);
+  if (!release) return ApiErrors.notFound('Release not found');
+  if (!ownsRelease(release, userId)) {
+    log.warn(`User ${userId} tried to set the split sheet of release ${releaseId} they don't own`);
+    return ApiErrors.forbidden('You can only edit split sheets of your own releases');
+  }
+
+  const db = locals?.runtime?.env?.DB;
+  const result = await saveSplitSheet(db, {
+    releaseId,
+    trackId: trackId ?? null,
+    shares,
+    changedBy: userId,
+    isAdmin: false,
+  });
+  if (!result.success) return errorResponse(result.error, result.status);
+  return successResponse({ splitSheet: result.state });
+};
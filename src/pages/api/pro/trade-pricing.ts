@@ -0,0 +1,65 @@
+// /src/pages/api/pro/trade-pricing.ts
+// Label sets the trade (wholesale) price tiers for one of its vinyl releases
+// (lib/trade.ts): a base price per copy, the minimum trade order and
+// per-quantity breaks. `pricing: null` takes the release out of the trade
+// catalogue. Same ownership rule as update-release-shipping.
+
+import type { APIRoute } from 'astro';
+import { z } from 'zod';
+import { getDocument, updateDocument, verifyRequestUser } from '../../../lib/firebase-rest';
+import { parseJsonBody, ApiErrors, createLogger, successResponse } from '../../../lib/api-utils';
+import { checkRateLimit, getClientId, rateLimitResponse, RateLimiters } from '../../../lib/rate-limit';
+import { normaliseTradePricing } from '../../../lib/trade';
+
+const log = createLogger('[pro/trade-pricing]');
+
+export const prerender = false;
+
+const schema = z.object({
+  releaseId: z.string().min(1),
+  pricing: z.object({
+    price: z.number().positive().max(500),
+    minQty: z.number().int().min(1).max(500),
+    breaks: z.array(z.object({
+      minQty: z.number().int().min(2).max(1000),
+      price: z.number().positive().max(500),
+    })).max(10),
+  }).nullable(),
+});
+
+export const POST: APIRoute = async ({ request }) => {
+  const clientId = getClientId(request);
+  const rateCheck = checkRateLimit(`pro-trade-pricing:${clientId}`, RateLimiters.write);
+  if (!rateCheck.allowed) return rateLimitResponse(rateCheck.retryAfter!);
+
+  const { userId, error: authError } = await verifyRequestUser(request);
+  if (authError || !userId) return ApiErrors.unauthorized(authError || 'Authentication required');
+
+  const parsed = schema.safeParse(await parseJsonBody(request));
+  if (!parsed.success) {
+    return ApiErrors.badRequest('Invalid request: ' + parsed.error.issues.map(i => i.message).join(', '));
+  }
+  const { releaseId, pricing } = parsed.data;
+
+  const release = await getDocument('releases', releaseId);
+  if (!release) return ApiErrors.notFound('Release not found');
+  const ownerIds = [release.artistId, release.userId, release.submittedBy].filter(Boolean);
+  if (!ownerIds.includes(userId)) {
+    log.warn(`User ${userId} tried to set trade pricing on release ${releaseId} they don't own`);
+    return ApiErrors.forbidden('You can only price your own releases');
+  }
+
+  const tradePricing = pricing ? normaliseTradePricing(pricing) : null;
+  const retail = Number(release.vinylPrice || release.price) || 0;
+  if (tradePricing && retail > 0 && tradePricing.price >= retail) {
+    return ApiErrors.badRequest(`Trade price must be below the retail price (£${retail.toFixed(2)})`);
+  }
+
+  await updateDocument('releases', releaseId, {
+    tradePricing,
+    tradeEnabled: !!tradePricing,
+    updatedAt: new Date().toISOString(),
+  });
+  log.info(`Trade pricing for ${releaseId} ${tradePricing ? 'set' : 'removed'} by ${userId}`);
+  return successResponse({ tradePricing });
+};
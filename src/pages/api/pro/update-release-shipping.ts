@@ -21,6 +21,7 @@ import { getDocument, updateDocument, verifyRequestUser, invalidateReleasesCache
 import { initKVCache, invalidateReleasesKVCache } from '../../../lib/kv-cache';
 import { parseJsonBody, ApiErrors, createLogger, successResponse } from '../../../lib/api-utils';
 import { checkRateLimit, getClientId, rateLimitResponse, RateLimiters } from '../../../lib/rate-limit';
+import { offerWaitlistHolds } from '../../../lib/order-utils';
 
 const log = createLogger('[pro/update-release-shipping]');
 
@@ -124,6 +125,11 @@ export const POST: APIRoute = async ({ request, locals }) => {
   invalidateReleasesCache();
   await invalidateReleasesKVCache();
 
+  // A restock goes to the waitlist queue before it's on open sale
+  if (typeof updateData.vinylStock === 'number' && updateData.vinylStock > Number(release.vinylStock ?? 0)) {
+    await offerWaitlistHolds(releaseId, env);
+  }
+
   return successResponse({
     releaseId,
     shipping: {
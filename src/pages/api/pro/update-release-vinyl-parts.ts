@@ -14,6 +14,7 @@ import { z } from 'zod';
 import { getDocument, updateDocument, verifyRequestUser, invalidateReleasesCache } from '../../../lib/firebase-rest';
 import { initKVCache, invalidateReleasesKVCache } from '../../../lib/kv-cache';
 import { parseJsonBody, ApiErrors, createLogger, successResponse } from '../../../lib/api-utils';
+import { offerWaitlistHolds } from '../../../lib/order-utils';
 import { checkRateLimit, getClientId, rateLimitResponse, RateLimiters } from '../../../lib/rate-limit';
 
 const log = createLogger('[pro/update-release-vinyl-parts]');
@@ -101,6 +102,11 @@ export const POST: APIRoute = async ({ request, locals }) => {
   invalidateReleasesCache();
   await invalidateReleasesKVCache();
 
+  // New stock (or a newly pressed part) goes to the waitlist queue first
+  if (partUpdates.some(u => u.stock !== undefined || u.pressed === true)) {
+    await offerWaitlistHolds(releaseId, env);
+  }
+
   return successResponse({
     releaseId,
     parts: nextParts.map(p => ({
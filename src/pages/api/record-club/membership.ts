@@ -0,0 +1,111 @@
+// src/pages/api/record-club/membership.ts
+// Subscriber's record club memberships (account page).
+// GET lists them; POST { membershipId, action } skips the next period,
+// pauses or resumes through the Stripe subscription.
+import type { APIRoute } from 'astro';
+import { z } from 'zod';
+import { verifyRequestUser } from '../../../lib/firebase-rest';
+import { errorResponse, successResponse, ApiErrors, createLogger, parseJsonBody } from '../../../lib/api-utils';
+import { checkRateLimit, getClientId, rateLimitResponse, RateLimiters } from '../../../lib/rate-limit';
+import {
+  getClub,
+  getMembership,
+  getUserMemberships,
+  skipNextClubPeriod,
+  pauseClubMembership,
+  resumeClubMembership,
+} from '../../../lib/record-club';
+
+const log = createLogger('record-club-membership');
+
+const ActionSchema = z.object({
+  membershipId: z.string().min(1),
+  action: z.enum(['skip', 'pause', 'resume']),
+}).strip();
+
+export const prerender = false;
+
+export const GET: APIRoute = async ({ request }) => {
+  const clientId = getClientId(request);
+  const rateLimit = checkRateLimit(`record-club-membership:${clientId}`, RateLimiters.standard);
+  if (!rateLimit.allowed) {
+    return rateLimitResponse(rateLimit.retryAfter!);
+  }
+
+  const { userId, error: authError } = await verifyRequestUser(request);
+  if (authError || !userId) {
+    return ApiErrors.unauthorized('Authentication required');
+  }
+
+  try {
+    const memberships = await getUserMemberships(userId);
+    return successResponse({
+      memberships: memberships.map(m => ({
+        id: m.id,
+        clubId: m.clubId,
+        clubName: m.clubName,
+        status: m.status,
+        skippedPeriods: m.skippedPeriods || [],
+        fulfilledPeriods: m.fulfilledPeriods || [],
+        lastOrderId: m.lastOrderId || null,
+      })),
+    });
+  } catch (error: unknown) {
+    log.error('[record-club-membership] List error:', error);
+    return ApiErrors.serverError('Failed to load memberships');
+  }
+};
+
+export const POST: APIRoute = async ({ request, locals }) => {
+  const clientId = getClientId(request);
+  const rateLimit = checkRateLimit(`record-club-membership:${clientId}`, RateLimiters.write);
+  if (!rateLimit.allowed) {
+    return rateLimitResponse(rateLimit.retryAfter!);
+  }
+
+  const { userId, error: authError } = await verifyRequestUser(request);
+  if (authError || !userId) {
+    return ApiErrors.unauthorized('Authentication required');
+  }
+
+  const parsed = ActionSchema.safeParse(await parseJsonBody(request));
+  if (!parsed.success) {
+    return ApiErrors.badRequest('Invalid request');
+  }
+  const { membershipId, action } = parsed.data;
+
+  const member = await getMembership(membershipId);
+  if (!member || member.userId !== userId) {
+    return ApiErrors.notFound('Membership not found');
+  }
+
+  const requiredStatus = action === 'resume' ? 'paused' : 'active';
+  if (member.status !== requiredStatus) {
+    return ApiErrors.badRequest(`Only ${requiredStatus === 'active' ? 'an active' : 'a paused'} membership can ${action}`);
+  }
+
+  const env = locals.runtime.env;
+  const stripeSecretKey = env?.STRIPE_SECRET_KEY || import.meta.env.STRIPE_SECRET_KEY;
+  if (!stripeSecretKey) {
+    log.error('[record-club-membership] STRIPE_SECRET_KEY not configured');
+    return errorResponse('Payment system is temporarily unavailable. Please try again later.', 503);
+  }
+
+  try {
+    if (action === 'skip') {
+      const club = await getClub(member.clubId);
+      if (!club) return ApiErrors.notFound('Record club not found');
+      const { period } = await skipNextClubPeriod(member, club, stripeSecretKey);
+      return successResponse({ skippedPeriod: period });
+    }
+    if (action === 'pause') {
+      await pauseClubMembership(member, stripeSecretKey);
+    } else {
+      await resumeClubMembership(member, stripeSecretKey);
+    }
+    return successResponse({ status: action === 'pause' ? 'paused' : 'active' });
+  } catch (error: unknown) {
+    log.error(`[record-club-membership] ${action} failed for ${membershipId}:`, error);
+    return ApiErrors.serverError('Failed to update membership');
+  }
+};
@@ -0,0 +1,117 @@
+// src/pages/api/record-club/subscribe.ts
+// Join a label's record club: creates the membership (incomplete until the
+// webhook sees the checkout complete) and a Stripe subscription checkout
+// priced from the club. Quarterly clubs bill every 3 months.
+import type { APIRoute } from 'astro';
+import { z } from 'zod';
+import { verifyRequestUser } from '../../../lib/firebase-rest';
+import { fetchWithTimeout, errorResponse, successResponse, ApiErrors, createLogger, parseJsonBody } from '../../../lib/api-utils';
+import { checkRateLimit, getClientId, rateLimitResponse, RateLimiters } from '../../../lib/rate-limit';
+import { getClub, getUserMemberships, createPendingMembership } from '../../../lib/record-club';
+import { RECORD_CLUB_TYPE } from '../../../lib/stripe-webhook/record-club';
+
+const log = createLogger('record-club-subscribe');
+
+const SubscribeSchema = z.object({
+  clubId: z.string().min(1),
+  email: z.string().email(),
+  firstName: z.string().min(1).max(100),
+  lastName: z.string().max(100).optional().default(''),
+  shipping: z.object({
+    address1: z.string().min(1).max(200),
+    address2: z.string().max(200).optional(),
+    city: z.string().min(1).max(100),
+    county: z.string().max(100).optional(),
+    postcode: z.string().min(1).max(20),
+    country: z.string().min(2).max(60),
+  }),
+}).strip();
+
+export const prerender = false;
+
+export const POST: APIRoute = async ({ request, locals }) => {
+  const clientId = getClientId(request);
+  const rateLimit = checkRateLimit(`record-club-subscribe:${clientId}`, RateLimiters.strict);
+  if (!rateLimit.allowed) {
+    return rateLimitResponse(rateLimit.retryAfter!);
+  }
+
+  try {
+    const env = locals.runtime.env;
+    const { userId, error: authError } = await verifyRequestUser(request);
+    if (authError || !userId) {
+      return ApiErrors.unauthorized('Authentication required');
+    }
+
+    const parsed = SubscribeSchema.safeParse(await parseJsonBody(request));
+    if (!parsed.success) {
+      return ApiErrors.badRequest('Invalid request');
+    }
+    const { clubId, email, firstName, lastName, shipping } = parsed.data;
+
+    const club = await getClub(clubId);
+    if (!club || club.status !== 'active') {
+      return ApiErrors.notFound('Record club not found');
+    }
+
+    const existing = await getUserMemberships(userId);
+    if (existing.some(m => m.clubId === clubId && m.status !== 'cancelled')) {
+      return ApiErrors.badRequest('You are already a member of this club');
+    }
+
+    const stripeSecretKey = env?.STRIPE_SECRET_KEY || import.meta.env.STRIPE_SECRET_KEY;
+    if (!stripeSecretKey) {
+      log.error('[record-club-subscribe] STRIPE_SECRET_KEY not configured');
+      return errorResponse('Payment system is temporarily unavailable. Please try again later.', 503);
+    }
+
+    const memberId = await createPendingMembership(club, { userId, email, firstName, lastName, shipping });
+    const origin = new URL(request.url).origin;
+
+    // Metadata on the subscription itself so each invoice and the
+    // cancellation event can find the membership
+    const subscriptionMetadata: Record<string, string> = {
+      'subscription_data[metadata][type]': RECORD_CLUB_TYPE,
+      'subscription_data[metadata][memberId]': memberId,
+      'subscription_data[metadata][clubId]': club.id,
+      'subscription_data[metadata][userId]': userId,
+    };
+
+    const stripeResponse = await fetchWithTimeout('https://api.stripe.com/v1/checkout/sessions', {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${stripeSecretKey}`,
+        'Content-Type': 'application/x-www-form-urlencoded',
+      },
+      body: new URLSearchParams({
+        'mode': 'subscription',
+        'line_items[0][price_data][currency]': 'gbp',
+        'line_items[0][price_data][unit_amount]': String(Math.round(club.price * 100)),
+        'line_items[0][price_data][product_data][name]': `${club.name} — ${club.recordsPerCycle} record${club.recordsPerCycle === 1 ? '' : 's'} a ${club.interval}`,
+        'line_items[0][price_data][recurring][interval]': 'month',
+        'line_items[0][price_data][recurring][interval_count]': club.interval === 'quarter' ? '3' : '1',
+        'line_items[0][quantity]': '1',
+        'success_url': `${origin}/account/dashboard?club=joined`,
+        'cancel_url': `${origin}/account/dashboard`,
+        'customer_email': email,
+        'client_reference_id': userId,
+        'metadata[type]': RECORD_CLUB_TYPE,
+        'metadata[memberId]': memberId,
+        'metadata[clubId]': club.id,
+        ...subscriptionMetadata,
+      }).toString()
+    }, 10000);
+
+    if (!stripeResponse.ok) {
+      const errorData = await stripeResponse.json().catch(() => ({}));
+      log.error('[record-club-subscribe] Stripe error:', errorData);
+      return ApiErrors.serverError('Failed to create checkout session');
+    }
+
+    const session = await stripeResponse.json();
+    return successResponse({ checkoutUrl: session.url, sessionId: session.id, membershipId: memberId });
+  } catch (error: unknown) {
+    log.error('[record-club-subscribe] Error:', error);
+    return ApiErrors.serverError('Failed to start membership');
+  }
+};
@@ -3,7 +3,7 @@ import { z } from 'zod';
 import { getDocument, updateDocument, queryCollection, addDocument, setDocument, deleteDocument, verifyRequestUser } from '../../../lib/firebase-rest';
 import { isAdmin, initAdminEnv } from '../../../lib/admin';
 import { ApiErrors, createLogger, successResponse } from '../../../lib/api-utils';
-import { provisionArtistRecord, provisionVinylSellerRecord, revokeArtistRecord, revokeVinylSellerRecord } from '../../../lib/role-provisioning';
+import { provisionArtistRecord, provisionVinylSellerRecord, provisionTradeAccountRecord, revokeArtistRecord, revokeVinylSellerRecord, revokeTradeAccountRecord } from '../../../lib/role-provisioning';
 
 const log = createLogger('roles/manage');
 
@@ -21,6 +21,7 @@ const rolesManagePostSchema = z.object({
   storeName: z.string().optional(),
   location: z.string().optional(),
   discogsUrl: z.string().optional(),
+  vatNumber: z.string().max(30).optional(),
 });
 
 export const prerender = false;
@@ -67,7 +68,8 @@ export const GET: APIRoute = async ({ request, url, locals }) => {
         artist: [] as Record<string, unknown>[],
         merchSeller: [] as Record<string, unknown>[],
         vinylSeller: [] as Record<string, unknown>[],
-        djBypass: [] as Record<string, unknown>[]
+        djBypass: [] as Record<string, unknown>[],
+        tradeBuyer: [] as Record<string, unknown>[]
       };
 
       pendingRequests.forEach((req: Record<string, unknown>) => {
@@ -80,6 +82,8 @@ export const GET: APIRoute = async ({ request, url, locals }) => {
           requests.vinylSeller.push(req);
         } else if (roleType === 'djBypass') {
           requests.djBypass.push(req);
+        } else if (roleType === 'tradeBuyer') {
+          requests.tradeBuyer.push(req);
         }
       });
 
@@ -114,7 +118,7 @@ export const POST: APIRoute = async ({ request, locals }) => {
       return ApiErrors.badRequest('Invalid request');
     }
 
-    const { action, uid, roleType, reason, artistName, bio, links, businessName, description, website, storeName, location, discogsUrl } = parsed.data;
+    const { action, uid, roleType, reason, artistName, bio, links, businessName, description, website, storeName, location, discogsUrl, vatNumber } = parsed.data;
 
     // Request a role (user action)
     if (action === 'requestRole') {
@@ -127,7 +131,7 @@ export const POST: APIRoute = async ({ request, locals }) => {
         return ApiErrors.forbidden('Cannot request roles for another user');
       }
 
-      const validRoles = ['artist', 'merchSeller', 'vinylSeller', 'djBypass'];
+      const validRoles = ['artist', 'merchSeller', 'vinylSeller', 'djBypass', 'tradeBuyer'];
       if (!validRoles.includes(roleType)) {
         return ApiErrors.badRequest('Invalid role type');
       }
@@ -169,6 +173,11 @@ export const POST: APIRoute = async ({ request, locals }) => {
         requestData.discogsUrl = discogsUrl || '';
       } else if (roleType === 'djBypass') {
         requestData.reason = reason || '';
+      } else if (roleType === 'tradeBuyer') {
+        requestData.businessName = businessName || '';
+        requestData.vatNumber = vatNumber || '';
+        requestData.location = location || '';
+        requestData.website = website || '';
       }
 
       // Update users collection (for client-side Firebase SDK access)
@@ -267,10 +276,16 @@ export const POST: APIRoute = async ({ request, locals }) => {
         await provisionVinylSellerRecord(uid, adminUid, userData);
       }
 
+      // For tradeBuyer role, open the shop's trade account
+      if (roleType === 'tradeBuyer') {
+        await provisionTradeAccountRecord(uid, adminUid, userData);
+      }
+
       // Create notification for user
       const roleDisplayName = roleType === 'djBypass' ? 'DJ Bypass' :
                               roleType === 'merchSeller' ? 'Merch Seller' :
-                              roleType === 'vinylSeller' ? 'Vinyl Seller' : 'Artist';
+                              roleType === 'vinylSeller' ? 'Vinyl Seller' :
+                              roleType === 'tradeBuyer' ? 'Trade Account' : 'Artist';
       await addDocument('notifications', {
         userId: uid,
         type: 'role_approved',
@@ -313,7 +328,8 @@ export const POST: APIRoute = async ({ request, locals }) => {
       // Create notification for user
       const denyRoleDisplayName = roleType === 'djBypass' ? 'DJ Bypass' :
                                    roleType === 'merchSeller' ? 'Merch Seller' :
-                                   roleType === 'vinylSeller' ? 'Vinyl Seller' : 'Artist';
+                                   roleType === 'vinylSeller' ? 'Vinyl Seller' :
+                                   roleType === 'tradeBuyer' ? 'Trade Account' : 'Artist';
       await addDocument('notifications', {
         userId: uid,
         type: 'role_denied',
@@ -372,6 +388,11 @@ export const POST: APIRoute = async ({ request, locals }) => {
         await revokeVinylSellerRecord(uid, adminUid);
       }
 
+      // Suspend the trade account if revoking trade buyer role
+      if (roleType === 'tradeBuyer') {
+        await revokeTradeAccountRecord(uid, adminUid);
+      }
+
       return successResponse({ message: 'Role revoked' });
     }
 
@@ -5,10 +5,15 @@ import { z } from 'zod';
 import { d1SearchPublishedReleases, d1SearchPublishedMixes, d1SearchPublishedMerch } from '../../lib/d1-catalog';
 import { checkRateLimit, getClientId, rateLimitResponse, RateLimiters } from '../../lib/rate-limit';
 import { ApiErrors, createLogger, successResponse } from '../../lib/api-utils';
+import { parseKey } from '../../lib/release/musical-key';
 
+// q can be left out when searching releases by tempo or key alone
 const searchSchema = z.object({
-  q: z.string().min(2).max(200).trim(),
+  q: z.string().max(200).trim().optional().default(''),
   limit: z.coerce.number().int().min(1).max(100).optional().default(20),
+  bpmMin: z.coerce.number().min(40).max(300).optional(),
+  bpmMax: z.coerce.number().min(40).max(300).optional(),
+  key: z.string().max(20).trim().optional(),
 });
 
 export const prerender = false;
@@ -27,13 +32,28 @@ export const GET: APIRoute = async ({ request, locals }) => {
   const parseResult = searchSchema.safeParse({
     q: url.searchParams.get('q') || '',
     limit: url.searchParams.get('limit') || undefined,
+    bpmMin: url.searchParams.get('bpmMin') || undefined,
+    bpmMax: url.searchParams.get('bpmMax') || undefined,
+    key: url.searchParams.get('key') || undefined,
   });
   if (!parseResult.success) {
-    return ApiErrors.badRequest('Search query must be between 2 and 200 characters');
+    return ApiErrors.badRequest('Invalid search parameters');
   }
+  const { bpmMin, bpmMax, key } = parseResult.data;
   const query = parseResult.data.q.toLowerCase();
   const limit = parseResult.data.limit;
 
+  // Keys are matched on the Camelot wheel, so '8A', 'Am' and 'A minor' all work
+  const camelotKey = key ? parseKey(key) : null;
+  if (key && !camelotKey) {
+    return ApiErrors.badRequest('Key must be Camelot (8A) or musical notation (Am, F#, Bb minor)');
+  }
+  const filters = { bpmMin, bpmMax, camelotKey: camelotKey || undefined };
+  const filtered = bpmMin !== undefined || bpmMax !== undefined || Boolean(camelotKey);
+  if (query.length < 2 && !filtered) {
+    return ApiErrors.badRequest('Search query must be between 2 and 200 characters');
+  }
+
   // Get D1 database from Cloudflare runtime
   const env = locals.runtime.env;
   const db = env?.DB;
@@ -42,14 +62,15 @@ export const GET: APIRoute = async ({ request, locals }) => {
     return ApiErrors.serverError('Database not available');
   }
 
-  log.info('[search] Searching for:', query);
+  log.info('[search] Searching for:', query, filtered ? filters : '');
 
   try {
-    // Use D1 SQL LIKE for server-side search - much faster than fetching all records
+    // Use D1 SQL LIKE for server-side search - much faster than fetching all records.
+    // Mixes and merch have no tempo or key, so a filtered search is releases only.
     const [releases, mixes, merch] = await Promise.all([
-      d1SearchPublishedReleases(db, query, limit),
-      d1SearchPublishedMixes(db, query, limit),
-      d1SearchPublishedMerch(db, query, limit)
+      d1SearchPublishedReleases(db, query, limit, filters),
+      filtered ? [] : d1SearchPublishedMixes(db, query, limit),
+      filtered ? [] : d1SearchPublishedMerch(db, query, limit)
     ]);
 
     log.info('[search] D1 search found', releases.length, 'releases,', mixes.length, 'mixes,', merch.length, 'merch');
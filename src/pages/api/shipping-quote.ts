@@ -1,9 +1,13 @@
 // src/pages/api/shipping-quote.ts
 // Authoritative shipping quote for the cart/checkout UI so the DISPLAYED total
 // matches what Stripe/PayPal will actually charge. Runs the SAME shipping-rules
-// helpers the checkout endpoints use (per-artist release vinyl, per-seller
-// combined crates, flat/free merch), after enriching cart items with the
-// server-side shipping rates (which aren't stored on the client cart item).
+// helpers and D1 rule set the checkout endpoints use (per-artist release vinyl,
+// per-seller combined crates, zone-rated/free merch), after enriching cart
+// items with the server-side shipping rates and bands (which aren't stored on
+// the client cart item). Also returns the shippable countries so the checkout
+// form's country list comes from the same rules.
+// Also returns the currency + FX rate the checkout will charge in, so the UI
+// can show EU/US buyers an approximate total in EUR/USD.
 
 import type { APIRoute } from 'astro';
 import { getDocument } from '../../lib/firebase-rest';
@@ -12,8 +16,13 @@ import {
   applyCrateFreeShipping,
   computeMerchShipping,
   computeReleaseVinylShipping,
-  regionForCountry,
+  loadShippingRules,
+  resolveShippingBand,
+  resolveShippingDestination,
+  shippableCountries,
 } from '../../lib/order/shipping-rules';
+import { resolveCheckoutCurrency } from '../../lib/order/currency';
+import { convertFromSettlement } from '../../lib/currency';
 import { checkRateLimit, getClientId, rateLimitResponse } from '../../lib/rate-limit';
 import { ApiErrors, createLogger, successResponse } from '../../lib/api-utils';
 
@@ -25,7 +34,7 @@ export const POST: APIRoute = async ({ request, locals }) => {
   const rl = checkRateLimit(`shipping-quote:${clientId}`, { maxRequests: 60, windowMs: 60 * 1000 });
   if (!rl.allowed) return rateLimitResponse(rl.retryAfter!);
 
-  let body: { items?: Record<string, unknown>[]; country?: string };
+  let body: { items?: Record<string, unknown>[]; country?: string; currency?: string };
   try {
     body = await request.json();
   } catch {
@@ -34,10 +43,13 @@ export const POST: APIRoute = async ({ request, locals }) => {
 
   const items = Array.isArray(body.items) ? body.items : [];
   if (items.length > 100) return ApiErrors.badRequest('Too many items');
-  const region = regionForCountry(body.country || 'GB');
   const db = locals.runtime?.env?.DB;
 
   try {
+    const rules = await loadShippingRules(db);
+    const destination = resolveShippingDestination(body.country || 'GB', rules);
+    const { region } = destination;
+
     // Enrich items with server-side shipping rates (the cart item doesn't carry them).
     for (const item of items) {
       if (item.type !== 'vinyl') continue;
@@ -48,6 +60,7 @@ export const POST: APIRoute = async ({ request, locals }) => {
           const listing = await getDocument('vinylListings', listingId).catch(() => null);
           if (listing) {
             item.cratesShippingCost = listing.shippingCost || 0;
+            item.shippingBand = resolveShippingBand('vinyl', listing);
             if (!item.sellerId) item.sellerId = (listing.sellerId || listing.userId) as string;
           }
         }
@@ -59,6 +72,7 @@ export const POST: APIRoute = async ({ request, locals }) => {
             item.vinylShippingEU = release.vinylShippingEU;
             item.vinylShippingIntl = release.vinylShippingIntl;
             item.vinylShippingAdditional = release.vinylShippingAdditional;
+            item.shippingBand = resolveShippingBand('vinyl', release);
             const aid = (item.artistId || release.artistId || release.userId) as string | undefined;
             if (aid) {
               item.artistId = aid;
@@ -77,11 +91,12 @@ export const POST: APIRoute = async ({ request, locals }) => {
 
     // Same order as the checkout endpoints: combine crate shipping per seller,
     // then waive where a free-shipping threshold is met.
-    await applyCrateCombinedShipping(items as never, db);
+    await applyCrateCombinedShipping(items as never, db, body.country || 'GB');
     await applyCrateFreeShipping(items as never, db);
 
-    const merch = items.some(i => i.type === 'merch') ? await computeMerchShipping(items as never) : 0;
-    const releaseVinyl = computeReleaseVinylShipping(items as never, region).total;
+    const zoneOptions = { rules, zoneId: destination.zoneId };
+    const merch = items.some(i => i.type === 'merch') ? await computeMerchShipping(items as never, zoneOptions) : 0;
+    const releaseVinyl = computeReleaseVinylShipping(items as never, region, zoneOptions).total;
     let crate = 0;
     for (const i of items) {
       if (i.type === 'vinyl' && i.sellerId && !i.releaseId) {
@@ -91,7 +106,18 @@ export const POST: APIRoute = async ({ request, locals }) => {
     crate = Math.round(crate * 100) / 100;
     const shipping = Math.round((merch + releaseVinyl + crate) * 100) / 100;
 
-    return successResponse({ shipping, region, breakdown: { merch, releaseVinyl, crate } });
+    const { currency, fxRate } = await resolveCheckoutCurrency(db, body.currency, body.country || 'GB');
+
+    return successResponse({
+      shipping,
+      region,
+      breakdown: { merch, releaseVinyl, crate },
+      shippable: destination.iso !== null,
+      countries: shippableCountries(rules),
+      currency,
+      fxRate,
+      presentmentShipping: convertFromSettlement(shipping, fxRate),
+    });
   } catch (e: unknown) {
     log.error('quote error', e);
     return ApiErrors.serverError('Failed to quote shipping');
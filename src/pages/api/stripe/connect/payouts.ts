@@ -5,6 +5,8 @@ import type { APIRoute } from 'astro';
 import { getDocument, queryCollection, verifyRequestUser } from '@lib/firebase-rest';
 import { checkRateLimit, getClientId, rateLimitResponse, RateLimiters } from '@lib/rate-limit';
 import { ApiErrors, createLogger, successResponse } from '@lib/api-utils';
+import { getSellerBalance } from '@lib/journal';
+import { getPayoutSchedule } from '@lib/payout-schedule';
 
 const log = createLogger('stripe/connect/payouts');
 
@@ -53,7 +55,7 @@ export const GET: APIRoute = async ({ request, cookies, locals }) => {
     const pendingPayouts = await queryCollection('pendingPayouts', {
       filters: [
         { field: 'artistId', op: 'EQUAL', value: artistId },
-        { field: 'status', op: 'IN', value: ['awaiting_connect', 'retry_pending'] }
+        { field: 'status', op: 'IN', value: ['awaiting_connect', 'retry_pending', 'scheduled'] }
       ],
       orderBy: [{ field: 'createdAt', direction: 'DESCENDING' }]
     });
@@ -70,6 +72,10 @@ export const GET: APIRoute = async ({ request, cookies, locals }) => {
     );
     const thisMonthEarnings = thisMonthPayouts.reduce((sum: number, p: Record<string, unknown>) => sum + ((p.amount as number) || 0), 0);
 
+    // Owed to the artist per the accounting journal (sales less fees,
+    // refunds and payouts) — null where D1 isn't bound
+    const ledgerBalance = env?.DB ? (await getSellerBalance(env.DB, artistId)).balance : null;
+
     // Check for more results
     const hasMore = payouts.length > limit;
     const resultPayouts = hasMore ? payouts.slice(0, limit) : payouts;
@@ -79,8 +85,10 @@ export const GET: APIRoute = async ({ request, cookies, locals }) => {
       summary: {
         totalEarnings,
         pendingBalance,
+        ledgerBalance,
         thisMonthEarnings,
         lastPayoutAt: artist.lastPayoutAt || null,
+        payoutSchedule: getPayoutSchedule(artist),
         stripeConnected: !!artist.stripeConnectId && artist.stripeConnectStatus === 'active'
       },
       pagination: {
@@ -6,6 +6,7 @@ import Stripe from 'stripe';
 import { getDocument, updateDocument, verifyRequestUser } from '@lib/firebase-rest';
 import { checkRateLimit, getClientId, rateLimitResponse, RateLimiters } from '@lib/rate-limit';
 import { ApiErrors, createLogger, successResponse } from '@lib/api-utils';
+import { payoutStatusOf, syncPayoutState } from '@lib/payout-verification';
 
 const log = createLogger('stripe/connect/status');
 
@@ -78,11 +79,17 @@ export const GET: APIRoute = async ({ request, locals }) => {
         stripeChargesEnabled: account.charges_enabled,
         stripePayoutsEnabled: account.payouts_enabled,
         stripeDetailsSubmitted: account.details_submitted,
+        stripeDisabledReason: account.requirements?.disabled_reason || null,
         stripeLastUpdated: new Date().toISOString(),
         ...(status === 'active' && !artist.stripeConnectedAt ? { stripeConnectedAt: new Date().toISOString() } : {})
       });
     }
 
+    const updated = { ...artist, stripeConnectStatus: status, stripeDisabledReason: account.requirements?.disabled_reason || null };
+    const payout = shouldUpdate
+      ? await syncPayoutState(env as unknown as Record<string, unknown>, 'artist', artistId, { source: 'stripe_status', entity: updated })
+      : payoutStatusOf(updated);
+
     return successResponse({ connected: true,
       status,
       chargesEnabled: account.charges_enabled,
@@ -96,7 +103,9 @@ export const GET: APIRoute = async ({ request, locals }) => {
       } : null,
       // Express dashboard login link (artist can manage their own account)
       // Note: Use stripe.accounts.createLoginLink() if needed, but only for active accounts
-      canAccessDashboard: account.charges_enabled && account.payouts_enabled });
+      canAccessDashboard: account.charges_enabled && account.payouts_enabled,
+      payoutState: payout?.state ?? null,
+      payoutStateReason: payout?.reason ?? null });
 
   } catch (error: unknown) {
     log.error('[Stripe Connect] Status error:', error);
@@ -0,0 +1,91 @@
+// src/pages/api/stripe/connect/supplier/payout-schedule.ts
+// A merch supplier's payout cadence (lib/payout-schedule.ts). GET returns the
+// schedule, what has accrued towards the next payout and recent statements;
+// POST switches between per-order payouts and weekly / monthly batches.
+// AUTH: Supplier access code, as the other supplier Connect endpoints.
+
+import type { APIRoute } from 'astro';
+import { z } from 'zod';
+import { getDocument, queryCollection, updateDocument } from '@lib/firebase-rest';
+import { ApiErrors, createLogger, parseJsonBody, successResponse } from '@lib/api-utils';
+import { checkRateLimit, getClientId, rateLimitResponse, RateLimiters } from '@lib/rate-limit';
+import {
+  MAX_PAYOUT_MINIMUM, PAYOUT_CADENCES, getPayoutSchedule, getScheduledPayoutSummary, payoutScheduleUpdate,
+} from '@lib/payout-schedule';
+import type { PayoutCadence } from '@lib/payout-schedule';
+
+const log = createLogger('stripe/connect/supplier/payout-schedule');
+
+export const prerender = false;
+
+const schema = z.object({
+  supplierId: z.string().optional(),
+  accessCode: z.string().min(1),
+  cadence: z.enum(PAYOUT_CADENCES as [PayoutCadence, ...PayoutCadence[]]),
+  minimum: z.number().min(0).max(MAX_PAYOUT_MINIMUM).optional(),
+}).strip();
+
+// The supplier the access code belongs to, or the error response to send
+async function findSupplier(supplierId: string | null | undefined, accessCode: string) {
+  if (supplierId) {
+    const supplier = await getDocument('merch-suppliers', supplierId);
+    if (!supplier) return { error: ApiErrors.notFound('Supplier not found') };
+    // SECURITY: Verify access code matches
+    if (supplier.accessCode !== accessCode) return { error: ApiErrors.forbidden('Invalid access code') };
+    return { supplier, supplierId };
+  }
+  const suppliers = await queryCollection('merch-suppliers', { limit: 100 });
+  const found = suppliers.find((s: Record<string, unknown>) => s.accessCode === accessCode);
+  if (!found) return { error: ApiErrors.notFound('Supplier not found') };
+  return { supplier: found, supplierId: String(found.id) };
+}
+
+export const GET: APIRoute = async ({ request }) => {
+  const clientId = getClientId(request);
+  const rateCheck = checkRateLimit(`connect-supplier-schedule:${clientId}`, RateLimiters.standard);
+  if (!rateCheck.allowed) return rateLimitResponse(rateCheck.retryAfter!);
+
+  const url = new URL(request.url);
+  const accessCode = url.searchParams.get('code');
+  // SECURITY: Always require access code — supplierId alone is not authentication
+  if (!accessCode) return ApiErrors.unauthorized('Access code required');
+
+  try {
+    const { supplier, supplierId, error } = await findSupplier(url.searchParams.get('supplierId'), accessCode);
+    if (error) return error;
+
+    return successResponse({
+      schedule: getPayoutSchedule(supplier),
+      ...await getScheduledPayoutSummary('supplier', supplierId),
+      lastPayoutAt: supplier.lastPayoutAt || null,
+    });
+  } catch (error: unknown) {
+    log.error('Error loading supplier payout schedule:', error);
+    return ApiErrors.serverError('Failed to load payout schedule');
+  }
+};
+
+export const POST: APIRoute = async ({ request }) => {
+  const clientId = getClientId(request);
+  const rateCheck = checkRateLimit(`connect-supplier-schedule:${clientId}`, RateLimiters.write);
+  if (!rateCheck.allowed) return rateLimitResponse(rateCheck.retryAfter!);
+
+  const parsed = schema.safeParse(await parseJsonBody(request));
+  if (!parsed.success) {
+    return ApiErrors.badRequest('Invalid request: ' + parsed.error.issues.map(i => i.message).join(', '));
+  }
+
+  try {
+    const { supplier, supplierId, error } = await findSupplier(parsed.data.supplierId, parsed.data.accessCode);
+    if (error) return error;
+
+    const { schedule, update } = payoutScheduleUpdate(supplier, parsed.data.cadence, parsed.data.minimum, new Date());
+    await updateDocument('merch-suppliers', supplierId, update);
+
+    log.info(`Supplier ${supplierId} payout schedule: ${schedule.cadence}, minimum £${schedule.minimum.toFixed(2)}`);
+    return successResponse({ schedule });
+  } catch (error: unknown) {
+    log.error('Error saving supplier payout schedule:', error);
+    return ApiErrors.serverError('Failed to save payout schedule');
+  }
+};
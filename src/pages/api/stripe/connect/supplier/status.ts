@@ -5,6 +5,7 @@ import type { APIRoute } from 'astro';
 import Stripe from 'stripe';
 import { getDocument, queryCollection, updateDocument } from '@lib/firebase-rest';
 import { ApiErrors, createLogger, successResponse } from '@lib/api-utils';
+import { payoutStatusOf, syncPayoutState } from '@lib/payout-verification';
 
 const log = createLogger('stripe/connect/supplier/status');
 import { checkRateLimit, getClientId, rateLimitResponse, RateLimiters } from '@lib/rate-limit';
@@ -100,6 +101,7 @@ export const GET: APIRoute = async ({ request, locals }) => {
 
     if (supplier.stripeConnectStatus !== status) {
       updates.stripeConnectStatus = status;
+      updates.stripeDisabledReason = account.requirements?.disabled_reason || null;
       needsUpdate = true;
     }
 
@@ -108,12 +110,18 @@ export const GET: APIRoute = async ({ request, locals }) => {
       await updateDocument('merch-suppliers', supplierDocId!, updates);
     }
 
+    const payout = needsUpdate
+      ? await syncPayoutState(env as unknown as Record<string, unknown>, 'supplier', supplierDocId!, { source: 'stripe_status', entity: { ...supplier, ...updates } })
+      : payoutStatusOf(supplier);
+
     return successResponse({ status,
       chargesEnabled: account.charges_enabled,
       payoutsEnabled: account.payouts_enabled,
       detailsSubmitted: account.details_submitted,
       requirements: account.requirements?.currently_due || [],
-      disabledReason: account.requirements?.disabled_reason || null });
+      disabledReason: account.requirements?.disabled_reason || null,
+      payoutState: payout?.state ?? null,
+      payoutStateReason: payout?.reason ?? null });
 
   } catch (error: unknown) {
     log.error('[Stripe Connect] Supplier status error:', error instanceof Error ? error.message : String(error));
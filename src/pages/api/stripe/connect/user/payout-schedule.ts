@@ -0,0 +1,74 @@
+// src/pages/api/stripe/connect/user/payout-schedule.ts
+// A crate seller's payout cadence (lib/payout-schedule.ts). GET returns the
+// schedule, what has accrued towards the next payout and recent statements;
+// POST switches between per-order payouts and weekly / monthly batches.
+
+import type { APIRoute } from 'astro';
+import { z } from 'zod';
+import { getDocument, updateDocument, verifyRequestUser } from '@lib/firebase-rest';
+import { ApiErrors, createLogger, parseJsonBody, successResponse } from '@lib/api-utils';
+import { checkRateLimit, getClientId, rateLimitResponse, RateLimiters } from '@lib/rate-limit';
+import {
+  MAX_PAYOUT_MINIMUM, PAYOUT_CADENCES, getPayoutSchedule, getScheduledPayoutSummary, payoutScheduleUpdate,
+} from '@lib/payout-schedule';
+import type { PayoutCadence } from '@lib/payout-schedule';
+
+const log = createLogger('stripe/connect/user/payout-schedule');
+
+export const prerender = false;
+
+const schema = z.object({
+  cadence: z.enum(PAYOUT_CADENCES as [PayoutCadence, ...PayoutCadence[]]),
+  minimum: z.number().min(0).max(MAX_PAYOUT_MINIMUM).optional(),
+});
+
+export const GET: APIRoute = async ({ request }) => {
+  const clientId = getClientId(request);
+  const rateCheck = checkRateLimit(`connect-user-schedule:${clientId}`, RateLimiters.standard);
+  if (!rateCheck.allowed) return rateLimitResponse(rateCheck.retryAfter!);
+
+  const { userId, error: authError } = await verifyRequestUser(request);
+  if (authError || !userId) return ApiErrors.unauthorized(authError || 'Authentication required');
+
+  try {
+    const user = await getDocument('users', userId);
+    if (!user) return ApiErrors.notFound('User not found');
+
+    return successResponse({
+      schedule: getPayoutSchedule(user),
+      ...await getScheduledPayoutSummary('crate_seller', userId),
+      lastPayoutAt: user.lastCratePayoutAt || null,
+    });
+  } catch (error: unknown) {
+    log.error('Error loading crate payout schedule:', error);
+    return ApiErrors.serverError('Failed to load payout schedule');
+  }
+};
+
+export const POST: APIRoute = async ({ request }) => {
+  const clientId = getClientId(request);
+  const rateCheck = checkRateLimit(`connect-user-schedule:${clientId}`, RateLimiters.write);
+  if (!rateCheck.allowed) return rateLimitResponse(rateCheck.retryAfter!);
+
+  const { userId, error: authError } = await verifyRequestUser(request);
+  if (authError || !userId) return ApiErrors.unauthorized(authError || 'Authentication required');
+
+  const parsed = schema.safeParse(await parseJsonBody(request));
+  if (!parsed.success) {
+    return ApiErrors.badRequest('Invalid request: ' + parsed.error.issues.map(i => i.message).join(', '));
+  }
+
+  try {
+    const user = await getDocument('users', userId);
+    if (!user) return ApiErrors.notFound('User not found');
+
+    const { schedule, update } = payoutScheduleUpdate(user, parsed.data.cadence, parsed.data.minimum, new Date());
+    await updateDocument('users', userId, update);
+
+    log.info(`Crate seller ${userId} payout schedule: ${schedule.cadence}, minimum £${schedule.minimum.toFixed(2)}`);
+    return successResponse({ schedule });
+  } catch (error: unknown) {
+    log.error('Error saving crate payout schedule:', error);
+    return ApiErrors.serverError('Failed to save payout schedule');
+  }
+};
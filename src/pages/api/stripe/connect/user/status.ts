@@ -5,6 +5,7 @@ import type { APIRoute } from 'astro';
 import Stripe from 'stripe';
 import { getDocument, updateDocument, verifyRequestUser } from '@lib/firebase-rest';
 import { ApiErrors, createLogger, successResponse } from '@lib/api-utils';
+import { payoutStatusOf, syncPayoutState } from '@lib/payout-verification';
 
 const log = createLogger('stripe/connect/user/status');
 import { checkRateLimit, getClientId, rateLimitResponse, RateLimiters } from '@lib/rate-limit';
@@ -91,6 +92,7 @@ export const GET: APIRoute = async ({ request, locals }) => {
 
     if (user.stripeConnectStatus !== status) {
       updates.stripeConnectStatus = status;
+      updates.stripeDisabledReason = account.requirements?.disabled_reason || null;
       needsUpdate = true;
     }
 
@@ -99,12 +101,18 @@ export const GET: APIRoute = async ({ request, locals }) => {
       await updateDocument('users', userId, updates);
     }
 
+    const payout = needsUpdate
+      ? await syncPayoutState(env as unknown as Record<string, unknown>, 'user', userId, { source: 'stripe_status', entity: { ...user, ...updates } })
+      : payoutStatusOf(user);
+
     return successResponse({ status,
       chargesEnabled: account.charges_enabled,
       payoutsEnabled: account.payouts_enabled,
       detailsSubmitted: account.details_submitted,
       requirements: account.requirements?.currently_due || [],
-      disabledReason: account.requirements?.disabled_reason || null });
+      disabledReason: account.requirements?.disabled_reason || null,
+      payoutState: payout?.state ?? null,
+      payoutStateReason: payout?.reason ?? null });
 
   } catch (error: unknown) {
     log.error('[Stripe Connect] User status error:', error instanceof Error ? error.message : String(error));
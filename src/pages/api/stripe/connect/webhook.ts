@@ -9,6 +9,9 @@ import { sendPayoutCompletedEmail } from '@lib/payout-emails';
 import { logConnectEvent } from '@lib/webhook-logger';
 import { createPayout as createPayPalPayout, getPayPalConfig } from '@lib/paypal-payouts';
 import { createLogger, jsonResponse } from '@lib/api-utils';
+import { postPayoutToJournal } from '@lib/journal';
+import { syncPayoutState } from '@lib/payout-verification';
+import type { D1Database } from '@lib/d1/types';
 
 const log = createLogger('[connect-webhook]');
 
@@ -197,9 +200,11 @@ async function updateArtistConnectStatus(artistId: string, account: Stripe.Accou
     stripeChargesEnabled: account.charges_enabled,
     stripePayoutsEnabled: account.payouts_enabled,
     stripeDetailsSubmitted: account.details_submitted,
+    stripeDisabledReason: account.requirements?.disabled_reason || null,
     stripeLastUpdated: new Date().toISOString(),
     ...(status === 'active' ? { stripeConnectedAt: new Date().toISOString() } : {})
   });
+  await syncPayoutState(env, 'artist', artistId, { source: 'stripe_webhook' });
 
   // If account became active, process any pending payouts
   if (status === 'active') {
@@ -225,9 +230,11 @@ async function handleSupplierAccountUpdated(supplierId: string, account: Stripe.
     stripeChargesEnabled: account.charges_enabled,
     stripePayoutsEnabled: account.payouts_enabled,
     stripeDetailsSubmitted: account.details_submitted,
+    stripeDisabledReason: account.requirements?.disabled_reason || null,
     stripeLastUpdated: new Date().toISOString(),
     ...(status === 'active' ? { stripeConnectedAt: new Date().toISOString() } : {})
   });
+  await syncPayoutState(env, 'supplier', supplierId, { source: 'stripe_webhook' });
 
   // If account became active, process any pending payouts
   if (status === 'active') {
@@ -253,9 +260,11 @@ async function handleUserAccountUpdated(userId: string, account: Stripe.Account,
     stripeChargesEnabled: account.charges_enabled,
     stripePayoutsEnabled: account.payouts_enabled,
     stripeDetailsSubmitted: account.details_submitted,
+    stripeDisabledReason: account.requirements?.disabled_reason || null,
     stripeLastUpdated: new Date().toISOString(),
     ...(status === 'active' ? { stripeConnectedAt: new Date().toISOString() } : {})
   });
+  await syncPayoutState(env, 'user', userId, { source: 'stripe_webhook' });
 
   // If account became active, process any pending payouts
   if (status === 'active') {
@@ -326,6 +335,12 @@ async function processPendingPayouts(entityType: 'artist' | 'supplier' | 'user',
       break;
   }
 
+  // An admin hold outranks Stripe: the backlog waits until it's lifted
+  if (entity?.payoutHold) {
+    log.info(`${entityType} ${entityId} has payouts on hold, leaving ${allPending.length} pending payouts`);
+    return;
+  }
+
   // Determine payout collection
   const payoutCollection = entityType === 'supplier' ? 'supplierPayouts' :
                            entityType === 'user' ? 'crateSellerPayouts' :
@@ -383,6 +398,15 @@ async function processPendingPayouts(entityType: 'artist' | 'supplier' | 'user',
         completedAt: new Date().toISOString()
       });
 
+      await postPayoutToJournal(env?.DB as D1Database | undefined, {
+        payoutId: transfer.id,
+        sellerId: entityId,
+        sellerKind: entityType === 'user' ? 'crate_seller' : entityType,
+        amount: Number(pending.amount) || 0,
+        method: 'stripe',
+        orderId: pending.orderId as string,
+      });
+
       // Update entity's total earnings atomically
       await atomicIncrement(collection, entityId, {
         totalEarnings: pending.amount || 0,
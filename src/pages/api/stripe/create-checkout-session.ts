@@ -8,8 +8,10 @@ import type { APIRoute } from 'astro';
 import { z } from 'zod';
 import { checkRateLimit, getClientId, rateLimitResponse, RateLimiters } from '../../../lib/rate-limit';
 import { addDocument } from '../../../lib/firebase-rest';
-import { validateStock, validateAndGetPrices, reserveStock, releaseReservation } from '../../../lib/order-utils';
-import { applyCrateCombinedShipping, applyCrateFreeShipping, computeMerchShipping, computeReleaseVinylShipping, regionForCountry, countryToISO } from '../../../lib/order/shipping-rules';
+import { validateStock, validateAndGetPrices, validateDiscountCode, applyDiscount, reserveStock, releaseReservation, findWaitlistHolds } from '../../../lib/order-utils';
+import { applyCrateCombinedShipping, applyCrateFreeShipping, computeMerchShipping, computeReleaseVinylShipping, countryToISO, loadShippingRules, resolveShippingDestination } from '../../../lib/order/shipping-rules';
+import { resolveCheckoutCurrency } from '../../../lib/order/currency';
+import { convertBasket, toMinorUnits } from '../../../lib/currency';
 import { createLogger, fetchWithTimeout, errorResponse, successResponse, ApiErrors } from '../../../lib/api-utils';
 
 const log = createLogger('[stripe-checkout]');
@@ -66,6 +68,10 @@ const StripeCheckoutSchema = z.object({
   customer: CheckoutCustomerSchema,
   shipping: CheckoutShippingSchema.nullish(),
   hasPhysicalItems: z.boolean().optional(),
+  // Buyer's display currency (GBP/EUR/USD). Unsupported values fall back to
+  // the shipping country's default — see lib/order/currency.ts.
+  currency: z.string().max(3).nullish(),
+  discountCode: z.string().max(40).nullish(),
   totals: z.object({
     subtotal: z.number().optional(),
     shipping: z.number().optional(),
@@ -106,10 +112,15 @@ export const POST: APIRoute = async ({ request, locals }) => {
 
     const orderData = parseResult.data;
 
+    // A waitlist hold is this buyer's own copy: the stock check counts it as
+    // theirs and the reservation below takes it over, handing it back if this
+    // checkout fails or expires (lib/order/waitlist.ts)
+    const waitlistHolds = await findWaitlistHolds(orderData.items, orderData.customer);
+
     // SECURITY: Validate stock + prices in parallel (both are independent reads)
     // Running these together saves a round trip before we reserve stock
     const [stockCheck, priceValidation] = await Promise.all([
-      validateStock(orderData.items),
+      validateStock(orderData.items, waitlistHolds),
       validateAndGetPrices(orderData.items, { logPrefix: '[Stripe]' })
     ]);
 
@@ -124,8 +135,16 @@ export const POST: APIRoute = async ({ request, locals }) => {
       return ApiErrors.badRequest(validationError);
     }
 
+    // Discount code is checked against list prices before stock is reserved
+    const { discountCode, validationError: discountError } = await validateDiscountCode(
+      locals.runtime?.env?.DB, orderData.discountCode, validatedItems, orderData.customer
+    );
+    if (discountError) {
+      return ApiErrors.badRequest(discountError);
+    }
+
     // Reserve stock to prevent overselling (must happen after validation passes)
-    reservation = await reserveStock(orderData.items, 'stripe_' + Date.now().toString(36), orderData.customer?.userId);
+    reservation = await reserveStock(orderData.items, 'stripe_' + Date.now().toString(36), orderData.customer?.userId, { waitlistHolds });
     if (!reservation.success) {
       return ApiErrors.badRequest(reservation.error || 'Failed to reserve stock');
     }
@@ -135,9 +154,6 @@ export const POST: APIRoute = async ({ request, locals }) => {
       // Continue with server prices - don't reveal that we caught it
     }
 
-    // Recalculate totals with validated prices
-    const validatedSubtotal = validatedItems.reduce((sum: number, item: Record<string, unknown>) =>
-      sum + ((item.price as number) * ((item.quantity as number) || 1)), 0);
     const hasPhysicalItems = validatedItems.some((item: Record<string, unknown>) =>
       item.type === 'vinyl' || item.type === 'merch'
     );
@@ -152,6 +168,8 @@ export const POST: APIRoute = async ({ request, locals }) => {
     // we pass the address through rather than having Stripe re-collect it, the
     // check belongs here — otherwise an order could reach fulfilment with a
     // missing line1/postcode or a country we don't ship to.
+    const shippingRules = await loadShippingRules(locals.runtime?.env?.DB);
+    const destination = resolveShippingDestination(customerCountry, shippingRules);
     const shippingAddress = orderData.shipping;
     let shippingISO: string | null = null;
     if (hasPhysicalItems) {
@@ -160,7 +178,7 @@ export const POST: APIRoute = async ({ request, locals }) => {
       if (missing.length) {
         return ApiErrors.badRequest(`Shipping address incomplete — missing ${missing.join(', ')}`);
       }
-      shippingISO = countryToISO(customerCountry);
+      shippingISO = countryToISO(customerCountry, shippingRules);
       if (!shippingISO) {
         return ApiErrors.badRequest(`We don't currently ship to "${customerCountry}"`);
       }
@@ -173,13 +191,13 @@ export const POST: APIRoute = async ({ request, locals }) => {
 
     // Crate sellers can waive their shipping over their own threshold —
     // zeroes cratesShippingCost in place before the vinyl loop sums it
-    await applyCrateCombinedShipping(validatedItems as unknown as Parameters<typeof applyCrateCombinedShipping>[0], locals.runtime?.env?.DB);
+    await applyCrateCombinedShipping(validatedItems as unknown as Parameters<typeof applyCrateCombinedShipping>[0], locals.runtime?.env?.DB, customerCountry);
     await applyCrateFreeShipping(validatedItems, locals.runtime?.env?.DB);
 
-    // Merch shipping: flat £4.99 unless every supplier in the basket offers
-    // free shipping and their threshold is met (seller-configurable)
+    // Merch shipping: the zone's merch rate unless every supplier in the basket
+    // offers free shipping and their threshold is met (seller-configurable)
     if (hasMerchItems) {
-      merchShipping = await computeMerchShipping(validatedItems);
+      merchShipping = await computeMerchShipping(validatedItems, { rules: shippingRules, zoneId: destination.zoneId });
     }
 
     // Vinyl shipping: crates charge the seller-set shipping × qty; release vinyl
@@ -193,14 +211,21 @@ export const POST: APIRoute = async ({ request, locals }) => {
           vinylShippingTotal += ((item.cratesShippingCost as number) ?? 4.99) * ((item.quantity as number) || 1);
         }
       }
-      const region = regionForCountry(customerCountry);
-      const relVinyl = computeReleaseVinylShipping(validatedItems as unknown as Parameters<typeof computeReleaseVinylShipping>[0], region);
+      const relVinyl = computeReleaseVinylShipping(validatedItems as unknown as Parameters<typeof computeReleaseVinylShipping>[0], destination.region, { rules: shippingRules, zoneId: destination.zoneId });
       vinylShippingTotal += relVinyl.total;
       Object.assign(artistShippingBreakdown, relVinyl.breakdown);
     }
 
     const validatedShipping = merchShipping + vinylShippingTotal;
 
+    // The discount comes off after shipping so free-shipping thresholds are
+    // judged on list prices. Lowers item.price in place on eligible lines.
+    const appliedDiscount = discountCode ? applyDiscount(validatedItems, discountCode) : null;
+
+    // Recalculate totals with validated (discounted) prices
+    const validatedSubtotal = validatedItems.reduce((sum: number, item: Record<string, unknown>) =>
+      sum + ((item.price as number) * ((item.quantity as number) || 1)), 0);
+
     // Bandcamp-style: customer pays subtotal + shipping only
     // Fees are deducted from artist payout, not charged to customer
     const validatedTotal = validatedSubtotal + validatedShipping;
@@ -210,12 +235,23 @@ export const POST: APIRoute = async ({ request, locals }) => {
     const stripeFee = (validatedTotal * 0.014) + 0.20;
     const validatedServiceFees = freshWaxFee + stripeFee;
 
+    // Charge in the buyer's currency. Everything above stays GBP (it feeds the
+    // ledger and payouts); only what Stripe charges is converted, per unit, at
+    // the locally stored rate.
+    const checkoutCurrency = await resolveCheckoutCurrency(locals.runtime?.env?.DB, orderData.currency, customerCountry);
+    const presentment = convertBasket(
+      validatedItems as Array<{ price: number; quantity?: number }>,
+      validatedShipping,
+      checkoutCurrency.fxRate
+    );
+    const stripeCurrency = checkoutCurrency.currency.toLowerCase();
+
     // Build line items for Stripe using VALIDATED prices
     const lineItems: string[][] = [];
     validatedItems.forEach((item: Record<string, unknown>, index: number) => {
       lineItems.push(
-        [`line_items[${index}][price_data][currency]`, 'gbp'],
-        [`line_items[${index}][price_data][unit_amount]`, String(Math.round(item.price * 100))], // Stripe uses cents
+        [`line_items[${index}][price_data][currency]`, stripeCurrency],
+        [`line_items[${index}][price_data][unit_amount]`, String(toMinorUnits(presentment.unitPrices[index] ?? 0, stripeCurrency))],
         [`line_items[${index}][price_data][product_data][name]`, item.name.substring(0, 500)],
         [`line_items[${index}][price_data][product_data][description]`, getItemDescription(item)],
         [`line_items[${index}][quantity]`, String(item.quantity || 1)]
@@ -254,6 +290,22 @@ export const POST: APIRoute = async ({ request, locals }) => {
       freshWaxFee: String(freshWaxFee),
       total: String(validatedTotal),
       appliedCredit: String(appliedCredit),
+      // Discount code: item prices above are already discounted; the webhook
+      // records these on Order.discount and redeems the code
+      discount: String(appliedDiscount?.amount || 0),
+      discount_code: appliedDiscount?.code || '',
+      discount_campaign: appliedDiscount?.campaign || '',
+      discount_type: appliedDiscount?.type || '',
+      discount_scope: appliedDiscount?.scope || '',
+      // Buyer's currency: the webhook converts session.amount_total back to
+      // GBP with this rate (the amounts above are already GBP)
+      currency: checkoutCurrency.currency,
+      fx_rate: String(checkoutCurrency.fxRate),
+      presentment_total: String(presentment.total),
+      // Where the purchase was made from, kept on the order as dispute
+      // evidence (lib/disputes.ts)
+      client_ip: clientIdReq.startsWith('anon-') ? '' : clientIdReq,
+      user_agent: (request.headers.get('User-Agent') || '').slice(0, 300),
       // Items will be stored as compressed JSON
       items_count: String(validatedItems.length),
       ...(reservation.reservationId ? { reservation_id: reservation.reservationId } : {})
@@ -268,6 +320,7 @@ export const POST: APIRoute = async ({ request, locals }) => {
       name: item.name,
       type: item.type,
       price: item.price, // This is now the validated server price
+      preDiscountPrice: item.preDiscountPrice ?? null,
       quantity: item.quantity,
       size: item.size,
       color: item.color,
@@ -287,7 +340,11 @@ export const POST: APIRoute = async ({ request, locals }) => {
       sellerId: item.sellerId ?? null,
       sellerName: item.sellerName ?? null,
       isCratesItem: item.isCratesItem ?? null,
-      cratesShippingCost: item.cratesShippingCost ?? null
+      cratesShippingCost: item.cratesShippingCost ?? null,
+      // Bundles: the priced release split, expanded into per-release lines
+      // for downloads, ledger and payouts once paid
+      bundleId: item.bundleId ?? null,
+      bundleReleases: item.bundleReleases ?? null
     }));
     const itemsJson = JSON.stringify(compressedItems);
 
@@ -324,8 +381,12 @@ export const POST: APIRoute = async ({ request, locals }) => {
             stripeFee: stripeFee,
             serviceFees: validatedServiceFees,
             total: validatedTotal,
-            appliedCredit: appliedCredit
+            appliedCredit: appliedCredit,
+            discount: appliedDiscount?.amount || 0
           },
+          currency: checkoutCurrency.currency,
+          fxRate: checkoutCurrency.fxRate,
+          presentmentTotal: presentment.total,
           hasPhysicalItems: hasPhysicalItems,
           hasMerchItems: hasMerchItems,
           hasVinylItems: hasVinylItems,
@@ -356,6 +417,12 @@ export const POST: APIRoute = async ({ request, locals }) => {
       bodyParams.append(key, value);
     });
 
+    // VAT: digital sales are taxed where the buyer lives, so collect a billing
+    // address as evidence of it, and let business buyers enter a VAT number
+    // (EU B2B digital sales are reverse charged; UK businesses get a VAT invoice)
+    bodyParams.append('billing_address_collection', 'required');
+    bodyParams.append('tax_id_collection[enabled]', 'true');
+
     // Add metadata
     Object.entries(metadata).forEach(([key, value]) => {
       bodyParams.append(`metadata[${key}]`, value as string);
@@ -366,7 +433,7 @@ export const POST: APIRoute = async ({ request, locals }) => {
       if (validatedShipping === 0) {
         bodyParams.append('shipping_options[0][shipping_rate_data][type]', 'fixed_amount');
         bodyParams.append('shipping_options[0][shipping_rate_data][fixed_amount][amount]', '0');
-        bodyParams.append('shipping_options[0][shipping_rate_data][fixed_amount][currency]', 'gbp');
+        bodyParams.append('shipping_options[0][shipping_rate_data][fixed_amount][currency]', stripeCurrency);
         bodyParams.append('shipping_options[0][shipping_rate_data][display_name]', 'Free Shipping');
         bodyParams.append('shipping_options[0][shipping_rate_data][delivery_estimate][minimum][unit]', 'business_day');
         bodyParams.append('shipping_options[0][shipping_rate_data][delivery_estimate][minimum][value]', '3');
@@ -374,8 +441,8 @@ export const POST: APIRoute = async ({ request, locals }) => {
         bodyParams.append('shipping_options[0][shipping_rate_data][delivery_estimate][maximum][value]', '7');
       } else {
         bodyParams.append('shipping_options[0][shipping_rate_data][type]', 'fixed_amount');
-        bodyParams.append('shipping_options[0][shipping_rate_data][fixed_amount][amount]', String(Math.round(validatedShipping * 100)));
-        bodyParams.append('shipping_options[0][shipping_rate_data][fixed_amount][currency]', 'gbp');
+        bodyParams.append('shipping_options[0][shipping_rate_data][fixed_amount][amount]', String(toMinorUnits(presentment.shipping, stripeCurrency)));
+        bodyParams.append('shipping_options[0][shipping_rate_data][fixed_amount][currency]', stripeCurrency);
         bodyParams.append('shipping_options[0][shipping_rate_data][display_name]', 'Standard Shipping');
         bodyParams.append('shipping_options[0][shipping_rate_data][delivery_estimate][minimum][unit]', 'business_day');
         bodyParams.append('shipping_options[0][shipping_rate_data][delivery_estimate][minimum][value]', '3');
@@ -463,7 +530,8 @@ function formatType(type: string): string {
     'track': 'Single Track',
     'release': 'Digital Release',
     'vinyl': 'Vinyl Record',
-    'merch': 'Merchandise'
+    'merch': 'Merchandise',
+    'bundle': 'Digital Bundle'
   };
   return typeMap[type] || type;
 }
@@ -8,9 +8,13 @@ import { verifyRequestUser, getDocument, deleteDocument } from '../../../lib/fir
 import { createOrder, convertReservation } from '../../../lib/order-utils';
 import { recordMultiSellerSale } from '../../../lib/sales-ledger';
 import { enrichItemsWithSellerInfo } from '../../../lib/stripe-webhook/seller-enrichment';
-import { processArtistPayments, processSupplierPayments, fetchActualStripeFee } from '../../../lib/stripe-webhook/payments';
+import { processArtistPayments, processSupplierPayments, fetchActualStripeFee, fetchStripeCardDetails } from '../../../lib/stripe-webhook/payments';
 import { processVinylCrateSellerPayments } from '../../../lib/stripe-webhook/vinyl-crate-payments';
 import { processMerchSupplierPayments } from '../../../lib/order/seller-payments';
+import { stripeSessionAmounts } from '../../../lib/order/currency';
+import { discountFromMetadata } from '../../../lib/order/discounts';
+import { stripeVatContext } from '../../../lib/order/vat';
+import { holdSellerPayouts } from '../../../lib/fraud';
 import { createLogger, fetchWithTimeout, ApiErrors, successResponse } from '../../../lib/api-utils';
 import { FIREBASE_API_KEY } from '../../../lib/constants';
 import { TIMEOUTS } from '../../../lib/timeouts';
@@ -215,6 +219,17 @@ export const GET: APIRoute = async ({ request, url, locals }) => {
     const pendingTotals = pendingCheckout?.totals as Record<string, number> | undefined;
     const pendingCustomer = pendingCheckout?.customer as Record<string, string> | undefined;
 
+    // Buyer may have paid in EUR/USD — orders, ledger and payouts stay in GBP
+    const { amountPaid, currency: presentmentCurrency, fxRate, settlementTotal } = stripeSessionAmounts(session);
+
+    // VAT follows the billing address / tax ID collected by Stripe Checkout
+    const vatContext = stripeVatContext(session, shipping?.country);
+
+    // The card's fingerprint and country feed the fraud score
+    const card = session.payment_intent
+      ? await fetchStripeCardDetails(session.payment_intent, stripeSecretKey)
+      : { fingerprint: null, country: null };
+
     // Create the order
     const result = await createOrder({
       orderData: {
@@ -228,16 +243,29 @@ export const GET: APIRoute = async ({ request, url, locals }) => {
         shipping,
         items,
         totals: {
-          subtotal: pendingTotals?.subtotal ?? (parseFloat(session.metadata?.subtotal) || (session.amount_total / 100)),
+          subtotal: pendingTotals?.subtotal ?? (parseFloat(session.metadata?.subtotal) || settlementTotal),
           shipping: pendingTotals?.shipping ?? (parseFloat(session.metadata?.shipping) || 0),
           freshWaxFee: pendingTotals?.freshWaxFee ?? (parseFloat(session.metadata?.freshWaxFee) || 0),
           stripeFee: pendingTotals?.stripeFee ?? 0,
           serviceFees: pendingTotals?.serviceFees ?? (parseFloat(session.metadata?.serviceFees) || 0),
-          total: pendingTotals?.total ?? (session.amount_total / 100)
+          total: pendingTotals?.total ?? settlementTotal
         },
+        currency: presentmentCurrency,
+        fxRate,
+        presentmentTotal: amountPaid,
+        discount: discountFromMetadata(session.metadata || {}),
+        vat: vatContext,
         hasPhysicalItems: pendingCheckout?.hasPhysicalItems === true || session.metadata?.hasPhysicalItems === 'true',
         paymentMethod: 'stripe',
-        paymentIntentId: session.payment_intent
+        paymentIntentId: session.payment_intent,
+        checkout: {
+          ip: clientId.startsWith('anon-') ? null : clientId,
+          userAgent: request.headers.get('user-agent'),
+          sessionId: session.id || null,
+          cardFingerprint: card.fingerprint,
+          cardCountry: card.country,
+          billingCountry: session.customer_details?.address?.country || null
+        }
       },
       env
     });
@@ -266,7 +294,7 @@ export const GET: APIRoute = async ({ request, url, locals }) => {
         const serviceFees = parseFloat(session.metadata?.serviceFees) || (pendingTotals?.serviceFees ?? 0);
         const freshWaxFee = parseFloat(session.metadata?.freshWaxFee) || (pendingTotals?.freshWaxFee ?? 0);
         const stripeFee = actualStripeFee
-          ?? (serviceFees > 0 ? (serviceFees - freshWaxFee) : ((session.amount_total / 100) * 0.014 + 0.20));
+          ?? (serviceFees > 0 ? (serviceFees - freshWaxFee) : (settlementTotal * 0.014 + 0.20));
         const enrichedItems = await enrichItemsWithSellerInfo(items);
         await recordMultiSellerSale({
           orderId: result.orderId!,
@@ -274,12 +302,15 @@ export const GET: APIRoute = async ({ request, url, locals }) => {
           customerId: pendingCustomer?.userId || session.metadata?.customer_userId || null,
           customerEmail: pendingCustomer?.email || session.metadata?.customer_email || '',
           customerName: pendingCustomer?.firstName || session.metadata?.customer_firstName || null,
-          grossTotal: session.amount_total / 100,
+          grossTotal: settlementTotal,
           shipping: pendingTotals?.shipping ?? (parseFloat(session.metadata?.shipping) || 0),
           stripeFee: Math.round(stripeFee * 100) / 100,
           freshWaxFee,
           paymentMethod: 'stripe',
           paymentId: session.payment_intent,
+          presentmentCurrency,
+          fxRate,
+          vat: vatContext,
           hasPhysical: pendingCheckout?.hasPhysicalItems === true || session.metadata?.hasPhysicalItems === 'true',
           hasDigital: enrichedItems.some((i: Record<string, unknown>) => i.type === 'digital' || i.type === 'release' || i.type === 'track'),
           items: enrichedItems as Parameters<typeof recordMultiSellerSale>[0]['items'],
@@ -289,56 +320,70 @@ export const GET: APIRoute = async ({ request, url, locals }) => {
         log.error('Ledger recording failed:', ledgerErr);
       }
 
-      try {
-        const stripeSecretKeyForPayments = stripeSecretKey;
-        const orderSubtotal = items.reduce((sum: number, item: Record<string, unknown>) =>
-          sum + (((item.price as number) || 0) * ((item.quantity as number) || 1)), 0);
-        await processArtistPayments({
-          orderId: result.orderId!,
-          orderNumber: result.orderNumber || '',
-          items,
-          totalItemCount: items.length,
-          orderSubtotal,
-          artistShippingBreakdown,
-          actualStripeFee,
-          stripeSecretKey: stripeSecretKeyForPayments,
-          env: env as CloudflareEnv
-        });
-        // Crates marketplace items pay out to the listing seller, not an artist
-        await processVinylCrateSellerPayments({
-          orderId: result.orderId!,
-          orderNumber: result.orderNumber || '',
-          items,
+      if (result.held) {
+        // Held for fraud review — paid out when an admin approves the order
+        await holdSellerPayouts(result.orderId!, {
+          flow: 'stripe',
           totalItemCount: items.length,
-          orderSubtotal,
-          actualStripeFee,
-          stripeSecretKey: stripeSecretKeyForPayments,
-          env: env as CloudflareEnv
-        });
-        // Merch: 10% brand royalty (brandAccountId) + supplier share (supplierId)
-        await processSupplierPayments({
-          orderId: result.orderId!,
-          orderNumber: result.orderNumber || '',
-          items,
-          totalItemCount: items.length,
-          orderSubtotal,
-          stripeSecretKey: stripeSecretKeyForPayments,
-          env: env as CloudflareEnv
-        });
-        await processMerchSupplierPayments({
-          orderId: result.orderId!,
-          orderNumber: result.orderNumber || '',
-          items,
-          totalItemCount: items.length,
-          orderSubtotal,
+          orderSubtotal: items.reduce((sum: number, item: Record<string, unknown>) =>
+            sum + (((item.price as number) || 0) * ((item.quantity as number) || 1)), 0),
           actualProcessingFee: actualStripeFee,
           paymentMethod: 'stripe',
           logPrefix: '[verify-session]',
-          stripeSecretKey: stripeSecretKeyForPayments,
-          env: env as CloudflareEnv
+          artistShippingBreakdown: artistShippingBreakdown || null
         });
-      } catch (payErr: unknown) {
-        log.error('Artist payment processing failed:', payErr);
+      } else {
+        try {
+          const stripeSecretKeyForPayments = stripeSecretKey;
+          const orderSubtotal = items.reduce((sum: number, item: Record<string, unknown>) =>
+            sum + (((item.price as number) || 0) * ((item.quantity as number) || 1)), 0);
+          await processArtistPayments({
+            orderId: result.orderId!,
+            orderNumber: result.orderNumber || '',
+            items,
+            totalItemCount: items.length,
+            orderSubtotal,
+            artistShippingBreakdown,
+            actualStripeFee,
+            stripeSecretKey: stripeSecretKeyForPayments,
+            env: env as CloudflareEnv
+          });
+          // Crates marketplace items pay out to the listing seller, not an artist
+          await processVinylCrateSellerPayments({
+            orderId: result.orderId!,
+            orderNumber: result.orderNumber || '',
+            items,
+            totalItemCount: items.length,
+            orderSubtotal,
+            actualStripeFee,
+            stripeSecretKey: stripeSecretKeyForPayments,
+            env: env as CloudflareEnv
+          });
+          // Merch: 10% brand royalty (brandAccountId) + supplier share (supplierId)
+          await processSupplierPayments({
+            orderId: result.orderId!,
+            orderNumber: result.orderNumber || '',
+            items,
+            totalItemCount: items.length,
+            orderSubtotal,
+            stripeSecretKey: stripeSecretKeyForPayments,
+            env: env as CloudflareEnv
+          });
+          await processMerchSupplierPayments({
+            orderId: result.orderId!,
+            orderNumber: result.orderNumber || '',
+            items,
+            totalItemCount: items.length,
+            orderSubtotal,
+            actualProcessingFee: actualStripeFee,
+            paymentMethod: 'stripe',
+            logPrefix: '[verify-session]',
+            stripeSecretKey: stripeSecretKeyForPayments,
+            env: env as CloudflareEnv
+          });
+        } catch (payErr: unknown) {
+          log.error('Artist payment processing failed:', payErr);
+        }
       }
 
       // Consume the pending checkout so it doesn't linger
@@ -12,6 +12,7 @@ import { fetchWithTimeout, createLogger, jsonResponse, ApiErrors, timingSafeComp
 import { handleDisputeCreated, handleDisputeClosed } from '../../../lib/stripe-webhook/disputes';
 import { handleRefund } from '../../../lib/stripe-webhook/refund';
 import { handlePlusSubscription, handlePlusPromoPayment, handleSubscriptionRenewal, IdempotencyError } from '../../../lib/stripe-webhook/subscriptions';
+import { handleRecordClubSubscription, handleRecordClubInvoice, handleRecordClubCancelled, isRecordClubInvoice, RECORD_CLUB_TYPE } from '../../../lib/stripe-webhook/record-club';
 import { handleCheckoutExpired } from '../../../lib/stripe-webhook/abandoned-cart';
 import { handleProductOrder, handleGiftCardPurchase, OrderIdempotencyError, GiftCardIdempotencyError } from '../../../lib/stripe-webhook/product-order';
 
@@ -151,6 +152,12 @@ export const POST: APIRoute = async ({ request, locals }) => {
     if (event.type === 'checkout.session.completed') {
       const session = event.data.object;
 
+      // Record club memberships are subscriptions too, tagged by type
+      if (session.mode === 'subscription' && session.metadata?.type === RECORD_CLUB_TYPE) {
+        const result = await handleRecordClubSubscription(session, ctx);
+        return jsonResponse(result);
+      }
+
       // Handle Plus subscription
       if (session.mode === 'subscription') {
         try {
@@ -227,6 +234,11 @@ export const POST: APIRoute = async ({ request, locals }) => {
     // Handle subscription renewal (invoice.payment_succeeded for recurring payments)
     if (event.type === 'invoice.payment_succeeded') {
       const invoice = event.data.object;
+      // Record club invoices ship that period's records instead of extending Plus
+      if (isRecordClubInvoice(invoice)) {
+        const result = await handleRecordClubInvoice(invoice, ctx);
+        return jsonResponse(result);
+      }
       const result = await handleSubscriptionRenewal(invoice, ctx);
       return jsonResponse(result);
     }
@@ -234,6 +246,10 @@ export const POST: APIRoute = async ({ request, locals }) => {
     // Handle subscription cancelled/expired
     if (event.type === 'customer.subscription.deleted') {
       const subscription = event.data.object;
+      if (subscription.metadata?.type === RECORD_CLUB_TYPE) {
+        const result = await handleRecordClubCancelled(subscription);
+        return jsonResponse(result);
+      }
       // Subscription cancelled
 
       // User's subscription has been cancelled - they'll naturally lose Plus when expiresAt passes
@@ -262,7 +278,7 @@ export const POST: APIRoute = async ({ request, locals }) => {
         return jsonResponse({ error: 'Temporary error checking dispute status' }, 500);
       }
 
-      await handleDisputeCreated(dispute, stripeSecretKey);
+      await handleDisputeCreated(dispute, stripeSecretKey, env);
 
       logStripeEvent(event.type, event.id, true, {
         message: `Dispute created: ${dispute.reason}`,
@@ -276,7 +292,7 @@ export const POST: APIRoute = async ({ request, locals }) => {
       const dispute = event.data.object;
       log.info('[Stripe Webhook] Dispute closed:', dispute.id, dispute.status);
 
-      await handleDisputeClosed(dispute, stripeSecretKey);
+      await handleDisputeClosed(dispute, stripeSecretKey, env);
 
       logStripeEvent(event.type, event.id, true, {
         message: `Dispute closed: ${dispute.status}`,
@@ -0,0 +1,92 @@
+// /src/pages/api/trade/account.ts
+// A record shop's trade account (lib/trade.ts).
+// GET returns the account's terms, remaining credit and its invoices.
+// POST { shippingAddress } sets where trade orders are delivered.
+
+import type { APIRoute } from 'astro';
+import { z } from 'zod';
+import { updateDocument, verifyRequestUser } from '../../../lib/firebase-rest';
+import { parseJsonBody, ApiErrors, successResponse } from '../../../lib/api-utils';
+import { checkRateLimit, getClientId, rateLimitResponse, RateLimiters } from '../../../lib/rate-limit';
+import { TRADE_ACCOUNTS_COLLECTION, getTradeAccount, getTradeOrders, isTradeOrderOverdue } from '../../../lib/trade';
+import type { TradeOrderTerms } from '../../../lib/trade';
+
+export const prerender = false;
+
+const addressSchema = z.object({
+  shippingAddress: z.object({
+    address1: z.string().min(1).max(200),
+    address2: z.string().max(200).optional(),
+    city: z.string().min(1).max(100),
+    county: z.string().max(100).optional(),
+    postcode: z.string().min(1).max(20),
+    country: z.string().min(2).max(60),
+  }),
+});
+
+export const GET: APIRoute = async ({ request }) => {
+  const clientId = getClientId(request);
+  const rateCheck = checkRateLimit(`trade-account:${clientId}`, RateLimiters.standard);
+  if (!rateCheck.allowed) return rateLimitResponse(rateCheck.retryAfter!);
+
+  const { userId, error: authError } = await verifyRequestUser(request);
+  if (authError || !userId) return ApiErrors.unauthorized(authError || 'Authentication required');
+
+  const account = await getTradeAccount(userId);
+  if (!account) return ApiErrors.notFound('No trade account');
+
+  const now = new Date();
+  const invoices = (await getTradeOrders(account.id)).map(order => {
+    const trade = order.trade as TradeOrderTerms;
+    return {
+      orderId: order.id,
+      orderNumber: order.orderNumber,
+      createdAt: order.createdAt,
+      total: (order.totals as { total?: number } | undefined)?.total || 0,
+      status: order.status,
+      paymentStatus: order.paymentStatus,
+      poNumber: trade.poNumber,
+      dueAt: trade.dueAt,
+      paidAt: trade.paidAt,
+      overdue: isTradeOrderOverdue(order, now),
+    };
+  });
+
+  return successResponse({
+    account: {
+      shopName: account.shopName,
+      status: account.status,
+      vatNumber: account.vatNumber,
+      creditLimit: account.creditLimit,
+      outstanding: account.outstanding || 0,
+      availableCredit: Math.max(0, Math.round((account.creditLimit - (account.outstanding || 0)) * 100) / 100),
+      termsDays: account.termsDays,
+      shippingRate: account.shippingRate,
+      shippingAddress: account.shippingAddress,
+    },
+    invoices,
+  });
+};
+
+export const POST: APIRoute = async ({ request }) => {
+  const clientId = getClientId(request);
+  const rateCheck = checkRateLimit(`trade-account:${clientId}`, RateLimiters.write);
+  if (!rateCheck.allowed) return rateLimitResponse(rateCheck.retryAfter!);
+
+  const { userId, error: authError } = await verifyRequestUser(request);
+  if (authError || !userId) return ApiErrors.unauthorized(authError || 'Authentication required');
+
+  const parsed = addressSchema.safeParse(await parseJsonBody(request));
+  if (!parsed.success) {
+    return ApiErrors.badRequest('Invalid request: ' + parsed.error.issues.map(i => i.message).join(', '));
+  }
+
+  const account = await getTradeAccount(userId);
+  if (!account) return ApiErrors.notFound('No trade account');
+
+  await updateDocument(TRADE_ACCOUNTS_COLLECTION, account.id, {
+    shippingAddress: parsed.data.shippingAddress,
+    updatedAt: new Date().toISOString(),
+  });
+  return successResponse({ shippingAddress: parsed.data.shippingAddress });
+};
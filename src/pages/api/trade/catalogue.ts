@@ -0,0 +1,51 @@
+// /src/pages/api/trade/catalogue.ts
+// Releases a trade account can order, with their trade price tiers and the
+// copies currently free to sell (stock less anything held in checkouts).
+
+import type { APIRoute } from 'astro';
+import { queryCollection, verifyRequestUser } from '../../../lib/firebase-rest';
+import { ApiErrors, successResponse } from '../../../lib/api-utils';
+import { checkRateLimit, getClientId, rateLimitResponse, RateLimiters } from '../../../lib/rate-limit';
+import { getTradeAccount } from '../../../lib/trade';
+
+export const prerender = false;
+
+export const GET: APIRoute = async ({ request }) => {
+  const clientId = getClientId(request);
+  const rateCheck = checkRateLimit(`trade-catalogue:${clientId}`, RateLimiters.standard);
+  if (!rateCheck.allowed) return rateLimitResponse(rateCheck.retryAfter!);
+
+  const { userId, error: authError } = await verifyRequestUser(request);
+  if (authError || !userId) return ApiErrors.unauthorized(authError || 'Authentication required');
+
+  const account = await getTradeAccount(userId);
+  if (!account || account.status !== 'active') return ApiErrors.forbidden('An active trade account is required');
+
+  const releases = await queryCollection('releases', {
+    filters: [{ field: 'tradeEnabled', op: 'EQUAL', value: true }],
+    skipCache: true,
+  });
+
+  const catalogue = releases.map(release => {
+    const parts = Array.isArray(release.vinylParts) ? release.vinylParts as Record<string, unknown>[] : [];
+    return {
+      releaseId: release.id,
+      name: release.releaseName || release.title || '',
+      artist: release.artistName || release.artist || '',
+      catalogNumber: release.catalogNumber || null,
+      artwork: release.coverArtUrl || release.artworkUrl || null,
+      tradePricing: release.tradePricing,
+      available: parts.length > 0
+        ? null
+        : Math.max(0, (Number(release.vinylStock) || 0) - (Number(release.vinylReserved) || 0)),
+      // Parts are addressed by position, as at checkout (vinylPartId)
+      parts: parts.map((part, i) => ({
+        vinylPartId: `part-${i + 1}`,
+        name: part.name || `Part ${i + 1}`,
+        available: Math.max(0, (Number(part.stock) || 0) - (Number(part.reserved) || 0)),
+      })),
+    };
+  });
+
+  return successResponse({ releases: catalogue });
+};
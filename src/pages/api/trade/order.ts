@@ -0,0 +1,60 @@
+// /src/pages/api/trade/order.ts
+// Place a trade order on account (lib/trade.ts). No payment is taken: the
+// order is created unpaid with a due date from the account's terms (net 30)
+// and counts against its credit limit until an admin marks it paid.
+
+import type { APIRoute } from 'astro';
+import { z } from 'zod';
+import { verifyRequestUser } from '../../../lib/firebase-rest';
+import { parseJsonBody, ApiErrors, createLogger, errorResponse, successResponse } from '../../../lib/api-utils';
+import { checkRateLimit, getClientId, rateLimitResponse, RateLimiters } from '../../../lib/rate-limit';
+import { getTradeAccount, placeTradeOrder } from '../../../lib/trade';
+
+const log = createLogger('[trade/order]');
+
+export const prerender = false;
+
+const orderSchema = z.object({
+  lines: z.array(z.object({
+    releaseId: z.string().min(1),
+    vinylPartId: z.string().regex(/^part-\d+$/).nullable().optional(),
+    quantity: z.number().int().min(1).max(500),
+  })).min(1).max(50),
+  poNumber: z.string().max(50).optional(),
+});
+
+export const POST: APIRoute = async ({ request, locals }) => {
+  const clientId = getClientId(request);
+  const rateCheck = checkRateLimit(`trade-order:${clientId}`, RateLimiters.strict);
+  if (!rateCheck.allowed) return rateLimitResponse(rateCheck.retryAfter!);
+
+  const { userId, error: authError } = await verifyRequestUser(request);
+  if (authError || !userId) return ApiErrors.unauthorized(authError || 'Authentication required');
+
+  const parsed = orderSchema.safeParse(await parseJsonBody(request));
+  if (!parsed.success) {
+    return ApiErrors.badRequest('Invalid request: ' + parsed.error.issues.map(i => i.message).join(', '));
+  }
+
+  const account = await getTradeAccount(userId);
+  if (!account) return ApiErrors.forbidden('A trade account is required');
+
+  const env = locals?.runtime?.env as unknown as Record<string, unknown>;
+  const result = await placeTradeOrder({
+    account,
+    lines: parsed.data.lines,
+    poNumber: parsed.data.poNumber || null,
+    env: env || {},
+  });
+  if (result.error) {
+    log.warn(`Trade order refused for ${userId}: ${result.error}`);
+    return errorResponse(result.error, result.status || 400);
+  }
+
+  return successResponse({
+    orderId: result.orderId,
+    orderNumber: result.orderNumber,
+    total: result.total,
+    dueAt: result.dueAt,
+  });
+};
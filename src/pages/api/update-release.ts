@@ -101,6 +101,15 @@ export async function POST({ request, locals }: { request: Request; locals: App.
       }
     }
 
+    // Split sheets lock at the first sale and keep a history, so they only
+    // change through /api/pro/split-sheet and /api/admin/split-sheets
+    for (const key of ['payoutSplits', 'trackSplits', 'splitSheetLockedAt']) {
+      if (key in cleanedData) {
+        log.warn(`[update-release] Ignoring ${key} for ${id} — use the split sheet endpoints`);
+        delete cleanedData[key];
+      }
+    }
+
     // Add updatedAt timestamp
     cleanedData.updatedAt = new Date().toISOString();
 
@@ -120,6 +129,10 @@ export async function POST({ request, locals }: { request: Request; locals: App.
       };
     }
 
+    if (cleanedData.watermarkDownloads !== undefined) {
+      cleanedData.watermarkDownloads = !!cleanedData.watermarkDownloads;
+    }
+
     // Validate NYOP fields
     if (cleanedData.nyopEnabled !== undefined) {
       // Ensure boolean
@@ -1,7 +1,7 @@
 // Fresh Wax API Worker - Main Entry Point
 // Cloudflare Worker handling all backend operations with Firebase Admin access
 
-import type { Env, ApiResponse } from './types';
+import type { Env, ApiResponse, RoleType } from './types';
 import {
   getPendingRequests,
   requestRole,
@@ -128,7 +128,7 @@ async function handleRequest(request: Request, env: Env): Promise<Response> {
       }
 
       const body = await request.json() as {
-        roleType: 'artist' | 'merchSeller' | 'djBypass';
+        roleType: RoleType;
         artistName?: string;
         bio?: string;
         links?: string;
@@ -136,6 +136,8 @@ async function handleRequest(request: Request, env: Env): Promise<Response> {
         description?: string;
         website?: string;
         reason?: string;
+        vatNumber?: string;
+        location?: string;
       };
 
       const result = await requestRole(env, userId, body.roleType, body);
@@ -151,7 +153,7 @@ async function handleRequest(request: Request, env: Env): Promise<Response> {
 
       const body = await request.json() as {
         uid: string;
-        roleType: 'artist' | 'merchSeller' | 'djBypass';
+        roleType: RoleType;
       };
 
       const result = await approveRole(env, auth.adminUid!, body.uid, body.roleType);
@@ -167,7 +169,7 @@ async function handleRequest(request: Request, env: Env): Promise<Response> {
 
       const body = await request.json() as {
         uid: string;
-        roleType: 'artist' | 'merchSeller' | 'djBypass';
+        roleType: RoleType;
         reason?: string;
       };
 
@@ -184,7 +186,7 @@ async function handleRequest(request: Request, env: Env): Promise<Response> {
 
       const body = await request.json() as {
         uid: string;
-        roleType: 'artist' | 'merchSeller' | 'djBypass';
+        roleType: RoleType;
       };
 
       const result = await revokeRole(env, auth.adminUid!, body.uid, body.roleType);
@@ -1,5 +1,5 @@
 // Role Management Routes - Handles role requests, approvals, and denials
-import type { Env, User, Artist, PendingRoleRequest } from '../types';
+import type { Env, User, Artist, PendingRoles, PendingRoleRequest, RoleType } from '../types';
 import {
   getDocument,
   setDocument,
@@ -14,6 +14,7 @@ import {
   artistApprovalEmail,
   merchSellerApprovalEmail,
   djBypassApprovalEmail,
+  tradeBuyerApprovalEmail,
   roleDenialEmail,
   newRequestNotificationEmail
 } from '../services/email';
@@ -21,6 +22,17 @@ import {
 // Admin UIDs for authorization
 const ADMIN_UIDS = ['Y3TGc171cHSWTqZDRSniyu7Jxc33', '8WmxYeCp4PSym5iWHahgizokn5F2'];
 
+// Starting terms for a new trade account; admins adjust them per shop.
+// Mirrors DEFAULT_TRADE_TERMS in the site's src/lib/trade.ts.
+const DEFAULT_TRADE_TERMS = { creditLimit: 500, termsDays: 30, shippingRate: 0 };
+
+function roleDisplayName(roleType: RoleType): string {
+  if (roleType === 'djBypass') return 'DJ Bypass';
+  if (roleType === 'merchSeller') return 'Merch Seller';
+  if (roleType === 'tradeBuyer') return 'Trade Account';
+  return 'Artist';
+}
+
 // Check if user is admin
 async function isAdmin(env: Env, uid: string): Promise<boolean> {
   if (ADMIN_UIDS.includes(uid)) return true;
@@ -43,11 +55,12 @@ export async function getPendingRequests(env: Env, adminUid: string) {
   const requests = {
     artist: [] as any[],
     merchSeller: [] as any[],
-    djBypass: [] as any[]
+    djBypass: [] as any[],
+    tradeBuyer: [] as any[]
   };
 
   for (const user of users) {
-    const pending = user.pendingRoles || {};
+    const pending: PendingRoles = user.pendingRoles || {};
 
     if (pending.artist?.status === 'pending') {
       requests.artist.push({
@@ -76,12 +89,21 @@ export async function getPendingRequests(env: Env, adminUid: string) {
         ...pending.djBypass
       });
     }
+    if (pending.tradeBuyer?.status === 'pending') {
+      requests.tradeBuyer.push({
+        uid: user.id,
+        userId: user.id,
+        displayName: user.displayName || '',
+        email: user.email || '',
+        ...pending.tradeBuyer
+      });
+    }
   }
 
   return {
     success: true,
     requests,
-    totalPending: requests.artist.length + requests.merchSeller.length + requests.djBypass.length
+    totalPending: requests.artist.length + requests.merchSeller.length + requests.djBypass.length + requests.tradeBuyer.length
   };
 }
 
@@ -91,7 +113,7 @@ export async function getPendingRequests(env: Env, adminUid: string) {
 export async function requestRole(
   env: Env,
   uid: string,
-  roleType: 'artist' | 'merchSeller' | 'djBypass',
+  roleType: RoleType,
   data: {
     artistName?: string;
     bio?: string;
@@ -100,6 +122,8 @@ export async function requestRole(
     description?: string;
     website?: string;
     reason?: string;
+    vatNumber?: string;
+    location?: string;
   }
 ) {
   // Get user document
@@ -135,6 +159,11 @@ export async function requestRole(
     requestData.website = data.website || '';
   } else if (roleType === 'djBypass') {
     requestData.reason = data.reason || '';
+  } else if (roleType === 'tradeBuyer') {
+    requestData.businessName = data.businessName || '';
+    requestData.vatNumber = data.vatNumber || '';
+    requestData.location = data.location || '';
+    requestData.website = data.website || '';
   }
 
   // Update user document
@@ -153,12 +182,17 @@ export async function requestRole(
     details['Business Name'] = data.businessName || 'Not provided';
     details['Description'] = data.description || 'Not provided';
     details['Website'] = data.website || 'Not provided';
+  } else if (roleType === 'tradeBuyer') {
+    details['Shop Name'] = data.businessName || 'Not provided';
+    details['VAT Number'] = data.vatNumber || 'Not provided';
+    details['Location'] = data.location || 'Not provided';
+    details['Website'] = data.website || 'Not provided';
   } else {
     details['Reason'] = data.reason || 'Not provided';
   }
 
   const notifEmail = newRequestNotificationEmail(
-    roleType === 'artist' ? 'Artist' : roleType === 'merchSeller' ? 'Merch Seller' : 'DJ Bypass',
+    roleDisplayName(roleType),
     user.displayName || 'Unknown',
     user.email || '',
     details
@@ -175,7 +209,7 @@ export async function approveRole(
   env: Env,
   adminUid: string,
   uid: string,
-  roleType: 'artist' | 'merchSeller' | 'djBypass'
+  roleType: RoleType
 ) {
   // Verify admin
   if (!await isAdmin(env, adminUid)) {
@@ -188,7 +222,7 @@ export async function approveRole(
     return { success: false, error: 'User not found', status: 404 };
   }
 
-  const pendingData = user.pendingRoles?.[roleType] || {};
+  const pendingData: Partial<PendingRoleRequest> = (user.pendingRoles as PendingRoles | undefined)?.[roleType] || {};
   const roleKey = roleType === 'djBypass' ? 'djEligible' : roleType;
 
   // Update user document
@@ -263,12 +297,41 @@ export async function approveRole(
     }
   }
 
+  // For tradeBuyer, open the shop's trade account (invoice-on-account terms)
+  if (roleType === 'tradeBuyer') {
+    const existingAccount = await getDocument(env, 'tradeAccounts', uid);
+    if (existingAccount) {
+      await updateDocument(env, 'tradeAccounts', uid, {
+        status: 'active',
+        approvedAt: new Date().toISOString(),
+        approvedBy: adminUid,
+        updatedAt: new Date().toISOString()
+      });
+    } else {
+      await setDocument(env, 'tradeAccounts', uid, {
+        userId: uid,
+        shopName: pendingData.businessName || user.displayName || 'Trade account',
+        email: user.email || '',
+        vatNumber: pendingData.vatNumber || null,
+        location: pendingData.location || '',
+        status: 'active',
+        ...DEFAULT_TRADE_TERMS,
+        outstanding: 0,
+        shippingAddress: null,
+        approvedAt: new Date().toISOString(),
+        approvedBy: adminUid,
+        createdAt: new Date().toISOString(),
+        updatedAt: new Date().toISOString()
+      });
+    }
+  }
+
   // Create notification
   await addDocument(env, 'notifications', {
     userId: uid,
     type: 'role_approved',
-    title: `${roleType === 'djBypass' ? 'DJ Bypass' : roleType === 'merchSeller' ? 'Merch Seller' : 'Artist'} Request Approved`,
-    message: `Your ${roleType === 'djBypass' ? 'DJ bypass' : roleType} request has been approved!`,
+    title: `${roleDisplayName(roleType)} Request Approved`,
+    message: `Your ${roleType === 'djBypass' ? 'DJ bypass' : roleType === 'tradeBuyer' ? 'trade account' : roleType} request has been approved!`,
     read: false,
     createdAt: new Date().toISOString()
   });
@@ -279,6 +342,8 @@ export async function approveRole(
     emailTemplate = artistApprovalEmail(pendingData.artistName || 'Artist', user.displayName || '');
   } else if (roleType === 'merchSeller') {
     emailTemplate = merchSellerApprovalEmail(pendingData.businessName || 'Business', user.displayName || '');
+  } else if (roleType === 'tradeBuyer') {
+    emailTemplate = tradeBuyerApprovalEmail(pendingData.businessName || 'your shop', user.displayName || '', DEFAULT_TRADE_TERMS.termsDays);
   } else {
     emailTemplate = djBypassApprovalEmail(user.displayName || '');
   }
@@ -297,7 +362,7 @@ export async function denyRole(
   env: Env,
   adminUid: string,
   uid: string,
-  roleType: 'artist' | 'merchSeller' | 'djBypass',
+  roleType: RoleType,
   reason?: string
 ) {
   // Verify admin
@@ -324,7 +389,7 @@ export async function denyRole(
   await addDocument(env, 'notifications', {
     userId: uid,
     type: 'role_denied',
-    title: `${roleType === 'djBypass' ? 'DJ Bypass' : roleType === 'merchSeller' ? 'Merch Seller' : 'Artist'} Request Denied`,
+    title: `${roleDisplayName(roleType)} Request Denied`,
     message: reason ? `Your request was denied: ${reason}` : 'Your request was denied.',
     read: false,
     createdAt: new Date().toISOString()
@@ -347,7 +412,7 @@ export async function revokeRole(
   env: Env,
   adminUid: string,
   uid: string,
-  roleType: 'artist' | 'merchSeller' | 'djBypass'
+  roleType: RoleType
 ) {
   // Verify admin
   if (!await isAdmin(env, adminUid)) {
@@ -362,6 +427,17 @@ export async function revokeRole(
     updatedAt: new Date().toISOString()
   });
 
+  // Suspend the trade account; unpaid invoices stay on it
+  if (roleType === 'tradeBuyer') {
+    const existingAccount = await getDocument(env, 'tradeAccounts', uid);
+    if (existingAccount) {
+      await updateDocument(env, 'tradeAccounts', uid, {
+        status: 'suspended',
+        updatedAt: new Date().toISOString()
+      });
+    }
+  }
+
   // Update artists collection if applicable
   if (roleType === 'artist' || roleType === 'merchSeller') {
     const existingArtist = await getDocument(env, 'artists', uid);
@@ -145,6 +145,46 @@ export function merchSellerApprovalEmail(businessName: string, displayName: stri
   };
 }
 
+// Trade account approval email
+export function tradeBuyerApprovalEmail(shopName: string, displayName: string, termsDays: number): EmailOptions {
+  return {
+    to: '', // Set by caller
+    subject: `Your Trade Account is Approved!`,
+    html: `
+      <!DOCTYPE html>
+      <html>
+      <head><style>${baseStyles}</style></head>
+      <body>
+        <div class="container">
+          <div class="header">
+            <h1>FRESH WAX</h1>
+          </div>
+          <div class="content">
+            <h2>Welcome, ${displayName}!</h2>
+            <p>The trade account for <strong>${shopName}</strong> has been approved.</p>
+            <div class="highlight">
+              <strong>What's next?</strong>
+              <ul>
+                <li>Order our vinyl pressings at trade prices, with breaks for larger quantities</li>
+                <li>Orders go on account — we invoice you, payable within ${termsDays} days</li>
+                <li>Add your shop's delivery address in your account</li>
+              </ul>
+            </div>
+            <a href="https://freshwax.co.uk/account/dashboard" class="button">Go to Dashboard</a>
+            <p>Questions? Just reply to this email.</p>
+            <p>Thanks for stocking us!<br><strong>The Fresh Wax Team</strong></p>
+          </div>
+          <div class="footer">
+            <p>Fresh Wax - Jungle & Drum and Bass</p>
+            <p><a href="https://freshwax.co.uk">freshwax.co.uk</a></p>
+          </div>
+        </div>
+      </body>
+      </html>
+    `
+  };
+}
+
 // DJ bypass approval email
 export function djBypassApprovalEmail(displayName: string): EmailOptions {
   return {
@@ -187,7 +227,7 @@ export function djBypassApprovalEmail(displayName: string): EmailOptions {
 
 // Role denial email
 export function roleDenialEmail(displayName: string, roleType: string, reason?: string): EmailOptions {
-  const roleName = roleType === 'artist' ? 'Artist' : roleType === 'merchSeller' ? 'Merch Seller' : 'DJ Bypass';
+  const roleName = roleType === 'artist' ? 'Artist' : roleType === 'merchSeller' ? 'Merch Seller' : roleType === 'tradeBuyer' ? 'Trade Account' : 'DJ Bypass';
 
   return {
     to: '', // Set by caller
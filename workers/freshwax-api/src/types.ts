@@ -48,13 +48,17 @@ export interface UserRoles {
   djEligible: boolean;
   artist: boolean;
   merchSeller: boolean;
+  tradeBuyer?: boolean;
   admin?: boolean;
 }
 
+export type RoleType = 'artist' | 'merchSeller' | 'djBypass' | 'tradeBuyer';
+
 export interface PendingRoles {
   artist?: PendingRoleRequest;
   merchSeller?: PendingRoleRequest;
   djBypass?: PendingRoleRequest;
+  tradeBuyer?: PendingRoleRequest;
 }
 
 export interface PendingRoleRequest {
@@ -75,6 +79,9 @@ export interface PendingRoleRequest {
   website?: string;
   // DJ Bypass-specific
   reason?: string;
+  // Trade-specific (businessName and website as for merch)
+  vatNumber?: string;
+  location?: string;
 }
 
 // Artist/Partner types
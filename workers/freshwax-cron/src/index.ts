@@ -20,12 +20,13 @@ const MAX_URLS_PER_SUBMIT = 10000; // IndexNow protocol limit
 // cron expression -> jobs to run (in order). 'indexnow' is special-cased
 // to run in-worker; every other name is POSTed to /api/cron/<name>/.
 const JOBS: Record<string, string[]> = {
-  '0 * * * *': ['cleanup-reservations'],
+  '0 * * * *': ['cleanup-reservations', 'abandoned-carts'],
   '0 */6 * * *': ['retry-payouts', 'send-restock-notifications'],
   // 02:00 daily chain — order matters: backup first, then SEO ping, then emails
   '0 2 * * *': ['backup-d1', 'indexnow', 'review-requests', 'release-preorders', 'notify-release-interest'],
-  '0 3 * * *': ['cleanup-d1'],
+  '0 3 * * *': ['cleanup-d1', 'expire-wallet-credits'],
   '0 4 * * *': ['image-scan'],
+  '0 6 * * *': ['scheduled-payouts'],
   '0 10 * * *': ['verification-reminders'],
   '0 10 * * SUN': ['weekly-digest'],
 };
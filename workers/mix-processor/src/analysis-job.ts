@@ -0,0 +1,42 @@
+// analysis-job.ts - Queue a mix for waveform and loudness analysis
+//
+// Mixes go live as uploaded, but the players want a waveform and the admin a
+// loudness reading, which needs a full decode. So each mix gets a 'mix' job
+// in the release-processor's transcode queue (D1 transcode_jobs — the state
+// machine lives in workers/release-processor/src/transcode-jobs.ts). A
+// transcode runner analyses it and the release-processor writes the result
+// onto the dj-mixes document.
+
+import type { ProcessedMix } from './types';
+
+const MAX_ATTEMPTS = 4;
+
+function sourceFormat(audioKey: string): string | null {
+  const ext = audioKey.split('.').pop()?.toLowerCase();
+  if (ext === 'aif') return 'aiff';
+  return ext === 'mp3' || ext === 'wav' || ext === 'aiff' || ext === 'flac' ? ext : null;
+}
+
+/**
+ * Add (or reset) the analysis job for a processed mix
+ */
+export async function enqueueMixAnalysis(db: D1Database, mix: ProcessedMix, audioKey: string): Promise<void> {
+  await db.prepare(
+    `INSERT INTO transcode_jobs (id, kind, release_id, track_number, title, source_key, source_format, output_prefix,
+       status, attempts, max_attempts, run_after, duration_seconds)
+     VALUES (?, 'mix', ?, 0, ?, ?, ?, ?, 'queued', 0, ?, datetime('now'), ?)
+     ON CONFLICT(id) DO UPDATE SET
+       source_key = excluded.source_key, source_format = excluded.source_format, status = 'queued', attempts = 0,
+       run_after = datetime('now'), lease_id = NULL, lease_expires_at = NULL, last_error = NULL, analysis = NULL,
+       completed_at = NULL, updated_at = datetime('now')`
+  ).bind(
+    `mix:${mix.id}`,
+    mix.id,
+    `${mix.djName} - ${mix.title}`,
+    audioKey,
+    sourceFormat(audioKey),
+    mix.folder_path,
+    MAX_ATTEMPTS,
+    mix.durationSeconds || null
+  ).run();
+}
@@ -1,8 +1,10 @@
 // index.ts - Main entry point for DJ mix processor Worker
-// Processes DJ mix uploads: artwork + audio file
+// Processes DJ mix uploads: artwork + audio file, then queues the audio for
+// waveform and loudness analysis (see ./analysis-job.ts)
 
 import type { Env, MixSubmissionMetadata, ProcessedMix } from './types';
 import { processArtwork } from './image-processor';
+import { enqueueMixAnalysis } from './analysis-job';
 import { createMixInFirebase } from './firebase';
 import { sendProcessingCompleteEmail, sendProcessingFailedEmail } from './email';
 
@@ -81,7 +83,7 @@ async function copyAudioFile(
   audioKey: string,
   mixId: string,
   env: Env
-): Promise<{ audioUrl: string }> {
+): Promise<{ audioUrl: string; outputKey: string }> {
   console.info(`[Audio] Copying audio file: ${audioKey}`);
 
   // Get the audio file
@@ -113,7 +115,7 @@ async function copyAudioFile(
   const audioUrl = `${env.R2_PUBLIC_DOMAIN}/${outputKey}`;
   console.info(`[Audio] Uploaded audio: ${audioUrl} (${audioBuffer.byteLength} bytes)`);
 
-  return { audioUrl };
+  return { audioUrl, outputKey };
 }
 
 /**
@@ -122,7 +124,7 @@ async function copyAudioFile(
 async function processSubmission(
   submissionId: string,
   env: Env
-): Promise<ProcessedMix> {
+): Promise<{ mix: ProcessedMix; audioKey: string }> {
   const { metadata, artworkKey, audioKey } = await parseSubmission(submissionId, env);
   const mixId = generateMixId(metadata.djName, metadata.title);
 
@@ -142,9 +144,11 @@ async function processSubmission(
 
   // Copy audio file
   let audioUrl = '';
+  let storedAudioKey = '';
   if (audioKey) {
     const audioResult = await copyAudioFile(audioKey, mixId, env);
     audioUrl = audioResult.audioUrl;
+    storedAudioKey = audioResult.outputKey;
   } else {
     throw new Error('No audio file found in submission');
   }
@@ -166,7 +170,7 @@ async function processSubmission(
     ? `${hrs}:${mins.toString().padStart(2, '0')}:${secs.toString().padStart(2, '0')}`
     : `${mins}:${secs.toString().padStart(2, '0')}`;
 
-  return {
+  const mix: ProcessedMix = {
     id: mixId,
     title: metadata.title,
     name: metadata.title,
@@ -235,6 +239,8 @@ async function processSubmission(
     folder_path: folderPath,
     r2FolderName: mixId
   };
+
+  return { mix, audioKey: storedAudioKey };
 }
 
 /**
@@ -337,11 +343,20 @@ export default {
         console.info(`[API] Processing mix submission: ${submissionId}`);
 
         // Process the submission
-        const mix = await processSubmission(submissionId, env);
+        const { mix, audioKey } = await processSubmission(submissionId, env);
 
         // Save to Firebase
         await createMixInFirebase(mix, env);
 
+        // Queue the waveform/loudness analysis. The mix is already live, so a
+        // failure here only costs it its waveform.
+        try {
+          await enqueueMixAnalysis(env.DB, mix, audioKey);
+          console.info(`[API] Queued analysis for ${mix.id}`);
+        } catch (error) {
+          console.error(`[API] Could not queue analysis for ${mix.id}:`, error);
+        }
+
         // Send success email
         await sendProcessingCompleteEmail(mix, env);
 
@@ -4,6 +4,9 @@ export interface Env {
   // R2 Bucket
   MIXES_BUCKET: R2Bucket;
 
+  // D1 (shared freshwax-db: the transcode queue the mix's analysis job goes in)
+  DB: D1Database;
+
   // Environment variables
   R2_PUBLIC_DOMAIN: string;
 
@@ -0,0 +1,159 @@
+// Seed a fixture submission into local R2 and process it, so the whole
+// transcode path can be run on one machine:
+//
+//   npm run db:migrate:local                 # once: creates transcode_jobs in local D1
+//   npm run dev                              # wrangler dev on :8787, in another terminal
+//   npm run transcode:fixtures               # this script
+//   TRANSCODE_RUNNER_KEY=... npm run transcode:runner -- --once
+//
+// Synthesises short test-tone masters — a 16-bit/44.1kHz WAV, a 24-bit/48kHz
+// AIFF and, if ffmpeg is installed, a FLAC — plus metadata.json, uploads them
+// with `wrangler r2 object put --local` and POSTs /process.
+//
+// Point .dev.vars at a non-production Firebase project: /process creates a
+// real release document and the runner's results are written onto it.
+
+import { spawnSync } from 'node:child_process';
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+
+const WORKER_URL = (process.env.TRANSCODE_WORKER_URL || 'http://localhost:8787').replace(/\/$/, '');
+const FFMPEG = process.env.FFMPEG_PATH || 'ffmpeg';
+const BUCKET = 'freshwax-releases';
+const SECONDS = Number(process.env.FIXTURE_SECONDS) || 200;
+
+/**
+ * Interleaved sine tone, one frequency per channel
+ */
+function tone(sampleRate, seconds, bitDepth, bigEndian) {
+  const bytesPerSample = bitDepth / 8;
+  const frames = sampleRate * seconds;
+  const data = Buffer.alloc(frames * 2 * bytesPerSample);
+  const max = 2 ** (bitDepth - 1) - 1;
+  for (let i = 0; i < frames; i++) {
+    for (let ch = 0; ch < 2; ch++) {
+      const value = Math.round(Math.sin((2 * Math.PI * (ch ? 660 : 440) * i) / sampleRate) * max * 0.5);
+      const offset = (i * 2 + ch) * bytesPerSample;
+      if (bigEndian) data.writeIntBE(value, offset, bytesPerSample);
+      else data.writeIntLE(value, offset, bytesPerSample);
+    }
+  }
+  return data;
+}
+
+function wav(sampleRate, seconds, bitDepth) {
+  const data = tone(sampleRate, seconds, bitDepth, false);
+  const header = Buffer.alloc(44);
+  header.write('RIFF', 0);
+  header.writeUInt32LE(36 + data.length, 4);
+  header.write('WAVE', 8);
+  header.write('fmt ', 12);
+  header.writeUInt32LE(16, 16);
+  header.writeUInt16LE(1, 20);
+  header.writeUInt16LE(2, 22);
+  header.writeUInt32LE(sampleRate, 24);
+  header.writeUInt32LE(sampleRate * 2 * (bitDepth / 8), 28);
+  header.writeUInt16LE(2 * (bitDepth / 8), 32);
+  header.writeUInt16LE(bitDepth, 34);
+  header.write('data', 36);
+  header.writeUInt32LE(data.length, 40);
+  return Buffer.concat([header, data]);
+}
+
+// 80-bit extended float, as AIFF stores its sample rate
+function extended(value) {
+  const out = Buffer.alloc(10);
+  const exponent = Math.floor(Math.log2(value));
+  out.writeUInt16BE(exponent + 16383, 0);
+  const mantissa = value / 2 ** exponent;
+  const hi = Math.floor(mantissa * 2 ** 31);
+  out.writeUInt32BE(hi, 2);
+  out.writeUInt32BE(0, 6);
+  return out;
+}
+
+function aiff(sampleRate, seconds, bitDepth) {
+  const data = tone(sampleRate, seconds, bitDepth, true);
+  const comm = Buffer.alloc(26);
+  comm.write('COMM', 0);
+  comm.writeUInt32BE(18, 4);
+  comm.writeInt16BE(2, 8);
+  comm.writeUInt32BE(sampleRate * seconds, 10);
+  comm.writeInt16BE(bitDepth, 14);
+  extended(sampleRate).copy(comm, 16);
+  const ssnd = Buffer.alloc(16);
+  ssnd.write('SSND', 0);
+  ssnd.writeUInt32BE(8 + data.length, 4);
+  const form = Buffer.alloc(12);
+  form.write('FORM', 0);
+  form.writeUInt32BE(4 + comm.length + ssnd.length + data.length, 4);
+  form.write('AIFF', 8);
+  return Buffer.concat([form, comm, ssnd, data]);
+}
+
+function put(key, file, contentType) {
+  const result = spawnSync('npx', [
+    'wrangler', 'r2', 'object', 'put', `${BUCKET}/${key}`,
+    '--file', file, '--content-type', contentType, '--local'
+  ], { stdio: 'inherit', shell: process.platform === 'win32' });
+  if (result.status !== 0) throw new Error(`wrangler r2 object put ${key} failed`);
+}
+
+async function main() {
+  const submissionId = `fixture-${Date.now()}`;
+  const workDir = mkdtempSync(path.join(tmpdir(), 'fw-fixtures-'));
+
+  try {
+    const files = [
+      { name: 'track-01.wav', type: 'audio/wav', body: wav(44100, SECONDS, 16), title: 'Fixture Tone (WAV)' },
+      { name: 'track-02.aiff', type: 'audio/aiff', body: aiff(48000, SECONDS, 24), title: 'Fixture Tone (AIFF)' },
+    ];
+
+    const flacPath = path.join(workDir, 'track-03.flac');
+    const flac = spawnSync(FFMPEG, [
+      '-v', 'error', '-f', 'lavfi', '-i', `sine=frequency=880:sample_rate=96000:duration=${SECONDS}`,
+      '-ac', '2', '-sample_fmt', 's32', '-codec:a', 'flac', '-y', flacPath
+    ]);
+    if (flac.status === 0) {
+      files.push({ name: 'track-03.flac', type: 'audio/flac', path: flacPath, title: 'Fixture Tone (FLAC)' });
+    } else {
+      console.warn('[Fixtures] ffmpeg not available, skipping the FLAC fixture');
+    }
+
+    const metadata = {
+      artistName: 'Fixture Artist',
+      email: 'fixtures@freshwax.invalid',
+      releaseName: `Transcode Fixtures ${new Date().toISOString().slice(0, 16)}`,
+      releaseType: 'EP',
+      genre: 'Drum and Bass',
+      submittedAt: new Date().toISOString(),
+      tracks: files.map((f, i) => ({ trackNumber: i + 1, title: f.title }))
+    };
+
+    const metadataPath = path.join(workDir, 'metadata.json');
+    writeFileSync(metadataPath, JSON.stringify(metadata, null, 2));
+    put(`submissions/${submissionId}/metadata.json`, metadataPath, 'application/json');
+
+    for (const file of files) {
+      const filePath = file.path || path.join(workDir, file.name);
+      if (file.body) writeFileSync(filePath, file.body);
+      put(`submissions/${submissionId}/tracks/${file.name}`, filePath, file.type);
+    }
+
+    console.log(`[Fixtures] Processing ${submissionId} via ${WORKER_URL}`);
+    const response = await fetch(`${WORKER_URL}/process`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ submissionId })
+    });
+    console.log(`[Fixtures] ${response.status}`, await response.text());
+  } finally {
+    rmSync(workDir, { recursive: true, force: true });
+  }
+}
+
+main().catch((error) => {
+  console.error('[Fixtures] Failed:', error.message);
+  process.exit(1);
+});
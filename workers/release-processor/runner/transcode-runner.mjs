@@ -0,0 +1,627 @@
+// FreshWax Transcode Runner
+// Works through the release-processor Worker's transcode queue with native
+// ffmpeg: leases a job, downloads the master, makes the outputs the job asks
+// for and uploads them back through the Worker.
+//   - mp3:     320kbps CBR, same DJ-quality settings as scripts/audio-processor.cjs
+//   - flac:    lossless, original sample rate and bit depth
+//   - preview: 192kbps MP3 from the window the Worker picks, faded out
+//   - analysis: waveform peaks and EBU R128 loudness (integrated LUFS, true
+//     peak, loudness range), for every job; DJ mix jobs are only this. Release
+//     tracks also get the features the Worker estimates BPM and key from.
+//   - download jobs: one file a buyer asked for — MP3 (320k), FLAC or AIFF —
+//     with the job's tags and cover art embedded the way Rekordbox and Serato
+//     read them (ID3v2.3 frames in MP3 and AIFF, Vorbis comments in FLAC)
+//
+// The only credential it needs is TRANSCODE_RUNNER_KEY; R2 and Firestore stay
+// behind the Worker. Run as many as you like — leases keep them apart.
+//
+// Usage:
+//   TRANSCODE_RUNNER_KEY=... node runner/transcode-runner.mjs          poll forever
+//   TRANSCODE_RUNNER_KEY=... node runner/transcode-runner.mjs --once   drain the queue, then exit
+//
+// Environment:
+//   TRANSCODE_WORKER_URL   default http://localhost:8787 (wrangler dev)
+//   TRANSCODE_RUNNER_KEY   must match the Worker secret
+//   FFMPEG_PATH / FFPROBE_PATH   binaries, if not on PATH
+//   TRANSCODE_POLL_SECONDS       idle poll interval, default 30
+
+import { spawn } from 'node:child_process';
+import { createWriteStream } from 'node:fs';
+import { mkdtemp, readFile, rm, stat } from 'node:fs/promises';
+import { hostname, tmpdir } from 'node:os';
+import path from 'node:path';
+import { Readable } from 'node:stream';
+import { pipeline } from 'node:stream/promises';
+
+const WORKER_URL = (process.env.TRANSCODE_WORKER_URL || 'http://localhost:8787').replace(/\/$/, '');
+const RUNNER_KEY = process.env.TRANSCODE_RUNNER_KEY || '';
+const FFMPEG = process.env.FFMPEG_PATH || 'ffmpeg';
+const FFPROBE = process.env.FFPROBE_PATH || 'ffprobe';
+const POLL_SECONDS = Number(process.env.TRANSCODE_POLL_SECONDS) || 30;
+const RUNNER_ID = `${hostname()}:${process.pid}`;
+// Waveform: the loudest sample in each of 2048 slices, measured on a 22.05kHz
+// decode in blocks of 256 frames
+const PEAK_BARS = 2048;
+const PEAK_RATE = 22050;
+const PEAK_BLOCK_FRAMES = 256;
+// Tempo and key: a mono 11.025kHz decode. The onset envelope is one value
+// per 128 samples (~86 a second) over up to two minutes from the middle of
+// the track; chroma sums 4096-point spectra over the whole track.
+const FEATURE_RATE = 11025;
+const ONSET_HOP = 128;
+const ONSET_WINDOW_SECONDS = 120;
+const CHROMA_FFT_SIZE = 4096;
+const CHROMA_MIN_HZ = 55;
+const CHROMA_MAX_HZ = 2000;
+// Embedded cover art: JPEG, no wider than this (some CDJs refuse big art)
+const COVER_MAX_WIDTH = 1000;
+const ONCE = process.argv.includes('--once');
+
+if (!RUNNER_KEY) {
+  console.error('[Runner] TRANSCODE_RUNNER_KEY is not set');
+  process.exit(1);
+}
+
+/**
+ * Call the Worker; throws on any non-2xx response
+ */
+async function api(pathname, init = {}) {
+  const response = await fetch(`${WORKER_URL}${pathname}`, {
+    ...init,
+    headers: { 'X-Runner-Key': RUNNER_KEY, ...(init.headers || {}) }
+  });
+  if (!response.ok) {
+    const text = await response.text().catch(() => '');
+    throw new Error(`${init.method || 'GET'} ${pathname} → ${response.status} ${text.slice(0, 300)}`);
+  }
+  return response;
+}
+
+function jobPath(job, action, leaseId) {
+  return `/jobs/${encodeURIComponent(job.id)}/${action}?lease=${encodeURIComponent(leaseId)}`;
+}
+
+/**
+ * Run a binary, resolving with its stdout and stderr; rejects with the tail
+ * of stderr
+ */
+function run(binary, args) {
+  return new Promise((resolve, reject) => {
+    const child = spawn(binary, args);
+    let stdout = '';
+    let stderr = '';
+    child.stdout.on('data', (data) => { stdout += data.toString(); });
+    child.stderr.on('data', (data) => { stderr += data.toString(); });
+    child.on('error', (err) => reject(new Error(`${path.basename(binary)} spawn error: ${err.message}`)));
+    child.on('close', (code) => {
+      if (code === 0) resolve({ stdout, stderr });
+      else reject(new Error(`${path.basename(binary)} failed with code ${code}: ${stderr.slice(-500)}`));
+    });
+  });
+}
+
+/**
+ * Duration, sample rate, bit depth and channels of a local file
+ */
+async function probe(filePath) {
+  const { stdout: out } = await run(FFPROBE, [
+    '-v', 'error',
+    '-select_streams', 'a:0',
+    '-show_entries', 'stream=sample_rate,channels,bits_per_raw_sample,bits_per_sample:format=duration',
+    '-of', 'json',
+    filePath
+  ]);
+  const data = JSON.parse(out);
+  const stream = data.streams?.[0] || {};
+  const bitDepth = Number(stream.bits_per_raw_sample) || Number(stream.bits_per_sample) || undefined;
+  return {
+    durationSeconds: Number(data.format?.duration) || undefined,
+    sampleRate: Number(stream.sample_rate) || undefined,
+    bitDepth,
+    channels: Number(stream.channels) || undefined
+  };
+}
+
+// Note: Do NOT use -q:a with -b:a as -q:a forces VBR mode
+const MP3_CODEC_ARGS = [
+  '-codec:a', 'libmp3lame',
+  '-b:a', '320k',           // Constant bitrate 320kbps (CBR)
+  '-joint_stereo', '0',     // Full stereo (better quality at 320k)
+  '-cutoff', '20500',       // Full frequency range (20.5kHz) for 320k
+  '-reservoir', '0',        // Disable bit reservoir for strict CBR
+  '-write_xing', '1',       // Write Xing/LAME header for compatibility
+];
+
+function outputArgs(kind, input, output, preview) {
+  switch (kind) {
+    case 'mp3':
+      return [
+        '-i', input,
+        '-map', '0:a:0',
+        ...MP3_CODEC_ARGS,
+        '-id3v2_version', '3',    // ID3v2.3 for DJ software compatibility
+        '-y', output
+      ];
+    case 'flac':
+      return [
+        '-i', input,
+        '-map', '0:a:0',
+        '-codec:a', 'flac',
+        '-compression_level', '8',
+        '-y', output
+      ];
+    case 'preview': {
+      const fadeStart = Math.max(0, preview.length - 5);
+      return [
+        '-ss', String(preview.start),
+        '-i', input,
+        '-t', String(preview.length),
+        '-map', '0:a:0',
+        '-codec:a', 'libmp3lame',
+        '-b:a', '192k',           // 192kbps for previews
+        '-ar', '44100',
+        '-af', `afade=t=out:st=${fadeStart}:d=5`,
+        '-y', output
+      ];
+    }
+    default:
+      throw new Error(`Unknown output: ${kind}`);
+  }
+}
+
+const EXTENSIONS = { mp3: 'mp3', flac: 'flac', aiff: 'aiff', preview: 'mp3' };
+
+/**
+ * -metadata arguments for a download's tags. ffmpeg writes the generic names
+ * (artist, publisher, track…) as the matching ID3 frame or Vorbis comment;
+ * four-letter ID3 frame ids (TBPM, TKEY, TSRC, TPE4) are written as given,
+ * and anything else lands in a TXXX frame.
+ */
+function tagArgs(format, tags) {
+  const track = tags.trackNumber ? `${tags.trackNumber}${tags.trackTotal ? `/${tags.trackTotal}` : ''}` : null;
+  const fields = format === 'flac'
+    ? {
+        ARTIST: tags.artist,
+        TITLE: tags.title,
+        ALBUM: tags.album,
+        ALBUMARTIST: tags.albumArtist,
+        LABEL: tags.label,
+        CATALOGNUMBER: tags.catalogNumber,
+        ISRC: tags.isrc,
+        BPM: tags.bpm,
+        INITIALKEY: tags.key,
+        REMIXER: tags.remixer,
+        TRACKNUMBER: tags.trackNumber,
+        TRACKTOTAL: tags.trackTotal,
+        DATE: tags.year,
+        GENRE: tags.genre
+      }
+    : {
+        artist: tags.artist,
+        title: tags.title,
+        album: tags.album,
+        album_artist: tags.albumArtist,
+        publisher: tags.label,
+        CATALOGNUMBER: tags.catalogNumber,
+        TSRC: tags.isrc,
+        TBPM: tags.bpm,
+        TKEY: tags.key,
+        TPE4: tags.remixer,
+        track,
+        date: tags.year,
+        genre: tags.genre
+      };
+  return Object.entries(fields)
+    .filter(([, value]) => value !== null && value !== undefined && value !== '')
+    .flatMap(([name, value]) => ['-metadata', `${name}=${value}`]);
+}
+
+/**
+ * ffmpeg arguments for a tagged download. The master's own metadata is
+ * dropped; the cover, when there is one, goes in as a front-cover picture.
+ */
+function downloadArgs(job, input, cover, output, info) {
+  const format = job.format;
+  const audio = {
+    mp3: job.sourceFormat === 'mp3' ? ['-codec:a', 'copy'] : MP3_CODEC_ARGS,
+    flac: job.sourceFormat === 'flac' ? ['-codec:a', 'copy'] : ['-codec:a', 'flac', '-compression_level', '8'],
+    aiff: ['-codec:a', (info.bitDepth || 16) > 16 ? 'pcm_s24be' : 'pcm_s16be']
+  }[format];
+  if (!audio) throw new Error(`Unknown download format: ${format}`);
+
+  const picture = cover
+    ? [
+        '-map', '1:v:0',
+        '-codec:v', 'mjpeg',
+        '-filter:v', `scale=w='min(${COVER_MAX_WIDTH},iw)':h=-2`,
+        '-disposition:v:0', 'attached_pic',
+        '-metadata:s:v', 'title=Album cover',
+        '-metadata:s:v', 'comment=Cover (front)'
+      ]
+    : [];
+  const container = {
+    mp3: ['-id3v2_version', '3'],
+    flac: [],
+    aiff: ['-write_id3v2', '1', '-id3v2_version', '3']
+  }[format];
+
+  return [
+    '-i', input,
+    ...(cover ? ['-i', cover] : []),
+    '-map', '0:a:0',
+    ...picture,
+    '-map_metadata', '-1',
+    ...audio,
+    ...tagArgs(format, job.tags || {}),
+    ...container,
+    '-y', output
+  ];
+}
+
+/**
+ * Waveform peaks, 0-255. Keeps the loudest sample of every small block as the
+ * PCM streams out of ffmpeg, then pools the blocks into PEAK_BARS bars, so
+ * the duration doesn't have to be known up front.
+ */
+function peaks(filePath) {
+  return new Promise((resolve, reject) => {
+    const child = spawn(FFMPEG, [
+      '-v', 'error',
+      '-i', filePath,
+      '-map', '0:a:0',
+      '-ac', '2',
+      '-ar', String(PEAK_RATE),
+      '-f', 's16le',
+      '-acodec', 'pcm_s16le',
+      'pipe:1'
+    ]);
+    const blocks = [];
+    let blockMax = 0;
+    let blockSamples = 0;
+    let carry = null;            // half a sample left over between chunks
+    let stderr = '';
+
+    child.stdout.on('data', (chunk) => {
+      const data = carry ? Buffer.concat([carry, chunk]) : chunk;
+      const usable = data.length - (data.length % 2);
+      for (let i = 0; i < usable; i += 2) {
+        const value = Math.abs(data.readInt16LE(i));
+        if (value > blockMax) blockMax = value;
+        if (++blockSamples === PEAK_BLOCK_FRAMES * 2) {
+          blocks.push(blockMax);
+          blockMax = 0;
+          blockSamples = 0;
+        }
+      }
+      carry = usable < data.length ? data.subarray(usable) : null;
+    });
+    child.stderr.on('data', (data) => { stderr += data.toString(); });
+    child.on('error', (err) => reject(new Error(`ffmpeg spawn error: ${err.message}`)));
+    child.on('close', (code) => {
+      if (code !== 0) {
+        reject(new Error(`ffmpeg peaks failed with code ${code}: ${stderr.slice(-500)}`));
+        return;
+      }
+      if (blockSamples) blocks.push(blockMax);
+
+      const bars = Math.min(PEAK_BARS, blocks.length);
+      const out = [];
+      for (let i = 0; i < bars; i++) {
+        const from = Math.floor((i * blocks.length) / bars);
+        const to = Math.max(from + 1, Math.floor(((i + 1) * blocks.length) / bars));
+        let max = 0;
+        for (let j = from; j < to; j++) max = Math.max(max, blocks[j]);
+        out.push(Math.round((Math.min(max, 32767) / 32767) * 255));
+      }
+      resolve(out);
+    });
+  });
+}
+
+/**
+ * Integrated loudness, true peak and loudness range from ffmpeg's ebur128
+ * summary. A reading ffmpeg couldn't make (-inf on silence) comes back null.
+ */
+async function loudness(filePath) {
+  const { stderr } = await run(FFMPEG, [
+    '-hide_banner', '-nostats',
+    '-i', filePath,
+    '-map', '0:a:0',
+    '-af', 'ebur128=peak=true',
+    '-f', 'null', '-'
+  ]);
+  const at = stderr.lastIndexOf('Summary:');
+  const summary = at >= 0 ? stderr.slice(at) : '';
+  const value = (pattern) => {
+    const match = summary.match(pattern);
+    return match && match[1] !== '-inf' ? Number(match[1]) : null;
+  };
+  return {
+    integratedLufs: value(/I:\s+(-?[\d.]+|-inf) LUFS/),
+    truePeakDbtp: value(/True peak:\s+Peak:\s+(-?[\d.]+|-inf) dBFS/),
+    loudnessRange: value(/LRA:\s+(-?[\d.]+|-inf) LU\b/)
+  };
+}
+
+/**
+ * In-place radix-2 FFT of a real block (imaginary part starts at zero)
+ */
+function fft(re, im) {
+  const n = re.length;
+  for (let i = 1, j = 0; i < n; i++) {
+    let bit = n >> 1;
+    for (; j & bit; bit >>= 1) j ^= bit;
+    j ^= bit;
+    if (i < j) {
+      [re[i], re[j]] = [re[j], re[i]];
+      [im[i], im[j]] = [im[j], im[i]];
+    }
+  }
+  for (let size = 2; size <= n; size <<= 1) {
+    const step = (-2 * Math.PI) / size;
+    for (let start = 0; start < n; start += size) {
+      for (let k = 0; k < size / 2; k++) {
+        const cos = Math.cos(step * k);
+        const sin = Math.sin(step * k);
+        const a = start + k;
+        const b = a + size / 2;
+        const tRe = re[b] * cos - im[b] * sin;
+        const tIm = re[b] * sin + im[b] * cos;
+        re[b] = re[a] - tRe;
+        im[b] = im[a] - tIm;
+        re[a] += tRe;
+        im[a] += tIm;
+      }
+    }
+  }
+}
+
+/**
+ * What the Worker estimates tempo and key from (see src/tempo-key.ts): an
+ * onset-strength envelope — the rise in high-passed energy from one hop to
+ * the next — and a 12-bin chroma vector, both scaled 0-1000
+ */
+function musicalFeatures(filePath, durationSeconds) {
+  const windowStart = durationSeconds > ONSET_WINDOW_SECONDS ? (durationSeconds - ONSET_WINDOW_SECONDS) / 2 : 0;
+  const firstHop = Math.floor((windowStart * FEATURE_RATE) / ONSET_HOP);
+  const lastHop = firstHop + Math.ceil((ONSET_WINDOW_SECONDS * FEATURE_RATE) / ONSET_HOP);
+
+  // Spectrum bin → pitch class (C = 0), or -1 outside the range
+  const pitchClass = new Int8Array(CHROMA_FFT_SIZE / 2).fill(-1);
+  for (let bin = 1; bin < CHROMA_FFT_SIZE / 2; bin++) {
+    const hz = (bin * FEATURE_RATE) / CHROMA_FFT_SIZE;
+    if (hz >= CHROMA_MIN_HZ && hz <= CHROMA_MAX_HZ) {
+      pitchClass[bin] = ((Math.round(12 * Math.log2(hz / 440) + 69) % 12) + 12) % 12;
+    }
+  }
+  const hann = Float64Array.from({ length: CHROMA_FFT_SIZE }, (_, i) => 0.5 - 0.5 * Math.cos((2 * Math.PI * i) / (CHROMA_FFT_SIZE - 1)));
+
+  return new Promise((resolve, reject) => {
+    const child = spawn(FFMPEG, [
+      '-v', 'error',
+      '-i', filePath,
+      '-map', '0:a:0',
+      '-ac', '1',
+      '-ar', String(FEATURE_RATE),
+      '-f', 's16le',
+      '-acodec', 'pcm_s16le',
+      'pipe:1'
+    ]);
+    const chroma = new Float64Array(12);
+    const block = new Float64Array(CHROMA_FFT_SIZE);
+    const im = new Float64Array(CHROMA_FFT_SIZE);
+    let blockFill = 0;
+    const onsets = [];
+    let hop = 0;
+    let hopFill = 0;
+    let hopEnergy = 0;
+    let lastLogEnergy = null;
+    let previous = 0;
+    let carry = null;
+    let stderr = '';
+
+    child.stdout.on('data', (chunk) => {
+      const data = carry ? Buffer.concat([carry, chunk]) : chunk;
+      const usable = data.length - (data.length % 2);
+      for (let i = 0; i < usable; i += 2) {
+        const sample = data.readInt16LE(i) / 32768;
+
+        if (hop >= firstHop && hop < lastHop) {
+          const diff = sample - previous;
+          hopEnergy += diff * diff;
+        }
+        previous = sample;
+        if (++hopFill === ONSET_HOP) {
+          if (hop >= firstHop && hop < lastHop) {
+            const logEnergy = Math.log(hopEnergy + 1e-9);
+            if (lastLogEnergy !== null) onsets.push(Math.max(0, logEnergy - lastLogEnergy));
+            lastLogEnergy = logEnergy;
+          }
+          hop++;
+          hopFill = 0;
+          hopEnergy = 0;
+        }
+
+        block[blockFill++] = sample;
+        if (blockFill === CHROMA_FFT_SIZE) {
+          for (let j = 0; j < CHROMA_FFT_SIZE; j++) block[j] *= hann[j];
+          im.fill(0);
+          fft(block, im);
+          for (let bin = 1; bin < CHROMA_FFT_SIZE / 2; bin++) {
+            if (pitchClass[bin] >= 0) chroma[pitchClass[bin]] += Math.hypot(block[bin], im[bin]);
+          }
+          blockFill = 0;
+        }
+      }
+      carry = usable < data.length ? data.subarray(usable) : null;
+    });
+    child.stderr.on('data', (data) => { stderr += data.toString(); });
+    child.on('error', (err) => reject(new Error(`ffmpeg spawn error: ${err.message}`)));
+    child.on('close', (code) => {
+      if (code !== 0) {
+        reject(new Error(`ffmpeg features failed with code ${code}: ${stderr.slice(-500)}`));
+        return;
+      }
+      const scale = (values, top) => values.map((v) => (top > 0 ? Math.round((Math.min(v, top) / top) * 1000) : 0));
+      // The 99th percentile rather than the max, so one huge hit doesn't flatten the rest
+      const sorted = onsets.slice().sort((a, b) => a - b);
+      const onsetTop = sorted[Math.floor(sorted.length * 0.99)] || 0;
+      resolve({
+        onsetRate: FEATURE_RATE / ONSET_HOP,
+        onsets: scale(onsets, onsetTop),
+        chroma: scale(Array.from(chroma), Math.max(...chroma))
+      });
+    });
+  });
+}
+
+async function analyse(filePath, job, durationSeconds) {
+  const waveform = await peaks(filePath);
+  const analysis = { peaks: waveform, ...(await loudness(filePath)) };
+  if (job.kind === 'mix') return analysis;
+
+  // Tempo and key are a bonus: without them the track still gets its waveform
+  const features = await musicalFeatures(filePath, durationSeconds || 0).catch((error) => {
+    console.warn(`[Runner] Tempo/key features failed: ${error.message}`);
+    return {};
+  });
+  return { ...analysis, ...features };
+}
+
+/**
+ * Make a download job's file: fetch the cover if the tags name one, encode
+ * and tag in one pass, upload
+ */
+async function makeDownload(job, leaseId, input, info, workDir) {
+  let cover = null;
+  if (job.tags?.artworkKey) {
+    // A download without its cover is still worth having
+    try {
+      const artwork = await api(jobPath(job, 'artwork', leaseId));
+      cover = path.join(workDir, 'cover');
+      await pipeline(Readable.fromWeb(artwork.body), createWriteStream(cover));
+    } catch (error) {
+      console.warn(`[Runner] No cover art for ${job.id}: ${error.message}`);
+      cover = null;
+    }
+  }
+
+  const output = path.join(workDir, `download.${EXTENSIONS[job.format]}`);
+  try {
+    await run(FFMPEG, downloadArgs(job, input, cover, output, info));
+  } catch (error) {
+    if (!cover) throw error;
+    // Artwork ffmpeg can't read shouldn't cost the buyer their download
+    console.warn(`[Runner] Embedding the cover failed, retrying without it: ${error.message}`);
+    await run(FFMPEG, downloadArgs(job, input, null, output, info));
+  }
+  const body = await readFile(output);
+  if (body.length === 0) throw new Error(`${job.format} output is empty`);
+
+  await api(jobPath(job, `output/${job.format}`, leaseId), { method: 'PUT', body });
+  console.log(`[Runner] Uploaded ${job.format} download (${(body.length / 1024 / 1024).toFixed(2)} MB)`);
+}
+
+/**
+ * Transcode one leased job end to end
+ */
+async function processJob(lease) {
+  const { job, outputs, preview } = lease;
+  const leaseId = job.leaseId;
+  const workDir = await mkdtemp(path.join(tmpdir(), 'fw-transcode-'));
+
+  try {
+    const input = path.join(workDir, `source${path.extname(job.sourceKey) || '.wav'}`);
+    const source = await api(jobPath(job, 'source', leaseId));
+    await pipeline(Readable.fromWeb(source.body), createWriteStream(input));
+    console.log(`[Runner] Downloaded ${job.sourceKey} (${((await stat(input)).size / 1024 / 1024).toFixed(2)} MB)`);
+
+    const info = await probe(input);
+
+    if (job.kind === 'download') {
+      await makeDownload(job, leaseId, input, info, workDir);
+      await api(jobPath(job, 'complete', leaseId), {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(info)
+      });
+      console.log(`[Runner] Done: ${job.id}`);
+      return;
+    }
+
+    for (const kind of outputs) {
+      const output = path.join(workDir, `${kind}.${EXTENSIONS[kind]}`);
+      await run(FFMPEG, outputArgs(kind, input, output, preview));
+      const body = await readFile(output);
+      if (body.length === 0) throw new Error(`${kind} output is empty`);
+
+      await api(jobPath(job, `output/${kind}`, leaseId), { method: 'PUT', body });
+      console.log(`[Runner] Uploaded ${kind} (${(body.length / 1024 / 1024).toFixed(2)} MB)`);
+    }
+
+    // A track still completes without its waveform; for a mix it's the job
+    const analysis = await analyse(input, job, info.durationSeconds).catch((error) => {
+      if (job.kind === 'mix') throw error;
+      console.warn(`[Runner] Analysis failed, completing without a waveform: ${error.message}`);
+      return undefined;
+    });
+    if (analysis) {
+      console.log(`[Runner] Analysed: ${analysis.integratedLufs ?? '?'} LUFS, ${analysis.truePeakDbtp ?? '?'} dBTP`);
+    }
+
+    await api(jobPath(job, 'complete', leaseId), {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ ...info, analysis })
+    });
+    console.log(`[Runner] Done: ${job.id}`);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    console.error(`[Runner] ${job.id} failed: ${message}`);
+    await api(jobPath(job, 'fail', leaseId), {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ error: message })
+    }).catch((e) => console.error('[Runner] Could not report failure (lease will expire):', e.message));
+  } finally {
+    await rm(workDir, { recursive: true, force: true });
+  }
+}
+
+async function leaseNext() {
+  const response = await api('/jobs/lease', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ runnerId: RUNNER_ID })
+  });
+  const data = await response.json();
+  return data.job ? data : null;
+}
+
+async function main() {
+  console.log(`[Runner] ${RUNNER_ID} → ${WORKER_URL}${ONCE ? ' (once)' : ''}`);
+
+  for (;;) {
+    let lease = null;
+    try {
+      lease = await leaseNext();
+    } catch (error) {
+      console.error('[Runner] Lease failed:', error.message);
+      if (ONCE) process.exit(1);
+    }
+
+    if (lease) {
+      console.log(`[Runner] Job ${lease.job.id} "${lease.job.title}" (attempt ${lease.job.attempts}/${lease.job.maxAttempts})`);
+      await processJob(lease);
+      continue;
+    }
+
+    if (ONCE) {
+      console.log('[Runner] Queue empty');
+      return;
+    }
+    await new Promise((resolve) => setTimeout(resolve, POLL_SECONDS * 1000));
+  }
+}
+
+main();
@@ -0,0 +1,199 @@
+// audio-info.ts - Read duration, sample rate, bit depth and channels from the
+// header of an audio file, without decoding it.
+//
+// A Worker can't run ffprobe, and masters are too big to load whole, so this
+// reads only the first few hundred KB (an R2 range read) plus the object's
+// total size. WAV and AIFF declare their sample data size, FLAC declares its
+// total sample count, and MP3 is worked out from its Xing/Info frame count or,
+// failing that, its constant bitrate.
+
+export type AudioFormat = 'wav' | 'aiff' | 'flac' | 'mp3';
+
+export interface AudioInfo {
+  format: AudioFormat;
+  sampleRate: number;
+  channels: number;
+  bitDepth: number | null;       // null for MP3
+  durationSeconds: number;
+}
+
+// How much of the file to fetch before probing — enough to get past large
+// embedded artwork or BWF/iXML chunks before the audio data starts
+export const PROBE_BYTES = 512 * 1024;
+
+function ascii(bytes: Uint8Array, offset: number, length: number): string {
+  let out = '';
+  for (let i = offset; i < offset + length && i < bytes.length; i++) out += String.fromCharCode(bytes[i]!);
+  return out;
+}
+
+/**
+ * 80-bit IEEE 754 extended precision float, as used for the AIFF sample rate
+ */
+function readExtended(view: DataView, offset: number): number {
+  const exponent = view.getUint16(offset) & 0x7fff;
+  const hi = view.getUint32(offset + 2);
+  const lo = view.getUint32(offset + 6);
+  if (exponent === 0 && hi === 0 && lo === 0) return 0;
+  return (hi * 2 ** 32 + lo) * 2 ** (exponent - 16383 - 63);
+}
+
+function round3(n: number): number {
+  return Math.round(n * 1000) / 1000;
+}
+
+function probeWav(bytes: Uint8Array, view: DataView, totalSize: number): AudioInfo | null {
+  const isRf64 = ascii(bytes, 0, 4) === 'RF64';
+  let sampleRate = 0;
+  let channels = 0;
+  let bitDepth = 0;
+  let byteRate = 0;
+  let rf64DataSize = 0;
+
+  let offset = 12;
+  while (offset + 8 <= bytes.length) {
+    const id = ascii(bytes, offset, 4);
+    const size = view.getUint32(offset + 4, true);
+    const body = offset + 8;
+
+    if (id === 'ds64' && body + 16 <= bytes.length) {
+      rf64DataSize = view.getUint32(body + 8, true) + view.getUint32(body + 12, true) * 2 ** 32;
+    } else if (id === 'fmt ' && body + 16 <= bytes.length) {
+      channels = view.getUint16(body + 2, true);
+      sampleRate = view.getUint32(body + 4, true);
+      byteRate = view.getUint32(body + 8, true);
+      bitDepth = view.getUint16(body + 14, true);
+    } else if (id === 'data') {
+      if (!byteRate) return null;
+      // Streamed or RF64 files don't fill in the data size; the rest of the
+      // file is audio
+      const declared = isRf64 && rf64DataSize ? rf64DataSize : size;
+      const available = totalSize - body;
+      const dataSize = declared === 0 || declared === 0xffffffff || declared > available ? available : declared;
+      return { format: 'wav', sampleRate, channels, bitDepth: bitDepth || null, durationSeconds: round3(dataSize / byteRate) };
+    }
+
+    offset = body + size + (size % 2);
+  }
+  return null;
+}
+
+function probeAiff(bytes: Uint8Array, view: DataView): AudioInfo | null {
+  let offset = 12;
+  while (offset + 8 <= bytes.length) {
+    const id = ascii(bytes, offset, 4);
+    const size = view.getUint32(offset + 4);
+    const body = offset + 8;
+
+    if (id === 'COMM' && body + 18 <= bytes.length) {
+      const channels = view.getInt16(body);
+      const frames = view.getUint32(body + 2);
+      const bitDepth = view.getInt16(body + 6);
+      const sampleRate = readExtended(view, body + 8);
+      if (!sampleRate) return null;
+      return { format: 'aiff', sampleRate: Math.round(sampleRate), channels, bitDepth, durationSeconds: round3(frames / sampleRate) };
+    }
+
+    offset = body + size + (size % 2);
+  }
+  return null;
+}
+
+// Tagged FLAC and MP3 files can start with an ID3v2 tag; returns where the
+// audio stream itself begins
+function skipId3(bytes: Uint8Array): number {
+  if (ascii(bytes, 0, 3) !== 'ID3' || bytes.length < 10) return 0;
+  const size = ((bytes[6]! & 0x7f) << 21) | ((bytes[7]! & 0x7f) << 14) | ((bytes[8]! & 0x7f) << 7) | (bytes[9]! & 0x7f);
+  const footer = bytes[5]! & 0x10 ? 10 : 0;
+  return 10 + size + footer;
+}
+
+function probeFlac(bytes: Uint8Array, view: DataView, start: number): AudioInfo | null {
+  // The first metadata block is always STREAMINFO
+  const block = start + 4;
+  if (block + 4 + 18 > bytes.length || (bytes[block]! & 0x7f) !== 0) return null;
+  const info = block + 4;
+
+  const packed = view.getUint32(info + 10);
+  const sampleRate = packed >>> 12;
+  const channels = ((packed >>> 9) & 0x7) + 1;
+  const bitDepth = ((packed >>> 4) & 0x1f) + 1;
+  const totalSamples = (packed & 0xf) * 2 ** 32 + view.getUint32(info + 14);
+  if (!sampleRate) return null;
+
+  return { format: 'flac', sampleRate, channels, bitDepth, durationSeconds: round3(totalSamples / sampleRate) };
+}
+
+const MP3_BITRATES: Record<string, number[]> = {
+  // kbps by bitrate index, for MPEG-1 and MPEG-2/2.5 Layer III
+  v1: [0, 32, 40, 48, 56, 64, 80, 96, 112, 128, 160, 192, 224, 256, 320],
+  v2: [0, 8, 16, 24, 32, 40, 48, 56, 64, 80, 96, 112, 128, 144, 160],
+};
+const MP3_SAMPLE_RATES: Record<number, number[]> = {
+  3: [44100, 48000, 32000],        // MPEG-1
+  2: [22050, 24000, 16000],        // MPEG-2
+  0: [11025, 12000, 8000],         // MPEG-2.5
+};
+
+function probeMp3(bytes: Uint8Array, view: DataView, start: number, totalSize: number): AudioInfo | null {
+  for (let offset = start; offset + 4 <= bytes.length; offset++) {
+    if (bytes[offset] !== 0xff || (bytes[offset + 1]! & 0xe0) !== 0xe0) continue;
+
+    const header = view.getUint32(offset);
+    const version = (header >>> 19) & 0x3;
+    const layer = (header >>> 17) & 0x3;
+    const bitrateIndex = (header >>> 12) & 0xf;
+    const rateIndex = (header >>> 10) & 0x3;
+    const channelMode = (header >>> 6) & 0x3;
+    if (version === 1 || layer !== 1 || bitrateIndex === 0 || bitrateIndex === 15 || rateIndex === 3) continue;
+
+    const sampleRate = MP3_SAMPLE_RATES[version]![rateIndex]!;
+    const bitrate = (version === 3 ? MP3_BITRATES.v1 : MP3_BITRATES.v2)![bitrateIndex]! * 1000;
+    const channels = channelMode === 3 ? 1 : 2;
+    const samplesPerFrame = version === 3 ? 1152 : 576;
+
+    // A Xing/Info frame (written by LAME) carries the exact frame count
+    const sideInfo = version === 3 ? (channels === 1 ? 17 : 32) : (channels === 1 ? 9 : 17);
+    const xing = offset + 4 + sideInfo;
+    const tag = ascii(bytes, xing, 4);
+    if ((tag === 'Xing' || tag === 'Info') && xing + 12 <= bytes.length && view.getUint32(xing + 4) & 0x1) {
+      const frames = view.getUint32(xing + 8);
+      return { format: 'mp3', sampleRate, channels, bitDepth: null, durationSeconds: round3((frames * samplesPerFrame) / sampleRate) };
+    }
+
+    return { format: 'mp3', sampleRate, channels, bitDepth: null, durationSeconds: round3(((totalSize - offset) * 8) / bitrate) };
+  }
+  return null;
+}
+
+/**
+ * Probe an audio file from its first bytes. `totalSize` is the size of the
+ * whole file, used where the header doesn't say how long the audio is.
+ * Returns null when the format isn't recognised or the header is damaged.
+ */
+export function probeAudio(header: Uint8Array, totalSize: number): AudioInfo | null {
+  if (header.length < 12) return null;
+  const view = new DataView(header.buffer, header.byteOffset, header.byteLength);
+
+  try {
+    const magic = ascii(header, 0, 4);
+    if ((magic === 'RIFF' || magic === 'RF64') && ascii(header, 8, 4) === 'WAVE') return probeWav(header, view, totalSize);
+    if (magic === 'FORM' && /^AIF[FC]$/.test(ascii(header, 8, 4))) return probeAiff(header, view);
+
+    const start = skipId3(header);
+    if (ascii(header, start, 4) === 'fLaC') return probeFlac(header, view, start);
+    return probeMp3(header, view, start, totalSize);
+  } catch (error) {
+    // A truncated header reads past the end of the view
+    console.warn('[AudioInfo] Could not parse header:', error);
+    return null;
+  }
+}
+
+/**
+ * "M:SS", the format track durations are stored in
+ */
+export function formatDuration(seconds: number): string {
+  const total = Math.round(seconds);
+  return `${Math.floor(total / 60)}:${String(total % 60).padStart(2, '0')}`;
+}
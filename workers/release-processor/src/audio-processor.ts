@@ -1,153 +1,28 @@
-// audio-processor.ts - Audio transcoding using ffmpeg-wasm
-// Handles WAV<->MP3 conversion and 60-second preview clips
+// audio-processor.ts - Stage uploaded masters and queue them for transcoding
+//
+// ffmpeg can't run in a Worker (ffmpeg-wasm needs Web Workers, and a 70MB
+// master doesn't fit in 128MB alongside it), so transcoding is done by a
+// runner with native ffmpeg working through the queue in ./transcode-jobs.ts.
+// What happens here is everything that doesn't need a decoder: move the
+// master out of submissions/ (which is deleted once the release is created)
+// and read its real duration and sample rate from the header. The job itself
+// is queued once the release document exists for it to update.
 
-import { FFmpeg } from '@ffmpeg/ffmpeg';
-import { fetchFile } from '@ffmpeg/util';
 import type { Env, ProcessedTrack, TrackMetadata } from './types';
+import { PROBE_BYTES, probeAudio, formatDuration, type AudioFormat, type AudioInfo } from './audio-info';
+import type { NewTranscodeJob } from './transcode-jobs';
 
-let ffmpegInstance: FFmpeg | null = null;
-
-/**
- * Get or create FFmpeg instance (singleton per request)
- */
-async function getFFmpeg(): Promise<FFmpeg> {
-  if (!ffmpegInstance) {
-    ffmpegInstance = new FFmpeg();
-
-    // Configure logging
-    ffmpegInstance.on('log', ({ message }) => {
-      console.info(`[FFmpeg] ${message}`);
-    });
-
-    ffmpegInstance.on('progress', ({ progress }) => {
-      console.info(`[FFmpeg] Progress: ${Math.round(progress * 100)}%`);
-    });
-
-    console.info('[FFmpeg] Loading...');
-    await ffmpegInstance.load();
-    console.info('[FFmpeg] Loaded successfully');
-  }
-  return ffmpegInstance;
-}
-
-/**
- * Clean up FFmpeg instance
- */
-export function terminateFFmpeg(): void {
-  if (ffmpegInstance) {
-    ffmpegInstance.terminate();
-    ffmpegInstance = null;
-    console.info('[FFmpeg] Terminated');
-  }
-}
-
-/**
- * Get audio duration in seconds using FFmpeg
- */
-async function getAudioDuration(ffmpeg: FFmpeg, inputFile: string): Promise<number> {
-  // FFmpeg doesn't directly return duration, so we estimate based on file processing
-  // For now, return 0 and let the client calculate from audio element
-  return 0;
-}
-
-/**
- * Convert WAV to MP3 (320kbps DJ quality)
- * Settings optimized for professional DJ/radio use:
- * - CBR 320kbps for CDJ/DJ software compatibility
- * - Highest quality LAME algorithm (-q:a 0)
- * - Full stereo mode for maximum quality at high bitrates
- * - Preserves original sample rate (44.1/48kHz)
- */
-async function convertWavToMp3(ffmpeg: FFmpeg, inputData: Uint8Array): Promise<Uint8Array> {
-  console.info('[Audio] Converting WAV to 320kbps MP3 (DJ quality)...');
-
-  await ffmpeg.writeFile('input.wav', inputData);
-
-  await ffmpeg.exec([
-    '-i', 'input.wav',
-    '-codec:a', 'libmp3lame',
-    '-b:a', '320k',           // Constant bitrate 320kbps
-    '-q:a', '0',              // Highest quality algorithm
-    '-joint_stereo', '0',     // Full stereo (better at 320k)
-    '-cutoff', '20500',       // Standard high-frequency cutoff for 320k
-    '-y',
-    'output.mp3'
-  ]);
-
-  const output = await ffmpeg.readFile('output.mp3');
-
-  // Cleanup
-  await ffmpeg.deleteFile('input.wav');
-  await ffmpeg.deleteFile('output.mp3');
-
-  console.info(`[Audio] WAV to MP3 complete: ${output.length} bytes (320kbps DJ quality)`);
-  return output as Uint8Array;
-}
-
-/**
- * Convert MP3 to WAV (for HQ downloads)
- */
-async function convertMp3ToWav(ffmpeg: FFmpeg, inputData: Uint8Array): Promise<Uint8Array> {
-  console.info('[Audio] Converting MP3 to WAV...');
-
-  await ffmpeg.writeFile('input.mp3', inputData);
-
-  await ffmpeg.exec([
-    '-i', 'input.mp3',
-    '-codec:a', 'pcm_s16le',
-    '-ar', '44100',
-    '-y',
-    'output.wav'
-  ]);
-
-  const output = await ffmpeg.readFile('output.wav');
-
-  // Cleanup
-  await ffmpeg.deleteFile('input.mp3');
-  await ffmpeg.deleteFile('output.wav');
-
-  console.info(`[Audio] MP3 to WAV complete: ${output.length} bytes`);
-  return output as Uint8Array;
-}
-
-/**
- * Create 60-second preview clip with fade out
- * Starts at 30s mark if track is long enough, otherwise from start
- */
-async function createPreviewClip(ffmpeg: FFmpeg, inputData: Uint8Array, inputFormat: 'mp3' | 'wav'): Promise<Uint8Array> {
-  console.info('[Audio] Creating 60-second preview clip...');
-
-  const inputFile = `input.${inputFormat}`;
-  await ffmpeg.writeFile(inputFile, inputData);
-
-  // Try to start at 30 seconds for variety, fall back to 0 if track is short
-  // The -ss flag will be ignored if the track is shorter than 30s
-  await ffmpeg.exec([
-    '-i', inputFile,
-    '-ss', '30',           // Start at 30 seconds (or 0 if shorter)
-    '-t', '60',            // Duration 60 seconds
-    '-codec:a', 'libmp3lame',
-    '-b:a', '192k',        // Lower bitrate for previews
-    '-ar', '44100',
-    '-af', 'afade=t=out:st=55:d=5',  // Fade out last 5 seconds
-    '-y',
-    'preview.mp3'
-  ]);
-
-  const output = await ffmpeg.readFile('preview.mp3');
-
-  // Cleanup
-  await ffmpeg.deleteFile(inputFile);
-  await ffmpeg.deleteFile('preview.mp3');
-
-  console.info(`[Audio] Preview clip complete: ${output.length} bytes`);
-  return output as Uint8Array;
-}
+const MASTER_CONTENT_TYPES: Record<AudioFormat, string> = {
+  wav: 'audio/wav',
+  aiff: 'audio/aiff',
+  flac: 'audio/flac',
+  mp3: 'audio/mpeg',
+};
 
 /**
  * Detect audio format from file extension
  */
-function getAudioFormat(filename: string): 'mp3' | 'wav' | 'flac' | 'aiff' | 'unknown' {
+function getAudioFormat(filename: string): AudioFormat | 'unknown' {
   const ext = filename.toLowerCase().split('.').pop();
   switch (ext) {
     case 'mp3': return 'mp3';
@@ -160,136 +35,110 @@ function getAudioFormat(filename: string): 'mp3' | 'wav' | 'flac' | 'aiff' | 'un
 }
 
 /**
- * Process a single audio track
- * - Ensures both MP3 and WAV versions exist
- * - Creates 60-second preview clip
+ * Read the header of an R2 object and probe it
  */
-export async function processAudioTrack(
+async function probeObject(key: string, env: Env): Promise<AudioInfo | null> {
+  const head = await env.RELEASES_BUCKET.get(key, { range: { offset: 0, length: PROBE_BYTES } });
+  if (!head) return null;
+  const bytes = new Uint8Array(await head.arrayBuffer());
+  return probeAudio(bytes, head.size);
+}
+
+export interface StagedTrack {
+  track: ProcessedTrack;
+  job: NewTranscodeJob;
+  info: AudioInfo | null;
+}
+
+/**
+ * Stage a single audio track
+ * - Copies the master to releases/{id}/masters/
+ * - Reads duration, sample rate, bit depth and channels from its header
+ * - Describes the transcode job for the MP3, FLAC and preview clip
+ */
+export async function stageAudioTrack(
   trackKey: string,
   trackMetadata: TrackMetadata,
   releaseId: string,
   env: Env
-): Promise<ProcessedTrack> {
+): Promise<StagedTrack> {
   const trackNumber = trackMetadata.trackNumber;
   const trackTitle = trackMetadata.title;
   const paddedNum = trackNumber.toString().padStart(2, '0');
 
-  console.info(`[Audio] Processing track ${trackNumber}: ${trackTitle}`);
+  console.info(`[Audio] Staging track ${trackNumber}: ${trackTitle}`);
+
+  const sourceFormat = getAudioFormat(trackKey);
+  if (sourceFormat === 'unknown') {
+    throw new Error(`Unsupported audio format: ${trackKey}`);
+  }
 
-  // Download track from releases bucket (submissions/ folder)
   const trackObj = await env.RELEASES_BUCKET.get(trackKey);
   if (!trackObj) {
     throw new Error(`Track not found: ${trackKey}`);
   }
 
-  const trackBuffer = new Uint8Array(await trackObj.arrayBuffer());
-  const sourceFormat = getAudioFormat(trackKey);
-  console.info(`[Audio] Downloaded track: ${trackBuffer.byteLength} bytes, format: ${sourceFormat}`);
-
-  const ffmpeg = await getFFmpeg();
-
-  let mp3Data: Uint8Array;
-  let wavData: Uint8Array;
-
-  // Process based on source format
-  if (sourceFormat === 'wav') {
-    wavData = trackBuffer;
-    mp3Data = await convertWavToMp3(ffmpeg, trackBuffer);
-  } else if (sourceFormat === 'mp3') {
-    mp3Data = trackBuffer;
-    wavData = await convertMp3ToWav(ffmpeg, trackBuffer);
-  } else if (sourceFormat === 'flac' || sourceFormat === 'aiff') {
-    // Convert lossless formats to both MP3 and WAV
-    console.info(`[Audio] Converting ${sourceFormat} to 320kbps MP3 and WAV (DJ quality)...`);
-
-    const inputFile = `input.${sourceFormat}`;
-    await ffmpeg.writeFile(inputFile, trackBuffer);
-
-    // Convert to MP3 (DJ quality settings)
-    await ffmpeg.exec([
-      '-i', inputFile,
-      '-codec:a', 'libmp3lame',
-      '-b:a', '320k',           // Constant bitrate 320kbps
-      '-q:a', '0',              // Highest quality algorithm
-      '-joint_stereo', '0',     // Full stereo (better at 320k)
-      '-cutoff', '20500',       // Standard high-frequency cutoff for 320k
-      '-y',
-      'output.mp3'
-    ]);
-    mp3Data = await ffmpeg.readFile('output.mp3') as Uint8Array;
-
-    // Convert to WAV
-    await ffmpeg.exec([
-      '-i', inputFile,
-      '-codec:a', 'pcm_s16le',
-      '-ar', '44100',
-      '-y',
-      'output.wav'
-    ]);
-    wavData = await ffmpeg.readFile('output.wav') as Uint8Array;
-
-    // Cleanup
-    await ffmpeg.deleteFile(inputFile);
-    await ffmpeg.deleteFile('output.mp3');
-    await ffmpeg.deleteFile('output.wav');
-  } else {
-    throw new Error(`Unsupported audio format: ${sourceFormat}`);
-  }
-
-  // Create preview clip from MP3 (smaller file, faster processing)
-  const previewData = await createPreviewClip(ffmpeg, mp3Data, 'mp3');
-
   // Generate safe filename from title
   const safeTitle = trackTitle
     .toLowerCase()
     .replace(/[^a-z0-9]+/g, '-')
     .replace(/^-|-$/g, '')
     .substring(0, 50);
+  const ext = trackKey.split('.').pop()!.toLowerCase();
+  const masterKey = `releases/${releaseId}/masters/${paddedNum}-${safeTitle}.${ext}`;
+
+  // Stream straight across; the body is never held in memory
+  await env.RELEASES_BUCKET.put(masterKey, trackObj.body, {
+    httpMetadata: {
+      contentType: MASTER_CONTENT_TYPES[sourceFormat],
+      cacheControl: 'public, max-age=31536000, immutable'
+    }
+  });
+
+  const info = await probeObject(masterKey, env);
+  if (info) {
+    console.info(`[Audio] ${info.format.toUpperCase()} ${info.sampleRate}Hz/${info.bitDepth ?? '-'}bit, ${info.channels}ch, ${formatDuration(info.durationSeconds)}`);
+    if (info.format !== sourceFormat) {
+      console.warn(`[Audio] ${trackKey} is named .${ext} but contains ${info.format}`);
+    }
+  } else {
+    // The runner's ffprobe fills these in
+    console.warn(`[Audio] Could not read header of ${masterKey}`);
+  }
 
-  // Upload to releases bucket
-  const mp3Key = `releases/${releaseId}/tracks/${paddedNum}-${safeTitle}.mp3`;
-  const wavKey = `releases/${releaseId}/tracks/${paddedNum}-${safeTitle}.wav`;
-  const previewKey = `releases/${releaseId}/previews/${paddedNum}-preview.mp3`;
-
-  console.info(`[Audio] Uploading processed files...`);
-
-  await Promise.all([
-    env.RELEASES_BUCKET.put(mp3Key, mp3Data, {
-      httpMetadata: {
-        contentType: 'audio/mpeg',
-        cacheControl: 'public, max-age=31536000, immutable'
-      }
-    }),
-    env.RELEASES_BUCKET.put(wavKey, wavData, {
-      httpMetadata: {
-        contentType: 'audio/wav',
-        cacheControl: 'public, max-age=31536000, immutable'
-      }
-    }),
-    env.RELEASES_BUCKET.put(previewKey, previewData, {
-      httpMetadata: {
-        contentType: 'audio/mpeg',
-        cacheControl: 'public, max-age=31536000, immutable'
-      }
-    })
-  ]);
-
-  const mp3Url = `${env.R2_PUBLIC_DOMAIN}/${mp3Key}`;
-  const wavUrl = `${env.R2_PUBLIC_DOMAIN}/${wavKey}`;
-  const previewUrl = `${env.R2_PUBLIC_DOMAIN}/${previewKey}`;
-
-  console.info(`[Audio] Track ${trackNumber} processed successfully`);
-  console.info(`  MP3: ${mp3Url}`);
-  console.info(`  WAV: ${wavUrl}`);
-  console.info(`  Preview: ${previewUrl}`);
+  const format = info?.format ?? sourceFormat;
+  const masterUrl = `${env.R2_PUBLIC_DOMAIN}/${masterKey}`;
+  console.info(`[Audio] Track ${trackNumber} staged: ${masterUrl}`);
 
-  return {
+  const track: ProcessedTrack = {
     trackNumber,
     title: trackTitle,
-    mp3Url,
-    wavUrl,
-    previewUrl,
+    // Filled in when the transcode job completes
+    mp3Url: format === 'mp3' ? masterUrl : '',
+    previewUrl: '',
+    wavUrl: format === 'wav' ? masterUrl : '',
+    flacUrl: format === 'flac' ? masterUrl : '',
+    masterUrl,
+    duration: info ? formatDuration(info.durationSeconds) : trackMetadata.duration,
+    durationSeconds: info?.durationSeconds,
+    sampleRate: info?.sampleRate,
+    bitDepth: info?.bitDepth ?? undefined,
+    channels: info?.channels,
+    transcodeStatus: 'queued',
     bpm: trackMetadata.bpm,
     key: trackMetadata.key
   };
+
+  return {
+    track,
+    job: {
+      releaseId,
+      trackNumber,
+      title: trackTitle,
+      sourceKey: masterKey,
+      sourceFormat: format,
+      outputPrefix: `releases/${releaseId}`,
+    },
+    info
+  };
 }
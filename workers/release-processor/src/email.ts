@@ -206,8 +206,8 @@ export async function sendSubmissionReceivedEmail(
       <p>Processing includes:</p>
       <ul>
         <li>Converting artwork to WebP format</li>
-        <li>Creating MP3 and WAV versions of each track</li>
-        <li>Generating 60-second preview clips</li>
+        <li>Queueing each master for transcoding to 320k MP3 and FLAC</li>
+        <li>Generating 90-second preview clips</li>
         <li>Uploading to CDN</li>
       </ul>
 
@@ -227,3 +227,67 @@ export async function sendSubmissionReceivedEmail(
     html
   }, env);
 }
+
+/**
+ * Send notification when a track has run out of transcode attempts
+ */
+export async function sendTranscodeFailedEmail(
+  job: { id: string; kind?: 'track' | 'mix' | 'download'; releaseId: string; trackNumber: number; title: string; attempts: number; sourceKey: string },
+  error: string,
+  env: Env
+): Promise<void> {
+  const isMix = job.kind === 'mix';
+  const html = `
+    <!DOCTYPE html>
+    <html>
+    <head>
+      <style>
+        body { font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto; padding: 20px; }
+        h1 { color: #333; }
+        .error { color: #ef4444; }
+        .info { background: #fef2f2; padding: 15px; border-radius: 8px; margin: 15px 0; border: 1px solid #fecaca; }
+        .info p { margin: 5px 0; }
+        pre { background: #1f2937; color: #f9fafb; padding: 15px; border-radius: 8px; overflow-x: auto; font-size: 12px; }
+        .btn { display: inline-block; background: #000; color: #fff; padding: 12px 24px; text-decoration: none; border-radius: 4px; margin-top: 15px; }
+      </style>
+    </head>
+    <body>
+      <h1>${isMix ? 'Mix Analysis' : 'Audio Transcoding'} Failed <span class="error">✗</span></h1>
+
+      <div class="info">
+        ${isMix ? `
+        <p><strong>Mix ID:</strong> ${job.releaseId}</p>
+        <p><strong>Mix:</strong> ${job.title}</p>
+        <p><strong>Audio:</strong> ${job.sourceKey}</p>
+        ` : `
+        <p><strong>Release ID:</strong> ${job.releaseId}</p>
+        <p><strong>Track:</strong> ${job.trackNumber}. ${job.title}</p>
+        <p><strong>Master:</strong> ${job.sourceKey}</p>
+        `}
+        <p><strong>Attempts:</strong> ${job.attempts}</p>
+        <p><strong>Time:</strong> ${new Date().toLocaleString()}</p>
+      </div>
+
+      <h3>Last Error</h3>
+      <pre>${error}</pre>
+
+      <p>${isMix
+        ? 'The mix is live but has no waveform or loudness reading. Once the runner is fixed, retry the job from the approvals page.'
+        : "The track has no MP3 or preview yet, so the release can't be published. Once the master or the runner is fixed, retry the job from the approvals page."}</p>
+
+      <a href="https://freshwax.co.uk/admin/approvals" class="btn">Open Approvals</a>
+
+      <hr style="margin-top: 30px; border: none; border-top: 1px solid #eee;" />
+      <p style="color: #666; font-size: 12px;">
+        This is an automated notification from Fresh Wax Release Processor.
+      </p>
+    </body>
+    </html>
+  `;
+
+  await sendEmail({
+    to: env.ADMIN_EMAIL,
+    subject: isMix ? `Mix Analysis Failed: ${job.releaseId}` : `Transcoding Failed: ${job.releaseId} track ${job.trackNumber}`,
+    html
+  }, env);
+}
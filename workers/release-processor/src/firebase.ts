@@ -2,6 +2,8 @@
 // Simplified version for Cloudflare Workers environment
 
 import type { Env, ProcessedRelease, ProcessedTrack } from './types';
+import { applyTranscodeResult, type TranscodeResult } from './transcode-jobs';
+import type { Loudness } from './waveform';
 
 const PROJECT_ID = 'freshwax-store';
 
@@ -77,19 +79,20 @@ async function setDocument(
 }
 
 /**
- * Get a document from Firestore
+ * Get a document from Firestore, with the update time needed to write it
+ * back conditionally
  */
-async function getDocument(
+async function getDocumentVersioned(
   collection: string,
   docId: string,
   env: Env
-): Promise<Record<string, unknown> | null> {
+): Promise<{ data: Record<string, unknown> | null; updateTime: string | null }> {
   const url = `https://firestore.googleapis.com/v1/projects/${env.FIREBASE_PROJECT_ID}/databases/(default)/documents/${collection}/${docId}?key=${env.FIREBASE_API_KEY}`;
 
   const response = await fetch(url);
 
   if (response.status === 404) {
-    return null;
+    return { data: null, updateTime: null };
   }
 
   if (!response.ok) {
@@ -98,8 +101,55 @@ async function getDocument(
     throw new Error(`Failed to get document: ${response.status}`);
   }
 
-  const doc = await response.json() as { fields?: Record<string, FirestoreValue> };
-  return parseFirestoreDocument(doc);
+  const doc = await response.json() as { fields?: Record<string, FirestoreValue>; updateTime?: string };
+  return { data: parseFirestoreDocument(doc), updateTime: doc.updateTime || null };
+}
+
+/**
+ * Get a document from Firestore
+ */
+async function getDocument(
+  collection: string,
+  docId: string,
+  env: Env
+): Promise<Record<string, unknown> | null> {
+  return (await getDocumentVersioned(collection, docId, env)).data;
+}
+
+/**
+ * Update only the given fields of a document, and only if nobody has written
+ * it since `updateTime`. Returns false when the precondition fails.
+ */
+async function updateFieldsIfUnchanged(
+  collection: string,
+  docId: string,
+  data: Record<string, unknown>,
+  updateTime: string,
+  env: Env
+): Promise<boolean> {
+  const params = new URLSearchParams({ key: env.FIREBASE_API_KEY, 'currentDocument.updateTime': updateTime });
+  for (const field of Object.keys(data)) params.append('updateMask.fieldPaths', field);
+  const url = `https://firestore.googleapis.com/v1/projects/${env.FIREBASE_PROJECT_ID}/databases/(default)/documents/${collection}/${docId}?${params}`;
+
+  const fields: Record<string, FirestoreValue> = {};
+  for (const [key, value] of Object.entries(data)) {
+    fields[key] = toFirestoreValue(value);
+  }
+
+  const response = await fetch(url, {
+    method: 'PATCH',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ fields })
+  });
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    // A stale updateTime comes back as FAILED_PRECONDITION
+    if (response.status === 409 || response.status === 412 || errorText.includes('FAILED_PRECONDITION')) return false;
+    console.error('[Firebase] updateFields error:', response.status, errorText);
+    throw new Error(`Failed to update document: ${response.status}`);
+  }
+  return true;
 }
 
 /**
@@ -176,11 +226,18 @@ export async function createReleaseInFirebase(
       url: track.mp3Url,
       mp3Url: track.mp3Url,
       wavUrl: track.wavUrl,
+      flacUrl: track.flacUrl || '',
+      masterUrl: track.masterUrl || '',
       preview_url: track.previewUrl,
       previewUrl: track.previewUrl,
       bpm: track.bpm || null,
       key: track.key || null,
       duration: track.duration || 0,
+      durationSeconds: track.durationSeconds || null,
+      sampleRate: track.sampleRate || null,
+      bitDepth: track.bitDepth || null,
+      channels: track.channels || null,
+      transcodeStatus: track.transcodeStatus || null,
       storage: 'r2',
       previewStorage: 'r2'
     })),
@@ -257,3 +314,86 @@ async function updateMasterReleasesList(
 
   console.info(`[Firebase] Master list updated (${releasesList.length} total releases)`);
 }
+
+/**
+ * Write a transcode job's outcome onto its track in the release document.
+ * The admin may be editing the release at the same time, so only `tracks`
+ * and `updatedAt` are written, and the read-modify-write is retried if the
+ * document changed underneath it.
+ */
+export async function updateReleaseTrackAudio(
+  releaseId: string,
+  trackNumber: number,
+  result: TranscodeResult,
+  env: Env
+): Promise<boolean> {
+  for (let attempt = 1; attempt <= 5; attempt++) {
+    const { data, updateTime } = await getDocumentVersioned('releases', releaseId, env);
+    if (!data || !updateTime) {
+      console.warn(`[Firebase] Release ${releaseId} not found for track ${trackNumber} audio`);
+      return false;
+    }
+
+    const existing = Array.isArray(data.tracks) ? (data.tracks as Array<Record<string, unknown>>) : [];
+    const { tracks, matched } = applyTranscodeResult(existing, trackNumber, result);
+    if (!matched) {
+      console.warn(`[Firebase] Release ${releaseId} has no track ${trackNumber}`);
+      return false;
+    }
+
+    const written = await updateFieldsIfUnchanged('releases', releaseId, {
+      tracks,
+      updatedAt: new Date().toISOString()
+    }, updateTime, env);
+    if (written) {
+      console.info(`[Firebase] Track ${trackNumber} audio updated: ${releaseId} (${result.status})`);
+      return true;
+    }
+    console.info(`[Firebase] ${releaseId} changed while updating track ${trackNumber}, retrying (${attempt})`);
+  }
+  throw new Error(`Release ${releaseId} kept changing while updating track ${trackNumber}`);
+}
+
+export interface MixAnalysisUpdate {
+  waveform: number[];
+  waveformUrl: string;
+  loudness: Loudness | null;
+  durationSeconds?: number;
+}
+
+/**
+ * Write a mix's waveform and loudness onto its dj-mixes document. Only the
+ * analysis fields are written (plus durationSeconds, when the upload form
+ * didn't supply one), retried if the DJ edits the mix at the same moment.
+ * Returns false if the mix has been deleted.
+ */
+export async function updateMixAnalysis(
+  mixId: string,
+  update: MixAnalysisUpdate,
+  env: Env
+): Promise<boolean> {
+  for (let attempt = 1; attempt <= 5; attempt++) {
+    const { data, updateTime } = await getDocumentVersioned('dj-mixes', mixId, env);
+    if (!data || !updateTime) {
+      console.warn(`[Firebase] Mix ${mixId} not found for its analysis`);
+      return false;
+    }
+
+    const fields: Record<string, unknown> = {
+      waveform: update.waveform,
+      waveformUrl: update.waveformUrl,
+      updatedAt: new Date().toISOString()
+    };
+    if (update.loudness) fields.loudness = update.loudness;
+    if (update.durationSeconds && !(Number(data.durationSeconds) > 0)) {
+      fields.durationSeconds = Math.round(update.durationSeconds);
+    }
+
+    if (await updateFieldsIfUnchanged('dj-mixes', mixId, fields, updateTime, env)) {
+      console.info(`[Firebase] Mix analysis updated: ${mixId}`);
+      return true;
+    }
+    console.info(`[Firebase] ${mixId} changed while writing its analysis, retrying (${attempt})`);
+  }
+  throw new Error(`Mix ${mixId} kept changing while writing its analysis`);
+}
@@ -1,9 +1,12 @@
 // index.ts - Main entry point for release processor Worker
-// Processes releases directly without queues (simpler, works on free plan)
+// Processes releases directly; only audio transcoding is queued (see
+// ./transcode-jobs.ts), because it needs native ffmpeg
 
 import type { Env, SubmissionMetadata, ProcessedRelease } from './types';
 import { processArtwork } from './image-processor';
-import { processAudioTrack, terminateFFmpeg } from './audio-processor';
+import { stageAudioTrack, type StagedTrack } from './audio-processor';
+import { handleTranscodeRequest } from './transcode-api';
+import { enqueueTranscodeJob } from './transcode-jobs';
 import { createReleaseInFirebase } from './firebase';
 import { sendProcessingCompleteEmail, sendProcessingFailedEmail } from './email';
 
@@ -92,12 +95,13 @@ async function parseSubmission(
 }
 
 /**
- * Process a release submission
+ * Process a release submission. Returns the release and the transcode jobs
+ * to queue once it has been saved.
  */
 async function processSubmission(
   submissionId: string,
   env: Env
-): Promise<ProcessedRelease> {
+): Promise<{ release: ProcessedRelease; staged: StagedTrack[] }> {
   const { metadata, artworkKey, trackKeys } = await parseSubmission(submissionId, env);
   const releaseId = generateReleaseId(metadata.artistName);
 
@@ -120,8 +124,9 @@ async function processSubmission(
     thumbUrl = coverUrl;
   }
 
-  // Process each track
+  // Stage each track and queue it for transcoding
   const processedTracks = [];
+  const staged: StagedTrack[] = [];
 
   for (let i = 0; i < trackKeys.length; i++) {
     const trackKey = trackKeys[i];
@@ -133,13 +138,14 @@ async function processSubmission(
     console.info(`[Processor] Track ${i + 1}/${trackKeys.length}: ${trackMetadata.title}`);
 
     try {
-      const processedTrack = await processAudioTrack(
+      const stagedTrack = await stageAudioTrack(
         trackKey,
         trackMetadata,
         releaseId,
         env
       );
-      processedTracks.push(processedTrack);
+      processedTracks.push(stagedTrack.track);
+      staged.push(stagedTrack);
     } catch (error) {
       console.error(`[Processor] Track ${i + 1} failed:`, error);
       // Continue with other tracks
@@ -155,9 +161,6 @@ async function processSubmission(
     }
   }
 
-  // Clean up FFmpeg
-  terminateFFmpeg();
-
   const now = new Date().toISOString();
 
   // Map processed tracks with additional metadata from submission
@@ -186,7 +189,7 @@ async function processSubmission(
     other: metadata.otherLinks || ''
   };
 
-  return {
+  const release: ProcessedRelease = {
     id: releaseId,
     artistName: metadata.artistName,
     releaseName: metadata.releaseName,
@@ -267,6 +270,8 @@ async function processSubmission(
     email: metadata.email,
     userId: metadata.userId
   };
+
+  return { release, staged };
 }
 
 /**
@@ -370,11 +375,17 @@ export default {
         console.info(`[API] Processing submission: ${submissionId}`);
 
         // Process the submission
-        const release = await processSubmission(submissionId, env);
+        const { release, staged } = await processSubmission(submissionId, env);
 
         // Save to Firebase
         await createReleaseInFirebase(release, env);
 
+        // Queue transcoding now there's a release for the results to land on
+        for (const { job, info } of staged) {
+          await enqueueTranscodeJob(env.DB, job, info);
+        }
+        console.info(`[API] Queued ${staged.length} transcode jobs`);
+
         // Send success email
         await sendProcessingCompleteEmail(release, env);
 
@@ -397,9 +408,6 @@ export default {
       } catch (error) {
         console.error('[API] Processing failed:', error);
 
-        // Clean up FFmpeg on error
-        terminateFFmpeg();
-
         // Send failure email
         if (submissionId) {
           await sendProcessingFailedEmail(
@@ -419,13 +427,19 @@ export default {
       }
     }
 
+    // Transcode runner endpoints
+    const transcodeResponse = await handleTranscodeRequest(request, env, url);
+    if (transcodeResponse) return transcodeResponse;
+
     // Default response
     return new Response(JSON.stringify({
       service: 'Fresh Wax Release Processor',
       endpoints: {
         'GET /health': 'Health check',
         'GET /submissions': 'List pending submissions',
-        'POST /process': 'Process a submission { submissionId: string }'
+        'POST /process': 'Process a submission { submissionId: string }',
+        'POST /jobs/lease': 'Lease the next transcode job (X-Runner-Key)',
+        'GET /jobs?releaseId=': 'Transcode job status for a release (X-Runner-Key)'
       }
     }), {
       headers: { 'Content-Type': 'application/json', ...corsHeaders }
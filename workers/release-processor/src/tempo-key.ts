@@ -0,0 +1,184 @@
+// tempo-key.ts - BPM and musical key estimated from the transcode runner's features
+//
+// Artists type BPM and key in by hand, and they're often wrong or missing.
+// Alongside its waveform the runner reports, for release tracks:
+//   - onsets: an onset-strength envelope (how sharply the level rises, 0-1000)
+//     sampled onsetRate times a second over up to two minutes from the middle
+//     of the track
+//   - chroma: the energy in each of the 12 pitch classes (C first) across the
+//     whole track, 0-1000
+//
+// Tempo comes from autocorrelating the envelope, key from matching the chroma
+// against the Krumhansl-Kessler key profiles. Both are estimates: a beatless
+// or atonal track gets none rather than a guess.
+
+export interface MusicalFeatures {
+  onsetRate: number;
+  onsets: number[];
+  chroma: number[];
+}
+
+export interface TempoEstimate {
+  bpm: number;
+  confidence: number;
+}
+
+export interface KeyEstimate {
+  key: string;          // musical notation: 'Am', 'F#', 'Bbm'
+  camelot: string;      // Camelot wheel: '8A', '2B'
+  confidence: number;
+}
+
+export interface TrackMusical {
+  bpm: number | null;
+  key: string | null;
+  camelot: string | null;
+}
+
+const MIN_BPM = 70;
+const MAX_BPM = 200;
+// Beats the comb looks across: more sharpens the estimate between whole lags
+const COMB_BEATS = 4;
+// Drum & bass and jungle (160-180) often autocorrelate strongest at half
+// time, on the kick-snare bar. A half-time reading with real energy at
+// double speed is taken as the fast tempo.
+const HALF_TIME_MIN = 80;
+const HALF_TIME_MAX = 90;
+const DOUBLE_TIME_RATIO = 0.5;
+const MIN_TEMPO_CONFIDENCE = 0.1;
+const MIN_ANALYSIS_SECONDS = 10;
+const MIN_KEY_CORRELATION = 0.3;
+
+const MAX_ONSETS = 30000;
+
+// Krumhansl-Kessler key profiles, tonic first
+const MAJOR_PROFILE = [6.35, 2.23, 3.48, 2.33, 4.38, 4.09, 2.52, 5.19, 2.39, 3.66, 2.29, 2.88];
+const MINOR_PROFILE = [6.33, 2.68, 3.52, 5.38, 2.60, 3.53, 2.54, 4.75, 3.98, 2.69, 3.34, 3.17];
+
+// By tonic pitch class, C = 0, spelled the way DJ software and Camelot charts do
+const MAJOR_NAMES = ['C', 'Db', 'D', 'Eb', 'E', 'F', 'F#', 'G', 'Ab', 'A', 'Bb', 'B'];
+const MINOR_NAMES = ['Cm', 'C#m', 'Dm', 'Ebm', 'Em', 'Fm', 'F#m', 'Gm', 'G#m', 'Am', 'Bbm', 'Bm'];
+const MAJOR_CAMELOT = ['8B', '3B', '10B', '5B', '12B', '7B', '2B', '9B', '4B', '11B', '6B', '1B'];
+const MINOR_CAMELOT = ['5A', '12A', '7A', '2A', '9A', '4A', '11A', '6A', '1A', '8A', '3A', '10A'];
+
+function values(raw: unknown, min: number, max: number, maxLength: number): number[] | null {
+  if (!Array.isArray(raw) || raw.length === 0 || raw.length > maxLength) return null;
+  return raw.every(v => typeof v === 'number' && Number.isFinite(v) && v >= min && v <= max) ? (raw as number[]) : null;
+}
+
+/**
+ * Validate the runner's features. Either half can be missing or broken on
+ * its own; a runner from before tempo and key sends neither.
+ */
+export function parseMusicalFeatures(raw: unknown): MusicalFeatures | null {
+  if (!raw || typeof raw !== 'object') return null;
+  const data = raw as Record<string, unknown>;
+
+  const rate = typeof data.onsetRate === 'number' && data.onsetRate >= 20 && data.onsetRate <= 1000 ? data.onsetRate : 0;
+  const onsets = rate ? values(data.onsets, 0, 1000, MAX_ONSETS) ?? [] : [];
+  const chroma = Array.isArray(data.chroma) && data.chroma.length === 12 ? values(data.chroma, 0, 1000, 12) ?? [] : [];
+
+  if (!onsets.length && !chroma.length) return null;
+  return { onsetRate: rate, onsets, chroma };
+}
+
+/**
+ * Tempo from an onset envelope, rounded to a whole BPM
+ */
+export function estimateBpm(onsets: number[], rate: number): TempoEstimate | null {
+  if (!(rate > 0) || onsets.length < rate * MIN_ANALYSIS_SECONDS) return null;
+
+  const mean = onsets.reduce((sum, v) => sum + v, 0) / onsets.length;
+  const x = onsets.map(v => v - mean);
+  const maxLag = Math.min(x.length - 1, Math.ceil((COMB_BEATS * 60 * rate) / MIN_BPM) + 1);
+
+  const ac = new Float64Array(maxLag + 1);
+  for (let lag = 0; lag <= maxLag; lag++) {
+    let sum = 0;
+    for (let i = lag; i < x.length; i++) sum += x[i]! * x[i - lag]!;
+    ac[lag] = sum / (x.length - lag);
+  }
+  if (!(ac[0]! > 0)) return null;
+
+  const at = (lag: number) => {
+    const i = Math.floor(lag);
+    if (i + 1 > maxLag) return 0;
+    return ac[i]! + (ac[i + 1]! - ac[i]!) * (lag - i);
+  };
+  const score = (bpm: number) => {
+    const period = (60 * rate) / bpm;
+    let sum = 0;
+    for (let k = 1; k <= COMB_BEATS; k++) sum += at(k * period);
+    return sum / (COMB_BEATS * ac[0]!);
+  };
+
+  let best = 0;
+  let bestScore = -Infinity;
+  for (let tenths = MIN_BPM * 10; tenths <= MAX_BPM * 10; tenths++) {
+    const s = score(tenths / 10);
+    if (s > bestScore) {
+      bestScore = s;
+      best = tenths / 10;
+    }
+  }
+  if (bestScore < MIN_TEMPO_CONFIDENCE) return null;
+
+  if (best >= HALF_TIME_MIN && best <= HALF_TIME_MAX && score(best * 2) >= bestScore * DOUBLE_TIME_RATIO) {
+    best *= 2;
+  }
+  return { bpm: Math.round(best), confidence: Math.round(Math.min(1, bestScore) * 100) / 100 };
+}
+
+function correlation(a: number[], b: number[]): number {
+  const meanA = a.reduce((s, v) => s + v, 0) / a.length;
+  const meanB = b.reduce((s, v) => s + v, 0) / b.length;
+  let num = 0;
+  let denA = 0;
+  let denB = 0;
+  for (let i = 0; i < a.length; i++) {
+    num += (a[i]! - meanA) * (b[i]! - meanB);
+    denA += (a[i]! - meanA) ** 2;
+    denB += (b[i]! - meanB) ** 2;
+  }
+  return denA > 0 && denB > 0 ? num / Math.sqrt(denA * denB) : 0;
+}
+
+/**
+ * Key from a 12-bin chroma vector (C first): the best of the 24 major and
+ * minor profiles
+ */
+export function estimateKey(chroma: number[]): KeyEstimate | null {
+  if (chroma.length !== 12) return null;
+
+  let best: { tonic: number; minor: boolean; r: number } | null = null;
+  for (let tonic = 0; tonic < 12; tonic++) {
+    // The profile rotated so its tonic sits on this pitch class
+    const rotate = (profile: number[]) => profile.map((_, pc) => profile[(pc - tonic + 12) % 12]!);
+    for (const minor of [false, true]) {
+      const r = correlation(chroma, rotate(minor ? MINOR_PROFILE : MAJOR_PROFILE));
+      if (!best || r > best.r) best = { tonic, minor, r };
+    }
+  }
+  if (!best || best.r < MIN_KEY_CORRELATION) return null;
+
+  return {
+    key: (best.minor ? MINOR_NAMES : MAJOR_NAMES)[best.tonic]!,
+    camelot: (best.minor ? MINOR_CAMELOT : MAJOR_CAMELOT)[best.tonic]!,
+    confidence: Math.round(best.r * 100) / 100,
+  };
+}
+
+/**
+ * Tempo and key for a track, from whatever the runner reported. Null when
+ * neither could be estimated.
+ */
+export function analyseMusic(raw: unknown): TrackMusical | null {
+  const features = parseMusicalFeatures(raw);
+  if (!features) return null;
+
+  const tempo = features.onsets.length ? estimateBpm(features.onsets, features.onsetRate) : null;
+  const key = features.chroma.length ? estimateKey(features.chroma) : null;
+  if (!tempo && !key) return null;
+
+  return { bpm: tempo?.bpm ?? null, key: key?.key ?? null, camelot: key?.camelot ?? null };
+}
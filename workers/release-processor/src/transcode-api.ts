@@ -0,0 +1,346 @@
+// transcode-api.ts - HTTP endpoints the transcode runner works through
+//
+// Runners never touch R2 or Firestore directly: they lease a job, download
+// the master and upload outputs through here, so the only credential a
+// runner needs is TRANSCODE_RUNNER_KEY. Every call after the lease carries
+// the lease id, and is refused once the lease has expired or moved on.
+//
+//   POST /jobs/lease                         { runnerId }
+//   GET  /jobs/:id/source?lease=             master audio
+//   GET  /jobs/:id/artwork?lease=            cover art to embed (download jobs)
+//   PUT  /jobs/:id/output/:kind?lease=       mp3 | flac | aiff | preview
+//   POST /jobs/:id/complete?lease=           { durationSeconds?, sampleRate?, bitDepth?, channels?, analysis? }
+//   POST /jobs/:id/fail?lease=               { error }
+//   GET  /jobs?releaseId=                    job status for a release
+//
+// analysis is { peaks, integratedLufs, truePeakDbtp, loudnessRange } (see
+// ./waveform.ts), plus { onsetRate, onsets, chroma } for release tracks (see
+// ./tempo-key.ts). Mix jobs have no outputs to upload; their analysis is the
+// whole job. Download jobs are the opposite: one tagged file, no analysis.
+
+import type { Env } from './types';
+import {
+  OUTPUT_CONTENT_TYPES,
+  completeTranscodeJob,
+  expireAbandonedJobs,
+  failTranscodeJob,
+  finishedOutputs,
+  getLeasedJob,
+  getReleaseTranscodeJobs,
+  jobOutputKeys,
+  leaseTranscodeJob,
+  previewWindow,
+  requiredOutputs,
+  waveformKey,
+  type JobAnalysis,
+  type TranscodeJob,
+  type TranscodeOutput,
+  type TrackWaveform,
+} from './transcode-jobs';
+import {
+  MIX_WAVEFORM_BARS,
+  PREVIEW_WAVEFORM_BARS,
+  TRACK_WAVEFORM_BARS,
+  buildWaveformDocument,
+  downsamplePeaks,
+  parseAnalysis,
+  slicePeaks,
+  type AudioAnalysis,
+} from './waveform';
+import { analyseMusic } from './tempo-key';
+import { updateMixAnalysis, updateReleaseTrackAudio } from './firebase';
+import { sendTranscodeFailedEmail } from './email';
+
+const JOB_ROUTE = /^\/jobs\/([^/]+)\/(source|artwork|output\/(mp3|flac|aiff|preview)|complete|fail)$/;
+
+function json(data: unknown, status = 200): Response {
+  return new Response(JSON.stringify(data), {
+    status,
+    headers: { 'Content-Type': 'application/json' }
+  });
+}
+
+/**
+ * Constant-time comparison of the runner key
+ */
+function keyMatches(provided: string | null, expected: string | undefined): boolean {
+  if (!provided || !expected) return false;
+  const a = new TextEncoder().encode(provided);
+  const b = new TextEncoder().encode(expected);
+  let diff = a.length ^ b.length;
+  for (let i = 0; i < b.length; i++) diff |= (a[i % (a.length || 1)] ?? 0) ^ b[i]!;
+  return diff === 0;
+}
+
+/**
+ * A job is out of attempts: tell the admin and mark the track as failed so
+ * the release can't be published without it. A mix is already live and just
+ * goes without a waveform. A failed download only shows on /admin/approvals;
+ * the buyer is offered the formats that do exist.
+ */
+async function reportFailedJob(job: TranscodeJob, env: Env): Promise<void> {
+  const error = job.lastError || 'Unknown error';
+  console.error(`[Transcode] Job ${job.id} failed after ${job.attempts} attempts: ${error}`);
+  if (job.kind === 'download') return;
+
+  await Promise.all([
+    sendTranscodeFailedEmail(job, error, env)
+      .catch(e => console.error('[Transcode] Failed to send failure email:', e)),
+    job.kind === 'track'
+      ? updateReleaseTrackAudio(job.releaseId, job.trackNumber, { status: 'failed' }, env)
+        .catch(e => console.error('[Transcode] Failed to mark track as failed:', e))
+      : null,
+  ]);
+}
+
+/**
+ * Store the full waveform file in R2. Returns its public URL.
+ */
+async function storeWaveform(job: TranscodeJob, analysis: AudioAnalysis, durationSeconds: number | null, env: Env): Promise<string> {
+  const key = waveformKey(job);
+  await env.RELEASES_BUCKET.put(key, JSON.stringify(buildWaveformDocument(analysis, durationSeconds)), {
+    httpMetadata: {
+      contentType: 'application/json',
+      // Not immutable: a resubmitted release is analysed again under the same key
+      cacheControl: 'public, max-age=86400'
+    }
+  });
+  return `${env.R2_PUBLIC_DOMAIN}/${key}`;
+}
+
+/**
+ * Keep the site's D1 copy of a mix (dj_mixes.data) in step with Firestore,
+ * if the mix has been copied there yet
+ */
+async function updateMixCatalogRow(db: D1Database, mixId: string, fields: Record<string, unknown>): Promise<void> {
+  const paths = Object.keys(fields);
+  if (!paths.length) return;
+  await db.prepare(
+    `UPDATE dj_mixes SET data = json_set(data, ${paths.map(() => '?, json(?)').join(', ')}), updated_at = datetime('now')
+     WHERE id = ?`
+  ).bind(...paths.flatMap(path => [`$.${path}`, JSON.stringify(fields[path])]), mixId).run();
+}
+
+function describeJob(job: TranscodeJob, env: Env) {
+  const keys = jobOutputKeys(job);
+  const outputs = requiredOutputs(job);
+  return {
+    job,
+    outputs,
+    keys: Object.fromEntries(outputs.map(kind => [kind, keys[kind]])),
+    preview: previewWindow(job.durationSeconds),
+    sourceUrl: `${env.R2_PUBLIC_DOMAIN}/${job.sourceKey}`,
+  };
+}
+
+async function handleLease(request: Request, env: Env): Promise<Response> {
+  const body = await request.json().catch(() => ({})) as { runnerId?: string };
+  const runnerId = String(body.runnerId || 'runner');
+
+  const abandoned = await expireAbandonedJobs(env.DB);
+  for (const job of abandoned) await reportFailedJob(job, env);
+
+  const job = await leaseTranscodeJob(env.DB, runnerId);
+  if (!job) return json({ job: null });
+
+  console.info(`[Transcode] ${runnerId} leased ${job.id} (attempt ${job.attempts}/${job.maxAttempts})`);
+  return json(describeJob(job, env));
+}
+
+async function handleOutput(request: Request, env: Env, job: TranscodeJob, kind: TranscodeOutput): Promise<Response> {
+  if (!requiredOutputs(job).includes(kind)) {
+    return json({ error: `Job ${job.id} does not produce ${kind}` }, 400);
+  }
+  if (!request.body || !request.headers.get('Content-Length')) {
+    return json({ error: 'Content-Length required' }, 411);
+  }
+
+  const key = jobOutputKeys(job)[kind]!;
+  await env.RELEASES_BUCKET.put(key, request.body, {
+    httpMetadata: {
+      contentType: OUTPUT_CONTENT_TYPES[kind],
+      cacheControl: 'public, max-age=31536000, immutable'
+    }
+  });
+
+  console.info(`[Transcode] ${job.id} ${kind} uploaded: ${key}`);
+  return json({ success: true, key });
+}
+
+async function handleComplete(request: Request, env: Env, job: TranscodeJob, leaseId: string): Promise<Response> {
+  const body = await request.json().catch(() => ({})) as {
+    durationSeconds?: number; sampleRate?: number; bitDepth?: number; channels?: number; analysis?: unknown;
+  };
+
+  const keys = jobOutputKeys(job);
+  const outputs = requiredOutputs(job);
+  const stored = await Promise.all(outputs.map(kind => env.RELEASES_BUCKET.head(keys[kind]!)));
+  const missing = outputs.filter((_, i) => !stored[i]);
+  if (missing.length) {
+    return json({ error: `Missing outputs: ${missing.join(', ')}` }, 409);
+  }
+
+  const num = (v: unknown) => (typeof v === 'number' && Number.isFinite(v) && v > 0 ? v : undefined);
+  const info = {
+    durationSeconds: job.durationSeconds ?? num(body.durationSeconds),
+    sampleRate: job.sampleRate ?? num(body.sampleRate),
+    bitDepth: job.bitDepth ?? num(body.bitDepth),
+    channels: job.channels ?? num(body.channels),
+  };
+  const finished = finishedOutputs(job);
+
+  // The site serves a download straight from R2 once the job says where it is
+  if (job.kind === 'download') {
+    const done = await completeTranscodeJob(
+      env.DB, job.id, leaseId, info, Object.fromEntries(finished.map(kind => [kind, keys[kind]])), null
+    );
+    if (!done) return json({ error: 'Lease expired' }, 409);
+    console.info(`[Transcode] ${job.id} done: ${keys[job.format!]}`);
+    return json({ success: true, job: done });
+  }
+  const urls = Object.fromEntries(finished.map(kind => [kind, `${env.R2_PUBLIC_DOMAIN}/${keys[kind]}`]));
+
+  // A runner from before waveforms existed sends no analysis; the job still
+  // completes, the players just fall back to a plain progress bar
+  const analysis = parseAnalysis(body.analysis);
+  if (body.analysis !== undefined && !analysis) {
+    console.warn(`[Transcode] ${job.id} sent an unusable analysis, ignoring it`);
+  }
+  const waveformUrl = analysis?.peaks.length ? await storeWaveform(job, analysis, info.durationSeconds ?? null, env) : null;
+  const jobAnalysis: JobAnalysis | null = analysis
+    ? { loudness: analysis.loudness, waveformKey: waveformUrl ? waveformKey(job) : null }
+    : null;
+
+  // Document first, while the lease is still held: if Firestore is down the
+  // runner reports a failure and the job is retried
+  let written: boolean;
+  if (job.kind === 'mix') {
+    if (!analysis || !waveformUrl) {
+      return json({ error: 'A mix job has to report its waveform' }, 400);
+    }
+    const update = {
+      waveform: downsamplePeaks(analysis.peaks, MIX_WAVEFORM_BARS),
+      waveformUrl,
+      loudness: analysis.loudness,
+      durationSeconds: info.durationSeconds,
+    };
+    written = await updateMixAnalysis(job.releaseId, update, env);
+    if (written) {
+      const catalogFields = { waveform: update.waveform, waveformUrl, loudness: update.loudness };
+      await updateMixCatalogRow(env.DB, job.releaseId, catalogFields)
+        .catch(e => console.warn(`[Transcode] Could not update the D1 copy of mix ${job.releaseId}:`, e));
+    }
+  } else {
+    let waveform: TrackWaveform | undefined;
+    if (analysis && waveformUrl) {
+      // The same window the runner was given when it leased the job
+      const preview = previewWindow(job.durationSeconds);
+      waveform = {
+        url: waveformUrl,
+        peaks: downsamplePeaks(analysis.peaks, TRACK_WAVEFORM_BARS),
+        previewPeaks: info.durationSeconds
+          ? downsamplePeaks(slicePeaks(analysis.peaks, info.durationSeconds, preview.start, preview.length), PREVIEW_WAVEFORM_BARS)
+          : [],
+      };
+    }
+    const musical = analyseMusic(body.analysis);
+    if (musical) console.info(`[Transcode] ${job.id} detected ${musical.bpm ?? '?'} BPM, ${musical.key ?? '?'} (${musical.camelot ?? '?'})`);
+    written = await updateReleaseTrackAudio(job.releaseId, job.trackNumber, {
+      status: 'done', urls, info, waveform, loudness: analysis?.loudness ?? undefined, musical: musical ?? undefined
+    }, env);
+  }
+  if (!written) {
+    const target = job.kind === 'mix' ? `Mix ${job.releaseId} no longer exists` : `Release ${job.releaseId} has no track ${job.trackNumber} to update`;
+    return json({ error: target }, 409);
+  }
+
+  const done = await completeTranscodeJob(
+    env.DB, job.id, leaseId, info, Object.fromEntries(finished.map(kind => [kind, keys[kind]])), jobAnalysis
+  );
+  if (!done) return json({ error: 'Lease expired' }, 409);
+
+  console.info(`[Transcode] ${job.id} done`);
+  return json({ success: true, job: done });
+}
+
+async function handleFail(request: Request, env: Env, job: TranscodeJob, leaseId: string): Promise<Response> {
+  const body = await request.json().catch(() => ({})) as { error?: string };
+  const message = String(body.error || 'Runner reported failure without a message');
+
+  const updated = await failTranscodeJob(env.DB, job, leaseId, message);
+  if (!updated) return json({ error: 'Lease expired' }, 409);
+
+  if (updated.status === 'failed') {
+    await reportFailedJob(updated, env);
+  } else {
+    console.warn(`[Transcode] ${job.id} attempt ${job.attempts} failed, retrying after ${updated.runAfter}: ${message}`);
+  }
+  return json({ success: true, job: updated });
+}
+
+/**
+ * Route a /jobs request. Returns null for paths this module doesn't own.
+ */
+export async function handleTranscodeRequest(request: Request, env: Env, url: URL): Promise<Response | null> {
+  if (url.pathname !== '/jobs' && !url.pathname.startsWith('/jobs/')) return null;
+
+  if (!keyMatches(request.headers.get('X-Runner-Key'), env.TRANSCODE_RUNNER_KEY)) {
+    return json({ error: 'Unauthorized' }, 401);
+  }
+
+  try {
+    if (url.pathname === '/jobs' && request.method === 'GET') {
+      const releaseId = url.searchParams.get('releaseId');
+      if (!releaseId) return json({ error: 'releaseId required' }, 400);
+      return json({ jobs: await getReleaseTranscodeJobs(env.DB, releaseId) });
+    }
+
+    if (url.pathname === '/jobs/lease' && request.method === 'POST') {
+      return await handleLease(request, env);
+    }
+
+    const match = url.pathname.match(JOB_ROUTE);
+    if (!match) return json({ error: 'Not found' }, 404);
+
+    const jobId = decodeURIComponent(match[1]!);
+    const action = match[2]!;
+    const leaseId = url.searchParams.get('lease') || '';
+    const job = leaseId ? await getLeasedJob(env.DB, jobId, leaseId) : null;
+    if (!job) return json({ error: 'Job not leased by this runner, or lease expired' }, 409);
+
+    if (action === 'source' && request.method === 'GET') {
+      const source = await env.RELEASES_BUCKET.get(job.sourceKey);
+      if (!source) return json({ error: `Master not found: ${job.sourceKey}` }, 404);
+      return new Response(source.body, {
+        headers: {
+          'Content-Type': source.httpMetadata?.contentType || 'application/octet-stream',
+          'Content-Length': String(source.size)
+        }
+      });
+    }
+    if (action === 'artwork' && request.method === 'GET') {
+      const artworkKey = typeof job.tags?.artworkKey === 'string' ? job.tags.artworkKey : null;
+      const artwork = artworkKey ? await env.RELEASES_BUCKET.get(artworkKey) : null;
+      if (!artwork) return json({ error: 'No artwork for this job' }, 404);
+      return new Response(artwork.body, {
+        headers: {
+          'Content-Type': artwork.httpMetadata?.contentType || 'application/octet-stream',
+          'Content-Length': String(artwork.size)
+        }
+      });
+    }
+    if (match[3] && request.method === 'PUT') {
+      return await handleOutput(request, env, job, match[3] as TranscodeOutput);
+    }
+    if (action === 'complete' && request.method === 'POST') {
+      return await handleComplete(request, env, job, leaseId);
+    }
+    if (action === 'fail' && request.method === 'POST') {
+      return await handleFail(request, env, job, leaseId);
+    }
+    return json({ error: 'Method not allowed' }, 405);
+  } catch (error) {
+    console.error('[Transcode] Request failed:', error);
+    return json({ error: error instanceof Error ? error.message : 'Unknown error' }, 500);
+  }
+}
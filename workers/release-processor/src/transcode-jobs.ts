@@ -0,0 +1,462 @@
+// transcode-jobs.ts - Durable audio transcoding queue for release masters
+//
+// Every track of a processed submission gets a row in D1 `transcode_jobs`
+// (shared with the main site, which shows the queue on /admin/approvals).
+// A transcode runner — anything with native ffmpeg, see runner/ — leases a
+// job, pulls the master through this Worker, pushes back a 320k MP3, a FLAC
+// and a preview clip, then reports success or failure:
+//
+//   queued ──lease──▶ running ──complete──▶ done
+//     ▲                  │
+//     └──fail (backoff)──┤
+//                        └──fail, out of attempts──▶ failed (admin emailed)
+//
+// A runner that dies mid-job simply lets its lease expire; the job is leased
+// again (counting as an attempt). Every state change is a conditional UPDATE,
+// so two runners can never hold the same job and a runner whose lease expired
+// can't overwrite the result of the one that took over.
+//
+// Every job also gets a waveform and loudness analysis (./waveform.ts), and
+// release tracks a tempo and key estimate (./tempo-key.ts). DJ mixes go
+// through the same queue as 'mix' jobs (queued by the mix-processor Worker):
+// they're published as uploaded, so the analysis is all they get.
+//
+// 'download' jobs are queued by the site when a buyer asks for a format that
+// hasn't been made yet: a tagged MP3, FLAC or AIFF of one track, made from
+// the master with the tags and artwork the site worked out (see the site's
+// src/lib/release/download-formats.ts). They touch no documents — the file
+// in R2 is the result.
+
+import { formatDuration, type AudioFormat, type AudioInfo } from './audio-info';
+import type { Loudness } from './waveform';
+import type { TrackMusical } from './tempo-key';
+
+export type TranscodeStatus = 'queued' | 'running' | 'done' | 'failed';
+export type TranscodeOutput = 'mp3' | 'flac' | 'aiff' | 'preview';
+export type TranscodeKind = 'track' | 'mix' | 'download';
+export type DownloadFormat = 'mp3' | 'flac' | 'aiff';
+
+// What's kept in D1 of a job's analysis; the peaks live in R2
+export interface JobAnalysis {
+  loudness: Loudness | null;
+  waveformKey: string | null;
+}
+
+export interface TranscodeJob {
+  id: string;
+  kind: TranscodeKind;
+  releaseId: string;             // the mix id, for a mix
+  trackNumber: number;           // 0 for a mix
+  title: string;
+  sourceKey: string;
+  sourceFormat: AudioFormat | null;
+  outputPrefix: string;          // releases/{releaseId}, or dj-mixes/{mixId}
+  status: TranscodeStatus;
+  attempts: number;
+  maxAttempts: number;
+  runAfter: string | null;
+  leaseId: string | null;
+  leaseExpiresAt: string | null;
+  runnerId: string | null;
+  lastError: string | null;
+  durationSeconds: number | null;
+  sampleRate: number | null;
+  bitDepth: number | null;
+  channels: number | null;
+  analysis: JobAnalysis | null;
+  format: DownloadFormat | null;         // download jobs only
+  tags: Record<string, unknown> | null;  // download jobs: what to embed, artworkKey included
+  tagsHash: string | null;
+  createdAt?: string;
+  updatedAt?: string;
+  completedAt?: string | null;
+}
+
+// What staging a master produces; the rest of the row is queue state
+export type NewTranscodeJob = Pick<TranscodeJob, 'releaseId' | 'trackNumber' | 'title' | 'sourceKey' | 'sourceFormat' | 'outputPrefix'>;
+
+export const MAX_ATTEMPTS = 4;
+// Long enough for ffmpeg on a 70MB master over a home connection
+export const LEASE_SECONDS = 20 * 60;
+
+export const OUTPUT_CONTENT_TYPES: Record<TranscodeOutput, string> = {
+  mp3: 'audio/mpeg',
+  flac: 'audio/flac',
+  aiff: 'audio/aiff',
+  preview: 'audio/mpeg',
+};
+
+const DOWNLOAD_FORMATS: DownloadFormat[] = ['mp3', 'flac', 'aiff'];
+
+// Previews: 90 seconds from a minute in, so the clip isn't the intro and
+// can't stand in for the whole track
+const PREVIEW_START = 60;
+const PREVIEW_LENGTH = 90;
+
+function parseJobAnalysis(value: unknown): JobAnalysis | null {
+  if (typeof value !== 'string' || !value) return null;
+  try {
+    return JSON.parse(value) as JobAnalysis;
+  } catch {
+    return null;
+  }
+}
+
+function parseTags(value: unknown): Record<string, unknown> | null {
+  if (typeof value !== 'string' || !value) return null;
+  try {
+    const tags = JSON.parse(value);
+    return tags && typeof tags === 'object' ? (tags as Record<string, unknown>) : null;
+  } catch {
+    return null;
+  }
+}
+
+function rowToJob(row: Record<string, unknown>): TranscodeJob {
+  const num = (v: unknown) => (v === null || v === undefined ? null : Number(v));
+  return {
+    id: row.id as string,
+    kind: row.kind === 'mix' || row.kind === 'download' ? row.kind : 'track',
+    releaseId: row.release_id as string,
+    trackNumber: Number(row.track_number),
+    title: (row.title as string) || '',
+    sourceKey: row.source_key as string,
+    sourceFormat: (row.source_format as AudioFormat) || null,
+    outputPrefix: row.output_prefix as string,
+    status: row.status as TranscodeStatus,
+    attempts: Number(row.attempts) || 0,
+    maxAttempts: Number(row.max_attempts) || MAX_ATTEMPTS,
+    runAfter: (row.run_after as string) || null,
+    leaseId: (row.lease_id as string) || null,
+    leaseExpiresAt: (row.lease_expires_at as string) || null,
+    runnerId: (row.runner_id as string) || null,
+    lastError: (row.last_error as string) || null,
+    durationSeconds: num(row.duration_seconds),
+    sampleRate: num(row.sample_rate),
+    bitDepth: num(row.bit_depth),
+    channels: num(row.channels),
+    analysis: parseJobAnalysis(row.analysis),
+    format: DOWNLOAD_FORMATS.includes(row.format as DownloadFormat) ? (row.format as DownloadFormat) : null,
+    tags: parseTags(row.tags),
+    tagsHash: (row.tags_hash as string) || null,
+    createdAt: row.created_at as string,
+    updatedAt: row.updated_at as string,
+    completedAt: (row.completed_at as string) || null,
+  };
+}
+
+export function transcodeJobId(releaseId: string, trackNumber: number): string {
+  return `${releaseId}:${trackNumber}`;
+}
+
+/**
+ * Seconds to wait before retrying after the given attempt failed: 1 min,
+ * 5 min, 25 min, capped at 6 hours
+ */
+export function retryDelaySeconds(attempt: number): number {
+  return Math.min(60 * 5 ** Math.max(0, attempt - 1), 6 * 60 * 60);
+}
+
+/**
+ * Where the preview clip comes from. Tracks too short for the usual window
+ * get a clip from the middle, or the whole track if it's under 90 seconds.
+ */
+export function previewWindow(durationSeconds: number | null): { start: number; length: number } {
+  if (!durationSeconds || durationSeconds >= PREVIEW_START + PREVIEW_LENGTH) {
+    return { start: PREVIEW_START, length: PREVIEW_LENGTH };
+  }
+  if (durationSeconds <= PREVIEW_LENGTH) return { start: 0, length: Math.floor(durationSeconds) };
+  return { start: Math.floor((durationSeconds - PREVIEW_LENGTH) / 2), length: PREVIEW_LENGTH };
+}
+
+function safeName(title: string): string {
+  return title
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-|-$/g, '')
+    .substring(0, 50) || 'track';
+}
+
+/**
+ * R2 keys each output is written to. A FLAC master is its own FLAC, and an
+ * MP3 upload (not a master, but accepted) is its own MP3.
+ */
+export function outputKeys(job: Pick<TranscodeJob, 'outputPrefix' | 'trackNumber' | 'title' | 'sourceKey' | 'sourceFormat'>): Record<'mp3' | 'flac' | 'preview', string> {
+  const paddedNum = job.trackNumber.toString().padStart(2, '0');
+  const base = `${job.outputPrefix}/tracks/${paddedNum}-${safeName(job.title)}`;
+  return {
+    mp3: job.sourceFormat === 'mp3' ? job.sourceKey : `${base}.mp3`,
+    flac: job.sourceFormat === 'flac' ? job.sourceKey : `${base}.flac`,
+    preview: `${job.outputPrefix}/previews/${paddedNum}-preview.mp3`,
+  };
+}
+
+/**
+ * R2 key of a download rendition. The tags hash is part of the name, so a
+ * release whose metadata changed gets a new file instead of overwriting one
+ * that's cached as immutable.
+ */
+export function downloadKey(job: Pick<TranscodeJob, 'outputPrefix' | 'trackNumber' | 'title' | 'format' | 'tagsHash'>): string {
+  const paddedNum = job.trackNumber.toString().padStart(2, '0');
+  const format = job.format || 'mp3';
+  return `${job.outputPrefix}/downloads/${format}/${paddedNum}-${safeName(job.title)}-${job.tagsHash || 'untagged'}.${format}`;
+}
+
+/**
+ * The R2 key of each output this job writes
+ */
+export function jobOutputKeys(
+  job: Pick<TranscodeJob, 'outputPrefix' | 'trackNumber' | 'title' | 'sourceKey' | 'sourceFormat' | 'format' | 'tagsHash'> & { kind?: TranscodeKind }
+): Partial<Record<TranscodeOutput, string>> {
+  if (job.kind === 'download') return job.format ? { [job.format]: downloadKey(job) } : {};
+  return outputKeys(job);
+}
+
+/**
+ * R2 key of the waveform file: next to the previews for a track, inside the
+ * mix's own folder for a mix
+ */
+export function waveformKey(job: Pick<TranscodeJob, 'kind' | 'outputPrefix' | 'trackNumber'>): string {
+  if (job.kind === 'mix') return `${job.outputPrefix}/waveform.json`;
+  return `${job.outputPrefix}/waveforms/${job.trackNumber.toString().padStart(2, '0')}-peaks.json`;
+}
+
+// Outputs the runner has to produce for this job
+export function requiredOutputs(job: Pick<TranscodeJob, 'sourceFormat'> & { kind?: TranscodeKind; format?: DownloadFormat | null }): TranscodeOutput[] {
+  if (job.kind === 'mix') return [];
+  if (job.kind === 'download') return job.format ? [job.format] : [];
+  if (job.sourceFormat === 'mp3') return ['preview'];
+  if (job.sourceFormat === 'flac') return ['mp3', 'preview'];
+  return ['mp3', 'flac', 'preview'];
+}
+
+// Outputs a finished job leaves behind, including the master itself where
+// it doubles as one
+export function finishedOutputs(job: Pick<TranscodeJob, 'sourceFormat'> & { kind?: TranscodeKind; format?: DownloadFormat | null }): TranscodeOutput[] {
+  if (job.kind === 'mix') return [];
+  if (job.kind === 'download') return job.format ? [job.format] : [];
+  return job.sourceFormat === 'mp3' ? ['mp3', 'preview'] : ['mp3', 'flac', 'preview'];
+}
+
+/**
+ * Add a job for a staged master, or reset an existing one (a resubmitted
+ * release) back to queued
+ */
+export async function enqueueTranscodeJob(
+  db: D1Database,
+  job: NewTranscodeJob,
+  info: AudioInfo | null
+): Promise<TranscodeJob> {
+  const id = transcodeJobId(job.releaseId, job.trackNumber);
+  const row = await db.prepare(
+    `INSERT INTO transcode_jobs (id, release_id, track_number, title, source_key, source_format, output_prefix,
+       status, attempts, max_attempts, run_after, duration_seconds, sample_rate, bit_depth, channels)
+     VALUES (?, ?, ?, ?, ?, ?, ?, 'queued', 0, ?, datetime('now'), ?, ?, ?, ?)
+     ON CONFLICT(id) DO UPDATE SET
+       title = excluded.title, source_key = excluded.source_key, source_format = excluded.source_format,
+       status = 'queued', attempts = 0, run_after = datetime('now'), lease_id = NULL, lease_expires_at = NULL,
+       last_error = NULL, duration_seconds = excluded.duration_seconds, sample_rate = excluded.sample_rate,
+       bit_depth = excluded.bit_depth, channels = excluded.channels, analysis = NULL, completed_at = NULL,
+       updated_at = datetime('now')
+     RETURNING *`
+  ).bind(
+    id,
+    job.releaseId,
+    job.trackNumber,
+    job.title,
+    job.sourceKey,
+    job.sourceFormat,
+    job.outputPrefix,
+    MAX_ATTEMPTS,
+    info?.durationSeconds ?? null,
+    info?.sampleRate ?? null,
+    info?.bitDepth ?? null,
+    info?.channels ?? null
+  ).first();
+  return rowToJob(row as Record<string, unknown>);
+}
+
+export async function getTranscodeJob(db: D1Database, id: string): Promise<TranscodeJob | null> {
+  const row = await db.prepare('SELECT * FROM transcode_jobs WHERE id = ?').bind(id).first();
+  return row ? rowToJob(row as Record<string, unknown>) : null;
+}
+
+export async function getReleaseTranscodeJobs(db: D1Database, releaseId: string): Promise<TranscodeJob[]> {
+  const { results } = await db.prepare('SELECT * FROM transcode_jobs WHERE release_id = ? ORDER BY track_number')
+    .bind(releaseId).all();
+  return (results || []).map(row => rowToJob(row as Record<string, unknown>));
+}
+
+/**
+ * Fail jobs whose runner went away on their last attempt. Returns them so
+ * the failure can be reported.
+ */
+export async function expireAbandonedJobs(db: D1Database): Promise<TranscodeJob[]> {
+  const { results } = await db.prepare(
+    `UPDATE transcode_jobs SET status = 'failed', lease_id = NULL,
+       last_error = 'Runner stopped responding before finishing (lease expired)', updated_at = datetime('now')
+     WHERE status = 'running' AND lease_expires_at < datetime('now') AND attempts >= max_attempts
+     RETURNING *`
+  ).all();
+  return (results || []).map(row => rowToJob(row as Record<string, unknown>));
+}
+
+/**
+ * Lease the next job that's due: queued and past its backoff, or running
+ * with an expired lease. Returns null when there's nothing to do or another
+ * runner got there first.
+ */
+export async function leaseTranscodeJob(db: D1Database, runnerId: string): Promise<TranscodeJob | null> {
+  const leaseId = crypto.randomUUID();
+  const due = `((status = 'queued' AND run_after <= datetime('now'))
+    OR (status = 'running' AND lease_expires_at < datetime('now') AND attempts < max_attempts))`;
+  const row = await db.prepare(
+    `UPDATE transcode_jobs SET status = 'running', attempts = attempts + 1, lease_id = ?, runner_id = ?,
+       lease_expires_at = datetime('now', ?), updated_at = datetime('now')
+     WHERE id = (SELECT id FROM transcode_jobs WHERE ${due} ORDER BY run_after, created_at LIMIT 1) AND ${due}
+     RETURNING *`
+  ).bind(leaseId, runnerId.slice(0, 100), `+${LEASE_SECONDS} seconds`).first();
+  return row ? rowToJob(row as Record<string, unknown>) : null;
+}
+
+// The job, if this lease still holds it
+export async function getLeasedJob(db: D1Database, id: string, leaseId: string): Promise<TranscodeJob | null> {
+  const row = await db.prepare(
+    `SELECT * FROM transcode_jobs WHERE id = ? AND lease_id = ? AND status = 'running' AND lease_expires_at >= datetime('now')`
+  ).bind(id, leaseId).first();
+  return row ? rowToJob(row as Record<string, unknown>) : null;
+}
+
+export async function completeTranscodeJob(
+  db: D1Database,
+  id: string,
+  leaseId: string,
+  info: Partial<Pick<AudioInfo, 'durationSeconds' | 'sampleRate' | 'bitDepth' | 'channels'>>,
+  outputs: Partial<Record<TranscodeOutput, string>>,
+  analysis: JobAnalysis | null
+): Promise<TranscodeJob | null> {
+  // Header values read when the master was staged win over the runner's
+  const row = await db.prepare(
+    `UPDATE transcode_jobs SET status = 'done', lease_id = NULL, lease_expires_at = NULL, last_error = NULL,
+       outputs = ?, analysis = ?, duration_seconds = COALESCE(duration_seconds, ?), sample_rate = COALESCE(sample_rate, ?),
+       bit_depth = COALESCE(bit_depth, ?), channels = COALESCE(channels, ?),
+       completed_at = datetime('now'), updated_at = datetime('now')
+     WHERE id = ? AND lease_id = ? AND status = 'running'
+     RETURNING *`
+  ).bind(
+    JSON.stringify(outputs),
+    analysis ? JSON.stringify(analysis) : null,
+    info.durationSeconds ?? null,
+    info.sampleRate ?? null,
+    info.bitDepth ?? null,
+    info.channels ?? null,
+    id,
+    leaseId
+  ).first();
+  return row ? rowToJob(row as Record<string, unknown>) : null;
+}
+
+/**
+ * Record a failed attempt: back to queued after a backoff, or failed for
+ * good once out of attempts
+ */
+export async function failTranscodeJob(
+  db: D1Database,
+  job: TranscodeJob,
+  leaseId: string,
+  message: string
+): Promise<TranscodeJob | null> {
+  const final = job.attempts >= job.maxAttempts;
+  const row = await db.prepare(
+    `UPDATE transcode_jobs SET status = ?, lease_id = NULL, lease_expires_at = NULL, last_error = ?,
+       run_after = datetime('now', ?), updated_at = datetime('now')
+     WHERE id = ? AND lease_id = ? AND status = 'running'
+     RETURNING *`
+  ).bind(
+    final ? 'failed' : 'queued',
+    message.slice(0, 1000),
+    `+${final ? 0 : retryDelaySeconds(job.attempts)} seconds`,
+    job.id,
+    leaseId
+  ).first();
+  return row ? rowToJob(row as Record<string, unknown>) : null;
+}
+
+// What the players draw: the whole track, plus the stretch the preview clip
+// was cut from
+export interface TrackWaveform {
+  url: string;
+  peaks: number[];
+  previewPeaks: number[];
+}
+
+export interface TranscodeResult {
+  status: TranscodeStatus;
+  urls?: Partial<Record<TranscodeOutput, string>>;
+  info?: Partial<Pick<AudioInfo, 'durationSeconds' | 'sampleRate' | 'bitDepth' | 'channels'>>;
+  waveform?: TrackWaveform;
+  loudness?: Loudness;
+  musical?: TrackMusical;
+}
+
+// An artist's BPM counts as entered if it reads as a number ('174', '174 BPM')
+const hasBpm = (value: unknown) => parseFloat(String(value ?? '')) > 0;
+const hasKey = (value: unknown) => String(value ?? '').trim() !== '';
+
+/**
+ * Merge a job's outcome into a release's track array, matched on trackNumber.
+ * Everything else on the track (ISRC, remixer…) is left alone, and a track
+ * that didn't get a new MP3 keeps whatever URLs it already had. The artist's
+ * bpm and key are only filled in when they left them blank; the estimates are
+ * always kept alongside, so the two can be compared.
+ */
+export function applyTranscodeResult(
+  tracks: Array<Record<string, unknown>>,
+  trackNumber: number,
+  result: TranscodeResult
+): { tracks: Array<Record<string, unknown>>; matched: boolean } {
+  let matched = false;
+
+  const updated = tracks.map((t, i) => {
+    if (Number(t.trackNumber ?? t.track_number ?? i + 1) !== trackNumber) return t;
+    matched = true;
+
+    const next: Record<string, unknown> = { ...t, transcodeStatus: result.status };
+    const { urls = {}, info = {} } = result;
+    if (urls.mp3) {
+      next.mp3Url = urls.mp3;
+      next.url = urls.mp3;
+    }
+    if (urls.preview) {
+      next.previewUrl = urls.preview;
+      next.preview_url = urls.preview;
+    }
+    if (urls.flac) next.flacUrl = urls.flac;
+    if (info.durationSeconds) {
+      next.duration = formatDuration(info.durationSeconds);
+      next.durationSeconds = info.durationSeconds;
+    }
+    if (info.sampleRate) next.sampleRate = info.sampleRate;
+    if (info.bitDepth) next.bitDepth = info.bitDepth;
+    if (info.channels) next.channels = info.channels;
+    if (result.waveform) {
+      next.waveform = result.waveform.peaks;
+      next.previewWaveform = result.waveform.previewPeaks;
+      next.waveformUrl = result.waveform.url;
+    }
+    if (result.loudness) next.loudness = result.loudness;
+    const { musical } = result;
+    if (musical?.bpm) {
+      next.detectedBpm = musical.bpm;
+      if (!hasBpm(t.bpm)) next.bpm = String(musical.bpm);
+    }
+    if (musical?.key && musical.camelot) {
+      next.detectedKey = musical.key;
+      next.camelotKey = musical.camelot;
+      if (!hasKey(t.key)) next.key = musical.key;
+    }
+    return next;
+  });
+
+  return { tracks: updated, matched };
+}
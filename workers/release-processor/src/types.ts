@@ -5,6 +5,9 @@ export interface Env {
   UPLOADS_BUCKET: R2Bucket;
   RELEASES_BUCKET: R2Bucket;
 
+  // D1 (shared freshwax-db) - transcode_jobs
+  DB: D1Database;
+
   // Environment variables
   R2_PUBLIC_DOMAIN: string;
 
@@ -13,6 +16,7 @@ export interface Env {
   FIREBASE_API_KEY: string;
   RESEND_API_KEY: string;
   ADMIN_EMAIL: string;
+  TRANSCODE_RUNNER_KEY: string;
 }
 
 export interface TrackMetadata {
@@ -144,7 +148,14 @@ export interface ProcessedTrack {
   mp3Url: string;
   wavUrl: string;
   previewUrl: string;
+  flacUrl?: string;
+  masterUrl?: string;
   duration?: number | string;
+  durationSeconds?: number;
+  sampleRate?: number;
+  bitDepth?: number;
+  channels?: number;
+  transcodeStatus?: 'queued' | 'running' | 'done' | 'failed';
   bpm?: number;
   key?: string;
   trackISRC?: string;
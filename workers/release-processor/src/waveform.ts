@@ -0,0 +1,114 @@
+// waveform.ts - Waveform peaks and loudness measured by the transcode runner
+//
+// The runner decodes every file it's given (release masters and DJ mixes) and
+// reports, alongside its transcodes:
+//   - peaks: the loudest sample in each of up to 2048 equal slices of the
+//     audio, scaled 0-255
+//   - integrated loudness (LUFS), true peak (dBTP) and loudness range (LU),
+//     from ffmpeg's EBU R128 meter
+//
+// Nothing from the runner is trusted as-is: this module validates it, builds
+// the coarser resolutions by max-pooling and shapes what's stored — a JSON
+// file of every resolution in R2 next to the audio, and a small copy inline
+// on the track or mix document for the players, so a page never has to fetch
+// the waveform separately.
+
+export interface Loudness {
+  integratedLufs: number;
+  truePeakDbtp: number;
+  loudnessRange: number | null;
+}
+
+export interface AudioAnalysis {
+  peaks: number[];
+  loudness: Loudness | null;
+}
+
+// Resolutions in the R2 waveform file, in bars across the whole file
+export const WAVEFORM_LEVELS = [2048, 1024, 512, 128] as const;
+
+// Stored inline on the document: enough for a full-width player without
+// bloating release listings
+export const TRACK_WAVEFORM_BARS = 512;
+export const PREVIEW_WAVEFORM_BARS = 256;
+export const MIX_WAVEFORM_BARS = 1024;
+
+const MIN_PEAKS = 16;
+const MAX_PEAKS = 8192;
+
+export interface WaveformDocument {
+  version: 1;
+  durationSeconds: number | null;
+  loudness: Loudness | null;
+  levels: Record<string, number[]>;
+}
+
+function finite(value: unknown, min: number, max: number): number | null {
+  return typeof value === 'number' && Number.isFinite(value) && value >= min && value <= max ? value : null;
+}
+
+const round1 = (n: number) => Math.round(n * 10) / 10;
+
+/**
+ * Validate what a runner reported. Returns null if there's nothing usable;
+ * good peaks with a broken loudness reading (or vice versa) keep the good half.
+ */
+export function parseAnalysis(raw: unknown): AudioAnalysis | null {
+  if (!raw || typeof raw !== 'object') return null;
+  const data = raw as Record<string, unknown>;
+
+  let peaks: number[] = [];
+  if (Array.isArray(data.peaks) && data.peaks.length >= MIN_PEAKS && data.peaks.length <= MAX_PEAKS) {
+    const values = data.peaks.map(v => finite(v, 0, 255));
+    if (values.every(v => v !== null)) peaks = (values as number[]).map(v => Math.round(v));
+  }
+
+  // ebur128 measures silence as -70 LUFS; anything hotter than +10 is a bad read
+  const integrated = finite(data.integratedLufs, -70, 10);
+  const truePeak = finite(data.truePeakDbtp, -100, 20);
+  const range = finite(data.loudnessRange, 0, 100);
+  const loudness = integrated !== null && truePeak !== null
+    ? { integratedLufs: round1(integrated), truePeakDbtp: round1(truePeak), loudnessRange: range === null ? null : round1(range) }
+    : null;
+
+  if (peaks.length === 0 && !loudness) return null;
+  return { peaks, loudness };
+}
+
+/**
+ * Reduce peaks to the given number of bars, keeping the loudest value in each.
+ * Peaks that are already that coarse come back unchanged.
+ */
+export function downsamplePeaks(peaks: number[], bars: number): number[] {
+  if (peaks.length <= bars) return peaks.slice();
+  const out: number[] = [];
+  for (let i = 0; i < bars; i++) {
+    const from = Math.floor((i * peaks.length) / bars);
+    const to = Math.max(from + 1, Math.floor(((i + 1) * peaks.length) / bars));
+    let max = 0;
+    for (let j = from; j < to; j++) max = Math.max(max, peaks[j]!);
+    out.push(max);
+  }
+  return out;
+}
+
+/**
+ * The peaks covering [start, start + length) seconds of a file, for the
+ * waveform of a preview clip cut from it
+ */
+export function slicePeaks(peaks: number[], durationSeconds: number, start: number, length: number): number[] {
+  if (!peaks.length || !(durationSeconds > 0)) return [];
+  const from = Math.max(0, Math.floor((start / durationSeconds) * peaks.length));
+  const to = Math.min(peaks.length, Math.ceil(((start + length) / durationSeconds) * peaks.length));
+  return peaks.slice(from, Math.max(from, to));
+}
+
+export function buildWaveformDocument(analysis: AudioAnalysis, durationSeconds: number | null): WaveformDocument {
+  const levels: Record<string, number[]> = {};
+  for (const bars of WAVEFORM_LEVELS) {
+    if (analysis.peaks.length >= bars) levels[bars] = downsamplePeaks(analysis.peaks, bars);
+  }
+  // A runner that sent fewer peaks than the smallest level still gets them kept
+  if (Object.keys(levels).length === 0 && analysis.peaks.length) levels[analysis.peaks.length] = analysis.peaks.slice();
+  return { version: 1, durationSeconds, loudness: analysis.loudness, levels };
+}